@@ -14,8 +14,15 @@ import {
   ActivityType,
 } from '@/lib/db/schema';
 import { comparePasswords, hashPassword, setSession } from '@/lib/auth/session';
+import {
+  mfaService,
+  MfaServiceError,
+  MFA_CHALLENGE_COOKIE,
+  MFA_CHALLENGE_TTL_SECONDS,
+} from '@/lib/auth/mfa-service';
+import { logMfaEvent, securityEventTypes } from '@/lib/logging/security-logger';
 import { redirect } from 'next/navigation';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { getUser } from '@/lib/db/queries';
 import {
   validatedAction,
@@ -90,11 +97,32 @@ export const signIn = validatedAction(signInSchema, async (data, formData) => {
       };
     }
 
+    // With MFA on, the session is only created once the code is verified
+    if (await mfaService.isEnabled(user.id)) {
+      const challenge = await mfaService.createChallenge(user.id);
+      (await cookies()).set(MFA_CHALLENGE_COOKIE, challenge, {
+        maxAge: MFA_CHALLENGE_TTL_SECONDS,
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+      });
+
+      return { mfaRequired: true, email };
+    }
+
+    const mfaEnrollmentRequired = await mfaService.isRequired(user);
+
     await Promise.all([
-      setSession(user),
+      setSession(user, undefined, undefined, mfaEnrollmentRequired),
       logActivity(user.id, ActivityType.SIGN_IN)
     ]);
 
+    // Members who must use MFA set it up before anything else
+    if (mfaEnrollmentRequired) {
+      redirect('/settings?mfa=required');
+    }
+
     // Get redirect parameter from form data, default to home page
     const redirectTo = formData.get('redirect') as string || '/';
     redirect(redirectTo);
@@ -114,6 +142,70 @@ export const signIn = validatedAction(signInSchema, async (data, formData) => {
   }
 });
 
+const verifyMfaSchema = z.object({
+  code: z.string().trim().min(6).max(20)
+});
+
+// Second sign-in step: an authenticator code or a backup code
+export const verifyMfa = validatedAction(verifyMfaSchema, async (data, formData) => {
+  const cookieStore = await cookies();
+  const challenge = cookieStore.get(MFA_CHALLENGE_COOKIE)?.value;
+  const ipAddress = (await headers()).get('x-forwarded-for')?.split(',')[0]?.trim() || undefined;
+
+  if (!challenge) {
+    return { error: 'Your sign-in has expired. Please sign in again.', mfaExpired: true };
+  }
+
+  try {
+    const { userId, method } = await mfaService.verifyChallenge(challenge, data.code, ipAddress);
+    cookieStore.delete(MFA_CHALLENGE_COOKIE);
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return { error: 'Your sign-in has expired. Please sign in again.', mfaExpired: true };
+    }
+
+    await Promise.all([
+      setSession(user),
+      logActivity(user.id, ActivityType.SIGN_IN),
+      logMfaEvent(
+        method === 'backup_code' ? securityEventTypes.MFA_BACKUP_CODE_USED : securityEventTypes.MFA_SUCCESS,
+        user.id.toString(),
+        user.email,
+        ipAddress
+      )
+    ]);
+
+    // After signing in with a backup code, point the user at their MFA settings
+    const redirectTo = method === 'backup_code'
+      ? '/settings?mfa=recovered'
+      : formData.get('redirect') as string || '/';
+    redirect(redirectTo);
+  } catch (error) {
+    if (error && typeof error === 'object' && 'digest' in error &&
+        typeof (error as any).digest === 'string' &&
+        (error as any).digest.startsWith('NEXT_REDIRECT')) {
+      throw error;
+    }
+
+    if (error instanceof MfaServiceError) {
+      const expired = error.code !== 'MFA_CODE_INVALID';
+      if (expired) {
+        cookieStore.delete(MFA_CHALLENGE_COOKIE);
+      }
+      return { error: error.message, mfaExpired: expired };
+    }
+
+    console.error('[VerifyMfa] Error during two-factor verification:', error);
+    return { error: 'An unexpected error occurred. Please try again.' };
+  }
+});
+
 const signUpSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8),
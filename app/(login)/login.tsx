@@ -6,8 +6,8 @@ import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { CircleIcon, Loader2 } from 'lucide-react';
-import { signIn, signUp } from './actions';
+import { CircleIcon, Loader2, ShieldCheck } from 'lucide-react';
+import { signIn, signUp, verifyMfa } from './actions';
 import { ActionState } from '@/lib/auth/middleware';
 
 export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
@@ -20,6 +20,10 @@ export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
     { error: '' }
   );
 
+  if (mode === 'signin' && state.mfaRequired) {
+    return <MfaChallenge redirect={redirect} />;
+  }
+
   return (
     <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-background">
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
@@ -184,3 +188,91 @@ export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
     </div>
   );
 }
+
+// Second sign-in step, shown once the password was accepted
+function MfaChallenge({ redirect }: { redirect: string | null }) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    verifyMfa,
+    { error: '' }
+  );
+
+  return (
+    <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-background">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <ShieldCheck className="h-12 w-12 text-primary" suppressHydrationWarning />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+          Two-factor authentication
+        </h2>
+        <p className="mt-2 text-center text-sm text-muted-foreground">
+          Enter the code from your authenticator app, or one of your backup codes.
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        {state?.mfaExpired ? (
+          <div className="space-y-6">
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {state.error}
+            </div>
+            <a
+              href={`/sign-in${redirect ? `?redirect=${redirect}` : ''}`}
+              className="w-full flex justify-center py-2 px-4 border border-input rounded-full shadow-sm text-sm font-medium text-foreground bg-background hover:bg-accent"
+            >
+              Back to sign in
+            </a>
+          </div>
+        ) : (
+          <form className="space-y-6" action={formAction}>
+            <input type="hidden" name="redirect" value={redirect || ''} />
+            <div>
+              <Label
+                htmlFor="code"
+                className="block text-sm font-medium text-foreground"
+              >
+                Authentication code
+              </Label>
+              <div className="mt-1">
+                <Input
+                  id="code"
+                  name="code"
+                  type="text"
+                  inputMode="text"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  minLength={6}
+                  maxLength={20}
+                  className="rounded-full font-mono tracking-widest text-center"
+                  placeholder="123456"
+                />
+              </div>
+            </div>
+
+            {state?.error && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                {state.error}
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full rounded-full"
+              disabled={pending}
+            >
+              {pending ? (
+                <>
+                  <Loader2 className="animate-spin mr-2 h-4 w-4" suppressHydrationWarning />
+                  Verifying...
+                </>
+              ) : (
+                'Verify'
+              )}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
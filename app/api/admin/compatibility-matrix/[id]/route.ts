@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, isAdmin, SessionData } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { MatrixEntryUpdateSchema } from '@/lib/compatibility/compatibility-matrix';
+import {
+  compatibilityMatrixService,
+  MatrixServiceError,
+  MatrixActor,
+} from '@/lib/compatibility/matrix-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+function getActor(session: SessionData): MatrixActor {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+    isSystemAdmin: isAdmin(session),
+  };
+}
+
+function handleMatrixError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid matrix entry', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof MatrixServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const entry = await compatibilityMatrixService.getEntry(params.id, getActor(session).organizationId);
+
+    return NextResponse.json({ entry });
+
+  } catch (error) {
+    return handleMatrixError(error, 'Failed to fetch matrix entry:');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const updates = MatrixEntryUpdateSchema.parse(await request.json());
+    const entry = await compatibilityMatrixService.updateEntry(params.id, updates, getActor(session));
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.MATRIX_UPDATED,
+      entityType: 'compatibility_matrix',
+      description: `Matrix entry updated: ${entry.application} / ${entry.securityTool}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        entryId: entry.id,
+        change: 'updated',
+        fields: Object.keys(updates),
+      },
+    });
+
+    return NextResponse.json({ entry });
+
+  } catch (error) {
+    return handleMatrixError(error, 'Failed to update matrix entry:');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_DELETE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const entry = await compatibilityMatrixService.deleteEntry(params.id, getActor(session));
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.MATRIX_UPDATED,
+      entityType: 'compatibility_matrix',
+      description: `Matrix entry deleted: ${entry.application} / ${entry.securityTool}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        entryId: entry.id,
+        change: 'deleted',
+      },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return handleMatrixError(error, 'Failed to delete matrix entry:');
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isAdmin } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { parseMatrixImport } from '@/lib/compatibility/compatibility-matrix';
+import { compatibilityMatrixService, MatrixServiceError } from '@/lib/compatibility/matrix-service';
+
+// Matrix documents are small; reject anything that is clearly not one
+const MAX_IMPORT_SIZE = 5 * 1024 * 1024; // 5MB
+
+function detectFormat(name: string, contentType: string): 'csv' | 'json' | null {
+  if (contentType.includes('json') || name.toLowerCase().endsWith('.json')) return 'json';
+  if (contentType.includes('csv') || name.toLowerCase().endsWith('.csv')) return 'csv';
+  return null;
+}
+
+// Import a CSV or JSON matrix, sent as a multipart `file` field or as the raw request body
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const mode = searchParams.get('mode') === 'replace' ? 'replace' : 'merge';
+    const contentType = request.headers.get('content-type') || '';
+
+    let content: string;
+    let format: 'csv' | 'json' | null;
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
+      if (file.size > MAX_IMPORT_SIZE) {
+        return NextResponse.json({ error: 'Matrix file is too large' }, { status: 413 });
+      }
+      content = await file.text();
+      format = detectFormat(file.name, file.type);
+    } else {
+      content = await request.text();
+      if (content.length > MAX_IMPORT_SIZE) {
+        return NextResponse.json({ error: 'Matrix document is too large' }, { status: 413 });
+      }
+      format = detectFormat('', contentType);
+    }
+
+    const requestedFormat = searchParams.get('format');
+    if (requestedFormat === 'csv' || requestedFormat === 'json') {
+      format = requestedFormat;
+    }
+
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Unable to determine format; send CSV or JSON or pass ?format=' },
+        { status: 400 }
+      );
+    }
+
+    const { entries, errors } = parseMatrixImport(content, format);
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid matrix entries found', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const summary = await compatibilityMatrixService.importEntries(entries, {
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+      isSystemAdmin: isAdmin(session),
+    }, mode);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.MATRIX_IMPORTED,
+      entityType: 'compatibility_matrix',
+      description: `Compatibility matrix imported (${summary.created} created, ${summary.updated} updated)`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        format,
+        mode,
+        ...summary,
+        skippedRows: errors.length,
+      },
+    });
+
+    return NextResponse.json({ summary, errors });
+
+  } catch (error) {
+    console.error('Failed to import compatibility matrix:', error);
+
+    if (error instanceof MatrixServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
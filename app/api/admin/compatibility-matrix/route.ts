@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, isAdmin } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { MatrixEntryInputSchema, serializeMatrix } from '@/lib/compatibility/compatibility-matrix';
+import { compatibilityMatrixService, MatrixServiceError } from '@/lib/compatibility/matrix-service';
+
+// List matrix entries, or export the whole matrix with ?format=csv|json
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const organizationId = session.user.organizationId?.toString() ?? null;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format');
+
+    if (format === 'csv' || format === 'json') {
+      const entries = await compatibilityMatrixService.getMatrix(organizationId);
+      const date = new Date().toISOString().split('T')[0];
+
+      return new NextResponse(serializeMatrix(entries, format), {
+        headers: {
+          'Content-Type': format === 'csv' ? 'text/csv' : 'application/json',
+          'Content-Disposition': `attachment; filename="compatibility-matrix-${date}.${format}"`,
+        },
+      });
+    }
+
+    const application = searchParams.get('application');
+    const securityTool = searchParams.get('securityTool');
+    const status = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const { entries, total } = await compatibilityMatrixService.listEntries(organizationId, {
+      ...(application ? { application } : {}),
+      ...(securityTool ? { securityTool } : {}),
+      ...(status && status !== 'all' ? { status } : {}),
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      entries,
+      total,
+      limit,
+      offset,
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch compatibility matrix:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = MatrixEntryInputSchema.parse(await request.json());
+
+    const entry = await compatibilityMatrixService.createEntry(input, {
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+      isSystemAdmin: isAdmin(session),
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.MATRIX_UPDATED,
+      entityType: 'compatibility_matrix',
+      description: `Matrix entry created: ${entry.application} / ${entry.securityTool}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        entryId: entry.id,
+        change: 'created',
+        status: entry.status,
+      },
+    });
+
+    return NextResponse.json({ entry }, { status: 201 });
+
+  } catch (error) {
+    console.error('Failed to create matrix entry:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid matrix entry', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof MatrixServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, isAdmin, SessionData } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import type { RuleActor } from '@/lib/compatibility/rule-service';
+import { patternLibraryService, PatternServiceError, PatternUpdateSchema } from '@/lib/patterns/pattern-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+function getActor(session: SessionData): RuleActor {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+    isSystemAdmin: isAdmin(session),
+  };
+}
+
+function handlePatternError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid pattern', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof PatternServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const pattern = await patternLibraryService.getPattern(params.id, getActor(session).organizationId);
+
+    return NextResponse.json({ pattern });
+
+  } catch (error) {
+    return handlePatternError(error, 'Failed to fetch pattern:');
+  }
+}
+
+// Update a pattern; { isEnabled: false } disables it
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const updates = PatternUpdateSchema.parse(await request.json());
+    const pattern = await patternLibraryService.updatePattern(params.id, updates, getActor(session));
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.PATTERN_UPDATED,
+      entityType: 'detection_pattern',
+      description: `Pattern updated: ${pattern.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        patternId: pattern.id,
+        fields: Object.keys(updates),
+        isEnabled: pattern.isEnabled,
+      },
+    });
+
+    return NextResponse.json({ pattern });
+
+  } catch (error) {
+    return handlePatternError(error, 'Failed to update pattern:');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_DELETE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const pattern = await patternLibraryService.deletePattern(params.id, getActor(session));
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.PATTERN_DELETED,
+      entityType: 'detection_pattern',
+      description: `Pattern deleted: ${pattern.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        patternId: pattern.id,
+        name: pattern.name,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return handlePatternError(error, 'Failed to delete pattern:');
+  }
+}
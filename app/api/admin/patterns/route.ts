@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, isAdmin } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { patternLibraryService, PatternInputSchema, PatternServiceError } from '@/lib/patterns/pattern-service';
+
+// List the pattern library visible to the caller's organization
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const category = searchParams.get('category');
+    const enabled = searchParams.get('enabled');
+
+    const patterns = await patternLibraryService.listPatterns(session.user.organizationId?.toString() ?? null, {
+      ...(category && category !== 'all' ? { category } : {}),
+      ...(enabled === 'true' || enabled === 'false' ? { isEnabled: enabled === 'true' } : {}),
+    });
+
+    return NextResponse.json({ patterns, total: patterns.length });
+
+  } catch (error) {
+    console.error('Failed to fetch patterns:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = PatternInputSchema.parse(await request.json());
+
+    const pattern = await patternLibraryService.createPattern(input, {
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+      isSystemAdmin: isAdmin(session),
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.PATTERN_CREATED,
+      entityType: 'detection_pattern',
+      description: `Pattern created: ${pattern.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        patternId: pattern.id,
+        name: pattern.name,
+        category: pattern.category,
+      },
+    });
+
+    return NextResponse.json({ pattern }, { status: 201 });
+
+  } catch (error) {
+    console.error('Failed to create pattern:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid pattern', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PatternServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
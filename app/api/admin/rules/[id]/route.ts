@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSession } from '@/lib/auth/session';
+import { z } from 'zod';
+import { getSession, isAdmin, SessionData } from '@/lib/auth/session';
 import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import {
+  ruleService,
+  RuleUpdateSchema,
+  RuleServiceError,
+  RuleActor,
+} from '@/lib/compatibility/rule-service';
 
 interface RouteParams {
   params: {
@@ -8,8 +17,36 @@ interface RouteParams {
   };
 }
 
-// TODO: Implement compatibility rules table in schema
-// Current schema doesn't have a compatibilityRules table
+function getActor(session: SessionData): RuleActor {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+    isSystemAdmin: isAdmin(session),
+  };
+}
+
+function handleRuleError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid rule', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof RuleServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, ...(error.details ? { details: error.details } : {}) },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -18,27 +55,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!hasPermission(session.user.role, Permission.RULE_READ)) {
+    if (!hasPermission(session, Permission.RULE_READ)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const ruleId = params.id;
-    
-    // Return 501 Not Implemented since the compatibilityRules table doesn't exist
-    return NextResponse.json(
-      { 
-        error: 'Rule management feature not yet implemented',
-        message: 'The compatibility rules table is not yet implemented in the database schema'
-      },
-      { status: 501 }
-    );
+    const rule = await ruleService.getRule(params.id, getActor(session).organizationId);
+    const versions = await ruleService.getRuleVersions(rule.id);
+
+    return NextResponse.json({ rule, versions });
 
   } catch (error) {
-    console.error('Failed to fetch rule:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleRuleError(error, 'Failed to fetch rule:');
   }
 }
 
@@ -49,24 +76,34 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!hasPermission(session.user.role, Permission.RULE_WRITE)) {
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    return NextResponse.json(
-      { 
-        error: 'Rule management feature not yet implemented',
-        message: 'The compatibility rules table is not yet implemented in the database schema'
-      },
-      { status: 501 }
-    );
+    const updates = RuleUpdateSchema.parse(await request.json());
+    const { rule, changes } = await ruleService.updateRule(params.id, updates, getActor(session));
+
+    if (changes.length > 0) {
+      await logActivity({
+        userId: session.user.id,
+        ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+        action: ActivityType.RULE_UPDATED,
+        entityType: 'compatibility_rule',
+        description: `Rule updated: ${rule.name} (v${rule.version})`,
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        metadata: {
+          ruleId: rule.id,
+          version: rule.version,
+          changes,
+        },
+      });
+    }
+
+    return NextResponse.json({ rule, changes });
 
   } catch (error) {
-    console.error('Failed to update rule:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleRuleError(error, 'Failed to update rule:');
   }
 }
 
@@ -77,23 +114,29 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!hasPermission(session.user.role, Permission.RULE_DELETE)) {
+    if (!hasPermission(session, Permission.RULE_DELETE)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    return NextResponse.json(
-      { 
-        error: 'Rule management feature not yet implemented',
-        message: 'The compatibility rules table is not yet implemented in the database schema'
+    const rule = await ruleService.deleteRule(params.id, getActor(session));
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.RULE_DELETED,
+      entityType: 'compatibility_rule',
+      description: `Rule deleted: ${rule.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        ruleId: rule.id,
+        version: rule.version,
       },
-      { status: 501 }
-    );
+    });
+
+    return NextResponse.json({ success: true });
 
   } catch (error) {
-    console.error('Failed to delete rule:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleRuleError(error, 'Failed to delete rule:');
   }
 }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, isAdmin } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { RuleServiceError } from '@/lib/compatibility/rule-service';
+import { ruleBacktestService, RuleTestSchema } from '@/lib/compatibility/rule-backtest-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Dry-run a draft of a rule (or of a new rule, with id "new") against samples or recent scans
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = RuleTestSchema.parse(await request.json());
+
+    const result = await ruleBacktestService.testRule(params.id, input, {
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+      isSystemAdmin: isAdmin(session),
+    });
+
+    return NextResponse.json({ result });
+
+  } catch (error) {
+    console.error('Failed to test rule:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid rule test', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RuleServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
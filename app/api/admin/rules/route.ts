@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSession } from '@/lib/auth/session';
+import { z } from 'zod';
+import { getSession, isAdmin } from '@/lib/auth/session';
 import { hasPermission, Permission } from '@/lib/auth/permissions';
-
-// Note: This endpoint is currently returning mock data as the compatibilityRules table
-// does not exist in the schema yet. This feature will be implemented in a future update.
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { ruleService, RuleInputSchema, RuleServiceError } from '@/lib/compatibility/rule-service';
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,17 +13,35 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!hasPermission(session.user.role, Permission.RULE_READ)) {
+    if (!hasPermission(session, Permission.RULE_READ)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Return empty list for now
-    // TODO: Implement compatibilityRules table and actual rule management
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get('search');
+    const category = searchParams.get('category');
+    const severity = searchParams.get('severity');
+    const isActive = searchParams.get('isActive');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const { rules, total } = await ruleService.listRules(
+      session.user.organizationId?.toString() ?? null,
+      {
+        ...(search ? { search } : {}),
+        ...(category && category !== 'all' ? { category } : {}),
+        ...(severity && severity !== 'all' ? { severity } : {}),
+        ...(isActive && isActive !== 'all' ? { isActive: isActive === 'true' } : {}),
+        limit,
+        offset,
+      }
+    );
+
     return NextResponse.json({
-      rules: [],
-      total: 0,
-      limit: 50,
-      offset: 0,
+      rules,
+      total,
+      limit,
+      offset,
     });
 
   } catch (error) {
@@ -41,19 +60,53 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!hasPermission(session.user.role, Permission.RULE_WRITE)) {
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Return feature not implemented error
-    // TODO: Implement compatibilityRules table and actual rule creation
-    return NextResponse.json(
-      { error: 'Rule management feature not yet implemented' },
-      { status: 501 }
-    );
+    const input = RuleInputSchema.parse(await request.json());
+
+    const rule = await ruleService.createRule(input, {
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+      isSystemAdmin: isAdmin(session),
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.RULE_CREATED,
+      entityType: 'compatibility_rule',
+      description: `Rule created: ${rule.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        ruleId: rule.id,
+        version: rule.version,
+        severity: rule.severity,
+        isActive: rule.isActive,
+      },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
 
   } catch (error) {
     console.error('Failed to create rule:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid rule', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RuleServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details ? { details: error.details } : {}) },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ruleService } from '@/lib/compatibility/rule-service';
+
+// Re-run every rule's examples, e.g. after a scoring profile or pattern library change
+export async function POST(_request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const reports = await ruleService.runAllRuleTests(session.user.organizationId?.toString() ?? null);
+    const failed = reports.filter(report => !report.passed);
+
+    return NextResponse.json({
+      reports,
+      summary: {
+        tested: reports.length,
+        passed: reports.length - failed.length,
+        failed: failed.length,
+        // Active rules that would no longer be allowed to activate
+        brokenActive: failed.filter(report => report.isActive).length,
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to run rule tests:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, isAdmin } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { ScoringProfileUpdateSchema } from '@/lib/compatibility/scoring-profile';
+import { scoringProfileService, ScoringProfileError } from '@/lib/compatibility/scoring-profile-service';
+
+// The active scoring profile and its saved versions, or one version with ?version=N
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const organizationId = session.user.organizationId?.toString() ?? null;
+    const version = new URL(request.url).searchParams.get('version');
+
+    if (version !== null) {
+      const parsed = parseInt(version);
+      if (isNaN(parsed) || parsed < 0) {
+        return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+      }
+
+      return NextResponse.json({ profile: await scoringProfileService.getVersion(organizationId, parsed) });
+    }
+
+    const [active, versions] = await Promise.all([
+      scoringProfileService.getActiveProfile(organizationId),
+      scoringProfileService.listVersions(organizationId),
+    ]);
+
+    return NextResponse.json({ active, versions });
+
+  } catch (error) {
+    console.error('Failed to fetch scoring profile:', error);
+
+    if (error instanceof ScoringProfileError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a new profile version from the changed settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const update = ScoringProfileUpdateSchema.parse(await request.json());
+
+    const saved = await scoringProfileService.saveProfile(update, {
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+      isSystemAdmin: isAdmin(session),
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCORING_PROFILE_UPDATED,
+      entityType: 'scoring_profile',
+      description: `Scoring profile version ${saved.version} saved`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        profileId: saved.id,
+        version: saved.version,
+        changed: Object.keys(update.profile),
+      },
+    });
+
+    return NextResponse.json({ profile: saved });
+
+  } catch (error) {
+    console.error('Failed to save scoring profile:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid scoring profile', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ScoringProfileError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { db } from '@/lib/db/drizzle';
+import { users, ActivityType } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { logActivity } from '@/lib/db/queries';
+import { logMfaEvent, securityEventTypes } from '@/lib/logging/security-logger';
+import { mfaService } from '@/lib/auth/mfa-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Reset a user's MFA, e.g. after a lost device; they set it up again at their next sign-in
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = parseInt(params.id, 10);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const [user] = await db
+      .select({ id: users.id, email: users.email, organizationId: users.organizationId })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // System admins reset anyone; organization admins only their own members
+    const canReset =
+      hasPermission(session, Permission.ADMIN_USERS) ||
+      (hasPermission(session, Permission.ORG_MANAGE_USERS) &&
+        !!session.user.organizationId &&
+        user.organizationId === session.user.organizationId);
+
+    if (!canReset) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const reset = await mfaService.reset(user.id);
+    if (!reset) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not set up for this user' },
+        { status: 404 }
+      );
+    }
+
+    const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+    await logMfaEvent(securityEventTypes.MFA_RESET, user.id.toString(), user.email, ipAddress, {
+      resetBy: session.user.id,
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.MFA_RESET,
+      entityType: 'user',
+      entityId: user.id,
+      description: `Two-factor authentication reset for ${user.email}`,
+      ipAddress,
+      userAgent: request.headers.get('user-agent') || 'unknown',
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Failed to reset MFA:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
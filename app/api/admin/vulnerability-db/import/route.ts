@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isAdmin } from '@/lib/auth/session';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import {
+  vulnerabilityStore,
+  VulnerabilityStoreError,
+  FeedImportSummary,
+} from '@/lib/vulnerabilities/vulnerability-store';
+
+// NVD yearly feeds run to a few hundred megabytes; split larger imports or use `npm run vulndb:import`
+const MAX_IMPORT_SIZE = 200 * 1024 * 1024; // 200MB
+
+/**
+ * Import vulnerability feeds into the shared database. Send feed files as
+ * multipart `file` fields, or an empty body to re-import the configured
+ * VULNERABILITY_FEED_PATH directory.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // The vulnerability database is shared by every organization
+    if (!isAdmin(session)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+    let summary: FeedImportSummary;
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const files = formData.getAll('file').filter((file): file is File => file instanceof File);
+      if (files.length === 0) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
+      if (files.reduce((total, file) => total + file.size, 0) > MAX_IMPORT_SIZE) {
+        return NextResponse.json({ error: 'Feed files are too large' }, { status: 413 });
+      }
+
+      summary = await vulnerabilityStore.importFeedFiles(
+        files.map(file => ({ name: file.name, read: () => file.text() }))
+      );
+    } else {
+      summary = await vulnerabilityStore.importPath(
+        process.env.VULNERABILITY_FEED_PATH || './data/vulnerability-feeds'
+      );
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.VULNERABILITY_FEED_IMPORTED,
+      entityType: 'vulnerability_database',
+      description: `Vulnerability feeds imported (${summary.advisoriesCreated} created, ${summary.advisoriesUpdated} updated)`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        ...summary,
+        errors: summary.errors.slice(0, 20),
+        warnings: summary.warnings.length,
+      },
+    });
+
+    return NextResponse.json({
+      summary: { ...summary, warnings: summary.warnings.slice(0, 100) },
+    }, { status: summary.errors.length > 0 && summary.files === summary.errors.length ? 400 : 200 });
+
+  } catch (error) {
+    console.error('Failed to import vulnerability feeds:', error);
+
+    if (error instanceof VulnerabilityStoreError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
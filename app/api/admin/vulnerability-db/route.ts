@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { buildPurl } from '@/lib/inventory/manifest-parsers';
+import type { Ecosystem } from '@/lib/inventory/types';
+import { vulnerabilityStore } from '@/lib/vulnerabilities/vulnerability-store';
+
+const ECOSYSTEMS: Ecosystem[] = ['npm', 'pypi', 'maven', 'go', 'rubygems', 'generic'];
+
+// Database statistics, or the vulnerabilities of one package version with ?ecosystem=&package=&version=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const name = searchParams.get('package');
+    const version = searchParams.get('version');
+
+    if (!name && !version) {
+      return NextResponse.json({ stats: await vulnerabilityStore.getStats() });
+    }
+
+    const ecosystem = (searchParams.get('ecosystem') || 'generic') as Ecosystem;
+    if (!name || !version || !ECOSYSTEMS.includes(ecosystem)) {
+      return NextResponse.json(
+        { error: `Pass package, version and an ecosystem of ${ECOSYSTEMS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const matches = await vulnerabilityStore.matchComponents([{
+      name,
+      version,
+      ecosystem,
+      manifest: 'cyclonedx',
+      purl: buildPurl(ecosystem, name, version),
+      direct: true,
+      dev: false,
+    }]);
+
+    return NextResponse.json({
+      vulnerabilities: matches.map(match => ({
+        ...match.vulnerability,
+        aliases: match.advisory.aliases,
+        fixedVersions: match.fixedVersions,
+        source: match.advisory.source,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Failed to query vulnerability database:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { assetService, AssetServiceError } from '@/lib/assets/asset-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Revoke a token; hosts enrolled with it stop being accepted at their next report
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const enrollmentToken = await assetService.revokeToken(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.AGENT_TOKEN_REVOKED,
+      entityType: 'agent_enrollment_token',
+      description: `Agent enrollment token revoked: ${enrollmentToken.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        enrollmentTokenId: enrollmentToken.id,
+        tokenPreview: enrollmentToken.tokenPreview,
+      },
+    });
+
+    return NextResponse.json({ enrollmentToken });
+
+  } catch (error) {
+    console.error('Failed to revoke enrollment token:', error);
+
+    if (error instanceof AssetServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { assetService, AssetServiceError, EnrollmentTokenInputSchema } from '@/lib/assets/asset-service';
+
+function handleTokenError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid enrollment token', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AssetServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// Enrollment tokens of the caller's organization
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const enrollmentTokens = await assetService.listTokens({
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+    });
+
+    return NextResponse.json({ enrollmentTokens });
+
+  } catch (error) {
+    return handleTokenError(error, 'Failed to fetch enrollment tokens:');
+  }
+}
+
+// Create a token; the response is the only time its secret is shown
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = EnrollmentTokenInputSchema.parse(await request.json());
+    const { enrollmentToken, token } = await assetService.createToken(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      input
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.AGENT_TOKEN_CREATED,
+      entityType: 'agent_enrollment_token',
+      description: `Agent enrollment token created: ${enrollmentToken.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        enrollmentTokenId: enrollmentToken.id,
+        tokenPreview: enrollmentToken.tokenPreview,
+        expiresAt: enrollmentToken.expiresAt,
+      },
+    });
+
+    return NextResponse.json({ enrollmentToken, token }, { status: 201 });
+
+  } catch (error) {
+    return handleTokenError(error, 'Failed to create enrollment token:');
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/rate-limit';
+import { getClientIP } from '@/lib/auth/api-security';
+import { AGENT_SIGNATURE_HEADER, AGENT_TIMESTAMP_HEADER } from '@/lib/assets/agent-signature';
+import { assetService, AssetServiceError, ASSET_CONFIG, ENROLLMENT_TOKEN_FORMAT } from '@/lib/assets/asset-service';
+
+// Reports accepted per minute from one address
+const REPORTS_PER_MINUTE = 120;
+
+/**
+ * Receive the signed inventory of a host agent. Agents authenticate with an
+ * enrollment token (`Authorization: Bearer ace_...`) and sign the body with
+ * their host key; see lib/assets/agent-signature.ts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ipAddress = getClientIP(request);
+    const limit = await rateLimit(`agent-inventory:${ipAddress}`, REPORTS_PER_MINUTE);
+    if (!limit.success) {
+      return NextResponse.json(
+        { error: 'Too many reports', code: 'RATE_LIMITED' },
+        { status: 429, headers: { 'Retry-After': Math.ceil((limit.reset - Date.now()) / 1000).toString() } }
+      );
+    }
+
+    const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!token || !token.startsWith(ENROLLMENT_TOKEN_FORMAT.keyPrefix)) {
+      return NextResponse.json({ error: 'An enrollment token is required', code: 'AGENT_TOKEN_REQUIRED' }, { status: 401 });
+    }
+
+    const timestamp = request.headers.get(AGENT_TIMESTAMP_HEADER);
+    const signature = request.headers.get(AGENT_SIGNATURE_HEADER);
+    if (!timestamp || !signature) {
+      return NextResponse.json({ error: 'Reports must be signed', code: 'AGENT_SIGNATURE_REQUIRED' }, { status: 401 });
+    }
+
+    const contentLength = parseInt(request.headers.get('content-length') || '0', 10);
+    const body = contentLength > ASSET_CONFIG.maxReportBytes ? null : await request.text();
+    if (body === null || Buffer.byteLength(body) > ASSET_CONFIG.maxReportBytes) {
+      return NextResponse.json({ error: 'Inventory is too large', code: 'INVENTORY_TOO_LARGE' }, { status: 413 });
+    }
+
+    const outcome = await assetService.reportInventory({
+      token,
+      body,
+      signature: { timestamp, signature },
+      ipAddress: ipAddress === 'unknown' ? null : ipAddress,
+    });
+
+    return NextResponse.json(
+      {
+        assetId: outcome.asset.id,
+        enrolled: outcome.enrolled,
+        scanId: outcome.scanId,
+        lastSeenAt: outcome.asset.lastSeenAt,
+      },
+      { status: outcome.enrolled ? 201 : 200 }
+    );
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid inventory', code: 'INVALID_INVENTORY', details: error.errors.slice(0, 20) },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AssetServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to record agent inventory:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { assetService, AssetServiceError } from '@/lib/assets/asset-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+function handleAssetError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof AssetServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// An asset with its latest inventory
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const asset = await assetService.getAsset(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id
+    );
+
+    return NextResponse.json({ asset });
+
+  } catch (error) {
+    return handleAssetError(error, 'Failed to fetch asset:');
+  }
+}
+
+// Forget a host; its agent enrolls it again on its next report
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_DELETE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const asset = await assetService.deleteAsset(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.ASSET_DELETED,
+      entityType: 'asset',
+      description: `Asset deleted: ${asset.hostname}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        assetId: asset.id,
+        machineId: asset.machineId,
+      },
+    });
+
+    return NextResponse.json({ asset });
+
+  } catch (error) {
+    return handleAssetError(error, 'Failed to delete asset:');
+  }
+}
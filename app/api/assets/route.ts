@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { assetService } from '@/lib/assets/asset-service';
+
+// Hosts reporting through the agent, with when each was last seen
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const assets = await assetService.listAssets({
+      userId: session.user.id.toString(),
+      organizationId: session.user.organizationId?.toString() ?? null,
+    });
+
+    return NextResponse.json({ assets, total: assets.length });
+
+  } catch (error) {
+    console.error('Failed to fetch assets:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
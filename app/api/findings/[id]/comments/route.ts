@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import {
+  findingService,
+  FindingServiceError,
+  FindingCommentSchema,
+} from '@/lib/findings/finding-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { body } = FindingCommentSchema.parse(await request.json());
+    const comment = await findingService.addComment(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id,
+      body
+    );
+
+    return NextResponse.json({ comment }, { status: 201 });
+
+  } catch (error) {
+    console.error('Failed to add finding comment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid comment', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof FindingServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, SessionData } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import {
+  findingService,
+  FindingServiceError,
+  FindingUpdateSchema,
+} from '@/lib/findings/finding-service';
+import type { ScanAccess } from '@/lib/scans/scan-access';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+function getAccess(session: SessionData): ScanAccess {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+  };
+}
+
+function handleFindingError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid finding update', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof FindingServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// A finding with its comment thread and audit history
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const detail = await findingService.getFindingDetail(getAccess(session), params.id);
+
+    return NextResponse.json(detail);
+
+  } catch (error) {
+    return handleFindingError(error, 'Failed to fetch finding:');
+  }
+}
+
+// Change a finding's status or assignee, optionally with a comment
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const update = FindingUpdateSchema.parse(await request.json());
+    const { finding, changes } = await findingService.updateFinding(getAccess(session), params.id, update);
+
+    if (changes.includes('status') || changes.includes('assignee')) {
+      await logActivity({
+        userId: session.user.id,
+        ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+        action: ActivityType.FINDING_UPDATED,
+        entityType: 'finding',
+        description: `Finding ${finding.ruleId} in ${finding.project} is ${finding.status}`,
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        metadata: {
+          findingId: finding.id,
+          status: finding.status,
+          assigneeId: finding.assigneeId,
+          changes,
+        },
+      });
+    }
+
+    return NextResponse.json({ finding, changes });
+
+  } catch (error) {
+    return handleFindingError(error, 'Failed to update finding:');
+  }
+}
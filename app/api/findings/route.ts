@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { findingService } from '@/lib/findings/finding-service';
+import { FindingStatus } from '@/lib/findings/types';
+
+// List findings, filtered by ?project=, ?status= and ?assignee= (a user id, or "me")
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const project = searchParams.get('project');
+    const status = searchParams.get('status');
+    const assignee = searchParams.get('assignee');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (status && status !== 'all' && !Object.values(FindingStatus).includes(status as FindingStatus)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const { findings, total } = await findingService.listFindings(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      {
+        ...(project ? { project } : {}),
+        ...(status && status !== 'all' ? { status: status as FindingStatus } : {}),
+        ...(assignee ? { assigneeId: assignee === 'me' ? session.user.id.toString() : assignee } : {}),
+        limit,
+        offset,
+      }
+    );
+
+    return NextResponse.json({
+      findings,
+      total,
+      limit,
+      offset,
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch findings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
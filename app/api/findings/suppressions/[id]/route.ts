@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { findingService, FindingServiceError } from '@/lib/findings/finding-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Revoke a suppression rule; later scans count its findings again
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const suppression = await findingService.revokeSuppression(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.FINDING_SUPPRESSION_REVOKED,
+      entityType: 'finding_suppression',
+      description: `Suppression revoked: ${suppression.kind} ${suppression.pattern}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        suppressionId: suppression.id,
+        project: suppression.project,
+      },
+    });
+
+    return NextResponse.json({ suppression });
+
+  } catch (error) {
+    console.error('Failed to revoke suppression:', error);
+
+    if (error instanceof FindingServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
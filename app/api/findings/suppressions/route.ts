@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import {
+  findingService,
+  FindingServiceError,
+  SuppressionInputSchema,
+} from '@/lib/findings/finding-service';
+
+// List active suppression rules; ?all=true includes expired and revoked ones
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const project = searchParams.get('project');
+
+    const suppressions = await findingService.listSuppressions(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      {
+        ...(project ? { project } : {}),
+        includeInactive: searchParams.get('all') === 'true',
+      }
+    );
+
+    return NextResponse.json({ suppressions });
+
+  } catch (error) {
+    console.error('Failed to fetch suppressions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Suppress findings by fingerprint, rule or component glob until the expiry date
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.RULE_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = SuppressionInputSchema.parse(await request.json());
+    const suppression = await findingService.createSuppression(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      input
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.FINDING_SUPPRESSION_CREATED,
+      entityType: 'finding_suppression',
+      description: `Findings suppressed by ${suppression.kind} ${suppression.pattern}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        suppressionId: suppression.id,
+        project: suppression.project,
+        expiresAt: suppression.expiresAt,
+        justification: suppression.justification,
+      },
+    });
+
+    return NextResponse.json({ suppression }, { status: 201 });
+
+  } catch (error) {
+    console.error('Failed to create suppression:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid suppression', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof FindingServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, SessionData } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { mfaService } from '@/lib/auth/mfa-service';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { logMfaEvent, securityEventTypes } from '@/lib/logging/security-logger';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+const MfaPolicySchema = z.object({
+  enforceTwoFactor: z.boolean(),
+});
+
+// Members of an organization see its policy; system admins see every organization's
+function canAccessOrganization(session: SessionData, organizationId: number, permission: Permission): boolean {
+  if (hasPermission(session, Permission.ADMIN_ORGANIZATIONS)) return true;
+  return session.user.organizationId === organizationId && hasPermission(session, permission);
+}
+
+// Whether the organization requires MFA, and how many members have it
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = parseInt(params.id, 10);
+    if (isNaN(organizationId)) {
+      return NextResponse.json({ error: 'Invalid organization ID' }, { status: 400 });
+    }
+
+    if (!canAccessOrganization(session, organizationId, Permission.ORG_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const policy = await mfaService.getOrganizationPolicy(organizationId);
+
+    return NextResponse.json(policy);
+
+  } catch (error) {
+    console.error('Failed to fetch MFA policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Require MFA for every member; members without it enroll at their next sign-in
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = parseInt(params.id, 10);
+    if (isNaN(organizationId)) {
+      return NextResponse.json({ error: 'Invalid organization ID' }, { status: 400 });
+    }
+
+    if (!canAccessOrganization(session, organizationId, Permission.ORG_WRITE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { enforceTwoFactor } = MfaPolicySchema.parse(await request.json());
+    const policy = await mfaService.setOrganizationPolicy(organizationId, enforceTwoFactor);
+
+    const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+    await logMfaEvent(securityEventTypes.MFA_POLICY_CHANGED, session.user.id.toString(), session.user.email, ipAddress, {
+      organizationId,
+      enforceTwoFactor,
+    });
+
+    await logActivity({
+      userId: session.user.id,
+      organizationId,
+      action: ActivityType.MFA_POLICY_UPDATED,
+      entityType: 'organization',
+      entityId: organizationId,
+      description: `Two-factor authentication ${enforceTwoFactor ? 'required' : 'no longer required'} for members`,
+      ipAddress,
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        enforceTwoFactor,
+      },
+    });
+
+    return NextResponse.json(policy);
+
+  } catch (error) {
+    console.error('Failed to update MFA policy:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid MFA policy', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, SessionData } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { projectService, ProjectServiceError, ProjectUpdateSchema } from '@/lib/projects/project-service';
+import type { ScanAccess } from '@/lib/scans/scan-access';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+function getAccess(session: SessionData): ScanAccess {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+  };
+}
+
+function handleProjectError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid project', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ProjectServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// A project with its scan history and open findings
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const overview = await projectService.getProjectOverview(getAccess(session), params.id);
+
+    return NextResponse.json(overview);
+
+  } catch (error) {
+    return handleProjectError(error, 'Failed to fetch project:');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const updates = ProjectUpdateSchema.parse(await request.json());
+    const project = await projectService.updateProject(getAccess(session), params.id, updates);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.PROJECT_UPDATED,
+      entityType: 'project',
+      description: `Project updated: ${project.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        projectId: project.id,
+        fields: Object.keys(updates),
+      },
+    });
+
+    return NextResponse.json({ project });
+
+  } catch (error) {
+    return handleProjectError(error, 'Failed to update project:');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_DELETE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await projectService.deleteProject(getAccess(session), params.id);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.PROJECT_DELETED,
+      entityType: 'project',
+      description: `Project deleted: ${project.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        projectId: project.id,
+        name: project.name,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return handleProjectError(error, 'Failed to delete project:');
+  }
+}
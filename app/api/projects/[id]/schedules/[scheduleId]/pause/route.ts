@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { ProjectServiceError } from '@/lib/projects/project-service';
+import { scheduleService, ScheduleServiceError } from '@/lib/scans/schedule-service';
+
+const PauseSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+interface RouteParams {
+  params: {
+    id: string;
+    scheduleId: string;
+  };
+}
+
+// Pause a schedule until it is resumed
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { reason } = PauseSchema.parse(await request.json().catch(() => ({})));
+    const schedule = await scheduleService.pauseSchedule(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id,
+      params.scheduleId,
+      reason
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCHEDULE_UPDATED,
+      entityType: 'scan_schedule',
+      description: `Scan schedule paused: ${schedule.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        scheduleId: schedule.id,
+        projectId: schedule.projectId,
+        status: schedule.status,
+        reason: reason ?? null,
+      },
+    });
+
+    return NextResponse.json({ schedule });
+
+  } catch (error) {
+    console.error('Failed to pause schedule:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ScheduleServiceError || error instanceof ProjectServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { ProjectServiceError } from '@/lib/projects/project-service';
+import { scheduleService, ScheduleServiceError } from '@/lib/scans/schedule-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+    scheduleId: string;
+  };
+}
+
+// Resume a paused schedule from its next fire time
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const schedule = await scheduleService.resumeSchedule(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id,
+      params.scheduleId
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCHEDULE_UPDATED,
+      entityType: 'scan_schedule',
+      description: `Scan schedule resumed: ${schedule.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        scheduleId: schedule.id,
+        projectId: schedule.projectId,
+        nextRunAt: schedule.nextRunAt,
+      },
+    });
+
+    return NextResponse.json({ schedule });
+
+  } catch (error) {
+    console.error('Failed to resume schedule:', error);
+
+    if (error instanceof ScheduleServiceError || error instanceof ProjectServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
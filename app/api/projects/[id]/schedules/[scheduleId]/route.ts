@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, SessionData } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { ProjectServiceError } from '@/lib/projects/project-service';
+import {
+  scheduleService,
+  ScheduleServiceError,
+  ScheduleUpdateSchema,
+} from '@/lib/scans/schedule-service';
+import { upcomingCronRuns } from '@/lib/scans/cron-expression';
+import type { ScanAccess } from '@/lib/scans/scan-access';
+
+// Fire times previewed with a schedule
+const UPCOMING_RUNS = 5;
+
+interface RouteParams {
+  params: {
+    id: string;
+    scheduleId: string;
+  };
+}
+
+function getAccess(session: SessionData): ScanAccess {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+  };
+}
+
+function handleScheduleError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid schedule', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ScheduleServiceError || error instanceof ProjectServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// A schedule with its next fire times
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const schedule = await scheduleService.getSchedule(getAccess(session), params.id, params.scheduleId);
+    const upcomingRuns = upcomingCronRuns(schedule.cron, schedule.timezone, new Date(), UPCOMING_RUNS);
+
+    return NextResponse.json({ schedule, upcomingRuns });
+
+  } catch (error) {
+    return handleScheduleError(error, 'Failed to fetch schedule:');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const updates = ScheduleUpdateSchema.parse(await request.json());
+    const schedule = await scheduleService.updateSchedule(
+      getAccess(session),
+      params.id,
+      params.scheduleId,
+      updates
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCHEDULE_UPDATED,
+      entityType: 'scan_schedule',
+      description: `Scan schedule updated: ${schedule.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        scheduleId: schedule.id,
+        projectId: schedule.projectId,
+        fields: Object.keys(updates),
+      },
+    });
+
+    return NextResponse.json({ schedule });
+
+  } catch (error) {
+    return handleScheduleError(error, 'Failed to update schedule:');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_DELETE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const schedule = await scheduleService.deleteSchedule(getAccess(session), params.id, params.scheduleId);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCHEDULE_DELETED,
+      entityType: 'scan_schedule',
+      description: `Scan schedule deleted: ${schedule.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        scheduleId: schedule.id,
+        projectId: schedule.projectId,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return handleScheduleError(error, 'Failed to delete schedule:');
+  }
+}
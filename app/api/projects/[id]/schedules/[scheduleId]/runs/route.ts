@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ProjectServiceError } from '@/lib/projects/project-service';
+import { scheduleService, ScheduleServiceError } from '@/lib/scans/schedule-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+    scheduleId: string;
+  };
+}
+
+// Run history of a schedule, newest first; ?limit= caps it
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+    const runs = await scheduleService.listRuns(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      params.id,
+      params.scheduleId,
+      Number.isInteger(limit) ? limit : 50
+    );
+
+    return NextResponse.json({ runs });
+
+  } catch (error) {
+    console.error('Failed to fetch schedule runs:', error);
+
+    if (error instanceof ScheduleServiceError || error instanceof ProjectServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
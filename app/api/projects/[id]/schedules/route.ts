@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, SessionData } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { ProjectServiceError } from '@/lib/projects/project-service';
+import {
+  scheduleService,
+  ScheduleInputSchema,
+  ScheduleServiceError,
+} from '@/lib/scans/schedule-service';
+import type { ScanAccess } from '@/lib/scans/scan-access';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+function getAccess(session: SessionData): ScanAccess {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+  };
+}
+
+function handleScheduleError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid schedule', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ScheduleServiceError || error instanceof ProjectServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// Scan schedules of a project
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const schedules = await scheduleService.listSchedules(getAccess(session), params.id);
+
+    return NextResponse.json({ schedules, total: schedules.length });
+
+  } catch (error) {
+    return handleScheduleError(error, 'Failed to fetch schedules:');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = ScheduleInputSchema.parse(await request.json());
+    const schedule = await scheduleService.createSchedule(getAccess(session), params.id, input);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCHEDULE_CREATED,
+      entityType: 'scan_schedule',
+      description: `Scan schedule created: ${schedule.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        scheduleId: schedule.id,
+        projectId: schedule.projectId,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        source: schedule.source,
+      },
+    });
+
+    return NextResponse.json({ schedule }, { status: 201 });
+
+  } catch (error) {
+    return handleScheduleError(error, 'Failed to create schedule:');
+  }
+}
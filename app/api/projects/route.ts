@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { projectService, ProjectInputSchema, ProjectServiceError } from '@/lib/projects/project-service';
+
+// List projects, filtered by ?search=, ?team= and ?tag=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get('search');
+    const team = parseInt(searchParams.get('team') || '', 10);
+    const tag = searchParams.get('tag');
+
+    const projects = await projectService.listProjects(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      {
+        ...(search ? { search } : {}),
+        ...(Number.isInteger(team) ? { teamId: team } : {}),
+        ...(tag ? { tag } : {}),
+      }
+    );
+
+    return NextResponse.json({ projects, total: projects.length });
+
+  } catch (error) {
+    console.error('Failed to fetch projects:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const input = ProjectInputSchema.parse(await request.json());
+
+    const project = await projectService.createProject(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      input
+    );
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.PROJECT_CREATED,
+      entityType: 'project',
+      description: `Project created: ${project.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        projectId: project.id,
+        name: project.name,
+        teamId: project.teamId,
+      },
+    });
+
+    return NextResponse.json({ project }, { status: 201 });
+
+  } catch (error) {
+    console.error('Failed to create project:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid project', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ProjectServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,10 +6,22 @@ import {
   scans, 
   users, 
   organizations,
-  activityLogs 
+  activityLogs,
+  compatibilityRules,
+  findings,
 } from '@/lib/db/schema';
-import { eq, and, or, desc } from 'drizzle-orm';
-import { ReportData } from '@/lib/reports/report-generator';
+import { eq, and, or, desc, inArray } from 'drizzle-orm';
+import { ReportData, ReportResult } from '@/lib/reports/report-generator';
+import { buildCycloneDxBom, CYCLONEDX_MEDIA_TYPE } from '@/lib/reports/sbom-export';
+import { buildSarifLog, SARIF_MEDIA_TYPE } from '@/lib/reports/sarif-export';
+import { scanProject } from '@/lib/scans/baseline-service';
+import { scanOwner } from '@/lib/scans/scan-access';
+
+// Analysis results use passed/failed; reports use pass/fail
+const REPORT_STATUSES: Record<string, string> = {
+  passed: 'pass',
+  failed: 'fail',
+};
 
 interface RouteParams {
   params: {
@@ -83,7 +95,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Parse results from JSONB
     const resultsData = (scanData.results as any) || {};
-    const results = Array.isArray(resultsData) ? resultsData : (resultsData.results || []);
+    // Scans store analysis results under `items`
+    const allResults: any[] = Array.isArray(resultsData) ? resultsData : (resultsData.items || resultsData.results || []);
+    // Suppressed results are listed separately and left out of the statistics
+    const results = allResults.filter(result => !result.suppression);
+    const suppressedResults = allResults.filter(result => result.suppression);
     const metricsData = (scanData.metrics as any) || {};
 
     // Calculate summary statistics
@@ -127,6 +143,51 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       riskScore = maxWeight > 0 ? (totalWeight / maxWeight) * 10 : 0;
     }
 
+    // Current triage state of the findings the results belong to
+    const fingerprints = Array.from(new Set<string>(
+      allResults.map(result => result.fingerprint).filter((fingerprint): fingerprint is string => Boolean(fingerprint))
+    ));
+    const triaged = fingerprints.length > 0
+      ? await db
+          .select({
+            id: findings.id,
+            fingerprint: findings.fingerprint,
+            status: findings.status,
+            assigneeId: findings.assigneeId,
+          })
+          .from(findings)
+          .where(
+            and(
+              eq(findings.organizationId, scanOwner({
+                userId: session.user.id.toString(),
+                organizationId: session.user.organizationId?.toString() ?? null,
+              })),
+              eq(findings.project, scanProject({ name: scanData.name, config: scanData.config })),
+              inArray(findings.fingerprint, fingerprints)
+            )
+          )
+      : [];
+    const findingsByFingerprint = new Map(triaged.map(({ fingerprint, ...finding }) => [fingerprint, finding]));
+
+    const toReportResult = (result: any, index: number): ReportResult => ({
+      id: result.id || index + 1,
+      ruleId: result.ruleId || 0,
+      ruleName: result.ruleName || result.name || 'Unknown Rule',
+      ruleDescription: result.ruleDescription || result.description || '',
+      category: result.category || 'unknown',
+      severity: result.severity || 'medium',
+      status: REPORT_STATUSES[result.status] || result.status || 'info',
+      message: result.message || '',
+      confidence: result.confidence || 0.5,
+      affectedItems: result.affectedItems || result.affectedComponents || result.affected || [],
+      recommendations: [].concat(result.recommendations || result.recommendation || []),
+      createdAt: result.createdAt || scanData.createdAt.toISOString(),
+      ...(result.fingerprint ? { fingerprint: result.fingerprint } : {}),
+      ...(result.suppression ? { suppression: result.suppression } : {}),
+      ...(result.explanation ? { explanation: result.explanation } : {}),
+      ...(findingsByFingerprint.has(result.fingerprint) ? { finding: findingsByFingerprint.get(result.fingerprint)! } : {}),
+    });
+
     // Build the report data structure
     const reportData: ReportData = {
       scanSession: {
@@ -140,20 +201,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         completedChecks: results.filter((r: any) => r.status === 'completed' || r.status === 'pass' || r.status === 'fail').length,
         riskScore: parseFloat(riskScore.toFixed(2)),
       },
-      results: results.map((result: any, index: number) => ({
-        id: result.id || index + 1,
-        ruleId: result.ruleId || 0,
-        ruleName: result.ruleName || result.name || 'Unknown Rule',
-        ruleDescription: result.ruleDescription || result.description || '',
-        category: result.category || 'unknown',
-        severity: result.severity || 'medium',
-        status: result.status || 'info',
-        message: result.message || '',
-        confidence: result.confidence || 0.5,
-        affectedItems: result.affectedItems || result.affected || [],
-        recommendations: result.recommendations || result.recommendation || [],
-        createdAt: result.createdAt || scanData.createdAt.toISOString(),
-      })),
+      results: results.map(toReportResult),
+      ...(suppressedResults.length > 0 ? { suppressed: suppressedResults.map(toReportResult) } : {}),
       summary: {
         totalResults,
         resultsByStatus,
@@ -170,6 +219,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         lastName: scanData.userLastName || 'User',
         email: scanData.userEmail || 'unknown@example.com',
       },
+      ...(Array.isArray(resultsData.components) ? { components: resultsData.components } : {}),
     };
 
     // Add system information from scan results if available
@@ -187,6 +237,48 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       };
     }
 
+    // ?format=sarif exports the analysis results for code scanning tools
+    if (request.nextUrl.searchParams.get('format') === 'sarif') {
+      const ruleIds = Array.from(new Set<string>(allResults.map(result => String(result.ruleId))));
+      const rules = ruleIds.length > 0
+        ? await db
+            .select({
+              id: compatibilityRules.id,
+              name: compatibilityRules.name,
+              description: compatibilityRules.description,
+              category: compatibilityRules.category,
+            })
+            .from(compatibilityRules)
+            .where(inArray(compatibilityRules.id, ruleIds))
+        : [];
+
+      const sarif = buildSarifLog(allResults, {
+        rules: Object.fromEntries(rules.map(({ id, ...metadata }) => [id, metadata])),
+        automationId: `appcompatcheck/${scanData.id}/`,
+      });
+
+      return new NextResponse(JSON.stringify(sarif, null, 2), {
+        status: 200,
+        headers: {
+          'Content-Type': SARIF_MEDIA_TYPE,
+          'Content-Disposition': `attachment; filename="appcompat-${scanData.id}.sarif"`,
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    // ?format=cyclonedx exports the component inventory and findings as an SBOM
+    if (request.nextUrl.searchParams.get('format') === 'cyclonedx') {
+      return new NextResponse(JSON.stringify(buildCycloneDxBom(reportData), null, 2), {
+        status: 200,
+        headers: {
+          'Content-Type': CYCLONEDX_MEDIA_TYPE,
+          'Content-Disposition': `attachment; filename="appcompat-sbom-${scanData.id}.cdx.json"`,
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
     return NextResponse.json(reportData);
 
   } catch (error) {
@@ -10,7 +10,7 @@ export async function POST(req: NextRequest) {
     const session = await requireAuth();
     
     // Check permissions
-    if (!hasPermission(session, Permission.REPORT_READ)) {
+    if (!hasPermission(session, Permission.REPORT_CREATE)) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
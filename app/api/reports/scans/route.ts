@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/auth/session';
+import { requireAuth, Permission, hasPermission } from '@/lib/auth/session';
 
 export async function GET() {
   try {
-    await requireAuth();
+    const session = await requireAuth();
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
     
     // Mock scan data for demo
     const mockScans = [
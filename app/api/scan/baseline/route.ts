@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth, Permission, hasPermission } from '@/lib/auth/session';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { scanBaselineService, ScanBaselineError } from '@/lib/scans/baseline-service';
+import type { ScanAccess } from '@/lib/scans/scan-access';
+
+const PinBaselineSchema = z.object({
+  scanId: z.string().min(1),
+  project: z.string().trim().min(1).max(255).optional(),
+});
+
+function errorResponse(error: unknown) {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid baseline request', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ScanBaselineError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+function accessOf(session: Awaited<ReturnType<typeof requireAuth>>): ScanAccess {
+  return {
+    userId: session.user.id.toString(),
+    organizationId: session.user.organizationId?.toString() ?? null,
+  };
+}
+
+// Get the baseline pinned for ?project=, or for the project of ?scanId=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scanId = searchParams.get('scanId');
+    const project = searchParams.get('project')
+      || (scanId ? await scanBaselineService.getScanProject(accessOf(session), scanId) : null);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project or scan ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const pinned = await scanBaselineService.getBaseline(accessOf(session), project);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        project,
+        baseline: pinned,
+      },
+    });
+
+  } catch (error) {
+    console.error('Get scan baseline error:', error);
+    return errorResponse(error);
+  }
+}
+
+// Pin a completed scan as its project's baseline
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const input = PinBaselineSchema.parse(await request.json());
+    const pinned = await scanBaselineService.pinBaseline(accessOf(session), input.scanId, input.project);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCAN_BASELINE_PINNED,
+      entityType: 'scan',
+      description: `Baseline pinned for ${pinned.baseline.project}: ${pinned.scan.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        scanId: pinned.scan.id,
+        project: pinned.baseline.project,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: pinned,
+    });
+
+  } catch (error) {
+    console.error('Pin scan baseline error:', error);
+    return errorResponse(error);
+  }
+}
+
+// Unpin the baseline of ?project=
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+
+    if (!hasPermission(session, Permission.SCAN_CREATE)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const project = searchParams.get('project');
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project is required' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await scanBaselineService.unpinBaseline(accessOf(session), project);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCAN_BASELINE_UNPINNED,
+      entityType: 'scan',
+      description: `Baseline unpinned for ${removed.project}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        scanId: removed.scanId,
+        project: removed.project,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        project: removed.project,
+        scanId: removed.scanId,
+      },
+    });
+
+  } catch (error) {
+    console.error('Unpin scan baseline error:', error);
+    return errorResponse(error);
+  }
+}
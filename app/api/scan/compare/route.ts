@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, Permission, hasPermission } from '@/lib/auth/session';
+import { scanBaselineService, ScanBaselineError } from '@/lib/scans/baseline-service';
+
+// Compare two scans: GET /api/scan/compare?base=&head=
+// Without base, the head scan is compared with its project's pinned baseline
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const head = searchParams.get('head');
+    const base = searchParams.get('base');
+
+    if (!head) {
+      return NextResponse.json(
+        { error: 'Head scan ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await scanBaselineService.compareScans(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      head,
+      base || undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: comparison,
+    });
+
+  } catch (error) {
+    console.error('Compare scans error:', error);
+
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof ScanBaselineError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,27 +5,24 @@ import {
   scans,
   ActivityType,
 } from '@/lib/db/schema';
-import { eq, and, or, desc } from 'drizzle-orm';
+import { eq, and, or, desc, inArray } from 'drizzle-orm';
 import { logActivity } from '@/lib/db/queries';
-import {
-  CompatibilityAnalysisEngine,
-  AnalysisContext,
-  calculateOverallRiskScore,
-} from '@/lib/compatibility/analysis-engine';
 import { headers } from 'next/headers';
 import crypto from 'crypto';
-import { getSystemInformation } from '@/lib/utils/system-info';
+import {
+  normalizeFileReferences,
+  resolveScanUploads,
+} from '@/lib/upload/scan-inputs';
+import { ScanQueue, ScanStatus } from '@/lib/scans/scan-queue';
+import { normalizeDataType } from '@/lib/upload/file-handler';
+import { projectService, ProjectServiceError } from '@/lib/projects/project-service';
+import { normalizeKubernetesVersion } from '@/lib/kubernetes/api-checks';
+import { DEFAULT_KUBERNETES_VERSION } from '@/lib/kubernetes/api-deprecations';
 
-// Initialize analysis engine
-const analysisEngine = new CompatibilityAnalysisEngine();
+const scanQueue = ScanQueue.getInstance();
 
-// Scan status enum (since it's not in schema)
-const ScanStatus = {
-  PENDING: 'pending',
-  RUNNING: 'running',
-  COMPLETED: 'completed',
-  FAILED: 'failed',
-} as const;
+// Scans in these states can still be cancelled
+const CANCELLABLE_STATUSES = [ScanStatus.PENDING, ScanStatus.QUEUED, ScanStatus.RUNNING];
 
 export async function POST(request: NextRequest) {
   try {
@@ -53,9 +50,11 @@ export async function POST(request: NextRequest) {
       scanName, 
       scanType = 'compatibility',
       description,
+      project,
+      projectId,
       files = [],
       config = {},
-      dataType = 'security_log',
+      dataType,
       clientSystemInfo = {} // Client-side system information
     } = body;
 
@@ -66,6 +65,67 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (project !== undefined && (typeof project !== 'string' || !project.trim() || project.length > 255)) {
+      return NextResponse.json(
+        { error: 'Project must be a non-empty string of at most 255 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (projectId !== undefined && typeof projectId !== 'string') {
+      return NextResponse.json(
+        { error: 'Project ID must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Scans started for a project take its default configuration
+    const owningProject = await projectService.resolveScanProject(
+      {
+        userId: session.user.id.toString(),
+        organizationId: session.user.organizationId?.toString() ?? null,
+      },
+      { projectId, project }
+    );
+    const projectDefaults = (owningProject?.defaultScanConfig ?? {}) as Record<string, any>;
+
+    // Kubernetes scans check manifests against the APIs served by a target cluster version
+    let kubernetesVersion: string | null = null;
+    if (scanType === 'kubernetes') {
+      kubernetesVersion = normalizeKubernetesVersion(
+        config.kubernetesVersion ?? projectDefaults.kubernetesVersion ?? DEFAULT_KUBERNETES_VERSION
+      );
+      if (!kubernetesVersion) {
+        return NextResponse.json(
+          { error: 'kubernetesVersion must be a Kubernetes version such as 1.29' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const scanDataType = dataType ?? (kubernetesVersion ? 'kubernetes_manifest' : projectDefaults.dataType ?? 'security_log');
+    const projectName = owningProject?.name ?? (project ? project.trim() : undefined);
+
+    // Resolve referenced uploads up front so bad references fail fast
+    const uploadIds = normalizeFileReferences(files);
+    if (Array.isArray(files) && files.length > 0 && uploadIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Files must reference upload ids returned by /api/upload' },
+        { status: 400 }
+      );
+    }
+
+    const { uploads, missing } = await resolveScanUploads(uploadIds, {
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+    });
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: 'Some referenced uploads were not found', missing },
+        { status: 404 }
+      );
+    }
+
     // Create scan session
     const sessionId = crypto.randomUUID();
     const scanId = crypto.randomUUID().substring(0, 32);
@@ -76,23 +136,38 @@ export async function POST(request: NextRequest) {
         id: scanId,
         userId: session.user.id.toString(),
         organizationId: session.user.organizationId?.toString() || '',
+        projectId: owningProject?.id ?? null,
         name: scanName,
         description: description || null,
         type: scanType,
-        status: ScanStatus.PENDING,
+        status: ScanStatus.QUEUED,
         priority: 'medium',
         config: {
+          ...projectDefaults,
           sessionId,
-          dataType,
+          dataType: scanDataType,
           ...config,
+          ...(kubernetesVersion ? { kubernetesVersion } : {}),
+          // Scans of a project are gated against its pinned baseline
+          ...(projectName ? { project: projectName } : {}),
         },
-        files: files,
+        files: uploads.map(upload => ({
+          uploadId: upload.id,
+          originalName: upload.originalName,
+          fileType: upload.fileType,
+          dataType: upload.dataType,
+          fileSize: upload.fileSize,
+        })),
         results: {},
         metrics: {},
         progress: 0,
       })
       .returning();
 
+    if (!scanSession) {
+      throw new Error('Failed to create scan');
+    }
+
     // Log scan creation
     await logActivity({
       userId: session.user.id,
@@ -106,21 +181,35 @@ export async function POST(request: NextRequest) {
       metadata: {
         sessionId,
         scanType,
-        dataType,
+        dataType: scanDataType,
+        projectId: owningProject?.id ?? null,
+        uploadIds,
       },
     });
 
-    // Start background analysis (in a real app, this would be queued)
-    // For this demo, we'll run it immediately
-    processScanInBackground(scanSession.id, {
-      sessionId,
-      userId: session.user.id,
-      organizationId: session.user.organizationId,
-      dataType,
-      rules: [], // Will be loaded in background
-      files,
-      clientSystemInfo, // Pass client info to background processor
-    });
+    // Hand the scan to the worker pool; progress is reported by the worker
+    try {
+      await scanQueue.enqueue({
+        scanId: scanSession.id,
+        sessionId,
+        userId: session.user.id,
+        ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+        dataType: normalizeDataType(scanDataType),
+        uploadIds,
+        clientSystemInfo,
+        ...(kubernetesVersion ? { kubernetesVersion } : {}),
+      });
+    } catch (error) {
+      await db
+        .update(scans)
+        .set({
+          status: ScanStatus.FAILED,
+          completedAt: new Date(),
+          error: 'Failed to queue scan',
+        })
+        .where(eq(scans.id, scanSession.id));
+      throw error;
+    }
 
     return NextResponse.json({
       success: true,
@@ -137,6 +226,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Scan creation error:', error);
 
+    if (error instanceof ProjectServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     if (error instanceof Error && error.message === 'Authentication required') {
       return NextResponse.json(
         { error: 'Authentication required' },
@@ -162,9 +258,17 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const session = await requireAuth();
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
     
     const { searchParams } = new URL(request.url);
     const scanId = searchParams.get('scanId');
+    const projectId = searchParams.get('projectId');
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
     const offset = (page - 1) * limit;
@@ -181,13 +285,16 @@ export async function GET(request: NextRequest) {
           : eq(scans.userId, session.user.id.toString())
       );
     } else {
-      // Get all scans for user/organization
-      whereClause = session.user.organizationId
-        ? or(
-            eq(scans.userId, session.user.id.toString()),
-            eq(scans.organizationId, session.user.organizationId.toString())
-          )
-        : eq(scans.userId, session.user.id.toString());
+      // Get all scans for user/organization, optionally of one project
+      whereClause = and(
+        session.user.organizationId
+          ? or(
+              eq(scans.userId, session.user.id.toString()),
+              eq(scans.organizationId, session.user.organizationId.toString())
+            )
+          : eq(scans.userId, session.user.id.toString()),
+        ...(projectId ? [eq(scans.projectId, projectId)] : [])
+      );
     }
 
     const scansList = await db
@@ -199,14 +306,14 @@ export async function GET(request: NextRequest) {
       .offset(offset);
 
     // If requesting specific scan, include detailed results
-    if (scanId && scansList.length > 0) {
-      const scan = scansList[0];
-      
+    const [scan] = scansList;
+    if (scanId && scan) {
       return NextResponse.json({
         success: true,
         data: {
           scan: {
             id: scan.id,
+            projectId: scan.projectId,
             name: scan.name,
             description: scan.description,
             type: scan.type,
@@ -231,6 +338,7 @@ export async function GET(request: NextRequest) {
       success: true,
       data: scansList.map(scan => ({
         id: scan.id,
+        projectId: scan.projectId,
         name: scan.name,
         description: scan.description,
         type: scan.type,
@@ -265,199 +373,111 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Background scan processing function
-async function processScanInBackground(
-  scanId: string,
-  context: AnalysisContext & { files?: any[]; clientSystemInfo?: any }
-) {
+// Cancel a queued or running scan
+export async function DELETE(request: NextRequest) {
   try {
-    // Capture system information (server + client)
-    const systemInfo = await getSystemInformation(context.clientSystemInfo);
-    
-    // Update scan status to running
-    await db
-      .update(scans)
-      .set({
-        status: ScanStatus.RUNNING,
-        startedAt: new Date(),
-        progress: 10,
-      })
-      .where(eq(scans.id, scanId));
+    const session = await requireAuth();
 
-    // Load compatibility rules from config or use defaults
-    // Since there's no compatibilityRules table, we'll use a default set
-    const defaultRules = [
-      {
-        id: 'rule-1',
-        name: 'Security Check',
-        category: 'security',
-        severity: 'high',
-        isActive: true,
-      },
-      {
-        id: 'rule-2',
-        name: 'Performance Check',
-        category: 'performance',
-        severity: 'medium',
-        isActive: true,
-      },
-      {
-        id: 'rule-3',
-        name: 'Compatibility Check',
-        category: 'compatibility',
-        severity: 'medium',
-        isActive: true,
-      },
-    ];
+    const { searchParams } = new URL(request.url);
+    const scanId = searchParams.get('scanId');
 
-    context.rules = defaultRules as any[];
+    if (!scanId) {
+      return NextResponse.json(
+        { error: 'Scan ID is required' },
+        { status: 400 }
+      );
+    }
 
-    // Update progress
-    await db
-      .update(scans)
-      .set({
-        progress: 30,
-      })
-      .where(eq(scans.id, scanId));
+    const [scan] = await db
+      .select()
+      .from(scans)
+      .where(
+        and(
+          eq(scans.id, scanId),
+          session.user.organizationId
+            ? or(
+                eq(scans.userId, session.user.id.toString()),
+                eq(scans.organizationId, session.user.organizationId.toString())
+              )
+            : eq(scans.userId, session.user.id.toString())
+        )
+      )
+      .limit(1);
+
+    if (!scan) {
+      return NextResponse.json(
+        { error: 'Scan not found' },
+        { status: 404 }
+      );
+    }
 
-    // Generate mock analysis data based on files
-    // In a real implementation, this would process actual file data
-    const mockData = [
-      {
-        id: 1,
-        component: 'Component A',
-        version: '1.0.0',
-        status: 'passed',
-      },
-      {
-        id: 2,
-        component: 'Component B',
-        version: '2.5.0',
-        status: 'warning',
-      },
-      {
-        id: 3,
-        component: 'Component C',
-        version: '3.0.0',
-        status: 'failed',
-      },
-    ];
+    // Users who may start scans may cancel their own; cancelling a teammate's scan requires delete rights
+    const permission = scan.userId === session.user.id.toString() ? Permission.SCAN_CREATE : Permission.SCAN_DELETE;
+    if (!hasPermission(session, permission)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
 
-    // Update progress
-    await db
+    const [cancelled] = await db
       .update(scans)
       .set({
-        progress: 50,
+        status: ScanStatus.CANCELLED,
+        completedAt: new Date(),
+        error: 'Cancelled by user',
       })
-      .where(eq(scans.id, scanId));
+      .where(and(eq(scans.id, scanId), inArray(scans.status, CANCELLABLE_STATUSES)))
+      .returning();
 
-    // Run compatibility analysis
-    const analysisResults = await analysisEngine.analyzeData(
-      mockData as any[],
-      context
-    );
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Scan is already ${scan.status}` },
+        { status: 409 }
+      );
+    }
 
-    // Update progress
-    await db
-      .update(scans)
-      .set({
-        progress: 75,
-      })
-      .where(eq(scans.id, scanId));
+    // Remove waiting jobs and signal running workers to stop
+    const removedFromQueue = await scanQueue.cancel(scanId);
 
-    // Calculate overall risk score
-    const riskScore = calculateOverallRiskScore(analysisResults);
-    
-    // Count results by status
-    const completedChecks = analysisResults.length;
-    const failedChecks = analysisResults.filter(r => r.status === 'failed').length;
-    const warningChecks = analysisResults.filter(r => r.status === 'warning').length;
-    const passedChecks = analysisResults.filter(r => r.status === 'passed').length;
-
-    // Group results by severity
-    const resultsBySeverity = analysisResults.reduce((acc: Record<string, number>, result: any) => {
-      const severity = result.severity || 'unknown';
-      acc[severity] = (acc[severity] || 0) + 1;
-      return acc;
-    }, {});
-
-    // Update scan status to completed with results, metrics, and system information
-    await db
-      .update(scans)
-      .set({
-        status: ScanStatus.COMPLETED,
-        completedAt: new Date(),
-        progress: 100,
-        results: {
-          items: analysisResults,
-          summary: {
-            total: completedChecks,
-            passed: passedChecks,
-            warning: warningChecks,
-            failed: failedChecks,
-          },
-          bySeverity: resultsBySeverity,
-          systemInformation: systemInfo,
-        },
-        metrics: {
-          riskScore,
-          completedChecks,
-          failedChecks,
-          warningChecks,
-          passedChecks,
-          totalRules: defaultRules.length,
-          totalComponents: mockData.length,
-          scanDuration: 0, // Will be calculated by client
-        },
-      })
-      .where(eq(scans.id, scanId));
-
-    // Log scan completion
+    const headersList = await headers();
     await logActivity({
-      userId: context.userId,
-      organizationId: context.organizationId,
-      action: ActivityType.SCAN_COMPLETED,
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.SCAN_CANCELLED,
       entityType: 'scan',
-      entityId: scanId,
-      description: `Scan completed with risk score: ${(riskScore * 100).toFixed(1)}%`,
+      description: `Scan cancelled: ${scan.name}`,
+      ipAddress: headersList.get('x-forwarded-for') || headersList.get('x-real-ip') || 'unknown',
+      userAgent: headersList.get('user-agent') || 'unknown',
       metadata: {
-        sessionId: context.sessionId,
-        totalChecks: completedChecks,
-        failedChecks,
-        warningChecks,
-        passedChecks,
-        riskScore,
+        scanId,
+        previousStatus: scan.status,
+        removedFromQueue,
       },
     });
 
-    console.log(`Scan ${scanId} completed successfully`);
+    return NextResponse.json({
+      success: true,
+      data: {
+        scanId,
+        status: cancelled.status,
+        previousStatus: scan.status,
+      },
+    });
 
   } catch (error) {
-    console.error(`Scan ${scanId} failed:`, error);
+    console.error('Cancel scan error:', error);
 
-    // Update scan status to failed
-    await db
-      .update(scans)
-      .set({
-        status: ScanStatus.FAILED,
-        completedAt: new Date(),
-        error: error instanceof Error ? error.message : 'Unknown error',
-        progress: 0,
-      })
-      .where(eq(scans.id, scanId));
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
 
-    // Log scan failure
-    await logActivity({
-      userId: context.userId,
-      organizationId: context.organizationId,
-      action: ActivityType.SCAN_FAILED,
-      entityType: 'scan',
-      entityId: scanId,
-      description: `Scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      metadata: {
-        sessionId: context.sessionId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      },
-    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
   }
 }
@@ -41,13 +41,18 @@ export async function POST(request: NextRequest) {
       organizationId: session.user.organizationId,
       fileName: uploadResult.fileName,
       originalName: uploadResult.originalName,
-      fileType: request.headers.get('content-type')?.split(';')[0] || 'unknown',
+      fileType: uploadResult.fileType,
       fileSize: uploadResult.fileSize,
       filePath: `uploads/${uploadResult.fileName}`,
+      dataType: uploadResult.dataType,
       uploadStatus: 'completed',
       processedAt: new Date(),
     }).returning();
 
+    if (!fileRecord) {
+      throw new Error('Failed to save upload record');
+    }
+
     // Log activity
     await logActivity({
       userId: session.user.id,
@@ -129,6 +134,13 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const session = await requireAuth();
+
+    if (!hasPermission(session, Permission.SCAN_READ)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
     
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
@@ -141,6 +153,7 @@ export async function GET(request: NextRequest) {
         fileName: fileUploads.fileName,
         originalName: fileUploads.originalName,
         fileType: fileUploads.fileType,
+        dataType: fileUploads.dataType,
         fileSize: fileUploads.fileSize,
         uploadStatus: fileUploads.uploadStatus,
         processedAt: fileUploads.processedAt,
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { apiKeyService, ApiKeyServiceError } from '@/lib/auth/api-key-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Issue a new secret for a key; the old one stops working immediately
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Keys stay frozen until the required two-factor authentication is set up
+    if (session.mfaEnrollmentRequired) {
+      return NextResponse.json(
+        { error: 'Set up two-factor authentication before rotating API keys', code: 'MFA_ENROLLMENT_REQUIRED' },
+        { status: 403 }
+      );
+    }
+
+    const { apiKey, key } = await apiKeyService.rotateKey(session.user, params.id);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.API_KEY_ROTATED,
+      entityType: 'api_key',
+      description: `API key rotated: ${apiKey.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        apiKeyId: apiKey.id,
+        keyPreview: apiKey.keyPreview,
+      },
+    });
+
+    return NextResponse.json({ apiKey, key });
+
+  } catch (error) {
+    console.error('Failed to rotate API key:', error);
+
+    if (error instanceof ApiKeyServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { apiKeyService, ApiKeyServiceError } from '@/lib/auth/api-key-service';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Revoke a key; it stays listed, but stops authenticating at once
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const apiKey = await apiKeyService.revokeKey(session.user, params.id);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.API_KEY_REVOKED,
+      entityType: 'api_key',
+      description: `API key revoked: ${apiKey.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        apiKeyId: apiKey.id,
+        keyPreview: apiKey.keyPreview,
+      },
+    });
+
+    return NextResponse.json({ apiKey });
+
+  } catch (error) {
+    console.error('Failed to revoke API key:', error);
+
+    if (error instanceof ApiKeyServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { getRolePermissions } from '@/lib/auth/permissions';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import {
+  apiKeyService,
+  ApiKeyInputSchema,
+  ApiKeyServiceError,
+} from '@/lib/auth/api-key-service';
+
+function handleApiKeyError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid API key', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ApiKeyServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// API keys of the signed-in user, with the scopes a new key may be given
+export async function GET() {
+  try {
+    // Keys are managed from a browser session only, never with another key
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const apiKeys = await apiKeyService.listKeys(session.user);
+
+    return NextResponse.json({
+      apiKeys,
+      availablePermissions: getRolePermissions(session.user.role),
+    });
+
+  } catch (error) {
+    return handleApiKeyError(error, 'Failed to fetch API keys:');
+  }
+}
+
+// Create a key; the response is the only time its secret is shown
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Until two-factor authentication is set up a key would be a way around it
+    if (session.mfaEnrollmentRequired) {
+      return NextResponse.json(
+        { error: 'Set up two-factor authentication before creating API keys', code: 'MFA_ENROLLMENT_REQUIRED' },
+        { status: 403 }
+      );
+    }
+
+    const input = ApiKeyInputSchema.parse(await request.json());
+    const { apiKey, key } = await apiKeyService.createKey(session.user, input);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.API_KEY_CREATED,
+      entityType: 'api_key',
+      description: `API key created: ${apiKey.name}`,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      metadata: {
+        apiKeyId: apiKey.id,
+        keyPreview: apiKey.keyPreview,
+        permissions: apiKey.permissions,
+        allowedIps: apiKey.allowedIps,
+        expiresAt: apiKey.expiresAt,
+      },
+    });
+
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+
+  } catch (error) {
+    return handleApiKeyError(error, 'Failed to create API key:');
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { logMfaEvent, securityEventTypes } from '@/lib/logging/security-logger';
+import { mfaService, MfaCodeSchema, MfaServiceError } from '@/lib/auth/mfa-service';
+
+// Replace all backup codes; the old ones stop working at once
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = MfaCodeSchema.parse(await request.json());
+    const backupCodes = await mfaService.regenerateBackupCodes(session.user, code);
+
+    await logMfaEvent(
+      securityEventTypes.MFA_BACKUP_CODES_REGENERATED,
+      session.user.id.toString(),
+      session.user.email,
+      request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+    );
+
+    return NextResponse.json({ backupCodes });
+
+  } catch (error) {
+    console.error('Failed to regenerate backup codes:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid code', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof MfaServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
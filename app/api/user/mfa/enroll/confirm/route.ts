@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { completeMfaEnrollment, getSession } from '@/lib/auth/session';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { logMfaEvent, securityEventTypes } from '@/lib/logging/security-logger';
+import { mfaService, MfaCodeSchema, MfaServiceError } from '@/lib/auth/mfa-service';
+
+// Confirm the new authenticator with its first code; the backup codes are only shown here
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = MfaCodeSchema.parse(await request.json());
+    const backupCodes = await mfaService.confirmEnrollment(session.user, code);
+
+    // A session that was held back until enrollment gets its permissions now
+    await completeMfaEnrollment(session);
+
+    const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+    await logMfaEvent(securityEventTypes.MFA_ENABLED, session.user.id.toString(), session.user.email, ipAddress);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.MFA_ENABLED,
+      entityType: 'user',
+      description: 'Two-factor authentication enabled',
+      ipAddress,
+      userAgent: request.headers.get('user-agent') || 'unknown',
+    });
+
+    return NextResponse.json({ backupCodes });
+
+  } catch (error) {
+    console.error('Failed to confirm MFA enrollment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid code', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof MfaServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
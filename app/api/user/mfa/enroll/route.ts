@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { mfaService, MfaServiceError } from '@/lib/auth/mfa-service';
+
+const EnrollSchema = z.object({
+  // Needed when replacing an authenticator that is already in use
+  code: z.string().trim().min(6).max(20).optional(),
+});
+
+// Start setting up an authenticator; it takes effect once confirmed with a code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { code } = EnrollSchema.parse(body);
+    const enrollment = await mfaService.startEnrollment(session.user, code);
+
+    return NextResponse.json(enrollment);
+
+  } catch (error) {
+    console.error('Failed to start MFA enrollment:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid code', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof MfaServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
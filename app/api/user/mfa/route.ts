@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { logMfaEvent, securityEventTypes } from '@/lib/logging/security-logger';
+import { mfaService, MfaCodeSchema, MfaServiceError } from '@/lib/auth/mfa-service';
+
+function handleMfaError(error: unknown, fallbackMessage: string) {
+  console.error(fallbackMessage, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid code', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof MfaServiceError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+// Two-factor authentication status of the signed-in user
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = await mfaService.getStatus(session.user);
+
+    return NextResponse.json({
+      ...status,
+      enrollmentRequired: session.mfaEnrollmentRequired === true,
+    });
+
+  } catch (error) {
+    return handleMfaError(error, 'Failed to fetch MFA status:');
+  }
+}
+
+// Turn two-factor authentication off; needs a current code
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = MfaCodeSchema.parse(await request.json());
+    await mfaService.disable(session.user, code);
+
+    const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+    await logMfaEvent(securityEventTypes.MFA_DISABLED, session.user.id.toString(), session.user.email, ipAddress);
+
+    await logActivity({
+      userId: session.user.id,
+      ...(session.user.organizationId ? { organizationId: session.user.organizationId } : {}),
+      action: ActivityType.MFA_DISABLED,
+      entityType: 'user',
+      description: 'Two-factor authentication disabled',
+      ipAddress,
+      userAgent: request.headers.get('user-agent') || 'unknown',
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return handleMfaError(error, 'Failed to disable MFA:');
+  }
+}
@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ProjectOverview } from '@/components/projects/ProjectOverview';
+
+export default async function ProjectPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const session = await getSession();
+
+  if (!session?.user) {
+    redirect('/sign-in');
+  }
+
+  if (!hasPermission(session, Permission.SCAN_READ)) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <ProjectOverview projectId={params.id} />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, Permission } from '@/lib/auth/permissions';
+import { ProjectList } from '@/components/projects/ProjectList';
+
+export default async function ProjectsPage() {
+  const session = await getSession();
+
+  if (!session?.user) {
+    redirect('/sign-in');
+  }
+
+  if (!hasPermission(session, Permission.SCAN_READ)) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <div className="flex items-center gap-3">
+          <div className="w-1 h-8 bg-blue-500 rounded"></div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Projects</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Applications and repositories your scans run against.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <ProjectList />
+    </div>
+  );
+}
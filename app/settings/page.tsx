@@ -4,8 +4,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ApiKeySettings } from '@/components/settings/ApiKeySettings';
+import { MfaSettings } from '@/components/settings/MfaSettings';
 
-export default async function SettingsPage() {
+export default async function SettingsPage({
+  searchParams,
+}: {
+  searchParams: { mfa?: string };
+}) {
   const session = await getSession();
   
   if (!session?.user) {
@@ -63,6 +69,10 @@ export default async function SettingsPage() {
           </CardContent>
         </Card>
 
+        <MfaSettings notice={searchParams.mfa} />
+
+        <ApiKeySettings />
+
         <Card>
           <CardHeader>
             <CardTitle>Account</CardTitle>
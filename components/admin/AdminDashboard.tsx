@@ -12,9 +12,11 @@ import {
   Activity, 
   Database,
   FileText,
-  AlertTriangle
+  AlertTriangle,
+  Regex
 } from 'lucide-react';
 import { RuleManagement } from './RuleManagement';
+import { PatternLibrary } from './PatternLibrary';
 import { UserManagement } from './UserManagement';
 import { OrganizationManagement } from './OrganizationManagement';
 import { SystemConfiguration } from './SystemConfiguration';
@@ -32,7 +34,7 @@ export function AdminDashboard({ userId, userRole }: AdminDashboardProps) {
   return (
     <div className="space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview" className="flex items-center gap-2">
             <Activity className="w-4 h-4" />
             Overview
@@ -41,6 +43,10 @@ export function AdminDashboard({ userId, userRole }: AdminDashboardProps) {
             <Shield className="w-4 h-4" />
             Rules
           </TabsTrigger>
+          <TabsTrigger value="patterns" className="flex items-center gap-2">
+            <Regex className="w-4 h-4" />
+            Patterns
+          </TabsTrigger>
           <TabsTrigger value="users" className="flex items-center gap-2">
             <Users className="w-4 h-4" />
             Users
@@ -113,6 +119,10 @@ export function AdminDashboard({ userId, userRole }: AdminDashboardProps) {
           <RuleManagement />
         </TabsContent>
 
+        <TabsContent value="patterns" className="space-y-6">
+          <PatternLibrary />
+        </TabsContent>
+
         <TabsContent value="users" className="space-y-6">
           <UserManagement />
         </TabsContent>
@@ -0,0 +1,428 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Trash2, FlaskConical, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { checkRegexSafety } from '@/lib/patterns/safe-regex';
+
+interface Pattern {
+  id: string;
+  organizationId: string | null;
+  name: string;
+  description: string | null;
+  category: 'security' | 'compatibility';
+  pattern: string;
+  flags: string;
+  isEnabled: boolean;
+  hitCount: number;
+  lastHitAt: string | null;
+}
+
+interface PatternFormData {
+  name: string;
+  description: string;
+  category: Pattern['category'];
+  pattern: string;
+  flags: string;
+}
+
+interface PatternTestResult {
+  error: string | null;
+  samples: { sample: string; matches: string[] }[];
+}
+
+const EMPTY_FORM: PatternFormData = {
+  name: '',
+  description: '',
+  category: 'security',
+  pattern: '',
+  flags: 'gi',
+};
+
+export function PatternLibrary() {
+  const [patterns, setPatterns] = useState<Pattern[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<PatternFormData>(EMPTY_FORM);
+  const [samples, setSamples] = useState('');
+  const [testResult, setTestResult] = useState<PatternTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPatterns();
+  }, [categoryFilter]);
+
+  const fetchPatterns = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/patterns?category=${categoryFilter}`);
+      if (response.ok) {
+        const data = await response.json();
+        setPatterns(data.patterns || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch patterns:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setFormData(EMPTY_FORM);
+    setSamples('');
+    setTestResult(null);
+    setError(null);
+    setIsCreateDialogOpen(true);
+  };
+
+  const handleTest = async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/admin/patterns/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pattern: formData.pattern,
+          flags: formData.flags,
+          samples: samples.split('\n').filter(line => line.trim()),
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error || 'Failed to test pattern');
+        return;
+      }
+      setTestResult(body.result);
+    } catch (error) {
+      console.error('Failed to test pattern:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    // Catch nested quantifiers early; the server also probes the pattern before saving
+    const unsafe = checkRegexSafety(formData.pattern, formData.flags);
+    if (unsafe) {
+      setError(unsafe);
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/admin/patterns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.details?.[0]?.message || body.error || 'Failed to create pattern');
+        return;
+      }
+
+      await fetchPatterns();
+      setIsCreateDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to create pattern:', error);
+    }
+  };
+
+  const handleToggle = async (pattern: Pattern, isEnabled: boolean) => {
+    try {
+      let response = await fetch(`/api/admin/patterns/${pattern.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isEnabled }),
+      });
+
+      // Only system admins change global patterns; organizations shadow them with a copy of the same name
+      if (response.status === 403 && pattern.organizationId === null) {
+        if (!confirm('Global patterns are shared. Override it for your organization only?')) return;
+
+        response = await fetch('/api/admin/patterns', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: pattern.name,
+            ...(pattern.description ? { description: pattern.description } : {}),
+            category: pattern.category,
+            pattern: pattern.pattern,
+            flags: pattern.flags,
+            isEnabled,
+          }),
+        });
+      }
+
+      if (response.ok) {
+        await fetchPatterns();
+      }
+    } catch (error) {
+      console.error('Failed to update pattern:', error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this pattern?')) return;
+
+    try {
+      const response = await fetch(`/api/admin/patterns/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        await fetchPatterns();
+      }
+    } catch (error) {
+      console.error('Failed to delete pattern:', error);
+    }
+  };
+
+  // Global patterns shadowed by an organization pattern of the same name are not used
+  const shadowed = new Set(patterns.filter(pattern => pattern.organizationId !== null).map(pattern => pattern.name));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Pattern Library</h2>
+          <p className="text-gray-600">Regular expressions the analysis engine searches scanned entries for</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              <SelectItem value="security">Security</SelectItem>
+              <SelectItem value="compatibility">Compatibility</SelectItem>
+            </SelectContent>
+          </Select>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={openCreateDialog}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Pattern
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Add Pattern</DialogTitle>
+                <DialogDescription>
+                  Patterns with nested quantifiers or backreferences, or that run too long on adversarial input, are rejected.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="pattern-name">Name</Label>
+                    <Input
+                      id="pattern-name"
+                      placeholder="hardcoded_ip"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Category</Label>
+                    <Select
+                      value={formData.category}
+                      onValueChange={(category) => setFormData({ ...formData, category: category as Pattern['category'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="security">Security</SelectItem>
+                        <SelectItem value="compatibility">Compatibility</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-4">
+                  <div className="col-span-3">
+                    <Label htmlFor="pattern-source">Pattern</Label>
+                    <Input
+                      id="pattern-source"
+                      className="font-mono"
+                      value={formData.pattern}
+                      onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="pattern-flags">Flags</Label>
+                    <Input
+                      id="pattern-flags"
+                      className="font-mono"
+                      value={formData.flags}
+                      onChange={(e) => setFormData({ ...formData, flags: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="pattern-description">Description</Label>
+                  <Input
+                    id="pattern-description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="pattern-samples">Test samples (one per line)</Label>
+                  <Textarea
+                    id="pattern-samples"
+                    rows={4}
+                    className="font-mono text-sm"
+                    value={samples}
+                    onChange={(e) => setSamples(e.target.value)}
+                  />
+                </div>
+                {testResult && (
+                  <div className="border rounded-lg p-3 space-y-1 text-sm">
+                    {testResult.error ? (
+                      <p className="text-red-600">{testResult.error}</p>
+                    ) : (
+                      testResult.samples.map((sample, index) => (
+                        <p key={index} className="font-mono text-xs">
+                          {sample.matches.length > 0 ? '✓' : '✗'} {sample.sample}
+                          {sample.matches.length > 0 && (
+                            <span className="text-gray-500"> → {sample.matches.join(', ')}</span>
+                          )}
+                        </p>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={handleTest} disabled={!formData.pattern || !samples.trim()}>
+                  <FlaskConical className="w-4 h-4 mr-2" />
+                  Test
+                </Button>
+                <Button onClick={handleCreate} disabled={!formData.name || !formData.pattern}>
+                  Save Pattern
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Patterns ({patterns.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pattern</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Hits</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      Loading patterns...
+                    </TableCell>
+                  </TableRow>
+                ) : patterns.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                      No patterns found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  patterns.map(pattern => {
+                    const isShadowed = pattern.organizationId === null && shadowed.has(pattern.name);
+                    return (
+                      <TableRow key={pattern.id} className={isShadowed ? 'opacity-50' : ''}>
+                        <TableCell>
+                          <div className="font-medium">{pattern.name}</div>
+                          <code className="text-xs text-gray-600 break-all">/{pattern.pattern}/{pattern.flags}</code>
+                          {pattern.description && <p className="text-xs text-gray-500">{pattern.description}</p>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{pattern.category}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {pattern.organizationId === null ? (isShadowed ? 'global (overridden)' : 'global') : 'organization'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{pattern.hitCount}</div>
+                          {pattern.lastHitAt && (
+                            <div className="text-xs text-gray-500">
+                              {formatDistanceToNow(new Date(pattern.lastHitAt), { addSuffix: true })}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={pattern.isEnabled && !isShadowed}
+                            disabled={isShadowed}
+                            onCheckedChange={(checked) => handleToggle(pattern, checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {pattern.organizationId !== null && (
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(pattern.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
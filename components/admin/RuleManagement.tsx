@@ -44,22 +44,117 @@ import {
   CheckCircle,
   Copy,
   Download,
-  Upload
+  Upload,
+  FlaskConical,
+  ListChecks
 } from 'lucide-react';
+import { validateRuleConditions } from '@/lib/compatibility/rule-conditions';
 
 interface Rule {
-  id: number;
+  id: string;
+  organizationId: string | null;
   name: string;
-  description: string;
+  description: string | null;
   category: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
-  pattern: string;
-  enabled: boolean;
+  conditions: Record<string, any>;
+  recommendations: string | null;
+  examples: RuleExample[];
+  isActive: boolean;
+  version: number;
   createdAt: string;
   updatedAt: string;
   usageCount: number;
 }
 
+interface RuleExample {
+  description?: string;
+  entry: Record<string, any>;
+  expectedStatus: 'passed' | 'warning' | 'failed' | 'error' | null;
+}
+
+interface RuleExampleFailure {
+  index: number;
+  description?: string;
+  expectedStatus: string | null;
+  actualStatus: string | null;
+  message: string;
+}
+
+interface RuleTestReport {
+  ruleId: string;
+  name: string;
+  isActive: boolean;
+  passed: boolean;
+  total: number;
+  failures: RuleExampleFailure[];
+}
+
+interface RuleFormData {
+  name: string;
+  description: string;
+  category: string;
+  severity: Rule['severity'];
+  conditions: string;
+  recommendations: string;
+  examples: string;
+  isActive: boolean;
+}
+
+// Turn a failed save response into a message, listing failing examples when there are any
+async function describeSaveError(response: Response): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  if (data.code === 'RULE_EXAMPLES_FAILED' && Array.isArray(data.details)) {
+    return `${data.error}: ${data.details.map((failure: RuleExampleFailure) => failure.message).join('; ')}`;
+  }
+  return data.error ?? 'Failed to save rule';
+}
+
+// Convert editor state into the API payload, validating the conditions JSON
+function toRulePayload(formData: RuleFormData): { payload?: Partial<Rule>; error?: string } {
+  let conditions: unknown;
+  try {
+    conditions = JSON.parse(formData.conditions);
+  } catch {
+    return { error: 'Conditions must be valid JSON' };
+  }
+
+  if (!conditions || typeof conditions !== 'object' || Array.isArray(conditions)) {
+    return { error: 'Conditions must be a JSON object' };
+  }
+
+  const conditionErrors = validateRuleConditions(conditions);
+  if (conditionErrors.length > 0) {
+    return { error: `Invalid conditions: ${conditionErrors.join('; ')}` };
+  }
+
+  let examples: unknown = [];
+  if (formData.examples.trim()) {
+    try {
+      examples = JSON.parse(formData.examples);
+    } catch {
+      return { error: 'Examples must be valid JSON' };
+    }
+  }
+
+  if (!Array.isArray(examples)) {
+    return { error: 'Examples must be a JSON array' };
+  }
+
+  return {
+    payload: {
+      name: formData.name,
+      description: formData.description,
+      category: formData.category,
+      severity: formData.severity,
+      conditions: conditions as Record<string, any>,
+      recommendations: formData.recommendations,
+      examples: examples as RuleExample[],
+      isActive: formData.isActive,
+    },
+  };
+}
+
 export function RuleManagement() {
   const [rules, setRules] = useState<Rule[]>([]);
   const [loading, setLoading] = useState(true);
@@ -68,6 +163,9 @@ export function RuleManagement() {
   const [severityFilter, setSeverityFilter] = useState('all');
   const [editingRule, setEditingRule] = useState<Rule | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [testReports, setTestReports] = useState<RuleTestReport[] | null>(null);
+  const [runningTests, setRunningTests] = useState(false);
 
   useEffect(() => {
     fetchRules();
@@ -97,15 +195,18 @@ export function RuleManagement() {
       });
 
       if (response.ok) {
+        setSaveError(null);
         await fetchRules();
         setIsCreateDialogOpen(false);
+      } else {
+        setSaveError(await describeSaveError(response));
       }
     } catch (error) {
       console.error('Failed to create rule:', error);
     }
   };
 
-  const handleUpdateRule = async (id: number, updates: Partial<Rule>) => {
+  const handleUpdateRule = async (id: string, updates: Partial<Rule>) => {
     try {
       const response = await fetch(`/api/admin/rules/${id}`, {
         method: 'PATCH',
@@ -114,15 +215,18 @@ export function RuleManagement() {
       });
 
       if (response.ok) {
+        setSaveError(null);
         await fetchRules();
         setEditingRule(null);
+      } else {
+        setSaveError(await describeSaveError(response));
       }
     } catch (error) {
       console.error('Failed to update rule:', error);
     }
   };
 
-  const handleDeleteRule = async (id: number) => {
+  const handleDeleteRule = async (id: string) => {
     if (!confirm('Are you sure you want to delete this rule?')) return;
 
     try {
@@ -138,13 +242,28 @@ export function RuleManagement() {
     }
   };
 
-  const handleToggleRule = async (id: number, enabled: boolean) => {
-    await handleUpdateRule(id, { enabled });
+  const handleToggleRule = async (id: string, isActive: boolean) => {
+    await handleUpdateRule(id, { isActive });
+  };
+
+  const handleRunRuleTests = async () => {
+    try {
+      setRunningTests(true);
+      const response = await fetch('/api/admin/rules/run-tests', { method: 'POST' });
+      if (response.ok) {
+        const data = await response.json();
+        setTestReports(data.reports || []);
+      }
+    } catch (error) {
+      console.error('Failed to run rule tests:', error);
+    } finally {
+      setRunningTests(false);
+    }
   };
 
   const filteredRules = rules.filter(rule => {
     const matchesSearch = rule.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         rule.description.toLowerCase().includes(searchTerm.toLowerCase());
+                         (rule.description || '').toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCategory = categoryFilter === 'all' || rule.category === categoryFilter;
     const matchesSeverity = severityFilter === 'all' || rule.severity === severityFilter;
     
@@ -170,6 +289,10 @@ export function RuleManagement() {
           <p className="text-gray-600">Create and manage compatibility check rules</p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRunRuleTests} disabled={runningTests}>
+            <ListChecks className="w-4 h-4 mr-2" />
+            {runningTests ? 'Running Tests...' : 'Run Rule Tests'}
+          </Button>
           <Button variant="outline">
             <Download className="w-4 h-4 mr-2" />
             Export
@@ -178,7 +301,13 @@ export function RuleManagement() {
             <Upload className="w-4 h-4 mr-2" />
             Import
           </Button>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <Dialog
+            open={isCreateDialogOpen}
+            onOpenChange={(open) => {
+              setIsCreateDialogOpen(open);
+              setSaveError(null);
+            }}
+          >
             <DialogTrigger asChild>
               <Button>
                 <Plus className="w-4 h-4 mr-2" />
@@ -186,12 +315,49 @@ export function RuleManagement() {
               </Button>
             </DialogTrigger>
             <DialogContent className="max-w-2xl">
-              <CreateRuleForm onSubmit={handleCreateRule} />
+              <CreateRuleForm onSubmit={handleCreateRule} saveError={saveError} />
             </DialogContent>
           </Dialog>
         </div>
       </div>
 
+      {saveError && !editingRule && !isCreateDialogOpen && (
+        <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{saveError}</div>
+      )}
+
+      {/* Rule test results */}
+      {testReports && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between text-base">
+              <span>
+                Rule Tests: {testReports.filter(report => report.passed).length} of {testReports.length} rules passing
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setTestReports(null)}>
+                Dismiss
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {testReports.length === 0 && <p className="text-gray-600">No rules have examples yet.</p>}
+            {testReports.filter(report => !report.passed).map(report => (
+              <div key={report.ruleId}>
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="w-4 h-4 text-red-500" />
+                  {report.name}
+                  {report.isActive && <Badge variant="destructive">Active</Badge>}
+                </div>
+                <ul className="ml-6 list-disc text-gray-600">
+                  {report.failures.map(failure => (
+                    <li key={failure.index}>{failure.message}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card>
         <CardContent className="p-4">
@@ -252,11 +418,11 @@ export function RuleManagement() {
             <div className="flex items-center gap-4 text-sm text-gray-600">
               <div className="flex items-center gap-1">
                 <div className="w-2 h-2 bg-green-500 rounded-full" />
-                {rules.filter(r => r.enabled).length} Active
+                {rules.filter(r => r.isActive).length} Active
               </div>
               <div className="flex items-center gap-1">
                 <div className="w-2 h-2 bg-gray-400 rounded-full" />
-                {rules.filter(r => !r.enabled).length} Inactive
+                {rules.filter(r => !r.isActive).length} Inactive
               </div>
             </div>
           </CardTitle>
@@ -292,7 +458,13 @@ export function RuleManagement() {
                     <TableRow key={rule.id}>
                       <TableCell>
                         <div>
-                          <div className="font-medium">{rule.name}</div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{rule.name}</span>
+                            <span className="text-xs text-gray-500">v{rule.version}</span>
+                            {rule.organizationId === null && (
+                              <Badge variant="secondary">Global</Badge>
+                            )}
+                          </div>
                           <div className="text-sm text-gray-600 truncate max-w-xs">
                             {rule.description}
                           </div>
@@ -309,10 +481,10 @@ export function RuleManagement() {
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Switch
-                            checked={rule.enabled}
+                            checked={rule.isActive}
                             onCheckedChange={(checked) => handleToggleRule(rule.id, checked)}
                           />
-                          {rule.enabled ? (
+                          {rule.isActive ? (
                             <CheckCircle className="w-4 h-4 text-green-500" />
                           ) : (
                             <AlertTriangle className="w-4 h-4 text-gray-400" />
@@ -334,7 +506,7 @@ export function RuleManagement() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => navigator.clipboard.writeText(rule.pattern)}
+                            onClick={() => navigator.clipboard.writeText(JSON.stringify(rule.conditions, null, 2))}
                           >
                             <Copy className="w-4 h-4" />
                           </Button>
@@ -358,12 +530,19 @@ export function RuleManagement() {
 
       {/* Edit Rule Dialog */}
       {editingRule && (
-        <Dialog open={!!editingRule} onOpenChange={() => setEditingRule(null)}>
+        <Dialog
+          open={!!editingRule}
+          onOpenChange={() => {
+            setEditingRule(null);
+            setSaveError(null);
+          }}
+        >
           <DialogContent className="max-w-2xl">
             <EditRuleForm
               rule={editingRule}
               onSubmit={(updates) => handleUpdateRule(editingRule.id, updates)}
               onCancel={() => setEditingRule(null)}
+              saveError={saveError}
             />
           </DialogContent>
         </Dialog>
@@ -372,19 +551,30 @@ export function RuleManagement() {
   );
 }
 
-function CreateRuleForm({ onSubmit }: { onSubmit: (data: Partial<Rule>) => void }) {
-  const [formData, setFormData] = useState({
+function CreateRuleForm({
+  onSubmit,
+  saveError,
+}: {
+  onSubmit: (data: Partial<Rule>) => void;
+  saveError: string | null;
+}) {
+  const [formData, setFormData] = useState<RuleFormData>({
     name: '',
     description: '',
     category: '',
-    severity: 'medium' as const,
-    pattern: '',
-    enabled: true,
+    severity: 'medium',
+    conditions: '',
+    recommendations: '',
+    examples: '',
+    isActive: true,
   });
+  const [formError, setFormError] = useState<string | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    const { payload, error } = toRulePayload(formData);
+    setFormError(error ?? null);
+    if (payload) onSubmit(payload);
   };
 
   return (
@@ -461,26 +651,57 @@ function CreateRuleForm({ onSubmit }: { onSubmit: (data: Partial<Rule>) => void
           <div className="flex items-center space-x-2 pt-6">
             <Switch
               id="enabled"
-              checked={formData.enabled}
-              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, enabled: checked }))}
+              checked={formData.isActive}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
             />
             <Label htmlFor="enabled">Enable rule immediately</Label>
           </div>
         </div>
 
         <div>
-          <Label htmlFor="pattern">Pattern/Logic</Label>
+          <Label htmlFor="conditions">Conditions (JSON)</Label>
           <Textarea
-            id="pattern"
-            value={formData.pattern}
-            onChange={(e) => setFormData(prev => ({ ...prev, pattern: e.target.value }))}
-            placeholder="Define the rule pattern (JSON, regex, or logic expression)..."
+            id="conditions"
+            value={formData.conditions}
+            onChange={(e) => setFormData(prev => ({ ...prev, conditions: e.target.value }))}
+            placeholder='{ "$and": [{ "tool": { "$eq": "SonarQube" } }, { "version": { "$semver": "<3" } }] }'
             rows={4}
             className="font-mono text-sm"
             required
           />
+          {formError && <p className="text-sm text-red-600 mt-1">{formError}</p>}
         </div>
 
+        <div>
+          <Label htmlFor="recommendations">Recommendations</Label>
+          <Textarea
+            id="recommendations"
+            value={formData.recommendations}
+            onChange={(e) => setFormData(prev => ({ ...prev, recommendations: e.target.value }))}
+            placeholder="How should teams remediate a match?"
+            rows={2}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="examples">Examples (JSON)</Label>
+          <Textarea
+            id="examples"
+            value={formData.examples}
+            onChange={(e) => setFormData(prev => ({ ...prev, examples: e.target.value }))}
+            placeholder='[{ "entry": { "security_tool": "SonarQube", "tool_version": "2.4" }, "expectedStatus": "failed" }, { "entry": { "security_tool": "Snyk" }, "expectedStatus": null }]'
+            rows={3}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Entries with the status the rule must produce; null means it must not match. An active rule must pass all of them.
+          </p>
+        </div>
+
+        <RuleTestPanel ruleId="new" formData={formData} />
+
+        {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
         <DialogFooter>
           <Button type="submit">Create Rule</Button>
         </DialogFooter>
@@ -492,24 +713,31 @@ function CreateRuleForm({ onSubmit }: { onSubmit: (data: Partial<Rule>) => void
 function EditRuleForm({ 
   rule, 
   onSubmit, 
-  onCancel 
+  onCancel,
+  saveError
 }: { 
   rule: Rule; 
   onSubmit: (updates: Partial<Rule>) => void;
   onCancel: () => void;
+  saveError: string | null;
 }) {
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<RuleFormData>({
     name: rule.name,
-    description: rule.description,
+    description: rule.description || '',
     category: rule.category,
     severity: rule.severity,
-    pattern: rule.pattern,
-    enabled: rule.enabled,
+    conditions: JSON.stringify(rule.conditions, null, 2),
+    recommendations: rule.recommendations || '',
+    examples: rule.examples?.length ? JSON.stringify(rule.examples, null, 2) : '',
+    isActive: rule.isActive,
   });
+  const [formError, setFormError] = useState<string | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    const { payload, error } = toRulePayload(formData);
+    setFormError(error ?? null);
+    if (payload) onSubmit({ ...payload, version: rule.version });
   };
 
   return (
@@ -584,25 +812,51 @@ function EditRuleForm({
           <div className="flex items-center space-x-2 pt-6">
             <Switch
               id="edit-enabled"
-              checked={formData.enabled}
-              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, enabled: checked }))}
+              checked={formData.isActive}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
             />
             <Label htmlFor="edit-enabled">Rule enabled</Label>
           </div>
         </div>
 
         <div>
-          <Label htmlFor="edit-pattern">Pattern/Logic</Label>
+          <Label htmlFor="edit-conditions">Conditions (JSON)</Label>
           <Textarea
-            id="edit-pattern"
-            value={formData.pattern}
-            onChange={(e) => setFormData(prev => ({ ...prev, pattern: e.target.value }))}
+            id="edit-conditions"
+            value={formData.conditions}
+            onChange={(e) => setFormData(prev => ({ ...prev, conditions: e.target.value }))}
             rows={4}
             className="font-mono text-sm"
             required
           />
+          {formError && <p className="text-sm text-red-600 mt-1">{formError}</p>}
         </div>
 
+        <div>
+          <Label htmlFor="edit-recommendations">Recommendations</Label>
+          <Textarea
+            id="edit-recommendations"
+            value={formData.recommendations}
+            onChange={(e) => setFormData(prev => ({ ...prev, recommendations: e.target.value }))}
+            rows={2}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="edit-examples">Examples (JSON)</Label>
+          <Textarea
+            id="edit-examples"
+            value={formData.examples}
+            onChange={(e) => setFormData(prev => ({ ...prev, examples: e.target.value }))}
+            rows={3}
+            className="font-mono text-sm"
+          />
+        </div>
+
+        <RuleTestPanel ruleId={rule.id} formData={formData} />
+
+        {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
         <DialogFooter>
           <Button type="button" variant="outline" onClick={onCancel}>
             Cancel
@@ -612,4 +866,180 @@ function EditRuleForm({
       </form>
     </>
   );
-}
\ No newline at end of file
+}
+interface RuleTestFinding {
+  ruleId: string;
+  status: string;
+  severity: string;
+  message: string;
+}
+
+interface RuleTestResult {
+  results: RuleTestFinding[];
+  counts: {
+    entriesTested: number;
+    matched: number;
+    byStatus: Record<string, number>;
+  };
+  diff: {
+    summary: { new: number; fixed: number; unchanged: number };
+    riskScore: { base: number; head: number; delta: number };
+    new: RuleTestFinding[];
+    fixed: RuleTestFinding[];
+  };
+  source: {
+    type: 'samples' | 'scans';
+    scans: { id: string; name: string }[];
+    entriesCapped: boolean;
+  };
+  truncated: boolean;
+}
+
+// Dry-run the rule as currently edited before saving or enabling it
+function RuleTestPanel({ ruleId, formData }: { ruleId: string; formData: RuleFormData }) {
+  const [source, setSource] = useState<'samples' | 'scans'>('samples');
+  const [samples, setSamples] = useState('');
+  const [dataType, setDataType] = useState('compatibility_data');
+  const [scanCount, setScanCount] = useState('5');
+  const [testing, setTesting] = useState(false);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [result, setResult] = useState<RuleTestResult | null>(null);
+
+  const runTest = async () => {
+    setResult(null);
+    const { payload, error } = toRulePayload(formData);
+    if (!payload) {
+      setTestError(error ?? 'Invalid rule');
+      return;
+    }
+
+    let input: Record<string, unknown>;
+    if (source === 'samples') {
+      let entries: unknown;
+      try {
+        entries = JSON.parse(samples);
+      } catch {
+        setTestError('Sample entries must be valid JSON');
+        return;
+      }
+      input = { entries: Array.isArray(entries) ? entries : [entries], dataType };
+    } else {
+      input = { scans: parseInt(scanCount, 10) || 1 };
+    }
+
+    try {
+      setTesting(true);
+      setTestError(null);
+      const response = await fetch(`/api/admin/rules/${ruleId}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ draft: payload, ...input }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setResult(data.result);
+      } else {
+        setTestError(data.details?.[0]?.message ?? data.error ?? 'Rule test failed');
+      }
+    } catch (error) {
+      console.error('Failed to test rule:', error);
+      setTestError('Rule test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Separator />
+      <div className="flex items-center justify-between">
+        <Label>Test Rule</Label>
+        <Select value={source} onValueChange={(value: 'samples' | 'scans') => setSource(value)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="samples">Sample entries</SelectItem>
+            <SelectItem value="scans">Recent scans</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {source === 'samples' ? (
+        <div className="space-y-2">
+          <Select value={dataType} onValueChange={setDataType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="compatibility_data">Compatibility data</SelectItem>
+              <SelectItem value="security_log">Security logs</SelectItem>
+              <SelectItem value="dependency_manifest">Dependency manifest</SelectItem>
+              <SelectItem value="sbom">SBOM</SelectItem>
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={samples}
+            onChange={(e) => setSamples(e.target.value)}
+            placeholder='[{ "tool": "SonarQube", "version": "2.9.0" }]'
+            rows={3}
+            className="font-mono text-sm"
+          />
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`test-scans-${ruleId}`} className="whitespace-nowrap">Last completed scans</Label>
+          <Input
+            id={`test-scans-${ruleId}`}
+            type="number"
+            min={1}
+            max={10}
+            value={scanCount}
+            onChange={(e) => setScanCount(e.target.value)}
+            className="w-24"
+          />
+        </div>
+      )}
+
+      <Button type="button" variant="outline" onClick={runTest} disabled={testing}>
+        <FlaskConical className="w-4 h-4 mr-2" />
+        {testing ? 'Testing...' : 'Run Test'}
+      </Button>
+      {testError && <p className="text-sm text-red-600">{testError}</p>}
+
+      {result && (
+        <div className="space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span>
+              {result.counts.matched} matches in {result.counts.entriesTested} entries
+              {result.source.type === 'scans' && ` from ${result.source.scans.length} scans`}
+            </span>
+            {Object.entries(result.counts.byStatus)
+              .filter(([, count]) => count > 0)
+              .map(([status, count]) => (
+                <Badge key={status} variant="outline">{status}: {count}</Badge>
+              ))}
+          </div>
+          <div className="text-gray-600">
+            Versus the active rules: {result.diff.summary.new} new, {result.diff.summary.fixed} no longer
+            flagged, risk score {result.diff.riskScore.base} → {result.diff.riskScore.head}
+          </div>
+          {(result.source.entriesCapped || result.truncated) && (
+            <div className="text-gray-500">Only part of the input or results is shown.</div>
+          )}
+          {(result.diff.new.length > 0 || result.diff.fixed.length > 0) && (
+            <ScrollArea className="h-32 rounded border p-2">
+              {result.diff.new.map((finding, index) => (
+                <div key={`new-${index}`} className="text-orange-700">+ [{finding.status}] {finding.message}</div>
+              ))}
+              {result.diff.fixed.map((finding, index) => (
+                <div key={`fixed-${index}`} className="text-gray-600">- [{finding.status}] {finding.message}</div>
+              ))}
+            </ScrollArea>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
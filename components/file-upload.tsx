@@ -41,7 +41,7 @@ interface UploadingFile {
 
 export function FileUpload({ onUploadComplete, onUploadError, className }: FileUploadProps) {
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
-  const [dataType, setDataType] = useState<'security_log' | 'compatibility_data'>('security_log');
+  const [dataType, setDataType] = useState<'security_log' | 'compatibility_data' | 'dependency_manifest' | 'sbom' | 'source_code' | 'kubernetes_manifest'>('security_log');
   const [description, setDescription] = useState('');
 
   const uploadFile = async (file: File, fileIndex: number) => {
@@ -136,6 +136,20 @@ export function FileUpload({ onUploadComplete, onUploadError, className }: FileU
       'application/json': ['.json'],
       'text/csv': ['.csv'],
       'application/csv': ['.csv'],
+      'application/sarif+json': ['.sarif'],
+      // Dependency manifests and SBOMs; the server only accepts them under their conventional names
+      'text/plain': ['.txt', '.lock', '.mod', '.spdx'],
+      'application/xml': ['.xml'],
+      'application/yaml': ['.yaml', '.yml'],
+      'application/octet-stream': ['.lock', '.locked', '.mod'],
+      // Source files checked for browser support
+      'text/javascript': ['.js', '.mjs', '.cjs', '.jsx'],
+      'text/typescript': ['.ts', '.mts', '.cts', '.tsx'],
+      'text/css': ['.css'],
+      'text/x-browserslist': ['.browserslistrc'],
+      'application/toml': ['.toml'],
+      // Extensionless names (Dockerfile, status, installed) can only be uploaded through the API and CLI
+      'text/x-dockerfile': ['.dockerfile'],
     },
     maxSize: 50 * 1024 * 1024, // 50MB
     multiple: true,
@@ -155,7 +169,7 @@ export function FileUpload({ onUploadComplete, onUploadError, className }: FileU
         <CardHeader>
           <CardTitle>Upload Security Logs</CardTitle>
           <CardDescription>
-            Upload JSON or CSV files containing security tool logs or compatibility data.
+            Upload JSON or CSV files containing security tool logs or compatibility data, SARIF from code scanners, dependency manifests, lockfiles and SBOMs, or JavaScript, TypeScript and CSS sources.
             Maximum file size: 50MB
           </CardDescription>
         </CardHeader>
@@ -165,7 +179,7 @@ export function FileUpload({ onUploadComplete, onUploadError, className }: FileU
             <Label className="text-sm font-medium">Data Type</Label>
             <RadioGroup
               value={dataType}
-              onValueChange={(value) => setDataType(value as 'security_log' | 'compatibility_data')}
+              onValueChange={(value) => setDataType(value as 'security_log' | 'compatibility_data' | 'dependency_manifest' | 'sbom' | 'source_code' | 'kubernetes_manifest')}
               className="flex flex-col space-y-2"
             >
               <div className="flex items-center space-x-2">
@@ -180,6 +194,30 @@ export function FileUpload({ onUploadComplete, onUploadError, className }: FileU
                   Compatibility Data
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="dependency_manifest" id="dependency_manifest" />
+                <Label htmlFor="dependency_manifest" className="text-sm">
+                  Dependency Manifest (package-lock.json, yarn.lock, pnpm-lock.yaml, requirements.txt, Pipfile.lock, pom.xml, go.mod, Gemfile.lock, or a Dockerfile with a dpkg status, rpm -qa or apk installed package list)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="sbom" id="sbom" />
+                <Label htmlFor="sbom" className="text-sm">
+                  SBOM (CycloneDX JSON/XML, SPDX JSON/tag-value)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="source_code" id="source_code" />
+                <Label htmlFor="source_code" className="text-sm">
+                  Source Code (JavaScript, TypeScript and CSS, with package.json, pyproject.toml or .browserslistrc for browser and runtime targets)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="kubernetes_manifest" id="kubernetes_manifest" />
+                <Label htmlFor="kubernetes_manifest" className="text-sm">
+                  Kubernetes Manifests (YAML, including multi-document and Helm-rendered output)
+                </Label>
+              </div>
             </RadioGroup>
           </div>
 
@@ -218,7 +256,7 @@ export function FileUpload({ onUploadComplete, onUploadError, className }: FileU
                 }
               </p>
               <p className="text-sm text-gray-500">
-                Supports JSON and CSV files up to 50MB
+                Supports JSON, CSV, dependency manifest and source files up to 50MB
               </p>
             </div>
           </div>
@@ -27,7 +27,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { Menu, Code, Shield, Users, BarChart3, Globe, ArrowRight, LogOut, Settings, User as UserIcon } from 'lucide-react'
+import { Menu, Code, Shield, Users, BarChart3, Globe, ArrowRight, LogOut, Settings, FolderGit2, User as UserIcon } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { User } from '@/lib/db/schema'
 import { signOut } from '@/app/(login)/actions'
@@ -354,6 +354,12 @@ export function Header({ user }: HeaderProps = {}) {
                         Dashboard
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/projects" className="cursor-pointer">
+                        <FolderGit2 className="mr-2 h-4 w-4" suppressHydrationWarning />
+                        Projects
+                      </Link>
+                    </DropdownMenuItem>
                     <DropdownMenuItem asChild>
                       <Link href="/reports" className="cursor-pointer">
                         <Shield className="mr-2 h-4 w-4" suppressHydrationWarning />
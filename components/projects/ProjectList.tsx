@@ -0,0 +1,360 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Search, FolderGit2 } from 'lucide-react';
+
+export interface ProjectItem {
+  id: string;
+  name: string;
+  description: string | null;
+  repositoryUrl: string | null;
+  teamId: number | null;
+  tags: string[];
+  defaultScanConfig: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProjectFormData {
+  name: string;
+  description: string;
+  repositoryUrl: string;
+  teamId: string;
+  tags: string;
+  defaultScanConfig: string;
+}
+
+const EMPTY_FORM: ProjectFormData = {
+  name: '',
+  description: '',
+  repositoryUrl: '',
+  teamId: '',
+  tags: '',
+  defaultScanConfig: '',
+};
+
+// Convert form state into the API payload
+export function toProjectPayload(formData: ProjectFormData): { payload?: Record<string, unknown>; error?: string } {
+  let defaultScanConfig: unknown = {};
+  if (formData.defaultScanConfig.trim()) {
+    try {
+      defaultScanConfig = JSON.parse(formData.defaultScanConfig);
+    } catch {
+      return { error: 'Default scan config must be valid JSON' };
+    }
+  }
+
+  if (!defaultScanConfig || typeof defaultScanConfig !== 'object' || Array.isArray(defaultScanConfig)) {
+    return { error: 'Default scan config must be a JSON object' };
+  }
+
+  return {
+    payload: {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      repositoryUrl: formData.repositoryUrl.trim() || null,
+      teamId: formData.teamId ? parseInt(formData.teamId, 10) : null,
+      tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      defaultScanConfig,
+    },
+  };
+}
+
+export function toProjectForm(project: ProjectItem): ProjectFormData {
+  return {
+    name: project.name,
+    description: project.description ?? '',
+    repositoryUrl: project.repositoryUrl ?? '',
+    teamId: project.teamId?.toString() ?? '',
+    tags: project.tags.join(', '),
+    defaultScanConfig: Object.keys(project.defaultScanConfig).length
+      ? JSON.stringify(project.defaultScanConfig, null, 2)
+      : '',
+  };
+}
+
+export function ProjectList() {
+  const [projects, setProjects] = useState<ProjectItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  const fetchProjects = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/projects');
+      if (response.ok) {
+        const data = await response.json();
+        setProjects(data.projects || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch projects:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredProjects = projects.filter(project =>
+    project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    project.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <div className="relative flex-1 max-w-md">
+          <Search className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+          <Input
+            placeholder="Search by name or tag..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="w-4 h-4 mr-2" />
+              New Project
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-xl">
+            <ProjectForm
+              title="New Project"
+              submitLabel="Create Project"
+              method="POST"
+              url="/api/projects"
+              onSaved={async () => {
+                setIsCreateDialogOpen(false);
+                await fetchProjects();
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Projects ({filteredProjects.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Project</TableHead>
+                <TableHead>Repository</TableHead>
+                <TableHead>Tags</TableHead>
+                <TableHead>Updated</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    Loading projects...
+                  </TableCell>
+                </TableRow>
+              ) : filteredProjects.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    No projects found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredProjects.map((project) => (
+                  <TableRow key={project.id}>
+                    <TableCell>
+                      <Link href={`/projects/${project.id}`} className="flex items-center gap-2 font-medium hover:underline">
+                        <FolderGit2 className="w-4 h-4 text-gray-500" />
+                        {project.name}
+                      </Link>
+                      {project.description && (
+                        <div className="text-sm text-gray-600 truncate max-w-xs">{project.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600 truncate max-w-xs">
+                      {project.repositoryUrl ?? '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {project.tags.map(tag => (
+                          <Badge key={tag} variant="outline">{tag}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(project.updatedAt).toLocaleDateString()}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function ProjectForm({
+  title,
+  submitLabel,
+  method,
+  url,
+  initial = EMPTY_FORM,
+  onSaved,
+}: {
+  title: string;
+  submitLabel: string;
+  method: 'POST' | 'PATCH';
+  url: string;
+  initial?: ProjectFormData;
+  onSaved: (project: ProjectItem) => void | Promise<void>;
+}) {
+  const [formData, setFormData] = useState<ProjectFormData>(initial);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { payload, error } = toProjectPayload(formData);
+    if (!payload) {
+      setFormError(error ?? 'Invalid project');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setFormError(null);
+        await onSaved(data.project);
+      } else {
+        setFormError(data.details?.[0]?.message ?? data.error ?? 'Failed to save project');
+      }
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      setFormError('Failed to save project');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>
+          Scans started for a project use its default configuration and share its baseline and findings.
+        </DialogDescription>
+      </DialogHeader>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <Label htmlFor="project-name">Name</Label>
+          <Input
+            id="project-name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g., billing-service"
+            required
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="project-description">Description</Label>
+          <Textarea
+            id="project-description"
+            value={formData.description}
+            onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+            rows={2}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="project-repository">Repository URL</Label>
+            <Input
+              id="project-repository"
+              value={formData.repositoryUrl}
+              onChange={(e) => setFormData(prev => ({ ...prev, repositoryUrl: e.target.value }))}
+              placeholder="https://github.com/acme/billing"
+            />
+          </div>
+          <div>
+            <Label htmlFor="project-team">Owning Team ID</Label>
+            <Input
+              id="project-team"
+              type="number"
+              min={1}
+              value={formData.teamId}
+              onChange={(e) => setFormData(prev => ({ ...prev, teamId: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="project-tags">Tags</Label>
+          <Input
+            id="project-tags"
+            value={formData.tags}
+            onChange={(e) => setFormData(prev => ({ ...prev, tags: e.target.value }))}
+            placeholder="payments, java"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="project-config">Default Scan Config (JSON)</Label>
+          <Textarea
+            id="project-config"
+            value={formData.defaultScanConfig}
+            onChange={(e) => setFormData(prev => ({ ...prev, defaultScanConfig: e.target.value }))}
+            placeholder='{ "dataType": "dependency_manifest" }'
+            rows={3}
+            className="font-mono text-sm"
+          />
+        </div>
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <DialogFooter>
+          <Button type="submit" disabled={saving}>{submitLabel}</Button>
+        </DialogFooter>
+      </form>
+    </>
+  );
+}
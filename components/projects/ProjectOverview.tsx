@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Edit, Trash2, ExternalLink, Loader2 } from 'lucide-react';
+import { ProjectForm, ProjectItem, toProjectForm } from './ProjectList';
+import { ProjectSchedules } from './ProjectSchedules';
+
+interface ProjectScan {
+  id: string;
+  name: string;
+  status: string;
+  riskScore: number | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface ProjectFinding {
+  id: string;
+  ruleId: string;
+  severity: string;
+  message: string;
+  status: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+interface ProjectOverviewData {
+  project: ProjectItem;
+  scans: ProjectScan[];
+  openFindings: ProjectFinding[];
+  openFindingCount: number;
+}
+
+const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical': return 'bg-red-100 text-red-800';
+    case 'high': return 'bg-orange-100 text-orange-800';
+    case 'medium': return 'bg-yellow-100 text-yellow-800';
+    case 'low': return 'bg-green-100 text-green-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export function ProjectOverview({ projectId }: { projectId: string }) {
+  const router = useRouter();
+  const [overview, setOverview] = useState<ProjectOverviewData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}`);
+      const data = await response.json();
+      if (response.ok) {
+        setOverview(data);
+        setError(null);
+      } else {
+        setError(data.error ?? 'Failed to load project');
+      }
+    } catch (error) {
+      console.error('Failed to fetch project:', error);
+      setError('Failed to load project');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this project? Its scans and findings are kept.')) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, { method: 'DELETE' });
+      if (response.ok) {
+        router.push('/projects');
+      }
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+    }
+  };
+
+  if (error) {
+    return <p className="text-red-600">{error}</p>;
+  }
+
+  if (!overview) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { project, scans, openFindings, openFindingCount } = overview;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold">{project.name}</h1>
+          {project.description && <p className="text-gray-600 mt-1">{project.description}</p>}
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-gray-600">
+            {project.repositoryUrl && (
+              <a href={project.repositoryUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 hover:underline">
+                <ExternalLink className="w-4 h-4" />
+                {project.repositoryUrl}
+              </a>
+            )}
+            {project.teamId !== null && <span>Team #{project.teamId}</span>}
+            {project.tags.map(tag => (
+              <Badge key={tag} variant="outline">{tag}</Badge>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsEditing(true)}>
+            <Edit className="w-4 h-4 mr-2" />
+            Edit
+          </Button>
+          <Button variant="outline" onClick={handleDelete}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Findings ({openFindingCount})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Finding</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>First Seen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {openFindings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    No open findings
+                  </TableCell>
+                </TableRow>
+              ) : (
+                openFindings.map(finding => (
+                  <TableRow key={finding.id}>
+                    <TableCell>
+                      <div className="font-medium">{finding.message}</div>
+                      <div className="text-xs text-gray-500">{finding.ruleId}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getSeverityColor(finding.severity)}>{finding.severity}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{finding.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(finding.firstSeenAt).toLocaleDateString()}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ProjectSchedules projectId={project.id} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Scan History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scan</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Risk Score</TableHead>
+                <TableHead>Started</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scans.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    No scans yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                scans.map(scan => (
+                  <TableRow key={scan.id}>
+                    <TableCell>
+                      <Link href={`/scan/results?id=${scan.id}`} className="font-medium hover:underline">
+                        {scan.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{scan.status}</Badge>
+                    </TableCell>
+                    <TableCell>{scan.riskScore ?? '-'}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(scan.createdAt).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {isEditing && (
+        <Dialog open={isEditing} onOpenChange={setIsEditing}>
+          <DialogContent className="max-w-xl">
+            <ProjectForm
+              title="Edit Project"
+              submitLabel="Save Project"
+              method="PATCH"
+              url={`/api/projects/${project.id}`}
+              initial={toProjectForm(project)}
+              onSaved={async () => {
+                setIsEditing(false);
+                await fetchOverview();
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+'use client';
+
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Pause, Play, Trash2, History, CalendarClock } from 'lucide-react';
+
+interface ScheduleItem {
+  id: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  source: 'last_upload' | 'integration' | 'system';
+  sourceConfig: { integrationId?: string; assetId?: string };
+  status: 'active' | 'paused' | 'auto_paused';
+  pauseReason: string | null;
+  consecutiveFailures: number;
+  reminderMinutes: number | null;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+}
+
+interface ScheduleRun {
+  id: string;
+  scheduledFor: string;
+  status: 'queued' | 'skipped' | 'failed';
+  scanId: string | null;
+  scanStatus: string | null;
+  error: string | null;
+}
+
+interface ScheduleFormData {
+  name: string;
+  cron: string;
+  timezone: string;
+  source: ScheduleItem['source'];
+  integrationId: string;
+  assetId: string;
+  reminderMinutes: string;
+}
+
+const SOURCE_LABELS: Record<ScheduleItem['source'], string> = {
+  last_upload: 'Last uploaded artifact',
+  integration: 'Integration pull',
+  system: 'Host agent inventory',
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'active': return 'bg-green-100 text-green-800';
+    case 'auto_paused': return 'bg-orange-100 text-orange-800';
+    case 'queued': return 'bg-blue-100 text-blue-800';
+    case 'failed': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+function emptyForm(): ScheduleFormData {
+  return {
+    name: '',
+    cron: '0 2 * * *',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    source: 'last_upload',
+    integrationId: '',
+    assetId: '',
+    reminderMinutes: '',
+  };
+}
+
+export function ProjectSchedules({ projectId }: { projectId: string }) {
+  const [schedules, setSchedules] = useState<ScheduleItem[]>([]);
+  const [runs, setRuns] = useState<Record<string, ScheduleRun[]>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const baseUrl = `/api/projects/${projectId}/schedules`;
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      if (response.ok) {
+        const data = await response.json();
+        setSchedules(data.schedules || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const toggleRuns = async (scheduleId: string) => {
+    if (expanded === scheduleId) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(scheduleId);
+    try {
+      const response = await fetch(`${baseUrl}/${scheduleId}/runs`);
+      if (response.ok) {
+        const data = await response.json();
+        setRuns(prev => ({ ...prev, [scheduleId]: data.runs || [] }));
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedule runs:', error);
+    }
+  };
+
+  const handleAction = async (scheduleId: string, action: 'pause' | 'resume') => {
+    try {
+      const response = await fetch(`${baseUrl}/${scheduleId}/${action}`, { method: 'POST' });
+      if (response.ok) {
+        await fetchSchedules();
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} schedule:`, error);
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    if (!confirm('Delete this schedule and its run history?')) return;
+
+    try {
+      const response = await fetch(`${baseUrl}/${scheduleId}`, { method: 'DELETE' });
+      if (response.ok) {
+        await fetchSchedules();
+      }
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Schedules ({schedules.length})</CardTitle>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline">
+              <Plus className="w-4 h-4 mr-2" />
+              New Schedule
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-xl">
+            <ScheduleForm
+              url={baseUrl}
+              onSaved={async () => {
+                setIsCreateDialogOpen(false);
+                await fetchSchedules();
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Next Run</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">
+                  No schedules yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              schedules.map(schedule => (
+                <Fragment key={schedule.id}>
+                  <TableRow>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        <CalendarClock className="w-4 h-4 text-gray-500" />
+                        {schedule.name}
+                      </div>
+                      <div className="text-xs text-gray-500 font-mono">
+                        {schedule.cron} ({schedule.timezone})
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{SOURCE_LABELS[schedule.source]}</TableCell>
+                    <TableCell>
+                      <Badge className={getStatusColor(schedule.status)}>{schedule.status.replace('_', ' ')}</Badge>
+                      {schedule.pauseReason && (
+                        <div className="text-xs text-gray-500 mt-1 max-w-xs">{schedule.pauseReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {schedule.status === 'active' && schedule.nextRunAt
+                        ? new Date(schedule.nextRunAt).toLocaleString()
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {schedule.status === 'active' ? (
+                          <Button variant="ghost" size="sm" title="Pause" onClick={() => handleAction(schedule.id, 'pause')}>
+                            <Pause className="w-4 h-4" />
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="sm" title="Resume" onClick={() => handleAction(schedule.id, 'resume')}>
+                            <Play className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" title="Run history" onClick={() => toggleRuns(schedule.id)}>
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(schedule.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {expanded === schedule.id && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="bg-gray-50">
+                        {(runs[schedule.id] ?? []).length === 0 ? (
+                          <p className="text-sm text-gray-600">No runs yet</p>
+                        ) : (
+                          <div className="space-y-1">
+                            {runs[schedule.id]!.map(run => (
+                              <div key={run.id} className="flex items-center gap-3 text-sm">
+                                <span className="text-gray-600 w-44">{new Date(run.scheduledFor).toLocaleString()}</span>
+                                <Badge className={getStatusColor(run.status)}>{run.status}</Badge>
+                                {run.scanId && (
+                                  <Link href={`/scan/results?id=${run.scanId}`} className="hover:underline">
+                                    Scan {run.scanStatus ?? ''}
+                                  </Link>
+                                )}
+                                {run.error && <span className="text-red-600">{run.error}</span>}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ScheduleForm({
+  url,
+  onSaved,
+}: {
+  url: string;
+  onSaved: () => void | Promise<void>;
+}) {
+  const [formData, setFormData] = useState<ScheduleFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          cron: formData.cron.trim(),
+          timezone: formData.timezone.trim(),
+          source: formData.source,
+          sourceConfig: formData.source === 'integration'
+            ? { integrationId: formData.integrationId.trim() }
+            : formData.source === 'system' ? { assetId: formData.assetId.trim() } : {},
+          reminderMinutes: formData.reminderMinutes ? parseInt(formData.reminderMinutes, 10) : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setFormError(null);
+        await onSaved();
+      } else {
+        setFormError(data.details?.[0]?.message ?? data.error ?? 'Failed to save schedule');
+      }
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+      setFormError('Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>New Schedule</DialogTitle>
+        <DialogDescription>
+          Schedules pause themselves when their input is missing or runs keep failing, and resume once new input arrives.
+        </DialogDescription>
+      </DialogHeader>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <Label htmlFor="schedule-name">Name</Label>
+          <Input
+            id="schedule-name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g., Nightly dependency scan"
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="schedule-cron">Cron</Label>
+            <Input
+              id="schedule-cron"
+              value={formData.cron}
+              onChange={(e) => setFormData(prev => ({ ...prev, cron: e.target.value }))}
+              className="font-mono"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="schedule-timezone">Timezone</Label>
+            <Input
+              id="schedule-timezone"
+              value={formData.timezone}
+              onChange={(e) => setFormData(prev => ({ ...prev, timezone: e.target.value }))}
+              placeholder="Europe/Berlin"
+              required
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Input Source</Label>
+            <Select
+              value={formData.source}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, source: value as ScheduleItem['source'] }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="schedule-reminder">Reminder (minutes before)</Label>
+            <Input
+              id="schedule-reminder"
+              type="number"
+              min={1}
+              value={formData.reminderMinutes}
+              onChange={(e) => setFormData(prev => ({ ...prev, reminderMinutes: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        {formData.source === 'integration' && (
+          <div>
+            <Label htmlFor="schedule-integration">Integration ID</Label>
+            <Input
+              id="schedule-integration"
+              value={formData.integrationId}
+              onChange={(e) => setFormData(prev => ({ ...prev, integrationId: e.target.value }))}
+              required
+            />
+          </div>
+        )}
+
+        {formData.source === 'system' && (
+          <div>
+            <Label htmlFor="schedule-asset">Asset ID</Label>
+            <Input
+              id="schedule-asset"
+              value={formData.assetId}
+              onChange={(e) => setFormData(prev => ({ ...prev, assetId: e.target.value }))}
+              required
+            />
+          </div>
+        )}
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <DialogFooter>
+          <Button type="submit" disabled={saving}>Create Schedule</Button>
+        </DialogFooter>
+      </form>
+    </>
+  );
+}
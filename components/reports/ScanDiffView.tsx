@@ -0,0 +1,341 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, CheckCircle, GitCompare, Pin } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface DiffFinding {
+  fingerprint: string;
+  ruleId: string | number;
+  status: string;
+  severity: string;
+  message: string;
+  affectedComponents: string[];
+  occurrences: number;
+  previousStatus?: string;
+}
+
+interface ScanSummary {
+  id: string;
+  name: string;
+  project: string;
+  completedAt: string | null;
+  riskScore: number | null;
+}
+
+interface ScanComparison {
+  project: string;
+  base: ScanSummary;
+  head: ScanSummary;
+  baselineId: string | null;
+  diff: {
+    new: DiffFinding[];
+    fixed: DiffFinding[];
+    unchanged: DiffFinding[];
+    summary: { new: number; fixed: number; unchanged: number };
+    riskScore: { base: number; head: number; delta: number };
+  };
+  gate: { passed: boolean; regressions: number };
+}
+
+interface ScanListItem {
+  id: string;
+  name: string;
+  status: string;
+  createdAt: string;
+}
+
+interface ScanDiffViewProps {
+  scanId: string;
+}
+
+const NO_BASE = 'none';
+
+export function ScanDiffView({ scanId }: ScanDiffViewProps) {
+  const [project, setProject] = useState<string | null>(null);
+  const [baseline, setBaseline] = useState<ScanSummary | null>(null);
+  const [candidates, setCandidates] = useState<ScanListItem[]>([]);
+  const [baseId, setBaseId] = useState<string>(NO_BASE);
+  const [comparison, setComparison] = useState<ScanComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [pinning, setPinning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBaseline();
+    fetchCandidates();
+  }, [scanId]);
+
+  useEffect(() => {
+    if (baseId === NO_BASE) {
+      setComparison(null);
+      return;
+    }
+    fetchComparison(baseId);
+  }, [scanId, baseId]);
+
+  const fetchBaseline = async () => {
+    try {
+      const response = await fetch(`/api/scan/baseline?scanId=${encodeURIComponent(scanId)}`);
+      if (!response.ok) return;
+
+      const { data } = await response.json();
+      setProject(data.project);
+      setBaseline(data.baseline?.scan ?? null);
+      // Compare with the pinned baseline unless this scan is the baseline
+      if (data.baseline && data.baseline.scan.id !== scanId) {
+        setBaseId(data.baseline.scan.id);
+      }
+    } catch (err) {
+      console.error('Error fetching baseline:', err);
+    }
+  };
+
+  const fetchCandidates = async () => {
+    try {
+      const response = await fetch('/api/scan?limit=50');
+      if (!response.ok) return;
+
+      const { data } = await response.json();
+      setCandidates(
+        (data as ScanListItem[]).filter(scan => scan.id !== scanId && scan.status === 'completed')
+      );
+    } catch (err) {
+      console.error('Error fetching scans:', err);
+    }
+  };
+
+  const fetchComparison = async (base: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(
+        `/api/scan/compare?base=${encodeURIComponent(base)}&head=${encodeURIComponent(scanId)}`
+      );
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error || 'Failed to compare scans');
+        setComparison(null);
+        return;
+      }
+
+      setComparison(body.data);
+    } catch (err) {
+      console.error('Error comparing scans:', err);
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePin = async () => {
+    try {
+      setPinning(true);
+      setError(null);
+
+      const response = await fetch('/api/scan/baseline', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scanId }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error || 'Failed to pin baseline');
+        return;
+      }
+
+      setProject(body.data.baseline.project);
+      setBaseline(body.data.scan);
+    } catch (err) {
+      console.error('Error pinning baseline:', err);
+      setError('An unexpected error occurred');
+    } finally {
+      setPinning(false);
+    }
+  };
+
+  const formatDelta = (delta: number) => {
+    const points = delta * 100;
+    return `${points > 0 ? '+' : ''}${points.toFixed(1)}`;
+  };
+
+  const renderFindings = (findings: DiffFinding[], emptyMessage: string) => (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Rule</TableHead>
+            <TableHead>Severity</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Message</TableHead>
+            <TableHead>Affected</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {findings.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          ) : (
+            findings.map(finding => (
+              <TableRow key={finding.fingerprint}>
+                <TableCell className="font-mono text-xs">{String(finding.ruleId)}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{finding.severity}</Badge>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">
+                    {finding.previousStatus && finding.previousStatus !== finding.status
+                      ? `${finding.previousStatus} → ${finding.status}`
+                      : finding.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <p className="text-sm max-w-md">{finding.message}</p>
+                  {finding.occurrences > 1 && (
+                    <p className="text-xs text-gray-500">{finding.occurrences} occurrences</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-gray-600">
+                  {finding.affectedComponents.join(', ')}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="w-5 h-5" suppressHydrationWarning />
+              Compare Scans
+            </CardTitle>
+            <CardDescription>
+              {project ? `Project: ${project}. ` : ''}
+              {baseline
+                ? baseline.id === scanId
+                  ? 'This scan is the pinned baseline.'
+                  : `Baseline: ${baseline.name}${baseline.completedAt ? ` (${format(new Date(baseline.completedAt), 'PPp')})` : ''}`
+                : 'No baseline is pinned for this project.'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={baseId} onValueChange={setBaseId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select a scan to compare" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_BASE}>Select a scan to compare</SelectItem>
+                {candidates.map(scan => (
+                  <SelectItem key={scan.id} value={scan.id}>
+                    {scan.name} ({format(new Date(scan.createdAt), 'PP')})
+                    {baseline?.id === scan.id ? ' - baseline' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {baseline?.id !== scanId && (
+              <Button variant="outline" onClick={handlePin} disabled={pinning}>
+                <Pin className="w-4 h-4 mr-2" suppressHydrationWarning />
+                {pinning ? 'Pinning...' : 'Pin as Baseline'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" suppressHydrationWarning />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && <p className="text-sm text-gray-600">Comparing scans...</p>}
+
+        {!loading && comparison && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="text-center p-4 border rounded-lg border-red-300 bg-red-50">
+                <div className="text-3xl font-bold text-red-600">{comparison.diff.summary.new}</div>
+                <div className="text-sm text-red-700 mt-1">New</div>
+              </div>
+              <div className="text-center p-4 border rounded-lg border-green-300 bg-green-50">
+                <div className="text-3xl font-bold text-green-600">{comparison.diff.summary.fixed}</div>
+                <div className="text-sm text-green-700 mt-1">Fixed</div>
+              </div>
+              <div className="text-center p-4 border rounded-lg">
+                <div className="text-3xl font-bold">{comparison.diff.summary.unchanged}</div>
+                <div className="text-sm text-gray-600 mt-1">Unchanged</div>
+              </div>
+              <div className="text-center p-4 border rounded-lg">
+                <div className={`text-3xl font-bold ${comparison.diff.riskScore.delta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatDelta(comparison.diff.riskScore.delta)}
+                </div>
+                <div className="text-sm text-gray-600 mt-1">Risk Score Change</div>
+              </div>
+              <div className="flex flex-col items-center justify-center p-4 border rounded-lg">
+                {comparison.gate.passed ? (
+                  <CheckCircle className="w-8 h-8 text-green-600" suppressHydrationWarning />
+                ) : (
+                  <AlertCircle className="w-8 h-8 text-red-600" suppressHydrationWarning />
+                )}
+                <div className="text-sm text-gray-600 mt-1">
+                  {comparison.gate.passed
+                    ? 'No regressions'
+                    : `${comparison.gate.regressions} regression${comparison.gate.regressions === 1 ? '' : 's'}`}
+                </div>
+              </div>
+            </div>
+
+            <Tabs defaultValue="new" className="w-full">
+              <TabsList>
+                <TabsTrigger value="new">New ({comparison.diff.summary.new})</TabsTrigger>
+                <TabsTrigger value="fixed">Fixed ({comparison.diff.summary.fixed})</TabsTrigger>
+                <TabsTrigger value="unchanged">Unchanged ({comparison.diff.summary.unchanged})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="new">
+                {renderFindings(comparison.diff.new, 'No new findings')}
+              </TabsContent>
+              <TabsContent value="fixed">
+                {renderFindings(comparison.diff.fixed, 'No fixed findings')}
+              </TabsContent>
+              <TabsContent value="unchanged">
+                {renderFindings(comparison.diff.unchanged, 'No unchanged findings')}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -31,9 +31,11 @@ import {
   Activity,
   Monitor,
   MapPin,
-  Globe
+  Globe,
+  EyeOff
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
+import { ScanDiffView } from './ScanDiffView';
 
 interface ScanResult {
   id: number;
@@ -48,6 +50,27 @@ interface ScanResult {
   affectedItems?: any;
   recommendations?: any;
   createdAt: string;
+  fingerprint?: string;
+  suppression?: {
+    reason: 'suppression_rule' | 'triage';
+    justification: string;
+    expiresAt?: string;
+  };
+  finding?: {
+    id: string;
+    status: string;
+    assigneeId: string | null;
+  };
+  explanation?: {
+    riskScore?: {
+      value: number;
+      historicalAdjustment: number;
+      features: { feature: string; value: number; weight: number; contribution: number }[];
+      failThreshold: number;
+    };
+    confidence: { value: number; components: { name: string; value: number }[] };
+    overall?: { score: number; maxScore: number; counted: boolean };
+  };
 }
 
 interface ReportData {
@@ -63,6 +86,7 @@ interface ReportData {
     riskScore?: number;
   };
   results: ScanResult[];
+  suppressed?: ScanResult[];
   summary: {
     totalResults: number;
     resultsByStatus: Record<string, number>;
@@ -95,6 +119,7 @@ interface ReportData {
     osVersion?: string;
     username?: string;
   };
+  components?: { name: string; version: string; purl: string }[];
 }
 
 interface ScanResultsViewProps {
@@ -234,6 +259,36 @@ export function ScanResultsView({ scanSessionId, scanId, userId }: ScanResultsVi
     }
   };
 
+  const getTriageLabel = (status: string) => status.replace(/_/g, ' ');
+
+  // Hover text breaking a result's confidence and risk score down by contribution
+  const describeExplanation = (result: ScanResult) => {
+    const explanation = result.explanation;
+    if (!explanation) return undefined;
+
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const lines = explanation.confidence.components
+      .map(component => `${getTriageLabel(component.name)}: +${percent(component.value)}`);
+
+    if (explanation.riskScore) {
+      lines.push(`Risk score ${percent(explanation.riskScore.value)} (fails at ${percent(explanation.riskScore.failThreshold)})`);
+      [...explanation.riskScore.features]
+        .sort((a, b) => b.contribution - a.contribution)
+        .forEach(feature => lines.push(`  ${feature.feature}: ${percent(feature.contribution)}`));
+      if (explanation.riskScore.historicalAdjustment > 0) {
+        lines.push(`  recent failures: ${percent(explanation.riskScore.historicalAdjustment)}`);
+      }
+    }
+
+    if (explanation.overall) {
+      lines.push(explanation.overall.counted
+        ? `Adds ${explanation.overall.score.toFixed(2)} of ${explanation.overall.maxScore.toFixed(2)} to the scan risk score`
+        : 'Not counted toward the scan risk score');
+    }
+
+    return lines.join('\n');
+  };
+
   const getRiskScoreColor = (score?: number) => {
     if (!score) return 'text-gray-600';
     if (score >= 8) return 'text-red-600';
@@ -273,6 +328,7 @@ export function ScanResultsView({ scanSessionId, scanId, userId }: ScanResultsVi
   }
 
   const { scanSession, results, summary, organization, user, systemInfo } = reportData;
+  const suppressed = reportData.suppressed ?? [];
 
   return (
     <div className="space-y-6">
@@ -290,10 +346,26 @@ export function ScanResultsView({ scanSessionId, scanId, userId }: ScanResultsVi
             </p>
           </div>
         </div>
-        <Button onClick={handleDownload} disabled={downloading}>
-          <Download className="w-4 h-4 mr-2" suppressHydrationWarning />
-          {downloading ? 'Downloading...' : 'Download Report'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/reports/data/${scanSession.id}?format=sarif`}>
+              <Download className="w-4 h-4 mr-2" suppressHydrationWarning />
+              Export SARIF
+            </a>
+          </Button>
+          {reportData.components && reportData.components.length > 0 && (
+            <Button variant="outline" asChild>
+              <a href={`/api/reports/data/${scanSession.id}?format=cyclonedx`}>
+                <Download className="w-4 h-4 mr-2" suppressHydrationWarning />
+                Export SBOM (CycloneDX)
+              </a>
+            </Button>
+          )}
+          <Button onClick={handleDownload} disabled={downloading}>
+            <Download className="w-4 h-4 mr-2" suppressHydrationWarning />
+            {downloading ? 'Downloading...' : 'Download Report'}
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -605,6 +677,9 @@ export function ScanResultsView({ scanSessionId, scanId, userId }: ScanResultsVi
         </CardContent>
       </Card>
 
+      {/* Comparison with the project baseline or another scan */}
+      <ScanDiffView scanId={String(scanSession.id)} />
+
       {/* Scan Results */}
       <Card>
         <CardHeader>
@@ -626,13 +701,14 @@ export function ScanResultsView({ scanSessionId, scanId, userId }: ScanResultsVi
                   <TableHead>Severity</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Confidence</TableHead>
+                  <TableHead>Triage</TableHead>
                   <TableHead>Message</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {results.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    <TableCell colSpan={7} className="text-center py-8 text-gray-500">
                       No results available
                     </TableCell>
                   </TableRow>
@@ -666,7 +742,18 @@ export function ScanResultsView({ scanSessionId, scanId, userId }: ScanResultsVi
                         </div>
                       </TableCell>
                       <TableCell>
-                        <span className="text-sm">{(result.confidence * 100).toFixed(0)}%</span>
+                        <span className="text-sm" title={describeExplanation(result)}>
+                          {(result.confidence * 100).toFixed(0)}%
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {result.finding ? (
+                          <Badge variant="outline" className="text-xs">
+                            {getTriageLabel(result.finding.status)}
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-gray-400">-</span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="max-w-md">
@@ -682,6 +769,69 @@ export function ScanResultsView({ scanSessionId, scanId, userId }: ScanResultsVi
         </CardContent>
       </Card>
 
+      {/* Suppressed Findings */}
+      {suppressed.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <EyeOff className="w-5 h-5" suppressHydrationWarning />
+              Suppressed Findings ({suppressed.length})
+            </CardTitle>
+            <CardDescription>
+              Excluded from the risk score and totals by a suppression rule or triage decision
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Severity</TableHead>
+                    <TableHead>Message</TableHead>
+                    <TableHead>Suppressed By</TableHead>
+                    <TableHead>Justification</TableHead>
+                    <TableHead>Expires</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppressed.map((result) => (
+                    <TableRow key={result.fingerprint ?? result.id} className="text-gray-600">
+                      <TableCell>
+                        <div className="font-medium">{result.ruleName}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getSeverityColor(result.severity)}>
+                          {result.severity}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm max-w-md">{result.message}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">
+                          {result.suppression?.reason === 'triage'
+                            ? getTriageLabel(result.finding?.status ?? 'triage')
+                            : 'suppression rule'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm max-w-xs">{result.suppression?.justification}</p>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm">
+                          {result.suppression?.expiresAt ? format(new Date(result.suppression.expiresAt), 'PP') : '-'}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary by Category */}
       {Object.keys(summary.resultsByCategory).length > 0 && (
         <Card>
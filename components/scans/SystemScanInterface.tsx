@@ -70,7 +70,7 @@ export function SystemScanInterface({ userId, organizationId }: SystemScanInterf
       const scanData = await response.json();
       console.log('Scan started:', scanData);
 
-      setScanProgress({ stage: 'analyzing', progress: 50, message: 'Scan running in background...' });
+      setScanProgress({ stage: 'analyzing', progress: 50, message: 'Scan queued...' });
 
       // Poll for scan completion
       const scanId = scanData.data.scanId;
@@ -95,7 +95,9 @@ export function SystemScanInterface({ userId, organizationId }: SystemScanInterf
         setScanProgress({ 
           stage: 'analyzing', 
           progress: Math.min(50 + (attempts * 1.5), 95), 
-          message: `Scan ${scan.status}... (${scan.progress}%)` 
+          message: scan.status === 'queued'
+            ? 'Waiting for a scan worker...'
+            : `Scan ${scan.status}... (${scan.progress}%)` 
         });
 
         if (scan.status === 'completed') {
@@ -127,6 +129,8 @@ export function SystemScanInterface({ userId, organizationId }: SystemScanInterf
           setScanProgress({ stage: 'complete', progress: 100, message: 'Scan complete!', results: mockResults });
         } else if (scan.status === 'failed') {
           throw new Error(scan.error || 'Scan failed');
+        } else if (scan.status === 'cancelled') {
+          throw new Error('Scan was cancelled');
         } else {
           // Still running, check again
           await new Promise(resolve => setTimeout(resolve, 1000));
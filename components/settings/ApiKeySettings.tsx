@@ -0,0 +1,364 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, RotateCw, Trash2, Copy, KeyRound } from 'lucide-react';
+
+interface ApiKeyItem {
+  id: string;
+  name: string;
+  keyPreview: string | null;
+  permissions: string[];
+  allowedIps: string[];
+  isActive: boolean;
+  lastUsed: string | null;
+  lastUsedIp: string | null;
+  expiresAt: string | null;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyFormData {
+  name: string;
+  permissions: string[];
+  allowedIps: string;
+  expiresAt: string;
+}
+
+// A secret just issued, shown until the dialog is closed
+interface IssuedKey {
+  name: string;
+  key: string;
+}
+
+function keyStatus(apiKey: ApiKeyItem): { label: string; className: string } {
+  if (!apiKey.isActive) return { label: 'revoked', className: 'bg-gray-100 text-gray-800' };
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+    return { label: 'expired', className: 'bg-orange-100 text-orange-800' };
+  }
+  return { label: 'active', className: 'bg-green-100 text-green-800' };
+}
+
+export function ApiKeySettings() {
+  const [apiKeys, setApiKeys] = useState<ApiKeyItem[]>([]);
+  const [availablePermissions, setAvailablePermissions] = useState<string[]>([]);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [issuedKey, setIssuedKey] = useState<IssuedKey | null>(null);
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/api-keys');
+      if (response.ok) {
+        const data = await response.json();
+        setApiKeys(data.apiKeys || []);
+        setAvailablePermissions(data.availablePermissions || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch API keys:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const handleRotate = async (apiKey: ApiKeyItem) => {
+    if (!confirm(`Rotate "${apiKey.name}"? The current key stops working immediately.`)) return;
+
+    try {
+      const response = await fetch(`/api/user/api-keys/${apiKey.id}/rotate`, { method: 'POST' });
+      if (response.ok) {
+        const data = await response.json();
+        setIssuedKey({ name: data.apiKey.name, key: data.key });
+        await fetchApiKeys();
+      }
+    } catch (error) {
+      console.error('Failed to rotate API key:', error);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeyItem) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Anything using it loses access.`)) return;
+
+    try {
+      const response = await fetch(`/api/user/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        await fetchApiKeys();
+      }
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>API Keys</CardTitle>
+          <CardDescription>
+            Authenticate scripts and CI pipelines with <code>Authorization: Bearer acc_...</code>
+          </CardDescription>
+        </div>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline">
+              <Plus className="w-4 h-4 mr-2" />
+              New Key
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-xl">
+            <ApiKeyForm
+              availablePermissions={availablePermissions}
+              onCreated={async (issued) => {
+                setIsCreateDialogOpen(false);
+                setIssuedKey(issued);
+                await fetchApiKeys();
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Key</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {apiKeys.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">
+                  No API keys yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              apiKeys.map(apiKey => {
+                const status = keyStatus(apiKey);
+                return (
+                  <TableRow key={apiKey.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        <KeyRound className="w-4 h-4 text-gray-500" />
+                        {apiKey.name}
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </div>
+                      <div className="text-xs text-gray-500 font-mono">{apiKey.keyPreview}</div>
+                      {apiKey.allowedIps.length > 0 && (
+                        <div className="text-xs text-gray-500">Allowed from {apiKey.allowedIps.join(', ')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1 max-w-xs">
+                        {apiKey.permissions.map(permission => (
+                          <Badge key={permission} variant="outline" className="font-mono text-xs">{permission}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {apiKey.lastUsed ? new Date(apiKey.lastUsed).toLocaleString() : 'Never'}
+                      {apiKey.lastUsedIp && <div className="text-xs text-gray-500">{apiKey.lastUsedIp}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleDateString() : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      {apiKey.isActive && (
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" title="Rotate" onClick={() => handleRotate(apiKey)}>
+                            <RotateCw className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Revoke" onClick={() => handleRevoke(apiKey)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={issuedKey !== null} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{issuedKey?.name}</DialogTitle>
+            <DialogDescription>
+              Copy this key now. It is stored hashed and will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input value={issuedKey?.key ?? ''} readOnly className="font-mono text-xs" />
+            <Button
+              variant="outline"
+              title="Copy"
+              onClick={() => issuedKey && navigator.clipboard.writeText(issuedKey.key)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function ApiKeyForm({
+  availablePermissions,
+  onCreated,
+}: {
+  availablePermissions: string[];
+  onCreated: (issued: IssuedKey) => void | Promise<void>;
+}) {
+  const [formData, setFormData] = useState<ApiKeyFormData>({
+    name: '',
+    permissions: [],
+    allowedIps: '',
+    expiresAt: '',
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: checked
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter(p => p !== permission),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/user/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          permissions: formData.permissions,
+          allowedIps: formData.allowedIps.split(/[\s,]+/).filter(Boolean),
+          // End of the chosen day, local time
+          expiresAt: formData.expiresAt ? new Date(`${formData.expiresAt}T23:59:59`).toISOString() : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setFormError(null);
+        await onCreated({ name: data.apiKey.name, key: data.key });
+      } else {
+        setFormError(data.details?.[0]?.message ?? data.error ?? 'Failed to create API key');
+      }
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      setFormError('Failed to create API key');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>New API Key</DialogTitle>
+        <DialogDescription>
+          A key can do only what its scopes allow, and never more than your own role.
+        </DialogDescription>
+      </DialogHeader>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <Label htmlFor="api-key-name">Name</Label>
+          <Input
+            id="api-key-name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g., GitHub Actions"
+            required
+          />
+        </div>
+
+        <div>
+          <Label>Scopes</Label>
+          <div className="grid grid-cols-2 gap-2 mt-2 max-h-48 overflow-y-auto">
+            {availablePermissions.map(permission => (
+              <label key={permission} className="flex items-center gap-2 text-sm font-mono">
+                <Checkbox
+                  checked={formData.permissions.includes(permission)}
+                  onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                />
+                {permission}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="api-key-ips">Allowed IPs (optional)</Label>
+          <Textarea
+            id="api-key-ips"
+            value={formData.allowedIps}
+            onChange={(e) => setFormData(prev => ({ ...prev, allowedIps: e.target.value }))}
+            placeholder={'203.0.113.7\n10.0.0.0/8'}
+            className="font-mono"
+            rows={3}
+          />
+          <p className="text-xs text-gray-500 mt-1">Addresses or CIDR ranges, one per line. Leave empty to allow any.</p>
+        </div>
+
+        <div>
+          <Label htmlFor="api-key-expiry">Expires (optional)</Label>
+          <Input
+            id="api-key-expiry"
+            type="date"
+            value={formData.expiresAt}
+            onChange={(e) => setFormData(prev => ({ ...prev, expiresAt: e.target.value }))}
+          />
+        </div>
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <DialogFooter>
+          <Button type="submit" disabled={saving || formData.permissions.length === 0}>Create Key</Button>
+        </DialogFooter>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,383 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, ShieldCheck, ShieldAlert } from 'lucide-react';
+
+interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  pendingEnrollment: boolean;
+  backupCodesRemaining: number;
+  required: boolean;
+  enrollmentRequired: boolean;
+}
+
+interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+// An action that needs a current code before it runs
+type CodeAction = 'replace' | 'regenerate' | 'disable';
+
+const CODE_ACTIONS: Record<CodeAction, { title: string; description: string; submit: string }> = {
+  replace: {
+    title: 'Replace authenticator',
+    description: 'Enter a code from your current authenticator app or a backup code.',
+    submit: 'Continue',
+  },
+  regenerate: {
+    title: 'New backup codes',
+    description: 'Your current backup codes stop working once new ones are created.',
+    submit: 'Create Codes',
+  },
+  disable: {
+    title: 'Turn off two-factor authentication',
+    description: 'Your account will be protected by your password only.',
+    submit: 'Turn Off',
+  },
+};
+
+export function MfaSettings({ notice }: { notice?: string | undefined }) {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/mfa');
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch MFA status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const startEnrollment = async (code?: string): Promise<string | null> => {
+    const response = await fetch('/api/user/mfa/enroll', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(code ? { code } : {}),
+    });
+    const data = await response.json();
+    if (!response.ok) return data.error ?? 'Failed to set up authenticator';
+
+    setEnrollment(data);
+    return null;
+  };
+
+  const runCodeAction = async (action: CodeAction, code: string): Promise<string | null> => {
+    if (action === 'replace') {
+      return startEnrollment(code);
+    }
+
+    const response = await fetch(action === 'regenerate' ? '/api/user/mfa/backup-codes' : '/api/user/mfa', {
+      method: action === 'regenerate' ? 'POST' : 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    });
+    const data = await response.json();
+    if (!response.ok) return data.error ?? 'Invalid code';
+
+    if (action === 'regenerate') {
+      setBackupCodes(data.backupCodes);
+    }
+    await fetchStatus();
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status && (
+            <Badge className={status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+              {status.enabled ? 'on' : 'off'}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Sign in with a code from an authenticator app in addition to your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(status?.enrollmentRequired || notice === 'required') && !status?.enabled && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>
+              Your organization requires two-factor authentication. Set it up to continue using your account.
+            </AlertDescription>
+          </Alert>
+        )}
+        {notice === 'recovered' && status?.enabled && (
+          <Alert>
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>
+              You signed in with a backup code. If you lost your authenticator, replace it now;
+              {' '}{status.backupCodesRemaining} backup code{status.backupCodesRemaining === 1 ? '' : 's'} left.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {status?.enabled ? (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <ShieldCheck className="w-4 h-4 text-green-600" />
+              Enabled {status.enabledAt && `since ${new Date(status.enabledAt).toLocaleDateString()}`}
+              {' · '}{status.backupCodesRemaining} backup codes left
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setCodeAction('replace')}>
+                Replace Authenticator
+              </Button>
+              <Button variant="outline" onClick={() => setCodeAction('regenerate')}>
+                New Backup Codes
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" onClick={() => setCodeAction('disable')}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+            {status.required && (
+              <p className="text-xs text-gray-500">Required for your account, so it cannot be turned off.</p>
+            )}
+          </>
+        ) : (
+          <Button onClick={() => startEnrollment()} disabled={!status}>
+            Set Up Authenticator
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={enrollment !== null} onOpenChange={(open) => !open && setEnrollment(null)}>
+        <DialogContent>
+          {enrollment && (
+            <EnrollmentForm
+              enrollment={enrollment}
+              onConfirmed={async (codes) => {
+                setEnrollment(null);
+                setBackupCodes(codes);
+                await fetchStatus();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && setCodeAction(null)}>
+        <DialogContent>
+          {codeAction && (
+            <CodeForm
+              {...CODE_ACTIONS[codeAction]}
+              onSubmit={async (code) => {
+                const error = await runCodeAction(codeAction, code);
+                if (!error) setCodeAction(null);
+                return error;
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={backupCodes !== null} onOpenChange={(open) => !open && setBackupCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Backup codes</DialogTitle>
+            <DialogDescription>
+              Each code signs you in once if you lose your authenticator. Store them somewhere safe;
+              they will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {backupCodes?.map(code => <div key={code}>{code}</div>)}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => backupCodes && navigator.clipboard.writeText(backupCodes.join('\n'))}
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Copy
+            </Button>
+            <Button onClick={() => setBackupCodes(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function EnrollmentForm({
+  enrollment,
+  onConfirmed,
+}: {
+  enrollment: MfaEnrollment;
+  onConfirmed: (backupCodes: string[]) => void | Promise<void>;
+}) {
+  const [code, setCode] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/user/mfa/enroll/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setFormError(null);
+        await onConfirmed(data.backupCodes);
+      } else {
+        setFormError(data.error ?? 'Invalid code');
+      }
+    } catch (error) {
+      console.error('Failed to confirm MFA enrollment:', error);
+      setFormError('Failed to confirm authenticator');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Set up authenticator</DialogTitle>
+        <DialogDescription>
+          Add this account to your authenticator app, then enter the code it shows.
+        </DialogDescription>
+      </DialogHeader>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <Label htmlFor="mfa-uri">Setup link</Label>
+          <div className="flex gap-2">
+            <Input id="mfa-uri" value={enrollment.otpauthUri} readOnly className="font-mono text-xs" />
+            <Button
+              type="button"
+              variant="outline"
+              title="Copy"
+              onClick={() => navigator.clipboard.writeText(enrollment.otpauthUri)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Open it on your phone, or enter the key below by hand.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="mfa-secret">Key</Label>
+          <Input id="mfa-secret" value={enrollment.secret} readOnly className="font-mono" />
+        </div>
+
+        <div>
+          <Label htmlFor="mfa-code">Code</Label>
+          <Input
+            id="mfa-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            placeholder="123456"
+            required
+          />
+        </div>
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <DialogFooter>
+          <Button type="submit" disabled={saving || code.trim().length === 0}>Turn On</Button>
+        </DialogFooter>
+      </form>
+    </>
+  );
+}
+
+function CodeForm({
+  title,
+  description,
+  submit,
+  onSubmit,
+}: {
+  title: string;
+  description: string;
+  submit: string;
+  // Resolves to an error message, or null on success
+  onSubmit: (code: string) => Promise<string | null>;
+}) {
+  const [code, setCode] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setFormError(await onSubmit(code.trim()));
+    } catch (error) {
+      console.error(`${title} failed:`, error);
+      setFormError('Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>{description}</DialogDescription>
+      </DialogHeader>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <Label htmlFor="mfa-current-code">Authentication code</Label>
+          <Input
+            id="mfa-current-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            placeholder="123456 or backup code"
+            required
+          />
+        </div>
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <DialogFooter>
+          <Button type="submit" disabled={saving || code.trim().length === 0}>{submit}</Button>
+        </DialogFooter>
+      </form>
+    </>
+  );
+}
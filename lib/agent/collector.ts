@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { access, readdir, readFile, readlink, realpath } from 'fs/promises';
+import { constants } from 'fs';
+import { promisify } from 'util';
+// Imports stay relative and dependency-free: the agent is bundled on its own
+import { InstalledPackages, readApkInstalled, readDpkgStatus, readRpmQa } from '../inventory/package-databases';
+import type { HostInventoryInput, PackageManager } from '../assets/host-inventory';
+import { ListeningSocket, parseOsRelease, parseProcNet, parseRuntimeVersion } from './host-facts';
+
+const execFileAsync = promisify(execFile);
+
+// Commands that take longer than this are treated as missing
+const COMMAND_TIMEOUT_MS = 10_000;
+
+const RUNTIME_COMMANDS = [
+  { runtime: 'node', names: ['node', 'nodejs'], args: ['--version'] },
+  { runtime: 'python', names: ['python3', 'python'], args: ['--version'] },
+  { runtime: 'openssl', names: ['openssl'], args: ['version'] },
+] as const;
+
+export interface CollectOptions {
+  agentVersion: string;
+  publicKey: string;
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function run(command: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout, stderr } = await execFileAsync(command, args, {
+      timeout: COMMAND_TIMEOUT_MS,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    // Python 2 prints its version to stderr
+    return stdout || stderr;
+  } catch {
+    return null;
+  }
+}
+
+async function machineId(hostname: string): Promise<string> {
+  for (const file of ['/etc/machine-id', '/var/lib/dbus/machine-id']) {
+    const id = (await readOptional(file))?.trim();
+    if (id && /^[\w.:-]{1,64}$/.test(id)) return id;
+  }
+  // Without a machine id the host is known by name
+  return `host-${crypto.createHash('sha256').update(hostname).digest('hex').slice(0, 32)}`;
+}
+
+async function collectPackages(): Promise<{
+  packageManager: PackageManager | null;
+  packages: HostInventoryInput['packages'];
+}> {
+  const sources: { manager: PackageManager; read: () => Promise<string | null>; parse: (content: string) => InstalledPackages }[] = [
+    { manager: 'dpkg', read: () => readOptional('/var/lib/dpkg/status'), parse: readDpkgStatus },
+    { manager: 'apk', read: () => readOptional('/lib/apk/db/installed'), parse: readApkInstalled },
+    { manager: 'rpm', read: () => run('rpm', ['-qa']), parse: readRpmQa },
+  ];
+
+  for (const source of sources) {
+    const content = await source.read();
+    if (!content?.trim()) continue;
+
+    const { packages } = source.parse(content);
+    if (packages.length === 0) continue;
+    return { packageManager: source.manager, packages };
+  }
+
+  return { packageManager: null, packages: [] };
+}
+
+// Executables of a name on PATH, each resolved to the file it links to
+async function findExecutables(names: readonly string[]): Promise<string[]> {
+  const found = new Set<string>();
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+    for (const name of names) {
+      const candidate = path.join(dir, name);
+      try {
+        await access(candidate, constants.X_OK);
+        found.add(await realpath(candidate));
+      } catch {
+        // Not here
+      }
+    }
+  }
+  return Array.from(found);
+}
+
+async function collectRuntimes(): Promise<HostInventoryInput['runtimes']> {
+  const runtimes: NonNullable<HostInventoryInput['runtimes']> = [];
+  for (const { runtime, names, args } of RUNTIME_COMMANDS) {
+    for (const executable of await findExecutables(names)) {
+      const output = await run(executable, [...args]);
+      const version = output ? parseRuntimeVersion(runtime, output) : null;
+      if (version) runtimes.push({ runtime, version, path: executable });
+    }
+  }
+  return runtimes;
+}
+
+// Socket inodes of each process, to name the process behind a listening socket; needs root for other users' processes
+async function socketOwners(): Promise<Map<string, string>> {
+  const owners = new Map<string, string>();
+  const pids = (await readdir('/proc').catch(() => [])).filter(entry => /^\d+$/.test(entry));
+
+  for (const pid of pids) {
+    const fds = await readdir(`/proc/${pid}/fd`).catch(() => []);
+    if (fds.length === 0) continue;
+
+    const command = (await readOptional(`/proc/${pid}/comm`))?.trim();
+    if (!command) continue;
+
+    for (const fd of fds) {
+      const target = await readlink(`/proc/${pid}/fd/${fd}`).catch(() => '');
+      const inode = target.match(/^socket:\[(\d+)\]$/)?.[1];
+      if (inode && !owners.has(inode)) owners.set(inode, command);
+    }
+  }
+  return owners;
+}
+
+async function collectServices(): Promise<HostInventoryInput['services']> {
+  const sockets: ListeningSocket[] = [];
+  for (const [file, protocol] of [['tcp', 'tcp'], ['tcp6', 'tcp'], ['udp', 'udp'], ['udp6', 'udp']] as const) {
+    const content = await readOptional(`/proc/net/${file}`);
+    if (content) sockets.push(...parseProcNet(content, protocol));
+  }
+  if (sockets.length === 0) return [];
+
+  const owners = await socketOwners();
+  const services = new Map<string, NonNullable<HostInventoryInput['services']>[number]>();
+  for (const socket of sockets) {
+    const key = `${socket.protocol}/${socket.address}/${socket.port}`;
+    const owner = owners.get(socket.inode);
+    if (!services.has(key)) {
+      services.set(key, {
+        protocol: socket.protocol,
+        address: socket.address,
+        port: socket.port,
+        ...(owner ? { process: owner } : {}),
+      });
+    }
+  }
+  return Array.from(services.values()).sort((a, b) => a.port - b.port);
+}
+
+/**
+ * Collect the inventory of the Linux host the agent runs on: OS release,
+ * kernel, installed packages, language runtimes on PATH and listening sockets
+ */
+export async function collectHostInventory(options: CollectOptions): Promise<HostInventoryInput> {
+  if (process.platform !== 'linux') {
+    throw new Error(`The host agent runs on Linux only, not ${process.platform}`);
+  }
+
+  const release = parseOsRelease(
+    (await readOptional('/etc/os-release')) ?? (await readOptional('/usr/lib/os-release')) ?? ''
+  );
+  const hostname = os.hostname();
+  const { packageManager, packages } = await collectPackages();
+
+  return {
+    agent: { version: options.agentVersion, publicKey: options.publicKey },
+    machineId: await machineId(hostname),
+    hostname,
+    os: {
+      id: release.ID ?? 'linux',
+      versionId: release.VERSION_ID ?? '',
+      name: release.PRETTY_NAME ?? release.NAME ?? '',
+    },
+    kernel: { release: os.release(), version: os.version() },
+    architecture: os.machine(),
+    packageManager,
+    packages,
+    runtimes: await collectRuntimes(),
+    services: await collectServices(),
+    collectedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Parsers for the files and command output the host agent reads. They take
+ * content rather than paths so they work on any captured copy.
+ */
+
+export interface ListeningSocket {
+  protocol: 'tcp' | 'udp';
+  address: string;
+  port: number;
+  // Socket inode, which ties the socket to the process holding it
+  inode: string;
+}
+
+// TCP_LISTEN, and unconnected UDP sockets
+const TCP_LISTEN = '0A';
+const UDP_UNCONNECTED = '07';
+
+/**
+ * Read the fields of an /etc/os-release file, unquoting their values
+ */
+export function parseOsRelease(content: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9_]*)=(.*)$/);
+    if (!match) continue;
+
+    let value = match[2]!.trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length >= 2) {
+      value = value.slice(1, -1);
+      if (quote === '"') value = value.replace(/\\(["$`\\])/g, '$1');
+    }
+    fields[match[1]!] = value;
+  }
+  return fields;
+}
+
+// /proc/net addresses are 32-bit words in host (little-endian) byte order
+function decodeAddress(hex: string): string {
+  const bytes = (word: string) => word.match(/../g)!.map(byte => parseInt(byte, 16)).reverse();
+
+  if (hex.length === 8) {
+    return bytes(hex).join('.');
+  }
+
+  const words = hex.match(/.{8}/g)!.flatMap(bytes);
+  // IPv4-mapped addresses read better in their IPv4 form
+  if (words.slice(0, 10).every(byte => byte === 0) && words[10] === 0xff && words[11] === 0xff) {
+    return `::ffff:${words.slice(12).join('.')}`;
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((words[i]! << 8) | words[i + 1]!).toString(16));
+  }
+  // Collapse the longest run of zero groups
+  const address = groups.join(':');
+  const runs = address.match(/(?:^|:)0(?::0)+(?::|$)/g) ?? [];
+  const longest = runs.reduce((best, run) => (run.length > best.length ? run : best), '');
+  return longest ? address.replace(longest, '::') : address;
+}
+
+/**
+ * Listening sockets of a /proc/net/tcp, tcp6, udp or udp6 table
+ */
+export function parseProcNet(content: string, protocol: ListeningSocket['protocol']): ListeningSocket[] {
+  const sockets: ListeningSocket[] = [];
+
+  for (const line of content.split(/\r?\n/).slice(1)) {
+    const columns = line.trim().split(/\s+/);
+    const [local, remote, state, inode] = [columns[1], columns[2], columns[3], columns[9]];
+    if (!local || !remote || !state || !inode) continue;
+
+    const listening = protocol === 'tcp'
+      ? state === TCP_LISTEN
+      : state === UDP_UNCONNECTED && remote.endsWith(':0000');
+    if (!listening) continue;
+
+    const [address = '', port = ''] = local.split(':');
+    if (!/^([0-9A-F]{8}|[0-9A-F]{32})$/i.test(address)) continue;
+    sockets.push({ protocol, address: decodeAddress(address), port: parseInt(port, 16), inode });
+  }
+
+  return sockets;
+}
+
+/**
+ * The version a runtime prints: `node --version`, `python3 --version` or `openssl version`
+ */
+export function parseRuntimeVersion(runtime: 'node' | 'python' | 'openssl', output: string): string | null {
+  const pattern = {
+    node: /^v(\d+\.\d+\.\d+)/,
+    python: /^Python (\d+\.\d+(?:\.\d+)?)/,
+    // OpenSSL 3.0.11 19 Sep 2023; LibreSSL and BoringSSL are not OpenSSL releases
+    openssl: /^OpenSSL (\d+\.\d+\.\d+[a-z]?)/,
+  }[runtime];
+  return output.trim().match(pattern)?.[1] ?? null;
+}
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+
+/**
+ * Host agent report signing
+ *
+ * Agents sign each report with an Ed25519 key of their own, created on first
+ * run. The server keeps the public key a host first reported with and refuses
+ * reports for that host signed with any other key, so an enrollment token
+ * alone cannot overwrite an enrolled host. Signatures cover the timestamp
+ * header and the body. Timestamps far from the server clock are refused, and
+ * so are timestamps at or before the host's last accepted report, so a
+ * captured report cannot be replayed.
+ */
+
+export const AGENT_TIMESTAMP_HEADER = 'x-agent-timestamp';
+export const AGENT_SIGNATURE_HEADER = 'x-agent-signature';
+
+// Largest accepted difference between the agent's and the server's clocks
+export const MAX_REPORT_AGE_MS = 5 * 60 * 1000;
+
+// PEM encoded: SPKI for the public key, PKCS #8 for the private key
+export interface AgentKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface ReportSignature {
+  timestamp: string;
+  signature: string;
+}
+
+export type SignatureCheck = 'valid' | 'invalid' | 'expired' | 'replayed';
+
+export function generateAgentKeyPair(): AgentKeyPair {
+  return crypto.generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+}
+
+export function agentPublicKey(privateKey: string): string {
+  return crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+function signedPayload(timestamp: string, body: string): Buffer {
+  return Buffer.from(`${timestamp}.${body}`);
+}
+
+export function signReport(body: string, privateKey: string, timestamp: string = Date.now().toString()): ReportSignature {
+  return {
+    timestamp,
+    signature: crypto.sign(null, signedPayload(timestamp, body), privateKey).toString('base64'),
+  };
+}
+
+/**
+ * Check the signature of a report body against an Ed25519 public key; reports
+ * timestamped more than MAX_REPORT_AGE_MS away from `now` are expired, and
+ * signed reports timestamped at or before `lastReportAt` are replayed
+ */
+export function verifyReportSignature(
+  body: string,
+  { timestamp, signature }: ReportSignature,
+  publicKey: string,
+  now: number = Date.now(),
+  lastReportAt: number | null = null
+): SignatureCheck {
+  if (!/^\d{1,15}$/.test(timestamp) || Math.abs(now - Number(timestamp)) > MAX_REPORT_AGE_MS) {
+    return 'expired';
+  }
+
+  try {
+    const key = crypto.createPublicKey(publicKey);
+    if (key.asymmetricKeyType !== 'ed25519') return 'invalid';
+    if (!crypto.verify(null, signedPayload(timestamp, body), key, Buffer.from(signature, 'base64'))) {
+      return 'invalid';
+    }
+  } catch {
+    return 'invalid';
+  }
+
+  return lastReportAt !== null && Number(timestamp) <= lastReportAt ? 'replayed' : 'valid';
+}
+
+// OpenSSH-style fingerprint of a public key, e.g. SHA256:2Tq0Jb…; null for anything that is not a key
+export function publicKeyFingerprint(publicKey: string): string | null {
+  try {
+    const der = crypto.createPublicKey(publicKey).export({ type: 'spki', format: 'der' });
+    return `SHA256:${crypto.createHash('sha256').update(der).digest('base64').replace(/=+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
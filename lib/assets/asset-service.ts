@@ -0,0 +1,446 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import {
+  agentEnrollmentTokens,
+  assets,
+  scans,
+  ActivityType,
+  AgentEnrollmentToken,
+  Asset,
+} from '@/lib/db/schema';
+import { eq, and, asc, desc, isNull, lt } from 'drizzle-orm';
+import { logActivity } from '@/lib/db/queries';
+import { generateId } from '@/lib/utils/id-generator';
+import { generateApiKey, hashApiKey } from '@/lib/auth/api-keys';
+import { ScanAccess, scanOwner } from '@/lib/scans/scan-access';
+import { ScanQueue, ScanStatus } from '@/lib/scans/scan-queue';
+import { publicKeyFingerprint, ReportSignature, verifyReportSignature } from './agent-signature';
+import { HostInventory, HostInventorySchema, inventoryDigest } from './host-inventory';
+
+export const ENROLLMENT_TOKEN_FORMAT = { keyPrefix: 'ace_', keyLength: 32 };
+
+export const ASSET_CONFIG = {
+  // An unchanged host is rescanned this often, so new rules and advisories reach it
+  rescanIntervalHours: parseInt(process.env.ASSET_RESCAN_INTERVAL_HOURS || '24'),
+  // Largest report body accepted, in bytes
+  maxReportBytes: parseInt(process.env.ASSET_MAX_REPORT_BYTES || `${5 * 1024 * 1024}`),
+};
+
+export const EnrollmentTokenInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  expiresAt: z.coerce
+    .date()
+    .refine(date => date.getTime() > Date.now(), 'Expiry must be in the future')
+    .nullable()
+    .optional(),
+});
+
+export type EnrollmentTokenInput = z.infer<typeof EnrollmentTokenInputSchema>;
+
+// An enrollment token as listed: everything but the hash
+export type EnrollmentTokenSummary = Omit<AgentEnrollmentToken, 'tokenHash' | 'organizationId'>;
+
+// A token together with its secret, returned once on creation
+export interface IssuedEnrollmentToken {
+  enrollmentToken: EnrollmentTokenSummary;
+  token: string;
+}
+
+// An asset as listed, without its inventory
+export type AssetSummary = Omit<Asset, 'inventory' | 'publicKey' | 'inventoryDigest' | 'organizationId'>;
+
+export interface AgentReport {
+  token: string;
+  body: string;
+  signature: ReportSignature;
+  ipAddress: string | null;
+}
+
+export interface AgentReportOutcome {
+  asset: AssetSummary;
+  // First report of the host
+  enrolled: boolean;
+  // Scan started for the report; null when the inventory is unchanged and was scanned recently
+  scanId: string | null;
+}
+
+// Asset service error types
+export class AssetServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AssetServiceError';
+  }
+}
+
+const tokenColumns = {
+  id: agentEnrollmentTokens.id,
+  name: agentEnrollmentTokens.name,
+  tokenPreview: agentEnrollmentTokens.tokenPreview,
+  createdBy: agentEnrollmentTokens.createdBy,
+  expiresAt: agentEnrollmentTokens.expiresAt,
+  lastUsedAt: agentEnrollmentTokens.lastUsedAt,
+  revokedAt: agentEnrollmentTokens.revokedAt,
+  createdAt: agentEnrollmentTokens.createdAt,
+};
+
+const assetColumns = {
+  id: assets.id,
+  enrollmentTokenId: assets.enrollmentTokenId,
+  machineId: assets.machineId,
+  hostname: assets.hostname,
+  osName: assets.osName,
+  osId: assets.osId,
+  osVersion: assets.osVersion,
+  kernel: assets.kernel,
+  architecture: assets.architecture,
+  agentVersion: assets.agentVersion,
+  keyFingerprint: assets.keyFingerprint,
+  packageCount: assets.packageCount,
+  lastIp: assets.lastIp,
+  lastSeenAt: assets.lastSeenAt,
+  lastReportAt: assets.lastReportAt,
+  inventoryChangedAt: assets.inventoryChangedAt,
+  lastScanId: assets.lastScanId,
+  lastScannedAt: assets.lastScannedAt,
+  createdAt: assets.createdAt,
+  updatedAt: assets.updatedAt,
+};
+
+function replayedReport(): AssetServiceError {
+  return new AssetServiceError('Report is not newer than the last report of this host', 'AGENT_REPORT_REPLAYED', 409);
+}
+
+function summarize(asset: Asset): AssetSummary {
+  const { inventory: _inventory, publicKey: _publicKey, inventoryDigest: _digest, organizationId: _owner, ...summary } = asset;
+  return summary;
+}
+
+export class AssetService {
+  private queue = ScanQueue.getInstance();
+
+  // Enrollment tokens of the caller's organization, newest first, revoked ones included
+  async listTokens(access: ScanAccess): Promise<EnrollmentTokenSummary[]> {
+    return db
+      .select(tokenColumns)
+      .from(agentEnrollmentTokens)
+      .where(eq(agentEnrollmentTokens.organizationId, scanOwner(access)))
+      .orderBy(desc(agentEnrollmentTokens.createdAt));
+  }
+
+  /**
+   * Issue a token agents enroll hosts with. The secret is returned here and
+   * never again; scans of the hosts enrolled with it run as the creator.
+   */
+  async createToken(access: ScanAccess, input: EnrollmentTokenInput): Promise<IssuedEnrollmentToken> {
+    const { key, hash, preview } = generateApiKey(ENROLLMENT_TOKEN_FORMAT);
+
+    const [created] = await db
+      .insert(agentEnrollmentTokens)
+      .values({
+        id: generateId(16),
+        organizationId: scanOwner(access),
+        name: input.name,
+        tokenHash: hash,
+        tokenPreview: preview,
+        createdBy: access.userId,
+        expiresAt: input.expiresAt ?? null,
+      })
+      .returning(tokenColumns);
+
+    return { enrollmentToken: created!, token: key };
+  }
+
+  // Revoke a token; the hosts enrolled with it can no longer report
+  async revokeToken(access: ScanAccess, id: string): Promise<EnrollmentTokenSummary> {
+    const [revoked] = await db
+      .update(agentEnrollmentTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(agentEnrollmentTokens.id, id),
+        eq(agentEnrollmentTokens.organizationId, scanOwner(access)),
+        isNull(agentEnrollmentTokens.revokedAt)
+      ))
+      .returning(tokenColumns);
+
+    if (!revoked) {
+      throw new AssetServiceError(`Enrollment token ${id} not found`, 'AGENT_TOKEN_NOT_FOUND', 404);
+    }
+    return revoked;
+  }
+
+  async listAssets(access: ScanAccess): Promise<AssetSummary[]> {
+    return db
+      .select(assetColumns)
+      .from(assets)
+      .where(eq(assets.organizationId, scanOwner(access)))
+      .orderBy(asc(assets.hostname));
+  }
+
+  // An asset with its latest inventory
+  async getAsset(access: ScanAccess, id: string): Promise<AssetSummary & { inventory: HostInventory }> {
+    const asset = await this.findAsset(access, id);
+    return { ...summarize(asset), inventory: asset.inventory as HostInventory };
+  }
+
+  // Forget a host; its agent enrolls it again, with a new key if need be, on its next report
+  async deleteAsset(access: ScanAccess, id: string): Promise<AssetSummary> {
+    const asset = await this.findAsset(access, id);
+    await db.delete(assets).where(eq(assets.id, asset.id));
+    return summarize(asset);
+  }
+
+  // The inventory a host scan checks
+  async getHostInventory(assetId: string): Promise<HostInventory | null> {
+    const [asset] = await db
+      .select({ inventory: assets.inventory })
+      .from(assets)
+      .where(eq(assets.id, assetId))
+      .limit(1);
+
+    return asset ? (asset.inventory as HostInventory) : null;
+  }
+
+  /**
+   * Record a signed inventory report of a host agent. The first report of a
+   * machine enrolls it with the key it is signed with; later reports must be
+   * signed with the same key. A scan of the host is started when its
+   * inventory changed or it has not been scanned for rescanIntervalHours.
+   */
+  async reportInventory(report: AgentReport): Promise<AgentReportOutcome> {
+    const token = await this.authenticateToken(report.token);
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(report.body);
+    } catch {
+      throw new AssetServiceError('Inventory is not valid JSON', 'INVALID_INVENTORY');
+    }
+    const inventory = HostInventorySchema.parse(payload);
+
+    const [existing] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.organizationId, token.organizationId), eq(assets.machineId, inventory.machineId)))
+      .limit(1);
+
+    const fingerprint = publicKeyFingerprint(inventory.agent.publicKey);
+    if (!fingerprint) {
+      throw new AssetServiceError('agent.publicKey is not a public key', 'INVALID_AGENT_KEY');
+    }
+    if (existing && existing.keyFingerprint !== fingerprint) {
+      throw new AssetServiceError(
+        `${existing.hostname} is enrolled with a different agent key; delete the asset to enroll it again`,
+        'AGENT_KEY_MISMATCH',
+        409
+      );
+    }
+
+    const check = verifyReportSignature(
+      report.body,
+      report.signature,
+      existing?.publicKey ?? inventory.agent.publicKey,
+      Date.now(),
+      existing ? existing.lastReportAt.getTime() : null
+    );
+    if (check === 'expired') {
+      throw new AssetServiceError('Report timestamp is too old or too far ahead; check the host clock', 'AGENT_SIGNATURE_EXPIRED', 401);
+    }
+    if (check === 'invalid') {
+      throw new AssetServiceError('Invalid report signature', 'AGENT_SIGNATURE_INVALID', 401);
+    }
+    if (check === 'replayed') {
+      throw replayedReport();
+    }
+
+    const now = new Date();
+    const reportedAt = new Date(Number(report.signature.timestamp));
+    const digest = inventoryDigest(inventory);
+    const changed = !existing || existing.inventoryDigest !== digest;
+    const fields = {
+      hostname: inventory.hostname,
+      osName: inventory.os.name || null,
+      osId: inventory.os.id,
+      osVersion: inventory.os.versionId || null,
+      kernel: inventory.kernel.release,
+      architecture: inventory.architecture,
+      agentVersion: inventory.agent.version,
+      inventory,
+      inventoryDigest: digest,
+      packageCount: inventory.packages.length,
+      lastIp: report.ipAddress,
+      lastSeenAt: now,
+      lastReportAt: reportedAt,
+      ...(changed ? { inventoryChangedAt: now } : {}),
+      updatedAt: now,
+    };
+
+    // Only one of two reports with the same timestamp may win the update
+    const [asset] = existing
+      ? await db
+          .update(assets)
+          .set(fields)
+          .where(and(eq(assets.id, existing.id), lt(assets.lastReportAt, reportedAt)))
+          .returning()
+      : await db
+          .insert(assets)
+          .values({
+            id: generateId(16),
+            organizationId: token.organizationId,
+            enrollmentTokenId: token.id,
+            machineId: inventory.machineId,
+            publicKey: inventory.agent.publicKey,
+            keyFingerprint: fingerprint,
+            ...fields,
+          })
+          .returning();
+    if (!asset) {
+      throw replayedReport();
+    }
+
+    await db
+      .update(agentEnrollmentTokens)
+      .set({ lastUsedAt: now })
+      .where(eq(agentEnrollmentTokens.id, token.id));
+
+    if (!existing) {
+      await logActivity({
+        ...this.owner(token),
+        action: ActivityType.ASSET_ENROLLED,
+        entityType: 'asset',
+        description: `Host enrolled: ${inventory.hostname}`,
+        ...(report.ipAddress ? { ipAddress: report.ipAddress } : {}),
+        metadata: {
+          assetId: asset.id,
+          machineId: inventory.machineId,
+          enrollmentTokenId: token.id,
+          keyFingerprint: fingerprint,
+        },
+      });
+    }
+
+    const rescanAfter = ASSET_CONFIG.rescanIntervalHours * 60 * 60 * 1000;
+    const scanDue = changed || !asset.lastScannedAt || now.getTime() - asset.lastScannedAt.getTime() >= rescanAfter;
+    if (!scanDue) {
+      return { asset: summarize(asset), enrolled: !existing, scanId: null };
+    }
+
+    const scanId = await this.launchScan(asset, token);
+    const [scanned] = await db
+      .update(assets)
+      .set({ lastScanId: scanId, lastScannedAt: now })
+      .where(eq(assets.id, asset.id))
+      .returning();
+
+    return { asset: summarize(scanned!), enrolled: !existing, scanId };
+  }
+
+  private async authenticateToken(token: string): Promise<AgentEnrollmentToken> {
+    const [row] = await db
+      .select()
+      .from(agentEnrollmentTokens)
+      .where(and(eq(agentEnrollmentTokens.tokenHash, hashApiKey(token)), isNull(agentEnrollmentTokens.revokedAt)))
+      .limit(1);
+
+    if (!row) {
+      throw new AssetServiceError('Invalid enrollment token', 'AGENT_TOKEN_INVALID', 401);
+    }
+    if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) {
+      throw new AssetServiceError('Enrollment token has expired', 'AGENT_TOKEN_EXPIRED', 401);
+    }
+    return row;
+  }
+
+  // Who host scans run as: the creator of the enrollment token, in its organization
+  private owner(token: AgentEnrollmentToken): { userId: number; organizationId?: number } {
+    const userId = parseInt(token.createdBy, 10);
+    return token.organizationId.startsWith('user:')
+      ? { userId }
+      : { userId, organizationId: parseInt(token.organizationId, 10) };
+  }
+
+  // Create the scan of a host report and hand it to the worker pool, as POST /api/scan does
+  private async launchScan(asset: Asset, token: AgentEnrollmentToken): Promise<string> {
+    const owner = this.owner(token);
+    const sessionId = crypto.randomUUID();
+
+    const [scan] = await db
+      .insert(scans)
+      .values({
+        id: crypto.randomUUID().substring(0, 32),
+        userId: token.createdBy,
+        organizationId: owner.organizationId?.toString() ?? '',
+        name: `${asset.hostname} inventory (${new Date().toISOString()})`,
+        description: `Host inventory reported by agent ${asset.agentVersion ?? ''}`.trim(),
+        type: 'host',
+        status: ScanStatus.QUEUED,
+        priority: 'medium',
+        config: {
+          sessionId,
+          dataType: 'dependency_manifest',
+          // Findings and baselines are tracked per host
+          project: `Host ${asset.hostname}`,
+          assetId: asset.id,
+        },
+        files: [],
+        results: {},
+        metrics: {},
+        progress: 0,
+      })
+      .returning();
+
+    if (!scan) {
+      throw new Error('Failed to create scan');
+    }
+
+    await logActivity({
+      ...owner,
+      action: ActivityType.SCAN_CREATED,
+      entityType: 'scan',
+      description: `Host scan created: ${scan.name}`,
+      metadata: { scanId: scan.id, sessionId, assetId: asset.id },
+    });
+
+    try {
+      await this.queue.enqueue({
+        scanId: scan.id,
+        sessionId,
+        ...owner,
+        dataType: 'dependency_manifest',
+        uploadIds: [],
+        assetId: asset.id,
+      });
+    } catch (error) {
+      await db
+        .update(scans)
+        .set({
+          status: ScanStatus.FAILED,
+          completedAt: new Date(),
+          error: 'Failed to queue scan',
+        })
+        .where(eq(scans.id, scan.id));
+      throw error;
+    }
+
+    return scan.id;
+  }
+
+  private async findAsset(access: ScanAccess, id: string): Promise<Asset> {
+    const [asset] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.id, id), eq(assets.organizationId, scanOwner(access))))
+      .limit(1);
+
+    if (!asset) {
+      throw new AssetServiceError(`Asset ${id} not found`, 'ASSET_NOT_FOUND', 404);
+    }
+    return asset;
+  }
+}
+
+export const assetService = new AssetService();
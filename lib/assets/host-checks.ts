@@ -0,0 +1,34 @@
+import type { AnalysisResult } from '@/lib/compatibility/analysis-engine';
+import { checkLifecycle, checkRuntimeLifecycle } from '@/lib/inventory/lifecycle-checks';
+import { HostInventory, hostComponents, hostOsRelease } from './host-inventory';
+
+export interface HostCheckOptions {
+  // Date end of life is judged against; defaults to now
+  now?: Date;
+}
+
+// Name the host among the affected components of results about its inventory
+export function attributeToHost(results: AnalysisResult[], inventory: HostInventory): AnalysisResult[] {
+  return results.map(result => ({
+    ...result,
+    affectedComponents: [...result.affectedComponents, `Host: ${inventory.hostname}`],
+  }));
+}
+
+/**
+ * Check a host agent's inventory: its OS release and the Node.js and Python
+ * installations found on it against the lifecycle tables. Every result names
+ * the host among its affected components.
+ */
+export function checkHost(inventory: HostInventory, options: HostCheckOptions = {}): AnalysisResult[] {
+  const osRelease = hostOsRelease(inventory);
+  const lifecycleOptions = {
+    ...(osRelease ? { osRelease } : {}),
+    ...(options.now ? { now: options.now } : {}),
+  };
+
+  return attributeToHost([
+    ...checkLifecycle(hostComponents(inventory), lifecycleOptions),
+    ...checkRuntimeLifecycle(inventory.runtimes, lifecycleOptions),
+  ], inventory);
+}
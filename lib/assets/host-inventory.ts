@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { osPackageComponents } from '@/lib/inventory/manifest-parsers';
+import { osReleaseFromIdentity } from '@/lib/inventory/platforms';
+import type { InventoryComponent, OsRelease } from '@/lib/inventory/types';
+
+export const MAX_HOST_PACKAGES = 20_000;
+export const MAX_HOST_SERVICES = 2_000;
+const MAX_HOST_RUNTIMES = 50;
+
+// Package database of each package manager the agent reads
+const PACKAGE_MANIFESTS = {
+  dpkg: 'dpkg-status',
+  rpm: 'rpm-qa',
+  apk: 'apk-installed',
+} as const;
+
+export type PackageManager = keyof typeof PACKAGE_MANIFESTS;
+
+/**
+ * Inventory a host agent reports to POST /api/agents/inventory
+ */
+export const HostInventorySchema = z.object({
+  agent: z.object({
+    version: z.string().trim().min(1).max(32),
+    // Ed25519 public key (SPKI PEM) the report is signed with
+    publicKey: z.string().trim().min(1).max(1024),
+  }),
+  // /etc/machine-id, which stays the same when the host is renamed
+  machineId: z.string().trim().regex(/^[\w.:-]{1,64}$/, 'Must be up to 64 letters, digits, dots, colons or dashes'),
+  hostname: z.string().trim().min(1).max(255),
+  // ID, VERSION_ID and PRETTY_NAME of /etc/os-release
+  os: z.object({
+    id: z.string().trim().min(1).max(50),
+    versionId: z.string().trim().max(50).default(''),
+    name: z.string().trim().max(255).default(''),
+  }),
+  kernel: z.object({
+    release: z.string().trim().min(1).max(255),
+    version: z.string().trim().max(255).default(''),
+  }),
+  architecture: z.string().trim().min(1).max(32),
+  packageManager: z.enum(['dpkg', 'rpm', 'apk']).nullable(),
+  packages: z
+    .array(z.object({
+      name: z.string().min(1).max(255),
+      version: z.string().min(1).max(255),
+      arch: z.string().max(32).optional(),
+    }))
+    .max(MAX_HOST_PACKAGES)
+    .default([]),
+  runtimes: z
+    .array(z.object({
+      runtime: z.enum(['node', 'python', 'openssl']),
+      version: z.string().min(1).max(64),
+      path: z.string().min(1).max(1024),
+    }))
+    .max(MAX_HOST_RUNTIMES)
+    .default([]),
+  // Listening sockets
+  services: z
+    .array(z.object({
+      protocol: z.enum(['tcp', 'udp']),
+      address: z.string().max(64),
+      port: z.number().int().min(0).max(65535),
+      process: z.string().max(255).optional(),
+    }))
+    .max(MAX_HOST_SERVICES)
+    .default([]),
+  collectedAt: z.string().datetime(),
+});
+
+export type HostInventory = z.infer<typeof HostInventorySchema>;
+
+// Agents collect with this; the server validates with the schema's defaults applied
+export type HostInventoryInput = z.input<typeof HostInventorySchema>;
+
+export function hostOsRelease(inventory: HostInventory): OsRelease | undefined {
+  return osReleaseFromIdentity(inventory.os.id, inventory.os.versionId, inventory.os.name);
+}
+
+/**
+ * Inventory components of the host's installed packages, in the namespace of
+ * the distribution /etc/os-release names
+ */
+export function hostComponents(inventory: HostInventory): InventoryComponent[] {
+  if (!inventory.packageManager || inventory.packages.length === 0) return [];
+  return osPackageComponents(PACKAGE_MANIFESTS[inventory.packageManager], inventory.packages, hostOsRelease(inventory));
+}
+
+/**
+ * Digest of what a report says about the host, leaving out when it was
+ * collected, so an unchanged host is not rescanned on every report
+ */
+export function inventoryDigest(inventory: HostInventory): string {
+  const { collectedAt: _collectedAt, agent: _agent, ...facts } = inventory;
+  const sorted = {
+    ...facts,
+    packages: [...facts.packages].sort((a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version)),
+    services: [...facts.services].sort((a, b) => a.port - b.port || a.protocol.localeCompare(b.protocol)),
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+}
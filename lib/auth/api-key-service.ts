@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import { apiKeys, users, UserRole } from '@/lib/db/schema';
+import { eq, and, desc, count, isNull } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { scanOwner } from '@/lib/scans/scan-access';
+import { apiKeyConfig } from './config';
+import { Permission, getRolePermissions } from './permissions';
+import { generateApiKey, hashApiKey, isIpAllowed, isValidIpRule } from './api-keys';
+import { mfaService } from './mfa-service';
+import type { SessionData } from './session';
+
+const MAX_ALLOWED_IPS = 50;
+
+export const ApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  permissions: z.array(z.nativeEnum(Permission)).min(1, 'Select at least one permission'),
+  allowedIps: z
+    .array(z.string().trim().refine(isValidIpRule, 'Must be an IP address or CIDR range'))
+    .max(MAX_ALLOWED_IPS)
+    .default([]),
+  expiresAt: z.coerce
+    .date()
+    .refine(date => date.getTime() > Date.now(), 'Expiry must be in the future')
+    .nullable()
+    .optional(),
+});
+
+export type ApiKeyInput = z.infer<typeof ApiKeyInputSchema>;
+
+// An API key as listed to its owner: everything but the hash
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPreview: string | null;
+  permissions: string[];
+  allowedIps: string[];
+  isActive: boolean;
+  lastUsed: Date | null;
+  lastUsedIp: string | null;
+  expiresAt: Date | null;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+// A key together with its secret, returned once by create and rotate
+export interface IssuedApiKey {
+  apiKey: ApiKeySummary;
+  key: string;
+}
+
+export type ApiKeyOwner = SessionData['user'];
+
+// API key service error types
+export class ApiKeyServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ApiKeyServiceError';
+  }
+}
+
+const summaryColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  keyPreview: apiKeys.keyPreview,
+  permissions: apiKeys.permissions,
+  allowedIps: apiKeys.allowedIps,
+  isActive: apiKeys.isActive,
+  lastUsed: apiKeys.lastUsed,
+  lastUsedIp: apiKeys.lastUsedIp,
+  expiresAt: apiKeys.expiresAt,
+  rotatedAt: apiKeys.rotatedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+type SummaryRow = Omit<ApiKeySummary, 'permissions' | 'allowedIps'> & {
+  permissions: unknown;
+  allowedIps: unknown;
+};
+
+function summarize(row: SummaryRow): ApiKeySummary {
+  return {
+    ...row,
+    permissions: (row.permissions as string[] | null) ?? [],
+    allowedIps: (row.allowedIps as string[] | null) ?? [],
+  };
+}
+
+function isExpired(expiresAt: Date | null, now = new Date()): boolean {
+  return expiresAt !== null && expiresAt.getTime() <= now.getTime();
+}
+
+export class ApiKeyService {
+
+  // Keys of a user, newest first, revoked ones included for the audit trail
+  async listKeys(owner: ApiKeyOwner): Promise<ApiKeySummary[]> {
+    const rows = await db
+      .select(summaryColumns)
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, owner.id.toString()))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return rows.map(summarize);
+  }
+
+  /**
+   * Issue a key scoped to a subset of the owner's permissions. The secret is
+   * returned here and never again.
+   */
+  async createKey(owner: ApiKeyOwner, input: ApiKeyInput): Promise<IssuedApiKey> {
+    const rolePermissions = getRolePermissions(owner.role);
+    const outOfRole = input.permissions.filter(permission => !rolePermissions.includes(permission));
+    if (outOfRole.length > 0) {
+      throw new ApiKeyServiceError(
+        `Your role does not grant: ${outOfRole.join(', ')}`,
+        'API_KEY_SCOPE_NOT_ALLOWED',
+        403
+      );
+    }
+
+    const [active] = await db
+      .select({ count: count() })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, owner.id.toString()), eq(apiKeys.isActive, true)));
+
+    if ((active?.count ?? 0) >= apiKeyConfig.maxKeysPerUser) {
+      throw new ApiKeyServiceError(
+        `You can have at most ${apiKeyConfig.maxKeysPerUser} active API keys; revoke one first`,
+        'API_KEY_LIMIT_REACHED',
+        409
+      );
+    }
+
+    const defaultExpiry = apiKeyConfig.expirationDays > 0
+      ? new Date(Date.now() + apiKeyConfig.expirationDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const { key, hash, preview } = generateApiKey(apiKeyConfig);
+    const [created] = await db
+      .insert(apiKeys)
+      .values({
+        id: generateId(16),
+        organizationId: scanOwner({
+          userId: owner.id.toString(),
+          organizationId: owner.organizationId?.toString() ?? null,
+        }),
+        userId: owner.id.toString(),
+        name: input.name,
+        key: hash,
+        keyPreview: preview,
+        permissions: input.permissions,
+        allowedIps: input.allowedIps,
+        expiresAt: input.expiresAt ?? defaultExpiry,
+      })
+      .returning(summaryColumns);
+
+    return { apiKey: summarize(created!), key };
+  }
+
+  // Replace the secret of a key, keeping its scopes; the old secret stops working at once
+  async rotateKey(owner: ApiKeyOwner, id: string): Promise<IssuedApiKey> {
+    const current = await this.getActiveKey(owner, id);
+    if (isExpired(current.expiresAt)) {
+      throw new ApiKeyServiceError('Expired API keys cannot be rotated; create a new key', 'API_KEY_EXPIRED');
+    }
+
+    const { key, hash, preview } = generateApiKey(apiKeyConfig);
+    const [rotated] = await db
+      .update(apiKeys)
+      .set({ key: hash, keyPreview: preview, rotatedAt: new Date(), updatedAt: new Date() })
+      .where(eq(apiKeys.id, current.id))
+      .returning(summaryColumns);
+
+    return { apiKey: summarize(rotated!), key };
+  }
+
+  async revokeKey(owner: ApiKeyOwner, id: string): Promise<ApiKeySummary> {
+    const current = await this.getActiveKey(owner, id);
+
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ isActive: false, revokedAt: new Date(), updatedAt: new Date() })
+      .where(eq(apiKeys.id, current.id))
+      .returning(summaryColumns);
+
+    return summarize(revoked!);
+  }
+
+  /**
+   * Resolve an `acc_` key to a session of its owner, limited to the key's
+   * scopes. Refused while the owner has yet to set up the two-factor
+   * authentication they are required to use. Records the use on the key.
+   */
+  async authenticate(key: string, ipAddress: string | null, userAgent?: string): Promise<SessionData> {
+    const [row] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.key, hashApiKey(key)), eq(apiKeys.isActive, true), isNull(apiKeys.revokedAt)))
+      .limit(1);
+
+    if (!row) {
+      throw new ApiKeyServiceError('Invalid API key', 'API_KEY_INVALID', 401);
+    }
+
+    if (isExpired(row.expiresAt)) {
+      throw new ApiKeyServiceError('API key has expired', 'API_KEY_EXPIRED', 401);
+    }
+
+    if (!isIpAllowed(ipAddress, (row.allowedIps as string[] | null) ?? [])) {
+      throw new ApiKeyServiceError('API key is not allowed from this address', 'API_KEY_IP_NOT_ALLOWED', 403);
+    }
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, Number(row.userId)), eq(users.isActive, true), isNull(users.deletedAt)))
+      .limit(1);
+
+    if (!user) {
+      throw new ApiKeyServiceError('Invalid API key', 'API_KEY_INVALID', 401);
+    }
+
+    // Keys get no further than a session of a user who still has to set up two-factor authentication
+    if ((await mfaService.isRequired(user)) && !(await mfaService.isEnabled(user.id))) {
+      throw new ApiKeyServiceError(
+        'Set up two-factor authentication before using API keys',
+        'MFA_ENROLLMENT_REQUIRED',
+        403
+      );
+    }
+
+    const now = new Date();
+    await db
+      .update(apiKeys)
+      .set({ lastUsed: now, lastUsedIp: ipAddress })
+      .where(eq(apiKeys.id, row.id));
+
+    // Built for a single request: nothing is stored and nothing outlives it
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        ...(user.name ? { name: user.name } : {}),
+        role: user.role as UserRole,
+        ...(user.organizationId ? { organizationId: user.organizationId } : {}),
+      },
+      sessionId: `api-key:${row.id}`,
+      expires: (row.expiresAt ?? now).toISOString(),
+      lastActivity: now.toISOString(),
+      ...(ipAddress ? { ipAddress } : {}),
+      ...(userAgent ? { userAgent } : {}),
+      apiKey: {
+        id: row.id,
+        name: row.name,
+        permissions: (row.permissions as string[] | null) ?? [],
+      },
+    };
+  }
+
+  private async getActiveKey(owner: ApiKeyOwner, id: string) {
+    const [row] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, owner.id.toString()), eq(apiKeys.isActive, true)))
+      .limit(1);
+
+    if (!row) {
+      throw new ApiKeyServiceError(`API key ${id} not found`, 'API_KEY_NOT_FOUND', 404);
+    }
+    return row;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
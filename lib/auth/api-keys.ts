@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { BlockList, isIP } from 'net';
+
+/**
+ * API key helpers
+ *
+ * Keys look like `acc_<64 hex chars>`, with the prefix and length taken from
+ * `apiKeyConfig`. Only a SHA-256 hash is stored: keys are random, so a slow
+ * password hash adds nothing and would make every request pay for it.
+ */
+
+export interface ApiKeyFormat {
+  keyPrefix: string;
+  keyLength: number;
+}
+
+export interface GeneratedApiKey {
+  key: string;
+  hash: string;
+  preview: string;
+}
+
+export function generateApiKey(format: ApiKeyFormat): GeneratedApiKey {
+  const key = `${format.keyPrefix}${crypto.randomBytes(format.keyLength).toString('hex')}`;
+  return { key, hash: hashApiKey(key), preview: apiKeyPreview(key, format.keyPrefix) };
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// e.g. acc_3f9a…c41e
+export function apiKeyPreview(key: string, keyPrefix: string): string {
+  const secret = key.slice(keyPrefix.length);
+  return `${keyPrefix}${secret.slice(0, 4)}…${secret.slice(-4)}`;
+}
+
+// The API key of an `Authorization: Bearer acc_...` header; null for session JWTs
+export function apiKeyFromAuthorization(header: string | null | undefined, keyPrefix: string): string | null {
+  const token = header?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return token && token.startsWith(keyPrefix) ? token : null;
+}
+
+function parseIpRule(rule: string): { address: string; prefix: number | null; family: 'ipv4' | 'ipv6' } | null {
+  const [address = '', prefixText, extra] = rule.trim().split('/');
+  const version = isIP(address);
+  if (version === 0 || extra !== undefined) return null;
+
+  const family = version === 4 ? 'ipv4' : 'ipv6';
+  if (prefixText === undefined) {
+    return { address, prefix: null, family };
+  }
+
+  const prefix = Number(prefixText);
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (!/^\d+$/.test(prefixText) || prefix > maxPrefix) return null;
+  return { address, prefix, family };
+}
+
+// A single IPv4/IPv6 address or a CIDR range
+export function isValidIpRule(rule: string): boolean {
+  return parseIpRule(rule) !== null;
+}
+
+/**
+ * Whether a client address passes a key's allowlist; an empty allowlist allows
+ * any address, an unknown address passes none.
+ */
+export function isIpAllowed(ip: string | null | undefined, allowlist: string[]): boolean {
+  if (allowlist.length === 0) return true;
+  if (!ip) return false;
+
+  const address = ip.trim();
+  const version = isIP(address);
+  if (version === 0) return false;
+
+  const rules = new BlockList();
+  for (const rule of allowlist) {
+    const parsed = parseIpRule(rule);
+    if (!parsed) continue;
+    if (parsed.prefix === null) {
+      rules.addAddress(parsed.address, parsed.family);
+    } else {
+      rules.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return rules.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Client address of a request that passed through `trustedProxies` reverse
+ * proxies, each appending the address it received the request from to
+ * X-Forwarded-For. Entries left of those are set by the client and prove
+ * nothing, so with no trusted proxy the address is unknown.
+ */
+export function clientIpFromForwardedFor(
+  forwardedFor: string | null | undefined,
+  trustedProxies: number
+): string | null {
+  if (trustedProxies < 1 || !forwardedFor) return null;
+
+  const hops = forwardedFor.split(',').map(hop => hop.trim());
+  const address = hops[hops.length - trustedProxies];
+  return address && isIP(address) !== 0 ? address : null;
+}
+
+// Whether a key's scopes grant a permission; sessions without a key are not limited
+export function apiKeyAllows(
+  apiKey: { permissions: string[] } | undefined,
+  permission: string
+): boolean {
+  return !apiKey || apiKey.permissions.includes(permission);
+}
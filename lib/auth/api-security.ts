@@ -10,6 +10,11 @@ import { verifyJWT } from './jwt';
 import { checkRateLimit, RateLimiter } from './rate-limit';
 import { checkCSRFProtection } from './csrf-protection';
 import { checkAccountLockout } from './account-lockout';
+import { apiKeyConfig } from './config';
+import { apiKeyFromAuthorization, clientIpFromForwardedFor } from './api-keys';
+import { apiKeyService, ApiKeyServiceError } from './api-key-service';
+import { getRolePermissions } from './permissions';
+import { UserRole } from '@/lib/db/schema';
 import { logSecurityEvent } from '@/lib/logging/security-logger';
 
 /**
@@ -61,6 +66,14 @@ export interface AuthContext {
   role: string;
   organizationId?: string;
   sessionId?: string;
+  /**
+   * Set when authenticated with an API key
+   */
+  apiKeyId?: string;
+  /**
+   * Scopes of the API key; unset for session logins
+   */
+  permissions?: string[];
 }
 
 /**
@@ -113,6 +126,7 @@ export function withSecurity(
         const authHeader = request.headers.get('authorization');
         const cookieToken = request.cookies.get('session')?.value || request.cookies.get('auth-token')?.value;
         const token = authHeader?.replace('Bearer ', '') || cookieToken;
+        const apiKey = apiKeyFromAuthorization(authHeader, apiKeyConfig.keyPrefix);
         
         if (!token) {
           return NextResponse.json(
@@ -124,33 +138,74 @@ export function withSecurity(
           );
         }
         
-        try {
-          const payload = await verifyJWT(token);
-          authContext = {
-            userId: payload.userId.toString(),
-            email: payload.email,
-            role: payload.role,
-            organizationId: payload.organizationId?.toString(),
-            sessionId: token,
-          };
-        } catch (error) {
-          if (logEvents) {
-            await logSecurityEvent({
-              type: 'invalid_token',
-              ipAddress: getClientIP(request),
-              userAgent: request.headers.get('user-agent') || undefined,
-              severity: 'high',
-              metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
-            });
+        if (apiKey) {
+          try {
+            // Allowlists only trust the address a trusted proxy saw, not the client's own claim
+            const session = await apiKeyService.authenticate(
+              apiKey,
+              clientIpFromForwardedFor(request.headers.get('x-forwarded-for'), apiKeyConfig.trustedProxies),
+              request.headers.get('user-agent') || undefined
+            );
+            authContext = {
+              userId: session.user.id.toString(),
+              email: session.user.email,
+              role: session.user.role,
+              ...(session.user.organizationId ? { organizationId: session.user.organizationId.toString() } : {}),
+              sessionId: session.sessionId,
+              apiKeyId: session.apiKey!.id,
+              permissions: session.apiKey!.permissions,
+            };
+          } catch (error) {
+            if (!(error instanceof ApiKeyServiceError)) throw error;
+            
+            if (logEvents) {
+              const userAgent = request.headers.get('user-agent');
+              await logSecurityEvent({
+                type: 'invalid_token',
+                ipAddress: getClientIP(request),
+                ...(userAgent ? { userAgent } : {}),
+                severity: 'high',
+                metadata: { error: error.code },
+              });
+            }
+            
+            return NextResponse.json(
+              {
+                error: error.statusCode === 403 ? 'Forbidden' : 'Unauthorized',
+                message: error.message,
+              },
+              { status: error.statusCode }
+            );
+          }
+        } else {
+          try {
+            const payload = await verifyJWT(token);
+            authContext = {
+              userId: payload.userId.toString(),
+              email: payload.email,
+              role: payload.role,
+              organizationId: payload.organizationId?.toString(),
+              sessionId: token,
+            };
+          } catch (error) {
+            if (logEvents) {
+              await logSecurityEvent({
+                type: 'invalid_token',
+                ipAddress: getClientIP(request),
+                userAgent: request.headers.get('user-agent') || undefined,
+                severity: 'high',
+                metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+              });
+            }
+            
+            return NextResponse.json(
+              {
+                error: 'Unauthorized',
+                message: 'Invalid or expired token',
+              },
+              { status: 401 }
+            );
           }
-          
-          return NextResponse.json(
-            {
-              error: 'Unauthorized',
-              message: 'Invalid or expired token',
-            },
-            { status: 401 }
-          );
         }
         
         // 3. Account Lockout Check
@@ -188,16 +243,41 @@ export function withSecurity(
           }
         }
         
-        // 5. Permission-Based Access Control
-        // TODO: Implement permission checking system
+        // 5. Permission-Based Access Control: the role's permissions, narrowed to an API key's scopes
         if (requiredPermissions.length > 0) {
-          // For now, just log
-          console.log('Permission check required:', requiredPermissions);
+          const missing = requiredPermissions.filter(permission => !hasPermission(authContext!, permission));
+          
+          if (missing.length > 0) {
+            if (logEvents) {
+              await logSecurityEvent({
+                type: 'permission_denied',
+                userId: authContext.userId,
+                email: authContext.email,
+                ipAddress: getClientIP(request),
+                severity: 'medium',
+                metadata: {
+                  ...(authContext.apiKeyId ? { apiKeyId: authContext.apiKeyId } : {}),
+                  userRole: authContext.role,
+                  missingPermissions: missing,
+                },
+              });
+            }
+            
+            return NextResponse.json(
+              {
+                error: 'Forbidden',
+                message: authContext.apiKeyId
+                  ? 'API key is missing required permissions'
+                  : 'Insufficient permissions',
+              },
+              { status: 403 }
+            );
+          }
         }
       }
       
-      // 6. CSRF Protection
-      if (csrfProtection && authContext) {
+      // 6. CSRF Protection (browsers never send API keys on their own)
+      if (csrfProtection && authContext && !authContext.apiKeyId) {
         const csrfResponse = await checkCSRFProtection(request, authContext.sessionId);
         if (csrfResponse) {
           if (logEvents) {
@@ -342,17 +422,21 @@ export async function getValidatedBody<T>(
 }
 
 /**
- * Check if user has specific permission
- * TODO: Implement actual permission system
+ * Check if user has specific permission: granted by their role and, for API
+ * keys, within the key's scopes
  */
 export function hasPermission(context: AuthContext, permission: string): boolean {
-  // For now, admins and owners have all permissions
+  // API keys never exceed their scopes
+  if (context.permissions && !context.permissions.includes(permission)) {
+    return false;
+  }
+  
+  // Admins and owners have all permissions
   if (context.role === 'admin' || context.role === 'owner') {
     return true;
   }
   
-  // TODO: Implement granular permission checking
-  return false;
+  return getRolePermissions(context.role as UserRole).some(granted => granted === permission);
 }
 
 /**
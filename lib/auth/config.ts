@@ -198,7 +198,7 @@ export const mfaConfig = {
   /**
    * Whether MFA is enabled
    */
-  enabled: false, // Can be enabled in future
+  enabled: true,
   
   /**
    * Whether MFA is required for all users
@@ -447,6 +447,13 @@ export const apiKeyConfig = {
    * Whether to hash API keys in database
    */
   hashKeys: true,
+
+  /**
+   * Reverse proxies in front of the app that append to X-Forwarded-For.
+   * IP allowlists check the address the outermost of them saw; with 0 the
+   * client address is unknown and keys with an allowlist are refused.
+   */
+  trustedProxies: Math.max(0, parseInt(process.env.TRUSTED_PROXY_COUNT || '0') || 0),
 } as const;
 
 /**
@@ -465,6 +472,10 @@ export const securityEventTypes = {
   MFA_DISABLED: 'mfa_disabled',
   MFA_SUCCESS: 'mfa_success',
   MFA_FAILURE: 'mfa_failure',
+  MFA_RESET: 'mfa_reset',
+  MFA_BACKUP_CODE_USED: 'mfa_backup_code_used',
+  MFA_BACKUP_CODES_REGENERATED: 'mfa_backup_codes_regenerated',
+  MFA_POLICY_CHANGED: 'mfa_policy_changed',
   API_KEY_CREATED: 'api_key_created',
   API_KEY_DELETED: 'api_key_deleted',
   PERMISSION_DENIED: 'permission_denied',
@@ -0,0 +1,370 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import { redis } from '@/lib/db/redis';
+import { users, userMfa, userMfaBackupCodes, UserRole } from '@/lib/db/schema';
+import { organizationSettings } from '@/lib/db/multi-tenancy-schema';
+import { eq, and, isNull, isNotNull, lt, or, count } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { mfaConfig } from './config';
+import { comparePasswords, hashPassword } from './session';
+import { logMfaEvent, securityEventTypes } from '@/lib/logging/security-logger';
+import {
+  buildOtpauthUri,
+  generateBackupCodes,
+  generateTotpSecret,
+  normalizeBackupCode,
+  TotpOptions,
+  verifyTotp,
+} from './totp';
+
+// Cookie holding the pending sign-in between the password and the code
+export const MFA_CHALLENGE_COOKIE = 'mfa_challenge';
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const TOTP_OPTIONS: TotpOptions = {
+  digits: mfaConfig.totp.digits,
+  period: mfaConfig.totp.period,
+  algorithm: mfaConfig.totp.algorithm,
+};
+
+export type MfaMethod = 'totp' | 'backup_code';
+
+// An authenticator code or a backup code
+export const MfaCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+export interface MfaUser {
+  id: number;
+  email: string;
+  role: string;
+  organizationId?: number | null | undefined;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  // An authenticator was set up but not yet confirmed with a code
+  pendingEnrollment: boolean;
+  backupCodesRemaining: number;
+  // Whether the user may turn MFA off
+  required: boolean;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaPolicy {
+  enforceTwoFactor: boolean;
+  members: number;
+  enrolledMembers: number;
+}
+
+// MFA service error types
+export class MfaServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'MfaServiceError';
+  }
+}
+
+// TOTP secrets are encrypted at rest with a key derived from AUTH_SECRET
+function encryptionKey(): Buffer {
+  return crypto.createHash('sha256').update(`mfa:${process.env.AUTH_SECRET ?? ''}`).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv!);
+  decipher.setAuthTag(tag!);
+  return Buffer.concat([decipher.update(encrypted!), decipher.final()]).toString('utf8');
+}
+
+function challengeKey(token: string): string {
+  return `mfa_challenge:${token}`;
+}
+
+export class MfaService {
+
+  async getStatus(user: MfaUser): Promise<MfaStatus> {
+    const [row] = await db.select().from(userMfa).where(eq(userMfa.userId, user.id)).limit(1);
+    const [codes] = await db
+      .select({ count: count() })
+      .from(userMfaBackupCodes)
+      .where(and(eq(userMfaBackupCodes.userId, user.id), isNull(userMfaBackupCodes.usedAt)));
+
+    return {
+      enabled: !!row?.enabledAt,
+      enabledAt: row?.enabledAt ?? null,
+      pendingEnrollment: !!row?.pendingSecret,
+      backupCodesRemaining: row?.enabledAt ? codes?.count ?? 0 : 0,
+      required: await this.isRequired(user),
+    };
+  }
+
+  async isEnabled(userId: number): Promise<boolean> {
+    const [row] = await db
+      .select({ userId: userMfa.userId })
+      .from(userMfa)
+      .where(and(eq(userMfa.userId, userId), isNotNull(userMfa.enabledAt)))
+      .limit(1);
+
+    return !!row;
+  }
+
+  // Required by configuration, for admins, or by the user's organization
+  async isRequired(user: MfaUser): Promise<boolean> {
+    if (!mfaConfig.enabled) return false;
+    if (mfaConfig.required) return true;
+    if (mfaConfig.requiredForAdmin && user.role === UserRole.ADMIN) return true;
+    if (!user.organizationId) return false;
+
+    const [settings] = await db
+      .select({ enforceTwoFactor: organizationSettings.enforceTwoFactor })
+      .from(organizationSettings)
+      .where(eq(organizationSettings.organizationId, user.organizationId))
+      .limit(1);
+
+    return settings?.enforceTwoFactor ?? false;
+  }
+
+  /**
+   * Start setting up an authenticator. With MFA already on, this replaces the
+   * authenticator and needs a current code; the old one keeps working until
+   * the new one is confirmed.
+   */
+  async startEnrollment(user: MfaUser, currentCode?: string): Promise<MfaEnrollment> {
+    if (!mfaConfig.enabled) {
+      throw new MfaServiceError('Two-factor authentication is not available', 'MFA_UNAVAILABLE', 404);
+    }
+
+    if (await this.isEnabled(user.id)) {
+      if (!currentCode || !(await this.verify(user.id, currentCode))) {
+        throw new MfaServiceError('Enter a current code to replace your authenticator', 'MFA_CODE_INVALID');
+      }
+    }
+
+    const secret = generateTotpSecret();
+    await db
+      .insert(userMfa)
+      .values({ userId: user.id, pendingSecret: encryptSecret(secret) })
+      .onConflictDoUpdate({
+        target: userMfa.userId,
+        set: { pendingSecret: encryptSecret(secret), updatedAt: new Date() },
+      });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({ ...TOTP_OPTIONS, issuer: mfaConfig.totp.issuer, account: user.email, secret }),
+    };
+  }
+
+  // Activate the pending authenticator and issue a fresh set of backup codes
+  async confirmEnrollment(user: MfaUser, code: string): Promise<string[]> {
+    const [row] = await db.select().from(userMfa).where(eq(userMfa.userId, user.id)).limit(1);
+    if (!row?.pendingSecret) {
+      throw new MfaServiceError('No authenticator is being set up', 'MFA_NOT_ENROLLING', 409);
+    }
+
+    const step = verifyTotp(decryptSecret(row.pendingSecret), code, TOTP_OPTIONS);
+    if (step === null) {
+      throw new MfaServiceError('Invalid code', 'MFA_CODE_INVALID');
+    }
+
+    await db
+      .update(userMfa)
+      .set({
+        secret: row.pendingSecret,
+        pendingSecret: null,
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        updatedAt: new Date(),
+      })
+      .where(eq(userMfa.userId, user.id));
+
+    return this.replaceBackupCodes(user.id);
+  }
+
+  /**
+   * Check a TOTP or backup code. Each TOTP step and each backup code is
+   * accepted once, also under concurrent requests.
+   */
+  async verify(userId: number, code: string): Promise<MfaMethod | null> {
+    const [row] = await db.select().from(userMfa).where(eq(userMfa.userId, userId)).limit(1);
+    if (!row?.secret || !row.enabledAt) return null;
+
+    const step = verifyTotp(decryptSecret(row.secret), code, { ...TOTP_OPTIONS, afterStep: row.lastUsedStep });
+    if (step !== null) {
+      const claimed = await db
+        .update(userMfa)
+        .set({ lastUsedStep: step })
+        .where(and(
+          eq(userMfa.userId, userId),
+          or(isNull(userMfa.lastUsedStep), lt(userMfa.lastUsedStep, step))
+        ))
+        .returning({ userId: userMfa.userId });
+
+      return claimed.length > 0 ? 'totp' : null;
+    }
+
+    const normalized = normalizeBackupCode(code);
+    if (normalized.length !== mfaConfig.backupCodes.length) return null;
+
+    const unused = await db
+      .select()
+      .from(userMfaBackupCodes)
+      .where(and(eq(userMfaBackupCodes.userId, userId), isNull(userMfaBackupCodes.usedAt)));
+
+    for (const backupCode of unused) {
+      if (!(await comparePasswords(normalized, backupCode.codeHash))) continue;
+
+      const claimed = await db
+        .update(userMfaBackupCodes)
+        .set({ usedAt: new Date() })
+        .where(and(eq(userMfaBackupCodes.id, backupCode.id), isNull(userMfaBackupCodes.usedAt)))
+        .returning({ id: userMfaBackupCodes.id });
+
+      return claimed.length > 0 ? 'backup_code' : null;
+    }
+    return null;
+  }
+
+  async regenerateBackupCodes(user: MfaUser, code: string): Promise<string[]> {
+    if (!(await this.verify(user.id, code))) {
+      throw new MfaServiceError('Invalid code', 'MFA_CODE_INVALID');
+    }
+    return this.replaceBackupCodes(user.id);
+  }
+
+  // Turn MFA off for oneself, unless it is required
+  async disable(user: MfaUser, code: string): Promise<void> {
+    if (await this.isRequired(user)) {
+      throw new MfaServiceError(
+        'Two-factor authentication is required for your account; replace your authenticator instead',
+        'MFA_REQUIRED',
+        403
+      );
+    }
+
+    if (!(await this.verify(user.id, code))) {
+      throw new MfaServiceError('Invalid code', 'MFA_CODE_INVALID');
+    }
+
+    await this.reset(user.id);
+  }
+
+  // Remove a user's authenticator and backup codes, e.g. when an admin resets them
+  async reset(userId: number): Promise<boolean> {
+    await db.delete(userMfaBackupCodes).where(eq(userMfaBackupCodes.userId, userId));
+    const removed = await db
+      .delete(userMfa)
+      .where(eq(userMfa.userId, userId))
+      .returning({ userId: userMfa.userId });
+
+    return removed.length > 0;
+  }
+
+  // Remember a user who passed the password step; the token goes in MFA_CHALLENGE_COOKIE
+  async createChallenge(userId: number): Promise<string> {
+    const token = generateId(32);
+    await redis.setex(challengeKey(token), MFA_CHALLENGE_TTL_SECONDS, userId.toString());
+    return token;
+  }
+
+  /**
+   * Finish a sign-in with a code. The challenge is dropped after a success
+   * or after too many wrong codes; wrong codes are logged as MFA failures.
+   */
+  async verifyChallenge(
+    token: string,
+    code: string,
+    ipAddress?: string
+  ): Promise<{ userId: number; method: MfaMethod }> {
+    const key = challengeKey(token);
+    const userId = await redis.get(key);
+    if (!userId) {
+      throw new MfaServiceError('Your sign-in has expired. Please sign in again.', 'MFA_CHALLENGE_EXPIRED', 401);
+    }
+
+    const attempts = await redis.incr(`${key}:attempts`);
+    if (attempts === 1) {
+      await redis.expire(`${key}:attempts`, MFA_CHALLENGE_TTL_SECONDS);
+    }
+    if (attempts > MAX_CHALLENGE_ATTEMPTS) {
+      await redis.del(key, `${key}:attempts`);
+      await logMfaEvent(securityEventTypes.MFA_FAILURE, userId, undefined, ipAddress, { reason: 'too_many_attempts' });
+      throw new MfaServiceError('Too many invalid codes. Please sign in again.', 'MFA_TOO_MANY_ATTEMPTS', 429);
+    }
+
+    const method = await this.verify(parseInt(userId, 10), code);
+    if (!method) {
+      await logMfaEvent(securityEventTypes.MFA_FAILURE, userId, undefined, ipAddress, { attempts });
+      throw new MfaServiceError('Invalid code', 'MFA_CODE_INVALID');
+    }
+
+    await redis.del(key, `${key}:attempts`);
+    return { userId: parseInt(userId, 10), method };
+  }
+
+  async getOrganizationPolicy(organizationId: number): Promise<MfaPolicy> {
+    const [settings] = await db
+      .select({ enforceTwoFactor: organizationSettings.enforceTwoFactor })
+      .from(organizationSettings)
+      .where(eq(organizationSettings.organizationId, organizationId))
+      .limit(1);
+
+    const [members] = await db
+      .select({ total: count(), enrolled: count(userMfa.enabledAt) })
+      .from(users)
+      .leftJoin(userMfa, eq(userMfa.userId, users.id))
+      .where(and(eq(users.organizationId, organizationId), isNull(users.deletedAt)));
+
+    return {
+      enforceTwoFactor: settings?.enforceTwoFactor ?? false,
+      members: members?.total ?? 0,
+      enrolledMembers: members?.enrolled ?? 0,
+    };
+  }
+
+  // Require MFA for every member; members without it must enroll at their next sign-in
+  async setOrganizationPolicy(organizationId: number, enforceTwoFactor: boolean): Promise<MfaPolicy> {
+    await db
+      .insert(organizationSettings)
+      .values({ organizationId, enforceTwoFactor })
+      .onConflictDoUpdate({
+        target: organizationSettings.organizationId,
+        set: { enforceTwoFactor, updatedAt: new Date() },
+      });
+
+    return this.getOrganizationPolicy(organizationId);
+  }
+
+  private async replaceBackupCodes(userId: number): Promise<string[]> {
+    const codes = generateBackupCodes(mfaConfig.backupCodes.count, mfaConfig.backupCodes.length);
+    const hashes = await Promise.all(codes.map(code => hashPassword(normalizeBackupCode(code))));
+
+    await db.delete(userMfaBackupCodes).where(eq(userMfaBackupCodes.userId, userId));
+    await db.insert(userMfaBackupCodes).values(
+      hashes.map(codeHash => ({ id: generateId(16), userId, codeHash }))
+    );
+
+    return codes;
+  }
+}
+
+export const mfaService = new MfaService();
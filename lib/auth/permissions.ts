@@ -1,5 +1,6 @@
 import { SessionData } from './session';
 import { UserRole } from '../db/schema';
+import { apiKeyAllows } from './api-keys';
 
 // Permission system
 export enum Permission {
@@ -75,9 +76,9 @@ export function hasPermission(
   session: SessionData | null,
   permission: Permission
 ): boolean {
-  if (!session || !session.user || !session.user.role) return false;
+  if (!session || !session.user || !session.user.role || session.mfaEnrollmentRequired) return false;
   const rolePermissions = ROLE_PERMISSIONS[session.user.role] || [];
-  return rolePermissions.includes(permission);
+  return rolePermissions.includes(permission) && apiKeyAllows(session.apiKey, permission);
 }
 
 export function hasAnyPermission(
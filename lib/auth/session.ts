@@ -1,9 +1,12 @@
 import { compare, hash } from 'bcryptjs';
 import { SignJWT, jwtVerify } from 'jose';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { NewUser, User, UserRole, ActivityType } from '@/lib/db/schema';
 import { sessionManager } from '@/lib/db/redis';
 import { logActivity } from '@/lib/db/queries';
+import { apiKeyConfig } from './config';
+import { apiKeyAllows, apiKeyFromAuthorization, clientIpFromForwardedFor } from './api-keys';
+import { apiKeyService, ApiKeyServiceError } from './api-key-service';
 import crypto from 'crypto';
 
 const key = new TextEncoder().encode(process.env.AUTH_SECRET);
@@ -33,6 +36,14 @@ export type SessionData = {
   lastActivity: string;
   ipAddress?: string;
   userAgent?: string;
+  // Two-factor authentication is required but not set up yet: no permissions until it is
+  mfaEnrollmentRequired?: boolean;
+  // Set when the request authenticated with an API key instead of the session cookie
+  apiKey?: {
+    id: string;
+    name: string;
+    permissions: string[];
+  };
 };
 
 export async function signToken(payload: SessionData) {
@@ -89,7 +100,8 @@ export async function getSession(): Promise<SessionData | null> {
 export async function setSession(
   user: User,
   ipAddress?: string,
-  userAgent?: string
+  userAgent?: string,
+  mfaEnrollmentRequired: boolean = false
 ): Promise<string> {
   const sessionId = crypto.randomUUID();
   const expiresInOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
@@ -107,6 +119,7 @@ export async function setSession(
     lastActivity: new Date().toISOString(),
     ipAddress,
     userAgent,
+    ...(mfaEnrollmentRequired ? { mfaEnrollmentRequired } : {}),
   };
 
   // Store session in Redis
@@ -138,6 +151,25 @@ export async function setSession(
   return sessionId;
 }
 
+// Session of a request sent with `Authorization: Bearer acc_...`; null without a valid key
+export async function getApiKeySession(): Promise<SessionData | null> {
+  const headersList = await headers();
+  const key = apiKeyFromAuthorization(headersList.get('authorization'), apiKeyConfig.keyPrefix);
+  if (!key) return null;
+
+  const ipAddress = clientIpFromForwardedFor(headersList.get('x-forwarded-for'), apiKeyConfig.trustedProxies);
+
+  try {
+    return await apiKeyService.authenticate(key, ipAddress, headersList.get('user-agent') || undefined);
+  } catch (error) {
+    if (error instanceof ApiKeyServiceError) {
+      console.warn(`API key rejected: ${error.code}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
 // Clear session
 export async function clearSession(): Promise<void> {
   const cookieStore = await cookies();
@@ -170,6 +202,14 @@ export async function destroySession(
   });
 }
 
+// Lift the enrollment requirement once the user has set up two-factor authentication
+export async function completeMfaEnrollment(session: SessionData): Promise<void> {
+  if (!session.mfaEnrollmentRequired) return;
+
+  const { mfaEnrollmentRequired: _, ...rest } = session;
+  await sessionManager.updateSession(session.sessionId, rest);
+}
+
 // Extend session
 export async function extendSession(): Promise<void> {
   const session = await getSession();
@@ -182,9 +222,10 @@ export async function extendSession(): Promise<void> {
   await sessionManager.extendSession(session.sessionId);
 }
 
-// Role-based access control functions
+// Role-based access control functions; like permissions, roles grant nothing
+// until required two-factor authentication is set up
 export function hasRole(session: SessionData | null, ...roles: UserRole[]): boolean {
-  if (!session) return false;
+  if (!session || session.mfaEnrollmentRequired) return false;
   return roles.includes(session.user.role);
 }
 
@@ -200,7 +241,7 @@ export function canAccessOrganization(
   session: SessionData | null,
   organizationId: number
 ): boolean {
-  if (!session) return false;
+  if (!session || session.mfaEnrollmentRequired) return false;
   if (isAdmin(session)) return true;
   return session.user.organizationId === organizationId;
 }
@@ -275,9 +316,9 @@ export function hasPermission(
   session: SessionData | null,
   permission: Permission
 ): boolean {
-  if (!session) return false;
+  if (!session || session.mfaEnrollmentRequired) return false;
   const rolePermissions = ROLE_PERMISSIONS[session.user.role] || [];
-  return rolePermissions.includes(permission);
+  return rolePermissions.includes(permission) && apiKeyAllows(session.apiKey, permission);
 }
 
 export function hasAnyPermission(
@@ -294,9 +335,9 @@ export function hasAllPermissions(
   return permissions.every(permission => hasPermission(session, permission));
 }
 
-// Session validation middleware
+// Session validation middleware; also accepts API keys, limited to their scopes
 export async function requireAuth(): Promise<SessionData> {
-  const session = await getSession();
+  const session = (await getApiKeySession()) ?? (await getSession());
   if (!session) {
     throw new Error('Authentication required');
   }
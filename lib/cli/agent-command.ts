@@ -0,0 +1,211 @@
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+// Imports stay relative and cover only the collector, report signing and the
+// HTTP error type: the agent is bundled on its own to run on hosts
+import { collectHostInventory } from '../agent/collector';
+import {
+  AGENT_SIGNATURE_HEADER,
+  AGENT_TIMESTAMP_HEADER,
+  agentPublicKey,
+  generateAgentKeyPair,
+  signReport,
+} from '../assets/agent-signature';
+import { ApiClientError } from './api-client';
+import { CliOutput, CliUsageError, EXIT_ERROR } from './command';
+
+export const AGENT_VERSION = '1.0.0';
+
+const DEFAULT_KEY_FILE = '/var/lib/appcompatcheck-agent/host-key.pem';
+
+// Help text, for `appcompatcheck agent` or the standalone agent
+export function agentUsage(command = 'appcompatcheck agent'): string {
+  return `Usage: ${command} [options]
+
+Collect the inventory of this Linux host and report it to the server: OS
+release, kernel, installed packages, language runtimes and listening services.
+
+Options:
+  --enrollment-token <token>
+                          Enrollment token (default: $APPCOMPATCHECK_ENROLLMENT_TOKEN)
+  --key-file <path>       Host key reports are signed with, created on first run
+                          (default: ${DEFAULT_KEY_FILE})
+  --interval <minutes>    Report again every this many minutes (default: 60)
+  --once                  Report once and exit
+  --print                 Print the inventory instead of reporting it
+  --url <url>             Server URL (default: $APPCOMPATCHECK_URL or http://localhost:3000)
+  --help                  Show this help
+
+Run it as root to see the processes of every listening service.`;
+}
+
+export const AGENT_USAGE = agentUsage();
+
+export interface AgentCommandOptions {
+  url: string;
+  enrollmentToken: string;
+  keyFile: string;
+  intervalMinutes: number;
+  once: boolean;
+  print: boolean;
+}
+
+export interface AgentReportResponse {
+  assetId: string;
+  enrolled: boolean;
+  scanId: string | null;
+}
+
+/**
+ * Parse the arguments of `appcompatcheck agent`; null when help was requested
+ */
+export function parseAgentOptions(
+  args: string[],
+  env: Record<string, string | undefined> = process.env
+): AgentCommandOptions | null {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      strict: true,
+      options: {
+        'enrollment-token': { type: 'string' },
+        'key-file': { type: 'string' },
+        interval: { type: 'string' },
+        once: { type: 'boolean' },
+        print: { type: 'boolean' },
+        url: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : 'Invalid arguments');
+  }
+
+  if (values.help) return null;
+
+  const print = values.print ?? false;
+  const enrollmentToken = values['enrollment-token'] ?? env.APPCOMPATCHECK_ENROLLMENT_TOKEN ?? '';
+  if (!enrollmentToken && !print) {
+    throw new CliUsageError(
+      'An enrollment token is required: pass --enrollment-token or set APPCOMPATCHECK_ENROLLMENT_TOKEN'
+    );
+  }
+
+  const intervalMinutes = Number(values.interval ?? 60);
+  if (!Number.isFinite(intervalMinutes) || intervalMinutes < 1) {
+    throw new CliUsageError('--interval must be at least 1 minute');
+  }
+
+  return {
+    url: values.url ?? env.APPCOMPATCHECK_URL ?? 'http://localhost:3000',
+    enrollmentToken,
+    keyFile: values['key-file'] ?? DEFAULT_KEY_FILE,
+    intervalMinutes,
+    once: values.once ?? false,
+    print,
+  };
+}
+
+// The host key's private half, created on first run and readable by its owner only
+async function loadHostKey(keyFile: string, output: CliOutput, create: boolean): Promise<string> {
+  try {
+    return await readFile(keyFile, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  // Printing the inventory leaves nothing behind
+  if (!create) return generateAgentKeyPair().privateKey;
+
+  const { privateKey } = generateAgentKeyPair();
+  await mkdir(path.dirname(keyFile), { recursive: true, mode: 0o700 });
+  await writeFile(keyFile, privateKey, { mode: 0o600, flag: 'wx' });
+  await chmod(keyFile, 0o600);
+  output.log(`Created host key ${keyFile}`);
+  return privateKey;
+}
+
+async function sendReport(options: AgentCommandOptions, body: string, privateKey: string): Promise<AgentReportResponse> {
+  const { timestamp, signature } = signReport(body, privateKey);
+  const url = `${options.url.replace(/\/+$/, '')}/api/agents/inventory`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: `Bearer ${options.enrollmentToken}`,
+        [AGENT_TIMESTAMP_HEADER]: timestamp,
+        [AGENT_SIGNATURE_HEADER]: signature,
+      },
+      body,
+    });
+  } catch (error) {
+    throw new ApiClientError(
+      `Cannot reach ${options.url}: ${error instanceof Error ? error.message : 'network error'}`,
+      'NETWORK_ERROR'
+    );
+  }
+
+  const result = await response.json().catch(() => null) as (AgentReportResponse & { error?: string; code?: string }) | null;
+  if (!response.ok) {
+    throw new ApiClientError(
+      result?.error ?? `Request failed with HTTP ${response.status}`,
+      result?.code ?? 'HTTP_ERROR',
+      response.status
+    );
+  }
+  return result!;
+}
+
+// Collect and send one report; false when it failed
+async function reportOnce(options: AgentCommandOptions, privateKey: string, output: CliOutput): Promise<boolean> {
+  try {
+    const inventory = await collectHostInventory({
+      agentVersion: AGENT_VERSION,
+      publicKey: agentPublicKey(privateKey),
+    });
+
+    if (options.print) {
+      output.log(JSON.stringify(inventory, null, 2));
+      return true;
+    }
+
+    const result = await sendReport(options, JSON.stringify(inventory), privateKey);
+    const packages = inventory.packages?.length ?? 0;
+    output.log(
+      `${result.enrolled ? 'Enrolled' : 'Reported'} ${inventory.hostname} as asset ${result.assetId}: ${packages} packages` +
+        (result.scanId ? `, scan ${result.scanId} started` : ', unchanged')
+    );
+    return true;
+  } catch (error) {
+    output.error(`Report failed: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Report the host's inventory once, or every intervalMinutes until the
+ * process is stopped. Returns the exit code of a single report.
+ */
+export async function runAgentCommand(options: AgentCommandOptions, output: CliOutput): Promise<number> {
+  let privateKey: string;
+  try {
+    privateKey = await loadHostKey(options.keyFile, output, !options.print);
+  } catch (error) {
+    output.error(`Cannot load the host key ${options.keyFile}: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_ERROR;
+  }
+
+  if (options.once || options.print) {
+    return (await reportOnce(options, privateKey, output)) ? 0 : EXIT_ERROR;
+  }
+
+  for (;;) {
+    await reportOnce(options, privateKey, output);
+    await new Promise(resolve => setTimeout(resolve, options.intervalMinutes * 60 * 1000));
+  }
+}
@@ -0,0 +1,126 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { ScanReport } from './scan-report';
+
+export interface UploadedFile {
+  uploadId: number;
+  originalName: string;
+  fileSize: number;
+  processResult: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    hasErrors: boolean;
+  };
+}
+
+export interface StartScanInput {
+  scanName: string;
+  uploadIds: number[];
+  project?: string;
+  projectId?: string;
+  dataType?: string;
+  // Runs a Kubernetes scan against this cluster version
+  kubernetesVersion?: string;
+  description?: string;
+}
+
+export interface StartedScan {
+  scanId: string;
+  status: string;
+  name: string;
+}
+
+// API client error types
+export class ApiClientError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 0
+  ) {
+    super(message);
+    this.name = 'ApiClientError';
+  }
+}
+
+/**
+ * Calls the AppCompatCheck API with an API key, for the command-line client.
+ * The key is sent as a bearer token, which the server resolves through
+ * lib/auth/api-key-service.ts into a session limited to the key's scopes.
+ */
+export class AppCompatCheckClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string, private readonly apiKey: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async uploadFile(filePath: string, dataType?: string): Promise<UploadedFile> {
+    const content = await readFile(filePath);
+
+    const form = new FormData();
+    form.append('file', new Blob([content]), path.basename(filePath));
+    if (dataType) {
+      form.append('dataType', dataType);
+    }
+
+    return this.request<UploadedFile>('/api/upload', { method: 'POST', body: form });
+  }
+
+  async startScan(input: StartScanInput): Promise<StartedScan> {
+    return this.request<StartedScan>('/api/scan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        scanName: input.scanName,
+        files: input.uploadIds,
+        ...(input.project ? { project: input.project } : {}),
+        ...(input.projectId ? { projectId: input.projectId } : {}),
+        ...(input.dataType ? { dataType: input.dataType } : {}),
+        ...(input.kubernetesVersion
+          ? { scanType: 'kubernetes', config: { kubernetesVersion: input.kubernetesVersion } }
+          : {}),
+        ...(input.description ? { description: input.description } : {}),
+      }),
+    });
+  }
+
+  async getScan(scanId: string): Promise<ScanReport> {
+    return this.request<ScanReport>(`/api/scan?scanId=${encodeURIComponent(scanId)}`, { method: 'GET' });
+  }
+
+  async cancelScan(scanId: string): Promise<void> {
+    await this.request(`/api/scan?scanId=${encodeURIComponent(scanId)}`, { method: 'DELETE' });
+  }
+
+  // Send a request and unwrap the `data` of the response
+  private async request<T>(pathname: string, init: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${pathname}`, {
+        ...init,
+        headers: {
+          ...(init.headers as Record<string, string> | undefined),
+          Authorization: `Bearer ${this.apiKey}`,
+          Accept: 'application/json',
+        },
+      });
+    } catch (error) {
+      throw new ApiClientError(
+        `Cannot reach ${this.baseUrl}: ${error instanceof Error ? error.message : 'network error'}`,
+        'NETWORK_ERROR'
+      );
+    }
+
+    const body = await response.json().catch(() => null) as { data?: T; error?: string; code?: string } | null;
+    if (!response.ok) {
+      throw new ApiClientError(
+        body?.error ?? `Request failed with HTTP ${response.status}`,
+        body?.code ?? 'HTTP_ERROR',
+        response.status
+      );
+    }
+
+    return (body?.data ?? body) as T;
+  }
+}
@@ -0,0 +1,18 @@
+// Shared by the commands of the command-line client; imports nothing, so each command can be bundled on its own
+
+export const EXIT_PASSED = 0;
+export const EXIT_THRESHOLD_FAILED = 1;
+export const EXIT_ERROR = 2;
+
+// Invalid command-line usage
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export interface CliOutput {
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
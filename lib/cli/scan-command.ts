@@ -0,0 +1,253 @@
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { AppCompatCheckClient, ApiClientError } from './api-client';
+import { CliOutput, CliUsageError, EXIT_ERROR, EXIT_PASSED, EXIT_THRESHOLD_FAILED } from './command';
+import {
+  buildJUnitReport,
+  buildJsonReport,
+  buildScanSarif,
+  evaluateThresholds,
+  formatScanSummary,
+  ScanReport,
+  SEVERITY_LEVELS,
+  SeverityThreshold,
+} from './scan-report';
+
+export { CliUsageError, EXIT_ERROR, EXIT_PASSED, EXIT_THRESHOLD_FAILED } from './command';
+export type { CliOutput } from './command';
+
+// Scopes the API key needs: uploading and starting scans, then reading them back
+export const SCAN_KEY_PERMISSIONS = ['scan:create', 'scan:read'];
+
+// Scans stop changing once they reach one of these
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export const SCAN_USAGE = `Usage: appcompatcheck scan [options]
+
+Upload files, run a scan and wait for its results.
+
+Options:
+  --file <path>           File to upload and scan (repeatable)
+  --project <name>        Project the scan belongs to
+  --project-id <id>       Project id, instead of --project
+  --name <name>           Scan name (default: <project> CLI scan <timestamp>)
+  --data-type <type>      Data type of the uploaded files
+  --kubernetes-version <version>
+                          Check Kubernetes manifests against this cluster version
+  --fail-on <severity>    Fail on failed results of low, medium, high or critical
+                          severity or above (default: none)
+  --max-risk <percent>    Fail when the risk score is above this percentage
+  --fail-on-regression    Fail when the scan has new failures against the project baseline
+  --junit <path>          Write a JUnit XML report
+  --sarif <path>          Write a SARIF 2.1.0 log
+  --json <path>           Write the results as JSON
+  --timeout <seconds>     Give up waiting after this long (default: 1800)
+  --poll-interval <sec>   Seconds between progress checks (default: 2)
+  --url <url>             Server URL (default: $APPCOMPATCHECK_URL or http://localhost:3000)
+  --api-key <key>         API key with the scan:create and scan:read scopes, from
+                          Settings → API Keys (default: $APPCOMPATCHECK_API_KEY)
+  --help                  Show this help
+
+Exit codes: 0 when the thresholds pass, 1 when they fail, 2 on errors.`;
+
+export interface ScanCommandOptions {
+  url: string;
+  apiKey: string;
+  files: string[];
+  project?: string;
+  projectId?: string;
+  name: string;
+  dataType?: string;
+  kubernetesVersion?: string;
+  failOn: SeverityThreshold;
+  maxRiskScore?: number;
+  failOnRegression: boolean;
+  junit?: string;
+  sarif?: string;
+  json?: string;
+  timeoutSeconds: number;
+  pollIntervalSeconds: number;
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new CliUsageError(`${flag} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse the arguments of `appcompatcheck scan`; null when help was requested
+ */
+export function parseScanOptions(
+  args: string[],
+  env: Record<string, string | undefined> = process.env
+): ScanCommandOptions | null {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      strict: true,
+      options: {
+        file: { type: 'string', multiple: true, short: 'f' },
+        project: { type: 'string', short: 'p' },
+        'project-id': { type: 'string' },
+        name: { type: 'string' },
+        'data-type': { type: 'string' },
+        'kubernetes-version': { type: 'string' },
+        'fail-on': { type: 'string' },
+        'max-risk': { type: 'string' },
+        'fail-on-regression': { type: 'boolean' },
+        junit: { type: 'string' },
+        sarif: { type: 'string' },
+        json: { type: 'string' },
+        timeout: { type: 'string' },
+        'poll-interval': { type: 'string' },
+        url: { type: 'string' },
+        'api-key': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : 'Invalid arguments');
+  }
+
+  if (values.help) return null;
+
+  const apiKey = values['api-key'] ?? env.APPCOMPATCHECK_API_KEY;
+  if (!apiKey) {
+    throw new CliUsageError('An API key is required: pass --api-key or set APPCOMPATCHECK_API_KEY');
+  }
+
+  const files = values.file ?? [];
+  if (files.length === 0) {
+    throw new CliUsageError('At least one --file is required');
+  }
+
+  const failOn = (values['fail-on'] ?? 'none') as SeverityThreshold;
+  if (failOn !== 'none' && !SEVERITY_LEVELS.includes(failOn)) {
+    throw new CliUsageError(`--fail-on must be one of none, ${SEVERITY_LEVELS.join(', ')}`);
+  }
+
+  const maxRiskScore = parseNumber(values['max-risk'], '--max-risk');
+  const project = values.project;
+  const projectId = values['project-id'];
+
+  return {
+    url: values.url ?? env.APPCOMPATCHECK_URL ?? 'http://localhost:3000',
+    apiKey,
+    files,
+    ...(project ? { project } : {}),
+    ...(projectId ? { projectId } : {}),
+    name: values.name ?? `${project ?? 'CLI'} scan ${new Date().toISOString()}`,
+    ...(values['data-type'] ? { dataType: values['data-type'] } : {}),
+    ...(values['kubernetes-version'] ? { kubernetesVersion: values['kubernetes-version'] } : {}),
+    failOn,
+    ...(maxRiskScore !== undefined ? { maxRiskScore } : {}),
+    failOnRegression: values['fail-on-regression'] ?? false,
+    ...(values.junit ? { junit: values.junit } : {}),
+    ...(values.sarif ? { sarif: values.sarif } : {}),
+    ...(values.json ? { json: values.json } : {}),
+    timeoutSeconds: parseNumber(values.timeout, '--timeout') ?? 1800,
+    pollIntervalSeconds: parseNumber(values['poll-interval'], '--poll-interval') ?? 2,
+  };
+}
+
+async function waitForScan(
+  client: AppCompatCheckClient,
+  scanId: string,
+  options: ScanCommandOptions,
+  output: CliOutput
+): Promise<ScanReport> {
+  const deadline = Date.now() + options.timeoutSeconds * 1000;
+  let lastProgress = '';
+
+  for (;;) {
+    const report = await client.getScan(scanId);
+    if (FINISHED_STATUSES.includes(report.scan.status)) {
+      return report;
+    }
+
+    const progress = `${report.scan.status} ${report.scan.progress}%`;
+    if (progress !== lastProgress) {
+      output.log(`  ${progress}`);
+      lastProgress = progress;
+    }
+
+    if (Date.now() >= deadline) {
+      await client.cancelScan(scanId).catch(() => undefined);
+      throw new Error(`Scan ${scanId} did not finish within ${options.timeoutSeconds}s`);
+    }
+    await new Promise(resolve => setTimeout(resolve, options.pollIntervalSeconds * 1000));
+  }
+}
+
+/**
+ * Upload the files, run the scan, write the requested reports and return the exit code
+ */
+export async function runScanCommand(options: ScanCommandOptions, output: CliOutput): Promise<number> {
+  const client = new AppCompatCheckClient(options.url, options.apiKey);
+
+  try {
+    const uploadIds: number[] = [];
+    for (const file of options.files) {
+      const upload = await client.uploadFile(file, options.dataType);
+      uploadIds.push(upload.uploadId);
+
+      const { validRows, invalidRows } = upload.processResult;
+      output.log(`Uploaded ${upload.originalName}: ${validRows} valid, ${invalidRows} invalid rows`);
+    }
+
+    const scan = await client.startScan({
+      scanName: options.name,
+      uploadIds,
+      description: 'Started from the command line',
+      ...(options.project ? { project: options.project } : {}),
+      ...(options.projectId ? { projectId: options.projectId } : {}),
+      ...(options.dataType ? { dataType: options.dataType } : {}),
+      ...(options.kubernetesVersion ? { kubernetesVersion: options.kubernetesVersion } : {}),
+    });
+    output.log(`Started scan ${scan.scanId}`);
+
+    const report = await waitForScan(client, scan.scanId, options, output);
+    if (report.scan.status !== 'completed') {
+      output.error(`Scan ${report.scan.status}: ${report.scan.error ?? 'no details'}`);
+      return EXIT_ERROR;
+    }
+
+    const evaluation = evaluateThresholds(report, {
+      failOn: options.failOn,
+      ...(options.maxRiskScore !== undefined ? { maxRiskScore: options.maxRiskScore } : {}),
+      failOnRegression: options.failOnRegression,
+    });
+
+    output.log('');
+    output.log(formatScanSummary(report, evaluation));
+
+    if (options.junit) {
+      await writeFile(options.junit, buildJUnitReport(report));
+      output.log(`Wrote JUnit report to ${options.junit}`);
+    }
+    if (options.sarif) {
+      await writeFile(options.sarif, JSON.stringify(buildScanSarif(report), null, 2));
+      output.log(`Wrote SARIF log to ${options.sarif}`);
+    }
+    if (options.json) {
+      await writeFile(options.json, JSON.stringify(buildJsonReport(report, evaluation), null, 2));
+      output.log(`Wrote JSON report to ${options.json}`);
+    }
+
+    return evaluation.passed ? EXIT_PASSED : EXIT_THRESHOLD_FAILED;
+  } catch (error) {
+    if (error instanceof ApiClientError && error.statusCode === 401) {
+      output.error('Authentication failed: check the API key');
+    } else if (error instanceof ApiClientError && error.statusCode === 403) {
+      output.error(`${error.message}: the API key needs the ${SCAN_KEY_PERMISSIONS.join(' and ')} scopes`);
+    } else {
+      output.error(error instanceof Error ? error.message : String(error));
+    }
+    return EXIT_ERROR;
+  }
+}
@@ -0,0 +1,228 @@
+// Imports stay relative: the CLI is bundled on its own, without the app's path aliases
+import type { AnalysisResult } from '../compatibility/analysis-engine';
+import type { BaselineGateResult } from '../scans/baseline-service';
+import { buildSarifLog, SarifLog } from '../reports/sarif-export';
+
+// Least to most severe
+export const SEVERITY_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+
+export type Severity = typeof SEVERITY_LEVELS[number];
+export type SeverityThreshold = Severity | 'none';
+
+// A scan as returned by GET /api/scan?scanId=
+export interface ScanReport {
+  scan: {
+    id: string;
+    projectId: string | null;
+    name: string;
+    status: string;
+    progress: number;
+    error: string | null;
+    createdAt: string;
+    completedAt: string | null;
+  };
+  results: {
+    items?: AnalysisResult[];
+    baseline?: BaselineGateResult;
+  };
+  metrics: {
+    riskScore?: number;
+  };
+}
+
+export interface ScanThresholds {
+  // Fail on failed results of this severity or worse
+  failOn: SeverityThreshold;
+  // Fail when the risk score, as a percentage, is above this
+  maxRiskScore?: number;
+  // Fail when the project's baseline gate failed
+  failOnRegression: boolean;
+}
+
+export interface ThresholdEvaluation {
+  passed: boolean;
+  violations: string[];
+}
+
+// Results that count: suppressed results are reported but never fail a build
+export function activeResults(report: ScanReport): AnalysisResult[] {
+  return (report.results.items ?? []).filter(result => !result.suppression);
+}
+
+function severityRank(severity: string): number {
+  return SEVERITY_LEVELS.indexOf(severity as Severity);
+}
+
+export function riskScorePercent(report: ScanReport): number {
+  return Math.round((report.metrics.riskScore ?? 0) * 1000) / 10;
+}
+
+export function evaluateThresholds(report: ScanReport, thresholds: ScanThresholds): ThresholdEvaluation {
+  const violations: string[] = [];
+
+  if (thresholds.failOn !== 'none') {
+    const minimum = severityRank(thresholds.failOn);
+    const failing = activeResults(report).filter(
+      result => result.status === 'failed' && severityRank(result.severity) >= minimum
+    );
+    if (failing.length > 0) {
+      violations.push(`${failing.length} failed result(s) at severity ${thresholds.failOn} or above`);
+    }
+  }
+
+  if (thresholds.maxRiskScore !== undefined) {
+    const riskScore = riskScorePercent(report);
+    if (riskScore > thresholds.maxRiskScore) {
+      violations.push(`Risk score ${riskScore}% is above the maximum of ${thresholds.maxRiskScore}%`);
+    }
+  }
+
+  const baseline = report.results.baseline;
+  if (thresholds.failOnRegression && baseline && !baseline.passed) {
+    violations.push(`${baseline.regressions} new failed finding(s) compared to the project baseline`);
+  }
+
+  return { passed: violations.length === 0, violations };
+}
+
+function countBy(results: AnalysisResult[], key: (result: AnalysisResult) => string): Record<string, number> {
+  return results.reduce((counts: Record<string, number>, result) => {
+    counts[key(result)] = (counts[key(result)] ?? 0) + 1;
+    return counts;
+  }, {});
+}
+
+// Most severe failures listed in the summary
+const MAX_LISTED_FAILURES = 10;
+
+/**
+ * Plain-text summary of a finished scan for the terminal
+ */
+export function formatScanSummary(report: ScanReport, evaluation: ThresholdEvaluation): string {
+  const results = activeResults(report);
+  const suppressed = (report.results.items ?? []).length - results.length;
+  const byStatus = countBy(results, result => result.status);
+  const lines: string[] = [];
+
+  const field = (label: string, value: string) => lines.push(`${label.padEnd(10)}${value}`);
+  field('Scan', `${report.scan.name} (${report.scan.id})`);
+  field('Status', report.scan.status);
+  field('Risk', `${riskScorePercent(report)}%`);
+  field('Results', [
+    `${byStatus.passed ?? 0} passed`,
+    `${byStatus.warning ?? 0} warning`,
+    `${byStatus.failed ?? 0} failed`,
+    ...(suppressed > 0 ? [`${suppressed} suppressed`] : []),
+  ].join(', '));
+
+  const baseline = report.results.baseline;
+  if (baseline) {
+    field('Baseline', `${baseline.summary.new} new, ${baseline.summary.fixed} fixed, gate ${baseline.passed ? 'passed' : 'failed'}`);
+  }
+
+  lines.push('');
+  lines.push(`${'Severity'.padEnd(10)}${'Failed'.padStart(8)}${'Warning'.padStart(9)}`);
+  for (const severity of [...SEVERITY_LEVELS].reverse()) {
+    const ofSeverity = results.filter(result => result.severity === severity);
+    const failed = ofSeverity.filter(result => result.status === 'failed').length;
+    const warning = ofSeverity.filter(result => result.status === 'warning').length;
+    lines.push(`${severity.padEnd(10)}${String(failed).padStart(8)}${String(warning).padStart(9)}`);
+  }
+
+  const failures = results
+    .filter(result => result.status === 'failed')
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity))
+    .slice(0, MAX_LISTED_FAILURES);
+  if (failures.length > 0) {
+    lines.push('');
+    for (const result of failures) {
+      lines.push(`  [${result.severity}] ${result.ruleId}: ${result.message}`);
+    }
+    const more = (byStatus.failed ?? 0) - failures.length;
+    if (more > 0) {
+      lines.push(`  ... and ${more} more`);
+    }
+  }
+
+  lines.push('');
+  if (evaluation.passed) {
+    lines.push('Thresholds passed');
+  } else {
+    lines.push('Thresholds failed:');
+    evaluation.violations.forEach(violation => lines.push(`  - ${violation}`));
+  }
+
+  return lines.join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML with one test case per result. Failed results are failures,
+ * errored ones errors and suppressed ones skipped.
+ */
+export function buildJUnitReport(report: ScanReport): string {
+  const items = report.results.items ?? [];
+  const failures = items.filter(result => !result.suppression && result.status === 'failed').length;
+  const errors = items.filter(result => !result.suppression && result.status === 'error').length;
+  const skipped = items.filter(result => result.suppression).length;
+
+  const testCases = items.map(result => {
+    const name = escapeXml(result.affectedComponents[0] ?? result.message);
+    const open = `    <testcase classname="${escapeXml(String(result.ruleId))}" name="${name}">`;
+    const message = escapeXml(result.message);
+
+    if (result.suppression) {
+      return `${open}\n      <skipped message="${escapeXml(result.suppression.justification)}"/>\n    </testcase>`;
+    }
+    if (result.status === 'failed') {
+      const body = escapeXml(String(result.recommendations || result.message));
+      return `${open}\n      <failure message="${message}" type="${result.severity}">${body}</failure>\n    </testcase>`;
+    }
+    if (result.status === 'error') {
+      return `${open}\n      <error message="${message}" type="${result.severity}"/>\n    </testcase>`;
+    }
+    return `    <testcase classname="${escapeXml(String(result.ruleId))}" name="${name}"/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="appcompatcheck" tests="${items.length}" failures="${failures}" errors="${errors}" skipped="${skipped}">`,
+    `  <testsuite name="${escapeXml(report.scan.name)}" id="${escapeXml(report.scan.id)}" tests="${items.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" timestamp="${report.scan.createdAt}">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+export function buildScanSarif(report: ScanReport): SarifLog {
+  return buildSarifLog(report.results.items ?? [], {
+    automationId: `appcompatcheck/${report.scan.id}/`,
+  });
+}
+
+// Machine-readable result of a CLI run
+export function buildJsonReport(report: ScanReport, evaluation: ThresholdEvaluation) {
+  const results = activeResults(report);
+  return {
+    scan: report.scan,
+    riskScore: riskScorePercent(report),
+    summary: {
+      total: results.length,
+      byStatus: countBy(results, result => result.status),
+      bySeverity: countBy(results.filter(result => result.status === 'failed'), result => result.severity),
+      suppressed: (report.results.items ?? []).length - results.length,
+    },
+    ...(report.results.baseline ? { baseline: report.results.baseline } : {}),
+    thresholds: evaluation,
+    results: report.results.items ?? [],
+  };
+}
@@ -1,5 +1,20 @@
-import { SecurityLogEntry, CompatibilityDataEntry } from '@/lib/upload/file-handler';
+import { SecurityLogEntry, CompatibilityDataEntry, UploadDataType } from '@/lib/upload/file-handler';
+import type { InventoryComponent } from '@/lib/inventory/types';
+import type { SourceFeatureUsage } from '@/lib/source-analysis/types';
+import type { KubernetesResource } from '@/lib/kubernetes/types';
 import { cache } from '@/lib/db/redis';
+import { evaluateRuleConditions } from './rule-conditions';
+import {
+  DEFAULT_SCORING_PROFILE,
+  ScoringProfile,
+  ScoreExplanation,
+  FeatureContribution,
+  maxResultScore,
+  resultScore,
+} from './scoring-profile';
+import { BUILT_IN_PATTERNS, PatternDefinition } from '@/lib/patterns/types';
+import { compileSafeRegex } from '@/lib/patterns/safe-regex';
+import { timedMatchAll, timedRegexTest } from '@/lib/patterns/regex-runner';
 
 // Define types locally since schema doesn't have them
 export enum RuleSeverity {
@@ -38,6 +53,18 @@ export interface AnalysisResult {
   affectedComponents: string[];
   metadata: any;
   confidence: number; // 0-1 confidence score
+  fingerprint?: string; // Set when the result is stored with a scan
+  suppression?: ResultSuppression; // Suppressed results do not count toward the risk score
+  explanation?: ScoreExplanation; // How the scoring profile produced the risk score and confidence
+}
+
+// Why a stored result is suppressed: a suppression rule matched it, or its finding was triaged away
+export interface ResultSuppression {
+  reason: 'suppression_rule' | 'triage';
+  justification: string;
+  suppressionId?: string;
+  findingStatus?: string;
+  expiresAt?: string;
 }
 
 // AI Analysis Context
@@ -45,89 +72,76 @@ export interface AnalysisContext {
   sessionId: string;
   userId: number;
   organizationId?: number;
-  dataType: 'security_log' | 'compatibility_data';
+  dataType: UploadDataType;
   rules: CompatibilityRule[];
   historicalData?: AnalysisResult[];
 }
 
-// Risk scoring weights
-const SEVERITY_WEIGHTS = {
-  [RuleSeverity.LOW]: 1,
-  [RuleSeverity.MEDIUM]: 3,
-  [RuleSeverity.HIGH]: 7,
-  [RuleSeverity.CRITICAL]: 10,
-} as const;
-
 // Pattern matching engine
 export class PatternMatcher {
-  private patterns: Map<string, RegExp> = new Map();
-
-  constructor() {
-    this.initializePatterns();
-  }
+  private patterns: Map<string, { id: string; regex: RegExp }> = new Map();
+  private hits: Map<string, number> = new Map();
 
-  private initializePatterns() {
-    // Security vulnerability patterns
-    this.patterns.set('sql_injection', /(?:union|select|insert|update|delete|drop|exec|script)\s*[(;]/gi);
-    this.patterns.set('xss', /(?:<script|javascript:|vbscript:|onload|onerror|onclick)/gi);
-    this.patterns.set('path_traversal', /(?:(?:\.\.)[\/\\]|%2e%2e[%2f%5c])/gi);
-    this.patterns.set('command_injection', /(?:;\s*(?:rm|del|format|shutdown)|\|\s*(?:nc|netcat|telnet))/gi);
-    this.patterns.set('authentication_bypass', /(?:admin|administrator|root).*(?:password|pwd|pass).*(?:=|:)\s*(?:"|')?(?:admin|password|123|blank)?/gi);
-    this.patterns.set('sensitive_data', /(?:api[_-]?key|secret|token|password|credential|private[_-]?key)\s*[=:]\s*["']?[a-zA-Z0-9+\/]{8,}["']?/gi);
-    
-    // Compatibility issue patterns
-    this.patterns.set('version_conflict', /version\s+(?:conflict|mismatch|incompatibl)/gi);
-    this.patterns.set('deprecated_api', /(?:deprecated|obsolete|legacy)\s+(?:api|method|function)/gi);
-    this.patterns.set('missing_dependency', /(?:missing|not\s+found|undefined)\s+(?:dependency|module|library)/gi);
-    this.patterns.set('configuration_error', /(?:configuration|config)\s+(?:error|invalid|missing)/gi);
+  // Patterns are compiled once; unsafe ones are skipped
+  constructor(definitions: readonly PatternDefinition[] = BUILT_IN_PATTERNS) {
+    for (const definition of definitions) {
+      const flags = definition.flags.includes('g') ? definition.flags : `${definition.flags}g`;
+      const regex = compileSafeRegex(definition.pattern, flags);
+      if (regex) {
+        this.patterns.set(definition.name, { id: definition.id, regex });
+      }
+    }
   }
 
   match(text: string, patternName?: string): { pattern: string; matches: RegExpMatchArray[] }[] {
     const results: { pattern: string; matches: RegExpMatchArray[] }[] = [];
     
     const patternsToCheck = patternName 
-      ? [[patternName, this.patterns.get(patternName)!]]
+      ? [[patternName, this.patterns.get(patternName)!] as const]
       : Array.from(this.patterns.entries());
 
     for (const [name, pattern] of patternsToCheck) {
       if (!pattern) continue;
-      const matches = Array.from(text.matchAll(pattern));
-      if (matches.length > 0) {
+      const matches = timedMatchAll(pattern.regex, text);
+      if (matches && matches.length > 0) {
         results.push({ pattern: name, matches });
+        this.hits.set(pattern.id, (this.hits.get(pattern.id) ?? 0) + matches.length);
       }
     }
 
     return results;
   }
+
+  // Matches per pattern id since the matcher was created
+  getHits(): Map<string, number> {
+    return new Map(this.hits);
+  }
+}
+
+// A risk score with the contribution of each feature to it
+export interface RiskScoreBreakdown {
+  value: number;
+  base: number;
+  historicalAdjustment: number;
+  features: FeatureContribution[];
 }
 
 // Machine Learning-inspired analysis
 export class MLAnalyzer {
-  private featureWeights: Map<string, number> = new Map();
   private patternMatcher: PatternMatcher;
 
-  constructor() {
-    this.patternMatcher = new PatternMatcher();
-    this.initializeFeatureWeights();
+  constructor(
+    private profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    patterns: readonly PatternDefinition[] = BUILT_IN_PATTERNS
+  ) {
+    this.patternMatcher = new PatternMatcher(patterns);
   }
 
-  private initializeFeatureWeights() {
-    // Security feature weights
-    this.featureWeights.set('sql_injection', 0.9);
-    this.featureWeights.set('xss', 0.8);
-    this.featureWeights.set('path_traversal', 0.85);
-    this.featureWeights.set('command_injection', 0.95);
-    this.featureWeights.set('authentication_bypass', 0.9);
-    this.featureWeights.set('sensitive_data', 0.7);
-    
-    // Compatibility feature weights
-    this.featureWeights.set('version_conflict', 0.8);
-    this.featureWeights.set('deprecated_api', 0.6);
-    this.featureWeights.set('missing_dependency', 0.75);
-    this.featureWeights.set('configuration_error', 0.7);
+  getPatternHits(): Map<string, number> {
+    return this.patternMatcher.getHits();
   }
 
-  extractFeatures(data: SecurityLogEntry | CompatibilityDataEntry): Map<string, number> {
+  extractFeatures(data: SecurityLogEntry | CompatibilityDataEntry | InventoryComponent | SourceFeatureUsage | KubernetesResource): Map<string, number> {
     const features = new Map<string, number>();
     
     // Convert data to searchable text
@@ -136,13 +150,13 @@ export class MLAnalyzer {
     // Pattern-based features
     const patternMatches = this.patternMatcher.match(searchText);
     for (const { pattern, matches } of patternMatches) {
-      const weight = this.featureWeights.get(pattern) || 0.5;
+      const weight = this.profile.patternWeights[pattern] ?? this.profile.defaultWeight;
       features.set(`pattern_${pattern}`, matches.length * weight);
     }
     
     // Statistical features
     if ('severity' in data) {
-      const severityScore = SEVERITY_WEIGHTS[data.severity as RuleSeverity] || 1;
+      const severityScore = this.profile.severityWeights[data.severity as RuleSeverity] ?? 1;
       features.set('severity_score', severityScore / 10); // Normalize to 0-1
     }
     
@@ -160,32 +174,25 @@ export class MLAnalyzer {
   }
 
   private getToolReliabilityScore(tool: string): number {
-    const reliabilityMap: Record<string, number> = {
-      'sonarqube': 0.9,
-      'owasp_zap': 0.85,
-      'burp_suite': 0.9,
-      'nessus': 0.8,
-      'qualys': 0.8,
-      'veracode': 0.85,
-      'checkmarx': 0.8,
-      'fortify': 0.8,
-      'snyk': 0.85,
-      'semgrep': 0.8,
-    };
-    
     const normalizedTool = tool.toLowerCase().replace(/\s+/g, '_');
-    return reliabilityMap[normalizedTool] || 0.7; // Default reliability
+    return this.profile.toolReliability[normalizedTool] ?? this.profile.defaultToolReliability;
   }
 
   calculateRiskScore(features: Map<string, number>, historicalData?: AnalysisResult[]): number {
+    return this.explainRiskScore(features, historicalData).value;
+  }
+
+  explainRiskScore(features: Map<string, number>, historicalData?: AnalysisResult[]): RiskScoreBreakdown {
     let score = 0;
     let totalWeight = 0;
+    const weighted: Omit<FeatureContribution, 'contribution'>[] = [];
     
     // Base score from features
     for (const [feature, value] of features) {
       const weight = this.getFeatureWeight(feature);
       score += value * weight;
       totalWeight += weight;
+      weighted.push({ feature, value, weight });
     }
     
     // Normalize base score
@@ -198,40 +205,53 @@ export class MLAnalyzer {
         .filter(r => r.status === ResultStatus.FAILED)
         .length;
       const totalRecent = Math.min(historicalData.length, 10);
-      historicalAdjustment = (recentFailures / totalRecent) * 0.2; // Max 20% adjustment
+      historicalAdjustment = (recentFailures / totalRecent) * this.profile.maxHistoricalAdjustment;
     }
     
-    return Math.min(baseScore + historicalAdjustment, 1);
+    return {
+      value: Math.min(baseScore + historicalAdjustment, 1),
+      base: baseScore,
+      historicalAdjustment,
+      features: weighted.map(entry => ({
+        ...entry,
+        contribution: totalWeight > 0 ? (entry.value * entry.weight) / totalWeight : 0,
+      })),
+    };
   }
 
   private getFeatureWeight(feature: string): number {
     if (feature.startsWith('pattern_')) {
       const pattern = feature.replace('pattern_', '');
-      return this.featureWeights.get(pattern) || 0.5;
+      return this.profile.patternWeights[pattern] ?? this.profile.defaultWeight;
     }
     
-    const weights: Record<string, number> = {
-      'severity_score': 0.8,
-      'message_complexity': 0.3,
-      'tool_reliability': 0.6,
-    };
-    
-    return weights[feature] || 0.5;
+    return this.profile.featureWeights[feature] ?? this.profile.defaultWeight;
   }
 }
 
 // Main compatibility analysis engine
 export class CompatibilityAnalysisEngine {
   private mlAnalyzer: MLAnalyzer;
-  private patternMatcher: PatternMatcher;
 
-  constructor() {
-    this.mlAnalyzer = new MLAnalyzer();
-    this.patternMatcher = new PatternMatcher();
+  constructor(
+    private profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    patterns: readonly PatternDefinition[] = BUILT_IN_PATTERNS
+  ) {
+    this.mlAnalyzer = new MLAnalyzer(profile, patterns);
+  }
+
+  // Matches per library pattern id across every entry this engine analyzed
+  getPatternHits(): Map<string, number> {
+    return this.mlAnalyzer.getPatternHits();
+  }
+
+  // The scoring profile results are scored with
+  getScoringProfile(): ScoringProfile {
+    return this.profile;
   }
 
   async analyzeData(
-    data: (SecurityLogEntry | CompatibilityDataEntry)[],
+    data: (SecurityLogEntry | CompatibilityDataEntry | InventoryComponent | SourceFeatureUsage | KubernetesResource)[],
     context: AnalysisContext
   ): Promise<AnalysisResult[]> {
     const results: AnalysisResult[] = [];
@@ -240,8 +260,11 @@ export class CompatibilityAnalysisEngine {
     const historicalCacheKey = `analysis_history:${context.userId}:${context.organizationId || 'personal'}`;
     
     try {
-      // Get historical analysis data for ML insights
-      const historicalData = await cache.get<AnalysisResult[]>(historicalCacheKey) || [];
+      // Get historical analysis data for ML insights; callers that pass their own history
+      // (such as rule dry runs) neither read nor update the shared cache
+      const historicalData = context.historicalData
+        ?? await cache.get<AnalysisResult[]>(historicalCacheKey)
+        ?? [];
       
       // Analyze each data entry against all rules
       for (const entry of data) {
@@ -254,8 +277,10 @@ export class CompatibilityAnalysisEngine {
       }
       
       // Update historical data cache
-      const updatedHistorical = [...historicalData, ...results].slice(-100); // Keep last 100 results
-      await cache.set(historicalCacheKey, updatedHistorical, 24 * 60 * 60); // 24 hours TTL
+      if (!context.historicalData) {
+        const updatedHistorical = [...historicalData, ...results].slice(-100); // Keep last 100 results
+        await cache.set(historicalCacheKey, updatedHistorical, 24 * 60 * 60); // 24 hours TTL
+      }
       
     } catch (error) {
       console.error('Analysis engine error:', error);
@@ -265,14 +290,15 @@ export class CompatibilityAnalysisEngine {
     return results;
   }
 
-  private async analyzeEntry(
-    entry: SecurityLogEntry | CompatibilityDataEntry,
+  // Evaluate one entry against one rule; null when the rule does not match it
+  async analyzeEntry(
+    entry: SecurityLogEntry | CompatibilityDataEntry | InventoryComponent | SourceFeatureUsage | KubernetesResource,
     rule: CompatibilityRule,
     historicalData: AnalysisResult[]
   ): Promise<AnalysisResult | null> {
     try {
       // Check if rule conditions match the entry
-      const matchResult = this.evaluateRuleConditions(entry, rule.conditions as any);
+      const matchResult = evaluateRuleConditions(entry, rule.conditions, timedRegexTest);
       if (!matchResult.matches) {
         return null;
       }
@@ -281,10 +307,13 @@ export class CompatibilityAnalysisEngine {
       const features = this.mlAnalyzer.extractFeatures(entry);
       
       // Calculate risk score
-      const riskScore = this.mlAnalyzer.calculateRiskScore(features, historicalData);
+      const risk = this.mlAnalyzer.explainRiskScore(features, historicalData);
+      const riskScore = risk.value;
       
       // Determine result status based on risk score and rule severity
       const status = this.determineResultStatus(riskScore, rule.severity as RuleSeverity);
+      const confidence = this.explainConfidence(riskScore, features);
+      const failThreshold = this.failThreshold(rule.severity as RuleSeverity);
       
       // Generate detailed analysis
       const analysis = this.generateDetailedAnalysis(entry, rule, features, matchResult);
@@ -301,9 +330,17 @@ export class CompatibilityAnalysisEngine {
           riskScore,
           features: Array.from(features.entries()),
           matchedConditions: matchResult.matchedConditions,
-          confidence: this.calculateConfidence(riskScore, features),
+          confidence: confidence.value,
+        },
+        confidence: confidence.value,
+        explanation: {
+          riskScore: {
+            ...risk,
+            failThreshold,
+            warningThreshold: failThreshold * this.profile.warningRatio,
+          },
+          confidence,
         },
-        confidence: this.calculateConfidence(riskScore, features),
       };
       
     } catch (error) {
@@ -312,92 +349,17 @@ export class CompatibilityAnalysisEngine {
     }
   }
 
-  private evaluateRuleConditions(entry: any, conditions: any): {
-    matches: boolean;
-    matchedConditions: string[];
-  } {
-    const matchedConditions: string[] = [];
-    
-    if (!conditions || typeof conditions !== 'object') {
-      return { matches: false, matchedConditions };
-    }
-    
-    // Evaluate each condition
-    for (const [key, condition] of Object.entries(conditions)) {
-      if (this.evaluateCondition(entry, key, condition)) {
-        matchedConditions.push(key);
-      }
-    }
-    
-    // Rule matches if any condition is met (OR logic)
-    // For AND logic, change this to check if all conditions match
-    const matches = matchedConditions.length > 0;
-    
-    return { matches, matchedConditions };
-  }
-
-  private evaluateCondition(entry: any, key: string, condition: any): boolean {
-    const value = this.getValueByPath(entry, key);
-    
-    if (condition === null || condition === undefined) {
-      return value === null || value === undefined;
-    }
-    
-    if (typeof condition === 'string') {
-      if (condition.startsWith('/') && condition.endsWith('/')) {
-        // Regex condition
-        const regex = new RegExp(condition.slice(1, -1), 'i');
-        return regex.test(String(value));
-      }
-      return String(value).toLowerCase().includes(condition.toLowerCase());
-    }
-    
-    if (typeof condition === 'object') {
-      // Complex condition object
-      if (condition.$regex) {
-        const regex = new RegExp(condition.$regex, condition.$options || 'i');
-        return regex.test(String(value));
-      }
-      
-      if (condition.$in && Array.isArray(condition.$in)) {
-        return condition.$in.includes(value);
-      }
-      
-      if (condition.$gt !== undefined) {
-        return Number(value) > Number(condition.$gt);
-      }
-      
-      if (condition.$lt !== undefined) {
-        return Number(value) < Number(condition.$lt);
-      }
-      
-      if (condition.$eq !== undefined) {
-        return value === condition.$eq;
-      }
-    }
-    
-    return value === condition;
-  }
-
-  private getValueByPath(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => {
-      return current && current[key] !== undefined ? current[key] : undefined;
-    }, obj);
+  // Rules of an unknown severity never fail below the maximum risk score
+  private failThreshold(severity: RuleSeverity): number {
+    return this.profile.failThresholds[severity] ?? 1;
   }
 
   private determineResultStatus(riskScore: number, severity: RuleSeverity): ResultStatus {
-    const severityThresholds = {
-      [RuleSeverity.LOW]: 0.3,
-      [RuleSeverity.MEDIUM]: 0.5,
-      [RuleSeverity.HIGH]: 0.7,
-      [RuleSeverity.CRITICAL]: 0.9,
-    };
-    
-    const threshold = severityThresholds[severity];
+    const threshold = this.failThreshold(severity);
     
     if (riskScore >= threshold) {
       return ResultStatus.FAILED;
-    } else if (riskScore >= threshold * 0.7) {
+    } else if (riskScore >= threshold * this.profile.warningRatio) {
       return ResultStatus.WARNING;
     } else {
       return ResultStatus.PASSED;
@@ -405,7 +367,7 @@ export class CompatibilityAnalysisEngine {
   }
 
   private generateDetailedAnalysis(
-    entry: SecurityLogEntry | CompatibilityDataEntry,
+    entry: SecurityLogEntry | CompatibilityDataEntry | InventoryComponent | SourceFeatureUsage | KubernetesResource,
     rule: CompatibilityRule,
     features: Map<string, number>,
     matchResult: { matches: boolean; matchedConditions: string[] }
@@ -436,6 +398,19 @@ export class CompatibilityAnalysisEngine {
         affectedComponents.push(`Version: ${entry.version}`);
       }
     }
+
+    if ('purl' in entry) {
+      affectedComponents.push(`Package: ${entry.version ? `${entry.name}@${entry.version}` : entry.name}`);
+    }
+
+    if ('feature' in entry) {
+      affectedComponents.push(`File: ${entry.file}:${entry.line}`);
+    }
+
+    if ('apiVersion' in entry) {
+      affectedComponents.push(`Resource: ${entry.kind}/${entry.name}`);
+      affectedComponents.push(`File: ${entry.file}:${entry.line}`);
+    }
     
     // Generate recommendations
     let recommendations = rule.recommendations || 'No specific recommendations available.';
@@ -465,59 +440,43 @@ export class CompatibilityAnalysisEngine {
     };
   }
 
-  private calculateConfidence(riskScore: number, features: Map<string, number>): number {
-    // Base confidence from risk score
-    let confidence = riskScore;
-    
+  private explainConfidence(riskScore: number, features: Map<string, number>): ScoreExplanation['confidence'] {
+    const { perFeature, maxFeatures, perPattern, maxPatterns } = this.profile.confidenceBonus;
+
     // Adjust based on number of features
-    const featureCount = features.size;
-    const featureBonus = Math.min(featureCount / 10, 0.2); // Max 20% bonus
-    confidence += featureBonus;
+    const featureBonus = Math.min(features.size * perFeature, maxFeatures);
     
     // Adjust based on pattern matches
     const patternMatches = Array.from(features.entries())
       .filter(([key, value]) => key.startsWith('pattern_') && value > 0)
       .length;
+    const patternBonus = Math.min(patternMatches * perPattern, maxPatterns);
     
-    if (patternMatches > 0) {
-      confidence += Math.min(patternMatches / 5, 0.3); // Max 30% bonus
-    }
-    
-    return Math.min(confidence, 1); // Cap at 1.0
+    return {
+      value: Math.min(riskScore + featureBonus + patternBonus, 1), // Cap at 1.0
+      components: [
+        { name: 'risk_score', value: riskScore },
+        { name: 'feature_count', value: featureBonus },
+        { name: 'pattern_matches', value: patternBonus },
+      ],
+    };
   }
 }
 
 // Utility function to calculate overall risk score for a scan session
-export function calculateOverallRiskScore(results: AnalysisResult[]): number {
+export function calculateOverallRiskScore(
+  allResults: AnalysisResult[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  const results = allResults.filter(result => !result.suppression);
   if (results.length === 0) return 0;
   
-  const weights = {
-    [ResultStatus.FAILED]: 1.0,
-    [ResultStatus.WARNING]: 0.6,
-    [ResultStatus.PASSED]: 0.1,
-    [ResultStatus.ERROR]: 0.8,
-  };
-  
-  const severityMultipliers = {
-    [RuleSeverity.CRITICAL]: 2.0,
-    [RuleSeverity.HIGH]: 1.5,
-    [RuleSeverity.MEDIUM]: 1.0,
-    [RuleSeverity.LOW]: 0.5,
-  };
-  
   let totalScore = 0;
   let maxPossibleScore = 0;
   
   for (const result of results) {
-    const statusWeight = weights[result.status];
-    const severityMultiplier = severityMultipliers[result.severity];
-    const confidence = result.confidence;
-    
-    const resultScore = statusWeight * severityMultiplier * confidence;
-    const maxResultScore = 1.0 * 2.0 * 1.0; // Max possible for any result
-    
-    totalScore += resultScore;
-    maxPossibleScore += maxResultScore;
+    totalScore += resultScore(result, profile);
+    maxPossibleScore += maxResultScore(profile);
   }
   
   return maxPossibleScore > 0 ? Math.min(totalScore / maxPossibleScore, 1) : 0;
@@ -0,0 +1,354 @@
+import semver from 'semver';
+import Papa from 'papaparse';
+import { z } from 'zod';
+import type { CompatibilityDataEntry } from '@/lib/upload/file-handler';
+import { AnalysisResult, ResultStatus, RuleSeverity } from './analysis-engine';
+
+export const MatrixStatus = {
+  KNOWN_GOOD: 'known_good',
+  KNOWN_BAD: 'known_bad',
+} as const;
+
+export type MatrixStatusValue = typeof MatrixStatus[keyof typeof MatrixStatus];
+
+// Ranges use npm semver syntax; `loose` also accepts forms like "=1.2" or "v2.x"
+const versionRange = z
+  .string()
+  .trim()
+  .min(1)
+  .max(255)
+  .refine(range => semver.validRange(range, { loose: true }) !== null, {
+    message: 'Invalid version range',
+  });
+
+export const MatrixEntryInputSchema = z.object({
+  application: z.string().trim().min(1).max(255),
+  applicationRange: versionRange.default('*'),
+  securityTool: z.string().trim().min(1).max(255),
+  toolRange: versionRange.default('*'),
+  status: z.enum([MatrixStatus.KNOWN_GOOD, MatrixStatus.KNOWN_BAD]),
+  severity: z.nativeEnum(RuleSeverity).default(RuleSeverity.MEDIUM),
+  notes: z.string().max(2000).optional(),
+  recommendations: z.string().max(5000).optional(),
+});
+
+export const MatrixEntryUpdateSchema = MatrixEntryInputSchema.partial();
+
+export type MatrixEntryInput = z.infer<typeof MatrixEntryInputSchema>;
+export type MatrixEntryUpdate = z.infer<typeof MatrixEntryUpdateSchema>;
+
+// The fields the evaluator needs; stored matrix rows satisfy this shape
+export interface MatrixRange {
+  id: string;
+  application: string;
+  applicationRange: string;
+  securityTool: string;
+  toolRange: string;
+  status: string;
+  severity: string;
+  notes?: string | null;
+  recommendations?: string | null;
+}
+
+export interface ParsedVersion {
+  raw: string;
+  version: string;
+  // False when the version had to be coerced (e.g. "11.0 SP2" -> 11.0.0)
+  exact: boolean;
+}
+
+export const MATRIX_CSV_COLUMNS = [
+  'application',
+  'application_range',
+  'security_tool',
+  'tool_range',
+  'status',
+  'severity',
+  'notes',
+  'recommendations',
+] as const;
+
+const SEVERITY_ORDER: Record<string, number> = {
+  [RuleSeverity.LOW]: 1,
+  [RuleSeverity.MEDIUM]: 2,
+  [RuleSeverity.HIGH]: 3,
+  [RuleSeverity.CRITICAL]: 4,
+};
+
+/**
+ * Parse the free-form versions found in uploads ("v2.1", "2020.3", "11.0 SP2").
+ * Returns null when no version number can be recovered.
+ */
+export function parseLooseVersion(raw: string | undefined | null): ParsedVersion | null {
+  if (raw === undefined || raw === null) return null;
+
+  const trimmed = String(raw).trim().replace(/^(version\s*|v(?=\d))/i, '');
+  if (!trimmed) return null;
+
+  const valid = semver.valid(trimmed, { loose: true });
+  if (valid) {
+    return { raw: String(raw), version: valid, exact: true };
+  }
+
+  const coerced = semver.coerce(trimmed);
+  return coerced ? { raw: String(raw), version: coerced.version, exact: false } : null;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function pairKey(application: string, securityTool: string): string {
+  return `${normalizeName(application)}::${normalizeName(securityTool)}`;
+}
+
+// A wildcard range matches even when the row carries no version
+function rangeMatches(range: string, version: ParsedVersion | null): boolean {
+  if (range.trim() === '*' || range.trim() === '') return true;
+  if (!version) return false;
+  return semver.satisfies(version.version, range, { loose: true, includePrerelease: true });
+}
+
+function describeVersion(version: ParsedVersion | null, raw?: string): string {
+  if (!version) return raw ? `${raw} (unparsed)` : 'unknown version';
+  return version.exact ? version.version : `${version.raw} (read as ${version.version})`;
+}
+
+function mostSevere(entries: MatrixRange[]): MatrixRange {
+  return entries.reduce((worst, entry) =>
+    (SEVERITY_ORDER[entry.severity] ?? 0) > (SEVERITY_ORDER[worst.severity] ?? 0) ? entry : worst
+  );
+}
+
+/**
+ * Check compatibility rows against the matrix. Each row whose
+ * (application, security tool) pair appears in the matrix yields one result:
+ * failed when a known-bad range matches, passed when only known-good ranges
+ * match, and a warning when the pair is known but no range covers the versions.
+ */
+export function evaluateCompatibilityMatrix(
+  entries: CompatibilityDataEntry[],
+  matrix: MatrixRange[]
+): AnalysisResult[] {
+  const byPair = new Map<string, MatrixRange[]>();
+  for (const range of matrix) {
+    const key = pairKey(range.application, range.securityTool);
+    byPair.set(key, [...(byPair.get(key) ?? []), range]);
+  }
+
+  const results: AnalysisResult[] = [];
+
+  for (const entry of entries) {
+    const candidates = byPair.get(pairKey(entry.application, entry.security_tool));
+    if (!candidates) continue;
+
+    const appVersion = parseLooseVersion(entry.version);
+    const toolVersion = parseLooseVersion(entry.tool_version);
+
+    const matched = candidates.filter(range =>
+      rangeMatches(range.applicationRange, appVersion) && rangeMatches(range.toolRange, toolVersion)
+    );
+    const knownBad = matched.filter(range => range.status === MatrixStatus.KNOWN_BAD);
+    const knownGood = matched.filter(range => range.status === MatrixStatus.KNOWN_GOOD);
+
+    const subject = `${entry.security_tool} ${describeVersion(toolVersion, entry.tool_version)}`;
+    const target = `${entry.application} ${describeVersion(appVersion, entry.version)}`;
+    const versionsExact = (appVersion?.exact ?? true) && (toolVersion?.exact ?? true);
+
+    const details = {
+      application: entry.application,
+      version: entry.version ?? null,
+      normalizedVersion: appVersion?.version ?? null,
+      securityTool: entry.security_tool,
+      toolVersion: entry.tool_version ?? null,
+      normalizedToolVersion: toolVersion?.version ?? null,
+      reportedStatus: entry.compatibility_status,
+    };
+
+    const affectedComponents = [
+      `Application: ${entry.application}`,
+      ...(entry.version ? [`Version: ${entry.version}`] : []),
+      `Security Tool: ${entry.security_tool}`,
+      ...(entry.tool_version ? [`Tool Version: ${entry.tool_version}`] : []),
+    ];
+
+    if (knownBad.length > 0 || knownGood.length > 0) {
+      const isBad = knownBad.length > 0;
+      const decisive = isBad ? mostSevere(knownBad) : knownGood[0]!;
+
+      results.push({
+        ruleId: `matrix:${decisive.id}`,
+        status: isBad ? ResultStatus.FAILED : ResultStatus.PASSED,
+        severity: isBad ? decisive.severity as RuleSeverity : RuleSeverity.LOW,
+        message:
+          `${subject} is known to be ${isBad ? 'incompatible' : 'compatible'} with ${target} ` +
+          `(application range "${decisive.applicationRange}", tool range "${decisive.toolRange}")` +
+          (decisive.notes ? `: ${decisive.notes}` : ''),
+        details: {
+          ...details,
+          matchedRange: {
+            id: decisive.id,
+            status: decisive.status,
+            applicationRange: decisive.applicationRange,
+            toolRange: decisive.toolRange,
+          },
+          // A known-bad match always wins over known-good ranges for the same versions
+          otherMatches: matched
+            .filter(range => range.id !== decisive.id)
+            .map(range => ({
+              id: range.id,
+              status: range.status,
+              applicationRange: range.applicationRange,
+              toolRange: range.toolRange,
+            })),
+        },
+        recommendations: decisive.recommendations ||
+          (isBad ? `Use a version combination listed as known-good for ${entry.application} and ${entry.security_tool}.` : ''),
+        affectedComponents,
+        metadata: {
+          source: 'compatibility_matrix',
+          matrixEntryId: decisive.id,
+          versionsExact,
+        },
+        confidence: versionsExact ? 1 : 0.8,
+      });
+      continue;
+    }
+
+    results.push({
+      ruleId: 'matrix:uncovered',
+      status: ResultStatus.WARNING,
+      severity: RuleSeverity.LOW,
+      message: `No known-good or known-bad range in the compatibility matrix covers ${subject} with ${target}`,
+      details: {
+        ...details,
+        knownRanges: candidates.map(range => ({
+          id: range.id,
+          status: range.status,
+          applicationRange: range.applicationRange,
+          toolRange: range.toolRange,
+        })),
+      },
+      recommendations: `Test this combination and add the result to the compatibility matrix.`,
+      affectedComponents,
+      metadata: {
+        source: 'compatibility_matrix',
+        versionsExact,
+      },
+      confidence: 0.6,
+    });
+  }
+
+  return results;
+}
+
+// Accept both the CSV column names and the API field names
+function toMatrixInput(row: Record<string, any>): Record<string, any> {
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = row[key];
+      if (value !== undefined && value !== null && value !== '') return value;
+    }
+    return undefined;
+  };
+
+  const input: Record<string, any> = {
+    application: pick('application'),
+    applicationRange: pick('applicationRange', 'application_range'),
+    securityTool: pick('securityTool', 'security_tool'),
+    toolRange: pick('toolRange', 'tool_range'),
+    status: pick('status'),
+    severity: pick('severity'),
+    notes: pick('notes'),
+    recommendations: pick('recommendations'),
+  };
+
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Parse a CSV or JSON matrix document into validated entries.
+ * Invalid rows are reported by number and skipped.
+ */
+export function parseMatrixImport(
+  content: string,
+  format: 'csv' | 'json'
+): { entries: MatrixEntryInput[]; errors: string[] } {
+  let rows: Record<string, any>[];
+
+  if (format === 'json') {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { entries: [], errors: ['Invalid JSON'] };
+    }
+
+    rows = Array.isArray(parsed) ? parsed : parsed?.entries;
+    if (!Array.isArray(rows)) {
+      return { entries: [], errors: ['Expected an array of entries or an object with an "entries" array'] };
+    }
+  } else {
+    const result = Papa.parse<Record<string, any>>(content, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header: string) => header.trim().toLowerCase().replace(/\s+/g, '_'),
+    });
+
+    if (result.errors.length > 0) {
+      return {
+        entries: [],
+        errors: result.errors.map(error => `Row ${(error.row ?? 0) + 1}: ${error.message}`),
+      };
+    }
+    rows = result.data;
+  }
+
+  const entries: MatrixEntryInput[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const parsed = MatrixEntryInputSchema.safeParse(toMatrixInput(row ?? {}));
+    if (parsed.success) {
+      entries.push(parsed.data);
+    } else {
+      errors.push(`Row ${index + 1}: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+    }
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Serialize matrix entries in the same shape `parseMatrixImport` reads
+ */
+export function serializeMatrix(entries: MatrixRange[], format: 'csv' | 'json'): string {
+  const rows = entries.map(entry => ({
+    application: entry.application,
+    applicationRange: entry.applicationRange,
+    securityTool: entry.securityTool,
+    toolRange: entry.toolRange,
+    status: entry.status,
+    severity: entry.severity,
+    notes: entry.notes ?? '',
+    recommendations: entry.recommendations ?? '',
+  }));
+
+  if (format === 'json') {
+    return JSON.stringify({ entries: rows }, null, 2);
+  }
+
+  return Papa.unparse({
+    fields: [...MATRIX_CSV_COLUMNS],
+    data: rows.map(row => [
+      row.application,
+      row.applicationRange,
+      row.securityTool,
+      row.toolRange,
+      row.status,
+      row.severity,
+      row.notes,
+      row.recommendations,
+    ]),
+  });
+}
@@ -0,0 +1,256 @@
+import { db } from '@/lib/db/drizzle';
+import { compatibilityMatrixEntries, CompatibilityMatrixEntry } from '@/lib/db/schema';
+import { eq, and, or, asc, ilike, isNull, count } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import type { RuleActor } from './rule-service';
+import { MatrixEntryInput, MatrixEntryUpdate } from './compatibility-matrix';
+
+export type MatrixActor = RuleActor;
+
+export interface MatrixListFilters {
+  application?: string;
+  securityTool?: string;
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MatrixImportSummary {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+// Compatibility matrix service error types
+export class MatrixServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'MatrixServiceError';
+  }
+}
+
+// Entries visible to an organization: its own entries plus global ones
+function visibilityClause(organizationId: string | null) {
+  return organizationId
+    ? or(eq(compatibilityMatrixEntries.organizationId, organizationId), isNull(compatibilityMatrixEntries.organizationId))
+    : isNull(compatibilityMatrixEntries.organizationId);
+}
+
+function ownerClause(organizationId: string | null) {
+  return organizationId
+    ? eq(compatibilityMatrixEntries.organizationId, organizationId)
+    : isNull(compatibilityMatrixEntries.organizationId);
+}
+
+// Entries with the same pair and ranges are the same matrix cell
+function cellKey(entry: Pick<CompatibilityMatrixEntry, 'application' | 'applicationRange' | 'securityTool' | 'toolRange'>): string {
+  return [
+    entry.application.trim().toLowerCase(),
+    entry.applicationRange.trim(),
+    entry.securityTool.trim().toLowerCase(),
+    entry.toolRange.trim(),
+  ].join('::');
+}
+
+export class CompatibilityMatrixService {
+
+  // List matrix entries visible to the caller's organization
+  async listEntries(
+    organizationId: string | null,
+    filters: MatrixListFilters = {}
+  ): Promise<{ entries: CompatibilityMatrixEntry[]; total: number }> {
+    const conditions = [visibilityClause(organizationId)];
+
+    if (filters.application) {
+      conditions.push(ilike(compatibilityMatrixEntries.application, `%${filters.application}%`));
+    }
+
+    if (filters.securityTool) {
+      conditions.push(ilike(compatibilityMatrixEntries.securityTool, `%${filters.securityTool}%`));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(compatibilityMatrixEntries.status, filters.status));
+    }
+
+    const whereClause = and(...conditions);
+
+    const entries = await db
+      .select()
+      .from(compatibilityMatrixEntries)
+      .where(whereClause)
+      .orderBy(asc(compatibilityMatrixEntries.application), asc(compatibilityMatrixEntries.securityTool))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    const [totalRow] = await db
+      .select({ count: count() })
+      .from(compatibilityMatrixEntries)
+      .where(whereClause);
+
+    return { entries, total: totalRow?.count ?? 0 };
+  }
+
+  // Load the full matrix the scanner evaluates for an organization
+  async getMatrix(organizationId: string | null): Promise<CompatibilityMatrixEntry[]> {
+    return db
+      .select()
+      .from(compatibilityMatrixEntries)
+      .where(visibilityClause(organizationId))
+      .orderBy(asc(compatibilityMatrixEntries.application), asc(compatibilityMatrixEntries.securityTool));
+  }
+
+  async getEntry(id: string, organizationId: string | null): Promise<CompatibilityMatrixEntry> {
+    const [entry] = await db
+      .select()
+      .from(compatibilityMatrixEntries)
+      .where(and(eq(compatibilityMatrixEntries.id, id), visibilityClause(organizationId)))
+      .limit(1);
+
+    if (!entry) {
+      throw new MatrixServiceError('Matrix entry not found', 'MATRIX_ENTRY_NOT_FOUND', 404);
+    }
+
+    return entry;
+  }
+
+  async createEntry(input: MatrixEntryInput, actor: MatrixActor): Promise<CompatibilityMatrixEntry> {
+    const [entry] = await db
+      .insert(compatibilityMatrixEntries)
+      .values({
+        id: generateId(16),
+        organizationId: actor.organizationId,
+        ...this.toValues(input),
+        createdBy: actor.userId,
+        updatedBy: actor.userId,
+      })
+      .returning();
+
+    if (!entry) {
+      throw new MatrixServiceError('Failed to create matrix entry', 'MATRIX_CREATE_FAILED', 500);
+    }
+
+    return entry;
+  }
+
+  async updateEntry(id: string, updates: MatrixEntryUpdate, actor: MatrixActor): Promise<CompatibilityMatrixEntry> {
+    const existing = await this.getEntry(id, actor.organizationId);
+    this.assertCanModify(existing, actor);
+
+    const [entry] = await db
+      .update(compatibilityMatrixEntries)
+      .set({
+        ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+        updatedBy: actor.userId,
+        updatedAt: new Date(),
+      })
+      .where(eq(compatibilityMatrixEntries.id, id))
+      .returning();
+
+    if (!entry) {
+      throw new MatrixServiceError('Matrix entry not found', 'MATRIX_ENTRY_NOT_FOUND', 404);
+    }
+
+    return entry;
+  }
+
+  async deleteEntry(id: string, actor: MatrixActor): Promise<CompatibilityMatrixEntry> {
+    const existing = await this.getEntry(id, actor.organizationId);
+    this.assertCanModify(existing, actor);
+
+    await db.delete(compatibilityMatrixEntries).where(eq(compatibilityMatrixEntries.id, id));
+    return existing;
+  }
+
+  /**
+   * Import entries into the caller's organization (or the global matrix for
+   * system admins without an organization). In `merge` mode entries with the
+   * same pair and ranges are updated in place; `replace` clears the caller's
+   * entries first.
+   */
+  async importEntries(
+    inputs: MatrixEntryInput[],
+    actor: MatrixActor,
+    mode: 'merge' | 'replace' = 'merge'
+  ): Promise<MatrixImportSummary> {
+    if (actor.organizationId === null && !actor.isSystemAdmin) {
+      throw new MatrixServiceError('Only system administrators can import into the global matrix', 'MATRIX_READ_ONLY', 403);
+    }
+
+    return db.transaction(async (tx) => {
+      const summary: MatrixImportSummary = { created: 0, updated: 0, deleted: 0 };
+
+      if (mode === 'replace') {
+        const deleted = await tx
+          .delete(compatibilityMatrixEntries)
+          .where(ownerClause(actor.organizationId))
+          .returning({ id: compatibilityMatrixEntries.id });
+        summary.deleted = deleted.length;
+      }
+
+      const existing = mode === 'replace'
+        ? []
+        : await tx.select().from(compatibilityMatrixEntries).where(ownerClause(actor.organizationId));
+      const existingByCell = new Map(existing.map(entry => [cellKey(entry), entry]));
+
+      for (const input of inputs) {
+        const values = this.toValues(input);
+        const match = existingByCell.get(cellKey(values));
+
+        if (match) {
+          await tx
+            .update(compatibilityMatrixEntries)
+            .set({ ...values, updatedBy: actor.userId, updatedAt: new Date() })
+            .where(eq(compatibilityMatrixEntries.id, match.id));
+          summary.updated++;
+          continue;
+        }
+
+        const [created] = await tx
+          .insert(compatibilityMatrixEntries)
+          .values({
+            id: generateId(16),
+            organizationId: actor.organizationId,
+            ...values,
+            createdBy: actor.userId,
+            updatedBy: actor.userId,
+          })
+          .returning();
+
+        if (created) {
+          // Later rows in the same document update the entry just created
+          existingByCell.set(cellKey(created), created);
+          summary.created++;
+        }
+      }
+
+      return summary;
+    });
+  }
+
+  private toValues(input: MatrixEntryInput) {
+    return {
+      application: input.application,
+      applicationRange: input.applicationRange,
+      securityTool: input.securityTool,
+      toolRange: input.toolRange,
+      status: input.status,
+      severity: input.severity,
+      notes: input.notes ?? null,
+      recommendations: input.recommendations ?? null,
+    };
+  }
+
+  private assertCanModify(entry: CompatibilityMatrixEntry, actor: MatrixActor): void {
+    // Global entries are shared by every organization and only system admins may change them
+    if (entry.organizationId === null && !actor.isSystemAdmin) {
+      throw new MatrixServiceError('Global matrix entries can only be modified by system administrators', 'MATRIX_READ_ONLY', 403);
+    }
+  }
+}
+
+export const compatibilityMatrixService = new CompatibilityMatrixService();
@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import { scans } from '@/lib/db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { scanAccessClause } from '@/lib/scans/scan-access';
+import { ScanStatus } from '@/lib/scans/scan-queue';
+import { normalizeDataType } from '@/lib/upload/file-handler';
+import { normalizeFileReferences, readScanInputs, resolveScanUploads } from '@/lib/upload/scan-inputs';
+import { patternLibraryService } from '@/lib/patterns/pattern-service';
+import { CompatibilityAnalysisEngine, CompatibilityRule } from './analysis-engine';
+import { scoringProfileService } from './scoring-profile-service';
+import { ruleService, toEngineRule, RuleActor, RuleInputSchema, RuleUpdateSchema } from './rule-service';
+import { backtestRule, BacktestBatch, RuleBacktest } from './rule-backtest';
+
+export const MAX_SAMPLE_ENTRIES = 500;
+export const MAX_BACKTEST_SCANS = 10;
+// Entries read from stored scans; reading stops once the cap is reached
+export const MAX_BACKTEST_ENTRIES = 5000;
+
+// Id of a rule that has not been saved yet
+export const NEW_RULE_ID = 'new';
+
+export const RuleTestSchema = z
+  .object({
+    // Unsaved changes to try; fields left out keep the stored rule's values
+    draft: RuleUpdateSchema.omit({ version: true }).default({}),
+    entries: z.array(z.record(z.any())).min(1).max(MAX_SAMPLE_ENTRIES).optional(),
+    // How pasted entries are interpreted; stored scans keep the type of each upload
+    dataType: z.string().optional(),
+    scans: z.number().int().min(1).max(MAX_BACKTEST_SCANS).optional(),
+  })
+  .refine(input => (input.entries === undefined) !== (input.scans === undefined), {
+    message: 'Provide either sample entries or a number of recent scans',
+    path: ['entries'],
+  });
+
+export type RuleTest = z.infer<typeof RuleTestSchema>;
+
+export interface RuleTestSource {
+  type: 'samples' | 'scans';
+  scans: { id: string; name: string; completedAt: Date | null }[];
+  // Reading stopped at MAX_BACKTEST_ENTRIES
+  entriesCapped: boolean;
+}
+
+export interface RuleTestResult extends RuleBacktest {
+  rule: CompatibilityRule;
+  source: RuleTestSource;
+}
+
+export class RuleBacktestService {
+
+  /**
+   * Dry-run a draft of a rule, or of a new rule when `ruleId` is NEW_RULE_ID,
+   * against pasted entries or the inputs of recent completed scans. Nothing is
+   * stored: usage counters, pattern hits and the history cache are untouched.
+   */
+  async testRule(ruleId: string, input: RuleTest, actor: RuleActor): Promise<RuleTestResult> {
+    const draft = await this.buildDraft(ruleId, input.draft, actor.organizationId);
+
+    const [activeRules, activeProfile, patterns] = await Promise.all([
+      ruleService.getActiveRules(actor.organizationId),
+      scoringProfileService.getActiveProfile(actor.organizationId),
+      patternLibraryService.getActivePatterns(actor.organizationId),
+    ]);
+    const engine = new CompatibilityAnalysisEngine(activeProfile.profile, patterns);
+
+    const { batches, source } = input.entries
+      ? this.sampleInputs(input.entries, input.dataType)
+      : await this.recentScanInputs(input.scans ?? 1, actor);
+
+    const backtest = await backtestRule(engine, draft, activeRules, batches, {
+      sessionId: `rule_test_${generateId(8)}`,
+      userId: parseInt(actor.userId, 10),
+      ...(actor.organizationId ? { organizationId: parseInt(actor.organizationId, 10) } : {}),
+    });
+
+    return { ...backtest, rule: draft, source };
+  }
+
+  // The stored rule with the draft's changes applied, or the draft itself for a new rule
+  private async buildDraft(
+    ruleId: string,
+    draft: RuleTest['draft'],
+    organizationId: string | null
+  ): Promise<CompatibilityRule> {
+    if (ruleId === NEW_RULE_ID) {
+      const rule = RuleInputSchema.parse(draft);
+      return {
+        id: NEW_RULE_ID,
+        name: rule.name,
+        category: rule.category,
+        severity: rule.severity,
+        conditions: rule.conditions,
+        isActive: rule.isActive,
+        ...(rule.description ? { description: rule.description } : {}),
+        ...(rule.recommendations ? { recommendations: rule.recommendations } : {}),
+      };
+    }
+
+    const stored = toEngineRule(await ruleService.getRule(ruleId, organizationId));
+    const changes = Object.fromEntries(
+      Object.entries(draft).filter(([, value]) => value !== undefined)
+    ) as Partial<CompatibilityRule>;
+
+    return { ...stored, ...changes };
+  }
+
+  private sampleInputs(entries: Record<string, any>[], dataType?: string) {
+    return {
+      batches: [{ dataType: normalizeDataType(dataType), entries }] as BacktestBatch[],
+      source: { type: 'samples', scans: [], entriesCapped: false } as RuleTestSource,
+    };
+  }
+
+  // Re-read the uploads of the caller's most recent completed scans
+  private async recentScanInputs(limit: number, actor: RuleActor) {
+    const recent = await db
+      .select({
+        id: scans.id,
+        name: scans.name,
+        userId: scans.userId,
+        organizationId: scans.organizationId,
+        files: scans.files,
+        completedAt: scans.completedAt,
+      })
+      .from(scans)
+      .where(and(
+        scanAccessClause({ userId: actor.userId, organizationId: actor.organizationId }),
+        eq(scans.status, ScanStatus.COMPLETED)
+      ))
+      .orderBy(desc(scans.completedAt))
+      .limit(limit);
+
+    const batches: BacktestBatch[] = [];
+    const source: RuleTestSource = { type: 'scans', scans: [], entriesCapped: false };
+    let remaining = MAX_BACKTEST_ENTRIES;
+
+    for (const scan of recent) {
+      if (remaining <= 0) {
+        source.entriesCapped = true;
+        break;
+      }
+      source.scans.push({ id: scan.id, name: scan.name, completedAt: scan.completedAt });
+
+      // Uploads are resolved as the scan's owner saw them
+      const { uploads } = await resolveScanUploads(normalizeFileReferences(scan.files), {
+        userId: parseInt(scan.userId, 10),
+        ...(scan.organizationId ? { organizationId: parseInt(scan.organizationId, 10) } : {}),
+      });
+
+      for await (const batch of readScanInputs(uploads)) {
+        if (batch.entries.length === 0) continue;
+        if (remaining <= 0) {
+          source.entriesCapped = true;
+          break;
+        }
+
+        const entries = batch.entries.slice(0, remaining);
+        if (entries.length < batch.entries.length) source.entriesCapped = true;
+        remaining -= entries.length;
+        batches.push({ dataType: batch.file.dataType, entries });
+      }
+    }
+
+    return { batches, source };
+  }
+}
+
+export const ruleBacktestService = new RuleBacktestService();
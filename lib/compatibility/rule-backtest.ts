@@ -0,0 +1,115 @@
+import {
+  AnalysisResult,
+  CompatibilityAnalysisEngine,
+  CompatibilityRule,
+  ResultStatus,
+  calculateOverallRiskScore,
+} from './analysis-engine';
+import { diffScans, ScanDiff, ScanFinding } from '@/lib/scans/scan-diff';
+import type { ScanDataType, ScanEntry } from '@/lib/upload/scan-inputs';
+
+// Cap the results and findings a dry run returns; counts always cover every entry
+export const MAX_RETURNED_RESULTS = 200;
+
+export interface BacktestBatch {
+  dataType: ScanDataType;
+  entries: ScanEntry[];
+}
+
+export interface RuleTestCounts {
+  entriesTested: number;
+  // Results the draft rule produced
+  matched: number;
+  byStatus: Record<ResultStatus, number>;
+}
+
+// Effect of the draft on the active rule set's findings
+export interface RuleTestDiff {
+  summary: ScanDiff['summary'];
+  riskScore: ScanDiff['riskScore'];
+  new: ScanFinding[];
+  fixed: ScanFinding[];
+}
+
+export interface RuleBacktest {
+  results: AnalysisResult[];
+  counts: RuleTestCounts;
+  diff: RuleTestDiff;
+  truncated: boolean;
+}
+
+export interface BacktestContext {
+  sessionId: string;
+  userId: number;
+  organizationId?: number;
+}
+
+export function countByStatus(results: AnalysisResult[]): Record<ResultStatus, number> {
+  const counts: Record<ResultStatus, number> = {
+    [ResultStatus.PASSED]: 0,
+    [ResultStatus.WARNING]: 0,
+    [ResultStatus.FAILED]: 0,
+    [ResultStatus.ERROR]: 0,
+  };
+  for (const result of results) {
+    counts[result.status] = (counts[result.status] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Run a draft rule over sample entries without recording anything. The active
+ * rule set is run as it stands and again with the draft in place of the stored
+ * rule of the same id (or added, for a new rule); the diff between the two runs
+ * is what enabling the draft would change.
+ */
+export async function backtestRule(
+  engine: CompatibilityAnalysisEngine,
+  draft: CompatibilityRule,
+  activeRules: CompatibilityRule[],
+  batches: BacktestBatch[],
+  context: BacktestContext
+): Promise<RuleBacktest> {
+  const activeResults: AnalysisResult[] = [];
+  const draftResults: AnalysisResult[] = [];
+  let entriesTested = 0;
+
+  for (const batch of batches) {
+    if (batch.entries.length === 0) continue;
+    entriesTested += batch.entries.length;
+
+    // An empty history keeps dry runs out of the shared history cache
+    const batchContext = { ...context, dataType: batch.dataType, historicalData: [] };
+    activeResults.push(...await engine.analyzeData(batch.entries, { ...batchContext, rules: activeRules }));
+    draftResults.push(...await engine.analyzeData(batch.entries, { ...batchContext, rules: [draft] }));
+  }
+
+  const draftId = String(draft.id);
+  const withDraft = [
+    ...activeResults.filter(result => String(result.ruleId) !== draftId),
+    ...draftResults,
+  ];
+  const profile = engine.getScoringProfile();
+  const diff = diffScans(activeResults, withDraft, {
+    base: calculateOverallRiskScore(activeResults, profile),
+    head: calculateOverallRiskScore(withDraft, profile),
+  });
+
+  return {
+    results: draftResults.slice(0, MAX_RETURNED_RESULTS),
+    counts: {
+      entriesTested,
+      matched: draftResults.length,
+      byStatus: countByStatus(draftResults),
+    },
+    diff: {
+      summary: diff.summary,
+      riskScore: diff.riskScore,
+      new: diff.new.slice(0, MAX_RETURNED_RESULTS),
+      fixed: diff.fixed.slice(0, MAX_RETURNED_RESULTS),
+    },
+    truncated: draftResults.length > MAX_RETURNED_RESULTS
+      || diff.new.length > MAX_RETURNED_RESULTS
+      || diff.fixed.length > MAX_RETURNED_RESULTS,
+  };
+}
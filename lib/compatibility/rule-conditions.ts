@@ -0,0 +1,437 @@
+import semver from 'semver';
+import { checkRegexSafety, safeRegexTest } from '@/lib/patterns/safe-regex';
+
+/**
+ * Rule condition language.
+ *
+ * A condition group maps field paths (dot notation) to field conditions and may
+ * contain the logical operators `$and`, `$or` and `$not`. The keys of the
+ * top-level group are OR-ed together, as rules have always been evaluated;
+ * groups nested inside `$and`, `$or`, `$not` or `$elemMatch` require every key
+ * to match.
+ *
+ *   {
+ *     $and: [
+ *       { tool: { $eq: 'Snyk' } },
+ *       { version: { $semver: '<3' } },
+ *     ],
+ *   }
+ *
+ * A field condition is either a literal (strings match case-insensitively as
+ * substrings, `/pattern/` strings as regular expressions) or an operator object
+ * whose operators must all hold. Regular expressions must stay inside the safe
+ * subset of `safe-regex.ts`; unsafe ones never match. The server evaluates
+ * them with the time-limited `timedRegexTest` of `regex-runner.ts`.
+ */
+
+export const LOGICAL_OPERATORS = ['$and', '$or', '$not'] as const;
+
+export const FIELD_OPERATORS = [
+  '$eq',
+  '$ne',
+  '$in',
+  '$nin',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$exists',
+  '$regex',
+  '$options',
+  '$contains',
+  '$semver',
+  '$elemMatch',
+  '$not',
+] as const;
+
+// Guards evaluation and validation against pathological rule documents
+export const MAX_CONDITION_DEPTH = 10;
+
+// Runs a regular expression condition; defaults to `safeRegexTest`
+export type RegexTest = (source: string, flags: string, text: string) => boolean;
+
+export interface ConditionMatch {
+  matches: boolean;
+  matchedConditions: string[];
+}
+
+type Combinator = 'all' | 'any';
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOperatorObject(value: unknown): value is Record<string, any> {
+  return isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+}
+
+export function getValueByPath(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => {
+    return current && current[key] !== undefined ? current[key] : undefined;
+  }, obj);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function compareNumbers(value: unknown, operand: unknown, compare: (a: number, b: number) => boolean): boolean {
+  const a = toNumber(value);
+  const b = toNumber(operand);
+  return a !== null && b !== null && compare(a, b);
+}
+
+function looseEquals(value: unknown, expected: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(item => looseEquals(item, expected));
+  }
+  return value === expected;
+}
+
+function satisfiesRange(value: unknown, range: string): boolean {
+  if (value === null || value === undefined) return false;
+  const version = semver.coerce(String(value));
+  return version !== null && semver.satisfies(version, range);
+}
+
+function contains(value: unknown, needle: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(item =>
+      typeof item === 'string' && typeof needle === 'string'
+        ? item.toLowerCase() === needle.toLowerCase()
+        : item === needle
+    );
+  }
+  if (value === null || value === undefined) return false;
+  return String(value).toLowerCase().includes(String(needle).toLowerCase());
+}
+
+// Evaluate an operator object (all operators must hold) against a value
+function evaluateOperators(value: unknown, operators: Record<string, any>, depth: number, regexTest: RegexTest): boolean {
+  for (const [operator, operand] of Object.entries(operators)) {
+    switch (operator) {
+      case '$eq':
+        if (!looseEquals(value, operand)) return false;
+        break;
+      case '$ne':
+        if (looseEquals(value, operand)) return false;
+        break;
+      case '$in':
+        if (!Array.isArray(operand) || !operand.some(candidate => looseEquals(value, candidate))) return false;
+        break;
+      case '$nin':
+        if (!Array.isArray(operand) || operand.some(candidate => looseEquals(value, candidate))) return false;
+        break;
+      case '$gt':
+        if (!compareNumbers(value, operand, (a, b) => a > b)) return false;
+        break;
+      case '$gte':
+        if (!compareNumbers(value, operand, (a, b) => a >= b)) return false;
+        break;
+      case '$lt':
+        if (!compareNumbers(value, operand, (a, b) => a < b)) return false;
+        break;
+      case '$lte':
+        if (!compareNumbers(value, operand, (a, b) => a <= b)) return false;
+        break;
+      case '$exists':
+        if ((value !== null && value !== undefined) !== Boolean(operand)) return false;
+        break;
+      case '$regex':
+        if (value === null || value === undefined || !regexTest(operand, operators.$options || 'i', String(value))) return false;
+        break;
+      case '$options':
+        // Consumed by $regex
+        break;
+      case '$contains':
+        if (!contains(value, operand)) return false;
+        break;
+      case '$semver':
+        if (!satisfiesRange(value, operand)) return false;
+        break;
+      case '$elemMatch':
+        if (!Array.isArray(value) || !value.some(item => matchesElement(item, operand, depth + 1, regexTest))) return false;
+        break;
+      case '$not':
+        if (evaluateFieldCondition(value, operand, depth + 1, regexTest)) return false;
+        break;
+      default:
+        // Unknown operators never match; validation rejects them on save
+        return false;
+    }
+  }
+
+  return true;
+}
+
+// $elemMatch accepts either operators applied to the element or a nested group
+function matchesElement(element: unknown, condition: any, depth: number, regexTest: RegexTest): boolean {
+  if (isOperatorObject(condition) && !('$and' in condition) && !('$or' in condition)) {
+    return evaluateOperators(element, condition, depth, regexTest);
+  }
+  return evaluateGroup(element, condition, 'all', depth, [], regexTest);
+}
+
+function evaluateFieldCondition(value: unknown, condition: any, depth: number, regexTest: RegexTest): boolean {
+  if (depth > MAX_CONDITION_DEPTH) return false;
+
+  if (condition === null || condition === undefined) {
+    return value === null || value === undefined;
+  }
+
+  if (typeof condition === 'string') {
+    if (value === null || value === undefined) return false;
+    if (condition.length > 1 && condition.startsWith('/') && condition.endsWith('/')) {
+      // Regex condition
+      return regexTest(condition.slice(1, -1), 'i', String(value));
+    }
+    return String(value).toLowerCase().includes(condition.toLowerCase());
+  }
+
+  if (isOperatorObject(condition)) {
+    return evaluateOperators(value, condition, depth, regexTest);
+  }
+
+  return looseEquals(value, condition);
+}
+
+function evaluateGroup(
+  entry: any,
+  group: any,
+  combinator: Combinator,
+  depth: number,
+  matched: string[],
+  regexTest: RegexTest,
+  prefix = ''
+): boolean {
+  if (depth > MAX_CONDITION_DEPTH || !isPlainObject(group)) return false;
+
+  const keys = Object.keys(group);
+  if (keys.length === 0) return false;
+
+  let anyMatched = false;
+  let allMatched = true;
+
+  for (const key of keys) {
+    const condition = group[key];
+    const branchMatched: string[] = [];
+    let result: boolean;
+
+    switch (key) {
+      case '$and':
+        result = Array.isArray(condition) && condition.length > 0 && condition.every((child, index) =>
+          evaluateGroup(entry, child, 'all', depth + 1, branchMatched, regexTest, `${prefix}$and[${index}].`)
+        );
+        break;
+      case '$or':
+        result = Array.isArray(condition) && condition
+          .map((child, index) => evaluateGroup(entry, child, 'all', depth + 1, branchMatched, regexTest, `${prefix}$or[${index}].`))
+          .some(Boolean);
+        break;
+      case '$not':
+        result = !evaluateGroup(entry, condition, 'all', depth + 1, [], regexTest, `${prefix}$not.`);
+        if (result) branchMatched.push(`${prefix}$not`);
+        break;
+      default:
+        result = evaluateFieldCondition(getValueByPath(entry, key), condition, depth + 1, regexTest);
+        if (result) branchMatched.push(`${prefix}${key}`);
+    }
+
+    if (result) {
+      anyMatched = true;
+      matched.push(...branchMatched);
+    } else {
+      allMatched = false;
+      if (combinator === 'all') return false;
+    }
+  }
+
+  return combinator === 'all' ? allMatched : anyMatched;
+}
+
+/**
+ * Evaluate a rule's conditions against an entry.
+ * `matchedConditions` lists the paths of the conditions that held.
+ */
+export function evaluateRuleConditions(entry: any, conditions: any, regexTest: RegexTest = safeRegexTest): ConditionMatch {
+  const matchedConditions: string[] = [];
+
+  if (!isPlainObject(conditions)) {
+    return { matches: false, matchedConditions };
+  }
+
+  const matches = evaluateGroup(entry, conditions, 'any', 0, matchedConditions, regexTest);
+  return { matches, matchedConditions: matches ? matchedConditions : [] };
+}
+
+function validateRegex(pattern: unknown, flags: unknown, path: string, errors: string[]): void {
+  if (typeof pattern !== 'string') {
+    errors.push(`${path}: $regex must be a string`);
+    return;
+  }
+  if (flags !== undefined && (typeof flags !== 'string' || !/^[imsu]*$/.test(flags))) {
+    errors.push(`${path}: $options may only contain the flags i, m, s and u`);
+    return;
+  }
+  const unsafe = checkRegexSafety(pattern, flags as string | undefined);
+  if (unsafe) {
+    errors.push(`${path}: ${unsafe}`);
+  }
+}
+
+function validateOperators(operators: Record<string, any>, path: string, depth: number, errors: string[]): void {
+  for (const [operator, operand] of Object.entries(operators)) {
+    const at = `${path}.${operator}`;
+
+    switch (operator) {
+      case '$eq':
+      case '$ne':
+        if (isPlainObject(operand)) errors.push(`${at}: expected a scalar value`);
+        break;
+      case '$in':
+      case '$nin':
+        if (!Array.isArray(operand)) errors.push(`${at}: expected an array`);
+        break;
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        if (toNumber(operand) === null) errors.push(`${at}: expected a number (use $semver to compare versions)`);
+        break;
+      case '$exists':
+        if (typeof operand !== 'boolean') errors.push(`${at}: expected true or false`);
+        break;
+      case '$regex':
+        validateRegex(operand, operators.$options, path, errors);
+        break;
+      case '$options':
+        if (operators.$regex === undefined) errors.push(`${at}: only valid together with $regex`);
+        break;
+      case '$contains':
+        if (!['string', 'number', 'boolean'].includes(typeof operand)) errors.push(`${at}: expected a string, number or boolean`);
+        break;
+      case '$semver':
+        if (typeof operand !== 'string' || semver.validRange(operand) === null) {
+          errors.push(`${at}: invalid semver range`);
+        }
+        break;
+      case '$elemMatch':
+        if (!isPlainObject(operand) || Object.keys(operand).length === 0) {
+          errors.push(`${at}: expected a non-empty object`);
+        } else if (isOperatorObject(operand) && !('$and' in operand) && !('$or' in operand)) {
+          validateOperators(operand, at, depth + 1, errors);
+        } else {
+          validateGroup(operand, at, depth + 1, errors);
+        }
+        break;
+      case '$not':
+        validateFieldCondition(operand, at, depth + 1, errors);
+        break;
+      default:
+        errors.push(`${at}: unknown operator`);
+    }
+  }
+}
+
+function validateFieldCondition(condition: any, path: string, depth: number, errors: string[]): void {
+  if (depth > MAX_CONDITION_DEPTH) {
+    errors.push(`${path}: conditions are nested too deeply (max ${MAX_CONDITION_DEPTH})`);
+    return;
+  }
+
+  if (condition === null || ['string', 'number', 'boolean'].includes(typeof condition)) {
+    if (typeof condition === 'string' && condition.length > 1 && condition.startsWith('/') && condition.endsWith('/')) {
+      validateRegex(condition.slice(1, -1), undefined, path, errors);
+    }
+    return;
+  }
+
+  if (Array.isArray(condition)) {
+    errors.push(`${path}: arrays are not allowed here, use $in`);
+    return;
+  }
+
+  if (!isOperatorObject(condition)) {
+    errors.push(`${path}: expected a value or an operator object (use dot notation for nested fields)`);
+    return;
+  }
+
+  validateOperators(condition, path, depth, errors);
+}
+
+function validateGroup(group: any, path: string, depth: number, errors: string[]): void {
+  if (depth > MAX_CONDITION_DEPTH) {
+    errors.push(`${path}: conditions are nested too deeply (max ${MAX_CONDITION_DEPTH})`);
+    return;
+  }
+
+  if (!isPlainObject(group) || Object.keys(group).length === 0) {
+    errors.push(`${path || 'conditions'}: expected a non-empty condition object`);
+    return;
+  }
+
+  for (const [key, condition] of Object.entries(group)) {
+    const at = path ? `${path}.${key}` : key;
+
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition) || condition.length === 0) {
+        errors.push(`${at}: expected a non-empty array of conditions`);
+        continue;
+      }
+      condition.forEach((child, index) => validateGroup(child, `${at}[${index}]`, depth + 1, errors));
+    } else if (key === '$not') {
+      validateGroup(condition, at, depth + 1, errors);
+    } else if (key.startsWith('$')) {
+      errors.push(`${at}: unknown logical operator`);
+    } else {
+      validateFieldCondition(condition, at, depth + 1, errors);
+    }
+  }
+}
+
+/**
+ * Validate a rule's conditions before it is saved.
+ * Returns a list of human-readable errors; empty when the conditions are valid.
+ */
+export function validateRuleConditions(conditions: unknown): string[] {
+  const errors: string[] = [];
+  validateGroup(conditions, '', 0, errors);
+  return errors;
+}
+
+export interface ConditionRegex {
+  path: string;
+  pattern: string;
+  flags: string;
+}
+
+/**
+ * Every regular expression in a rule's conditions with the flags it runs
+ * with, so the server can probe them before the rule is saved.
+ */
+export function collectConditionRegexes(conditions: unknown, path = ''): ConditionRegex[] {
+  if (typeof conditions === 'string') {
+    return conditions.length > 1 && conditions.startsWith('/') && conditions.endsWith('/')
+      ? [{ path: path || 'conditions', pattern: conditions.slice(1, -1), flags: 'i' }]
+      : [];
+  }
+
+  if (Array.isArray(conditions)) {
+    return conditions.flatMap((child, index) => collectConditionRegexes(child, `${path}[${index}]`));
+  }
+
+  if (!isPlainObject(conditions)) return [];
+
+  return Object.entries(conditions).flatMap(([key, child]) => {
+    const at = path ? `${path}.${key}` : key;
+    if (key === '$regex' && typeof child === 'string') {
+      return [{ path, pattern: child, flags: typeof conditions.$options === 'string' ? conditions.$options : 'i' }];
+    }
+    return key === '$options' ? [] : collectConditionRegexes(child, at);
+  });
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import {
+  CompatibilityAnalysisEngine,
+  CompatibilityRule,
+  ResultStatus,
+} from './analysis-engine';
+import type { ScanEntry } from '@/lib/upload/scan-inputs';
+
+export const MAX_RULE_EXAMPLES = 50;
+
+// An example entry and the status the rule must produce for it; null means the rule must not match
+export const RuleExampleSchema = z.object({
+  description: z.string().max(255).optional(),
+  entry: z.record(z.any()),
+  expectedStatus: z.nativeEnum(ResultStatus).nullable(),
+});
+
+export type RuleExample = z.infer<typeof RuleExampleSchema>;
+
+// An example whose status differed from the expected one
+export interface RuleExampleFailure {
+  index: number;
+  description?: string;
+  expectedStatus: ResultStatus | null;
+  actualStatus: ResultStatus | null;
+  message: string;
+}
+
+export interface RuleExampleReport {
+  passed: boolean;
+  total: number;
+  failures: RuleExampleFailure[];
+}
+
+// Examples stored with a rule; malformed ones are dropped rather than failing the rule
+export function parseRuleExamples(stored: unknown): RuleExample[] {
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap(example => {
+    const parsed = RuleExampleSchema.safeParse(example);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * Run a rule's examples through the engine exactly as a scan would evaluate
+ * them, without history, and report the examples whose status differs from
+ * the expected one.
+ */
+export async function runRuleExamples(
+  engine: CompatibilityAnalysisEngine,
+  rule: CompatibilityRule,
+  examples: RuleExample[]
+): Promise<RuleExampleReport> {
+  const failures: RuleExampleFailure[] = [];
+
+  for (const [index, example] of examples.entries()) {
+    const result = await engine.analyzeEntry(example.entry as ScanEntry, rule, []);
+    const actualStatus = result?.status ?? null;
+
+    if (actualStatus !== example.expectedStatus) {
+      const label = example.description ? `Example ${index + 1} (${example.description})` : `Example ${index + 1}`;
+      failures.push({
+        index,
+        ...(example.description ? { description: example.description } : {}),
+        expectedStatus: example.expectedStatus,
+        actualStatus,
+        message: `${label}: expected ${example.expectedStatus ?? 'no match'}, got ${actualStatus ?? 'no match'}`,
+      });
+    }
+  }
+
+  return { passed: failures.length === 0, total: examples.length, failures };
+}
@@ -0,0 +1,416 @@
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import {
+  compatibilityRules,
+  compatibilityRuleVersions,
+  CompatibilityRuleRecord,
+  CompatibilityRuleVersion,
+} from '@/lib/db/schema';
+import { eq, and, or, desc, ilike, isNull, inArray, count, sql } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { CompatibilityAnalysisEngine, CompatibilityRule, RuleSeverity } from './analysis-engine';
+import { validateRuleConditions, collectConditionRegexes } from './rule-conditions';
+import {
+  MAX_RULE_EXAMPLES,
+  RuleExampleReport,
+  RuleExampleSchema,
+  parseRuleExamples,
+  runRuleExamples,
+} from './rule-examples';
+import { scoringProfileService } from './scoring-profile-service';
+import { probeRegex } from '@/lib/patterns/regex-probe';
+import { patternLibraryService } from '@/lib/patterns/pattern-service';
+
+// Rule payload validation
+export const RuleInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(2000).optional(),
+  category: z.string().trim().min(1).max(50),
+  severity: z.nativeEnum(RuleSeverity),
+  conditions: z.record(z.any()).superRefine((conditions, ctx) => {
+    const errors = validateRuleConditions(conditions);
+    for (const message of errors) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+    if (errors.length > 0) return;
+
+    // Reject patterns that backtrack catastrophically before they reach a scan
+    for (const { path, pattern, flags } of collectConditionRegexes(conditions)) {
+      const unsafe = probeRegex(pattern, flags);
+      if (unsafe) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${path}: ${unsafe}` });
+      }
+    }
+  }),
+  recommendations: z.string().max(5000).optional(),
+  // Positive and negative examples; an active rule must classify every one as expected
+  examples: z.array(RuleExampleSchema).max(MAX_RULE_EXAMPLES).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const RuleUpdateSchema = RuleInputSchema.partial().extend({
+  // Optimistic concurrency guard: reject the update if the rule moved on
+  version: z.number().int().min(1).optional(),
+});
+
+export type RuleInput = z.infer<typeof RuleInputSchema>;
+export type RuleUpdate = z.infer<typeof RuleUpdateSchema>;
+
+export interface RuleActor {
+  userId: string;
+  organizationId: string | null;
+  isSystemAdmin: boolean;
+}
+
+export interface RuleTestReport extends RuleExampleReport {
+  ruleId: string;
+  name: string;
+  isActive: boolean;
+}
+
+// Fields that change how a rule classifies its examples
+const EXAMPLE_FIELDS = ['conditions', 'severity', 'examples', 'isActive'];
+
+export interface RuleListFilters {
+  search?: string;
+  category?: string;
+  severity?: string;
+  isActive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+// Rule service error types
+export class RuleServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'RuleServiceError';
+  }
+}
+
+// Rules visible to an organization: its own rules plus global ones
+function visibilityClause(organizationId: string | null) {
+  return organizationId
+    ? or(eq(compatibilityRules.organizationId, organizationId), isNull(compatibilityRules.organizationId))
+    : isNull(compatibilityRules.organizationId);
+}
+
+// Convert a stored rule into the shape the analysis engine evaluates
+export function toEngineRule(record: CompatibilityRuleRecord): CompatibilityRule {
+  return {
+    id: record.id,
+    name: record.name,
+    category: record.category,
+    severity: record.severity,
+    conditions: record.conditions,
+    isActive: record.isActive,
+    ...(record.description ? { description: record.description } : {}),
+    ...(record.recommendations ? { recommendations: record.recommendations } : {}),
+  };
+}
+
+export class RuleService {
+
+  // List rules visible to the caller's organization
+  async listRules(
+    organizationId: string | null,
+    filters: RuleListFilters = {}
+  ): Promise<{ rules: CompatibilityRuleRecord[]; total: number }> {
+    const conditions = [visibilityClause(organizationId)];
+
+    if (filters.search) {
+      conditions.push(
+        or(
+          ilike(compatibilityRules.name, `%${filters.search}%`),
+          ilike(compatibilityRules.description, `%${filters.search}%`)
+        )
+      );
+    }
+
+    if (filters.category) {
+      conditions.push(eq(compatibilityRules.category, filters.category));
+    }
+
+    if (filters.severity) {
+      conditions.push(eq(compatibilityRules.severity, filters.severity));
+    }
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(compatibilityRules.isActive, filters.isActive));
+    }
+
+    const whereClause = and(...conditions);
+
+    const rules = await db
+      .select()
+      .from(compatibilityRules)
+      .where(whereClause)
+      .orderBy(desc(compatibilityRules.updatedAt))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+
+    const [totalRow] = await db
+      .select({ count: count() })
+      .from(compatibilityRules)
+      .where(whereClause);
+
+    return { rules, total: totalRow?.count ?? 0 };
+  }
+
+  // Get a single rule visible to the caller's organization
+  async getRule(id: string, organizationId: string | null): Promise<CompatibilityRuleRecord> {
+    const [rule] = await db
+      .select()
+      .from(compatibilityRules)
+      .where(and(eq(compatibilityRules.id, id), visibilityClause(organizationId)))
+      .limit(1);
+
+    if (!rule) {
+      throw new RuleServiceError('Rule not found', 'RULE_NOT_FOUND', 404);
+    }
+
+    return rule;
+  }
+
+  // Get the change history of a rule, newest first
+  async getRuleVersions(id: string): Promise<CompatibilityRuleVersion[]> {
+    return db
+      .select()
+      .from(compatibilityRuleVersions)
+      .where(eq(compatibilityRuleVersions.ruleId, id))
+      .orderBy(desc(compatibilityRuleVersions.version));
+  }
+
+  // Create a rule owned by the caller's organization
+  async createRule(input: RuleInput, actor: RuleActor): Promise<CompatibilityRuleRecord> {
+    const examples = input.examples ?? [];
+    if (input.isActive) {
+      await this.assertExamplesPass(
+        {
+          id: 'new',
+          name: input.name,
+          category: input.category,
+          severity: input.severity,
+          conditions: input.conditions,
+          isActive: input.isActive,
+        },
+        examples,
+        actor.organizationId
+      );
+    }
+
+    const [rule] = await db
+      .insert(compatibilityRules)
+      .values({
+        id: generateId(16),
+        organizationId: actor.organizationId,
+        name: input.name,
+        description: input.description ?? null,
+        category: input.category,
+        severity: input.severity,
+        conditions: input.conditions,
+        recommendations: input.recommendations ?? null,
+        examples,
+        isActive: input.isActive,
+        version: 1,
+        createdBy: actor.userId,
+        updatedBy: actor.userId,
+      })
+      .returning();
+
+    if (!rule) {
+      throw new RuleServiceError('Failed to create rule', 'RULE_CREATE_FAILED', 500);
+    }
+
+    await this.recordVersion(rule, 'created', actor.userId);
+    return rule;
+  }
+
+  // Update a rule and snapshot the new version
+  async updateRule(
+    id: string,
+    updates: RuleUpdate,
+    actor: RuleActor
+  ): Promise<{ rule: CompatibilityRuleRecord; changes: string[] }> {
+    const existing = await this.getRule(id, actor.organizationId);
+    this.assertCanModify(existing, actor);
+
+    const { version: expectedVersion, ...fields } = updates;
+    if (expectedVersion !== undefined && expectedVersion !== existing.version) {
+      throw new RuleServiceError(
+        `Rule was modified by someone else (current version ${existing.version})`,
+        'RULE_VERSION_CONFLICT',
+        409
+      );
+    }
+
+    const changes = Object.entries(fields)
+      .filter(([key, value]) =>
+        value !== undefined &&
+        JSON.stringify(value) !== JSON.stringify(existing[key as keyof CompatibilityRuleRecord])
+      )
+      .map(([key]) => key);
+
+    if (changes.length === 0) {
+      return { rule: existing, changes };
+    }
+
+    // A rule only stays or becomes active while its examples still pass
+    const merged = {
+      ...existing,
+      ...Object.fromEntries(changes.map(key => [key, fields[key as keyof typeof fields]])),
+    } as CompatibilityRuleRecord;
+    if (merged.isActive && changes.some(key => EXAMPLE_FIELDS.includes(key))) {
+      await this.assertExamplesPass(toEngineRule(merged), merged.examples, existing.organizationId);
+    }
+
+    const [rule] = await db
+      .update(compatibilityRules)
+      .set({
+        ...Object.fromEntries(changes.map(key => [key, fields[key as keyof typeof fields]])),
+        version: existing.version + 1,
+        updatedBy: actor.userId,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(compatibilityRules.id, id), eq(compatibilityRules.version, existing.version)))
+      .returning();
+
+    if (!rule) {
+      throw new RuleServiceError('Rule was modified concurrently', 'RULE_VERSION_CONFLICT', 409);
+    }
+
+    await this.recordVersion(rule, 'updated', actor.userId);
+    return { rule, changes };
+  }
+
+  // Delete a rule; its version history is kept for auditing
+  async deleteRule(id: string, actor: RuleActor): Promise<CompatibilityRuleRecord> {
+    const existing = await this.getRule(id, actor.organizationId);
+    this.assertCanModify(existing, actor);
+
+    await db.delete(compatibilityRules).where(eq(compatibilityRules.id, id));
+    await this.recordVersion({ ...existing, version: existing.version + 1 }, 'deleted', actor.userId);
+
+    return existing;
+  }
+
+  // Load the enabled rules the scanner should run for an organization
+  async getActiveRules(organizationId: string | null): Promise<CompatibilityRule[]> {
+    const rules = await db
+      .select()
+      .from(compatibilityRules)
+      .where(and(eq(compatibilityRules.isActive, true), visibilityClause(organizationId)));
+
+    return rules.map(toEngineRule);
+  }
+
+  /**
+   * Run the examples of every rule visible to an organization against its
+   * current scoring profile and pattern library. Rules without examples are
+   * skipped; inactive rules are included so broken drafts show up too.
+   */
+  async runAllRuleTests(organizationId: string | null): Promise<RuleTestReport[]> {
+    const rules = await db
+      .select()
+      .from(compatibilityRules)
+      .where(visibilityClause(organizationId))
+      .orderBy(compatibilityRules.name);
+
+    const engine = await this.exampleEngine(organizationId);
+    const reports: RuleTestReport[] = [];
+
+    for (const rule of rules) {
+      const examples = parseRuleExamples(rule.examples);
+      if (examples.length === 0) continue;
+
+      const report = await runRuleExamples(engine, toEngineRule(rule), examples);
+      reports.push({ ruleId: rule.id, name: rule.name, isActive: rule.isActive, ...report });
+    }
+
+    return reports;
+  }
+
+  // Increment usage counters for the rules a scan evaluated
+  async recordUsage(ruleIds: Array<string | number>): Promise<void> {
+    const ids = ruleIds.map(String);
+    if (ids.length === 0) return;
+
+    try {
+      await db
+        .update(compatibilityRules)
+        .set({
+          usageCount: sql`${compatibilityRules.usageCount} + 1`,
+          lastUsedAt: new Date(),
+        })
+        .where(inArray(compatibilityRules.id, ids));
+    } catch (error) {
+      console.error('Failed to record rule usage:', error);
+      // Usage tracking should not fail the scan
+    }
+  }
+
+  // Examples are classified with the scoring profile and patterns scans of the organization use
+  private async exampleEngine(organizationId: string | null): Promise<CompatibilityAnalysisEngine> {
+    const [profile, patterns] = await Promise.all([
+      scoringProfileService.getActiveProfile(organizationId),
+      patternLibraryService.getActivePatterns(organizationId),
+    ]);
+    return new CompatibilityAnalysisEngine(profile.profile, patterns);
+  }
+
+  private async assertExamplesPass(
+    rule: CompatibilityRule,
+    storedExamples: unknown,
+    organizationId: string | null
+  ): Promise<void> {
+    const examples = parseRuleExamples(storedExamples);
+    if (examples.length === 0) return;
+
+    const report = await runRuleExamples(await this.exampleEngine(organizationId), rule, examples);
+    if (!report.passed) {
+      throw new RuleServiceError(
+        `${report.failures.length} of ${report.total} rule examples failed; fix them or disable the rule`,
+        'RULE_EXAMPLES_FAILED',
+        422,
+        report.failures
+      );
+    }
+  }
+
+  private assertCanModify(rule: CompatibilityRuleRecord, actor: RuleActor): void {
+    // Global rules are shared by every organization and only system admins may change them
+    if (rule.organizationId === null && !actor.isSystemAdmin) {
+      throw new RuleServiceError('Global rules can only be modified by system administrators', 'RULE_READ_ONLY', 403);
+    }
+  }
+
+  private async recordVersion(
+    rule: CompatibilityRuleRecord,
+    changeType: 'created' | 'updated' | 'deleted',
+    changedBy: string
+  ): Promise<void> {
+    await db.insert(compatibilityRuleVersions).values({
+      ruleId: rule.id,
+      version: rule.version,
+      changeType,
+      snapshot: {
+        name: rule.name,
+        description: rule.description,
+        category: rule.category,
+        severity: rule.severity,
+        conditions: rule.conditions,
+        recommendations: rule.recommendations,
+        examples: rule.examples,
+        isActive: rule.isActive,
+      },
+      changedBy,
+    });
+  }
+}
+
+export const ruleService = new RuleService();
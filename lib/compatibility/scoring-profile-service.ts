@@ -0,0 +1,148 @@
+import { db } from '@/lib/db/drizzle';
+import { scoringProfiles, ScoringProfileRecord } from '@/lib/db/schema';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import type { RuleActor } from './rule-service';
+import {
+  DEFAULT_SCORING_SNAPSHOT,
+  ScoringProfileSnapshot,
+  ScoringProfileUpdate,
+  mergeScoringProfile,
+  parseScoringProfile,
+} from './scoring-profile';
+
+export interface ScoringProfileVersion extends ScoringProfileSnapshot {
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: Date | null;
+}
+
+// Scoring profile service error types
+export class ScoringProfileError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ScoringProfileError';
+  }
+}
+
+function ownerClause(organizationId: string | null) {
+  return organizationId
+    ? eq(scoringProfiles.organizationId, organizationId)
+    : isNull(scoringProfiles.organizationId);
+}
+
+function toVersion(record: ScoringProfileRecord): ScoringProfileVersion {
+  return {
+    id: record.id,
+    organizationId: record.organizationId,
+    version: record.version,
+    profile: parseScoringProfile(record.profile),
+    notes: record.notes,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+  };
+}
+
+const BUILT_IN_VERSION: ScoringProfileVersion = {
+  ...DEFAULT_SCORING_SNAPSHOT,
+  notes: 'Built-in default profile',
+  createdBy: null,
+  createdAt: null,
+};
+
+export class ScoringProfileService {
+
+  private async latest(organizationId: string | null): Promise<ScoringProfileRecord | null> {
+    const [record] = await db
+      .select()
+      .from(scoringProfiles)
+      .where(ownerClause(organizationId))
+      .orderBy(desc(scoringProfiles.version))
+      .limit(1);
+
+    return record ?? null;
+  }
+
+  /**
+   * The profile an organization's scans are scored with: its newest version,
+   * else the newest global version, else the built-in default.
+   */
+  async getActiveProfile(organizationId: string | null): Promise<ScoringProfileVersion> {
+    const record = (organizationId ? await this.latest(organizationId) : null) ?? await this.latest(null);
+    return record ? toVersion(record) : BUILT_IN_VERSION;
+  }
+
+  // Versions saved by the caller's organization (or globally), newest first
+  async listVersions(organizationId: string | null): Promise<ScoringProfileVersion[]> {
+    const records = await db
+      .select()
+      .from(scoringProfiles)
+      .where(ownerClause(organizationId))
+      .orderBy(desc(scoringProfiles.version));
+
+    return records.map(toVersion);
+  }
+
+  async getVersion(organizationId: string | null, version: number): Promise<ScoringProfileVersion> {
+    if (version === 0) return BUILT_IN_VERSION;
+
+    const [record] = await db
+      .select()
+      .from(scoringProfiles)
+      .where(and(ownerClause(organizationId), eq(scoringProfiles.version, version)))
+      .limit(1);
+
+    if (!record) {
+      throw new ScoringProfileError(`Scoring profile version ${version} not found`, 'SCORING_PROFILE_NOT_FOUND', 404);
+    }
+
+    return toVersion(record);
+  }
+
+  /**
+   * Save a new profile version for the caller's organization (or the global
+   * profile for system admins without an organization). The changes apply
+   * on top of the active profile; earlier versions are kept unchanged.
+   */
+  async saveProfile(update: ScoringProfileUpdate, actor: RuleActor): Promise<ScoringProfileVersion> {
+    if (actor.organizationId === null && !actor.isSystemAdmin) {
+      throw new ScoringProfileError('Only system administrators can change the global scoring profile', 'SCORING_PROFILE_READ_ONLY', 403);
+    }
+
+    const active = await this.getActiveProfile(actor.organizationId);
+    const profile = mergeScoringProfile(active.profile, update.profile);
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ version: scoringProfiles.version })
+        .from(scoringProfiles)
+        .where(ownerClause(actor.organizationId))
+        .orderBy(desc(scoringProfiles.version))
+        .limit(1);
+
+      const [record] = await tx
+        .insert(scoringProfiles)
+        .values({
+          id: generateId(16),
+          organizationId: actor.organizationId,
+          version: (current?.version ?? 0) + 1,
+          profile,
+          notes: update.notes ?? null,
+          createdBy: actor.userId,
+        })
+        .returning();
+
+      if (!record) {
+        throw new ScoringProfileError('Failed to save scoring profile', 'SCORING_PROFILE_SAVE_FAILED', 500);
+      }
+
+      return toVersion(record);
+    });
+  }
+}
+
+export const scoringProfileService = new ScoringProfileService();
@@ -0,0 +1,278 @@
+import { z } from 'zod';
+import type { AnalysisResult } from './analysis-engine';
+
+type SeverityLevel = 'low' | 'medium' | 'high' | 'critical';
+type StatusLevel = 'passed' | 'warning' | 'failed' | 'error';
+
+/**
+ * Every weight, threshold and multiplier the analysis engine scores with.
+ * Organizations tune a copy of the default profile; each scan stores the
+ * profile it was scored with.
+ */
+export interface ScoringProfile {
+  // Severity of a scanned entry on a 0-10 scale, normalized into the severity_score feature
+  severityWeights: Record<SeverityLevel, number>;
+  // Weight of each detected pattern; also scales the pattern's feature value
+  patternWeights: Record<string, number>;
+  // Weight of the statistical features (severity_score, message_complexity, tool_reliability)
+  featureWeights: Record<string, number>;
+  // Weight of a pattern or feature missing from the maps above
+  defaultWeight: number;
+  // Reliability of each security tool, keyed by snake_cased tool name
+  toolReliability: Record<string, number>;
+  defaultToolReliability: number;
+  // Largest risk score increase from recent failed results
+  maxHistoricalAdjustment: number;
+  // Risk score at which a rule of each severity fails
+  failThresholds: Record<SeverityLevel, number>;
+  // Share of the fail threshold at which a result becomes a warning
+  warningRatio: number;
+  // Confidence added per feature and per matched pattern, and the caps of both bonuses
+  confidenceBonus: {
+    perFeature: number;
+    maxFeatures: number;
+    perPattern: number;
+    maxPatterns: number;
+  };
+  // Overall scan risk score: weight of each result status and multiplier of each severity
+  statusWeights: Record<StatusLevel, number>;
+  severityMultipliers: Record<SeverityLevel, number>;
+}
+
+// A profile as stored with a scan; version 0 is the built-in default
+export interface ScoringProfileSnapshot {
+  id: string | null;
+  organizationId: string | null;
+  version: number;
+  profile: ScoringProfile;
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  severityWeights: {
+    low: 1,
+    medium: 3,
+    high: 7,
+    critical: 10,
+  },
+  patternWeights: {
+    // Security patterns
+    sql_injection: 0.9,
+    xss: 0.8,
+    path_traversal: 0.85,
+    command_injection: 0.95,
+    authentication_bypass: 0.9,
+    sensitive_data: 0.7,
+    // Compatibility patterns
+    version_conflict: 0.8,
+    deprecated_api: 0.6,
+    missing_dependency: 0.75,
+    configuration_error: 0.7,
+  },
+  featureWeights: {
+    severity_score: 0.8,
+    message_complexity: 0.3,
+    tool_reliability: 0.6,
+  },
+  defaultWeight: 0.5,
+  toolReliability: {
+    sonarqube: 0.9,
+    owasp_zap: 0.85,
+    burp_suite: 0.9,
+    nessus: 0.8,
+    qualys: 0.8,
+    veracode: 0.85,
+    checkmarx: 0.8,
+    fortify: 0.8,
+    snyk: 0.85,
+    semgrep: 0.8,
+  },
+  defaultToolReliability: 0.7,
+  maxHistoricalAdjustment: 0.2,
+  failThresholds: {
+    low: 0.3,
+    medium: 0.5,
+    high: 0.7,
+    critical: 0.9,
+  },
+  warningRatio: 0.7,
+  confidenceBonus: {
+    perFeature: 0.1,
+    maxFeatures: 0.2,
+    perPattern: 0.2,
+    maxPatterns: 0.3,
+  },
+  statusWeights: {
+    failed: 1.0,
+    warning: 0.6,
+    passed: 0.1,
+    error: 0.8,
+  },
+  severityMultipliers: {
+    critical: 2.0,
+    high: 1.5,
+    medium: 1.0,
+    low: 0.5,
+  },
+};
+
+export const DEFAULT_SCORING_SNAPSHOT: ScoringProfileSnapshot = {
+  id: null,
+  organizationId: null,
+  version: 0,
+  profile: DEFAULT_SCORING_PROFILE,
+};
+
+const unit = z.number().min(0).max(1);
+const multiplier = z.number().min(0).max(10);
+const bySeverity = (value: z.ZodNumber) => z.object({ low: value, medium: value, high: value, critical: value });
+const weightMap = z.record(z.string().min(1).max(100).regex(/^[a-z0-9_]+$/, 'Keys must be snake_case'), unit);
+
+export const ScoringProfileSchema = z.object({
+  severityWeights: bySeverity(multiplier),
+  patternWeights: weightMap,
+  featureWeights: weightMap,
+  defaultWeight: unit,
+  toolReliability: weightMap,
+  defaultToolReliability: unit,
+  maxHistoricalAdjustment: unit,
+  failThresholds: bySeverity(z.number().gt(0).max(1)),
+  warningRatio: unit,
+  confidenceBonus: z.object({
+    perFeature: unit,
+    maxFeatures: unit,
+    perPattern: unit,
+    maxPatterns: unit,
+  }),
+  statusWeights: z.object({ passed: unit, warning: unit, failed: unit, error: unit }),
+  severityMultipliers: bySeverity(multiplier),
+}).strict();
+
+// A new profile version: only the changed settings, merged onto the active profile
+export const ScoringProfileUpdateSchema = z.object({
+  profile: ScoringProfileSchema.deepPartial(),
+  notes: z.string().max(1000).optional(),
+});
+
+export type ScoringProfileUpdate = z.infer<typeof ScoringProfileUpdateSchema>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeSettings(base: Record<string, unknown>, changes: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === undefined) continue;
+    merged[key] = isPlainObject(value) && isPlainObject(base[key])
+      ? mergeSettings(base[key] as Record<string, unknown>, value)
+      : value;
+  }
+  return merged;
+}
+
+/**
+ * Apply changed settings to a profile. Map entries are merged key by key,
+ * so changing one pattern weight keeps the others. Throws a ZodError when
+ * the result is not a valid profile.
+ */
+export function mergeScoringProfile(base: ScoringProfile, changes: unknown): ScoringProfile {
+  return ScoringProfileSchema.parse(
+    isPlainObject(changes) ? mergeSettings(base as unknown as Record<string, unknown>, changes) : base
+  ) as ScoringProfile;
+}
+
+/**
+ * Read a stored profile. Settings added after it was saved take their
+ * default values, so older versions keep scoring the way they did.
+ */
+export function parseScoringProfile(stored: unknown): ScoringProfile {
+  return mergeScoringProfile(DEFAULT_SCORING_PROFILE, stored);
+}
+
+export interface FeatureContribution {
+  feature: string;
+  value: number;
+  weight: number;
+  // Share of the base risk score: value × weight / total weight
+  contribution: number;
+}
+
+export interface ScoreComponent {
+  name: string;
+  value: number;
+}
+
+/**
+ * Why a result scored the way it did. Analysis engine results explain their
+ * risk score feature by feature; every result explains its confidence and
+ * its share of the scan's overall risk score.
+ */
+export interface ScoreExplanation {
+  riskScore?: {
+    value: number;
+    base: number;
+    historicalAdjustment: number;
+    features: FeatureContribution[];
+    failThreshold: number;
+    warningThreshold: number;
+  };
+  confidence: {
+    value: number;
+    components: ScoreComponent[];
+  };
+  overall?: {
+    statusWeight: number;
+    severityMultiplier: number;
+    // statusWeight × severityMultiplier × confidence, out of maxScore
+    score: number;
+    maxScore: number;
+    // Suppressed results do not count toward the overall risk score
+    counted: boolean;
+  };
+}
+
+// Largest score a single result can add to the overall risk score
+export function maxResultScore(profile: ScoringProfile): number {
+  return Math.max(...Object.values(profile.statusWeights)) * Math.max(...Object.values(profile.severityMultipliers));
+}
+
+export function resultScore(
+  result: Pick<AnalysisResult, 'status' | 'severity' | 'confidence'>,
+  profile: ScoringProfile
+): number {
+  const statusWeight = profile.statusWeights[result.status] ?? 0;
+  const severityMultiplier = profile.severityMultipliers[result.severity] ?? 0;
+  return statusWeight * severityMultiplier * result.confidence;
+}
+
+/**
+ * Complete the explanation of every result with its share of the overall
+ * risk score. Results that did not come from the analysis engine have a
+ * fixed confidence, which is attributed to their source.
+ */
+export function explainResults(results: AnalysisResult[], profile: ScoringProfile): AnalysisResult[] {
+  const maxScore = maxResultScore(profile);
+
+  return results.map(result => {
+    const explanation: ScoreExplanation = result.explanation ?? {
+      confidence: {
+        value: result.confidence,
+        components: [{ name: String(result.metadata?.source ?? 'fixed'), value: result.confidence }],
+      },
+    };
+
+    return {
+      ...result,
+      explanation: {
+        ...explanation,
+        overall: {
+          statusWeight: profile.statusWeights[result.status] ?? 0,
+          severityMultiplier: profile.severityMultipliers[result.severity] ?? 0,
+          score: resultScore(result, profile),
+          maxScore,
+          counted: !result.suppression,
+        },
+      },
+    };
+  });
+}
@@ -0,0 +1,67 @@
+-- The initial migration created a serial-keyed compatibility_rules table that the
+-- application never used. Move it aside so the versioned table below can be created.
+DO $$
+BEGIN
+	IF EXISTS (
+		SELECT 1 FROM information_schema.columns
+		WHERE table_schema = 'public' AND table_name = 'compatibility_rules'
+			AND column_name = 'id' AND data_type = 'integer'
+	) THEN
+		ALTER TABLE "compatibility_rules" RENAME TO "compatibility_rules_legacy";
+	END IF;
+END $$;
+--> statement-breakpoint
+
+-- Create compatibility rules table for admin-managed scanner rules
+CREATE TABLE IF NOT EXISTS "compatibility_rules" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32),
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"category" varchar(50) NOT NULL,
+	"severity" varchar(20) DEFAULT 'medium' NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+	"conditions" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"recommendations" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"last_used_at" timestamp,
+	"created_by" varchar(32) NOT NULL,
+	"updated_by" varchar(32),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Rule version history (one snapshot per change)
+CREATE TABLE IF NOT EXISTS "compatibility_rule_versions" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY NOT NULL,
+	"rule_id" varchar(32) NOT NULL,
+	"version" integer NOT NULL,
+	"change_type" varchar(20) NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"changed_by" varchar(32),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for compatibility_rules table
+CREATE INDEX IF NOT EXISTS "compatibility_rules_organization_idx" ON "compatibility_rules" USING btree ("organization_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "compatibility_rules_category_idx" ON "compatibility_rules" USING btree ("category");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "compatibility_rules_severity_idx" ON "compatibility_rules" USING btree ("severity");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "compatibility_rules_is_active_idx" ON "compatibility_rules" USING btree ("is_active");
+--> statement-breakpoint
+
+-- Indexes for compatibility_rule_versions table
+CREATE INDEX IF NOT EXISTS "compatibility_rule_versions_rule_idx" ON "compatibility_rule_versions" USING btree ("rule_id");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "compatibility_rule_versions_rule_version_idx" ON "compatibility_rule_versions" USING btree ("rule_id", "version");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "compatibility_rules" IS 'Admin-managed compatibility rules evaluated by the scan engine';
+--> statement-breakpoint
+COMMENT ON TABLE "compatibility_rule_versions" IS 'Immutable snapshots of every compatibility rule change';
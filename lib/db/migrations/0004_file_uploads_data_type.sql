@@ -0,0 +1,26 @@
+-- Ensure file uploads table exists (created by the initial migration on older databases)
+CREATE TABLE IF NOT EXISTS "file_uploads" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY NOT NULL,
+	"user_id" integer NOT NULL,
+	"organization_id" integer,
+	"file_name" varchar(255) NOT NULL,
+	"original_name" varchar(255) NOT NULL,
+	"file_type" varchar(50) NOT NULL,
+	"file_size" integer NOT NULL,
+	"file_path" text NOT NULL,
+	"upload_status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"processed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Record how each upload should be parsed when a scan references it
+ALTER TABLE "file_uploads" ADD COLUMN IF NOT EXISTS "data_type" varchar(50) DEFAULT 'security_log' NOT NULL;
+--> statement-breakpoint
+
+-- Indexes for file_uploads table
+CREATE INDEX IF NOT EXISTS "uploads_user_idx" ON "file_uploads" USING btree ("user_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "uploads_status_idx" ON "file_uploads" USING btree ("upload_status");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "uploads_org_idx" ON "file_uploads" USING btree ("organization_id");
@@ -0,0 +1,27 @@
+-- Create compatibility matrix table for known-good and known-bad version ranges
+CREATE TABLE IF NOT EXISTS "compatibility_matrix_entries" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32),
+	"application" varchar(255) NOT NULL,
+	"application_range" varchar(255) DEFAULT '*' NOT NULL,
+	"security_tool" varchar(255) NOT NULL,
+	"tool_range" varchar(255) DEFAULT '*' NOT NULL,
+	"status" varchar(20) NOT NULL CHECK (status IN ('known_good', 'known_bad')),
+	"severity" varchar(20) DEFAULT 'medium' NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+	"notes" text,
+	"recommendations" text,
+	"created_by" varchar(32) NOT NULL,
+	"updated_by" varchar(32),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for compatibility_matrix_entries table
+CREATE INDEX IF NOT EXISTS "compatibility_matrix_organization_idx" ON "compatibility_matrix_entries" USING btree ("organization_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "compatibility_matrix_pair_idx" ON "compatibility_matrix_entries" USING btree ("application", "security_tool");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "compatibility_matrix_entries" IS 'Known-good and known-bad version ranges per application and security tool pair';
@@ -0,0 +1,53 @@
+-- Create offline vulnerability database tables for advisories imported from OSV and NVD feeds
+CREATE TABLE IF NOT EXISTS "vulnerability_advisories" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"advisory_id" varchar(100) NOT NULL,
+	"source" varchar(20) NOT NULL CHECK (source IN ('osv', 'nvd')),
+	"aliases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"summary" text,
+	"details" text,
+	"severity" varchar(20) CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+	"cvss_score" real,
+	"cvss_vector" varchar(255),
+	"cwe_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"cve_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"references" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"published_at" timestamp,
+	"modified_at" timestamp,
+	"withdrawn_at" timestamp,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "vulnerability_affected_packages" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"advisory_id" varchar(32) NOT NULL REFERENCES "vulnerability_advisories"("id") ON DELETE CASCADE,
+	"ecosystem" varchar(50) NOT NULL,
+	"package_name" varchar(255) NOT NULL,
+	"ranges" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"versions" jsonb DEFAULT '[]'::jsonb NOT NULL
+);
+--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "cwe_weaknesses" (
+	"id" varchar(20) PRIMARY KEY NOT NULL,
+	"name" varchar(500) NOT NULL,
+	"description" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for vulnerability_advisories table
+CREATE UNIQUE INDEX IF NOT EXISTS "vulnerability_advisories_source_advisory_idx" ON "vulnerability_advisories" USING btree ("source", "advisory_id");
+--> statement-breakpoint
+
+-- Indexes for vulnerability_affected_packages table
+CREATE INDEX IF NOT EXISTS "vulnerability_affected_packages_package_idx" ON "vulnerability_affected_packages" USING btree ("package_name", "ecosystem");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "vulnerability_affected_packages_advisory_idx" ON "vulnerability_affected_packages" USING btree ("advisory_id");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "vulnerability_advisories" IS 'Vulnerability advisories imported from OSV and NVD feed files';
+COMMENT ON TABLE "vulnerability_affected_packages" IS 'Packages and version ranges affected by each advisory';
+COMMENT ON TABLE "cwe_weaknesses" IS 'MITRE CWE catalog entries';
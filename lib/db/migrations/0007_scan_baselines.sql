@@ -0,0 +1,20 @@
+-- Create scan_baselines table for the baseline scan pinned per project
+CREATE TABLE IF NOT EXISTS "scan_baselines" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32) NOT NULL,
+	"project" varchar(255) NOT NULL,
+	"scan_id" varchar(32) NOT NULL REFERENCES "scans"("id") ON DELETE CASCADE,
+	"pinned_by" varchar(32) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for scan_baselines table
+CREATE UNIQUE INDEX IF NOT EXISTS "scan_baselines_organization_project_idx" ON "scan_baselines" USING btree ("organization_id", "project");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "scan_baselines_scan_idx" ON "scan_baselines" USING btree ("scan_id");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "scan_baselines" IS 'Baseline scan pinned per project; later scans only fail on regressions against it';
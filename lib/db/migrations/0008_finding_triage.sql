@@ -0,0 +1,82 @@
+-- Create finding triage tables: findings tracked across scans, their comments and history, and suppression rules
+CREATE TABLE IF NOT EXISTS "findings" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32) NOT NULL,
+	"project" varchar(255) NOT NULL,
+	"fingerprint" varchar(64) NOT NULL,
+	"rule_id" varchar(255) NOT NULL,
+	"severity" varchar(20) NOT NULL,
+	"message" text NOT NULL,
+	"affected_components" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'acknowledged', 'false_positive', 'accepted_risk', 'fixed')),
+	"assignee_id" varchar(32),
+	"first_seen_scan_id" varchar(32) NOT NULL,
+	"last_seen_scan_id" varchar(32) NOT NULL,
+	"first_seen_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "finding_comments" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"finding_id" varchar(32) NOT NULL REFERENCES "findings"("id") ON DELETE CASCADE,
+	"user_id" varchar(32) NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "finding_events" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"finding_id" varchar(32) NOT NULL REFERENCES "findings"("id") ON DELETE CASCADE,
+	"user_id" varchar(32),
+	"action" varchar(50) NOT NULL,
+	"from_value" varchar(255),
+	"to_value" varchar(255),
+	"metadata" jsonb DEFAULT '{}'::jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS "finding_suppressions" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32) NOT NULL,
+	"project" varchar(255),
+	"kind" varchar(20) NOT NULL CHECK (kind IN ('fingerprint', 'rule', 'component')),
+	"pattern" varchar(500) NOT NULL,
+	"justification" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_by" varchar(32) NOT NULL,
+	"revoked_at" timestamp,
+	"revoked_by" varchar(32),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for findings table
+CREATE UNIQUE INDEX IF NOT EXISTS "findings_organization_project_fingerprint_idx" ON "findings" USING btree ("organization_id", "project", "fingerprint");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "findings_status_idx" ON "findings" USING btree ("status");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "findings_assignee_idx" ON "findings" USING btree ("assignee_id");
+--> statement-breakpoint
+
+-- Indexes for finding_comments and finding_events tables
+CREATE INDEX IF NOT EXISTS "finding_comments_finding_idx" ON "finding_comments" USING btree ("finding_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "finding_events_finding_idx" ON "finding_events" USING btree ("finding_id");
+--> statement-breakpoint
+
+-- Indexes for finding_suppressions table
+CREATE INDEX IF NOT EXISTS "finding_suppressions_organization_idx" ON "finding_suppressions" USING btree ("organization_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "finding_suppressions_expires_at_idx" ON "finding_suppressions" USING btree ("expires_at");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "findings" IS 'Scan findings tracked across scans of a project by fingerprint, with their triage state';
+COMMENT ON TABLE "finding_comments" IS 'Comment threads on findings';
+COMMENT ON TABLE "finding_events" IS 'Audit history of finding triage changes';
+COMMENT ON TABLE "finding_suppressions" IS 'Suppression rules by fingerprint, rule or component glob, with justification and expiry';
@@ -0,0 +1,18 @@
+-- Create scoring_profiles table for versioned, per-organization risk scoring profiles
+CREATE TABLE IF NOT EXISTS "scoring_profiles" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32),
+	"version" integer NOT NULL,
+	"profile" jsonb NOT NULL,
+	"notes" text,
+	"created_by" varchar(32) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for scoring_profiles table
+CREATE UNIQUE INDEX IF NOT EXISTS "scoring_profiles_organization_version_idx" ON "scoring_profiles" USING btree ("organization_id", "version");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "scoring_profiles" IS 'Risk scoring weights and thresholds per organization; every change is a new version so stored scores stay reproducible';
@@ -0,0 +1,40 @@
+-- Create detection_patterns table for the managed, org-scoped pattern library
+CREATE TABLE IF NOT EXISTS "detection_patterns" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32),
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"category" varchar(20) NOT NULL CHECK (category IN ('security', 'compatibility')),
+	"pattern" text NOT NULL,
+	"flags" varchar(10) DEFAULT 'gi' NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"hit_count" integer DEFAULT 0 NOT NULL,
+	"last_hit_at" timestamp,
+	"created_by" varchar(32),
+	"updated_by" varchar(32),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for detection_patterns table
+CREATE UNIQUE INDEX IF NOT EXISTS "detection_patterns_organization_name_idx" ON "detection_patterns" USING btree ("organization_id", "name");
+--> statement-breakpoint
+
+-- Seed the built-in patterns as global entries
+INSERT INTO "detection_patterns" ("id", "organization_id", "name", "description", "category", "pattern", "flags") VALUES
+	('builtin_sql_injection', NULL, 'sql_injection', 'SQL keywords followed by a call or statement terminator', 'security', '(?:union|select|insert|update|delete|drop|exec|script)\s*[(;]', 'gi'),
+	('builtin_xss', NULL, 'xss', 'Script tags, script URLs and inline event handlers', 'security', '(?:<script|javascript:|vbscript:|onload|onerror|onclick)', 'gi'),
+	('builtin_path_traversal', NULL, 'path_traversal', 'Parent directory segments, plain or URL-encoded', 'security', '(?:(?:\.\.)[\/\\]|%2e%2e[%2f%5c])', 'gi'),
+	('builtin_command_injection', NULL, 'command_injection', 'Chained destructive commands and pipes into network tools', 'security', '(?:;\s*(?:rm|del|format|shutdown)|\|\s*(?:nc|netcat|telnet))', 'gi'),
+	('builtin_authentication_bypass', NULL, 'authentication_bypass', 'Privileged accounts with default or empty passwords', 'security', '(?:admin|administrator|root).*(?:password|pwd|pass).*(?:=|:)\s*(?:"|'')?(?:admin|password|123|blank)?', 'gi'),
+	('builtin_sensitive_data', NULL, 'sensitive_data', 'Credentials and keys assigned in plain text', 'security', '(?:api[_-]?key|secret|token|password|credential|private[_-]?key)\s*[=:]\s*["'']?[a-zA-Z0-9+\/]{8,}["'']?', 'gi'),
+	('builtin_version_conflict', NULL, 'version_conflict', 'Reported version conflicts and mismatches', 'compatibility', 'version\s+(?:conflict|mismatch|incompatibl)', 'gi'),
+	('builtin_deprecated_api', NULL, 'deprecated_api', 'Use of deprecated or legacy APIs', 'compatibility', '(?:deprecated|obsolete|legacy)\s+(?:api|method|function)', 'gi'),
+	('builtin_missing_dependency', NULL, 'missing_dependency', 'Missing dependencies, modules or libraries', 'compatibility', '(?:missing|not\s+found|undefined)\s+(?:dependency|module|library)', 'gi'),
+	('builtin_configuration_error', NULL, 'configuration_error', 'Invalid or missing configuration', 'compatibility', '(?:configuration|config)\s+(?:error|invalid|missing)', 'gi')
+ON CONFLICT ("id") DO NOTHING;
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "detection_patterns" IS 'Regular expressions the analysis engine searches scanned entries for; organization patterns shadow global ones of the same name';
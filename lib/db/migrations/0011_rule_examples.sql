@@ -0,0 +1,2 @@
+-- Example entries a rule must classify as expected before it can be enabled
+ALTER TABLE "compatibility_rules" ADD COLUMN IF NOT EXISTS "examples" jsonb DEFAULT '[]'::jsonb NOT NULL;
@@ -0,0 +1,57 @@
+-- Create projects table: the applications or repositories scans are run against
+CREATE TABLE IF NOT EXISTS "projects" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"repository_url" text,
+	"team_id" integer,
+	"tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"default_scan_config" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_by" varchar(32) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Scans are owned by a project; deleting a project keeps its scan history
+ALTER TABLE "scans" ADD COLUMN IF NOT EXISTS "project_id" varchar(32) REFERENCES "projects"("id") ON DELETE SET NULL;
+--> statement-breakpoint
+
+-- Indexes for projects table
+CREATE UNIQUE INDEX IF NOT EXISTS "projects_organization_name_idx" ON "projects" USING btree ("organization_id", "name");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "projects_team_idx" ON "projects" USING btree ("team_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "scans_project_idx" ON "scans" USING btree ("project_id");
+--> statement-breakpoint
+
+-- Turn the project names scans were already tagged with into projects
+INSERT INTO "projects" ("id", "organization_id", "name", "created_by")
+SELECT DISTINCT ON (owner, project)
+	substr(md5(owner || ':' || project), 1, 16),
+	owner,
+	project,
+	"user_id"
+FROM (
+	SELECT
+		CASE WHEN "organization_id" = '' THEN 'user:' || "user_id" ELSE "organization_id" END AS owner,
+		trim("config"->>'project') AS project,
+		"user_id",
+		"created_at"
+	FROM "scans"
+	WHERE coalesce(trim("config"->>'project'), '') <> ''
+) tagged
+ORDER BY owner, project, "created_at"
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+
+UPDATE "scans" SET "project_id" = "projects"."id"
+FROM "projects"
+WHERE "scans"."project_id" IS NULL
+	AND "projects"."organization_id" = CASE WHEN "scans"."organization_id" = '' THEN 'user:' || "scans"."user_id" ELSE "scans"."organization_id" END
+	AND "projects"."name" = trim("scans"."config"->>'project');
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "projects" IS 'Applications or repositories that own scans; baselines and findings are tracked per project name';
@@ -0,0 +1,50 @@
+-- Create scan_schedules table: recurring scans of a project
+CREATE TABLE IF NOT EXISTS "scan_schedules" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32) NOT NULL,
+	"project_id" varchar(32) NOT NULL REFERENCES "projects"("id") ON DELETE CASCADE,
+	"name" varchar(255) NOT NULL,
+	"cron" varchar(100) NOT NULL,
+	"timezone" varchar(64) DEFAULT 'UTC' NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"source_config" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"scan_config" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'active' NOT NULL,
+	"pause_reason" text,
+	"paused_at" timestamp,
+	"consecutive_failures" integer DEFAULT 0 NOT NULL,
+	"reminder_minutes" integer,
+	"reminded_for" timestamp,
+	"next_run_at" timestamp,
+	"last_run_at" timestamp,
+	"created_by" varchar(32) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Create scan_schedule_runs table: run history of each schedule
+CREATE TABLE IF NOT EXISTS "scan_schedule_runs" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"schedule_id" varchar(32) NOT NULL REFERENCES "scan_schedules"("id") ON DELETE CASCADE,
+	"scheduled_for" timestamp NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"scan_id" varchar(32) REFERENCES "scans"("id") ON DELETE SET NULL,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for scan_schedules table
+CREATE INDEX IF NOT EXISTS "scan_schedules_project_idx" ON "scan_schedules" USING btree ("project_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "scan_schedules_due_idx" ON "scan_schedules" USING btree ("status", "next_run_at");
+--> statement-breakpoint
+
+-- Indexes for scan_schedule_runs table
+CREATE UNIQUE INDEX IF NOT EXISTS "scan_schedule_runs_schedule_time_idx" ON "scan_schedule_runs" USING btree ("schedule_id", "scheduled_for");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "scan_schedules" IS 'Cron schedules that start scans of a project from its last upload, an integration pull or the host system';
+COMMENT ON TABLE "scan_schedule_runs" IS 'Run history of scan schedules; unique per schedule and fire time so replicas cannot double-fire';
@@ -0,0 +1,18 @@
+-- API keys are stored as a SHA-256 hash; the preview identifies a key once the secret is hidden
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "key_preview" varchar(32);
+--> statement-breakpoint
+
+-- Optional IP allowlist: single addresses or CIDR ranges, empty allows any address
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "allowed_ips" jsonb DEFAULT '[]'::jsonb NOT NULL;
+--> statement-breakpoint
+
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "last_used_ip" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "rotated_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "revoked_at" timestamp;
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON COLUMN "api_keys"."key" IS 'SHA-256 hash of the key; the key itself is only shown once at creation or rotation';
+COMMENT ON COLUMN "api_keys"."permissions" IS 'Permission scopes of the key, a subset of the owner''s role permissions';
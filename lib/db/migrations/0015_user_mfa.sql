@@ -0,0 +1,29 @@
+-- Create user_mfa table: TOTP enrollment of a user
+CREATE TABLE IF NOT EXISTS "user_mfa" (
+	"user_id" integer PRIMARY KEY NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"secret" text,
+	"pending_secret" text,
+	"enabled_at" timestamp,
+	"last_used_step" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Create user_mfa_backup_codes table
+CREATE TABLE IF NOT EXISTS "user_mfa_backup_codes" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"code_hash" text NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for user_mfa_backup_codes table
+CREATE INDEX IF NOT EXISTS "user_mfa_backup_codes_user_idx" ON "user_mfa_backup_codes" USING btree ("user_id");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "user_mfa" IS 'TOTP secrets, encrypted at rest; pending_secret holds an enrollment awaiting its first valid code';
+COMMENT ON TABLE "user_mfa_backup_codes" IS 'Single-use MFA recovery codes, stored as bcrypt hashes';
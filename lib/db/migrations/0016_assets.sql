@@ -0,0 +1,59 @@
+-- Create agent_enrollment_tokens table: tokens host agents enroll and report with
+CREATE TABLE IF NOT EXISTS "agent_enrollment_tokens" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"token_hash" varchar(64) NOT NULL UNIQUE,
+	"token_preview" varchar(32) NOT NULL,
+	"created_by" varchar(32) NOT NULL,
+	"expires_at" timestamp,
+	"last_used_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Create assets table: hosts reporting through the agent
+CREATE TABLE IF NOT EXISTS "assets" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(32) NOT NULL,
+	"enrollment_token_id" varchar(32) NOT NULL REFERENCES "agent_enrollment_tokens"("id") ON DELETE CASCADE,
+	"machine_id" varchar(64) NOT NULL,
+	"hostname" varchar(255) NOT NULL,
+	"os_name" varchar(255),
+	"os_id" varchar(50),
+	"os_version" varchar(50),
+	"kernel" varchar(255),
+	"architecture" varchar(32),
+	"agent_version" varchar(32),
+	"public_key" text NOT NULL,
+	"key_fingerprint" varchar(64) NOT NULL,
+	"inventory" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"inventory_digest" varchar(64) NOT NULL,
+	"package_count" integer DEFAULT 0 NOT NULL,
+	"last_ip" varchar(64),
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"last_report_at" timestamp NOT NULL,
+	"inventory_changed_at" timestamp DEFAULT now() NOT NULL,
+	"last_scan_id" varchar(32) REFERENCES "scans"("id") ON DELETE SET NULL,
+	"last_scanned_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+-- Indexes for agent_enrollment_tokens table
+CREATE INDEX IF NOT EXISTS "agent_enrollment_tokens_organization_idx" ON "agent_enrollment_tokens" USING btree ("organization_id");
+--> statement-breakpoint
+
+-- Indexes for assets table
+CREATE UNIQUE INDEX IF NOT EXISTS "assets_organization_machine_idx" ON "assets" USING btree ("organization_id", "machine_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "assets_last_seen_idx" ON "assets" USING btree ("last_seen_at");
+--> statement-breakpoint
+
+-- Add comments
+COMMENT ON TABLE "agent_enrollment_tokens" IS 'Tokens host agents report with, stored as SHA-256 hashes; revoking one stops the hosts enrolled with it';
+COMMENT ON TABLE "assets" IS 'Hosts reporting through the inventory agent, with their latest inventory and last-seen time';
+COMMENT ON COLUMN "assets"."public_key" IS 'Ed25519 key of the host''s first report; later reports must be signed with it';
+COMMENT ON COLUMN "assets"."last_report_at" IS 'Signed timestamp of the last accepted report; reports at or before it are replays';
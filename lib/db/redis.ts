@@ -205,6 +205,49 @@ export class RedisCache {
 // Create cache instance
 export const cache = new RedisCache(redis);
 
+// Only touch a lock while it is still held by the caller's token
+const RENEW_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+// Expiring locks shared by every app replica
+export class RedisLock {
+  private client: Redis;
+  private keyPrefix = 'lock:';
+
+  constructor(client: Redis) {
+    this.client = client;
+  }
+
+  // Take the lock unless someone else holds it
+  async acquire(name: string, token: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(`${this.keyPrefix}${name}`, token, 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  }
+
+  // Extend a lock the token still holds; false once it has been lost
+  async renew(name: string, token: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.eval(RENEW_LOCK_SCRIPT, 1, `${this.keyPrefix}${name}`, token, ttlMs);
+    return result === 1;
+  }
+
+  async release(name: string, token: string): Promise<boolean> {
+    const result = await this.client.eval(RELEASE_LOCK_SCRIPT, 1, `${this.keyPrefix}${name}`, token);
+    return result === 1;
+  }
+}
+
+// Create lock instance
+export const locks = new RedisLock(redis);
+
 // Session management utilities
 export class SessionManager {
   private cache: RedisCache;
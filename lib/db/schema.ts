@@ -4,6 +4,7 @@ import {
   timestamp,
   boolean,
   integer,
+  real,
   jsonb,
   uuid,
   varchar,
@@ -66,6 +67,7 @@ export const scans = pgTable(
     id: varchar('id', { length: 32 }).primaryKey(),
     organizationId: varchar('organization_id', { length: 32 }).notNull(),
     userId: varchar('user_id', { length: 32 }).notNull(),
+    projectId: varchar('project_id', { length: 32 }), // projects.id
     name: varchar('name', { length: 255 }).notNull(),
     description: text('description'),
     type: varchar('type', { length: 50 }).notNull(),
@@ -85,12 +87,373 @@ export const scans = pgTable(
   (table) => ({
     orgIdx: index('scans_organization_idx').on(table.organizationId),
     userIdx: index('scans_user_idx').on(table.userId),
+    projectIdx: index('scans_project_idx').on(table.projectId),
     statusIdx: index('scans_status_idx').on(table.status),
     typeIdx: index('scans_type_idx').on(table.type),
     createdAtIdx: index('scans_created_at_idx').on(table.createdAt),
   })
 )
 
+// Applications or repositories that own scans; baselines and findings are tracked per project name
+export const projects = pgTable(
+  'projects',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }).notNull(), // organization id, or user:<id>
+    name: varchar('name', { length: 255 }).notNull(),
+    description: text('description'),
+    repositoryUrl: text('repository_url'),
+    teamId: integer('team_id'), // teams.id
+    tags: jsonb('tags').notNull().default([]),
+    defaultScanConfig: jsonb('default_scan_config').notNull().default({}),
+    createdBy: varchar('created_by', { length: 32 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    nameIdx: uniqueIndex('projects_organization_name_idx').on(table.organizationId, table.name),
+    teamIdx: index('projects_team_idx').on(table.teamId),
+  })
+)
+
+// Recurring scans of a project, fired by the scan scheduler
+export const scanSchedules = pgTable(
+  'scan_schedules',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }).notNull(), // organization id, or user:<id>
+    projectId: varchar('project_id', { length: 32 }).notNull(), // projects.id
+    name: varchar('name', { length: 255 }).notNull(),
+    cron: varchar('cron', { length: 100 }).notNull(),
+    timezone: varchar('timezone', { length: 64 }).notNull().default('UTC'),
+    source: varchar('source', { length: 20 }).notNull(), // last_upload, integration, system
+    sourceConfig: jsonb('source_config').notNull().default({}),
+    scanConfig: jsonb('scan_config').notNull().default({}),
+    status: varchar('status', { length: 20 }).notNull().default('active'), // active, paused, auto_paused
+    pauseReason: text('pause_reason'),
+    pausedAt: timestamp('paused_at'),
+    consecutiveFailures: integer('consecutive_failures').notNull().default(0),
+    reminderMinutes: integer('reminder_minutes'), // notify the creator this long before each run
+    remindedFor: timestamp('reminded_for'), // run the last reminder was sent for
+    nextRunAt: timestamp('next_run_at'),
+    lastRunAt: timestamp('last_run_at'),
+    createdBy: varchar('created_by', { length: 32 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    projectIdx: index('scan_schedules_project_idx').on(table.projectId),
+    dueIdx: index('scan_schedules_due_idx').on(table.status, table.nextRunAt),
+  })
+)
+
+// One row per fire of a schedule
+export const scanScheduleRuns = pgTable(
+  'scan_schedule_runs',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    scheduleId: varchar('schedule_id', { length: 32 }).notNull(), // scan_schedules.id
+    scheduledFor: timestamp('scheduled_for').notNull(),
+    status: varchar('status', { length: 20 }).notNull(), // queued, skipped, failed
+    scanId: varchar('scan_id', { length: 32 }), // scans.id
+    error: text('error'),
+    startedAt: timestamp('started_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    // A run is recorded once even if two schedulers race for it
+    scheduleRunIdx: uniqueIndex('scan_schedule_runs_schedule_time_idx').on(table.scheduleId, table.scheduledFor),
+  })
+)
+
+// Baseline scan pinned per project; later scans of the project are gated against it
+export const scanBaselines = pgTable(
+  'scan_baselines',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }).notNull(),
+    project: varchar('project', { length: 255 }).notNull(),
+    scanId: varchar('scan_id', { length: 32 }).notNull(), // scans.id
+    pinnedBy: varchar('pinned_by', { length: 32 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    projectIdx: uniqueIndex('scan_baselines_organization_project_idx').on(table.organizationId, table.project),
+    scanIdx: index('scan_baselines_scan_idx').on(table.scanId),
+  })
+)
+
+// Findings of a project, tracked across scans by result fingerprint
+export const findings = pgTable(
+  'findings',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }).notNull(), // organization id, or user:<id>
+    project: varchar('project', { length: 255 }).notNull(),
+    fingerprint: varchar('fingerprint', { length: 64 }).notNull(),
+    ruleId: varchar('rule_id', { length: 255 }).notNull(),
+    severity: varchar('severity', { length: 20 }).notNull(),
+    message: text('message').notNull(),
+    affectedComponents: jsonb('affected_components').notNull().default([]),
+    status: varchar('status', { length: 20 }).notNull().default('open'), // open, acknowledged, false_positive, accepted_risk, fixed
+    assigneeId: varchar('assignee_id', { length: 32 }),
+    firstSeenScanId: varchar('first_seen_scan_id', { length: 32 }).notNull(),
+    lastSeenScanId: varchar('last_seen_scan_id', { length: 32 }).notNull(),
+    firstSeenAt: timestamp('first_seen_at').notNull().defaultNow(),
+    lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    fingerprintIdx: uniqueIndex('findings_organization_project_fingerprint_idx').on(table.organizationId, table.project, table.fingerprint),
+    statusIdx: index('findings_status_idx').on(table.status),
+    assigneeIdx: index('findings_assignee_idx').on(table.assigneeId),
+  })
+)
+
+export const findingComments = pgTable(
+  'finding_comments',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    findingId: varchar('finding_id', { length: 32 }).notNull(), // findings.id
+    userId: varchar('user_id', { length: 32 }).notNull(),
+    body: text('body').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    findingIdx: index('finding_comments_finding_idx').on(table.findingId),
+  })
+)
+
+// Audit history of a finding
+export const findingEvents = pgTable(
+  'finding_events',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    findingId: varchar('finding_id', { length: 32 }).notNull(), // findings.id
+    userId: varchar('user_id', { length: 32 }), // null for changes made by scans
+    action: varchar('action', { length: 50 }).notNull(),
+    fromValue: varchar('from_value', { length: 255 }),
+    toValue: varchar('to_value', { length: 255 }),
+    metadata: jsonb('metadata').default({}),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    findingIdx: index('finding_events_finding_idx').on(table.findingId),
+  })
+)
+
+// Suppression rules carried forward into later scans until they expire
+export const findingSuppressions = pgTable(
+  'finding_suppressions',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }).notNull(), // organization id, or user:<id>
+    project: varchar('project', { length: 255 }), // null applies to every project
+    kind: varchar('kind', { length: 20 }).notNull(), // fingerprint, rule, component
+    pattern: varchar('pattern', { length: 500 }).notNull(),
+    justification: text('justification').notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdBy: varchar('created_by', { length: 32 }).notNull(),
+    revokedAt: timestamp('revoked_at'),
+    revokedBy: varchar('revoked_by', { length: 32 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    orgIdx: index('finding_suppressions_organization_idx').on(table.organizationId),
+    expiresAtIdx: index('finding_suppressions_expires_at_idx').on(table.expiresAt),
+  })
+)
+
+// File uploads table
+export const fileUploads = pgTable(
+  'file_uploads',
+  {
+    id: integer('id').primaryKey().generatedAlwaysAsIdentity(),
+    userId: integer('user_id').notNull(),
+    organizationId: integer('organization_id'),
+    fileName: varchar('file_name', { length: 255 }).notNull(),
+    originalName: varchar('original_name', { length: 255 }).notNull(),
+    fileType: varchar('file_type', { length: 50 }).notNull(),
+    fileSize: integer('file_size').notNull(),
+    filePath: text('file_path').notNull(),
+    dataType: varchar('data_type', { length: 50 }).notNull().default('security_log'),
+    uploadStatus: varchar('upload_status', { length: 50 }).notNull().default('pending'),
+    processedAt: timestamp('processed_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index('uploads_user_idx').on(table.userId),
+    statusIdx: index('uploads_status_idx').on(table.uploadStatus),
+    orgIdx: index('uploads_org_idx').on(table.organizationId),
+  })
+)
+
+// Compatibility rules table
+export const compatibilityRules = pgTable(
+  'compatibility_rules',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }), // null = global rule
+    name: varchar('name', { length: 255 }).notNull(),
+    description: text('description'),
+    category: varchar('category', { length: 50 }).notNull(),
+    severity: varchar('severity', { length: 20 }).notNull().default('medium'),
+    conditions: jsonb('conditions').notNull().default({}),
+    recommendations: text('recommendations'),
+    examples: jsonb('examples').notNull().default([]), // entries with the status the rule must produce
+    isActive: boolean('is_active').notNull().default(true),
+    version: integer('version').notNull().default(1),
+    usageCount: integer('usage_count').notNull().default(0),
+    lastUsedAt: timestamp('last_used_at'),
+    createdBy: varchar('created_by', { length: 32 }).notNull(),
+    updatedBy: varchar('updated_by', { length: 32 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    orgIdx: index('compatibility_rules_organization_idx').on(table.organizationId),
+    categoryIdx: index('compatibility_rules_category_idx').on(table.category),
+    severityIdx: index('compatibility_rules_severity_idx').on(table.severity),
+    isActiveIdx: index('compatibility_rules_is_active_idx').on(table.isActive),
+  })
+)
+
+// Compatibility rule versions table (one snapshot per change)
+export const compatibilityRuleVersions = pgTable(
+  'compatibility_rule_versions',
+  {
+    id: integer('id').primaryKey().generatedAlwaysAsIdentity(),
+    ruleId: varchar('rule_id', { length: 32 }).notNull(),
+    version: integer('version').notNull(),
+    changeType: varchar('change_type', { length: 20 }).notNull(), // created, updated, deleted
+    snapshot: jsonb('snapshot').notNull(),
+    changedBy: varchar('changed_by', { length: 32 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    ruleIdx: index('compatibility_rule_versions_rule_idx').on(table.ruleId),
+    ruleVersionIdx: uniqueIndex('compatibility_rule_versions_rule_version_idx').on(table.ruleId, table.version),
+  })
+)
+
+// Compatibility matrix: known-good and known-bad version ranges per (application, security tool) pair
+export const compatibilityMatrixEntries = pgTable(
+  'compatibility_matrix_entries',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }), // null = global entry
+    application: varchar('application', { length: 255 }).notNull(),
+    applicationRange: varchar('application_range', { length: 255 }).notNull().default('*'),
+    securityTool: varchar('security_tool', { length: 255 }).notNull(),
+    toolRange: varchar('tool_range', { length: 255 }).notNull().default('*'),
+    status: varchar('status', { length: 20 }).notNull(), // known_good, known_bad
+    severity: varchar('severity', { length: 20 }).notNull().default('medium'),
+    notes: text('notes'),
+    recommendations: text('recommendations'),
+    createdBy: varchar('created_by', { length: 32 }).notNull(),
+    updatedBy: varchar('updated_by', { length: 32 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    orgIdx: index('compatibility_matrix_organization_idx').on(table.organizationId),
+    pairIdx: index('compatibility_matrix_pair_idx').on(table.application, table.securityTool),
+  })
+)
+
+// Detection pattern library: regular expressions the analysis engine searches scanned entries for
+export const detectionPatterns = pgTable(
+  'detection_patterns',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }), // null = global pattern
+    name: varchar('name', { length: 100 }).notNull(), // snake_case, reported as feature pattern_<name>
+    description: text('description'),
+    category: varchar('category', { length: 20 }).notNull(), // security, compatibility
+    pattern: text('pattern').notNull(),
+    flags: varchar('flags', { length: 10 }).notNull().default('gi'),
+    isEnabled: boolean('is_enabled').notNull().default(true),
+    hitCount: integer('hit_count').notNull().default(0),
+    lastHitAt: timestamp('last_hit_at'),
+    createdBy: varchar('created_by', { length: 32 }),
+    updatedBy: varchar('updated_by', { length: 32 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    orgNameIdx: uniqueIndex('detection_patterns_organization_name_idx').on(table.organizationId, table.name),
+  })
+)
+
+// Versioned risk scoring profiles; each save adds a version and the newest one is active
+export const scoringProfiles = pgTable(
+  'scoring_profiles',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }), // null = global profile
+    version: integer('version').notNull(),
+    profile: jsonb('profile').notNull(), // weights, thresholds and multipliers
+    notes: text('notes'),
+    createdBy: varchar('created_by', { length: 32 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    orgVersionIdx: uniqueIndex('scoring_profiles_organization_version_idx').on(table.organizationId, table.version),
+  })
+)
+
+// Offline vulnerability database: advisories imported from OSV and NVD feed files
+export const vulnerabilityAdvisories = pgTable(
+  'vulnerability_advisories',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    advisoryId: varchar('advisory_id', { length: 100 }).notNull(), // GHSA-..., CVE-...
+    source: varchar('source', { length: 20 }).notNull(), // osv, nvd
+    aliases: jsonb('aliases').notNull().default([]),
+    summary: text('summary'),
+    details: text('details'),
+    severity: varchar('severity', { length: 20 }),
+    cvssScore: real('cvss_score'),
+    cvssVector: varchar('cvss_vector', { length: 255 }),
+    cweIds: jsonb('cwe_ids').notNull().default([]),
+    cveIds: jsonb('cve_ids').notNull().default([]),
+    references: jsonb('references').notNull().default([]),
+    publishedAt: timestamp('published_at'),
+    modifiedAt: timestamp('modified_at'),
+    withdrawnAt: timestamp('withdrawn_at'),
+    importedAt: timestamp('imported_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    sourceAdvisoryIdx: uniqueIndex('vulnerability_advisories_source_advisory_idx').on(table.source, table.advisoryId),
+  })
+)
+
+// Packages and version ranges an advisory affects, indexed for component lookups
+export const vulnerabilityAffectedPackages = pgTable(
+  'vulnerability_affected_packages',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    advisoryId: varchar('advisory_id', { length: 32 }).notNull(), // vulnerability_advisories.id
+    ecosystem: varchar('ecosystem', { length: 50 }).notNull(),
+    packageName: varchar('package_name', { length: 255 }).notNull(), // normalized
+    ranges: jsonb('ranges').notNull().default([]),
+    versions: jsonb('versions').notNull().default([]),
+  },
+  (table) => ({
+    packageIdx: index('vulnerability_affected_packages_package_idx').on(table.packageName, table.ecosystem),
+    advisoryIdx: index('vulnerability_affected_packages_advisory_idx').on(table.advisoryId),
+  })
+)
+
+// MITRE CWE catalog, used to name the weakness behind an advisory
+export const cweWeaknesses = pgTable('cwe_weaknesses', {
+  id: varchar('id', { length: 20 }).primaryKey(), // CWE-79
+  name: varchar('name', { length: 500 }).notNull(),
+  description: text('description'),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+})
+
 // Reports table
 export const reports = pgTable(
   'reports',
@@ -179,11 +542,17 @@ export const apiKeys = pgTable(
     organizationId: varchar('organization_id', { length: 32 }).notNull(),
     userId: varchar('user_id', { length: 32 }).notNull(),
     name: varchar('name', { length: 255 }).notNull(),
-    key: varchar('key', { length: 255 }).notNull().unique(),
+    key: varchar('key', { length: 255 }).notNull().unique(), // SHA-256 of the key
+    // Start and end of the key, enough to recognize it once it is hidden
+    keyPreview: varchar('key_preview', { length: 32 }),
     permissions: jsonb('permissions').default([]),
+    allowedIps: jsonb('allowed_ips').notNull().default([]), // IPs or CIDR ranges, empty allows any
     isActive: boolean('is_active').notNull().default(true),
     lastUsed: timestamp('last_used'),
+    lastUsedIp: varchar('last_used_ip', { length: 64 }),
     expiresAt: timestamp('expires_at'),
+    rotatedAt: timestamp('rotated_at'),
+    revokedAt: timestamp('revoked_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
@@ -195,6 +564,88 @@ export const apiKeys = pgTable(
   })
 )
 
+// Tokens host agents enroll and report with; stored as a SHA-256 hash like API keys
+export const agentEnrollmentTokens = pgTable(
+  'agent_enrollment_tokens',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }).notNull(), // organization id, or user:<id>
+    name: varchar('name', { length: 255 }).notNull(),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    tokenPreview: varchar('token_preview', { length: 32 }).notNull(),
+    createdBy: varchar('created_by', { length: 32 }).notNull(), // users.id; host scans run as this user
+    expiresAt: timestamp('expires_at'),
+    lastUsedAt: timestamp('last_used_at'),
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    orgIdx: index('agent_enrollment_tokens_organization_idx').on(table.organizationId),
+  })
+)
+
+// Hosts that report their inventory through the agent, one row per machine id
+export const assets = pgTable(
+  'assets',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    organizationId: varchar('organization_id', { length: 32 }).notNull(), // organization id, or user:<id>
+    enrollmentTokenId: varchar('enrollment_token_id', { length: 32 }).notNull(), // agent_enrollment_tokens.id
+    machineId: varchar('machine_id', { length: 64 }).notNull(),
+    hostname: varchar('hostname', { length: 255 }).notNull(),
+    osName: varchar('os_name', { length: 255 }), // PRETTY_NAME of /etc/os-release
+    osId: varchar('os_id', { length: 50 }),
+    osVersion: varchar('os_version', { length: 50 }),
+    kernel: varchar('kernel', { length: 255 }),
+    architecture: varchar('architecture', { length: 32 }),
+    agentVersion: varchar('agent_version', { length: 32 }),
+    publicKey: text('public_key').notNull(), // Ed25519 key the host's reports must be signed with
+    keyFingerprint: varchar('key_fingerprint', { length: 64 }).notNull(),
+    inventory: jsonb('inventory').notNull().default({}),
+    inventoryDigest: varchar('inventory_digest', { length: 64 }).notNull(),
+    packageCount: integer('package_count').notNull().default(0),
+    lastIp: varchar('last_ip', { length: 64 }),
+    lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+    lastReportAt: timestamp('last_report_at').notNull(), // signed timestamp of the last accepted report
+    inventoryChangedAt: timestamp('inventory_changed_at').notNull().defaultNow(),
+    lastScanId: varchar('last_scan_id', { length: 32 }), // scans.id
+    lastScannedAt: timestamp('last_scanned_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    machineIdx: uniqueIndex('assets_organization_machine_idx').on(table.organizationId, table.machineId),
+    lastSeenIdx: index('assets_last_seen_idx').on(table.lastSeenAt),
+  })
+)
+
+// TOTP multi-factor authentication, one row per enrolled or enrolling user
+export const userMfa = pgTable('user_mfa', {
+  userId: integer('user_id').primaryKey(), // references users.id
+  secret: text('secret'), // encrypted; set once enrollment is confirmed
+  pendingSecret: text('pending_secret'), // encrypted; awaiting a first valid code
+  enabledAt: timestamp('enabled_at'),
+  // Last accepted time step, so a code cannot be used twice
+  lastUsedStep: integer('last_used_step'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+})
+
+// Single-use MFA backup codes, stored hashed
+export const userMfaBackupCodes = pgTable(
+  'user_mfa_backup_codes',
+  {
+    id: varchar('id', { length: 32 }).primaryKey(),
+    userId: integer('user_id').notNull(), // references users.id
+    codeHash: text('code_hash').notNull(),
+    usedAt: timestamp('used_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index('user_mfa_backup_codes_user_idx').on(table.userId),
+  })
+)
+
 // Integrations table
 export const integrations = pgTable(
   'integrations',
@@ -316,7 +767,40 @@ export enum ActivityType {
   SCAN_CREATED = 'SCAN_CREATED',
   SCAN_COMPLETED = 'SCAN_COMPLETED',
   SCAN_FAILED = 'SCAN_FAILED',
+  SCAN_CANCELLED = 'SCAN_CANCELLED',
+  SCAN_BASELINE_PINNED = 'SCAN_BASELINE_PINNED',
+  SCAN_BASELINE_UNPINNED = 'SCAN_BASELINE_UNPINNED',
+  PROJECT_CREATED = 'PROJECT_CREATED',
+  PROJECT_UPDATED = 'PROJECT_UPDATED',
+  PROJECT_DELETED = 'PROJECT_DELETED',
+  SCHEDULE_CREATED = 'SCHEDULE_CREATED',
+  SCHEDULE_UPDATED = 'SCHEDULE_UPDATED',
+  SCHEDULE_DELETED = 'SCHEDULE_DELETED',
+  FINDING_UPDATED = 'FINDING_UPDATED',
+  FINDING_SUPPRESSION_CREATED = 'FINDING_SUPPRESSION_CREATED',
+  FINDING_SUPPRESSION_REVOKED = 'FINDING_SUPPRESSION_REVOKED',
   FILE_UPLOADED = 'FILE_UPLOADED',
+  RULE_CREATED = 'RULE_CREATED',
+  RULE_UPDATED = 'RULE_UPDATED',
+  RULE_DELETED = 'RULE_DELETED',
+  MATRIX_UPDATED = 'MATRIX_UPDATED',
+  MATRIX_IMPORTED = 'MATRIX_IMPORTED',
+  SCORING_PROFILE_UPDATED = 'SCORING_PROFILE_UPDATED',
+  PATTERN_CREATED = 'PATTERN_CREATED',
+  PATTERN_UPDATED = 'PATTERN_UPDATED',
+  PATTERN_DELETED = 'PATTERN_DELETED',
+  VULNERABILITY_FEED_IMPORTED = 'VULNERABILITY_FEED_IMPORTED',
+  API_KEY_CREATED = 'API_KEY_CREATED',
+  API_KEY_ROTATED = 'API_KEY_ROTATED',
+  API_KEY_REVOKED = 'API_KEY_REVOKED',
+  MFA_ENABLED = 'MFA_ENABLED',
+  MFA_DISABLED = 'MFA_DISABLED',
+  MFA_RESET = 'MFA_RESET',
+  MFA_POLICY_UPDATED = 'MFA_POLICY_UPDATED',
+  AGENT_TOKEN_CREATED = 'AGENT_TOKEN_CREATED',
+  AGENT_TOKEN_REVOKED = 'AGENT_TOKEN_REVOKED',
+  ASSET_ENROLLED = 'ASSET_ENROLLED',
+  ASSET_DELETED = 'ASSET_DELETED',
 }
 
 // Type exports for TypeScript
@@ -326,14 +810,56 @@ export type Organization = typeof organizations.$inferSelect
 export type NewOrganization = typeof organizations.$inferInsert
 export type Scan = typeof scans.$inferSelect
 export type NewScan = typeof scans.$inferInsert
+export type Project = typeof projects.$inferSelect
+export type NewProject = typeof projects.$inferInsert
+export type ScanSchedule = typeof scanSchedules.$inferSelect
+export type NewScanSchedule = typeof scanSchedules.$inferInsert
+export type ScanScheduleRun = typeof scanScheduleRuns.$inferSelect
+export type NewScanScheduleRun = typeof scanScheduleRuns.$inferInsert
+export type ScanBaseline = typeof scanBaselines.$inferSelect
+export type NewScanBaseline = typeof scanBaselines.$inferInsert
+export type Finding = typeof findings.$inferSelect
+export type NewFinding = typeof findings.$inferInsert
+export type FindingComment = typeof findingComments.$inferSelect
+export type NewFindingComment = typeof findingComments.$inferInsert
+export type FindingEvent = typeof findingEvents.$inferSelect
+export type NewFindingEvent = typeof findingEvents.$inferInsert
+export type FindingSuppression = typeof findingSuppressions.$inferSelect
+export type NewFindingSuppression = typeof findingSuppressions.$inferInsert
+export type FileUpload = typeof fileUploads.$inferSelect
+export type NewFileUpload = typeof fileUploads.$inferInsert
+export type CompatibilityRuleRecord = typeof compatibilityRules.$inferSelect
+export type NewCompatibilityRuleRecord = typeof compatibilityRules.$inferInsert
+export type CompatibilityRuleVersion = typeof compatibilityRuleVersions.$inferSelect
+export type NewCompatibilityRuleVersion = typeof compatibilityRuleVersions.$inferInsert
+export type CompatibilityMatrixEntry = typeof compatibilityMatrixEntries.$inferSelect
+export type NewCompatibilityMatrixEntry = typeof compatibilityMatrixEntries.$inferInsert
+export type DetectionPatternRecord = typeof detectionPatterns.$inferSelect
+export type NewDetectionPatternRecord = typeof detectionPatterns.$inferInsert
+export type ScoringProfileRecord = typeof scoringProfiles.$inferSelect
+export type NewScoringProfileRecord = typeof scoringProfiles.$inferInsert
+export type VulnerabilityAdvisoryRecord = typeof vulnerabilityAdvisories.$inferSelect
+export type NewVulnerabilityAdvisoryRecord = typeof vulnerabilityAdvisories.$inferInsert
+export type VulnerabilityAffectedPackage = typeof vulnerabilityAffectedPackages.$inferSelect
+export type NewVulnerabilityAffectedPackage = typeof vulnerabilityAffectedPackages.$inferInsert
+export type CweWeaknessRecord = typeof cweWeaknesses.$inferSelect
+export type NewCweWeaknessRecord = typeof cweWeaknesses.$inferInsert
 export type Report = typeof reports.$inferSelect
 export type NewReport = typeof reports.$inferInsert
 export type Notification = typeof notifications.$inferSelect
 export type NewNotification = typeof notifications.$inferInsert
 export type ActivityLog = typeof activityLogs.$inferSelect
 export type NewActivityLog = typeof activityLogs.$inferInsert
+export type UserMfa = typeof userMfa.$inferSelect
+export type NewUserMfa = typeof userMfa.$inferInsert
+export type UserMfaBackupCode = typeof userMfaBackupCodes.$inferSelect
+export type NewUserMfaBackupCode = typeof userMfaBackupCodes.$inferInsert
 export type ApiKey = typeof apiKeys.$inferSelect
 export type NewApiKey = typeof apiKeys.$inferInsert
+export type AgentEnrollmentToken = typeof agentEnrollmentTokens.$inferSelect
+export type NewAgentEnrollmentToken = typeof agentEnrollmentTokens.$inferInsert
+export type Asset = typeof assets.$inferSelect
+export type NewAsset = typeof assets.$inferInsert
 export type Integration = typeof integrations.$inferSelect
 export type NewIntegration = typeof integrations.$inferInsert
 export type Webhook = typeof webhooks.$inferSelect
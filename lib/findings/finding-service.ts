@@ -0,0 +1,518 @@
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import {
+  findings,
+  findingComments,
+  findingEvents,
+  findingSuppressions,
+  users,
+  Finding,
+  FindingComment,
+  FindingEvent,
+  FindingSuppression,
+  NewFindingEvent,
+} from '@/lib/db/schema';
+import { eq, and, or, desc, inArray, isNull, gt, count } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { AnalysisResult, ResultStatus } from '@/lib/compatibility/analysis-engine';
+import { fingerprintResult } from '@/lib/scans/scan-diff';
+import { ScanAccess, scanOwner } from '@/lib/scans/scan-access';
+import { findSuppression } from './suppressions';
+import {
+  FindingEventAction,
+  FindingStatus,
+  SuppressionKind,
+  SuppressionRule,
+  SUPPRESSING_STATUSES,
+} from './types';
+
+// Suppressions must be revisited at least once a year
+const MAX_SUPPRESSION_DAYS = 365;
+
+// Findings are written in chunks to keep transactions short on large scans
+const WRITE_CHUNK_SIZE = 500;
+
+export const FindingUpdateSchema = z.object({
+  status: z.nativeEnum(FindingStatus).optional(),
+  assigneeId: z.string().trim().min(1).max(32).nullable().optional(),
+  comment: z.string().trim().min(1).max(5000).optional(),
+}).refine(
+  update => update.status !== undefined || update.assigneeId !== undefined || update.comment !== undefined,
+  { message: 'Nothing to update' }
+);
+
+export const FindingCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+export const SuppressionInputSchema = z.object({
+  kind: z.nativeEnum(SuppressionKind),
+  pattern: z.string().trim().min(1).max(500),
+  project: z.string().trim().min(1).max(255).nullable().optional(),
+  justification: z.string().trim().min(1).max(2000),
+  expiresAt: z.coerce.date(),
+}).superRefine((input, ctx) => {
+  if (input.kind === SuppressionKind.FINGERPRINT && !/^[0-9a-f]{64}$/i.test(input.pattern)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'Fingerprint must be 64 hex characters' });
+  }
+});
+
+export type FindingUpdate = z.infer<typeof FindingUpdateSchema>;
+export type SuppressionInput = z.infer<typeof SuppressionInputSchema>;
+
+export interface FindingListFilters {
+  project?: string;
+  status?: FindingStatus;
+  // Any of these statuses; combined with `status` when both are given
+  statuses?: FindingStatus[];
+  assigneeId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FindingDetail {
+  finding: Finding;
+  comments: FindingComment[];
+  events: FindingEvent[];
+}
+
+export interface ScanTriageSummary {
+  // Results annotated with their fingerprint and, when suppressed, why
+  results: AnalysisResult[];
+  created: number;
+  reopened: number;
+  suppressed: number;
+}
+
+// Finding service error types
+export class FindingServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'FindingServiceError';
+  }
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+function toSuppressionRule(row: FindingSuppression): SuppressionRule {
+  return {
+    id: row.id,
+    kind: row.kind as SuppressionKind,
+    pattern: row.pattern,
+    project: row.project,
+    justification: row.justification,
+    expiresAt: row.expiresAt,
+    revokedAt: row.revokedAt,
+  };
+}
+
+export class FindingService {
+
+  // List the owner's findings, most recently seen first
+  async listFindings(
+    access: ScanAccess,
+    filters: FindingListFilters = {}
+  ): Promise<{ findings: Finding[]; total: number }> {
+    const conditions = [eq(findings.organizationId, scanOwner(access))];
+
+    if (filters.project) {
+      conditions.push(eq(findings.project, filters.project));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(findings.status, filters.status));
+    }
+
+    if (filters.statuses) {
+      conditions.push(inArray(findings.status, filters.statuses));
+    }
+
+    if (filters.assigneeId) {
+      conditions.push(eq(findings.assigneeId, filters.assigneeId));
+    }
+
+    const whereClause = and(...conditions);
+
+    const rows = await db
+      .select()
+      .from(findings)
+      .where(whereClause)
+      .orderBy(desc(findings.lastSeenAt))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    const [totalRow] = await db
+      .select({ count: count() })
+      .from(findings)
+      .where(whereClause);
+
+    return { findings: rows, total: totalRow?.count ?? 0 };
+  }
+
+  async getFinding(access: ScanAccess, findingId: string): Promise<Finding> {
+    const [finding] = await db
+      .select()
+      .from(findings)
+      .where(and(eq(findings.id, findingId), eq(findings.organizationId, scanOwner(access))))
+      .limit(1);
+
+    if (!finding) {
+      throw new FindingServiceError('Finding not found', 'FINDING_NOT_FOUND', 404);
+    }
+    return finding;
+  }
+
+  // A finding with its comment thread and audit history
+  async getFindingDetail(access: ScanAccess, findingId: string): Promise<FindingDetail> {
+    const finding = await this.getFinding(access, findingId);
+
+    const comments = await db
+      .select()
+      .from(findingComments)
+      .where(eq(findingComments.findingId, finding.id))
+      .orderBy(findingComments.createdAt);
+
+    const events = await db
+      .select()
+      .from(findingEvents)
+      .where(eq(findingEvents.findingId, finding.id))
+      .orderBy(desc(findingEvents.createdAt));
+
+    return { finding, comments, events };
+  }
+
+  /**
+   * Change a finding's workflow state or assignee. Marking a finding a false
+   * positive or an accepted risk requires a comment explaining why.
+   */
+  async updateFinding(
+    access: ScanAccess,
+    findingId: string,
+    update: FindingUpdate
+  ): Promise<{ finding: Finding; changes: string[]; comment: FindingComment | null }> {
+    const finding = await this.getFinding(access, findingId);
+    const statusChanged = update.status !== undefined && update.status !== finding.status;
+    const assigneeChanged = update.assigneeId !== undefined && update.assigneeId !== finding.assigneeId;
+
+    if (statusChanged && SUPPRESSING_STATUSES.includes(update.status!) && !update.comment) {
+      throw new FindingServiceError(
+        `A comment is required to mark a finding as ${update.status}`,
+        'JUSTIFICATION_REQUIRED'
+      );
+    }
+
+    if (assigneeChanged && update.assigneeId) {
+      await this.assertAssignable(access, update.assigneeId);
+    }
+
+    const changes: string[] = [];
+    let comment: FindingComment | null = null;
+    const updated = await db.transaction(async (tx) => {
+      const events: NewFindingEvent[] = [];
+
+      if (statusChanged) {
+        changes.push('status');
+        events.push({
+          id: generateId(16),
+          findingId: finding.id,
+          userId: access.userId,
+          action: FindingEventAction.STATUS_CHANGED,
+          fromValue: finding.status,
+          toValue: update.status!,
+        });
+      }
+
+      if (assigneeChanged) {
+        changes.push('assignee');
+        events.push({
+          id: generateId(16),
+          findingId: finding.id,
+          userId: access.userId,
+          action: FindingEventAction.ASSIGNED,
+          fromValue: finding.assigneeId,
+          toValue: update.assigneeId ?? null,
+        });
+      }
+
+      if (update.comment) {
+        changes.push('comment');
+        const [inserted] = await tx
+          .insert(findingComments)
+          .values({
+            id: generateId(16),
+            findingId: finding.id,
+            userId: access.userId,
+            body: update.comment,
+          })
+          .returning();
+        comment = inserted!;
+        events.push({
+          id: generateId(16),
+          findingId: finding.id,
+          userId: access.userId,
+          action: FindingEventAction.COMMENTED,
+          metadata: { commentId: inserted!.id },
+        });
+      }
+
+      if (events.length > 0) {
+        await tx.insert(findingEvents).values(events);
+      }
+
+      if (!statusChanged && !assigneeChanged) return finding;
+
+      const [row] = await tx
+        .update(findings)
+        .set({
+          ...(statusChanged ? { status: update.status! } : {}),
+          ...(assigneeChanged ? { assigneeId: update.assigneeId ?? null } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(findings.id, finding.id))
+        .returning();
+      return row!;
+    });
+
+    return { finding: updated, changes, comment };
+  }
+
+  async addComment(access: ScanAccess, findingId: string, body: string): Promise<FindingComment> {
+    const { comment } = await this.updateFinding(access, findingId, { comment: body });
+    return comment!;
+  }
+
+  // Findings can be assigned to active members of the owner's organization, or to oneself without one
+  private async assertAssignable(access: ScanAccess, assigneeId: string): Promise<void> {
+    const userId = Number(assigneeId);
+    const [assignee] = Number.isInteger(userId)
+      ? await db
+          .select({ id: users.id, organizationId: users.organizationId })
+          .from(users)
+          .where(and(eq(users.id, userId), eq(users.isActive, true), isNull(users.deletedAt)))
+          .limit(1)
+      : [];
+
+    const assignable = assignee && (access.organizationId
+      ? assignee.organizationId?.toString() === access.organizationId
+      : assignee.id.toString() === access.userId);
+
+    if (!assignable) {
+      throw new FindingServiceError(`User ${assigneeId} cannot be assigned this finding`, 'INVALID_ASSIGNEE');
+    }
+  }
+
+  // Suppression rules of the owner, optionally including expired and revoked ones
+  async listSuppressions(
+    access: ScanAccess,
+    options: { project?: string; includeInactive?: boolean } = {}
+  ): Promise<FindingSuppression[]> {
+    const conditions = [eq(findingSuppressions.organizationId, scanOwner(access))];
+
+    if (options.project) {
+      conditions.push(or(eq(findingSuppressions.project, options.project), isNull(findingSuppressions.project))!);
+    }
+
+    if (!options.includeInactive) {
+      conditions.push(isNull(findingSuppressions.revokedAt), gt(findingSuppressions.expiresAt, new Date()));
+    }
+
+    return db
+      .select()
+      .from(findingSuppressions)
+      .where(and(...conditions))
+      .orderBy(desc(findingSuppressions.createdAt));
+  }
+
+  async createSuppression(access: ScanAccess, input: SuppressionInput): Promise<FindingSuppression> {
+    const now = Date.now();
+    if (input.expiresAt.getTime() <= now) {
+      throw new FindingServiceError('Suppression expiry must be in the future', 'INVALID_EXPIRY');
+    }
+    if (input.expiresAt.getTime() > now + MAX_SUPPRESSION_DAYS * 24 * 60 * 60 * 1000) {
+      throw new FindingServiceError(
+        `Suppressions can expire at most ${MAX_SUPPRESSION_DAYS} days from now`,
+        'INVALID_EXPIRY'
+      );
+    }
+
+    const [suppression] = await db
+      .insert(findingSuppressions)
+      .values({
+        id: generateId(16),
+        organizationId: scanOwner(access),
+        project: input.project ?? null,
+        kind: input.kind,
+        pattern: input.kind === SuppressionKind.FINGERPRINT ? input.pattern.toLowerCase() : input.pattern,
+        justification: input.justification,
+        expiresAt: input.expiresAt,
+        createdBy: access.userId,
+      })
+      .returning();
+
+    return suppression!;
+  }
+
+  async revokeSuppression(access: ScanAccess, suppressionId: string): Promise<FindingSuppression> {
+    const [revoked] = await db
+      .update(findingSuppressions)
+      .set({ revokedAt: new Date(), revokedBy: access.userId })
+      .where(and(
+        eq(findingSuppressions.id, suppressionId),
+        eq(findingSuppressions.organizationId, scanOwner(access)),
+        isNull(findingSuppressions.revokedAt)
+      ))
+      .returning();
+
+    if (!revoked) {
+      throw new FindingServiceError('Suppression not found or already revoked', 'SUPPRESSION_NOT_FOUND', 404);
+    }
+    return revoked;
+  }
+
+  /**
+   * Record a scan's results as findings of its project and apply suppressions.
+   * New findings open, fixed findings that show up again reopen, and results
+   * matching an active suppression rule, or whose finding was triaged as a
+   * false positive or accepted risk, are marked suppressed.
+   */
+  async triageScanResults(
+    access: ScanAccess,
+    scanId: string,
+    project: string,
+    results: AnalysisResult[],
+    now: Date = new Date()
+  ): Promise<ScanTriageSummary> {
+    const owner = scanOwner(access);
+    const rules = (await this.listSuppressions(access, { project })).map(toSuppressionRule);
+
+    // Passed checks are not findings
+    const latest = new Map<string, AnalysisResult>();
+    const fingerprints = results.map(result => {
+      const fingerprint = fingerprintResult(result);
+      if (result.status !== ResultStatus.PASSED) latest.set(fingerprint, result);
+      return fingerprint;
+    });
+
+    const existing = new Map<string, Finding>();
+    for (const chunk of chunks(Array.from(latest.keys()), WRITE_CHUNK_SIZE)) {
+      const rows = await db
+        .select()
+        .from(findings)
+        .where(and(
+          eq(findings.organizationId, owner),
+          eq(findings.project, project),
+          inArray(findings.fingerprint, chunk)
+        ));
+      rows.forEach(row => existing.set(row.fingerprint, row));
+    }
+
+    let suppressed = 0;
+    const annotated = results.map((result, index) => {
+      const fingerprint = fingerprints[index]!;
+      if (result.status === ResultStatus.PASSED) return { ...result, fingerprint };
+
+      const finding = existing.get(fingerprint);
+      const suppression = findSuppression(result, fingerprint, rules, project, now)
+        ?? (finding && SUPPRESSING_STATUSES.includes(finding.status as FindingStatus)
+          ? {
+              reason: 'triage' as const,
+              justification: `Finding triaged as ${finding.status}`,
+              findingStatus: finding.status,
+            }
+          : null);
+
+      if (!suppression) return { ...result, fingerprint };
+      suppressed += 1;
+      return { ...result, fingerprint, suppression };
+    });
+
+    let created = 0;
+    let reopened = 0;
+    for (const chunk of chunks(Array.from(latest.entries()), WRITE_CHUNK_SIZE)) {
+      await db.transaction(async (tx) => {
+        const events: NewFindingEvent[] = [];
+
+        for (const [fingerprint, result] of chunk) {
+          const finding = existing.get(fingerprint);
+          const seen = {
+            severity: result.severity,
+            message: result.message,
+            affectedComponents: result.affectedComponents,
+            lastSeenScanId: scanId,
+            lastSeenAt: now,
+          };
+
+          if (!finding) {
+            const id = generateId(16);
+            const [inserted] = await tx
+              .insert(findings)
+              .values({
+                id,
+                organizationId: owner,
+                project,
+                fingerprint,
+                ruleId: String(result.ruleId),
+                ...seen,
+                firstSeenScanId: scanId,
+                firstSeenAt: now,
+              })
+              .onConflictDoNothing()
+              .returning({ id: findings.id });
+
+            // A concurrent scan of the project recorded it first
+            if (!inserted) continue;
+            created += 1;
+            events.push({
+              id: generateId(16),
+              findingId: id,
+              action: FindingEventAction.DETECTED,
+              toValue: FindingStatus.OPEN,
+              metadata: { scanId },
+            });
+            continue;
+          }
+
+          const reopen = finding.status === FindingStatus.FIXED;
+          await tx
+            .update(findings)
+            .set({
+              ...seen,
+              ...(reopen ? { status: FindingStatus.OPEN } : {}),
+              updatedAt: now,
+            })
+            .where(eq(findings.id, finding.id));
+
+          if (reopen) {
+            reopened += 1;
+            events.push({
+              id: generateId(16),
+              findingId: finding.id,
+              action: FindingEventAction.REOPENED,
+              fromValue: FindingStatus.FIXED,
+              toValue: FindingStatus.OPEN,
+              metadata: { scanId },
+            });
+          }
+        }
+
+        if (events.length > 0) {
+          await tx.insert(findingEvents).values(events);
+        }
+      });
+    }
+
+    return { results: annotated, created, reopened, suppressed };
+  }
+}
+
+export const findingService = new FindingService();
@@ -0,0 +1,94 @@
+import type { AnalysisResult, ResultSuppression } from '@/lib/compatibility/analysis-engine';
+import { SuppressionKind, SuppressionRule } from './types';
+
+/**
+ * Match a glob where `*` matches any run of characters and `?` a single one.
+ * Matching is case-insensitive and covers the whole string. Patterns are
+ * user input, so this walks both strings once and backtracks only to the
+ * last `*` instead of compiling them into a backtracking regex.
+ */
+export function globMatches(glob: string, text: string): boolean {
+  const pattern = glob.trim().toLowerCase();
+  const value = text.toLowerCase();
+
+  let p = 0;
+  let t = 0;
+  // Position after the last `*` seen, and the text position it was tried at
+  let star = -1;
+  let starText = 0;
+
+  while (t < value.length) {
+    if (p < pattern.length && (pattern[p] === '?' || (pattern[p] !== '*' && pattern[p] === value[t]))) {
+      p++;
+      t++;
+    } else if (p < pattern.length && pattern[p] === '*') {
+      star = ++p;
+      starText = t;
+    } else if (star !== -1) {
+      // Let the last `*` absorb one more character
+      p = star;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+
+  while (pattern[p] === '*') p++;
+  return p === pattern.length;
+}
+
+// A component glob matches the full component or its value: "lodash@*" and "Package: lodash@*" both match
+function componentCandidates(component: string): string[] {
+  const trimmed = component.trim();
+  const separator = trimmed.indexOf(': ');
+  return separator > 0 ? [trimmed, trimmed.slice(separator + 2)] : [trimmed];
+}
+
+export function isSuppressionActive(rule: SuppressionRule, now: Date = new Date()): boolean {
+  return !rule.revokedAt && rule.expiresAt.getTime() > now.getTime();
+}
+
+export function suppressionMatches(
+  rule: SuppressionRule,
+  result: Pick<AnalysisResult, 'ruleId' | 'affectedComponents'>,
+  fingerprint: string
+): boolean {
+  switch (rule.kind) {
+    case SuppressionKind.FINGERPRINT:
+      return rule.pattern.trim().toLowerCase() === fingerprint;
+    case SuppressionKind.RULE:
+      return globMatches(rule.pattern, String(result.ruleId));
+    case SuppressionKind.COMPONENT:
+      return (result.affectedComponents ?? [])
+        .some(component => componentCandidates(component).some(candidate => globMatches(rule.pattern, candidate)));
+    default:
+      return false;
+  }
+}
+
+/**
+ * The first active suppression rule that matches a result, as stored with
+ * the result. Rules scoped to another project never match.
+ */
+export function findSuppression(
+  result: Pick<AnalysisResult, 'ruleId' | 'affectedComponents'>,
+  fingerprint: string,
+  rules: SuppressionRule[],
+  project: string,
+  now: Date = new Date()
+): ResultSuppression | null {
+  const rule = rules.find(rule =>
+    (rule.project === null || rule.project === project) &&
+    isSuppressionActive(rule, now) &&
+    suppressionMatches(rule, result, fingerprint)
+  );
+
+  return rule
+    ? {
+        reason: 'suppression_rule',
+        justification: rule.justification,
+        suppressionId: rule.id,
+        expiresAt: rule.expiresAt.toISOString(),
+      }
+    : null;
+}
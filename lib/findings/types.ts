@@ -0,0 +1,41 @@
+// Workflow states of a finding
+export enum FindingStatus {
+  OPEN = 'open',
+  ACKNOWLEDGED = 'acknowledged',
+  FALSE_POSITIVE = 'false_positive',
+  ACCEPTED_RISK = 'accepted_risk',
+  FIXED = 'fixed',
+}
+
+// Findings triaged into these states are suppressed in later scans
+export const SUPPRESSING_STATUSES: readonly FindingStatus[] = [
+  FindingStatus.FALSE_POSITIVE,
+  FindingStatus.ACCEPTED_RISK,
+];
+
+// What a suppression rule matches: one finding, a rule id glob, or an affected component glob
+export enum SuppressionKind {
+  FINGERPRINT = 'fingerprint',
+  RULE = 'rule',
+  COMPONENT = 'component',
+}
+
+// Audit history entries of a finding
+export enum FindingEventAction {
+  DETECTED = 'detected',
+  REOPENED = 'reopened',
+  STATUS_CHANGED = 'status_changed',
+  ASSIGNED = 'assigned',
+  COMMENTED = 'commented',
+}
+
+export interface SuppressionRule {
+  id: string;
+  kind: SuppressionKind;
+  pattern: string;
+  // Null applies the rule to every project of the owner
+  project: string | null;
+  justification: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
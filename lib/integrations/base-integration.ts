@@ -57,7 +57,7 @@ export abstract class BaseIntegration {
    * Make HTTP request to the external API
    */
   protected async makeRequest(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
     url: string,
     data?: any,
     headers: Record<string, string> = {}
@@ -74,7 +74,7 @@ export abstract class BaseIntegration {
       headers: requestHeaders,
     };
 
-    if (data && (method === 'POST' || method === 'PUT')) {
+    if (data && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
       requestOptions.body = JSON.stringify(data);
     }
 
@@ -1,6 +1,18 @@
 import { BaseIntegration } from '../base-integration';
 import { SyncResult, WebhookPayload, RepositoryEvent } from '../types';
 import { NotificationEvents } from '@/lib/notifications/events';
+import {
+  CheckRunAnnotation,
+  CHECK_RUN_ANNOTATION_BATCH,
+  SarifLog,
+  sarifToCheckRunAnnotations,
+} from '@/lib/reports/sarif-export';
+
+export interface CheckRunOutput {
+  title: string;
+  summary: string;
+  annotations?: CheckRunAnnotation[];
+}
 
 export class GitHubIntegration extends BaseIntegration {
   private readonly baseUrl: string;
@@ -343,15 +355,30 @@ export class GitHubIntegration extends BaseIntegration {
     headSha: string,
     name: string,
     status: 'queued' | 'in_progress' | 'completed',
-    conclusion?: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out'
+    conclusion?: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out',
+    output?: CheckRunOutput
   ): Promise<any> {
     try {
+      // GitHub caps annotations per request; the rest are appended by updating the run
+      const annotations = output?.annotations ?? [];
+      const batches: CheckRunAnnotation[][] = [];
+      for (let offset = 0; offset < annotations.length; offset += CHECK_RUN_ANNOTATION_BATCH) {
+        batches.push(annotations.slice(offset, offset + CHECK_RUN_ANNOTATION_BATCH));
+      }
+
       const checkRun = {
         name,
         head_sha: headSha,
         status,
         ...(conclusion && { conclusion }),
         started_at: new Date().toISOString(),
+        ...(output && {
+          output: {
+            title: output.title,
+            summary: output.summary,
+            annotations: batches[0] ?? [],
+          },
+        }),
       };
 
       const response = await this.makeRequest(
@@ -361,10 +388,20 @@ export class GitHubIntegration extends BaseIntegration {
         { 'Accept': 'application/vnd.github.antiope-preview+json' }
       );
 
+      for (const batch of batches.slice(1)) {
+        await this.makeRequest(
+          'PATCH',
+          `${this.baseUrl}/repos/${repoName}/check-runs/${response.id}`,
+          { output: { title: output!.title, summary: output!.summary, annotations: batch } },
+          { 'Accept': 'application/vnd.github.antiope-preview+json' }
+        );
+      }
+
       await this.logActivity('check_run_created', 'success', {
         repository: repoName,
         checkRunId: response.id,
         status,
+        annotations: annotations.length,
       });
 
       return response;
@@ -376,4 +413,36 @@ export class GitHubIntegration extends BaseIntegration {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Report a SARIF log as a completed check run with one annotation per located finding
+   */
+  async createCheckRunFromSarif(
+    repoName: string,
+    headSha: string,
+    name: string,
+    log: SarifLog
+  ): Promise<any> {
+    const results = log.runs
+      .flatMap(run => run.results)
+      .filter(result => result.kind !== 'pass' && !result.suppressions?.length);
+    const errors = results.filter(result => result.level === 'error').length;
+    const warnings = results.filter(result => result.level === 'warning').length;
+    const annotations = sarifToCheckRunAnnotations(log);
+
+    return this.createCheckRun(
+      repoName,
+      headSha,
+      name,
+      'completed',
+      errors > 0 ? 'failure' : warnings > 0 ? 'neutral' : 'success',
+      {
+        title: `${results.length} finding${results.length === 1 ? '' : 's'}`,
+        summary:
+          `${errors} error(s), ${warnings} warning(s) and ${results.length - errors - warnings} note(s). ` +
+          `${annotations.length} finding(s) are annotated inline; the rest have no file location.`,
+        annotations,
+      }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseIntegration } from '../base-integration';
 import { SyncResult, WebhookPayload, SecurityScannerResult, VulnerabilityImport } from '../types';
+import type { SecurityLogEntry } from '@/lib/upload/file-handler';
 
 export class SnykIntegration extends BaseIntegration {
   private readonly baseUrl: string;
@@ -29,6 +30,8 @@ export class SnykIntegration extends BaseIntegration {
     let itemsCreated = 0;
     let itemsUpdated = 0;
     const errors: string[] = [];
+    // Open vulnerabilities, scanned by schedules that pull from this integration
+    const logEntries: SecurityLogEntry[] = [];
 
     try {
       // Get all projects in the organization
@@ -41,6 +44,9 @@ export class SnykIntegration extends BaseIntegration {
           
           for (const vuln of vulnerabilities) {
             const imported = await this.importVulnerability(project, vuln);
+            if (!vuln.isFixed) {
+              logEntries.push(this.toLogEntry(project, vuln));
+            }
             if (imported.isNew) {
               itemsCreated++;
             } else {
@@ -69,6 +75,9 @@ export class SnykIntegration extends BaseIntegration {
         itemsSkipped: 0,
         errors,
         lastSyncAt: syncStart,
+        scanInputs: logEntries.length > 0
+          ? [{ name: 'snyk-vulnerabilities.json', dataType: 'security_log', entries: logEntries }]
+          : [],
       };
 
     } catch (error) {
@@ -197,6 +206,26 @@ export class SnykIntegration extends BaseIntegration {
     return { isNew, vulnerabilityId };
   }
 
+  // A vulnerability as a security log entry, so rules and patterns can check it
+  private toLogEntry(project: any, vulnerability: any): SecurityLogEntry {
+    return {
+      timestamp: new Date(vulnerability.modificationTime ?? vulnerability.creationTime ?? Date.now()).toISOString(),
+      tool: 'Snyk',
+      severity: this.mapSeverity(vulnerability.severity),
+      category: vulnerability.type || 'Unknown',
+      message: vulnerability.title,
+      details: {
+        project: project.name,
+        vulnerabilityId: vulnerability.id,
+        package: vulnerability.packageName,
+        version: vulnerability.version,
+        cveId: vulnerability.identifiers?.CVE?.[0],
+        cweId: vulnerability.identifiers?.CWE?.[0],
+        cvssScore: vulnerability.cvssScore,
+      },
+    };
+  }
+
   private mapSeverity(snykSeverity: string): 'critical' | 'high' | 'medium' | 'low' {
     switch (snykSeverity.toLowerCase()) {
       case 'critical':
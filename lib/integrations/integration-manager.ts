@@ -6,6 +6,7 @@ import { getProvider } from './providers';
 import { GitHubIntegration } from './implementations/github-integration';
 import { SnykIntegration } from './implementations/snyk-integration';
 import { JiraIntegration } from './implementations/jira-integration';
+import { VulnerabilityFeedIntegration } from './implementations/vulnerability-feed-integration';
 
 export class IntegrationManager {
   private static instance: IntegrationManager;
@@ -42,6 +43,12 @@ export class IntegrationManager {
       case 'jira':
         integrationInstance = new JiraIntegration(integration);
         break;
+
+      case 'nvd':
+      case 'osv':
+      case 'mitre_cwe':
+        integrationInstance = new VulnerabilityFeedIntegration(integration);
+        break;
         
       // Add more integrations here
       default:
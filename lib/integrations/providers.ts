@@ -21,7 +21,7 @@ export const INTEGRATION_PROVIDERS: Record<string, IntegrationProvider> = {
         baseUrl: { type: 'string', default: 'https://api.snyk.io' },
       },
     },
-    supportedFeatures: ['vulnerability_import', 'automated_scanning', 'webhooks'],
+    supportedFeatures: ['vulnerability_import', 'automated_scanning', 'webhooks', 'scan_input'],
     requiresAuth: true,
     authType: 'api_key',
   },
@@ -179,17 +179,34 @@ export const INTEGRATION_PROVIDERS: Record<string, IntegrationProvider> = {
     id: 'nvd',
     name: 'National Vulnerability Database',
     type: 'vulnerability_database',
-    description: 'NIST vulnerability database',
+    description: 'NIST vulnerability database, imported from NVD JSON feed files',
     logoUrl: '/integrations/nvd-logo.png',
-    documentationUrl: 'https://nvd.nist.gov/developers',
+    documentationUrl: 'https://nvd.nist.gov/vuln/data-feeds',
     configSchema: {
       type: 'object',
       properties: {
-        apiKey: { type: 'string', description: 'NVD API Key (optional for higher rate limits)' },
-        baseUrl: { type: 'string', default: 'https://services.nvd.nist.gov/rest/json' },
+        feedPath: { type: 'string', description: 'Directory of NVD JSON 2.0 or 1.1 feed files', default: './data/vulnerability-feeds' },
       },
     },
-    supportedFeatures: ['cve_lookup', 'vulnerability_enrichment', 'severity_scoring'],
+    supportedFeatures: ['cve_lookup', 'vulnerability_enrichment', 'severity_scoring', 'offline_feeds'],
+    requiresAuth: false,
+    authType: 'api_key',
+  },
+
+  osv: {
+    id: 'osv',
+    name: 'OSV',
+    type: 'vulnerability_database',
+    description: 'Open Source Vulnerabilities advisories for package ecosystems, imported from OSV export files',
+    logoUrl: '/integrations/osv-logo.png',
+    documentationUrl: 'https://google.github.io/osv.dev/data/',
+    configSchema: {
+      type: 'object',
+      properties: {
+        feedPath: { type: 'string', description: 'Directory of extracted OSV JSON records', default: './data/vulnerability-feeds' },
+      },
+    },
+    supportedFeatures: ['package_matching', 'vulnerability_enrichment', 'severity_scoring', 'offline_feeds'],
     requiresAuth: false,
     authType: 'api_key',
   },
@@ -198,16 +215,16 @@ export const INTEGRATION_PROVIDERS: Record<string, IntegrationProvider> = {
     id: 'mitre_cwe',
     name: 'MITRE CWE',
     type: 'vulnerability_database',
-    description: 'Common Weakness Enumeration database',
+    description: 'Common Weakness Enumeration database, imported from the CWE catalog file',
     logoUrl: '/integrations/mitre-logo.png',
-    documentationUrl: 'https://cwe.mitre.org/',
+    documentationUrl: 'https://cwe.mitre.org/data/downloads.html',
     configSchema: {
       type: 'object',
       properties: {
-        baseUrl: { type: 'string', default: 'https://cwe.mitre.org/data/xml' },
+        feedPath: { type: 'string', description: 'Directory containing the CWE catalog as XML or CSV', default: './data/vulnerability-feeds' },
       },
     },
-    supportedFeatures: ['weakness_classification', 'taxonomy_mapping', 'remediation_guidance'],
+    supportedFeatures: ['weakness_classification', 'taxonomy_mapping', 'offline_feeds'],
     requiresAuth: false,
     authType: 'api_key',
   },
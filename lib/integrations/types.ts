@@ -1,3 +1,5 @@
+import type { UploadDataType } from '@/lib/upload/file-handler';
+
 export interface Integration {
   id: string;
   name: string;
@@ -33,6 +35,8 @@ export interface IntegrationConfig {
   repositoryId?: string;
   username?: string;
   token?: string;
+  // Directory of feed files for offline vulnerability databases
+  feedPath?: string;
   
   // Sync and workflow settings
   syncInterval?: number; // minutes
@@ -69,6 +73,15 @@ export interface SyncResult {
   itemsSkipped: number;
   errors: string[];
   lastSyncAt: Date;
+  // What the pull produced for scheduled scans, from providers with the scan_input feature
+  scanInputs?: SyncScanInput[];
+}
+
+// Entries of one data type pulled by a sync, stored as an upload before they are scanned
+export interface SyncScanInput {
+  name: string;
+  dataType: UploadDataType;
+  entries: unknown[];
 }
 
 export interface WebhookPayload {
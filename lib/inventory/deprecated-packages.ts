@@ -0,0 +1,61 @@
+import { Ecosystem } from './types';
+
+export interface DeprecatedPackage {
+  reason: string;
+  replacement?: string;
+  // Only these versions are deprecated (npm semver range); all versions when omitted
+  versions?: string;
+}
+
+// Curated offline list of packages that are deprecated, archived or end-of-life.
+// Names use each ecosystem's canonical form (PEP 503 for PyPI, groupId:artifactId for Maven).
+export const DEPRECATED_PACKAGES: Record<Ecosystem, Record<string, DeprecatedPackage>> = {
+  npm: {
+    'request': { reason: 'Deprecated by its maintainers in 2020', replacement: 'the built-in fetch, undici or axios' },
+    'request-promise': { reason: 'Deprecated along with request', replacement: 'the built-in fetch, undici or axios' },
+    'node-sass': { reason: 'LibSass and node-sass are end-of-life', replacement: 'sass' },
+    'tslint': { reason: 'Deprecated in favour of ESLint', replacement: 'eslint with typescript-eslint' },
+    'babel-eslint': { reason: 'Renamed and no longer maintained', replacement: '@babel/eslint-parser' },
+    '@babel/polyfill': { reason: 'Deprecated since Babel 7.4', replacement: 'core-js/stable' },
+    'core-js': { reason: 'core-js 2 is no longer maintained', replacement: 'core-js@3', versions: '<3.0.0' },
+    'node-uuid': { reason: 'Renamed and no longer maintained', replacement: 'uuid' },
+    'gulp-util': { reason: 'Deprecated by the gulp team', replacement: 'the individual modules it re-exported' },
+    'jade': { reason: 'Renamed and no longer maintained', replacement: 'pug' },
+    'coffee-script': { reason: 'Renamed and no longer maintained', replacement: 'coffeescript' },
+    'istanbul': { reason: 'No longer maintained', replacement: 'nyc or c8' },
+    'moment': { reason: 'In maintenance mode; its authors discourage new use', replacement: 'date-fns, Luxon or Day.js' },
+  },
+  pypi: {
+    'nose': { reason: 'Unmaintained and broken on Python 3.10+', replacement: 'pytest' },
+    'pycrypto': { reason: 'Unmaintained with known vulnerabilities', replacement: 'pycryptodome' },
+    'distribute': { reason: 'Merged back into setuptools', replacement: 'setuptools' },
+    'sklearn': { reason: 'Deprecated alias that refuses to install', replacement: 'scikit-learn' },
+    'beautifulsoup': { reason: 'BeautifulSoup 3 is Python 2 only', replacement: 'beautifulsoup4' },
+    'msgpack-python': { reason: 'Renamed', replacement: 'msgpack' },
+    'tensorflow-gpu': { reason: 'GPU support ships in the main package', replacement: 'tensorflow' },
+  },
+  maven: {
+    'log4j:log4j': { reason: 'Log4j 1.x is end-of-life with unpatched vulnerabilities', replacement: 'org.apache.logging.log4j:log4j-core' },
+    'commons-lang:commons-lang': { reason: 'Superseded by Commons Lang 3', replacement: 'org.apache.commons:commons-lang3' },
+    'org.codehaus.jackson:jackson-mapper-asl': { reason: 'Jackson 1.x is end-of-life', replacement: 'com.fasterxml.jackson.core:jackson-databind' },
+    'javax.servlet:servlet-api': { reason: 'Superseded by the Jakarta Servlet API', replacement: 'jakarta.servlet:jakarta.servlet-api' },
+  },
+  go: {
+    'github.com/golang/protobuf': { reason: 'Superseded by the APIv2 module', replacement: 'google.golang.org/protobuf' },
+    'github.com/dgrijalva/jwt-go': { reason: 'Archived with a known vulnerability', replacement: 'github.com/golang-jwt/jwt' },
+    'github.com/pkg/errors': { reason: 'Archived; the standard library now wraps errors', replacement: 'errors and fmt.Errorf with %w' },
+    'github.com/satori/go.uuid': { reason: 'Unmaintained with a known vulnerability', replacement: 'github.com/google/uuid' },
+  },
+  rubygems: {
+    'sass': { reason: 'Ruby Sass is end-of-life', replacement: 'sassc or dartsass-rails' },
+    'therubyracer': { reason: 'Unmaintained', replacement: 'mini_racer' },
+    'paperclip': { reason: 'Deprecated by thoughtbot', replacement: 'Active Storage' },
+    'coffee-rails': { reason: 'CoffeeScript is no longer part of Rails defaults', replacement: 'plain JavaScript' },
+  },
+  // OS packages and base images are checked against the lifecycle tables instead
+  deb: {},
+  rpm: {},
+  apk: {},
+  docker: {},
+  generic: {},
+};
@@ -0,0 +1,182 @@
+import semver from 'semver';
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine';
+import { DEPRECATED_PACKAGES } from './deprecated-packages';
+import { InventoryComponent } from './types';
+
+// Each inventory check reports under the PatternMatcher pattern it corresponds to,
+// so its findings group with the ones detected in free text
+export const INVENTORY_CHECKS = {
+  deprecated_package: 'deprecated_api',
+  version_conflict: 'version_conflict',
+  duplicate_major: 'version_conflict',
+  unresolved_dependency: 'missing_dependency',
+  eol_base_image: 'deprecated_api',
+  eol_os_release: 'deprecated_api',
+  eol_runtime: 'deprecated_api',
+  runtime_constraint: 'version_conflict',
+} as const;
+
+export type InventoryCheck = keyof typeof INVENTORY_CHECKS;
+
+// Lockfiles resolve every declared dependency, so an unresolved one means the lockfile is stale
+const LOCKFILE_MANIFESTS: InventoryComponent['manifest'][] = ['package-lock', 'yarn-lock', 'pnpm-lock', 'pipfile-lock', 'gemfile-lock'];
+
+// npm installs several versions of a package side by side; other ecosystems resolve exactly one
+const NESTED_ECOSYSTEMS = ['npm'];
+
+// Installed OS packages (several kernels may coexist) and base images (one per build stage)
+// are checked against the lifecycle tables instead, see checkLifecycle
+const LIFECYCLE_ECOSYSTEMS: InventoryComponent['ecosystem'][] = ['deb', 'rpm', 'apk', 'docker'];
+
+export interface InventoryCheckOptions {
+  // Manifest file name, reported in affected components
+  source?: string;
+}
+
+function majorOf(version: string): number | null {
+  return semver.coerce(version)?.major ?? null;
+}
+
+function describe(component: InventoryComponent): string {
+  return component.version ? `${component.name}@${component.version}` : component.name;
+}
+
+function result(
+  check: InventoryCheck,
+  components: InventoryComponent[],
+  fields: Pick<AnalysisResult, 'status' | 'severity' | 'message' | 'details' | 'recommendations' | 'confidence'>,
+  options: InventoryCheckOptions
+): AnalysisResult {
+  const first = components[0]!;
+  return {
+    ruleId: `inventory:${check}`,
+    ...fields,
+    details: {
+      package: first.name,
+      ecosystem: first.ecosystem,
+      manifest: first.manifest,
+      direct: components.some(component => component.direct),
+      components: components.map(component => ({
+        version: component.version,
+        purl: component.purl,
+        ...(component.requested ? { requested: component.requested } : {}),
+        ...(component.path ? { path: component.path } : {}),
+      })),
+      ...fields.details,
+    },
+    affectedComponents: [
+      ...Array.from(new Set(components.map(component => `Package: ${describe(component)}`))),
+      ...(options.source ? [`Manifest: ${options.source}`] : []),
+    ],
+    metadata: {
+      source: 'dependency_inventory',
+      check,
+      pattern: INVENTORY_CHECKS[check],
+    },
+  };
+}
+
+/**
+ * Check a component inventory for deprecated packages, version conflicts,
+ * duplicate major versions and declared dependencies that were never resolved.
+ * Expects the whole inventory of one manifest so duplicates can be compared.
+ */
+export function checkInventory(
+  components: InventoryComponent[],
+  options: InventoryCheckOptions = {}
+): AnalysisResult[] {
+  const results: AnalysisResult[] = [];
+
+  const byName = new Map<string, InventoryComponent[]>();
+  for (const component of components) {
+    const key = `${component.ecosystem}:${component.name}`;
+    byName.set(key, [...(byName.get(key) ?? []), component]);
+  }
+
+  for (const group of byName.values()) {
+    const first = group[0]!;
+    if (LIFECYCLE_ECOSYSTEMS.includes(first.ecosystem)) continue;
+
+    const resolved = group.filter(component => component.version);
+    const direct = group.some(component => component.direct);
+
+    // Deprecated packages
+    const deprecation = DEPRECATED_PACKAGES[first.ecosystem][first.name];
+    const deprecated = !deprecation
+      ? []
+      : deprecation.versions
+        ? resolved.filter(component =>
+            semver.satisfies(semver.coerce(component.version) ?? '0.0.0', deprecation.versions!)
+          )
+        : group;
+    if (deprecation && deprecated.length > 0) {
+      results.push(result('deprecated_package', deprecated, {
+        status: ResultStatus.WARNING,
+        severity: direct ? RuleSeverity.MEDIUM : RuleSeverity.LOW,
+        message: `Deprecated package ${first.name} is ${direct ? 'a direct' : 'a transitive'} dependency: ${deprecation.reason}`,
+        details: { reason: deprecation.reason, replacement: deprecation.replacement ?? null },
+        recommendations: deprecation.replacement
+          ? `Replace ${first.name} with ${deprecation.replacement}.`
+          : `Remove ${first.name} or find a maintained alternative.`,
+        confidence: 1,
+      }, options));
+    }
+
+    // Declared dependencies missing from a lockfile
+    const unresolved = group.filter(component => component.direct && !component.version);
+    if (unresolved.length > 0 && resolved.length === 0 && LOCKFILE_MANIFESTS.includes(first.manifest)) {
+      results.push(result('unresolved_dependency', unresolved, {
+        status: ResultStatus.FAILED,
+        severity: RuleSeverity.MEDIUM,
+        message: `Missing dependency: ${first.name} is declared but not resolved in the lockfile`,
+        details: { requested: unresolved[0]!.requested ?? null },
+        recommendations: 'Reinstall dependencies to regenerate the lockfile and commit the result.',
+        confidence: 0.9,
+      }, options));
+    }
+
+    // Declared ranges the resolved version does not satisfy (npm semver ranges only)
+    const unsatisfied = resolved.filter(component =>
+      component.direct &&
+      component.ecosystem === 'npm' &&
+      component.requested &&
+      semver.validRange(component.requested) &&
+      semver.valid(component.version) &&
+      !semver.satisfies(component.version, component.requested, { includePrerelease: true })
+    );
+
+    const versions = Array.from(new Set(resolved.map(component => component.version)));
+    const flatConflict = versions.length > 1 && !NESTED_ECOSYSTEMS.includes(first.ecosystem);
+
+    if (unsatisfied.length > 0 || flatConflict) {
+      results.push(result('version_conflict', flatConflict ? resolved : unsatisfied, {
+        status: ResultStatus.FAILED,
+        severity: direct ? RuleSeverity.HIGH : RuleSeverity.MEDIUM,
+        message: flatConflict
+          ? `Version conflict: ${first.name} is pinned to ${versions.join(', ')} but only one version can be installed`
+          : `Version conflict: ${first.name}@${unsatisfied[0]!.version} does not satisfy the declared range "${unsatisfied[0]!.requested}"`,
+        details: { versions },
+        recommendations: flatConflict
+          ? `Pin ${first.name} to a single version.`
+          : `Update ${first.name} to a version within the declared range and regenerate the lockfile.`,
+        confidence: 1,
+      }, options));
+      continue;
+    }
+
+    // Several major versions installed side by side
+    const majors = Array.from(new Set(resolved.map(component => majorOf(component.version)).filter(major => major !== null)));
+    if (majors.length > 1) {
+      results.push(result('duplicate_major', resolved, {
+        status: ResultStatus.WARNING,
+        severity: RuleSeverity.LOW,
+        message: `Version mismatch: ${first.name} is installed at ${majors.length} major versions (${versions.join(', ')})`,
+        details: { versions, majors: majors.sort((a, b) => a - b) },
+        recommendations: `Align dependents on a single major version of ${first.name} to reduce bundle size and avoid duplicated state.`,
+        confidence: 0.9,
+      }, options));
+    }
+  }
+
+  return results;
+}
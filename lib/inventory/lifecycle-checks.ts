@@ -0,0 +1,275 @@
+import semver from 'semver';
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine';
+import { INVENTORY_CHECKS, InventoryCheck, InventoryCheckOptions } from './inventory-checks';
+import { LIFECYCLE_DATA_DATE, LifecycleProduct, OS_LIFECYCLES, RUNTIME_LIFECYCLES } from './lifecycle-data';
+import { describeImage, detectOsRelease, detectRuntimes } from './platforms';
+import { InstalledRuntime, InventoryComponent, OsRelease, RuntimeVersion } from './types';
+
+// Releases whose support ends within this many days are reported ahead of time
+const EOL_WARNING_DAYS = 180;
+
+const RUNTIME_TITLES: Record<RuntimeVersion['runtime'], string> = {
+  node: 'Node.js',
+  python: 'Python',
+  openssl: 'OpenSSL',
+};
+
+export interface LifecycleCheckOptions extends InventoryCheckOptions {
+  // Date end of life is judged against; defaults to now
+  now?: Date;
+  // OS release the packages are installed on, when known from elsewhere; read from the packages otherwise
+  osRelease?: OsRelease;
+}
+
+interface ReleaseStatus {
+  product: string;
+  // e.g. "Debian 10 (buster)"
+  release: string;
+  eol: string;
+  ended: boolean;
+  // Releases of the same product that are still supported
+  supported: string[];
+}
+
+function compareReleases(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Lifecycle of a release that has ended or ends within EOL_WARNING_DAYS; null otherwise or when unknown
+function releaseStatus(product: LifecycleProduct | undefined, version: string, now: Date): ReleaseStatus | null {
+  const release = product?.releases[version];
+  if (!product || !release) return null;
+
+  const today = now.toISOString().slice(0, 10);
+  const daysLeft = (Date.parse(release.eol) - Date.parse(today)) / 86_400_000;
+  if (daysLeft > EOL_WARNING_DAYS) return null;
+
+  return {
+    product: product.title,
+    release: `${product.title} ${version}${release.codename ? ` (${release.codename})` : ''}`,
+    eol: release.eol,
+    ended: release.eol < today,
+    supported: Object.keys(product.releases)
+      .filter(key => product.releases[key]!.eol >= today)
+      .sort(compareReleases),
+  };
+}
+
+function describeStatus(status: ReleaseStatus): string {
+  return `${status.release} ${status.ended ? 'reached' : 'reaches'} end of life on ${status.eol}`;
+}
+
+function recommendationFor(status: ReleaseStatus): string {
+  return status.supported.length > 0
+    ? `Move to a supported ${status.product} release (${status.supported.join(', ')}).`
+    : `Move off ${status.product}; none of its releases are supported any more.`;
+}
+
+function result(
+  check: InventoryCheck,
+  fields: Omit<AnalysisResult, 'ruleId' | 'metadata'>
+): AnalysisResult {
+  return {
+    ruleId: `inventory:${check}`,
+    ...fields,
+    metadata: {
+      source: 'dependency_inventory',
+      check,
+      pattern: INVENTORY_CHECKS[check],
+    },
+  };
+}
+
+function imageOf(component: InventoryComponent): string {
+  return component.version ? `${component.name}:${component.version}` : component.name;
+}
+
+/**
+ * Check base images and OS package inventories against the bundled lifecycle
+ * tables. Base images fail when their OS release or language runtime has
+ * reached end of life, and an installed package database fails when its OS
+ * release has; releases ending within six months are warnings.
+ */
+export function checkLifecycle(
+  components: InventoryComponent[],
+  options: LifecycleCheckOptions = {}
+): AnalysisResult[] {
+  const now = options.now ?? new Date();
+  const manifest = options.source ? [`Manifest: ${options.source}`] : [];
+  const results: AnalysisResult[] = [];
+
+  const images = new Map<string, InventoryComponent>();
+  for (const component of components.filter(component => component.ecosystem === 'docker')) {
+    // A build stage and the final stage may share an image; the final stage decides severity
+    const existing = images.get(imageOf(component));
+    if (!existing || existing.dev) images.set(imageOf(component), component);
+  }
+
+  for (const [image, component] of images) {
+    const platform = describeImage({ name: component.name, ...(component.version ? { tag: component.version } : {}) });
+    const statuses = [
+      platform.os ? releaseStatus(OS_LIFECYCLES[platform.os.distro], platform.os.version, now) : null,
+      platform.runtime ? releaseStatus(RUNTIME_LIFECYCLES[platform.runtime.runtime], platform.runtime.version, now) : null,
+    ].filter((status): status is ReleaseStatus => status !== null);
+    if (statuses.length === 0) continue;
+
+    const ended = statuses.some(status => status.ended);
+    results.push(result('eol_base_image', {
+      status: ended ? ResultStatus.FAILED : ResultStatus.WARNING,
+      severity: !ended ? RuleSeverity.LOW : component.dev ? RuleSeverity.MEDIUM : RuleSeverity.HIGH,
+      message: `Base image ${image} ${ended ? 'is end-of-life' : 'is nearing end of life'}: ${statuses.map(describeStatus).join('; ')}`,
+      details: {
+        image,
+        purl: component.purl,
+        stage: component.dev ? 'build' : 'final',
+        ...(platform.os ? { os: platform.os } : {}),
+        ...(platform.runtime ? { runtime: platform.runtime } : {}),
+        lifecycle: statuses.map(({ release, eol, ended }) => ({ release, eol, ended })),
+        dataDate: LIFECYCLE_DATA_DATE,
+      },
+      recommendations: statuses.map(recommendationFor).join(' '),
+      affectedComponents: [`Image: ${image}`, ...manifest],
+      // Tags are mutable, so the release behind a tag is an inference
+      confidence: 0.9,
+    }));
+  }
+
+  const release = options.osRelease ?? detectOsRelease(components);
+  const status = release ? releaseStatus(OS_LIFECYCLES[release.distro], release.version, now) : null;
+  if (release && status) {
+    results.push(result('eol_os_release', {
+      status: status.ended ? ResultStatus.FAILED : ResultStatus.WARNING,
+      severity: status.ended ? RuleSeverity.HIGH : RuleSeverity.LOW,
+      message: status.ended
+        ? `${describeStatus(status)}; its installed packages no longer receive security updates`
+        : describeStatus(status),
+      details: {
+        os: release,
+        lifecycle: [{ release: status.release, eol: status.eol, ended: status.ended }],
+        packages: components.filter(component => component.ecosystem !== 'docker').length,
+        dataDate: LIFECYCLE_DATA_DATE,
+      },
+      recommendations: recommendationFor(status),
+      affectedComponents: [`OS: ${status.release}`, ...manifest],
+      confidence: 1,
+    }));
+  }
+
+  return results;
+}
+
+/**
+ * Check Node.js and Python installations found on a host against the
+ * runtime lifecycle table: Node.js by major and Python by minor version
+ */
+export function checkRuntimeLifecycle(
+  runtimes: InstalledRuntime[],
+  options: LifecycleCheckOptions = {}
+): AnalysisResult[] {
+  const now = options.now ?? new Date();
+  const results: AnalysisResult[] = [];
+
+  for (const installed of runtimes) {
+    if (installed.runtime === 'openssl') continue;
+    const parts = installed.version.split('.');
+    const release = installed.runtime === 'node' ? parts[0]! : parts.slice(0, 2).join('.');
+    const status = releaseStatus(RUNTIME_LIFECYCLES[installed.runtime], release, now);
+    if (!status) continue;
+
+    const runtime = `${RUNTIME_TITLES[installed.runtime]} ${installed.version}`;
+    results.push(result('eol_runtime', {
+      status: status.ended ? ResultStatus.FAILED : ResultStatus.WARNING,
+      severity: status.ended ? RuleSeverity.HIGH : RuleSeverity.LOW,
+      message: `${runtime} at ${installed.path} ${status.ended ? 'is end-of-life' : 'is nearing end of life'}: ${describeStatus(status)}`,
+      details: {
+        runtime: installed.runtime,
+        version: installed.version,
+        path: installed.path,
+        lifecycle: [{ release: status.release, eol: status.eol, ended: status.ended }],
+        dataDate: LIFECYCLE_DATA_DATE,
+      },
+      recommendations: recommendationFor(status),
+      affectedComponents: [`Runtime: ${installed.path}`, ...(options.source ? [`Manifest: ${options.source}`] : [])],
+      confidence: 1,
+    }));
+  }
+
+  return results;
+}
+
+/**
+ * Check the Node.js, Python and OpenSSL versions that base images and OS
+ * packages provide against the version ranges the application requires.
+ * A version only known in part (a node:18 tag) that some but not all of the
+ * required range covers is a warning.
+ */
+export function checkRuntimeConstraints(
+  components: InventoryComponent[],
+  constraints: Record<string, string>,
+  options: InventoryCheckOptions = {}
+): AnalysisResult[] {
+  const groups = new Map<string, RuntimeVersion[]>();
+  for (const runtime of detectRuntimes(components)) {
+    const key = `${runtime.runtime}\u0000${runtime.version}`;
+    groups.set(key, [...(groups.get(key) ?? []), runtime]);
+  }
+
+  const results: AnalysisResult[] = [];
+  for (const group of groups.values()) {
+    const { runtime, version } = group[0]!;
+    const required = constraints[runtime];
+    const range = required ? semver.validRange(required) : null;
+    if (!required || !range) continue;
+
+    // Tags like node:18 or python:3.11 stand for every release of that line
+    const partial = version.split('.').length < 3;
+    const provided = partial ? `${version}.x` : version;
+    const satisfied = partial
+      ? semver.subset(provided, range)
+      : semver.satisfies(semver.coerce(version) ?? '0.0.0', range);
+    if (satisfied) continue;
+
+    const possible = partial && semver.intersects(provided, range);
+    const title = RUNTIME_TITLES[runtime];
+    const sources = group.map(({ component }) =>
+      component.ecosystem === 'docker' ? `image ${imageOf(component)}` : `package ${component.name} ${component.version}`
+    );
+
+    results.push(result('runtime_constraint', {
+      status: possible ? ResultStatus.WARNING : ResultStatus.FAILED,
+      severity: possible ? RuleSeverity.LOW : RuleSeverity.HIGH,
+      message: possible
+        ? `Version mismatch: only some ${title} ${provided} releases from ${sources.join(', ')} satisfy the required range "${required}"`
+        : `Version conflict: ${title} ${version} from ${sources.join(', ')} does not satisfy the required range "${required}"`,
+      details: {
+        runtime,
+        version,
+        required,
+        components: group.map(({ component }) => ({
+          name: component.name,
+          version: component.version,
+          ecosystem: component.ecosystem,
+          purl: component.purl,
+        })),
+      },
+      recommendations: possible
+        ? `Pin the image tag to a ${title} release within "${required}".`
+        : `Provide ${title} ${required} in the image, or update the requirement the application declares.`,
+      affectedComponents: [
+        ...group.map(({ component }) =>
+          component.ecosystem === 'docker' ? `Image: ${imageOf(component)}` : `Package: ${component.name}@${component.version}`
+        ),
+        ...(options.source ? [`Manifest: ${options.source}`] : []),
+      ],
+      confidence: possible ? 0.6 : 0.9,
+    }));
+  }
+
+  return results;
+}
@@ -0,0 +1,147 @@
+export interface LifecycleRelease {
+  // Last day of free security support, including LTS where the project offers it
+  eol: string;
+  codename?: string;
+}
+
+export interface LifecycleProduct {
+  title: string;
+  releases: Record<string, LifecycleRelease>;
+}
+
+// When the lifecycle tables below were last checked against the vendors' announcements
+export const LIFECYCLE_DATA_DATE = '2026-10-01';
+
+// Operating system releases, keyed by the distro ids OS package inventories and base images resolve to.
+// Release keys are the version a base image tag or release package names: major versions, except
+// Ubuntu (YY.MM) and Alpine (major.minor).
+export const OS_LIFECYCLES: Record<string, LifecycleProduct> = {
+  debian: {
+    title: 'Debian',
+    releases: {
+      '8': { eol: '2020-06-30', codename: 'jessie' },
+      '9': { eol: '2022-06-30', codename: 'stretch' },
+      '10': { eol: '2024-06-30', codename: 'buster' },
+      '11': { eol: '2026-08-31', codename: 'bullseye' },
+      '12': { eol: '2028-06-30', codename: 'bookworm' },
+      '13': { eol: '2030-06-30', codename: 'trixie' },
+    },
+  },
+  ubuntu: {
+    title: 'Ubuntu',
+    releases: {
+      '14.04': { eol: '2019-04-30', codename: 'trusty' },
+      '16.04': { eol: '2021-04-30', codename: 'xenial' },
+      '18.04': { eol: '2023-05-31', codename: 'bionic' },
+      '20.04': { eol: '2025-05-31', codename: 'focal' },
+      '22.04': { eol: '2027-06-01', codename: 'jammy' },
+      '24.04': { eol: '2029-05-31', codename: 'noble' },
+    },
+  },
+  alpine: {
+    title: 'Alpine Linux',
+    releases: {
+      '3.12': { eol: '2022-05-01' },
+      '3.13': { eol: '2022-11-01' },
+      '3.14': { eol: '2023-05-01' },
+      '3.15': { eol: '2023-11-01' },
+      '3.16': { eol: '2024-05-23' },
+      '3.17': { eol: '2024-11-22' },
+      '3.18': { eol: '2025-05-09' },
+      '3.19': { eol: '2025-11-01' },
+      '3.20': { eol: '2026-04-01' },
+      '3.21': { eol: '2026-11-01' },
+      '3.22': { eol: '2027-05-01' },
+    },
+  },
+  centos: {
+    title: 'CentOS Linux',
+    releases: {
+      '6': { eol: '2020-11-30' },
+      '7': { eol: '2024-06-30' },
+      '8': { eol: '2021-12-31' },
+    },
+  },
+  'centos-stream': {
+    title: 'CentOS Stream',
+    releases: {
+      '8': { eol: '2024-05-31' },
+      '9': { eol: '2027-05-31' },
+    },
+  },
+  rhel: {
+    title: 'Red Hat Enterprise Linux',
+    releases: {
+      '7': { eol: '2024-06-30' },
+      '8': { eol: '2029-05-31' },
+      '9': { eol: '2032-05-31' },
+    },
+  },
+  rocky: {
+    title: 'Rocky Linux',
+    releases: {
+      '8': { eol: '2029-05-31' },
+      '9': { eol: '2032-05-31' },
+    },
+  },
+  almalinux: {
+    title: 'AlmaLinux',
+    releases: {
+      '8': { eol: '2029-03-01' },
+      '9': { eol: '2032-05-31' },
+    },
+  },
+  oraclelinux: {
+    title: 'Oracle Linux',
+    releases: {
+      '7': { eol: '2024-12-31' },
+      '8': { eol: '2029-07-01' },
+      '9': { eol: '2032-06-30' },
+    },
+  },
+  amazonlinux: {
+    title: 'Amazon Linux',
+    releases: {
+      '1': { eol: '2023-12-31' },
+      '2': { eol: '2026-06-30' },
+      '2023': { eol: '2029-06-30' },
+    },
+  },
+};
+
+// Language runtimes of official base images, keyed by major (Node.js) or major.minor (Python) version
+export const RUNTIME_LIFECYCLES: Record<'node' | 'python', LifecycleProduct> = {
+  node: {
+    title: 'Node.js',
+    releases: {
+      '10': { eol: '2021-04-30', codename: 'dubnium' },
+      '12': { eol: '2022-04-30', codename: 'erbium' },
+      '14': { eol: '2023-04-30', codename: 'fermium' },
+      '16': { eol: '2023-09-11', codename: 'gallium' },
+      '17': { eol: '2022-06-01' },
+      '18': { eol: '2025-04-30', codename: 'hydrogen' },
+      '19': { eol: '2023-06-01' },
+      '20': { eol: '2026-04-30', codename: 'iron' },
+      '21': { eol: '2024-06-01' },
+      '22': { eol: '2027-04-30', codename: 'jod' },
+      '23': { eol: '2025-06-01' },
+      '24': { eol: '2028-04-30', codename: 'krypton' },
+      '25': { eol: '2026-06-01' },
+    },
+  },
+  python: {
+    title: 'Python',
+    releases: {
+      '2.7': { eol: '2020-01-01' },
+      '3.6': { eol: '2021-12-23' },
+      '3.7': { eol: '2023-06-27' },
+      '3.8': { eol: '2024-10-07' },
+      '3.9': { eol: '2025-10-31' },
+      '3.10': { eol: '2026-10-31' },
+      '3.11': { eol: '2027-10-31' },
+      '3.12': { eol: '2028-10-31' },
+      '3.13': { eol: '2029-10-31' },
+      '3.14': { eol: '2030-10-31' },
+    },
+  },
+};
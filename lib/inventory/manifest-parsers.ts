@@ -0,0 +1,803 @@
+import path from 'path';
+import yaml from 'js-yaml';
+import { XMLParser } from 'fast-xml-parser';
+import { InstalledPackages, readApkInstalled, readDpkgStatus, readRpmQa } from './package-databases';
+import { detectOsRelease, parseImageReference } from './platforms';
+import { ComponentInventory, Ecosystem, InventoryComponent, ManifestType, OsRelease } from './types';
+
+// Manifest parsing error types
+export class ManifestParseError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'MANIFEST_PARSE_ERROR'
+  ) {
+    super(message);
+    this.name = 'ManifestParseError';
+  }
+}
+
+const MANIFEST_ECOSYSTEMS: Record<ManifestType, Ecosystem> = {
+  'package-json': 'npm',
+  'package-lock': 'npm',
+  'yarn-lock': 'npm',
+  'pnpm-lock': 'npm',
+  'requirements': 'pypi',
+  'pipfile-lock': 'pypi',
+  'pom': 'maven',
+  'go-mod': 'go',
+  'gemfile-lock': 'rubygems',
+  'dockerfile': 'docker',
+  'dpkg-status': 'deb',
+  'rpm-qa': 'rpm',
+  'apk-installed': 'apk',
+};
+
+/**
+ * Recognize a dependency manifest by its file name
+ */
+export function detectManifestType(fileName: string): ManifestType | null {
+  const name = path.basename(fileName).toLowerCase();
+
+  if (name === 'package.json') return 'package-json';
+  if (name === 'package-lock.json' || name === 'npm-shrinkwrap.json') return 'package-lock';
+  if (name === 'yarn.lock') return 'yarn-lock';
+  if (name === 'pnpm-lock.yaml' || name === 'pnpm-lock.yml') return 'pnpm-lock';
+  if (/^(requirements|constraints)([-_.][\w.-]*)?\.txt$/.test(name)) return 'requirements';
+  if (name === 'pipfile.lock') return 'pipfile-lock';
+  if (name === 'pom.xml') return 'pom';
+  if (name === 'go.mod') return 'go-mod';
+  if (name === 'gemfile.lock' || name === 'gems.locked') return 'gemfile-lock';
+  if (/^(dockerfile|containerfile)([.-][\w.-]+)?$/.test(name) || name.endsWith('.dockerfile')) return 'dockerfile';
+  // Installed package databases of a container or host: /var/lib/dpkg/status, /lib/apk/db/installed
+  // and the output of rpm -qa, under their own names or prefixed with the package manager
+  if (/^(dpkg[-_.]?)?status(\.txt)?$/.test(name)) return 'dpkg-status';
+  if (/^(apk[-_.]?)?installed(\.txt)?$/.test(name)) return 'apk-installed';
+  if (/^rpm[-_.]?qa(\.txt)?$/.test(name)) return 'rpm-qa';
+
+  return null;
+}
+
+/**
+ * Build a package URL for a component. OS packages take the distribution
+ * (namespace) and architecture when the inventory records them.
+ */
+export function buildPurl(
+  ecosystem: Ecosystem,
+  name: string,
+  version: string,
+  qualifiers: { distro?: string; arch?: string } = {}
+): string {
+  const suffix = version ? `@${encodeURIComponent(version)}` : '';
+  const arch = qualifiers.arch ? `?arch=${encodeURIComponent(qualifiers.arch)}` : '';
+
+  switch (ecosystem) {
+    case 'npm':
+      return `pkg:npm/${name.startsWith('@') ? `%40${name.slice(1)}` : name}${suffix}`;
+    case 'maven':
+      return `pkg:maven/${name.replace(':', '/')}${suffix}`;
+    case 'go':
+      return `pkg:golang/${name}${suffix}`;
+    case 'rubygems':
+      return `pkg:gem/${name}${suffix}`;
+    case 'pypi':
+      return `pkg:pypi/${name}${suffix}`;
+    case 'deb':
+      return `pkg:deb/${qualifiers.distro ?? 'debian'}/${name}${suffix}${arch}`;
+    case 'apk':
+      return `pkg:apk/${qualifiers.distro ?? 'alpine'}/${name}${suffix}${arch}`;
+    case 'rpm':
+      return `pkg:rpm/${qualifiers.distro ? `${qualifiers.distro}/` : ''}${name}${suffix}${arch}`;
+    case 'docker': {
+      // Images outside Docker Hub keep their registry as a qualifier
+      const [registry, ...path] = name.split('/');
+      const hosted = path.length > 0 && /[.:]|^localhost$/.test(registry!);
+      return hosted
+        ? `pkg:docker/${path.join('/')}${suffix}?repository_url=${encodeURIComponent(registry!)}`
+        : `pkg:docker/${name}${suffix}`;
+    }
+    case 'generic':
+      return `pkg:generic/${encodeURIComponent(name)}${suffix}`;
+  }
+}
+
+function component(
+  manifest: ManifestType,
+  name: string,
+  version: string,
+  fields: Partial<Pick<InventoryComponent, 'direct' | 'dev' | 'requested' | 'path'>> = {}
+): InventoryComponent {
+  const ecosystem = MANIFEST_ECOSYSTEMS[manifest];
+  return {
+    name,
+    version,
+    ecosystem,
+    manifest,
+    purl: buildPurl(ecosystem, name, version),
+    direct: fields.direct ?? false,
+    dev: fields.dev ?? false,
+    ...(fields.requested && fields.requested !== version ? { requested: fields.requested } : {}),
+    ...(fields.path ? { path: fields.path } : {}),
+  };
+}
+
+function parseJson(content: string, manifest: ManifestType): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new ManifestParseError(`Invalid JSON in ${manifest} manifest`);
+  }
+}
+
+function parseYaml(content: string, manifest: ManifestType): any {
+  try {
+    return yaml.load(content);
+  } catch {
+    throw new ManifestParseError(`Invalid YAML in ${manifest} manifest`);
+  }
+}
+
+// Split "name@range" where scoped names start with "@"
+function splitNameAndSpec(value: string): { name: string; spec: string } {
+  const at = value.indexOf('@', value.startsWith('@') ? 1 : 0);
+  return at === -1
+    ? { name: value, spec: '' }
+    : { name: value.slice(0, at), spec: value.slice(at + 1) };
+}
+
+// Dependency groups of package.json; an earlier group wins when a package is declared twice
+const PACKAGE_JSON_GROUPS = [
+  { field: 'dependencies', dev: false },
+  { field: 'optionalDependencies', dev: false },
+  { field: 'devDependencies', dev: true },
+] as const;
+
+/**
+ * package.json on its own, for projects without a lockfile: every declared
+ * dependency is direct and keeps its requested range. Only exact pins
+ * resolve to a version.
+ */
+function parsePackageJson(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const manifest = parseJson(content, 'package-json');
+  if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+    throw new ManifestParseError('package.json is not an object');
+  }
+
+  const components: InventoryComponent[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  for (const { field, dev } of PACKAGE_JSON_GROUPS) {
+    for (const [declared, spec] of Object.entries<unknown>(manifest[field] ?? {})) {
+      if (seen.has(declared) || typeof spec !== 'string') continue;
+      seen.add(declared);
+
+      // Workspace packages live in the repository itself
+      if (spec.startsWith('workspace:')) continue;
+
+      // "npm:other@^1.0.0" installs another package under this name
+      const alias = spec.startsWith('npm:') ? splitNameAndSpec(spec.slice(4)) : null;
+      const name = alias?.name ?? declared;
+      const requested = (alias ? alias.spec : spec).trim();
+
+      if (/^(file:|link:|git|https?:|github:)|^[\w.-]+\/[\w.-]+(#.*)?$/.test(requested)) {
+        warnings.push(`${field}.${declared}: ${requested} is not a registry version and was not resolved`);
+        components.push(component('package-json', name, '', { direct: true, dev, requested }));
+        continue;
+      }
+
+      const pinned = requested.match(/^=?v?(\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.+-]+)?)$/);
+      components.push(component('package-json', name, pinned ? pinned[1]! : '', {
+        direct: true,
+        dev,
+        ...(requested ? { requested } : {}),
+      }));
+    }
+  }
+
+  if (components.length === 0) {
+    throw new ManifestParseError('package.json declares no dependencies');
+  }
+  warnings.push('Versions are the ranges package.json declares; upload the lockfile to check the installed versions');
+
+  return { components, warnings };
+}
+
+// npm package-lock.json / npm-shrinkwrap.json (lockfile v1, v2 and v3)
+function parsePackageLock(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const lock = parseJson(content, 'package-lock');
+  const components: InventoryComponent[] = [];
+  const warnings: string[] = [];
+
+  if (lock.packages && typeof lock.packages === 'object') {
+    const root = lock.packages[''] ?? {};
+    const declared: Record<string, { requested: string; dev: boolean }> = {};
+    for (const [name, requested] of Object.entries<string>(root.dependencies ?? {})) {
+      declared[name] = { requested, dev: false };
+    }
+    for (const [name, requested] of Object.entries<string>(root.devDependencies ?? {})) {
+      declared[name] = { requested, dev: true };
+    }
+    for (const [name, requested] of Object.entries<string>(root.optionalDependencies ?? {})) {
+      declared[name] = { requested, dev: false };
+    }
+
+    for (const [location, entry] of Object.entries<any>(lock.packages)) {
+      if (location === '' || !location.includes('node_modules/') || entry.link) continue;
+
+      const name = entry.name ?? location.slice(location.lastIndexOf('node_modules/') + 'node_modules/'.length);
+      const direct = location === `node_modules/${name}` && name in declared;
+
+      components.push(component('package-lock', name, entry.version ?? '', {
+        direct,
+        dev: Boolean(entry.dev || entry.devOptional),
+        path: location,
+        ...(direct ? { requested: declared[name]!.requested } : {}),
+      }));
+    }
+
+    // Declared dependencies that never made it into the lockfile
+    for (const [name, { requested, dev }] of Object.entries(declared)) {
+      if (!lock.packages[`node_modules/${name}`]) {
+        components.push(component('package-lock', name, '', { direct: true, dev, requested }));
+      }
+    }
+
+    return { components, warnings };
+  }
+
+  if (lock.dependencies && typeof lock.dependencies === 'object') {
+    // Lockfile v1 nests transitive dependencies under their parents
+    const walk = (dependencies: Record<string, any>, parentPath: string, depth: number) => {
+      for (const [name, entry] of Object.entries<any>(dependencies)) {
+        const location = `${parentPath}node_modules/${name}`;
+        components.push(component('package-lock', name, entry.version ?? '', {
+          direct: depth === 0,
+          dev: Boolean(entry.dev),
+          path: location,
+        }));
+        if (entry.dependencies) {
+          walk(entry.dependencies, `${location}/`, depth + 1);
+        }
+      }
+    };
+    walk(lock.dependencies, '', 0);
+
+    // v1 hoists transitive dependencies to the top level alongside the declared ones
+    warnings.push('Lockfile v1 does not distinguish direct from hoisted dependencies');
+    return { components, warnings };
+  }
+
+  throw new ManifestParseError('package-lock.json contains neither "packages" nor "dependencies"');
+}
+
+// yarn.lock, both the classic v1 format and Berry's YAML format
+function parseYarnLock(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const components: InventoryComponent[] = [];
+  const warnings: string[] = [];
+
+  if (/^__metadata:/m.test(content)) {
+    const lock = parseYaml(content, 'yarn-lock') ?? {};
+
+    for (const [key, entry] of Object.entries<any>(lock)) {
+      if (key === '__metadata' || !entry?.version) continue;
+      // Keys look like "lodash@npm:^4.17.21, lodash@npm:^4.17.0"
+      const first = key.split(',')[0]!.trim();
+      const { name, spec } = splitNameAndSpec(first);
+      if (spec.startsWith('workspace:')) continue;
+
+      components.push(component('yarn-lock', name, String(entry.version), {
+        requested: key.split(',').map(part => splitNameAndSpec(part.trim()).spec.replace(/^npm:/, '')).join(' || '),
+      }));
+    }
+
+    return { components, warnings };
+  }
+
+  let current: { name: string; requested: string } | null = null;
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || line.startsWith('#')) return;
+
+    if (!line.startsWith(' ')) {
+      if (!line.endsWith(':')) {
+        warnings.push(`Line ${index + 1}: unrecognized entry`);
+        current = null;
+        return;
+      }
+
+      const specifiers = line
+        .slice(0, -1)
+        .split(',')
+        .map(part => part.trim().replace(/^"|"$/g, ''));
+      const { name } = splitNameAndSpec(specifiers[0]!);
+      current = {
+        name,
+        requested: specifiers.map(specifier => splitNameAndSpec(specifier).spec).join(' || '),
+      };
+      return;
+    }
+
+    const version = line.match(/^ {2}version:? "?([^"\s]+)"?$/);
+    if (version && current) {
+      components.push(component('yarn-lock', current.name, version[1]!, { requested: current.requested }));
+      current = null;
+    }
+  });
+
+  return { components, warnings };
+}
+
+// pnpm "name@version(peer@x)" or legacy "/name/version_peer@x" package keys
+function parsePnpmKey(key: string): { name: string; version: string } | null {
+  const trimmed = key.replace(/^\//, '').replace(/\(.*$/, '');
+
+  const legacy = trimmed.match(/^((?:@[^/]+\/)?[^/@]+)\/(\d[^/]*)$/);
+  if (legacy) {
+    return { name: legacy[1]!, version: legacy[2]!.split('_')[0]! };
+  }
+
+  const { name, spec } = splitNameAndSpec(trimmed);
+  return spec ? { name, version: spec } : null;
+}
+
+// pnpm-lock.yaml (lockfile v5 through v9)
+function parsePnpmLock(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const lock = parseYaml(content, 'pnpm-lock');
+  if (!lock || typeof lock !== 'object') {
+    throw new ManifestParseError('pnpm-lock.yaml is empty');
+  }
+
+  const components: InventoryComponent[] = [];
+  const warnings: string[] = [];
+
+  // Direct dependencies live on the root importer (v5.4+) or the document itself (v5)
+  const importer = lock.importers?.['.'] ?? lock;
+  const direct = new Map<string, { requested?: string; dev: boolean }>();
+  for (const [group, dev] of [['dependencies', false], ['devDependencies', true], ['optionalDependencies', false]] as const) {
+    for (const [name, value] of Object.entries<any>(importer[group] ?? {})) {
+      const requested = typeof value === 'object' ? value.specifier : importer.specifiers?.[name];
+      direct.set(name, { dev, ...(requested ? { requested: String(requested) } : {}) });
+    }
+  }
+
+  // v9 moved the dependency graph to "snapshots"; "packages" keeps the metadata
+  const seen = new Set<string>();
+  for (const key of [...Object.keys(lock.snapshots ?? {}), ...Object.keys(lock.packages ?? {})]) {
+    const parsed = parsePnpmKey(key);
+    if (!parsed) {
+      warnings.push(`Unrecognized package key: ${key}`);
+      continue;
+    }
+
+    const id = `${parsed.name}@${parsed.version}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const declared = direct.get(parsed.name);
+    const entry = lock.packages?.[key] ?? {};
+    components.push(component('pnpm-lock', parsed.name, parsed.version, {
+      direct: Boolean(declared),
+      dev: declared?.dev ?? Boolean(entry.dev),
+      ...(declared?.requested ? { requested: declared.requested } : {}),
+    }));
+  }
+
+  return { components, warnings };
+}
+
+// PEP 503 name normalization
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+// requirements.txt / constraints.txt
+function parseRequirements(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const components: InventoryComponent[] = [];
+  const warnings: string[] = [];
+
+  // Join backslash continuations before reading line by line
+  const lines = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+
+  lines.forEach((raw, index) => {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) return;
+
+    if (line.startsWith('-')) {
+      // Options such as -r, -c, -e and --index-url reference other sources
+      if (/^(-e|--editable)\s/.test(line)) {
+        warnings.push(`Line ${index + 1}: editable requirement not resolved: ${line}`);
+      }
+      return;
+    }
+
+    const requirement = line.split(';')[0]!.replace(/\s--hash=\S+/g, '').trim();
+    const match = requirement.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(\[[^\]]*\])?\s*(.*)$/);
+    if (!match) {
+      warnings.push(`Line ${index + 1}: unrecognized requirement: ${line}`);
+      return;
+    }
+
+    const name = normalizePythonName(match[1]!);
+    const spec = match[3]!.trim();
+    if (spec.startsWith('@')) {
+      warnings.push(`Line ${index + 1}: direct URL requirement not resolved: ${name}`);
+      components.push(component('requirements', name, '', { direct: true, requested: spec }));
+      return;
+    }
+
+    const pinned = spec.match(/^===?\s*([^\s,]+)$/);
+    components.push(component('requirements', name, pinned ? pinned[1]! : '', {
+      direct: true,
+      ...(spec && !pinned ? { requested: spec } : {}),
+    }));
+  });
+
+  return { components, warnings };
+}
+
+// Pipfile.lock
+function parsePipfileLock(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const lock = parseJson(content, 'pipfile-lock');
+  if (!lock.default && !lock.develop) {
+    throw new ManifestParseError('Pipfile.lock contains neither "default" nor "develop"');
+  }
+
+  const components: InventoryComponent[] = [];
+  for (const [group, dev] of [['default', false], ['develop', true]] as const) {
+    for (const [name, entry] of Object.entries<any>(lock[group] ?? {})) {
+      const version = typeof entry.version === 'string' ? entry.version.replace(/^===?/, '') : '';
+      components.push(component('pipfile-lock', normalizePythonName(name), version, { dev }));
+    }
+  }
+
+  return { components, warnings: [] };
+}
+
+// pom.xml: direct dependencies with ${property} interpolation
+function parsePom(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  let document: any;
+  try {
+    document = new XMLParser({ ignoreAttributes: true, parseTagValue: false }).parse(content);
+  } catch {
+    throw new ManifestParseError('Invalid XML in pom.xml');
+  }
+
+  const project = document?.project;
+  if (!project) {
+    throw new ManifestParseError('pom.xml has no <project> element');
+  }
+
+  const properties: Record<string, string> = {};
+  for (const [key, value] of Object.entries<any>(project.properties ?? {})) {
+    properties[key] = String(value);
+  }
+  if (project.version) properties['project.version'] = String(project.version);
+  if (project.parent?.version) properties['project.parent.version'] = String(project.parent.version);
+
+  const interpolate = (value: unknown): string => {
+    let result = value === undefined || value === null ? '' : String(value).trim();
+    // Properties may reference other properties; stop after a few rounds
+    for (let round = 0; round < 5 && result.includes('${'); round++) {
+      result = result.replace(/\$\{([^}]+)\}/g, (placeholder, key) => properties[key] ?? placeholder);
+    }
+    return result;
+  };
+
+  const asArray = (value: any): any[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+  // Versions declared in dependencyManagement apply to dependencies that omit one
+  const managed = new Map<string, string>();
+  for (const dependency of asArray(project.dependencyManagement?.dependencies?.dependency)) {
+    managed.set(`${interpolate(dependency.groupId)}:${interpolate(dependency.artifactId)}`, interpolate(dependency.version));
+  }
+
+  const components: InventoryComponent[] = [];
+  const warnings: string[] = [];
+
+  for (const dependency of asArray(project.dependencies?.dependency)) {
+    const name = `${interpolate(dependency.groupId)}:${interpolate(dependency.artifactId)}`;
+    let version = interpolate(dependency.version) || managed.get(name) || '';
+
+    if (version.includes('${')) {
+      warnings.push(`Unresolved version for ${name}: ${version}`);
+      version = '';
+    }
+
+    const scope = interpolate(dependency.scope);
+    components.push(component('pom', name, version, {
+      direct: true,
+      dev: scope === 'test',
+      ...(dependency.version && !version ? { requested: String(dependency.version) } : {}),
+    }));
+  }
+
+  return { components, warnings };
+}
+
+// go.mod
+function parseGoMod(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const requirements = new Map<string, { version: string; indirect: boolean }>();
+  const replacements = new Map<string, { name: string; version: string }>();
+  const warnings: string[] = [];
+  let block: 'require' | 'replace' | null = null;
+
+  const handle = (directive: 'require' | 'replace', body: string, lineNumber: number) => {
+    const indirect = /\/\/\s*indirect/.test(body);
+    const text = body.replace(/\/\/.*$/, '').trim();
+    if (!text) return;
+
+    if (directive === 'require') {
+      const [name, version] = text.split(/\s+/);
+      if (!name || !version) {
+        warnings.push(`Line ${lineNumber}: malformed require`);
+        return;
+      }
+      requirements.set(name, { version, indirect });
+      return;
+    }
+
+    const [from, to] = text.split('=>').map(part => part.trim().split(/\s+/));
+    // Local path replacements (./x, ../x) have no version to check
+    if (from?.[0] && to?.[0] && to[1]) {
+      replacements.set(from[0], { name: to[0], version: to[1] });
+    }
+  };
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (block) {
+      if (line === ')') {
+        block = null;
+      } else {
+        handle(block, line, index + 1);
+      }
+      return;
+    }
+
+    const match = line.match(/^(require|replace)\s*(\(?)\s*(.*)$/);
+    if (!match) return;
+
+    if (match[2] === '(') {
+      block = match[1] as 'require' | 'replace';
+    } else {
+      handle(match[1] as 'require' | 'replace', match[3]!, index + 1);
+    }
+  });
+
+  const components = Array.from(requirements.entries()).map(([name, { version, indirect }]) => {
+    const replacement = replacements.get(name);
+    return component('go-mod', replacement?.name ?? name, replacement?.version ?? version, {
+      direct: !indirect,
+      ...(replacement ? { requested: `${name} ${version}` } : {}),
+    });
+  });
+
+  return { components, warnings };
+}
+
+// Gemfile.lock
+function parseGemfileLock(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const specs = new Map<string, string>();
+  const direct = new Map<string, string>();
+  let section = '';
+  let inSpecs = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^[A-Z]/.test(line)) {
+      section = line.trim();
+      inSpecs = false;
+      continue;
+    }
+
+    if (line.trim() === 'specs:') {
+      inSpecs = true;
+      continue;
+    }
+
+    // Gems are listed at four spaces; their own dependencies at six
+    const spec = line.match(/^ {4}([^\s(]+) \(([^)]+)\)$/);
+    if (inSpecs && spec) {
+      specs.set(spec[1]!, spec[2]!);
+      continue;
+    }
+
+    const dependency = line.match(/^ {2}([^\s(!]+)!?(?: \(([^)]+)\))?$/);
+    if (section === 'DEPENDENCIES' && dependency) {
+      direct.set(dependency[1]!, dependency[2] ?? '');
+    }
+  }
+
+  if (specs.size === 0 && direct.size === 0) {
+    throw new ManifestParseError('Gemfile.lock contains no gems');
+  }
+
+  const components = Array.from(specs.entries()).map(([name, version]) =>
+    component('gemfile-lock', name, version, {
+      direct: direct.has(name),
+      ...(direct.get(name) ? { requested: direct.get(name)! } : {}),
+    })
+  );
+
+  return { components, warnings: [] };
+}
+
+// Substitute ${VAR}, ${VAR:-default} and $VAR from Dockerfile ARG values
+function expandDockerfileArgs(value: string, args: Map<string, string>): string {
+  return value.replace(/\$\{(\w+)(?::?-([^}]*))?\}|\$(\w+)/g, (match, braced, fallback, bare) => {
+    const name = braced ?? bare;
+    return args.get(name) || fallback || (args.has(name) ? '' : match);
+  });
+}
+
+function parseDockerfile(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  const components: InventoryComponent[] = [];
+  const warnings: string[] = [];
+  // ARGs declared before the first FROM parameterize base images
+  const args = new Map<string, string>();
+  const stages = new Set<string>();
+  const images: { reference: string; line: number }[] = [];
+
+  // Join continuation lines, remembering where each instruction starts
+  const instructions: { text: string; line: number }[] = [];
+  let current: { text: string; line: number } | null = null;
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!current && (line === '' || line.startsWith('#'))) return;
+    if (current && line.startsWith('#')) return;
+
+    const continued = line.endsWith('\\');
+    const text = continued ? line.slice(0, -1) : line;
+    current = current ? { ...current, text: `${current.text} ${text}` } : { text, line: index + 1 };
+    if (!continued) {
+      instructions.push(current);
+      current = null;
+    }
+  });
+  if (current) instructions.push(current);
+
+  for (const { text, line } of instructions) {
+    const [keyword = '', ...rest] = text.split(/\s+/);
+    const instruction = keyword.toUpperCase();
+
+    if (instruction === 'ARG' && images.length === 0) {
+      const [name = '', ...value] = rest.join(' ').split('=');
+      args.set(name.trim(), value.join('=').trim().replace(/^(['"])(.*)\1$/, '$2'));
+      continue;
+    }
+    if (instruction !== 'FROM') continue;
+
+    const operands = rest.filter(operand => !operand.startsWith('--'));
+    const reference = expandDockerfileArgs(operands[0] ?? '', args);
+    // Stages built on an earlier stage add no image of their own
+    const earlierStage = stages.has(reference.toLowerCase());
+    if (operands[1]?.toLowerCase() === 'as' && operands[2]) {
+      stages.add(operands[2].toLowerCase());
+    }
+
+    if (!reference || reference === 'scratch' || earlierStage) {
+      images.push({ reference: '', line });
+      continue;
+    }
+    if (reference.includes('$')) {
+      warnings.push(`Line ${line}: could not resolve base image ${reference}`);
+      images.push({ reference: '', line });
+      continue;
+    }
+    images.push({ reference, line });
+  }
+
+  if (images.length === 0) {
+    throw new ManifestParseError('Dockerfile contains no FROM instruction');
+  }
+
+  images.forEach(({ reference }, index) => {
+    if (!reference) return;
+    const image = parseImageReference(reference);
+    const version = image.tag ?? (image.digest ? '' : 'latest');
+    // Only the last stage ends up in the built image; earlier stages are build-time only
+    const dev = index < images.length - 1;
+    components.push({
+      name: image.name,
+      version,
+      ecosystem: 'docker',
+      manifest: 'dockerfile',
+      purl: buildPurl('docker', image.name, version),
+      direct: true,
+      dev,
+      ...(image.digest ? { requested: `${image.tag ? `${image.tag}@` : ''}${image.digest}` } : {}),
+    });
+  });
+
+  return { components, warnings };
+}
+
+// Package URL namespaces of distros whose id differs from their vendor name
+const PURL_DISTROS: Record<string, string> = {
+  'rhel': 'redhat',
+  'centos-stream': 'centos',
+};
+
+/**
+ * Inventory components of OS packages, in the distribution namespace of the
+ * given release or, without one, of the release the packages themselves record
+ */
+export function osPackageComponents(
+  manifest: 'dpkg-status' | 'rpm-qa' | 'apk-installed',
+  packages: { name: string; version: string; arch?: string | undefined }[],
+  osRelease?: OsRelease
+): InventoryComponent[] {
+  const ecosystem = MANIFEST_ECOSYSTEMS[manifest];
+  const draft = packages.map(({ name, version }) => ({ name, version, ecosystem }) as InventoryComponent);
+  const release = osRelease ?? detectOsRelease(draft);
+  const distro = release ? PURL_DISTROS[release.distro] ?? release.distro : undefined;
+
+  return packages.map(({ name, version, arch }) => ({
+    name,
+    version,
+    ecosystem,
+    manifest,
+    purl: buildPurl(ecosystem, name, version, { ...(distro ? { distro } : {}), ...(arch ? { arch } : {}) }),
+    // Package databases do not say which packages were asked for explicitly
+    direct: false,
+    dev: false,
+  }));
+}
+
+function osPackageInventory(
+  manifest: 'dpkg-status' | 'rpm-qa' | 'apk-installed',
+  { packages, warnings }: InstalledPackages,
+  emptyMessage: string
+): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  if (packages.length === 0) {
+    throw new ManifestParseError(emptyMessage);
+  }
+  return { components: osPackageComponents(manifest, packages), warnings };
+}
+
+function parseDpkgStatus(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  return osPackageInventory('dpkg-status', readDpkgStatus(content), 'dpkg status file contains no installed packages');
+}
+
+function parseApkInstalled(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  return osPackageInventory('apk-installed', readApkInstalled(content), 'apk installed database contains no packages');
+}
+
+function parseRpmQa(content: string): Omit<ComponentInventory, 'manifestType' | 'ecosystem'> {
+  return osPackageInventory('rpm-qa', readRpmQa(content), 'rpm -qa output contains no packages');
+}
+
+const PARSERS: Record<ManifestType, (content: string) => Omit<ComponentInventory, 'manifestType' | 'ecosystem'>> = {
+  'package-json': parsePackageJson,
+  'package-lock': parsePackageLock,
+  'yarn-lock': parseYarnLock,
+  'pnpm-lock': parsePnpmLock,
+  'requirements': parseRequirements,
+  'pipfile-lock': parsePipfileLock,
+  'pom': parsePom,
+  'go-mod': parseGoMod,
+  'gemfile-lock': parseGemfileLock,
+  'dockerfile': parseDockerfile,
+  'dpkg-status': parseDpkgStatus,
+  'rpm-qa': parseRpmQa,
+  'apk-installed': parseApkInstalled,
+};
+
+/**
+ * Parse a dependency manifest or lockfile into a normalized component inventory
+ */
+export function parseManifest(fileName: string, content: string, manifestType?: ManifestType): ComponentInventory {
+  const type = manifestType ?? detectManifestType(fileName);
+  if (!type) {
+    throw new ManifestParseError(`Unsupported dependency manifest: ${path.basename(fileName)}`, 'UNSUPPORTED_MANIFEST');
+  }
+
+  const { components, warnings } = PARSERS[type](content);
+
+  return {
+    manifestType: type,
+    ecosystem: MANIFEST_ECOSYSTEMS[type],
+    components,
+    warnings,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Readers for the installed-package databases of Linux hosts and images:
+ * the dpkg status file, the apk installed database and `rpm -qa` output.
+ * The host agent is built from this module alone, so it has no imports.
+ */
+
+export interface InstalledPackage {
+  name: string;
+  version: string;
+  arch?: string;
+}
+
+export interface InstalledPackages {
+  packages: InstalledPackage[];
+  warnings: string[];
+}
+
+// Split a Debian control file or apk database into its stanzas of "Field: value" lines
+function parseStanzas(content: string, separator: RegExp): Map<string, string>[] {
+  return content
+    .split(/\r?\n\s*\r?\n/)
+    .map(stanza => {
+      const fields = new Map<string, string>();
+      let last = '';
+      for (const line of stanza.split(/\r?\n/)) {
+        // Continuation lines of multi-line fields start with whitespace
+        if (/^\s/.test(line)) continue;
+        const match = line.match(separator);
+        if (!match) continue;
+        last = match[1]!;
+        fields.set(last, match[2]!.trim());
+      }
+      return fields;
+    })
+    .filter(fields => fields.size > 0);
+}
+
+export function readDpkgStatus(content: string): InstalledPackages {
+  const packages = parseStanzas(content, /^([A-Za-z][\w-]*):\s?(.*)$/)
+    // Removed packages keep a stanza with their config files until purged
+    .filter(fields => fields.has('Package') && fields.has('Version') && /\sinstalled$/.test(fields.get('Status') ?? ' installed'))
+    .map(fields => ({
+      name: fields.get('Package')!,
+      version: fields.get('Version')!,
+      ...(fields.get('Architecture') ? { arch: fields.get('Architecture')! } : {}),
+    }));
+
+  return { packages, warnings: [] };
+}
+
+export function readApkInstalled(content: string): InstalledPackages {
+  const packages = parseStanzas(content, /^([A-Za-z]):(.*)$/)
+    .filter(fields => fields.has('P') && fields.has('V'))
+    .map(fields => ({
+      name: fields.get('P')!,
+      version: fields.get('V')!,
+      ...(fields.get('A') ? { arch: fields.get('A')! } : {}),
+    }));
+
+  return { packages, warnings: [] };
+}
+
+const RPM_ARCHES = ['x86_64', 'aarch64', 'noarch', 'i686', 'i386', 'ppc64le', 's390x', 'armv7hl'];
+
+export function readRpmQa(content: string): InstalledPackages {
+  const packages: InstalledPackage[] = [];
+  const warnings: string[] = [];
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    let line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    // rpm -qa prints name-version-release.arch
+    let arch: string | undefined;
+    const dot = line.lastIndexOf('.');
+    if (dot > 0 && RPM_ARCHES.includes(line.slice(dot + 1))) {
+      arch = line.slice(dot + 1);
+      line = line.slice(0, dot);
+    }
+
+    const match = line.match(/^(.+)-([^-]+)-([^-]+)$/);
+    if (!match) {
+      warnings.push(`Line ${index + 1}: not an rpm -qa entry: ${raw.trim()}`);
+      return;
+    }
+    // Imported signing keys are listed as packages
+    if (match[1] === 'gpg-pubkey') return;
+
+    packages.push({ name: match[1]!, version: `${match[2]}-${match[3]}`, ...(arch ? { arch } : {}) });
+  });
+
+  return { packages, warnings };
+}
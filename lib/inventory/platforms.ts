@@ -0,0 +1,261 @@
+import { OS_LIFECYCLES, RUNTIME_LIFECYCLES } from './lifecycle-data';
+import { InventoryComponent, OsRelease, RuntimeVersion } from './types';
+
+export interface ImageReference {
+  // Repository without the Docker Hub registry and library/ prefixes, e.g. "node" or "ghcr.io/acme/api"
+  name: string;
+  tag?: string;
+  digest?: string;
+}
+
+// What a base image is built on, as far as its name and tag tell
+export interface ImagePlatform {
+  os?: OsRelease;
+  runtime?: { runtime: 'node' | 'python'; version: string };
+}
+
+// Official images of operating systems, by repository name
+const OS_IMAGES: Record<string, string> = {
+  debian: 'debian',
+  ubuntu: 'ubuntu',
+  alpine: 'alpine',
+  centos: 'centos',
+  rockylinux: 'rocky',
+  almalinux: 'almalinux',
+  oraclelinux: 'oraclelinux',
+  amazonlinux: 'amazonlinux',
+};
+
+// Packages that record the OS release of an rpm-based system
+const RPM_RELEASE_PACKAGES: Record<string, string> = {
+  'centos-release': 'centos',
+  'centos-stream-release': 'centos-stream',
+  'redhat-release': 'rhel',
+  'redhat-release-server': 'rhel',
+  'rocky-release': 'rocky',
+  'almalinux-release': 'almalinux',
+  'oraclelinux-release': 'oraclelinux',
+  'system-release': 'amazonlinux',
+};
+
+// /etc/os-release IDs that differ from the distro ids of the lifecycle tables
+const OS_RELEASE_IDS: Record<string, string> = {
+  ol: 'oraclelinux',
+  amzn: 'amazonlinux',
+};
+
+// Ubuntu's base-files major version for each LTS release
+const UBUNTU_BASE_FILES: Record<string, string> = {
+  '7': '14.04',
+  '9': '16.04',
+  '10': '18.04',
+  '11': '20.04',
+  '12': '22.04',
+  '13': '24.04',
+};
+
+const RUNTIME_PACKAGES: Record<RuntimeVersion['runtime'], RegExp> = {
+  node: /^nodejs$/,
+  python: /^python(3(\.\d+)?)?$/,
+  openssl: /^(openssl|openssl-libs|libssl\d[\w.]*)$/,
+};
+
+const OS_ECOSYSTEMS: InventoryComponent['ecosystem'][] = ['deb', 'rpm', 'apk'];
+
+/**
+ * Split an image reference such as docker.io/library/node:18-alpine@sha256:...
+ */
+export function parseImageReference(reference: string): ImageReference {
+  let rest = reference.trim();
+  let digest: string | undefined;
+  const at = rest.indexOf('@');
+  if (at >= 0) {
+    digest = rest.slice(at + 1);
+    rest = rest.slice(0, at);
+  }
+
+  let tag: string | undefined;
+  const colon = rest.lastIndexOf(':');
+  if (colon > rest.lastIndexOf('/')) {
+    tag = rest.slice(colon + 1);
+    rest = rest.slice(0, colon);
+  }
+
+  const name = rest.toLowerCase().replace(/^(?:(?:index\.)?docker\.io\/)?library\//, '').replace(/^(?:index\.)?docker\.io\//, '');
+  return { name, ...(tag ? { tag } : {}), ...(digest ? { digest } : {}) };
+}
+
+/**
+ * The upstream part of a Debian, rpm or apk package version: "1:3.0.11-1~deb12u2" gives "3.0.11"
+ */
+export function upstreamVersion(version: string): string {
+  let upstream = version.replace(/^\d+:/, '');
+  const revision = upstream.lastIndexOf('-');
+  if (revision > 0) upstream = upstream.slice(0, revision);
+  return upstream.match(/^\d+(?:\.\d+)*/)?.[0] ?? '';
+}
+
+function releaseByCodename(distro: string, codename: string): string | undefined {
+  const releases = OS_LIFECYCLES[distro]?.releases ?? {};
+  return Object.keys(releases).find(version => releases[version]!.codename === codename);
+}
+
+// Major (or major.minor for Alpine and Ubuntu) release of an OS image tag such as 12-slim or 3.19.1
+function osReleaseFromTag(distro: string, tag: string): string | undefined {
+  const [first = ''] = tag.toLowerCase().split('-');
+
+  if (distro === 'debian' || distro === 'ubuntu') {
+    const codename = releaseByCodename(distro, first);
+    if (codename) return codename;
+  }
+  if (distro === 'ubuntu') return first.match(/^\d{2}\.\d{2}$/)?.[0];
+  if (distro === 'alpine') return first.match(/^3\.\d+/)?.[0];
+  if (distro === 'centos' && first.startsWith('stream')) return undefined;
+  if (distro === 'amazonlinux') {
+    if (/^2018\./.test(first) || first === '1') return '1';
+    return first.match(/^(2023|2)(?=\.|$)/)?.[0];
+  }
+
+  return first.replace(/^centos/, '').match(/^\d+/)?.[0];
+}
+
+// The OS release a runtime image variant is built on, e.g. "slim-bookworm" or "alpine3.19"
+function osReleaseFromVariant(variant: string): OsRelease | undefined {
+  for (const part of variant.toLowerCase().split('-')) {
+    const alpine = part.match(/^alpine(3\.\d+)/);
+    if (alpine) return { distro: 'alpine', version: alpine[1]! };
+
+    for (const distro of ['debian', 'ubuntu']) {
+      const version = releaseByCodename(distro, part);
+      if (version) return { distro, version };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Work out the OS release and language runtime of a base image from its
+ * repository and tag, e.g. python:3.8-slim-buster is Python 3.8 on Debian 10.
+ * Floating tags such as latest or lts resolve to nothing.
+ */
+export function describeImage(image: ImageReference): ImagePlatform {
+  const repository = image.name.split('/').pop() ?? image.name;
+  const tag = image.tag ?? '';
+
+  // Red Hat Universal Base Images carry the RHEL major in the repository name
+  const ubi = image.name.match(/(?:^|\/)ubi(\d+)(?:\/|-|$)/);
+  if (ubi) return { os: { distro: 'rhel', version: ubi[1]! } };
+
+  if (image.name === 'quay.io/centos/centos' || repository === 'centos') {
+    const stream = tag.match(/^stream(\d+)/);
+    if (stream) return { os: { distro: 'centos-stream', version: stream[1]! } };
+  }
+
+  const distro = OS_IMAGES[repository];
+  if (distro) {
+    const version = osReleaseFromTag(distro, tag);
+    return version ? { os: { distro, version } } : {};
+  }
+
+  if (repository === 'node' || repository === 'python') {
+    const [, version, variant = ''] = tag.match(/^(\d+(?:\.\d+){0,2})(?:-(.+))?$/) ?? [];
+    const platform: ImagePlatform = {};
+    const os = osReleaseFromVariant(version ? variant : tag);
+    if (os) platform.os = os;
+
+    if (version) {
+      platform.runtime = { runtime: repository, version };
+    } else if (repository === 'node') {
+      // Node.js LTS lines are also tagged by codename, e.g. hydrogen-alpine
+      const releases = RUNTIME_LIFECYCLES.node.releases;
+      const [codename = ''] = tag.toLowerCase().split('-');
+      const major = Object.keys(releases).find(key => releases[key]!.codename === codename);
+      if (major) platform.runtime = { runtime: 'node', version: major };
+    }
+    return platform;
+  }
+
+  return {};
+}
+
+/**
+ * The OS release named by the ID and VERSION_ID of /etc/os-release, e.g.
+ * rhel 9.3 is RHEL 9; NAME tells CentOS Stream from CentOS Linux
+ */
+export function osReleaseFromIdentity(id: string, versionId: string, name = ''): OsRelease | undefined {
+  let distro = OS_RELEASE_IDS[id.toLowerCase()] ?? id.toLowerCase();
+  if (distro === 'centos' && /stream/i.test(name)) distro = 'centos-stream';
+
+  const version = distro === 'ubuntu'
+    ? versionId.match(/^\d{2}\.\d{2}/)?.[0]
+    : distro === 'alpine'
+      ? versionId.match(/^3\.\d+/)?.[0]
+      : versionId.match(/^\d+/)?.[0];
+  return version ? { distro, version } : undefined;
+}
+
+function releaseFromPackages(components: InventoryComponent[]): OsRelease | undefined {
+  for (const component of components) {
+    if (component.ecosystem === 'deb' && component.name === 'base-files') {
+      const major = component.version.match(/^(\d+)/)?.[1];
+      if (!major) continue;
+      if (component.version.includes('ubuntu')) {
+        const version = UBUNTU_BASE_FILES[major];
+        if (version) return { distro: 'ubuntu', version };
+        continue;
+      }
+      return { distro: 'debian', version: major };
+    }
+
+    if (component.ecosystem === 'apk' && (component.name === 'alpine-release' || component.name === 'alpine-base')) {
+      const version = component.version.match(/^3\.\d+/)?.[0];
+      if (version) return { distro: 'alpine', version };
+    }
+
+    const distro = component.ecosystem === 'rpm' ? RPM_RELEASE_PACKAGES[component.name] : undefined;
+    if (distro === 'amazonlinux') {
+      if (/^2018\./.test(component.version)) return { distro, version: '1' };
+      const version = component.version.match(/^(2023|2)(?=[.-]|$)/)?.[0];
+      if (version) return { distro, version };
+    } else if (distro) {
+      const version = component.version.match(/^(\d+)/)?.[1];
+      if (version) return { distro, version };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Work out the OS release of an installed package database from the
+ * packages that record it: base-files on Debian and Ubuntu, alpine-release
+ * on Alpine and the *-release packages of rpm-based distributions
+ */
+export function detectOsRelease(components: InventoryComponent[]): OsRelease | undefined {
+  return releaseFromPackages(components.filter(component => OS_ECOSYSTEMS.includes(component.ecosystem)));
+}
+
+/**
+ * The Node.js, Python and OpenSSL versions that base images and installed
+ * OS packages provide
+ */
+export function detectRuntimes(components: InventoryComponent[]): RuntimeVersion[] {
+  const runtimes: RuntimeVersion[] = [];
+
+  for (const component of components) {
+    if (component.ecosystem === 'docker') {
+      const { runtime } = describeImage({ name: component.name, ...(component.version ? { tag: component.version } : {}) });
+      if (runtime) runtimes.push({ ...runtime, component });
+      continue;
+    }
+
+    if (!OS_ECOSYSTEMS.includes(component.ecosystem)) continue;
+    for (const [runtime, pattern] of Object.entries(RUNTIME_PACKAGES)) {
+      const version = upstreamVersion(component.version);
+      if (pattern.test(component.name) && version) {
+        runtimes.push({ runtime: runtime as RuntimeVersion['runtime'], version, component });
+      }
+    }
+  }
+
+  return runtimes;
+}
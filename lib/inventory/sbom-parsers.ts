@@ -0,0 +1,343 @@
+import path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { buildPurl, ManifestParseError } from './manifest-parsers';
+import { Ecosystem, InventoryComponent, SbomFormat } from './types';
+
+export interface SbomDocument {
+  format: SbomFormat;
+  specVersion: string;
+  // The application the SBOM describes, when it names one
+  subject?: { name: string; version?: string };
+  components: InventoryComponent[];
+  warnings: string[];
+}
+
+// Package URL types that map onto an ecosystem the inventory checks understand
+const PURL_ECOSYSTEMS: Record<string, Ecosystem> = {
+  npm: 'npm',
+  pypi: 'pypi',
+  maven: 'maven',
+  golang: 'go',
+  gem: 'rubygems',
+  deb: 'deb',
+  rpm: 'rpm',
+  apk: 'apk',
+  docker: 'docker',
+};
+
+// SPDX placeholders that carry no license information
+const SPDX_NO_VALUE = ['NOASSERTION', 'NONE', ''];
+
+/**
+ * Recognize an SBOM by its file name, e.g. bom.json, app.cdx.xml or app.spdx.json
+ */
+export function detectSbomFileName(fileName: string): boolean {
+  const name = path.basename(fileName).toLowerCase();
+  return /(^|[._-])(bom|sbom|cdx|cyclonedx|spdx)\.(json|xml)$/.test(name) || name.endsWith('.spdx');
+}
+
+/**
+ * Split a package URL into its parts
+ */
+export function parsePurl(purl: string): { type: string; namespace?: string; name: string; version?: string } | null {
+  const match = purl.trim().match(/^pkg:([^/]+)\/([^?#]+)/);
+  if (!match) return null;
+
+  let rest = match[2]!;
+  let version: string | undefined;
+  const at = rest.lastIndexOf('@');
+  if (at > 0) {
+    version = decodeURIComponent(rest.slice(at + 1));
+    rest = rest.slice(0, at);
+  }
+
+  const segments = rest.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+  const name = segments.pop();
+  if (!name) return null;
+
+  return {
+    type: match[1]!.toLowerCase(),
+    ...(segments.length > 0 ? { namespace: segments.join('/') } : {}),
+    name,
+    ...(version ? { version } : {}),
+  };
+}
+
+// Name a component the way the manifest parsers do for the same ecosystem
+function componentFromPurl(
+  format: SbomFormat,
+  purl: string | undefined,
+  fallback: { name: string; group?: string; version?: string },
+  fields: Pick<InventoryComponent, 'direct' | 'dev'> & { licenses?: string[] }
+): InventoryComponent {
+  const parsed = purl ? parsePurl(purl) : null;
+  const ecosystem: Ecosystem = (parsed && PURL_ECOSYSTEMS[parsed.type]) || 'generic';
+  const version = fallback.version || parsed?.version || '';
+
+  let name = fallback.group ? `${fallback.group}/${fallback.name}` : fallback.name;
+  if (parsed && ecosystem !== 'generic') {
+    const separator = ecosystem === 'maven' ? ':' : '/';
+    // The namespace of an OS package is its distribution, not part of its name
+    const osPackage = ecosystem === 'deb' || ecosystem === 'rpm' || ecosystem === 'apk';
+    name = parsed.namespace && !osPackage ? `${parsed.namespace}${separator}${parsed.name}` : parsed.name;
+    if (ecosystem === 'pypi') {
+      name = name.toLowerCase().replace(/[-_.]+/g, '-');
+    }
+  }
+
+  return {
+    name,
+    version,
+    ecosystem,
+    manifest: format,
+    purl: purl || buildPurl(ecosystem, name, version),
+    direct: fields.direct,
+    dev: fields.dev,
+    ...(fields.licenses && fields.licenses.length > 0 ? { licenses: fields.licenses } : {}),
+  };
+}
+
+const asArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+// CycloneDX component shape shared by the JSON and (normalized) XML forms
+interface CycloneDxComponent {
+  'bom-ref'?: string;
+  type?: string;
+  name?: string;
+  group?: string;
+  version?: string;
+  purl?: string;
+  scope?: string;
+  licenses?: { license?: { id?: string; name?: string }; expression?: string }[];
+  components?: CycloneDxComponent[];
+}
+
+function mapCycloneDx(bom: any, specVersion: string): SbomDocument {
+  const warnings: string[] = [];
+  const root: CycloneDxComponent | undefined = bom.metadata?.component;
+  const rootRef = root?.['bom-ref'];
+
+  // Only the dependency graph tells direct dependencies apart
+  const directRefs = new Set<string>(
+    asArray<any>(bom.dependencies).find(dependency => rootRef && dependency.ref === rootRef)?.dependsOn ?? []
+  );
+
+  const components: InventoryComponent[] = [];
+  const visit = (component: CycloneDxComponent) => {
+    if (!component.name) {
+      warnings.push('Skipped a component without a name');
+    } else if (component.type !== 'file') {
+      const licenses = asArray(component.licenses)
+        .map(license => license.expression ?? license.license?.id ?? license.license?.name)
+        .filter((license): license is string => Boolean(license));
+
+      components.push(componentFromPurl('cyclonedx', component.purl, {
+        name: component.name,
+        ...(component.group ? { group: component.group } : {}),
+        ...(component.version ? { version: String(component.version) } : {}),
+      }, {
+        direct: Boolean(component['bom-ref'] && directRefs.has(component['bom-ref'])),
+        // "excluded" components are not part of the runtime, e.g. build and test tooling
+        dev: component.scope === 'excluded',
+        licenses,
+      }));
+    }
+    asArray(component.components).forEach(visit);
+  };
+  asArray<CycloneDxComponent>(bom.components).forEach(visit);
+
+  return {
+    format: 'cyclonedx',
+    specVersion,
+    ...(root?.name ? { subject: { name: root.name, ...(root.version ? { version: String(root.version) } : {}) } } : {}),
+    components,
+    warnings,
+  };
+}
+
+// Bring CycloneDX XML into the JSON shape: attributes become keys, wrappers are unwrapped
+function normalizeCycloneDxXml(bom: any): any {
+  const component = (raw: any): CycloneDxComponent => ({
+    ...(raw['@_bom-ref'] ? { 'bom-ref': raw['@_bom-ref'] } : {}),
+    ...(raw['@_type'] ? { type: raw['@_type'] } : {}),
+    name: raw.name,
+    group: raw.group,
+    version: raw.version,
+    purl: raw.purl,
+    scope: raw.scope,
+    licenses: [
+      ...asArray<any>(raw.licenses?.license).map(license => ({ license: { id: license.id, name: license.name } })),
+      ...asArray<any>(raw.licenses?.expression).map(expression => ({ expression: String(expression) })),
+    ],
+    components: asArray<any>(raw.components?.component).map(component),
+  });
+
+  return {
+    metadata: bom.metadata?.component ? { component: component(bom.metadata.component) } : undefined,
+    components: asArray<any>(bom.components?.component).map(component),
+    dependencies: asArray<any>(bom.dependencies?.dependency).map(dependency => ({
+      ref: dependency['@_ref'],
+      dependsOn: asArray<any>(dependency.dependency).map(child => child['@_ref']),
+    })),
+  };
+}
+
+// Read SPDX tag-value into the SPDX JSON shape
+function parseSpdxTagValue(content: string): any {
+  const document: any = { packages: [], relationships: [], documentDescribes: [] };
+  let current: any = null;
+  const lines = content.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index]!.match(/^([A-Za-z]+):\s*(.*)$/);
+    if (!match) continue;
+
+    const tag = match[1]!;
+    let value = match[2]!.trim();
+
+    // Multi-line values are wrapped in <text>...</text>
+    if (value.startsWith('<text>') && !value.includes('</text>')) {
+      while (index + 1 < lines.length && !lines[index]!.includes('</text>')) index++;
+      continue;
+    }
+    value = value.replace(/^<text>|<\/text>$/g, '');
+
+    switch (tag) {
+      case 'SPDXVersion':
+        document.spdxVersion = value;
+        break;
+      case 'DocumentDescribes':
+        document.documentDescribes.push(...value.split(/[\s,]+/).filter(Boolean));
+        break;
+      case 'PackageName':
+        current = { name: value, externalRefs: [] };
+        document.packages.push(current);
+        break;
+      case 'SPDXID':
+        if (current) current.SPDXID = value;
+        break;
+      case 'PackageVersion':
+        if (current) current.versionInfo = value;
+        break;
+      case 'PackageLicenseConcluded':
+        if (current) current.licenseConcluded = value;
+        break;
+      case 'PackageLicenseDeclared':
+        if (current) current.licenseDeclared = value;
+        break;
+      case 'ExternalRef': {
+        const [referenceCategory, referenceType, referenceLocator] = value.split(/\s+/);
+        if (current) current.externalRefs.push({ referenceCategory, referenceType, referenceLocator });
+        break;
+      }
+      case 'Relationship': {
+        const [spdxElementId, relationshipType, relatedSpdxElement] = value.split(/\s+/);
+        document.relationships.push({ spdxElementId, relationshipType, relatedSpdxElement });
+        break;
+      }
+    }
+  }
+
+  return document;
+}
+
+function mapSpdx(document: any): SbomDocument {
+  const warnings: string[] = [];
+  const packages = asArray<any>(document.packages);
+  const relationships = asArray<any>(document.relationships);
+
+  const described = new Set<string>([
+    ...asArray<string>(document.documentDescribes),
+    ...relationships
+      .filter(relationship => relationship.relationshipType === 'DESCRIBES')
+      .map(relationship => relationship.relatedSpdxElement),
+  ]);
+
+  const direct = new Set<string>();
+  const dev = new Set<string>();
+  for (const { spdxElementId, relationshipType, relatedSpdxElement } of relationships) {
+    if (relationshipType === 'DEPENDS_ON' && described.has(spdxElementId)) direct.add(relatedSpdxElement);
+    if (relationshipType === 'DEPENDENCY_OF' && described.has(relatedSpdxElement)) direct.add(spdxElementId);
+    if (relationshipType === 'DEV_DEPENDENCY_OF' || relationshipType === 'TEST_DEPENDENCY_OF') {
+      dev.add(spdxElementId);
+      if (described.has(relatedSpdxElement)) direct.add(spdxElementId);
+    }
+  }
+
+  // The described package is the application itself unless it is all the document has
+  const subject = packages.length > 1 ? packages.find(pkg => described.has(pkg.SPDXID)) : undefined;
+  const dependencies = subject ? packages.filter(pkg => !described.has(pkg.SPDXID)) : packages;
+
+  const components = dependencies.flatMap(pkg => {
+    if (!pkg.name) {
+      warnings.push(`Skipped package ${pkg.SPDXID ?? '(no SPDXID)'} without a name`);
+      return [];
+    }
+
+    const purl = asArray<any>(pkg.externalRefs).find(ref => ref.referenceType === 'purl')?.referenceLocator;
+    const license = [pkg.licenseConcluded, pkg.licenseDeclared].find(value => value && !SPDX_NO_VALUE.includes(value));
+
+    return [componentFromPurl('spdx', purl, {
+      name: pkg.name,
+      ...(pkg.versionInfo ? { version: String(pkg.versionInfo) } : {}),
+    }, {
+      direct: direct.has(pkg.SPDXID),
+      dev: dev.has(pkg.SPDXID),
+      ...(license ? { licenses: [license] } : {}),
+    })];
+  });
+
+  return {
+    format: 'spdx',
+    specVersion: String(document.spdxVersion ?? ''),
+    ...(subject ? { subject: { name: subject.name, ...(subject.versionInfo ? { version: subject.versionInfo } : {}) } } : {}),
+    components,
+    warnings,
+  };
+}
+
+/**
+ * Parse a CycloneDX (JSON or XML) or SPDX (JSON or tag-value) SBOM into inventory components.
+ * The format is detected from the content, so the file name does not matter.
+ */
+export function parseSbom(content: string): SbomDocument {
+  const trimmed = content.trimStart();
+
+  if (trimmed.startsWith('{')) {
+    let document: any;
+    try {
+      document = JSON.parse(trimmed);
+    } catch {
+      throw new ManifestParseError('Invalid JSON in SBOM', 'SBOM_PARSE_ERROR');
+    }
+
+    if (document.bomFormat === 'CycloneDX') {
+      return mapCycloneDx(document, String(document.specVersion ?? ''));
+    }
+    if (typeof document.spdxVersion === 'string') {
+      return mapSpdx(document);
+    }
+    throw new ManifestParseError('JSON document is neither CycloneDX nor SPDX', 'UNSUPPORTED_SBOM');
+  }
+
+  if (trimmed.startsWith('<')) {
+    let document: any;
+    try {
+      document = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', parseTagValue: false }).parse(trimmed);
+    } catch {
+      throw new ManifestParseError('Invalid XML in SBOM', 'SBOM_PARSE_ERROR');
+    }
+
+    if (!document?.bom) {
+      throw new ManifestParseError('XML document is not a CycloneDX BOM', 'UNSUPPORTED_SBOM');
+    }
+    const specVersion = String(document.bom['@_xmlns'] ?? '').match(/bom\/([\d.]+)$/)?.[1] ?? '';
+    return mapCycloneDx(normalizeCycloneDxXml(document.bom), specVersion);
+  }
+
+  if (/^SPDXVersion:/m.test(content)) {
+    return mapSpdx(parseSpdxTagValue(content));
+  }
+
+  throw new ManifestParseError('Unrecognized SBOM format; expected CycloneDX or SPDX', 'UNSUPPORTED_SBOM');
+}
@@ -0,0 +1,73 @@
+// Component inventory types shared by the manifest parsers and inventory checks
+
+// "generic" covers SBOM components whose package type we do not check;
+// deb, rpm and apk are OS packages and docker covers container base images
+export type Ecosystem = 'npm' | 'pypi' | 'maven' | 'go' | 'rubygems' | 'deb' | 'rpm' | 'apk' | 'docker' | 'generic';
+
+export type ManifestType =
+  | 'package-json'
+  | 'package-lock'
+  | 'yarn-lock'
+  | 'pnpm-lock'
+  | 'requirements'
+  | 'pipfile-lock'
+  | 'pom'
+  | 'go-mod'
+  | 'gemfile-lock'
+  | 'dockerfile'
+  | 'dpkg-status'
+  | 'rpm-qa'
+  | 'apk-installed';
+
+export type SbomFormat = 'cyclonedx' | 'spdx';
+
+export interface InventoryComponent {
+  name: string;
+  // Empty when the manifest declares the dependency without resolving it
+  version: string;
+  ecosystem: Ecosystem;
+  // Manifest or SBOM format the component was read from
+  manifest: ManifestType | SbomFormat;
+  // Package URL (https://github.com/package-url/purl-spec)
+  purl: string;
+  // Declared by the project itself rather than pulled in transitively
+  direct: boolean;
+  // Only needed for development or tests
+  dev: boolean;
+  // Version constraint as written in the manifest, when it differs from the resolved version
+  requested?: string;
+  // Where the component sits in the dependency tree, e.g. node_modules/a/node_modules/b
+  path?: string;
+  // SPDX license identifiers or expressions, when the source records them
+  licenses?: string[];
+}
+
+export interface ComponentInventory {
+  manifestType: ManifestType;
+  ecosystem: Ecosystem;
+  components: InventoryComponent[];
+  // Lines or entries that could not be understood
+  warnings: string[];
+}
+
+// An operating system release, e.g. { distro: 'debian', version: '12' }
+export interface OsRelease {
+  distro: string;
+  version: string;
+}
+
+// A language runtime or library an image or OS package inventory provides
+export interface RuntimeVersion {
+  runtime: 'node' | 'python' | 'openssl';
+  // Upstream version, as precise as the source gives it: "18" for a node:18 image
+  version: string;
+  // Image or package the version was read from
+  component: InventoryComponent;
+}
+
+// A runtime binary found on a host, e.g. /usr/local/bin/node
+export interface InstalledRuntime {
+  runtime: RuntimeVersion['runtime'];
+  version: string;
+  path: string;
+}
@@ -0,0 +1,110 @@
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine';
+import { DEFAULT_KUBERNETES_VERSION, KubernetesApiDeprecation, findApiDeprecation } from './api-deprecations';
+import { KubernetesResource } from './types';
+
+export interface KubernetesCheckOptions {
+  // Kubernetes minor version the manifests will be applied to, e.g. "1.29"
+  targetVersion?: string;
+}
+
+const KUBERNETES_VERSION = /^v?(\d+)\.(\d+)(?:\.\d+)?(?:[-+].*)?$/;
+
+/**
+ * Normalize a cluster version such as "v1.29.3" or "1.29" to its minor
+ * version ("1.29"); null when the value is not a Kubernetes version
+ */
+export function normalizeKubernetesVersion(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = KUBERNETES_VERSION.exec(value.trim());
+  return match ? `${Number(match[1])}.${Number(match[2])}` : null;
+}
+
+function compareVersions(a: string, b: string): number {
+  const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+function qualifiedName(resource: KubernetesResource): string {
+  return resource.namespace ? `${resource.namespace}/${resource.name}` : resource.name;
+}
+
+function recommendationFor(deprecation: KubernetesApiDeprecation): string {
+  if (!deprecation.replacement) {
+    return `${deprecation.apiVersion} ${deprecation.kinds.join(', ')} has no replacement. ${deprecation.changes.join('. ')}.`;
+  }
+
+  const recommendation = `Change apiVersion to ${deprecation.replacement}.`;
+  return deprecation.changes.length > 0
+    ? `${recommendation} Changes to review: ${deprecation.changes.join('; ')}.`
+    : recommendation;
+}
+
+function resourceResult(
+  resource: KubernetesResource,
+  deprecation: KubernetesApiDeprecation,
+  targetVersion: string
+): AnalysisResult {
+  const removed = compareVersions(targetVersion, deprecation.removedIn) >= 0;
+  const name = qualifiedName(resource);
+  const api = name ? `${resource.apiVersion} ${resource.kind} "${name}"` : `${resource.apiVersion} ${resource.kind}`;
+  const replacement = deprecation.replacement ? `; use ${deprecation.replacement}` : ' without a replacement';
+
+  const message = removed
+    ? `${api} is no longer served by Kubernetes ${targetVersion} (removed in ${deprecation.removedIn})${replacement}`
+    : `${api} is deprecated since Kubernetes ${deprecation.deprecatedIn} and removed in ${deprecation.removedIn}${replacement}`;
+
+  return {
+    ruleId: `k8s-api:${resource.apiVersion}/${resource.kind}`,
+    status: removed ? ResultStatus.FAILED : ResultStatus.WARNING,
+    severity: removed ? RuleSeverity.HIGH : RuleSeverity.MEDIUM,
+    message,
+    details: {
+      apiVersion: resource.apiVersion,
+      kind: resource.kind,
+      name: resource.name,
+      ...(resource.namespace ? { namespace: resource.namespace } : {}),
+      file: resource.file,
+      ...(resource.source ? { helmSource: resource.source } : {}),
+      replacement: deprecation.replacement,
+      changes: deprecation.changes,
+      deprecatedIn: deprecation.deprecatedIn,
+      removedIn: deprecation.removedIn,
+      targetVersion,
+      locations: [{ uri: resource.file, startLine: resource.line, startColumn: 1 }],
+    },
+    recommendations: recommendationFor(deprecation),
+    affectedComponents: [
+      `Resource: ${name ? `${resource.kind}/${name}` : resource.kind}`,
+      `File: ${resource.file}:${resource.line}`,
+      ...(resource.source ? [`Template: ${resource.source}`] : []),
+    ],
+    metadata: {
+      source: 'kubernetes_manifest',
+      check: removed ? 'removed_api' : 'deprecated_api',
+      pattern: 'deprecated_api',
+    },
+    confidence: 1,
+  };
+}
+
+/**
+ * Check manifest resources against the Kubernetes API deprecation table for
+ * a target cluster version. Resources whose API is no longer served by the
+ * target fail; APIs deprecated by the target but still served are warnings.
+ */
+export function checkKubernetesResources(
+  resources: KubernetesResource[],
+  options: KubernetesCheckOptions = {}
+): AnalysisResult[] {
+  const targetVersion = normalizeKubernetesVersion(options.targetVersion) ?? DEFAULT_KUBERNETES_VERSION;
+  const results: AnalysisResult[] = [];
+
+  for (const resource of resources) {
+    const deprecation = findApiDeprecation(resource.apiVersion, resource.kind);
+    if (!deprecation || compareVersions(targetVersion, deprecation.deprecatedIn) < 0) continue;
+    results.push(resourceResult(resource, deprecation, targetVersion));
+  }
+
+  return results;
+}
@@ -0,0 +1,336 @@
+export interface KubernetesApiDeprecation {
+  apiVersion: string;
+  // Kinds served under apiVersion that the entry covers
+  kinds: string[];
+  deprecatedIn: string;
+  removedIn: string;
+  // API version to migrate to; null when the API was removed without a replacement
+  replacement: string | null;
+  // Fields and defaults that differ in the replacement
+  changes: string[];
+}
+
+// Newest Kubernetes release the table below was checked against; scans target it by default
+export const DEFAULT_KUBERNETES_VERSION = '1.33';
+
+const WORKLOAD_CHANGES = [
+  'spec.selector is required and can no longer be defaulted from the pod template labels',
+];
+
+const INGRESS_CHANGES = [
+  'spec.backend is renamed to spec.defaultBackend',
+  'backend.serviceName is renamed to backend.service.name',
+  'backend.servicePort is replaced by backend.service.port.number or backend.service.port.name',
+  'pathType is required on every path (Exact, Prefix or ImplementationSpecific)',
+];
+
+const FLOWCONTROL_KINDS = ['FlowSchema', 'PriorityLevelConfiguration'];
+
+// Curated from the Kubernetes deprecated API migration guide
+// (https://kubernetes.io/docs/reference/using-api/deprecation-guide/)
+export const KUBERNETES_API_DEPRECATIONS: KubernetesApiDeprecation[] = [
+  // Removed in 1.16
+  {
+    apiVersion: 'extensions/v1beta1',
+    kinds: ['Deployment', 'DaemonSet', 'ReplicaSet'],
+    deprecatedIn: '1.9',
+    removedIn: '1.16',
+    replacement: 'apps/v1',
+    changes: [
+      ...WORKLOAD_CHANGES,
+      'Deployment spec.rollbackTo is removed',
+      'DaemonSet spec.templateGeneration is removed and spec.updateStrategy defaults to RollingUpdate',
+    ],
+  },
+  {
+    apiVersion: 'apps/v1beta1',
+    kinds: ['Deployment', 'StatefulSet'],
+    deprecatedIn: '1.9',
+    removedIn: '1.16',
+    replacement: 'apps/v1',
+    changes: [
+      ...WORKLOAD_CHANGES,
+      'Deployment spec.rollbackTo is removed',
+      'StatefulSet spec.updateStrategy defaults to RollingUpdate',
+    ],
+  },
+  {
+    apiVersion: 'apps/v1beta2',
+    kinds: ['Deployment', 'DaemonSet', 'ReplicaSet', 'StatefulSet'],
+    deprecatedIn: '1.9',
+    removedIn: '1.16',
+    replacement: 'apps/v1',
+    changes: WORKLOAD_CHANGES,
+  },
+  {
+    apiVersion: 'extensions/v1beta1',
+    kinds: ['NetworkPolicy'],
+    deprecatedIn: '1.9',
+    removedIn: '1.16',
+    replacement: 'networking.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'extensions/v1beta1',
+    kinds: ['PodSecurityPolicy'],
+    deprecatedIn: '1.10',
+    removedIn: '1.16',
+    replacement: 'policy/v1beta1',
+    changes: ['policy/v1beta1 PodSecurityPolicy is itself removed in 1.25; plan a move to Pod Security Admission'],
+  },
+
+  // Removed in 1.22
+  {
+    apiVersion: 'extensions/v1beta1',
+    kinds: ['Ingress'],
+    deprecatedIn: '1.14',
+    removedIn: '1.22',
+    replacement: 'networking.k8s.io/v1',
+    changes: INGRESS_CHANGES,
+  },
+  {
+    apiVersion: 'networking.k8s.io/v1beta1',
+    kinds: ['Ingress'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'networking.k8s.io/v1',
+    changes: INGRESS_CHANGES,
+  },
+  {
+    apiVersion: 'networking.k8s.io/v1beta1',
+    kinds: ['IngressClass'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'networking.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'admissionregistration.k8s.io/v1beta1',
+    kinds: ['MutatingWebhookConfiguration', 'ValidatingWebhookConfiguration'],
+    deprecatedIn: '1.16',
+    removedIn: '1.22',
+    replacement: 'admissionregistration.k8s.io/v1',
+    changes: [
+      'webhooks[*].failurePolicy defaults to Fail instead of Ignore',
+      'webhooks[*].matchPolicy defaults to Equivalent instead of Exact',
+      'webhooks[*].timeoutSeconds defaults to 10s instead of 30s',
+      'webhooks[*].sideEffects is required and must be None or NoneOnDryRun',
+      'webhooks[*].admissionReviewVersions is required',
+      'webhooks[*].name must be unique within the configuration',
+    ],
+  },
+  {
+    apiVersion: 'apiextensions.k8s.io/v1beta1',
+    kinds: ['CustomResourceDefinition'],
+    deprecatedIn: '1.16',
+    removedIn: '1.22',
+    replacement: 'apiextensions.k8s.io/v1',
+    changes: [
+      'spec.scope is required',
+      'spec.version is removed; list versions in spec.versions',
+      'spec.validation moves to spec.versions[*].schema and a structural schema is required',
+      'spec.subresources and spec.additionalPrinterColumns move to spec.versions[*]',
+      'additionalPrinterColumns[*].JSONPath is renamed to jsonPath',
+      'spec.preserveUnknownFields: true is not allowed; use x-kubernetes-preserve-unknown-fields in the schema',
+      'spec.conversion.webhookClientConfig moves to spec.conversion.webhook.clientConfig',
+      'spec.conversion.webhook.conversionReviewVersions is required',
+    ],
+  },
+  {
+    apiVersion: 'apiregistration.k8s.io/v1beta1',
+    kinds: ['APIService'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'apiregistration.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'authentication.k8s.io/v1beta1',
+    kinds: ['TokenReview'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'authentication.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'authorization.k8s.io/v1beta1',
+    kinds: ['SubjectAccessReview', 'LocalSubjectAccessReview', 'SelfSubjectAccessReview', 'SelfSubjectRulesReview'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'authorization.k8s.io/v1',
+    changes: ['spec.group is renamed to spec.groups'],
+  },
+  {
+    apiVersion: 'certificates.k8s.io/v1beta1',
+    kinds: ['CertificateSigningRequest'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'certificates.k8s.io/v1',
+    changes: [
+      'spec.signerName is required and must name a known signer',
+      'spec.usages is required and may not contain duplicates',
+      'status.conditions may not contain duplicate types and status.conditions[*].status is required',
+      'status.certificate must be PEM-encoded',
+    ],
+  },
+  {
+    apiVersion: 'coordination.k8s.io/v1beta1',
+    kinds: ['Lease'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'coordination.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'rbac.authorization.k8s.io/v1beta1',
+    kinds: ['ClusterRole', 'ClusterRoleBinding', 'Role', 'RoleBinding'],
+    deprecatedIn: '1.17',
+    removedIn: '1.22',
+    replacement: 'rbac.authorization.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'scheduling.k8s.io/v1beta1',
+    kinds: ['PriorityClass'],
+    deprecatedIn: '1.14',
+    removedIn: '1.22',
+    replacement: 'scheduling.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'storage.k8s.io/v1beta1',
+    kinds: ['CSIDriver', 'CSINode', 'StorageClass', 'VolumeAttachment'],
+    deprecatedIn: '1.19',
+    removedIn: '1.22',
+    replacement: 'storage.k8s.io/v1',
+    changes: [],
+  },
+
+  // Removed in 1.25
+  {
+    apiVersion: 'batch/v1beta1',
+    kinds: ['CronJob'],
+    deprecatedIn: '1.21',
+    removedIn: '1.25',
+    replacement: 'batch/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'discovery.k8s.io/v1beta1',
+    kinds: ['EndpointSlice'],
+    deprecatedIn: '1.21',
+    removedIn: '1.25',
+    replacement: 'discovery.k8s.io/v1',
+    changes: [
+      'endpoints[*].topology is removed',
+      'the kubernetes.io/hostname topology key moves to endpoints[*].nodeName',
+      'the topology.kubernetes.io/zone topology key moves to endpoints[*].zone',
+    ],
+  },
+  {
+    apiVersion: 'events.k8s.io/v1beta1',
+    kinds: ['Event'],
+    deprecatedIn: '1.19',
+    removedIn: '1.25',
+    replacement: 'events.k8s.io/v1',
+    changes: [
+      'type is limited to Normal and Warning',
+      'involvedObject is renamed to regarding',
+      'action, reason, reportingController and reportingInstance are required for new events',
+      'eventTime is required for new events',
+      'firstTimestamp, lastTimestamp and count are renamed to deprecatedFirstTimestamp, deprecatedLastTimestamp and deprecatedCount',
+      'source is renamed to deprecatedSource',
+    ],
+  },
+  {
+    apiVersion: 'autoscaling/v2beta1',
+    kinds: ['HorizontalPodAutoscaler'],
+    deprecatedIn: '1.23',
+    removedIn: '1.25',
+    replacement: 'autoscaling/v2',
+    changes: [
+      'targetAverageUtilization is replaced by target.averageUtilization with target.type: Utilization',
+      'targetAverageValue is replaced by target.averageValue with target.type: AverageValue',
+    ],
+  },
+  {
+    apiVersion: 'policy/v1beta1',
+    kinds: ['PodDisruptionBudget'],
+    deprecatedIn: '1.21',
+    removedIn: '1.25',
+    replacement: 'policy/v1',
+    changes: ['an empty spec.selector selects every pod in the namespace instead of none'],
+  },
+  {
+    apiVersion: 'policy/v1beta1',
+    kinds: ['PodSecurityPolicy'],
+    deprecatedIn: '1.21',
+    removedIn: '1.25',
+    replacement: null,
+    changes: ['Enforce pod security with Pod Security Admission namespace labels or a third-party admission webhook'],
+  },
+  {
+    apiVersion: 'node.k8s.io/v1beta1',
+    kinds: ['RuntimeClass'],
+    deprecatedIn: '1.20',
+    removedIn: '1.25',
+    replacement: 'node.k8s.io/v1',
+    changes: [],
+  },
+
+  // Removed in 1.26 and later
+  {
+    apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta1',
+    kinds: FLOWCONTROL_KINDS,
+    deprecatedIn: '1.23',
+    removedIn: '1.26',
+    replacement: 'flowcontrol.apiserver.k8s.io/v1',
+    changes: [
+      'flowcontrol.apiserver.k8s.io/v1 is served from 1.29; use v1beta3 on older clusters',
+      'PriorityLevelConfiguration spec.limited.assuredConcurrencyShares is renamed to spec.limited.nominalConcurrencyShares',
+    ],
+  },
+  {
+    apiVersion: 'autoscaling/v2beta2',
+    kinds: ['HorizontalPodAutoscaler'],
+    deprecatedIn: '1.23',
+    removedIn: '1.26',
+    replacement: 'autoscaling/v2',
+    changes: [],
+  },
+  {
+    apiVersion: 'storage.k8s.io/v1beta1',
+    kinds: ['CSIStorageCapacity'],
+    deprecatedIn: '1.24',
+    removedIn: '1.27',
+    replacement: 'storage.k8s.io/v1',
+    changes: [],
+  },
+  {
+    apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta2',
+    kinds: FLOWCONTROL_KINDS,
+    deprecatedIn: '1.26',
+    removedIn: '1.29',
+    replacement: 'flowcontrol.apiserver.k8s.io/v1',
+    changes: [
+      'PriorityLevelConfiguration spec.limited.assuredConcurrencyShares is renamed to spec.limited.nominalConcurrencyShares',
+    ],
+  },
+  {
+    apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta3',
+    kinds: FLOWCONTROL_KINDS,
+    deprecatedIn: '1.29',
+    removedIn: '1.32',
+    replacement: 'flowcontrol.apiserver.k8s.io/v1',
+    changes: [
+      'PriorityLevelConfiguration spec.limited.nominalConcurrencyShares of 0 means zero shares instead of the default of 30',
+    ],
+  },
+];
+
+/**
+ * Look up the deprecation entry for a resource's apiVersion and kind
+ */
+export function findApiDeprecation(apiVersion: string, kind: string): KubernetesApiDeprecation | undefined {
+  return KUBERNETES_API_DEPRECATIONS.find(entry => entry.apiVersion === apiVersion && entry.kinds.includes(kind));
+}
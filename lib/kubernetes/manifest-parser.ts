@@ -0,0 +1,144 @@
+import path from 'path';
+import yaml, { YAMLException } from 'js-yaml';
+import { KubernetesResource } from './types';
+
+// Manifest parsing error types
+export class KubernetesManifestError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'KUBERNETES_MANIFEST_ERROR'
+  ) {
+    super(message);
+    this.name = 'KubernetesManifestError';
+  }
+}
+
+export interface KubernetesManifest {
+  resources: KubernetesResource[];
+  // Documents that could not be read as Kubernetes resources
+  warnings: string[];
+}
+
+interface ManifestDocument {
+  lines: string[];
+  // 1-based line of the document's first line in the file
+  startLine: number;
+}
+
+const DOCUMENT_SEPARATOR = /^---(\s|$)/;
+const DOCUMENT_END = /^\.\.\.\s*$/;
+// helm template marks each rendered document with the template it came from
+const HELM_SOURCE = /^#\s*Source:\s*(\S+)/;
+const TOP_LEVEL_API_VERSION = /^apiVersion\s*:\s*(.*)$/;
+const NESTED_API_VERSION = /^(?:\s*-\s+|\s+)apiVersion\s*:\s*(.*)$/;
+
+/**
+ * Recognize an uploaded Kubernetes manifest by its file name. Lockfiles that
+ * are also YAML (pnpm-lock.yaml) must be matched before this.
+ */
+export function isKubernetesManifestFileName(fileName: string): boolean {
+  const extension = path.extname(fileName).toLowerCase();
+  return extension === '.yaml' || extension === '.yml';
+}
+
+function splitDocuments(content: string): ManifestDocument[] {
+  const documents: ManifestDocument[] = [];
+  let current: ManifestDocument = { lines: [], startLine: 1 };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (DOCUMENT_SEPARATOR.test(line) || DOCUMENT_END.test(line)) {
+      documents.push(current);
+      current = { lines: [], startLine: index + 2 };
+      return;
+    }
+    current.lines.push(line);
+  });
+  documents.push(current);
+
+  // Separators around comments or blank lines leave documents with no content
+  return documents.filter(document =>
+    document.lines.some(line => line.trim() !== '' && !line.trimStart().startsWith('#'))
+  );
+}
+
+function unquote(value: string): string {
+  return value.replace(/\s+#.*$/, '').trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isList(value: Record<string, any>): boolean {
+  return typeof value.kind === 'string' && value.kind.endsWith('List') && Array.isArray(value.items);
+}
+
+/**
+ * Read the resources of a Kubernetes manifest: plain YAML, multi-document
+ * files, kubectl List output and Helm-rendered templates. Documents that are
+ * not Kubernetes resources are reported as warnings; a file without any
+ * resources is an error.
+ */
+export function parseKubernetesManifest(fileName: string, content: string): KubernetesManifest {
+  const resources: KubernetesResource[] = [];
+  const warnings: string[] = [];
+
+  for (const document of splitDocuments(content)) {
+    let parsed: unknown;
+    try {
+      parsed = yaml.load(document.lines.join('\n'));
+    } catch (error) {
+      if (!(error instanceof YAMLException)) throw error;
+      warnings.push(`Line ${document.startLine + (error.mark?.line ?? 0)}: ${error.reason}`);
+      continue;
+    }
+
+    if (!isObject(parsed)) {
+      warnings.push(`Line ${document.startLine}: document is not a Kubernetes resource`);
+      continue;
+    }
+
+    const list = isList(parsed);
+    const objects: unknown[] = list ? parsed.items : [parsed];
+    const source = document.lines.map(line => HELM_SOURCE.exec(line)?.[1]).find(Boolean);
+
+    // Resources are located by their apiVersion line, matched in document order
+    const apiVersionPattern = list ? NESTED_API_VERSION : TOP_LEVEL_API_VERSION;
+    const candidates = document.lines.flatMap((line, index) => {
+      const match = apiVersionPattern.exec(line);
+      return match ? [{ value: unquote(match[1]!), line: document.startLine + index }] : [];
+    });
+
+    for (const object of objects) {
+      if (!isObject(object) || typeof object.apiVersion !== 'string' || typeof object.kind !== 'string') {
+        warnings.push(`Line ${document.startLine}: document has no apiVersion or kind`);
+        continue;
+      }
+
+      const index = candidates.findIndex(candidate => candidate.value === object.apiVersion);
+      const [located] = index >= 0 ? candidates.splice(index, 1) : [];
+      const metadata = isObject(object.metadata) ? object.metadata : {};
+
+      resources.push({
+        apiVersion: object.apiVersion,
+        kind: object.kind,
+        name: String(metadata.name ?? metadata.generateName ?? ''),
+        ...(typeof metadata.namespace === 'string' ? { namespace: metadata.namespace } : {}),
+        file: fileName,
+        line: located?.line ?? document.startLine,
+        ...(source ? { source } : {}),
+      });
+    }
+  }
+
+  if (resources.length === 0) {
+    throw new KubernetesManifestError(
+      warnings.length > 0
+        ? `No Kubernetes resources could be read from ${fileName}: ${warnings[0]}`
+        : `No Kubernetes resources found in ${fileName}`,
+      'NO_RESOURCES'
+    );
+  }
+
+  return { resources, warnings };
+}
@@ -0,0 +1,14 @@
+// Kubernetes manifest types shared by the manifest parser and the API checks
+
+export interface KubernetesResource {
+  apiVersion: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  // Uploaded file the resource was read from
+  file: string;
+  // Line of the resource's apiVersion field
+  line: number;
+  // Chart template of a Helm-rendered resource, from its "# Source:" comment
+  source?: string;
+}
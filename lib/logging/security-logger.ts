@@ -76,6 +76,10 @@ function getSeverityForEventType(eventType: string): 'low' | 'medium' | 'high' |
     [securityEventTypes.MFA_DISABLED]: 'high',
     [securityEventTypes.MFA_SUCCESS]: 'low',
     [securityEventTypes.MFA_FAILURE]: 'medium',
+    [securityEventTypes.MFA_RESET]: 'high',
+    [securityEventTypes.MFA_BACKUP_CODE_USED]: 'medium',
+    [securityEventTypes.MFA_BACKUP_CODES_REGENERATED]: 'medium',
+    [securityEventTypes.MFA_POLICY_CHANGED]: 'high',
     [securityEventTypes.API_KEY_CREATED]: 'medium',
     [securityEventTypes.API_KEY_DELETED]: 'medium',
     [securityEventTypes.PERMISSION_DENIED]: 'high',
@@ -102,6 +106,10 @@ function formatEventDescription(event: SecurityEvent): string {
     [securityEventTypes.MFA_DISABLED]: `Two-factor authentication disabled`,
     [securityEventTypes.MFA_SUCCESS]: `Two-factor authentication successful`,
     [securityEventTypes.MFA_FAILURE]: `Two-factor authentication failed`,
+    [securityEventTypes.MFA_RESET]: `Two-factor authentication reset by an administrator`,
+    [securityEventTypes.MFA_BACKUP_CODE_USED]: `Signed in with a backup code`,
+    [securityEventTypes.MFA_BACKUP_CODES_REGENERATED]: `Backup codes regenerated`,
+    [securityEventTypes.MFA_POLICY_CHANGED]: `Organization two-factor requirement changed`,
     [securityEventTypes.API_KEY_CREATED]: `API key created`,
     [securityEventTypes.API_KEY_DELETED]: `API key deleted`,
     [securityEventTypes.PERMISSION_DENIED]: `Access denied - insufficient permissions`,
@@ -158,6 +166,22 @@ export async function logPasswordChange(userId: string, email: string, ipAddress
   });
 }
 
+export async function logMfaEvent(
+  type: string,
+  userId: string,
+  email?: string,
+  ipAddress?: string,
+  metadata?: Record<string, any>
+) {
+  await logSecurityEvent({
+    type,
+    userId,
+    ...(email ? { email } : {}),
+    ...(ipAddress ? { ipAddress } : {}),
+    ...(metadata ? { metadata } : {}),
+  });
+}
+
 export async function logSuspiciousActivity(
   description: string,
   userId?: string,
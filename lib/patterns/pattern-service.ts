@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import { detectionPatterns, DetectionPatternRecord } from '@/lib/db/schema';
+import { eq, and, or, asc, isNull, sql } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import type { RuleActor } from '@/lib/compatibility/rule-service';
+import { PatternCategory, PatternDefinition } from './types';
+import { ALLOWED_FLAGS, MAX_INPUT_LENGTH, MAX_PATTERN_LENGTH, compileSafeRegex } from './safe-regex';
+import { timedMatchAll } from './regex-runner';
+import { probeRegex } from './regex-probe';
+
+const PatternFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100).regex(/^[a-z0-9_]+$/, 'Name must be snake_case'),
+  description: z.string().max(2000).optional(),
+  category: z.nativeEnum(PatternCategory),
+  pattern: z.string().min(1).max(MAX_PATTERN_LENGTH),
+  flags: z.string().regex(ALLOWED_FLAGS, 'Flags may only contain g, i, m, s and u').default('gi'),
+  isEnabled: z.boolean().default(true),
+});
+
+// Pattern payload validation; unsafe patterns are rejected before they are saved
+export const PatternInputSchema = PatternFieldsSchema.superRefine((input, ctx) => {
+  const unsafe = probeRegex(input.pattern, input.flags);
+  if (unsafe) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: unsafe });
+  }
+});
+
+export const PatternUpdateSchema = PatternFieldsSchema.partial();
+
+export const PatternTestSchema = z.object({
+  pattern: z.string().min(1).max(MAX_PATTERN_LENGTH),
+  flags: z.string().regex(ALLOWED_FLAGS).default('gi'),
+  samples: z.array(z.string().max(MAX_INPUT_LENGTH)).min(1).max(50),
+});
+
+export type PatternInput = z.infer<typeof PatternInputSchema>;
+export type PatternUpdate = z.infer<typeof PatternUpdateSchema>;
+export type PatternTestInput = z.infer<typeof PatternTestSchema>;
+
+export interface PatternTestResult {
+  // Why the pattern would be rejected on save, or null when it is safe
+  error: string | null;
+  samples: {
+    sample: string;
+    matches: string[];
+  }[];
+}
+
+export interface PatternListFilters {
+  category?: string;
+  isEnabled?: boolean;
+}
+
+// Pattern library service error types
+export class PatternServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'PatternServiceError';
+  }
+}
+
+// Patterns visible to an organization: its own patterns plus global ones
+function visibilityClause(organizationId: string | null) {
+  return organizationId
+    ? or(eq(detectionPatterns.organizationId, organizationId), isNull(detectionPatterns.organizationId))
+    : isNull(detectionPatterns.organizationId);
+}
+
+function ownerClause(organizationId: string | null) {
+  return organizationId
+    ? eq(detectionPatterns.organizationId, organizationId)
+    : isNull(detectionPatterns.organizationId);
+}
+
+// Results of a test run are capped so a broad pattern cannot flood the response
+const MAX_TEST_MATCHES = 20;
+
+export class PatternLibraryService {
+
+  async listPatterns(organizationId: string | null, filters: PatternListFilters = {}): Promise<DetectionPatternRecord[]> {
+    const conditions = [visibilityClause(organizationId)];
+
+    if (filters.category) {
+      conditions.push(eq(detectionPatterns.category, filters.category));
+    }
+
+    if (filters.isEnabled !== undefined) {
+      conditions.push(eq(detectionPatterns.isEnabled, filters.isEnabled));
+    }
+
+    return db
+      .select()
+      .from(detectionPatterns)
+      .where(and(...conditions))
+      .orderBy(asc(detectionPatterns.category), asc(detectionPatterns.name));
+  }
+
+  /**
+   * The patterns a scan of the organization searches for. An organization
+   * pattern shadows the global pattern of the same name, so disabling an
+   * organization copy turns a global pattern off for that organization.
+   */
+  async getActivePatterns(organizationId: string | null): Promise<PatternDefinition[]> {
+    const rows = await this.listPatterns(organizationId);
+
+    const byName = new Map<string, DetectionPatternRecord>();
+    for (const row of rows) {
+      const existing = byName.get(row.name);
+      if (!existing || (existing.organizationId === null && row.organizationId !== null)) {
+        byName.set(row.name, row);
+      }
+    }
+
+    return Array.from(byName.values())
+      .filter(row => row.isEnabled)
+      .map(row => ({
+        id: row.id,
+        name: row.name,
+        category: row.category as PatternCategory,
+        pattern: row.pattern,
+        flags: row.flags,
+      }));
+  }
+
+  async getPattern(id: string, organizationId: string | null): Promise<DetectionPatternRecord> {
+    const [pattern] = await db
+      .select()
+      .from(detectionPatterns)
+      .where(and(eq(detectionPatterns.id, id), visibilityClause(organizationId)))
+      .limit(1);
+
+    if (!pattern) {
+      throw new PatternServiceError('Pattern not found', 'PATTERN_NOT_FOUND', 404);
+    }
+
+    return pattern;
+  }
+
+  async createPattern(input: PatternInput, actor: RuleActor): Promise<DetectionPatternRecord> {
+    if (actor.organizationId === null && !actor.isSystemAdmin) {
+      throw new PatternServiceError('Only system administrators can add global patterns', 'PATTERN_READ_ONLY', 403);
+    }
+
+    await this.assertNameAvailable(input.name, actor.organizationId);
+
+    const [pattern] = await db
+      .insert(detectionPatterns)
+      .values({
+        id: generateId(16),
+        organizationId: actor.organizationId,
+        name: input.name,
+        description: input.description ?? null,
+        category: input.category,
+        pattern: input.pattern,
+        flags: input.flags,
+        isEnabled: input.isEnabled,
+        createdBy: actor.userId,
+        updatedBy: actor.userId,
+      })
+      .returning();
+
+    if (!pattern) {
+      throw new PatternServiceError('Failed to create pattern', 'PATTERN_CREATE_FAILED', 500);
+    }
+
+    return pattern;
+  }
+
+  async updatePattern(id: string, updates: PatternUpdate, actor: RuleActor): Promise<DetectionPatternRecord> {
+    const existing = await this.getPattern(id, actor.organizationId);
+    this.assertCanModify(existing, actor);
+
+    if (updates.name !== undefined && updates.name !== existing.name) {
+      await this.assertNameAvailable(updates.name, existing.organizationId);
+    }
+
+    if (updates.pattern !== undefined || updates.flags !== undefined) {
+      const unsafe = probeRegex(updates.pattern ?? existing.pattern, updates.flags ?? existing.flags);
+      if (unsafe) {
+        throw new PatternServiceError(unsafe, 'UNSAFE_PATTERN');
+      }
+    }
+
+    const [pattern] = await db
+      .update(detectionPatterns)
+      .set({
+        ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+        updatedBy: actor.userId,
+        updatedAt: new Date(),
+      })
+      .where(eq(detectionPatterns.id, id))
+      .returning();
+
+    if (!pattern) {
+      throw new PatternServiceError('Pattern not found', 'PATTERN_NOT_FOUND', 404);
+    }
+
+    return pattern;
+  }
+
+  async deletePattern(id: string, actor: RuleActor): Promise<DetectionPatternRecord> {
+    const existing = await this.getPattern(id, actor.organizationId);
+    this.assertCanModify(existing, actor);
+
+    await db.delete(detectionPatterns).where(eq(detectionPatterns.id, id));
+    return existing;
+  }
+
+  /**
+   * Run a pattern against sample text without saving it. Reports why the
+   * pattern would be rejected instead of running an unsafe one.
+   */
+  testPattern(input: PatternTestInput): PatternTestResult {
+    const error = probeRegex(input.pattern, input.flags);
+    const flags = input.flags.includes('g') ? input.flags : `${input.flags}g`;
+    const regex = error === null ? compileSafeRegex(input.pattern, flags) : null;
+
+    return {
+      error,
+      samples: input.samples.map(sample => ({
+        sample,
+        matches: regex
+          ? (timedMatchAll(regex, sample) ?? []).map(match => match[0]).slice(0, MAX_TEST_MATCHES)
+          : [],
+      })),
+    };
+  }
+
+  // Add the matches of a finished scan to each pattern's hit counter
+  async recordHits(hits: Map<string, number>): Promise<void> {
+    if (hits.size === 0) return;
+
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      for (const [id, count] of hits) {
+        await tx
+          .update(detectionPatterns)
+          .set({
+            hitCount: sql`${detectionPatterns.hitCount} + ${count}`,
+            lastHitAt: now,
+          })
+          .where(eq(detectionPatterns.id, id));
+      }
+    });
+  }
+
+  private async assertNameAvailable(name: string, organizationId: string | null): Promise<void> {
+    const [existing] = await db
+      .select({ id: detectionPatterns.id })
+      .from(detectionPatterns)
+      .where(and(ownerClause(organizationId), eq(detectionPatterns.name, name)))
+      .limit(1);
+
+    if (existing) {
+      throw new PatternServiceError(`A pattern named ${name} already exists`, 'PATTERN_EXISTS', 409);
+    }
+  }
+
+  private assertCanModify(pattern: DetectionPatternRecord, actor: RuleActor): void {
+    // Global patterns are shared by every organization; organizations shadow them with a pattern of the same name
+    if (pattern.organizationId === null && !actor.isSystemAdmin) {
+      throw new PatternServiceError(
+        'Global patterns can only be modified by system administrators; add a pattern with the same name to override it',
+        'PATTERN_READ_ONLY',
+        403
+      );
+    }
+  }
+}
+
+export const patternLibraryService = new PatternLibraryService();
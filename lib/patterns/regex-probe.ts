@@ -0,0 +1,40 @@
+import vm from 'vm';
+import { checkRegexSafety, literalCharacters } from './safe-regex';
+
+// Time budget for running a pattern against every probe input
+export const PROBE_TIMEOUT_MS = 100;
+
+const PROBE_LENGTH = 5000;
+const PROBE_CHARACTERS = ['a', '1', ' ', '\t', '.', '-', '_', '/', '<', '='];
+
+// Long runs of single characters, including the pattern's own literals, each ending in a character that breaks the match
+function probeInputs(source: string): string[] {
+  const characters = Array.from(new Set([...PROBE_CHARACTERS, ...literalCharacters(source)]));
+  return characters.map(char => `${char.repeat(PROBE_LENGTH)}\u0000!`);
+}
+
+/**
+ * Validate a pattern before it is saved: it must be inside the safe subset
+ * and finish on adversarial inputs within the probe budget. Returns the
+ * reason it is rejected, or null.
+ */
+export function probeRegex(source: string, flags = ''): string | null {
+  const unsafe = checkRegexSafety(source, flags);
+  if (unsafe) return unsafe;
+
+  const context = vm.createContext({
+    regex: new RegExp(source, flags.replace('g', '')),
+    inputs: probeInputs(source),
+  });
+
+  try {
+    vm.runInContext('for (const input of inputs) regex.test(input)', context, { timeout: PROBE_TIMEOUT_MS });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      return `Pattern took longer than ${PROBE_TIMEOUT_MS}ms on adversarial input and may backtrack catastrophically`;
+    }
+    throw error;
+  }
+
+  return null;
+}
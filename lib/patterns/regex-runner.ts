@@ -0,0 +1,58 @@
+import vm from 'vm';
+import { compileSafeRegex, truncateInput } from './safe-regex';
+
+/**
+ * Time-limited matching for the server. Patterns inside the safe subset can
+ * still take polynomial time on long inputs, so every match runs in a VM
+ * context under a time limit. A pattern that runs out of time is disabled
+ * for the rest of the process and never matches again.
+ */
+
+// Time limit for one pattern against one input
+export const MATCH_TIMEOUT_MS = 50;
+
+const context = vm.createContext({});
+const testScript = new vm.Script('regex.lastIndex = 0; result = regex.test(input)');
+const matchAllScript = new vm.Script('for (const match of input.matchAll(regex)) result.push(match)');
+
+// Patterns that ran out of time
+const timedOut = new WeakSet<RegExp>();
+
+// Run a script over the regex and input; false when it ran out of time
+function runTimed(script: vm.Script, regex: RegExp, input: string, result: unknown): { finished: boolean; result: unknown } {
+  Object.assign(context, { regex, input, result });
+
+  try {
+    script.runInContext(context, { timeout: MATCH_TIMEOUT_MS });
+    return { finished: true, result: context.result };
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw error;
+
+    timedOut.add(regex);
+    console.warn(`Disabling regular expression /${regex.source}/${regex.flags}: took longer than ${MATCH_TIMEOUT_MS}ms`);
+    return { finished: false, result: null };
+  } finally {
+    Object.assign(context, { regex: null, input: null, result: null });
+  }
+}
+
+// `safeRegexTest` under the time limit; patterns that run out of time do not match
+export function timedRegexTest(source: string, flags: string, text: string): boolean {
+  const regex = compileSafeRegex(source, flags.replace('g', ''));
+  if (!regex || timedOut.has(regex)) return false;
+
+  const run = runTimed(testScript, regex, truncateInput(text), false);
+  return run.finished && run.result === true;
+}
+
+/**
+ * All matches of a global pattern under the time limit. Returns null when
+ * the pattern ran out of time, now or before.
+ */
+export function timedMatchAll(regex: RegExp, text: string): RegExpMatchArray[] | null {
+  if (timedOut.has(regex)) return null;
+
+  const matches: RegExpMatchArray[] = [];
+  const run = runTimed(matchAllScript, regex, truncateInput(text), matches);
+  return run.finished ? matches : null;
+}
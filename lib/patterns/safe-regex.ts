@@ -0,0 +1,248 @@
+/**
+ * Regular expressions from rules and the pattern library run on every scanned
+ * entry, so they are restricted to a subset without catastrophic
+ * backtracking: no quantified group may contain another repeating
+ * quantifier, and backreferences are not allowed. Patterns outside the subset
+ * are rejected on save and never executed. Adjacent repeating atoms that
+ * can match the same character, as in `a*a*` or `\w+\s?\w+`, are rejected
+ * too; overlap is decided on sample characters, so some polynomial cases
+ * still get through. Inputs are capped in length and the server runs every
+ * match under a time limit to keep those bounded.
+ *
+ * This module is shared with the browser; the time-boxed probe that runs
+ * when a pattern is saved lives in `regex-probe.ts`, the time-limited
+ * matching in `regex-runner.ts`.
+ */
+
+export const MAX_PATTERN_LENGTH = 500;
+
+// Longer inputs are truncated before matching
+export const MAX_INPUT_LENGTH = 20_000;
+
+export const ALLOWED_FLAGS = /^[gimsu]*$/;
+
+// Compiled patterns, keyed by flags and source
+const compiled = new Map<string, RegExp | null>();
+const MAX_CACHED_PATTERNS = 1000;
+
+interface GroupFrame {
+  // A repeating quantifier applies somewhere inside the group
+  repeats: boolean;
+  // Index of the opening parenthesis
+  start: number;
+  // Repeating atoms at the end of the current alternative, with only optional atoms after them
+  trailing: string[];
+}
+
+interface Quantifier {
+  length: number;
+  min: number;
+  max: number;
+}
+
+// Characters tried when deciding whether two atoms can match the same character
+const SAMPLE_CHARACTERS = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  '\u00a0', 'é', 'ß', 'Ж', 'ж', '中', '\u2028', '\u{1f600}',
+];
+
+// A `{n}`, `{n,}` or `{n,m}` quantifier at `index`, or null
+function braceQuantifier(source: string, index: number): Quantifier | null {
+  const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+  if (!match) return null;
+
+  const min = parseInt(match[1]!);
+  const max = match[2] === undefined ? min : match[3] === '' ? Infinity : parseInt(match[3]!);
+  return { length: match[0].length, min, max };
+}
+
+// Length of the escape sequence at `index`
+function escapeLength(source: string, index: number, flags: string): number {
+  const escape = flags.includes('u')
+    ? /^\\(?:u\{[0-9a-f]+\}|u[0-9a-f]{4}|x[0-9a-f]{2}|c[a-z]|[pP]\{[^}]*\}|[^])/i
+    : /^\\(?:u[0-9a-f]{4}|x[0-9a-f]{2}|c[a-z]|[^])/i;
+  return escape.exec(source.slice(index))?.[0].length ?? 1;
+}
+
+// The pattern's literal characters in both cases, with \uXXXX and \xXX escapes decoded
+export function literalCharacters(source: string): string[] {
+  const escaped = Array.from(
+    source.matchAll(/\\(?:u\{([0-9a-f]+)\}|u([0-9a-f]{4})|x([0-9a-f]{2}))/gi),
+    match => String.fromCodePoint(parseInt(match[1] ?? match[2] ?? match[3]!, 16))
+  );
+  const literals = Array.from(source.replace(/\\(?:u\{[0-9a-f]+\}|u[0-9a-f]{4}|x[0-9a-f]{2}|[^])/gi, ''))
+    .filter(char => !'^$.|?*+()[]{}'.includes(char));
+  return [...literals, ...escaped].flatMap(char => [char.toLowerCase(), char.toUpperCase()]);
+}
+
+/**
+ * Whether two quantified atoms can match the same character. Groups overlap
+ * only when they are identical; other atoms are tried on sample characters,
+ * including their own literals.
+ */
+function atomsOverlap(first: string, second: string, flags: string): boolean {
+  if (first.startsWith('(') || second.startsWith('(')) return first === second;
+
+  const sampleFlags = flags.replace(/[gmy]/g, '');
+  const matchesFirst = new RegExp(`^(?:${first})$`, sampleFlags);
+  const matchesSecond = new RegExp(`^(?:${second})$`, sampleFlags);
+  const samples = new Set([...SAMPLE_CHARACTERS, ...literalCharacters(first), ...literalCharacters(second)]);
+
+  for (const sample of samples) {
+    if (matchesFirst.test(sample) && matchesSecond.test(sample)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check that a pattern compiles and stays inside the safe subset.
+ * Returns the reason it is rejected, or null when it is safe.
+ */
+export function checkRegexSafety(source: string, flags = ''): string | null {
+  if (source.length > MAX_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (!ALLOWED_FLAGS.test(flags)) {
+    return 'Flags may only contain g, i, m, s and u';
+  }
+
+  try {
+    new RegExp(source, flags);
+  } catch {
+    return 'invalid regular expression';
+  }
+
+  const stack: GroupFrame[] = [{ repeats: false, start: -1, trailing: [] }];
+  // Whether the atom a following quantifier applies to contains a repeating quantifier
+  let lastAtomRepeats: boolean | null = null;
+  // Source of that atom
+  let lastAtom = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+    const frame = stack[stack.length - 1]!;
+    // An atom without a quantifier separates the repeating atoms before it from the ones after it
+    const startAtom = () => {
+      if (lastAtomRepeats !== null) frame.trailing = [];
+    };
+
+    if (char === '\\') {
+      const next = source[i + 1] ?? '';
+      if (/[1-9]/.test(next) || (next === 'k' && source[i + 2] === '<')) {
+        return 'Backreferences are not allowed';
+      }
+      startAtom();
+      const length = escapeLength(source, i, flags);
+      lastAtom = source.slice(i, i + length);
+      i += length - 1;
+      lastAtomRepeats = false;
+      continue;
+    }
+
+    if (char === '[') {
+      startAtom();
+      // Skip the character class; it is a single atom
+      const start = i;
+      i++;
+      if (source[i] === ']') i++;
+      while (i < source.length && source[i] !== ']') {
+        if (source[i] === '\\') i++;
+        i++;
+      }
+      lastAtom = source.slice(start, i + 1);
+      lastAtomRepeats = false;
+      continue;
+    }
+
+    if (char === '(') {
+      startAtom();
+      stack.push({ repeats: false, start: i, trailing: [] });
+      lastAtomRepeats = null;
+      // Skip the group prefix: ?:, ?=, ?!, ?<=, ?<! or ?<name>
+      if (source[i + 1] === '?') {
+        const prefix = /^\?(?::|=|!|<=|<!|<[^>]+>)/.exec(source.slice(i + 1));
+        if (prefix) i += prefix[0].length;
+      }
+      continue;
+    }
+
+    if (char === ')') {
+      const closed = stack.length > 1 ? stack.pop()! : frame;
+      const parent = stack[stack.length - 1]!;
+      parent.repeats = parent.repeats || closed.repeats;
+      lastAtom = source.slice(closed.start, i + 1);
+      lastAtomRepeats = closed.repeats;
+      continue;
+    }
+
+    if (char === '|') {
+      frame.trailing = [];
+      lastAtomRepeats = null;
+      continue;
+    }
+
+    let quantifier: Quantifier | null = null;
+    if (char === '*') quantifier = { length: 1, min: 0, max: Infinity };
+    else if (char === '+') quantifier = { length: 1, min: 1, max: Infinity };
+    else if (char === '?') quantifier = { length: 1, min: 0, max: 1 };
+    else if (char === '{') quantifier = braceQuantifier(source, i);
+
+    if (quantifier && lastAtomRepeats !== null) {
+      const repeats = quantifier.max > 1;
+      if (repeats && lastAtomRepeats) {
+        return 'Nested quantifiers such as (a+)+ can take exponential time';
+      }
+      if (repeats && quantifier.max > quantifier.min) {
+        if (frame.trailing.some(atom => atomsOverlap(atom, lastAtom, flags))) {
+          return 'Adjacent quantifiers such as a*a* that can match the same text take polynomial time';
+        }
+        frame.trailing = quantifier.min === 0 ? [...frame.trailing, lastAtom] : [lastAtom];
+      } else if (quantifier.min > 0) {
+        frame.trailing = [];
+      }
+      frame.repeats = frame.repeats || repeats;
+      i += quantifier.length - 1;
+      // A lazy or possessive marker belongs to the quantifier
+      if (source[i + 1] === '?') i++;
+      lastAtomRepeats = null;
+      continue;
+    }
+
+    startAtom();
+    // A character outside the basic plane is one atom in unicode mode
+    lastAtom = flags.includes('u') ? String.fromCodePoint(source.codePointAt(i)!) : char;
+    i += lastAtom.length - 1;
+    lastAtomRepeats = false;
+  }
+
+  return null;
+}
+
+/**
+ * Compile a pattern once. Returns null for patterns outside the safe subset,
+ * which callers treat as never matching.
+ */
+export function compileSafeRegex(source: string, flags = ''): RegExp | null {
+  const key = `${flags}/${source}`;
+  if (compiled.has(key)) return compiled.get(key)!;
+
+  if (compiled.size >= MAX_CACHED_PATTERNS) {
+    compiled.clear();
+  }
+
+  const regex = checkRegexSafety(source, flags) === null ? new RegExp(source, flags) : null;
+  if (!regex) {
+    console.warn(`Skipping unsafe regular expression /${source}/${flags}`);
+  }
+  compiled.set(key, regex);
+  return regex;
+}
+
+export function truncateInput(text: string): string {
+  return text.length > MAX_INPUT_LENGTH ? text.slice(0, MAX_INPUT_LENGTH) : text;
+}
+
+export function safeRegexTest(source: string, flags: string, text: string): boolean {
+  const regex = compileSafeRegex(source, flags.replace('g', ''));
+  return regex !== null && regex.test(truncateInput(text));
+}
@@ -0,0 +1,32 @@
+// What a detection pattern looks for; scoring profiles weight patterns by name
+export enum PatternCategory {
+  SECURITY = 'security',
+  COMPATIBILITY = 'compatibility',
+}
+
+// A pattern the analysis engine searches each scanned entry for
+export interface PatternDefinition {
+  id: string;
+  // snake_case name; the engine reports matches as the feature `pattern_<name>`
+  name: string;
+  category: PatternCategory;
+  pattern: string;
+  flags: string;
+}
+
+// Shipped patterns, seeded as global library entries by migration 0010
+export const BUILT_IN_PATTERNS: readonly PatternDefinition[] = [
+  // Security vulnerability patterns
+  { id: 'builtin_sql_injection', name: 'sql_injection', category: PatternCategory.SECURITY, pattern: '(?:union|select|insert|update|delete|drop|exec|script)\\s*[(;]', flags: 'gi' },
+  { id: 'builtin_xss', name: 'xss', category: PatternCategory.SECURITY, pattern: '(?:<script|javascript:|vbscript:|onload|onerror|onclick)', flags: 'gi' },
+  { id: 'builtin_path_traversal', name: 'path_traversal', category: PatternCategory.SECURITY, pattern: '(?:(?:\\.\\.)[\\/\\\\]|%2e%2e[%2f%5c])', flags: 'gi' },
+  { id: 'builtin_command_injection', name: 'command_injection', category: PatternCategory.SECURITY, pattern: '(?:;\\s*(?:rm|del|format|shutdown)|\\|\\s*(?:nc|netcat|telnet))', flags: 'gi' },
+  { id: 'builtin_authentication_bypass', name: 'authentication_bypass', category: PatternCategory.SECURITY, pattern: '(?:admin|administrator|root).*(?:password|pwd|pass).*(?:=|:)\\s*(?:"|\')?(?:admin|password|123|blank)?', flags: 'gi' },
+  { id: 'builtin_sensitive_data', name: 'sensitive_data', category: PatternCategory.SECURITY, pattern: '(?:api[_-]?key|secret|token|password|credential|private[_-]?key)\\s*[=:]\\s*["\']?[a-zA-Z0-9+\\/]{8,}["\']?', flags: 'gi' },
+
+  // Compatibility issue patterns
+  { id: 'builtin_version_conflict', name: 'version_conflict', category: PatternCategory.COMPATIBILITY, pattern: 'version\\s+(?:conflict|mismatch|incompatibl)', flags: 'gi' },
+  { id: 'builtin_deprecated_api', name: 'deprecated_api', category: PatternCategory.COMPATIBILITY, pattern: '(?:deprecated|obsolete|legacy)\\s+(?:api|method|function)', flags: 'gi' },
+  { id: 'builtin_missing_dependency', name: 'missing_dependency', category: PatternCategory.COMPATIBILITY, pattern: '(?:missing|not\\s+found|undefined)\\s+(?:dependency|module|library)', flags: 'gi' },
+  { id: 'builtin_configuration_error', name: 'configuration_error', category: PatternCategory.COMPATIBILITY, pattern: '(?:configuration|config)\\s+(?:error|invalid|missing)', flags: 'gi' },
+];
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import {
+  projects,
+  scans,
+  scanSchedules,
+  scanBaselines,
+  findings,
+  findingSuppressions,
+  Project,
+  Finding,
+} from '@/lib/db/schema';
+import { teams } from '@/lib/db/multi-tenancy-schema';
+import { eq, and, asc, desc, ilike, sql } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { ScanAccess, scanAccessClause, scanOwner } from '@/lib/scans/scan-access';
+import { findingService } from '@/lib/findings/finding-service';
+import { FindingStatus } from '@/lib/findings/types';
+
+// Scans listed on a project page
+const MAX_PROJECT_SCANS = 50;
+const MAX_PROJECT_FINDINGS = 100;
+
+// Findings that still need attention
+const OPEN_FINDING_STATUSES = [FindingStatus.OPEN, FindingStatus.ACKNOWLEDGED];
+
+export const ProjectInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(2000).nullable().optional(),
+  repositoryUrl: z.string().trim().url().max(2000).nullable().optional(),
+  teamId: z.number().int().positive().nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).default([]),
+  // Merged under the config of every scan started for the project
+  defaultScanConfig: z.record(z.any()).default({}),
+});
+
+export const ProjectUpdateSchema = ProjectInputSchema.partial();
+
+export type ProjectInput = z.infer<typeof ProjectInputSchema>;
+export type ProjectUpdate = z.infer<typeof ProjectUpdateSchema>;
+
+export interface ProjectListFilters {
+  search?: string;
+  teamId?: number;
+  tag?: string;
+}
+
+export interface ProjectScanSummary {
+  id: string;
+  name: string;
+  status: string;
+  riskScore: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface ProjectOverview {
+  project: Project;
+  scans: ProjectScanSummary[];
+  openFindings: Finding[];
+  openFindingCount: number;
+}
+
+// Project service error types
+export class ProjectServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ProjectServiceError';
+  }
+}
+
+export class ProjectService {
+
+  // Projects of the caller's organization (or of the user, without one)
+  async listProjects(access: ScanAccess, filters: ProjectListFilters = {}): Promise<Project[]> {
+    const conditions = [eq(projects.organizationId, scanOwner(access))];
+
+    if (filters.search) {
+      conditions.push(ilike(projects.name, `%${filters.search}%`));
+    }
+
+    if (filters.teamId !== undefined) {
+      conditions.push(eq(projects.teamId, filters.teamId));
+    }
+
+    if (filters.tag) {
+      conditions.push(sql`${projects.tags} @> ${JSON.stringify([filters.tag])}::jsonb`);
+    }
+
+    return db
+      .select()
+      .from(projects)
+      .where(and(...conditions))
+      .orderBy(asc(projects.name));
+  }
+
+  async getProject(access: ScanAccess, id: string): Promise<Project> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, id), eq(projects.organizationId, scanOwner(access))))
+      .limit(1);
+
+    if (!project) {
+      throw new ProjectServiceError(`Project ${id} not found`, 'PROJECT_NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  async findProjectByName(access: ScanAccess, name: string): Promise<Project | null> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.organizationId, scanOwner(access)), eq(projects.name, name.trim())))
+      .limit(1);
+
+    return project ?? null;
+  }
+
+  /**
+   * The project a new scan belongs to: the one given by id, or an existing
+   * project matching the scan's free-form project name. Returns null for scans
+   * outside any project.
+   */
+  async resolveScanProject(
+    access: ScanAccess,
+    ref: { projectId?: string | undefined; project?: string | undefined }
+  ): Promise<Project | null> {
+    if (ref.projectId) {
+      return this.getProject(access, ref.projectId);
+    }
+    return ref.project ? this.findProjectByName(access, ref.project) : null;
+  }
+
+  async createProject(access: ScanAccess, input: ProjectInput): Promise<Project> {
+    await this.assertTeamInOrganization(access, input.teamId);
+    await this.assertNameAvailable(access, input.name);
+
+    const [project] = await db
+      .insert(projects)
+      .values({
+        id: generateId(16),
+        organizationId: scanOwner(access),
+        name: input.name,
+        description: input.description ?? null,
+        repositoryUrl: input.repositoryUrl ?? null,
+        teamId: input.teamId ?? null,
+        tags: input.tags,
+        defaultScanConfig: input.defaultScanConfig,
+        createdBy: access.userId,
+      })
+      .returning();
+
+    if (!project) {
+      throw new ProjectServiceError('Failed to create project', 'PROJECT_CREATE_FAILED', 500);
+    }
+    return project;
+  }
+
+  /**
+   * Update a project. Baselines, findings and suppressions are keyed by the
+   * project name, so a rename carries them over to the new name.
+   */
+  async updateProject(access: ScanAccess, id: string, updates: ProjectUpdate): Promise<Project> {
+    const existing = await this.getProject(access, id);
+
+    if (updates.teamId !== undefined) {
+      await this.assertTeamInOrganization(access, updates.teamId);
+    }
+
+    const renamed = updates.name !== undefined && updates.name !== existing.name;
+    if (renamed) {
+      await this.assertNameAvailable(access, updates.name!);
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+
+    return db.transaction(async (tx) => {
+      const [project] = await tx
+        .update(projects)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(projects.id, id))
+        .returning();
+
+      if (!project) {
+        throw new ProjectServiceError(`Project ${id} not found`, 'PROJECT_NOT_FOUND', 404);
+      }
+
+      if (renamed) {
+        const owner = scanOwner(access);
+        await tx
+          .update(scans)
+          .set({ config: sql`jsonb_set(${scans.config}, '{project}', to_jsonb(${project.name}::text))` })
+          .where(eq(scans.projectId, id));
+        await tx
+          .update(scanBaselines)
+          .set({ project: project.name })
+          .where(and(eq(scanBaselines.organizationId, owner), eq(scanBaselines.project, existing.name)));
+        await tx
+          .update(findings)
+          .set({ project: project.name })
+          .where(and(eq(findings.organizationId, owner), eq(findings.project, existing.name)));
+        await tx
+          .update(findingSuppressions)
+          .set({ project: project.name })
+          .where(and(eq(findingSuppressions.organizationId, owner), eq(findingSuppressions.project, existing.name)));
+      }
+
+      return project;
+    });
+  }
+
+  // Delete a project; its scans, findings and baseline are kept, its schedules are not
+  async deleteProject(access: ScanAccess, id: string): Promise<Project> {
+    const existing = await this.getProject(access, id);
+
+    await db.update(scans).set({ projectId: null }).where(eq(scans.projectId, id));
+    await db.delete(scanSchedules).where(eq(scanSchedules.projectId, id));
+    await db.delete(projects).where(eq(projects.id, id));
+
+    return existing;
+  }
+
+  // Scan history and open findings of a project
+  async getProjectOverview(access: ScanAccess, id: string): Promise<ProjectOverview> {
+    const project = await this.getProject(access, id);
+
+    const history = await db
+      .select()
+      .from(scans)
+      .where(and(eq(scans.projectId, id), scanAccessClause(access)))
+      .orderBy(desc(scans.createdAt))
+      .limit(MAX_PROJECT_SCANS);
+
+    const { findings: openFindings, total } = await findingService.listFindings(access, {
+      project: project.name,
+      statuses: OPEN_FINDING_STATUSES,
+      limit: MAX_PROJECT_FINDINGS,
+    });
+
+    return {
+      project,
+      scans: history.map(scan => {
+        const riskScore = (scan.metrics as { riskScore?: unknown } | null)?.riskScore;
+        return {
+          id: scan.id,
+          name: scan.name,
+          status: scan.status,
+          riskScore: typeof riskScore === 'number' ? riskScore : null,
+          createdAt: scan.createdAt,
+          completedAt: scan.completedAt,
+        };
+      }),
+      openFindings,
+      openFindingCount: total,
+    };
+  }
+
+  private async assertNameAvailable(access: ScanAccess, name: string): Promise<void> {
+    if (await this.findProjectByName(access, name)) {
+      throw new ProjectServiceError(`A project named ${name} already exists`, 'PROJECT_EXISTS', 409);
+    }
+  }
+
+  // Projects can only be owned by a team of their own organization
+  private async assertTeamInOrganization(access: ScanAccess, teamId: number | null | undefined): Promise<void> {
+    if (teamId === null || teamId === undefined) return;
+
+    const organizationId = access.organizationId ? parseInt(access.organizationId, 10) : NaN;
+    const [team] = Number.isInteger(organizationId)
+      ? await db
+          .select({ id: teams.id })
+          .from(teams)
+          .where(and(eq(teams.id, teamId), eq(teams.organizationId, organizationId)))
+          .limit(1)
+      : [];
+
+    if (!team) {
+      throw new ProjectServiceError(`Team ${teamId} not found in your organization`, 'TEAM_NOT_FOUND', 400);
+    }
+  }
+}
+
+export const projectService = new ProjectService();
@@ -1,6 +1,10 @@
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import * as XLSX from 'xlsx';
+import type { InventoryComponent } from '@/lib/inventory/types';
+import type { ResultSuppression } from '@/lib/compatibility/analysis-engine';
+import type { ScoreExplanation } from '@/lib/compatibility/scoring-profile';
+import { buildCycloneDxBom, CYCLONEDX_MEDIA_TYPE } from './sbom-export';
 
 declare module 'jspdf' {
   interface jsPDF {
@@ -8,6 +12,30 @@ declare module 'jspdf' {
   }
 }
 
+export interface ReportResult {
+  id: number;
+  ruleId: number | string;
+  ruleName: string;
+  ruleDescription: string;
+  category: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: 'pass' | 'fail' | 'warning' | 'info';
+  message: string;
+  confidence: number;
+  affectedItems?: string[];
+  recommendations?: string[];
+  createdAt: string;
+  fingerprint?: string;
+  suppression?: ResultSuppression;
+  explanation?: ScoreExplanation;
+  // Triage state of the finding the result belongs to
+  finding?: {
+    id: string;
+    status: string;
+    assigneeId: string | null;
+  };
+}
+
 export interface ReportData {
   scanSession: {
     id: number;
@@ -20,20 +48,9 @@ export interface ReportData {
     completedChecks: number;
     riskScore?: number;
   };
-  results: {
-    id: number;
-    ruleId: number;
-    ruleName: string;
-    ruleDescription: string;
-    category: string;
-    severity: 'low' | 'medium' | 'high' | 'critical';
-    status: 'pass' | 'fail' | 'warning' | 'info';
-    message: string;
-    confidence: number;
-    affectedItems?: string[];
-    recommendations?: string[];
-    createdAt: string;
-  }[];
+  results: ReportResult[];
+  // Results excluded by suppression rules or triage, listed apart from the rest
+  suppressed?: ReportResult[];
   summary: {
     totalResults: number;
     resultsByStatus: Record<string, number>;
@@ -61,10 +78,12 @@ export interface ReportData {
     ipAddress?: string;
     userAgent?: string;
   };
+  // Component inventory from manifest and SBOM uploads
+  components?: InventoryComponent[];
 }
 
 export interface ReportOptions {
-  format: 'pdf' | 'excel' | 'csv';
+  format: 'pdf' | 'excel' | 'csv' | 'cyclonedx';
   includeCharts?: boolean;
   includeSummary?: boolean;
   includeDetails?: boolean;
@@ -99,6 +118,8 @@ export class ReportGenerator {
         return this.generateExcel();
       case 'csv':
         return this.generateCSV();
+      case 'cyclonedx':
+        return this.generateCycloneDX();
       default:
         throw new Error(`Unsupported format: ${this.options.format}`);
     }
@@ -704,6 +725,16 @@ export class ReportGenerator {
     return new Blob([csvContent.join('\n')], { type: 'text/csv' });
   }
 
+  private async generateCycloneDX(): Promise<Blob> {
+    let results = this.data.results;
+    if (this.options.filterBy) {
+      results = this.applyFilters(results);
+    }
+
+    const bom = buildCycloneDxBom(this.data, results);
+    return new Blob([JSON.stringify(bom, null, 2)], { type: CYCLONEDX_MEDIA_TYPE });
+  }
+
   private applyFilters(results: ReportData['results']): ReportData['results'] {
     let filtered = results;
 
@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import type { AnalysisResult } from '../compatibility/analysis-engine';
+import type { SarifLocation } from '../upload/sarif-import';
+
+export const SARIF_MEDIA_TYPE = 'application/sarif+json';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// GitHub accepts at most 50 annotations per check run request
+export const CHECK_RUN_ANNOTATION_BATCH = 50;
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  kind: 'pass' | 'fail';
+  level: SarifLevel;
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId?: string };
+      region?: { startLine: number; startColumn?: number; endLine?: number; endColumn?: number };
+    };
+  }[];
+  partialFingerprints: Record<string, string>;
+  // Suppressed findings stay in the log so code scanning can close their alerts
+  suppressions?: { kind: 'external'; status: 'accepted'; justification: string }[];
+  properties: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri?: string;
+        version?: string;
+        rules: {
+          id: string;
+          name?: string;
+          shortDescription?: { text: string };
+          fullDescription?: { text: string };
+          defaultConfiguration: { level: SarifLevel };
+          properties: Record<string, unknown>;
+        }[];
+      };
+    };
+    automationDetails?: { id: string };
+    results: SarifResult[];
+  }[];
+}
+
+export interface SarifRuleMetadata {
+  name: string;
+  description?: string | null;
+  category?: string;
+}
+
+export interface SarifExportOptions {
+  // Names and descriptions for rule ids, e.g. loaded from compatibility_rules
+  rules?: Record<string, SarifRuleMetadata>;
+  // Groups uploads of the same scan in GitHub code scanning
+  automationId?: string;
+  toolVersion?: string;
+}
+
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  start_column?: number;
+  end_column?: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  message: string;
+  title?: string;
+}
+
+// GitHub ranks code scanning alerts by this 0-10 score
+const SECURITY_SEVERITY: Record<string, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '2.0',
+};
+
+function levelFor(result: AnalysisResult): SarifLevel {
+  if (result.status === 'passed') return 'none';
+  if (result.status === 'failed') {
+    return result.severity === 'high' || result.severity === 'critical' ? 'error' : 'warning';
+  }
+  return result.status === 'warning' ? 'warning' : 'note';
+}
+
+// Imported SARIF rows keep their locations; inventory findings point at their manifest
+function locationsFor(result: AnalysisResult): SarifLocation[] {
+  // Locations of imported SARIF results, or of browser compatibility results on source files
+  const imported = result.details?.originalEntry?.details?.locations ?? result.details?.locations;
+  if (Array.isArray(imported) && imported.length > 0) {
+    return imported.filter((location: SarifLocation) => typeof location?.uri === 'string');
+  }
+
+  return result.affectedComponents
+    .filter(component => component.startsWith('Manifest: '))
+    .map(component => ({ uri: component.slice('Manifest: '.length).trim() }));
+}
+
+/**
+ * Build a SARIF 2.1.0 log from a scan's analysis results
+ */
+export function buildSarifLog(results: AnalysisResult[], options: SarifExportOptions = {}): SarifLog {
+  const ruleIds: string[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const ruleLevels = new Map<string, SarifLevel>();
+
+  const sarifResults = results.map(result => {
+    const ruleId = String(result.ruleId);
+    if (!ruleIndexes.has(ruleId)) {
+      ruleIndexes.set(ruleId, ruleIds.length);
+      ruleIds.push(ruleId);
+    }
+
+    const level = levelFor(result);
+    // A rule's default level is the most severe level it produced
+    const order: SarifLevel[] = ['none', 'note', 'warning', 'error'];
+    if (order.indexOf(level) > order.indexOf(ruleLevels.get(ruleId) ?? 'none')) {
+      ruleLevels.set(ruleId, level);
+    }
+
+    const locations = locationsFor(result);
+    const primary = locations[0];
+
+    return {
+      ruleId,
+      ruleIndex: ruleIndexes.get(ruleId)!,
+      kind: result.status === 'passed' ? 'pass' as const : 'fail' as const,
+      level,
+      message: { text: result.message },
+      locations: locations.map(location => ({
+        physicalLocation: {
+          artifactLocation: {
+            uri: location.uri,
+            ...(location.uriBaseId ? { uriBaseId: location.uriBaseId } : {}),
+          },
+          ...(location.startLine
+            ? {
+                region: {
+                  startLine: location.startLine,
+                  ...(location.startColumn ? { startColumn: location.startColumn } : {}),
+                  ...(location.endLine ? { endLine: location.endLine } : {}),
+                  ...(location.endColumn ? { endColumn: location.endColumn } : {}),
+                },
+              }
+            : {}),
+        },
+      })),
+      // Lets code scanning track the same finding across scans
+      partialFingerprints: {
+        'appcompatcheck/v1': crypto
+          .createHash('sha256')
+          .update([ruleId, result.message, primary?.uri ?? '', primary?.startLine ?? ''].join('\0'))
+          .digest('hex'),
+      },
+      ...(result.suppression
+        ? { suppressions: [{ kind: 'external' as const, status: 'accepted' as const, justification: result.suppression.justification }] }
+        : {}),
+      properties: {
+        severity: result.severity,
+        confidence: result.confidence,
+        status: result.status,
+        affectedComponents: result.affectedComponents,
+        ...(result.recommendations ? { recommendations: result.recommendations } : {}),
+      },
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'AppCompatCheck',
+            ...(options.toolVersion ? { version: options.toolVersion } : {}),
+            rules: ruleIds.map(id => {
+              const metadata = options.rules?.[id];
+              const severity = results.find(result => String(result.ruleId) === id)?.severity;
+              return {
+                id,
+                ...(metadata?.name ? { name: metadata.name, shortDescription: { text: metadata.name } } : {}),
+                ...(metadata?.description ? { fullDescription: { text: metadata.description } } : {}),
+                defaultConfiguration: { level: ruleLevels.get(id) ?? 'warning' },
+                properties: {
+                  ...(severity ? { 'security-severity': SECURITY_SEVERITY[severity] } : {}),
+                  ...(metadata?.category ? { tags: [metadata.category] } : {}),
+                },
+              };
+            }),
+          },
+        },
+        ...(options.automationId ? { automationDetails: { id: options.automationId } } : {}),
+        results: sarifResults,
+      },
+    ],
+  };
+}
+
+/**
+ * Turn located SARIF results into GitHub check run annotations.
+ * Passing results and results without a file location are skipped.
+ */
+export function sarifToCheckRunAnnotations(log: SarifLog): CheckRunAnnotation[] {
+  const levels: Record<SarifLevel, CheckRunAnnotation['annotation_level']> = {
+    error: 'failure',
+    warning: 'warning',
+    note: 'notice',
+    none: 'notice',
+  };
+
+  return log.runs.flatMap(run =>
+    run.results
+      .filter(result => result.kind !== 'pass' && !result.suppressions?.length && result.locations.length > 0)
+      .map(result => {
+        const { artifactLocation, region } = result.locations[0]!.physicalLocation;
+        const startLine = region?.startLine ?? 1;
+        const endLine = region?.endLine ?? startLine;
+        return {
+          path: artifactLocation.uri,
+          start_line: startLine,
+          end_line: endLine,
+          // GitHub only accepts columns on single-line annotations
+          ...(startLine === endLine && region?.startColumn
+            ? { start_column: region.startColumn, end_column: region.endColumn ?? region.startColumn }
+            : {}),
+          annotation_level: levels[result.level],
+          message: result.message.text,
+          title: run.tool.driver.rules[result.ruleIndex]?.name ?? result.ruleId,
+        };
+      })
+  );
+}
@@ -0,0 +1,109 @@
+import type { InventoryComponent } from '@/lib/inventory/types';
+import type { ReportData } from './report-generator';
+
+export const CYCLONEDX_SPEC_VERSION = '1.5';
+export const CYCLONEDX_MEDIA_TYPE = 'application/vnd.cyclonedx+json';
+
+// How a finding's status reads as a VEX analysis state
+const VEX_STATES: Record<ReportData['results'][number]['status'], string> = {
+  fail: 'exploitable',
+  warning: 'in_triage',
+  info: 'in_triage',
+  pass: 'not_affected',
+};
+
+function rootRef(data: ReportData): string {
+  return `scan:${data.scanSession.id}`;
+}
+
+// Findings name the packages they affect as "Package: name@version" (see checkInventory)
+function affectedPackages(items: string[] = []): string[] {
+  return items
+    .filter(item => item.startsWith('Package: '))
+    .map(item => item.slice('Package: '.length).trim());
+}
+
+/**
+ * Build a CycloneDX BOM from a scan's component inventory. Findings that affect
+ * a component are attached as VEX-style vulnerabilities with an analysis state.
+ */
+export function buildCycloneDxBom(
+  data: ReportData,
+  results: ReportData['results'] = data.results
+): Record<string, unknown> {
+  // Nested installs of the same version share a purl, and bom-refs must be unique
+  const components = new Map<string, InventoryComponent>();
+  for (const component of data.components ?? []) {
+    if (!components.has(component.purl)) {
+      components.set(component.purl, component);
+    }
+  }
+
+  const refsByPackage = new Map<string, string[]>();
+  for (const component of components.values()) {
+    const keys = [component.name, ...(component.version ? [`${component.name}@${component.version}`] : [])];
+    for (const key of keys) {
+      refsByPackage.set(key, [...(refsByPackage.get(key) ?? []), component.purl]);
+    }
+  }
+
+  const vulnerabilities = results.flatMap(result => {
+    const refs = new Set(affectedPackages(result.affectedItems).flatMap(pkg => refsByPackage.get(pkg) ?? []));
+    if (refs.size === 0) return [];
+
+    return [{
+      'bom-ref': `finding:${result.id}`,
+      id: String(result.ruleId),
+      source: { name: 'AppCompatCheck' },
+      ratings: [{ severity: result.severity, method: 'other' }],
+      description: result.message,
+      ...(result.recommendations?.length ? { recommendation: result.recommendations.join(' ') } : {}),
+      created: result.createdAt,
+      analysis: {
+        state: VEX_STATES[result.status] ?? 'in_triage',
+        detail: `${result.ruleName}: ${result.status}`,
+      },
+      affects: Array.from(refs).map(ref => ({ ref })),
+    }];
+  });
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: CYCLONEDX_SPEC_VERSION,
+    serialNumber: `urn:uuid:${globalThis.crypto.randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      tools: {
+        components: [{ type: 'application', name: 'AppCompatCheck' }],
+      },
+      component: {
+        type: 'application',
+        'bom-ref': rootRef(data),
+        name: data.scanSession.fileName,
+      },
+      ...(data.organization ? { supplier: { name: data.organization.name } } : {}),
+      authors: [{ name: `${data.user.firstName} ${data.user.lastName}`, email: data.user.email }],
+    },
+    components: Array.from(components.values()).map(component => ({
+      type: component.ecosystem === 'docker' ? 'container' : 'library',
+      'bom-ref': component.purl,
+      name: component.name,
+      ...(component.version ? { version: component.version } : {}),
+      purl: component.purl,
+      scope: component.dev ? 'excluded' : 'required',
+      ...(component.licenses?.length
+        ? { licenses: component.licenses.map(license => ({ expression: license })) }
+        : {}),
+    })),
+    dependencies: [
+      {
+        ref: rootRef(data),
+        dependsOn: Array.from(components.values())
+          .filter(component => component.direct)
+          .map(component => component.purl),
+      },
+    ],
+    vulnerabilities,
+  };
+}
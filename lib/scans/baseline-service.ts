@@ -0,0 +1,233 @@
+import { db } from '@/lib/db/drizzle';
+import { scans, scanBaselines, Scan, ScanBaseline } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { AnalysisResult, calculateOverallRiskScore } from '@/lib/compatibility/analysis-engine';
+import { ScanStatus } from './scan-queue';
+import { ScanAccess, scanAccessClause, scanOwner } from './scan-access';
+import { diffScans, evaluateGate, ScanDiff, ScanGate } from './scan-diff';
+
+export interface ScanSummary {
+  id: string;
+  name: string;
+  project: string;
+  status: string;
+  completedAt: Date | null;
+  riskScore: number | null;
+}
+
+export interface ScanComparison {
+  project: string;
+  base: ScanSummary;
+  head: ScanSummary;
+  // Set when the base scan is the pinned baseline of the head scan's project
+  baselineId: string | null;
+  diff: ScanDiff;
+  gate: ScanGate;
+}
+
+// Stored with a scan's results when its project has a baseline
+export interface BaselineGateResult extends ScanGate {
+  project: string;
+  baselineScanId: string;
+  summary: ScanDiff['summary'];
+  riskScoreDelta: number;
+}
+
+export interface PinnedBaseline {
+  baseline: ScanBaseline;
+  scan: ScanSummary;
+}
+
+// Scan baseline service error types
+export class ScanBaselineError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ScanBaselineError';
+  }
+}
+
+/**
+ * The project a scan belongs to: the `project` of its config, or its name so
+ * that repeated scans of the same target line up without configuration.
+ */
+export function scanProject(scan: Pick<Scan, 'name' | 'config'>): string {
+  const project = (scan.config as Record<string, unknown> | null)?.project;
+  return (typeof project === 'string' && project.trim() ? project : scan.name).trim();
+}
+
+export function scanResultItems(scan: Pick<Scan, 'results'>): AnalysisResult[] {
+  const items = (scan.results as { items?: unknown } | null)?.items;
+  return Array.isArray(items) ? items : [];
+}
+
+function summarize(scan: Scan): ScanSummary {
+  const riskScore = (scan.metrics as { riskScore?: unknown } | null)?.riskScore;
+  return {
+    id: scan.id,
+    name: scan.name,
+    project: scanProject(scan),
+    status: scan.status,
+    completedAt: scan.completedAt,
+    riskScore: typeof riskScore === 'number' ? riskScore : null,
+  };
+}
+
+// The risk score stored with a scan; scans stored without one are scored with the default profile
+function riskScoreOf(scan: Scan): number {
+  return summarize(scan).riskScore ?? calculateOverallRiskScore(scanResultItems(scan));
+}
+
+export class ScanBaselineService {
+
+  private async getScan(access: ScanAccess, scanId: string): Promise<Scan> {
+    const [scan] = await db
+      .select()
+      .from(scans)
+      .where(and(eq(scans.id, scanId), scanAccessClause(access)))
+      .limit(1);
+
+    if (!scan) {
+      throw new ScanBaselineError(`Scan ${scanId} not found`, 'SCAN_NOT_FOUND', 404);
+    }
+    return scan;
+  }
+
+  private async getCompletedScan(access: ScanAccess, scanId: string): Promise<Scan> {
+    const scan = await this.getScan(access, scanId);
+    if (scan.status !== ScanStatus.COMPLETED) {
+      throw new ScanBaselineError(
+        `Scan ${scanId} is ${scan.status}; only completed scans can be compared`,
+        'SCAN_NOT_COMPLETED',
+        409
+      );
+    }
+    return scan;
+  }
+
+  async getScanProject(access: ScanAccess, scanId: string): Promise<string> {
+    return scanProject(await this.getScan(access, scanId));
+  }
+
+  // The baseline pinned for a project, if any
+  async getBaseline(access: ScanAccess, project: string): Promise<PinnedBaseline | null> {
+    const [row] = await db
+      .select({ baseline: scanBaselines, scan: scans })
+      .from(scanBaselines)
+      .innerJoin(scans, eq(scanBaselines.scanId, scans.id))
+      .where(and(eq(scanBaselines.organizationId, scanOwner(access)), eq(scanBaselines.project, project.trim())))
+      .limit(1);
+
+    return row ? { baseline: row.baseline, scan: summarize(row.scan) } : null;
+  }
+
+  // Pin a completed scan as the baseline of its project, replacing the previous one
+  async pinBaseline(access: ScanAccess, scanId: string, project?: string): Promise<PinnedBaseline> {
+    const scan = await this.getCompletedScan(access, scanId);
+    const projectName = (project ?? scanProject(scan)).trim();
+    if (!projectName || projectName.length > 255) {
+      throw new ScanBaselineError('Project must be between 1 and 255 characters', 'INVALID_PROJECT');
+    }
+
+    const [baseline] = await db
+      .insert(scanBaselines)
+      .values({
+        id: generateId(16),
+        organizationId: scanOwner(access),
+        project: projectName,
+        scanId: scan.id,
+        pinnedBy: access.userId,
+      })
+      .onConflictDoUpdate({
+        target: [scanBaselines.organizationId, scanBaselines.project],
+        set: {
+          scanId: scan.id,
+          pinnedBy: access.userId,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    return { baseline: baseline!, scan: summarize(scan) };
+  }
+
+  // Remove a project's baseline; returns the unpinned baseline
+  async unpinBaseline(access: ScanAccess, project: string): Promise<ScanBaseline> {
+    const [removed] = await db
+      .delete(scanBaselines)
+      .where(and(eq(scanBaselines.organizationId, scanOwner(access)), eq(scanBaselines.project, project.trim())))
+      .returning();
+
+    if (!removed) {
+      throw new ScanBaselineError(`No baseline is pinned for project ${project}`, 'BASELINE_NOT_FOUND', 404);
+    }
+    return removed;
+  }
+
+  /**
+   * Compare two scans. Without a base scan the head scan is compared with the
+   * baseline pinned for its project.
+   */
+  async compareScans(access: ScanAccess, headId: string, baseId?: string): Promise<ScanComparison> {
+    const head = await this.getCompletedScan(access, headId);
+    const project = scanProject(head);
+    const pinned = await this.getBaseline(access, project);
+
+    const resolvedBaseId = baseId ?? pinned?.scan.id;
+    if (!resolvedBaseId) {
+      throw new ScanBaselineError(
+        `No base scan given and no baseline is pinned for project ${project}`,
+        'BASELINE_NOT_FOUND',
+        404
+      );
+    }
+
+    const base = await this.getCompletedScan(access, resolvedBaseId);
+    const diff = diffScans(scanResultItems(base), scanResultItems(head), {
+      base: riskScoreOf(base),
+      head: riskScoreOf(head),
+    });
+
+    return {
+      project,
+      base: summarize(base),
+      head: summarize(head),
+      baselineId: pinned && pinned.scan.id === base.id ? pinned.baseline.id : null,
+      diff,
+      gate: evaluateGate(diff),
+    };
+  }
+
+  /**
+   * Gate a scan's fresh results and risk score against its project's
+   * baseline. Returns null when no other scan is pinned for the project.
+   */
+  async gateAgainstBaseline(
+    access: ScanAccess,
+    scanId: string,
+    project: string,
+    results: AnalysisResult[],
+    riskScore: number
+  ): Promise<BaselineGateResult | null> {
+    const pinned = await this.getBaseline(access, project);
+    if (!pinned || pinned.scan.id === scanId) return null;
+
+    const [baseScan] = await db.select().from(scans).where(eq(scans.id, pinned.scan.id)).limit(1);
+    if (!baseScan) return null;
+
+    const diff = diffScans(scanResultItems(baseScan), results, { base: riskScoreOf(baseScan), head: riskScore });
+    return {
+      project,
+      baselineScanId: baseScan.id,
+      summary: diff.summary,
+      riskScoreDelta: diff.riskScore.delta,
+      ...evaluateGate(diff),
+    };
+  }
+}
+
+export const scanBaselineService = new ScanBaselineService();
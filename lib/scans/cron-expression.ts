@@ -0,0 +1,265 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week)
+// evaluated in an IANA timezone.
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+export interface CronExpression {
+  minutes: boolean[];
+  hours: boolean[];
+  daysOfMonth: boolean[];
+  months: boolean[];
+  daysOfWeek: boolean[];
+  // With both day fields restricted a day matches either of them, as in Vixie cron
+  dayOrMatch: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Expressions that never match (e.g. 30 February) stop being searched after this long
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(raw.toUpperCase()) ?? -1;
+  if (index >= 0) {
+    return index + (spec.name === 'month' ? 1 : 0);
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new CronParseError(`Invalid ${spec.name} value "${raw}"`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(`${spec.name} value ${value} is outside ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): boolean[] {
+  const allowed = new Array<boolean>(spec.max + 1).fill(false);
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (!range || rest.length > 0) {
+      throw new CronParseError(`Invalid ${spec.name} field "${field}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new CronParseError(`Invalid ${spec.name} step "${stepText}"`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-');
+      if (!from || !to || extra.length > 0) {
+        throw new CronParseError(`Invalid ${spec.name} range "${range}"`);
+      }
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new CronParseError(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      allowed[value] = true;
+    }
+  }
+
+  return allowed;
+}
+
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new CronParseError(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index]!)
+  ) as [boolean[], boolean[], boolean[], boolean[], boolean[]];
+
+  if (daysOfWeek[7]) {
+    daysOfWeek[0] = true;
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: daysOfWeek.slice(0, 7),
+    dayOrMatch: !fields[2]!.startsWith('*') && !fields[4]!.startsWith('*'),
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time of an instant in the timezone, as a UTC timestamp
+function toWallClock(instant: number, timezone: string): number {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour! % 24, parts.minute!);
+}
+
+// Instant a wall-clock time in the timezone refers to. Times skipped by a DST
+// change resolve to just after the change; repeated times to their first occurrence.
+function fromWallClock(wallClock: number, timezone: string): number {
+  const offset = toWallClock(wallClock, timezone) - wallClock;
+  let instant = wallClock - offset;
+  const adjusted = toWallClock(instant, timezone) - instant;
+  if (adjusted !== offset) {
+    const alternative = wallClock - adjusted;
+    instant = toWallClock(alternative, timezone) === wallClock ? alternative : Math.max(instant, alternative);
+  }
+  return instant;
+}
+
+function matchesDay(cron: CronExpression, wallClock: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth[wallClock.getUTCDate()]!;
+  const dayOfWeek = cron.daysOfWeek[wallClock.getUTCDay()]!;
+  return cron.dayOrMatch ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` the expression fires in the timezone,
+ * or null when it never fires.
+ */
+export function nextCronRun(
+  expression: string | CronExpression,
+  timezone: string,
+  after: Date
+): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Start from the next whole minute on the local wall clock
+  const start = toWallClock(after.getTime(), timezone) + MINUTE_MS;
+  const wall = new Date(start - (start % MINUTE_MS));
+  const limit = Date.UTC(wall.getUTCFullYear() + MAX_SEARCH_YEARS, 0, 1);
+
+  while (wall.getTime() < limit) {
+    if (!cron.months[wall.getUTCMonth() + 1]) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hours[wall.getUTCHours()]) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes[wall.getUTCMinutes()]) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+      continue;
+    }
+
+    const instant = fromWallClock(wall.getTime(), timezone);
+    if (instant > after.getTime()) {
+      return new Date(instant);
+    }
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+  }
+
+  return null;
+}
+
+// The next `count` fire times, for previews
+export function upcomingCronRuns(
+  expression: string,
+  timezone: string,
+  after: Date,
+  count: number
+): Date[] {
+  const cron = parseCron(expression);
+  const runs: Date[] = [];
+
+  let from = after;
+  while (runs.length < count) {
+    const next = nextCronRun(cron, timezone, from);
+    if (!next) break;
+    runs.push(next);
+    from = next;
+  }
+  return runs;
+}
@@ -0,0 +1,22 @@
+import { eq, or } from 'drizzle-orm';
+import { scans } from '@/lib/db/schema';
+
+export interface ScanAccess {
+  userId: string;
+  organizationId: string | null;
+}
+
+// Scans the caller may read: their own and their organization's
+export function scanAccessClause(access: ScanAccess) {
+  return access.organizationId
+    ? or(eq(scans.userId, access.userId), eq(scans.organizationId, access.organizationId))
+    : eq(scans.userId, access.userId);
+}
+
+/**
+ * Owner of per-project state such as baselines and findings: the
+ * organization, or the user for accounts without one.
+ */
+export function scanOwner(access: ScanAccess): string {
+  return access.organizationId || `user:${access.userId}`;
+}
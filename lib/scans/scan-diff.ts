@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import {
+  AnalysisResult,
+  ResultStatus,
+  calculateOverallRiskScore,
+} from '@/lib/compatibility/analysis-engine';
+
+export interface ScanFinding extends AnalysisResult {
+  fingerprint: string;
+  // Results of the scan that share this fingerprint
+  occurrences: number;
+}
+
+export interface UnchangedFinding extends ScanFinding {
+  previousStatus: ResultStatus;
+  previousSeverity: AnalysisResult['severity'];
+}
+
+export interface ScanDiff {
+  new: ScanFinding[];
+  fixed: ScanFinding[];
+  unchanged: UnchangedFinding[];
+  summary: {
+    new: number;
+    fixed: number;
+    unchanged: number;
+  };
+  riskScore: {
+    base: number;
+    head: number;
+    delta: number;
+  };
+}
+
+export interface ScanGate {
+  passed: boolean;
+  // New failed findings; findings already present in the baseline or suppressed never fail the gate
+  regressions: number;
+}
+
+// Components that only carry a version; a version bump must not turn a finding into a new one
+const VERSION_COMPONENTS = /^(version|tool version):/;
+
+/**
+ * Normalize an affected component so the same component matches across scans:
+ * case and whitespace are folded, and package versions are dropped.
+ */
+export function normalizeAffectedComponent(component: string): string | null {
+  const normalized = component.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (!normalized || VERSION_COMPONENTS.test(normalized)) return null;
+
+  const packageMatch = normalized.match(/^package: (.+)$/);
+  if (packageMatch) {
+    // Scoped npm names start with @, so only an @ after the first character separates the version
+    const name = packageMatch[1]!;
+    const at = name.lastIndexOf('@');
+    return `package: ${at > 0 ? name.slice(0, at) : name}`;
+  }
+
+  return normalized;
+}
+
+/**
+ * Stable identity of a result across scans: its rule and the normalized
+ * components it affects, independent of order, message text and versions.
+ */
+export function fingerprintResult(result: Pick<AnalysisResult, 'ruleId' | 'affectedComponents'>): string {
+  const components = Array.from(
+    new Set(
+      (result.affectedComponents ?? [])
+        .map(normalizeAffectedComponent)
+        .filter((component): component is string => component !== null)
+    )
+  ).sort();
+
+  return crypto
+    .createHash('sha256')
+    .update([String(result.ruleId), ...components].join('\0'))
+    .digest('hex');
+}
+
+// Passed checks are not findings; the first result of a fingerprint represents the rest
+function findingsOf(results: AnalysisResult[]): Map<string, ScanFinding> {
+  const findings = new Map<string, ScanFinding>();
+
+  for (const result of results) {
+    if (result.status === ResultStatus.PASSED) continue;
+
+    const fingerprint = fingerprintResult(result);
+    const existing = findings.get(fingerprint);
+    if (existing) {
+      existing.occurrences += 1;
+    } else {
+      findings.set(fingerprint, { ...result, fingerprint, occurrences: 1 });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Compare the results of two scans: findings only in the head scan are new,
+ * findings only in the base scan are fixed. Pass the risk scores the scans
+ * were stored with, which used their organization's scoring profile; without
+ * them both are computed with the default profile.
+ */
+export function diffScans(
+  baseResults: AnalysisResult[],
+  headResults: AnalysisResult[],
+  riskScores?: { base: number; head: number }
+): ScanDiff {
+  const base = findingsOf(baseResults);
+  const head = findingsOf(headResults);
+
+  const added: ScanFinding[] = [];
+  const unchanged: UnchangedFinding[] = [];
+  for (const [fingerprint, finding] of head) {
+    const previous = base.get(fingerprint);
+    if (previous) {
+      unchanged.push({ ...finding, previousStatus: previous.status, previousSeverity: previous.severity });
+    } else {
+      added.push(finding);
+    }
+  }
+  const fixed = Array.from(base.values()).filter(finding => !head.has(finding.fingerprint));
+
+  const baseScore = riskScores?.base ?? calculateOverallRiskScore(baseResults);
+  const headScore = riskScores?.head ?? calculateOverallRiskScore(headResults);
+
+  return {
+    new: added,
+    fixed,
+    unchanged,
+    summary: {
+      new: added.length,
+      fixed: fixed.length,
+      unchanged: unchanged.length,
+    },
+    riskScore: {
+      base: baseScore,
+      head: headScore,
+      delta: headScore - baseScore,
+    },
+  };
+}
+
+/**
+ * Gate a scan against its baseline: it fails only when it introduces unsuppressed
+ * failed findings
+ */
+export function evaluateGate(diff: ScanDiff): ScanGate {
+  const regressions = diff.new
+    .filter(finding => finding.status === ResultStatus.FAILED && !finding.suppression)
+    .length;
+  return { passed: regressions === 0, regressions };
+}
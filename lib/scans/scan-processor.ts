@@ -0,0 +1,433 @@
+import { db } from '@/lib/db/drizzle';
+import { scans, ActivityType } from '@/lib/db/schema';
+import { eq, and, notInArray } from 'drizzle-orm';
+import { logActivity } from '@/lib/db/queries';
+import {
+  CompatibilityAnalysisEngine,
+  AnalysisContext,
+  AnalysisResult,
+  calculateOverallRiskScore,
+} from '@/lib/compatibility/analysis-engine';
+import { ruleService } from '@/lib/compatibility/rule-service';
+import { compatibilityMatrixService } from '@/lib/compatibility/matrix-service';
+import { scoringProfileService } from '@/lib/compatibility/scoring-profile-service';
+import { explainResults, ScoringProfileSnapshot } from '@/lib/compatibility/scoring-profile';
+import { patternLibraryService } from '@/lib/patterns/pattern-service';
+import { evaluateCompatibilityMatrix } from '@/lib/compatibility/compatibility-matrix';
+import { checkInventory } from '@/lib/inventory/inventory-checks';
+import { checkLifecycle, checkRuntimeConstraints } from '@/lib/inventory/lifecycle-checks';
+import type { InventoryComponent } from '@/lib/inventory/types';
+import { DEFAULT_BROWSERSLIST, resolveBrowserslist } from '@/lib/source-analysis/browserslist';
+import { checkBrowserCompat } from '@/lib/source-analysis/browser-compat';
+import { checkSourceApis } from '@/lib/source-analysis/api-checks';
+import type { ProjectConfig, SourceFeatureUsage } from '@/lib/source-analysis/types';
+import { checkKubernetesResources } from '@/lib/kubernetes/api-checks';
+import { DEFAULT_KUBERNETES_VERSION } from '@/lib/kubernetes/api-deprecations';
+import type { KubernetesResource } from '@/lib/kubernetes/types';
+import type { VulnerabilityImport } from '@/lib/integrations/types';
+import { vulnerabilityStore } from '@/lib/vulnerabilities/vulnerability-store';
+import { vulnerabilityResults } from '@/lib/vulnerabilities/matcher';
+import { isInventoryDataType, type CompatibilityDataEntry } from '@/lib/upload/file-handler';
+import { assetService } from '@/lib/assets/asset-service';
+import { hostComponents } from '@/lib/assets/host-inventory';
+import { attributeToHost, checkHost } from '@/lib/assets/host-checks';
+import { getSystemInformation } from '@/lib/utils/system-info';
+import {
+  resolveScanUploads,
+  readScanInputs,
+  ScanFileMetrics,
+} from '@/lib/upload/scan-inputs';
+import { ScanJob, ScanStatus } from './scan-queue';
+import { scanBaselineService } from './baseline-service';
+import { findingService } from '@/lib/findings/finding-service';
+
+// Thrown at a checkpoint when the scan was cancelled while running
+export class ScanCancelledError extends Error {
+  constructor(public scanId: string) {
+    super(`Scan ${scanId} was cancelled`);
+    this.name = 'ScanCancelledError';
+  }
+}
+
+export interface ScanProcessingHooks {
+  isCancelled: () => Promise<boolean>;
+}
+
+// A worker must never overwrite a scan that was cancelled or already finished
+const FINAL_STATUSES = [ScanStatus.CANCELLED, ScanStatus.COMPLETED, ScanStatus.FAILED];
+
+function activeScan(scanId: string) {
+  return and(eq(scans.id, scanId), notInArray(scans.status, FINAL_STATUSES));
+}
+
+function actorFields(job: ScanJob) {
+  return {
+    userId: job.userId,
+    ...(job.organizationId ? { organizationId: job.organizationId } : {}),
+  };
+}
+
+/**
+ * Run a queued scan: analyze its uploads and store the results.
+ * Throws on failure so the worker can decide whether to retry.
+ */
+export async function processScan(job: ScanJob, hooks: ScanProcessingHooks): Promise<void> {
+  const { scanId } = job;
+
+  const checkpoint = async (progress?: number) => {
+    if (await hooks.isCancelled()) {
+      throw new ScanCancelledError(scanId);
+    }
+    if (progress !== undefined) {
+      await db.update(scans).set({ progress }).where(activeScan(scanId));
+    }
+  };
+
+  await checkpoint();
+
+  // Capture system information (server + client)
+  const systemInfo = await getSystemInformation(job.clientSystemInfo);
+
+  // Update scan status to running
+  await db
+    .update(scans)
+    .set({
+      status: ScanStatus.RUNNING,
+      startedAt: new Date(),
+      error: null,
+      progress: 10,
+    })
+    .where(activeScan(scanId));
+
+  const context: AnalysisContext = {
+    sessionId: job.sessionId,
+    userId: job.userId,
+    dataType: job.dataType,
+    // Load the organization's enabled rules plus global rules
+    rules: await ruleService.getActiveRules(job.organizationId?.toString() ?? null),
+    ...(job.organizationId ? { organizationId: job.organizationId } : {}),
+  };
+
+  // Version ranges compatibility rows are checked against
+  const matrix = await compatibilityMatrixService.getMatrix(job.organizationId?.toString() ?? null);
+
+  // Score with the organization's active profile; the scan keeps a copy so its scores stay reproducible
+  const activeProfile = await scoringProfileService.getActiveProfile(job.organizationId?.toString() ?? null);
+  const scoringProfile: ScoringProfileSnapshot = {
+    id: activeProfile.id,
+    organizationId: activeProfile.organizationId,
+    version: activeProfile.version,
+    profile: activeProfile.profile,
+  };
+  // Enabled patterns of the organization's library, compiled once for the whole scan
+  const patterns = await patternLibraryService.getActivePatterns(job.organizationId?.toString() ?? null);
+  const analysisEngine = new CompatibilityAnalysisEngine(scoringProfile.profile, patterns);
+
+  await checkpoint(30);
+
+  // Resolve the uploads referenced by the scan
+  const { uploads } = await resolveScanUploads(job.uploadIds, {
+    userId: job.userId,
+    organizationId: job.organizationId,
+  });
+
+  // Stream each file's validated entries through the analysis engine
+  const analysisResults: AnalysisResult[] = [];
+  const fileMetrics = new Map<number, ScanFileMetrics>();
+  // Inventory checks compare components across batches, so manifests are checked once read in full
+  const inventories = new Map<number, InventoryComponent[]>();
+  // Browser and Node.js targets come from the project config, which may be uploaded after the sources
+  const sourceUsages: SourceFeatureUsage[] = [];
+  let projectConfig: ProjectConfig = {};
+  const kubernetesResources: KubernetesResource[] = [];
+
+  for await (const batch of readScanInputs(uploads)) {
+    if (!fileMetrics.has(batch.file.uploadId)) {
+      fileMetrics.set(batch.file.uploadId, batch.file);
+
+      // Progress moves from 30% to 75% as files are processed
+      await checkpoint(30 + Math.floor((fileMetrics.size / Math.max(uploads.length, 1)) * 45));
+    } else {
+      await checkpoint();
+    }
+
+    if (batch.projectConfig) {
+      // package.json and pyproject.toml each declare some of the runtimes
+      const runtimes = { ...projectConfig.runtimes, ...batch.projectConfig.runtimes };
+      projectConfig = {
+        ...projectConfig,
+        ...batch.projectConfig,
+        ...(Object.keys(runtimes).length > 0 ? { runtimes } : {}),
+      };
+    }
+
+    if (batch.entries.length === 0) continue;
+
+    const batchResults = await analysisEngine.analyzeData(batch.entries, {
+      ...context,
+      dataType: batch.file.dataType,
+    });
+    analysisResults.push(...batchResults);
+
+    if (batch.file.dataType === 'compatibility_data' && matrix.length > 0) {
+      analysisResults.push(
+        ...evaluateCompatibilityMatrix(batch.entries as CompatibilityDataEntry[], matrix)
+      );
+    }
+
+    if (isInventoryDataType(batch.file.dataType)) {
+      const components = inventories.get(batch.file.uploadId) ?? [];
+      components.push(...(batch.entries as InventoryComponent[]));
+      inventories.set(batch.file.uploadId, components);
+    }
+
+    if (batch.file.dataType === 'source_code') {
+      sourceUsages.push(...(batch.entries as SourceFeatureUsage[]));
+    }
+
+    if (batch.file.dataType === 'kubernetes_manifest') {
+      kubernetesResources.push(...(batch.entries as KubernetesResource[]));
+    }
+  }
+
+  // Browser support of the features used in source files, for the project's browserslist
+  const browserslist = projectConfig.browserslist ?? DEFAULT_BROWSERSLIST;
+  const browserTargets = sourceUsages.length > 0 ? { queries: browserslist, ...resolveBrowserslist(browserslist) } : null;
+  if (browserTargets) {
+    analysisResults.push(...checkBrowserCompat(sourceUsages, browserTargets.targets, { browserslist }));
+  }
+  // Deprecated APIs, including Node.js built-ins removed in versions engines.node allows
+  analysisResults.push(
+    ...checkSourceApis(sourceUsages, projectConfig.nodeEngine ? { nodeEngine: projectConfig.nodeEngine } : {})
+  );
+
+  // Kubernetes APIs deprecated or no longer served by the scan's target cluster version
+  const kubernetes = kubernetesResources.length > 0
+    ? { targetVersion: job.kubernetesVersion ?? DEFAULT_KUBERNETES_VERSION, resources: kubernetesResources.length }
+    : null;
+  if (kubernetes) {
+    analysisResults.push(...checkKubernetesResources(kubernetesResources, { targetVersion: kubernetes.targetVersion }));
+  }
+
+  // Known vulnerabilities of inventory components, from the offline vulnerability database
+  const vulnerabilities: VulnerabilityImport[] = [];
+
+  for (const [uploadId, components] of inventories) {
+    const source = fileMetrics.get(uploadId)?.originalName;
+    analysisResults.push(...checkInventory(components, source ? { source } : {}));
+    analysisResults.push(...checkLifecycle(components, source ? { source } : {}));
+
+    const matches = await vulnerabilityStore.matchComponents(components);
+    analysisResults.push(...vulnerabilityResults(matches, source ? { source } : {}));
+    vulnerabilities.push(...matches.map(match => match.vulnerability));
+  }
+
+  // Inventory a host agent reported: its packages go through the rules like a manifest's
+  const hostInventory = job.assetId ? await assetService.getHostInventory(job.assetId) : null;
+  if (job.assetId && !hostInventory) {
+    throw new Error(`Asset ${job.assetId} no longer exists`);
+  }
+  const host = hostInventory ? { inventory: hostInventory, components: hostComponents(hostInventory) } : null;
+  if (host) {
+    await checkpoint();
+    analysisResults.push(...await analysisEngine.analyzeData(host.components, {
+      ...context,
+      dataType: 'dependency_manifest',
+    }));
+    analysisResults.push(...checkHost(host.inventory));
+
+    const matches = await vulnerabilityStore.matchComponents(host.components);
+    analysisResults.push(...attributeToHost(vulnerabilityResults(matches), host.inventory));
+    vulnerabilities.push(...matches.map(match => match.vulnerability));
+  }
+
+  // Runtimes the base images and OS packages provide, against what the application requires
+  if (projectConfig.runtimes) {
+    analysisResults.push(
+      ...checkRuntimeConstraints(Array.from(inventories.values()).flat(), projectConfig.runtimes)
+    );
+  }
+
+  const files = Array.from(fileMetrics.values());
+  if (uploads.length > 0 && files.every(file => file.status === 'failed')) {
+    throw new Error(
+      `No referenced file could be parsed: ${files.flatMap(file => file.parseErrors).slice(0, 3).join('; ')}`
+    );
+  }
+
+  await checkpoint(75);
+
+  // Track which rules this scan evaluated and which patterns matched
+  await ruleService.recordUsage(context.rules.map(rule => rule.id));
+  await patternLibraryService.recordHits(analysisEngine.getPatternHits());
+
+  // Record findings of the scan's project and mark suppressed results
+  const access = { userId: job.userId.toString(), organizationId: job.organizationId?.toString() ?? null };
+  const project = await scanBaselineService.getScanProject(access, scanId);
+  const triage = await findingService.triageScanResults(access, scanId, project, analysisResults);
+  const storedResults = explainResults(triage.results, scoringProfile.profile);
+  // Suppressed results are reported separately and count toward no totals
+  const activeResults = storedResults.filter(result => !result.suppression);
+
+  // Calculate overall risk score
+  const riskScore = calculateOverallRiskScore(storedResults, scoringProfile.profile);
+
+  // Only findings missing from the project's pinned baseline fail the gate
+  const baseline = await scanBaselineService.gateAgainstBaseline(access, scanId, project, storedResults, riskScore);
+
+  // Count results by status
+  const completedChecks = activeResults.length;
+  const failedChecks = activeResults.filter(r => r.status === 'failed').length;
+  const warningChecks = activeResults.filter(r => r.status === 'warning').length;
+  const passedChecks = activeResults.filter(r => r.status === 'passed').length;
+
+  // Group results by severity
+  const resultsBySeverity = activeResults.reduce((acc: Record<string, number>, result: any) => {
+    const severity = result.severity || 'unknown';
+    acc[severity] = (acc[severity] || 0) + 1;
+    return acc;
+  }, {});
+
+  await checkpoint();
+
+  // Update scan status to completed with results, metrics, and system information
+  const [completed] = await db
+    .update(scans)
+    .set({
+      status: ScanStatus.COMPLETED,
+      completedAt: new Date(),
+      progress: 100,
+      results: {
+        items: storedResults,
+        summary: {
+          total: completedChecks,
+          passed: passedChecks,
+          warning: warningChecks,
+          failed: failedChecks,
+          suppressed: triage.suppressed,
+        },
+        bySeverity: resultsBySeverity,
+        systemInformation: systemInfo,
+        // Component inventory of manifest and SBOM uploads, used for SBOM export
+        ...(inventories.size > 0 || host
+          ? { components: [...Array.from(inventories.values()).flat(), ...(host?.components ?? [])] }
+          : {}),
+        ...(vulnerabilities.length > 0 ? { vulnerabilities } : {}),
+        // Browsers the source files were checked against
+        ...(browserTargets ? { browserTargets } : {}),
+        // Host the inventory was reported by
+        ...(host
+          ? {
+              host: {
+                assetId: job.assetId,
+                hostname: host.inventory.hostname,
+                os: host.inventory.os,
+                kernel: host.inventory.kernel.release,
+                collectedAt: host.inventory.collectedAt,
+              },
+            }
+          : {}),
+        // Cluster version the Kubernetes manifests were checked against
+        ...(kubernetes ? { kubernetes } : {}),
+        ...(baseline ? { baseline } : {}),
+        scoringProfile,
+      },
+      metrics: {
+        riskScore,
+        scoringProfileVersion: scoringProfile.version,
+        completedChecks,
+        failedChecks,
+        warningChecks,
+        passedChecks,
+        suppressedChecks: triage.suppressed,
+        findingsCreated: triage.created,
+        findingsReopened: triage.reopened,
+        totalRules: context.rules.length,
+        totalPatterns: patterns.length,
+        matrixEntries: matrix.length,
+        vulnerabilities: vulnerabilities.length,
+        ...(baseline ? { newFindings: baseline.summary.new, fixedFindings: baseline.summary.fixed } : {}),
+        totalComponents: files.reduce((sum, file) => sum + file.validRows, 0) + (host?.components.length ?? 0),
+        totalRows: files.reduce((sum, file) => sum + file.totalRows, 0),
+        invalidRows: files.reduce((sum, file) => sum + file.invalidRows, 0),
+        failedFiles: files.filter(file => file.status === 'failed').length,
+        files,
+        attempts: job.attempts + 1,
+        scanDuration: 0, // Will be calculated by client
+      },
+    })
+    .where(activeScan(scanId))
+    .returning({ id: scans.id });
+
+  // The scan was cancelled between the last checkpoint and the write
+  if (!completed) {
+    throw new ScanCancelledError(scanId);
+  }
+
+  // Log scan completion
+  await logActivity({
+    ...actorFields(job),
+    action: ActivityType.SCAN_COMPLETED,
+    entityType: 'scan',
+    description: `Scan completed with risk score: ${(riskScore * 100).toFixed(1)}%`,
+    metadata: {
+      scanId,
+      sessionId: job.sessionId,
+      totalChecks: completedChecks,
+      failedChecks,
+      warningChecks,
+      passedChecks,
+      riskScore,
+      scoringProfileVersion: scoringProfile.version,
+      ...(baseline ? { baselineScanId: baseline.baselineScanId, gatePassed: baseline.passed } : {}),
+    },
+  });
+
+  console.log(`Scan ${scanId} completed successfully`);
+}
+
+/**
+ * Return a scan to the queued state after a failed attempt that will be retried
+ */
+export async function markScanRetrying(job: ScanJob, error: unknown): Promise<void> {
+  await db
+    .update(scans)
+    .set({
+      status: ScanStatus.QUEUED,
+      error: `Attempt ${job.attempts} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      progress: 0,
+    })
+    .where(activeScan(job.scanId));
+}
+
+/**
+ * Mark a scan as failed once it has exhausted its retries
+ */
+export async function markScanFailed(job: ScanJob, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  // Update scan status to failed
+  await db
+    .update(scans)
+    .set({
+      status: ScanStatus.FAILED,
+      completedAt: new Date(),
+      error: message,
+      progress: 0,
+    })
+    .where(activeScan(job.scanId));
+
+  // Log scan failure
+  await logActivity({
+    ...actorFields(job),
+    action: ActivityType.SCAN_FAILED,
+    entityType: 'scan',
+    description: `Scan failed: ${message}`,
+    metadata: {
+      scanId: job.scanId,
+      sessionId: job.sessionId,
+      attempts: job.attempts,
+      error: message,
+    },
+  });
+}
@@ -0,0 +1,338 @@
+import { redis } from '@/lib/redis/client';
+import type { UploadDataType } from '@/lib/upload/file-handler';
+
+// Scan status enum (since it's not in schema)
+export const ScanStatus = {
+  PENDING: 'pending',
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+} as const;
+
+export type ScanStatusValue = typeof ScanStatus[keyof typeof ScanStatus];
+
+export interface ScanJob {
+  id: string;
+  scanId: string;
+  sessionId: string;
+  userId: number;
+  organizationId?: number;
+  dataType: UploadDataType;
+  uploadIds: number[];
+  clientSystemInfo?: any;
+  // Cluster version Kubernetes manifests are checked against
+  kubernetesVersion?: string;
+  // Host whose agent-reported inventory the scan checks
+  assetId?: string;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  processAt?: string;
+  lastError?: string;
+}
+
+export type NewScanJob = Omit<ScanJob, 'id' | 'attempts' | 'maxAttempts' | 'createdAt' | 'processAt'>;
+
+const KEYS = {
+  pending: 'scan_jobs:pending',
+  processing: 'scan_jobs:processing',
+  delayed: 'scan_jobs:delayed',
+  cancelled: 'scan_jobs:cancelled',
+  heartbeatPrefix: 'scan_jobs:heartbeat:',
+  heartbeat: (scanId: string) => `scan_jobs:heartbeat:${scanId}`,
+  active: (organizationId?: number) => `scan_jobs:active:${organizationId ?? 'personal'}`,
+  results: (status: 'completed' | 'failed' | 'cancelled') => `scan_job_results:${status}`,
+};
+
+export const SCAN_QUEUE_CONFIG = {
+  maxAttempts: parseInt(process.env.SCAN_JOB_MAX_ATTEMPTS || '3'),
+  retryBaseDelayMs: parseInt(process.env.SCAN_JOB_RETRY_DELAY_MS || '5000'),
+  maxConcurrentPerOrg: parseInt(process.env.SCAN_MAX_CONCURRENT_PER_ORG || '2'),
+  // Delay before re-checking a job whose organization is at its concurrency limit
+  orgLimitDeferMs: 5000,
+  // A running job whose heartbeat is older than this is considered abandoned
+  heartbeatTtlSeconds: 60,
+  // How often `reserve` checks an empty queue for new jobs
+  reservePollMs: 500,
+  cancelledTtlSeconds: 7 * 24 * 60 * 60,
+};
+
+// Move the oldest pending job to processing and write its heartbeat in one
+// step, so recovery never sees a reserved job without a heartbeat
+const RESERVE_JOB_SCRIPT = `
+local raw = redis.call('rpoplpush', KEYS[1], KEYS[2])
+if not raw then
+  return false
+end
+local job = cjson.decode(raw)
+redis.call('set', ARGV[1] .. job.scanId, job.id, 'EX', ARGV[2])
+return raw`;
+
+// Take a concurrency slot unless the organization already holds the limit
+const ACQUIRE_SLOT_SCRIPT = `
+if redis.call('sismember', KEYS[1], ARGV[1]) == 1 then
+  return 1
+end
+if redis.call('scard', KEYS[1]) >= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('sadd', KEYS[1], ARGV[1])
+return 1`;
+
+// Exponential backoff: base, 2x base, 4x base, ...
+export function getRetryDelay(attempts: number, baseDelayMs: number = SCAN_QUEUE_CONFIG.retryBaseDelayMs): number {
+  return Math.pow(2, Math.max(attempts - 1, 0)) * baseDelayMs;
+}
+
+export class ScanQueue {
+  private static instance: ScanQueue;
+
+  static getInstance(): ScanQueue {
+    if (!ScanQueue.instance) {
+      ScanQueue.instance = new ScanQueue();
+    }
+    return ScanQueue.instance;
+  }
+
+  /**
+   * Add a scan to the queue
+   */
+  async enqueue(data: NewScanJob, options: { maxAttempts?: number } = {}): Promise<ScanJob> {
+    const job: ScanJob = {
+      ...data,
+      id: `scan_job:${data.scanId}`,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || SCAN_QUEUE_CONFIG.maxAttempts,
+      createdAt: new Date().toISOString(),
+    };
+
+    await redis.lpush(KEYS.pending, JSON.stringify(job));
+    return job;
+  }
+
+  /**
+   * Take the next runnable job, moving it to the processing list so it
+   * survives a worker crash. Waits for up to `timeoutSeconds`.
+   */
+  async reserve(timeoutSeconds = 5): Promise<ScanJob | null> {
+    const deadline = Date.now() + timeoutSeconds * 1000;
+
+    while (true) {
+      await this.promoteDelayedJobs();
+
+      const raw = await redis.eval(
+        RESERVE_JOB_SCRIPT,
+        2,
+        KEYS.pending,
+        KEYS.processing,
+        KEYS.heartbeatPrefix,
+        SCAN_QUEUE_CONFIG.heartbeatTtlSeconds
+      ) as string | null;
+      if (raw) return JSON.parse(raw);
+
+      if (Date.now() >= deadline) return null;
+      await new Promise(resolve => setTimeout(resolve, SCAN_QUEUE_CONFIG.reservePollMs));
+    }
+  }
+
+  /**
+   * Mark a reserved job as alive
+   */
+  async heartbeat(job: ScanJob): Promise<void> {
+    await redis.set(KEYS.heartbeat(job.scanId), job.id, 'EX', SCAN_QUEUE_CONFIG.heartbeatTtlSeconds);
+  }
+
+  /**
+   * Try to take one of the organization's concurrency slots
+   */
+  async acquireOrgSlot(job: ScanJob): Promise<boolean> {
+    const acquired = await redis.eval(
+      ACQUIRE_SLOT_SCRIPT,
+      1,
+      KEYS.active(job.organizationId),
+      job.scanId,
+      SCAN_QUEUE_CONFIG.maxConcurrentPerOrg
+    );
+    return acquired === 1;
+  }
+
+  async releaseOrgSlot(job: ScanJob): Promise<void> {
+    await redis.srem(KEYS.active(job.organizationId), job.scanId);
+  }
+
+  /**
+   * Put a reserved job back without counting an attempt (e.g. org at capacity)
+   */
+  async defer(job: ScanJob, delayMs: number): Promise<void> {
+    job.processAt = new Date(Date.now() + delayMs).toISOString();
+    await this.moveToDelayed(job);
+  }
+
+  /**
+   * Finish a reserved job successfully
+   */
+  async complete(job: ScanJob): Promise<void> {
+    await this.release(job);
+    await this.saveJobResult(job, 'completed');
+  }
+
+  /**
+   * Record a failed attempt. Returns true if the job will be retried.
+   */
+  async fail(job: ScanJob, error: unknown): Promise<boolean> {
+    job.attempts++;
+    job.lastError = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = getRetryDelay(job.attempts);
+      job.processAt = new Date(Date.now() + delay).toISOString();
+
+      console.log(`Retrying scan ${job.scanId} in ${delay}ms (attempt ${job.attempts + 1}/${job.maxAttempts})`);
+      await this.moveToDelayed(job);
+      return true;
+    }
+
+    await this.release(job);
+    await this.saveJobResult(job, 'failed');
+    console.error(`Scan ${job.scanId} failed permanently after ${job.attempts} attempts`);
+    return false;
+  }
+
+  /**
+   * Acknowledge a job that stopped because it was cancelled
+   */
+  async acknowledgeCancelled(job: ScanJob): Promise<void> {
+    await this.release(job);
+    await this.saveJobResult(job, 'cancelled');
+  }
+
+  /**
+   * Cancel a scan. Waiting jobs are removed from the queue; running jobs
+   * observe the flag and stop at their next checkpoint.
+   * Returns true if a waiting job was removed.
+   */
+  async cancel(scanId: string): Promise<boolean> {
+    await redis.sadd(KEYS.cancelled, scanId);
+    await redis.expire(KEYS.cancelled, SCAN_QUEUE_CONFIG.cancelledTtlSeconds);
+
+    let removed = false;
+
+    const pending = await redis.lrange(KEYS.pending, 0, -1);
+    for (const raw of pending) {
+      if ((JSON.parse(raw) as ScanJob).scanId === scanId) {
+        removed = (await redis.lrem(KEYS.pending, 0, raw)) > 0 || removed;
+      }
+    }
+
+    const delayed = await redis.zrange(KEYS.delayed, 0, -1);
+    for (const raw of delayed) {
+      if ((JSON.parse(raw) as ScanJob).scanId === scanId) {
+        removed = (await redis.zrem(KEYS.delayed, raw)) > 0 || removed;
+      }
+    }
+
+    return removed;
+  }
+
+  async isCancelled(scanId: string): Promise<boolean> {
+    return (await redis.sismember(KEYS.cancelled, scanId)) === 1;
+  }
+
+  /**
+   * Requeue jobs left in the processing list by workers that died.
+   * Jobs that have used up their attempts are returned as exhausted.
+   */
+  async recoverStalledJobs(): Promise<{ requeued: ScanJob[]; exhausted: ScanJob[] }> {
+    const processing = await redis.lrange(KEYS.processing, 0, -1);
+    const requeued: ScanJob[] = [];
+    const exhausted: ScanJob[] = [];
+
+    for (const raw of processing) {
+      const job: ScanJob = JSON.parse(raw);
+      const alive = await redis.exists(KEYS.heartbeat(job.scanId));
+      if (alive) continue;
+
+      // Only the worker that wins the LREM requeues the job
+      if ((await redis.lrem(KEYS.processing, 1, raw)) === 0) continue;
+
+      await this.releaseOrgSlot(job);
+      job.attempts++;
+      job.lastError = 'Worker stopped responding';
+
+      if (job.attempts < job.maxAttempts) {
+        await redis.lpush(KEYS.pending, JSON.stringify(job));
+        requeued.push(job);
+      } else {
+        await this.saveJobResult(job, 'failed');
+        exhausted.push(job);
+      }
+    }
+
+    return { requeued, exhausted };
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getQueueStats(): Promise<{
+    pending: number;
+    delayed: number;
+    processing: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+  }> {
+    const [pending, delayed, processing, completed, failed, cancelled] = await Promise.all([
+      redis.llen(KEYS.pending),
+      redis.zcard(KEYS.delayed),
+      redis.llen(KEYS.processing),
+      redis.llen(KEYS.results('completed')),
+      redis.llen(KEYS.results('failed')),
+      redis.llen(KEYS.results('cancelled')),
+    ]);
+
+    return { pending, delayed, processing, completed, failed, cancelled };
+  }
+
+  private async promoteDelayedJobs(): Promise<void> {
+    const due = await redis.zrangebyscore(KEYS.delayed, 0, Date.now());
+    for (const raw of due) {
+      // Only the worker that wins the ZREM promotes the job
+      if ((await redis.zrem(KEYS.delayed, raw)) > 0) {
+        await redis.lpush(KEYS.pending, raw);
+      }
+    }
+  }
+
+  private async moveToDelayed(job: ScanJob): Promise<void> {
+    await this.release(job);
+    const processAt = job.processAt ? new Date(job.processAt).getTime() : Date.now();
+    await redis.zadd(KEYS.delayed, processAt, JSON.stringify(job));
+  }
+
+  // Drop a job from the processing list; it was serialized before any mutation
+  private async release(job: ScanJob): Promise<void> {
+    const processing = await redis.lrange(KEYS.processing, 0, -1);
+    const raw = processing.find(item => (JSON.parse(item) as ScanJob).id === job.id);
+    if (raw) {
+      await redis.lrem(KEYS.processing, 1, raw);
+    }
+    await redis.del(KEYS.heartbeat(job.scanId));
+  }
+
+  private async saveJobResult(job: ScanJob, status: 'completed' | 'failed' | 'cancelled'): Promise<void> {
+    const key = KEYS.results(status);
+    await redis.lpush(key, JSON.stringify({
+      jobId: job.id,
+      scanId: job.scanId,
+      attempts: job.attempts,
+      createdAt: job.createdAt,
+      finishedAt: new Date().toISOString(),
+      error: job.lastError,
+    }));
+    await redis.ltrim(key, 0, 999);
+    await redis.expire(key, 7 * 24 * 60 * 60); // 7 days
+  }
+}
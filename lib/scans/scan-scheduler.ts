@@ -0,0 +1,430 @@
+import os from 'os';
+import crypto from 'crypto';
+import { db } from '@/lib/db/drizzle';
+import {
+  scans,
+  projects,
+  integrations,
+  ActivityType,
+  FileUpload,
+  Integration as IntegrationRecord,
+  Project,
+  ScanSchedule,
+  ScanScheduleRun,
+} from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { locks } from '@/lib/db/redis';
+import { logActivity } from '@/lib/db/queries';
+import { NotificationEvents } from '@/lib/notifications/events';
+import { IntegrationManager } from '@/lib/integrations/integration-manager';
+import { getProvider } from '@/lib/integrations/providers';
+import { IntegrationConfig, SyncScanInput } from '@/lib/integrations/types';
+import { normalizeDataType } from '@/lib/upload/file-handler';
+import { storeScanInput } from '@/lib/upload/scan-inputs';
+import { ScanQueue, ScanStatus } from './scan-queue';
+import {
+  scheduleService,
+  scheduleOwner,
+  ScheduleRunStatus,
+  ScheduleSource,
+} from './schedule-service';
+
+// Only the replica holding this lock fires schedules
+const LEADER_LOCK = 'scan-scheduler:leader';
+
+export interface ScanSchedulerOptions {
+  tickIntervalMs?: number;
+  leaseMs?: number;
+  batchSize?: number;
+  resumeCheckIntervalMs?: number;
+}
+
+interface RunOutcome {
+  status: ScheduleRunStatus;
+  scanId?: string;
+  error?: string;
+}
+
+/**
+ * Fires due scan schedules. Every replica may run one; they elect a leader
+ * through a Redis lock and only the leader fires, so a schedule is not
+ * started twice. Runs are also claimed in the database, which keeps a
+ * leader whose lease lapsed mid-tick from repeating a run.
+ */
+export class ScanScheduler {
+  private queue = ScanQueue.getInstance();
+  private running = false;
+  private leader = false;
+  private loop?: Promise<void>;
+  private sleepTimer?: NodeJS.Timeout;
+  private wake?: () => void;
+  private lastResumeCheck = 0;
+  private readonly token = `${os.hostname()}:${process.pid}:${crypto.randomUUID()}`;
+  private readonly tickIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly batchSize: number;
+  private readonly resumeCheckIntervalMs: number;
+
+  constructor(options: ScanSchedulerOptions = {}) {
+    this.tickIntervalMs = options.tickIntervalMs ?? parseInt(process.env.SCAN_SCHEDULER_TICK_MS || '15000');
+    // The lease outlives a few ticks so a busy leader keeps it between renewals
+    this.leaseMs = options.leaseMs ?? this.tickIntervalMs * 3;
+    this.batchSize = options.batchSize ?? 50;
+    this.resumeCheckIntervalMs = options.resumeCheckIntervalMs ?? 5 * 60 * 1000;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.loop = this.runLoop();
+
+    console.log(`Scan scheduler started (${this.token})`);
+  }
+
+  /**
+   * Finish the current tick and hand leadership over to another replica
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+    }
+    this.wake?.();
+    await this.loop;
+
+    if (this.leader) {
+      await locks.release(LEADER_LOCK, this.token);
+      this.leader = false;
+    }
+
+    console.log('Scan scheduler stopped');
+  }
+
+  private async runLoop(): Promise<void> {
+    while (this.running) {
+      try {
+        if (await this.holdLeadership()) {
+          await this.tick(new Date());
+        }
+      } catch (error) {
+        console.error('Scan scheduler error:', error);
+      }
+
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+        this.sleepTimer = setTimeout(resolve, this.tickIntervalMs);
+      });
+    }
+  }
+
+  // Take or extend the leader lease; false while another replica leads
+  private async holdLeadership(): Promise<boolean> {
+    if (this.leader) {
+      this.leader = await locks.renew(LEADER_LOCK, this.token, this.leaseMs);
+      if (!this.leader) {
+        console.warn('Scan scheduler lost leadership');
+      }
+      return this.leader;
+    }
+
+    this.leader = await locks.acquire(LEADER_LOCK, this.token, this.leaseMs);
+    if (this.leader) {
+      console.log('Scan scheduler became leader');
+    }
+    return this.leader;
+  }
+
+  private async tick(now: Date): Promise<void> {
+    const due = await scheduleService.getDueSchedules(now, this.batchSize);
+    for (const schedule of due) {
+      if (!this.running || !(await this.holdLeadership())) return;
+      await this.fire(schedule, now);
+    }
+
+    await this.sendReminders(now);
+
+    if (now.getTime() - this.lastResumeCheck >= this.resumeCheckIntervalMs) {
+      this.lastResumeCheck = now.getTime();
+      await this.resumePausedSchedules();
+    }
+  }
+
+  private async fire(schedule: ScanSchedule, now: Date): Promise<void> {
+    const run = await scheduleService.claimRun(schedule, now);
+    if (!run) return;
+
+    let outcome: RunOutcome;
+    try {
+      outcome = await this.startRun(schedule, run);
+    } catch (error) {
+      console.error(`Scheduled run of ${schedule.id} failed:`, error);
+      outcome = {
+        status: ScheduleRunStatus.FAILED,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    await scheduleService.finishRun(schedule, run, outcome);
+  }
+
+  private async startRun(schedule: ScanSchedule, run: ScanScheduleRun): Promise<RunOutcome> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, schedule.projectId))
+      .limit(1);
+
+    if (!project) {
+      return { status: ScheduleRunStatus.SKIPPED, error: 'The project no longer exists' };
+    }
+
+    let uploads: FileUpload[] = [];
+    let assetId: string | undefined;
+    switch (schedule.source) {
+      case ScheduleSource.LAST_UPLOAD:
+        uploads = await scheduleService.getLatestArtifacts(schedule);
+        if (uploads.length === 0) {
+          return { status: ScheduleRunStatus.SKIPPED, error: 'No artifact has been uploaded for the project' };
+        }
+        break;
+
+      case ScheduleSource.INTEGRATION: {
+        const integration = await scheduleService.getSourceIntegration(schedule);
+        if (!integration) {
+          return { status: ScheduleRunStatus.SKIPPED, error: 'The integration is missing or inactive' };
+        }
+        const inputs = await this.pullIntegration(integration);
+        if (inputs.length === 0) {
+          return { status: ScheduleRunStatus.SKIPPED, error: 'The integration pull produced nothing to scan' };
+        }
+        // Stored as uploads of the schedule's owner, so the scan reads them like any other input
+        const owner = scheduleOwner(schedule);
+        for (const input of inputs) {
+          uploads.push(await storeScanInput(owner, input.name, input.dataType, input.entries));
+        }
+        break;
+      }
+
+      case ScheduleSource.SYSTEM: {
+        const asset = await scheduleService.getSourceAsset(schedule);
+        if (!asset) {
+          return { status: ScheduleRunStatus.SKIPPED, error: 'The asset no longer exists' };
+        }
+        assetId = asset.id;
+        break;
+      }
+
+      default:
+        return { status: ScheduleRunStatus.FAILED, error: `Unknown schedule source ${schedule.source}` };
+    }
+
+    const scanId = await this.launchScan(schedule, project, run, uploads, assetId);
+    return { status: ScheduleRunStatus.QUEUED, scanId };
+  }
+
+  // Sync the integration before scanning, recording the outcome on it; returns the entries the sync pulled
+  private async pullIntegration(record: IntegrationRecord): Promise<SyncScanInput[]> {
+    const provider = getProvider(record.provider);
+    if (!provider) {
+      throw new Error(`Unknown integration provider: ${record.provider}`);
+    }
+
+    try {
+      const integration = IntegrationManager.getInstance().initializeIntegration({
+        id: record.id,
+        name: record.name,
+        type: provider.type,
+        provider: record.provider,
+        status: 'active',
+        config: record.config as IntegrationConfig,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        ...(record.lastSync ? { lastSyncAt: record.lastSync } : {}),
+        organizationId: record.organizationId,
+      });
+
+      const result = await integration.sync();
+      if (!result.success) {
+        throw new Error(result.errors[0] ?? 'Integration pull failed');
+      }
+
+      await db
+        .update(integrations)
+        .set({ lastSync: result.lastSyncAt, syncStatus: 'idle', syncError: null })
+        .where(eq(integrations.id, record.id));
+
+      return (result.scanInputs ?? []).filter(input => input.entries.length > 0);
+    } catch (error) {
+      await db
+        .update(integrations)
+        .set({ syncStatus: 'error', syncError: error instanceof Error ? error.message : 'Unknown error' })
+        .where(eq(integrations.id, record.id));
+      throw error;
+    }
+  }
+
+  // Create the scan of a run and hand it to the worker pool, as POST /api/scan does
+  private async launchScan(
+    schedule: ScanSchedule,
+    project: Project,
+    run: ScanScheduleRun,
+    uploads: FileUpload[],
+    assetId?: string
+  ): Promise<string> {
+    const owner = scheduleOwner(schedule);
+    const projectDefaults = project.defaultScanConfig as Record<string, any>;
+    const scanConfig = schedule.scanConfig as Record<string, any>;
+    // Host scans check the agent's package inventory, as scans of agent reports do
+    const dataType = assetId
+      ? 'dependency_manifest'
+      : scanConfig.dataType ?? projectDefaults.dataType ?? uploads[0]?.dataType ?? 'security_log';
+    const uploadIds = uploads.map(upload => upload.id);
+
+    const sessionId = crypto.randomUUID();
+    const [scan] = await db
+      .insert(scans)
+      .values({
+        id: crypto.randomUUID().substring(0, 32),
+        userId: schedule.createdBy,
+        organizationId: owner.organizationId?.toString() ?? '',
+        projectId: project.id,
+        name: `${schedule.name} (${run.scheduledFor.toISOString()})`,
+        description: `Scheduled scan: ${schedule.cron} (${schedule.timezone})`,
+        type: 'compatibility',
+        status: ScanStatus.QUEUED,
+        priority: 'medium',
+        config: {
+          ...projectDefaults,
+          sessionId,
+          dataType,
+          ...scanConfig,
+          project: project.name,
+          scheduleId: schedule.id,
+          ...(assetId ? { assetId } : {}),
+        },
+        files: uploads.map(upload => ({
+          uploadId: upload.id,
+          originalName: upload.originalName,
+          fileType: upload.fileType,
+          dataType: upload.dataType,
+          fileSize: upload.fileSize,
+        })),
+        results: {},
+        metrics: {},
+        progress: 0,
+      })
+      .returning();
+
+    if (!scan) {
+      throw new Error('Failed to create scan');
+    }
+
+    await logActivity({
+      userId: owner.userId,
+      ...(owner.organizationId ? { organizationId: owner.organizationId } : {}),
+      action: ActivityType.SCAN_CREATED,
+      entityType: 'scan',
+      description: `Scheduled scan created: ${scan.name}`,
+      metadata: {
+        scanId: scan.id,
+        sessionId,
+        dataType,
+        projectId: project.id,
+        scheduleId: schedule.id,
+        runId: run.id,
+        source: schedule.source,
+        uploadIds,
+        ...(assetId ? { assetId } : {}),
+      },
+    });
+
+    try {
+      await this.queue.enqueue({
+        scanId: scan.id,
+        sessionId,
+        userId: owner.userId,
+        ...(owner.organizationId ? { organizationId: owner.organizationId } : {}),
+        dataType: normalizeDataType(dataType),
+        uploadIds,
+        ...(assetId ? { assetId } : {}),
+      });
+    } catch (error) {
+      await db
+        .update(scans)
+        .set({
+          status: ScanStatus.FAILED,
+          completedAt: new Date(),
+          error: 'Failed to queue scan',
+        })
+        .where(eq(scans.id, scan.id));
+      throw error;
+    }
+
+    return scan.id;
+  }
+
+  private async sendReminders(now: Date): Promise<void> {
+    const due = await scheduleService.getDueReminders(now, this.batchSize);
+
+    for (const schedule of due) {
+      try {
+        if (!schedule.nextRunAt || !(await scheduleService.claimReminder(schedule))) continue;
+
+        await NotificationEvents.onScheduledScanReminder({
+          userId: schedule.createdBy,
+          scanName: schedule.name,
+          scheduledAt: schedule.nextRunAt.toISOString(),
+          scanUrl: `${process.env.NEXT_PUBLIC_APP_URL || ''}/projects/${schedule.projectId}`,
+        });
+      } catch (error) {
+        console.error(`Failed to send reminder for schedule ${schedule.id}:`, error);
+      }
+    }
+  }
+
+  // Resume schedules paused for lack of input once their source has something new
+  private async resumePausedSchedules(): Promise<void> {
+    const paused = await scheduleService.getAutoPausedSchedules(this.batchSize);
+
+    for (const schedule of paused) {
+      try {
+        if (await this.hasNewInput(schedule)) {
+          await scheduleService.resume(schedule);
+          console.log(`Resumed scan schedule ${schedule.id}`);
+        }
+      } catch (error) {
+        console.error(`Failed to check paused schedule ${schedule.id}:`, error);
+      }
+    }
+  }
+
+  private async hasNewInput(schedule: ScanSchedule): Promise<boolean> {
+    const pausedAt = schedule.pausedAt?.getTime() ?? 0;
+
+    switch (schedule.source) {
+      case ScheduleSource.LAST_UPLOAD: {
+        const uploads = await scheduleService.getLatestArtifacts(schedule);
+        return uploads.some(upload => upload.createdAt.getTime() > pausedAt);
+      }
+
+      case ScheduleSource.INTEGRATION: {
+        // Reconfigured, or synced successfully since the pause
+        const integration = await scheduleService.getSourceIntegration(schedule);
+        if (!integration) return false;
+        return integration.updatedAt.getTime() > pausedAt ||
+          (integration.syncStatus !== 'error' && (integration.lastSync?.getTime() ?? 0) > pausedAt);
+      }
+
+      // The host's agent reported since the pause
+      case ScheduleSource.SYSTEM: {
+        const asset = await scheduleService.getSourceAsset(schedule);
+        return !!asset && asset.lastSeenAt.getTime() > pausedAt;
+      }
+
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { ScanQueue, ScanJob, SCAN_QUEUE_CONFIG } from './scan-queue';
+import {
+  processScan,
+  markScanRetrying,
+  markScanFailed,
+  ScanCancelledError,
+} from './scan-processor';
+
+export interface ScanWorkerOptions {
+  concurrency?: number;
+  pollTimeoutSeconds?: number;
+  recoveryIntervalMs?: number;
+}
+
+/**
+ * Pulls scans off the queue and runs them. Several workers may run side by
+ * side; jobs left behind by a crashed worker are requeued by the others.
+ */
+export class ScanWorker {
+  private queue = ScanQueue.getInstance();
+  private running = false;
+  private loops: Promise<void>[] = [];
+  private recoveryTimer?: NodeJS.Timeout;
+  private readonly concurrency: number;
+  private readonly pollTimeoutSeconds: number;
+  private readonly recoveryIntervalMs: number;
+
+  constructor(options: ScanWorkerOptions = {}) {
+    this.concurrency = options.concurrency ?? parseInt(process.env.SCAN_WORKER_CONCURRENCY || '2');
+    this.pollTimeoutSeconds = options.pollTimeoutSeconds ?? 5;
+    this.recoveryIntervalMs = options.recoveryIntervalMs ?? 30000;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.recoverStalledJobs();
+    this.recoveryTimer = setInterval(() => this.recoverStalledJobs(), this.recoveryIntervalMs);
+
+    for (let slot = 0; slot < this.concurrency; slot++) {
+      this.loops.push(this.runLoop());
+    }
+
+    console.log(`Scan worker started with concurrency ${this.concurrency}`);
+  }
+
+  /**
+   * Stop taking new jobs and wait for in-flight scans to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+    }
+
+    await Promise.all(this.loops);
+    this.loops = [];
+
+    console.log('Scan worker stopped');
+  }
+
+  private async runLoop(): Promise<void> {
+    while (this.running) {
+      try {
+        const job = await this.queue.reserve(this.pollTimeoutSeconds);
+        if (job) {
+          await this.handleJob(job);
+        }
+      } catch (error) {
+        console.error('Scan worker error:', error);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
+  private async handleJob(job: ScanJob): Promise<void> {
+    if (await this.queue.isCancelled(job.scanId)) {
+      await this.queue.acknowledgeCancelled(job);
+      return;
+    }
+
+    if (!(await this.queue.acquireOrgSlot(job))) {
+      // Organization is at its concurrency limit; try again shortly
+      await this.queue.defer(job, SCAN_QUEUE_CONFIG.orgLimitDeferMs);
+      return;
+    }
+
+    const heartbeat = setInterval(
+      () => this.queue.heartbeat(job).catch(error => console.error('Scan heartbeat failed:', error)),
+      (SCAN_QUEUE_CONFIG.heartbeatTtlSeconds * 1000) / 3
+    );
+
+    try {
+      await processScan(job, {
+        isCancelled: () => this.queue.isCancelled(job.scanId),
+      });
+      await this.queue.complete(job);
+    } catch (error) {
+      if (error instanceof ScanCancelledError) {
+        console.log(`Scan ${job.scanId} cancelled`);
+        await this.queue.acknowledgeCancelled(job);
+        return;
+      }
+
+      console.error(`Scan ${job.scanId} failed:`, error);
+      const willRetry = await this.queue.fail(job, error);
+      if (willRetry) {
+        await markScanRetrying(job, error);
+      } else {
+        await markScanFailed(job, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      await this.queue.releaseOrgSlot(job);
+    }
+  }
+
+  private async recoverStalledJobs(): Promise<void> {
+    try {
+      const { requeued, exhausted } = await this.queue.recoverStalledJobs();
+
+      for (const job of requeued) {
+        await markScanRetrying(job, new Error(job.lastError));
+      }
+      for (const job of exhausted) {
+        await markScanFailed(job, new Error(job.lastError));
+      }
+
+      if (requeued.length + exhausted.length > 0) {
+        console.log(`Recovered ${requeued.length + exhausted.length} stalled scan job(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to recover stalled scan jobs:', error);
+    }
+  }
+}
@@ -0,0 +1,548 @@
+import { z } from 'zod';
+import { db } from '@/lib/db/drizzle';
+import {
+  scanSchedules,
+  scanScheduleRuns,
+  scans,
+  integrations,
+  assets,
+  Asset,
+  ScanSchedule,
+  ScanScheduleRun,
+  Integration,
+  FileUpload,
+} from '@/lib/db/schema';
+import { eq, and, asc, desc, gt, lte, isNotNull, sql } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import { ScanAccess, scanOwner } from '@/lib/scans/scan-access';
+import { projectService } from '@/lib/projects/project-service';
+import { resolveScanUploads } from '@/lib/upload/scan-inputs';
+import { getProvider } from '@/lib/integrations/providers';
+import { CronParseError, isValidTimezone, nextCronRun, parseCron } from './cron-expression';
+
+// Failed runs in a row before a schedule pauses itself
+export const MAX_CONSECUTIVE_FAILURES = 3;
+const MAX_RUN_HISTORY = 100;
+
+export enum ScheduleSource {
+  // Re-scan the artifacts of the project's most recent upload
+  LAST_UPLOAD = 'last_upload',
+  // Pull from an integration and scan what the pull produced
+  INTEGRATION = 'integration',
+  // Scan the inventory a host agent last reported for an asset
+  SYSTEM = 'system',
+}
+
+export enum ScheduleStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  // Paused by the scheduler; resumes once its input source has something new
+  AUTO_PAUSED = 'auto_paused',
+}
+
+export enum ScheduleRunStatus {
+  QUEUED = 'queued',
+  SKIPPED = 'skipped',
+  FAILED = 'failed',
+}
+
+const ScheduleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  cron: z.string().trim().min(1).max(100).superRefine((cron, ctx) => {
+    try {
+      parseCron(cron);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof CronParseError ? error.message : 'Invalid cron expression',
+      });
+    }
+  }),
+  timezone: z.string().trim().max(64).refine(isValidTimezone, 'Unknown timezone').default('UTC'),
+  source: z.nativeEnum(ScheduleSource).default(ScheduleSource.LAST_UPLOAD),
+  sourceConfig: z.object({
+    integrationId: z.string().min(1).max(32).optional(),
+    assetId: z.string().min(1).max(32).optional(),
+  }).default({}),
+  // Merged over the project's default scan config
+  scanConfig: z.record(z.any()).default({}),
+  reminderMinutes: z.number().int().min(1).max(7 * 24 * 60).nullable().optional(),
+});
+
+export const ScheduleInputSchema = ScheduleFieldsSchema.refine(
+  schedule => schedule.source !== ScheduleSource.INTEGRATION || !!schedule.sourceConfig.integrationId,
+  { message: 'Integration schedules need sourceConfig.integrationId', path: ['sourceConfig', 'integrationId'] }
+).refine(
+  schedule => schedule.source !== ScheduleSource.SYSTEM || !!schedule.sourceConfig.assetId,
+  { message: 'System schedules need sourceConfig.assetId', path: ['sourceConfig', 'assetId'] }
+);
+
+export const ScheduleUpdateSchema = ScheduleFieldsSchema.partial();
+
+export type ScheduleInput = z.infer<typeof ScheduleInputSchema>;
+export type ScheduleUpdate = z.infer<typeof ScheduleUpdateSchema>;
+
+export interface ScheduleSourceConfig {
+  integrationId?: string | undefined;
+  assetId?: string | undefined;
+}
+
+export interface ScheduleRunWithScan extends ScanScheduleRun {
+  scanStatus: string | null;
+}
+
+// Who scheduled scans run as
+export interface ScheduleOwner {
+  userId: number;
+  organizationId?: number;
+}
+
+// Schedule service error types
+export class ScheduleServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ScheduleServiceError';
+  }
+}
+
+export function scheduleOwner(schedule: ScanSchedule): ScheduleOwner {
+  const userId = parseInt(schedule.createdBy, 10);
+  return schedule.organizationId.startsWith('user:')
+    ? { userId }
+    : { userId, organizationId: parseInt(schedule.organizationId, 10) };
+}
+
+export class ScheduleService {
+
+  async listSchedules(access: ScanAccess, projectId: string): Promise<ScanSchedule[]> {
+    await projectService.getProject(access, projectId);
+
+    return db
+      .select()
+      .from(scanSchedules)
+      .where(eq(scanSchedules.projectId, projectId))
+      .orderBy(asc(scanSchedules.name));
+  }
+
+  async getSchedule(access: ScanAccess, projectId: string, id: string): Promise<ScanSchedule> {
+    const [schedule] = await db
+      .select()
+      .from(scanSchedules)
+      .where(and(
+        eq(scanSchedules.id, id),
+        eq(scanSchedules.projectId, projectId),
+        eq(scanSchedules.organizationId, scanOwner(access))
+      ))
+      .limit(1);
+
+    if (!schedule) {
+      throw new ScheduleServiceError(`Schedule ${id} not found`, 'SCHEDULE_NOT_FOUND', 404);
+    }
+    return schedule;
+  }
+
+  async createSchedule(access: ScanAccess, projectId: string, input: ScheduleInput): Promise<ScanSchedule> {
+    const project = await projectService.getProject(access, projectId);
+    await this.assertSourceAvailable(access, input.source, input.sourceConfig);
+
+    const [schedule] = await db
+      .insert(scanSchedules)
+      .values({
+        id: generateId(16),
+        organizationId: project.organizationId,
+        projectId: project.id,
+        name: input.name,
+        cron: input.cron,
+        timezone: input.timezone,
+        source: input.source,
+        sourceConfig: input.sourceConfig,
+        scanConfig: input.scanConfig,
+        reminderMinutes: input.reminderMinutes ?? null,
+        nextRunAt: this.firstRunAfter(input.cron, input.timezone, new Date()),
+        createdBy: access.userId,
+      })
+      .returning();
+
+    if (!schedule) {
+      throw new ScheduleServiceError('Failed to create schedule', 'SCHEDULE_CREATE_FAILED', 500);
+    }
+    return schedule;
+  }
+
+  async updateSchedule(
+    access: ScanAccess,
+    projectId: string,
+    id: string,
+    updates: ScheduleUpdate
+  ): Promise<ScanSchedule> {
+    const existing = await this.getSchedule(access, projectId, id);
+
+    const source = updates.source ?? (existing.source as ScheduleSource);
+    const sourceConfig = updates.sourceConfig ?? (existing.sourceConfig as ScheduleSourceConfig);
+    if (updates.source !== undefined || updates.sourceConfig !== undefined) {
+      await this.assertSourceAvailable(access, source, sourceConfig);
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+
+    // A new cron or timezone moves the next run
+    const cron = updates.cron ?? existing.cron;
+    const timezone = updates.timezone ?? existing.timezone;
+    const rescheduled = cron !== existing.cron || timezone !== existing.timezone;
+
+    const [schedule] = await db
+      .update(scanSchedules)
+      .set({
+        ...fields,
+        ...(rescheduled ? { nextRunAt: this.firstRunAfter(cron, timezone, new Date()) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(scanSchedules.id, id))
+      .returning();
+
+    if (!schedule) {
+      throw new ScheduleServiceError(`Schedule ${id} not found`, 'SCHEDULE_NOT_FOUND', 404);
+    }
+    return schedule;
+  }
+
+  async deleteSchedule(access: ScanAccess, projectId: string, id: string): Promise<ScanSchedule> {
+    const existing = await this.getSchedule(access, projectId, id);
+
+    await db.delete(scanScheduleRuns).where(eq(scanScheduleRuns.scheduleId, id));
+    await db.delete(scanSchedules).where(eq(scanSchedules.id, id));
+
+    return existing;
+  }
+
+  // Stop a schedule until it is resumed by hand
+  async pauseSchedule(access: ScanAccess, projectId: string, id: string, reason?: string): Promise<ScanSchedule> {
+    await this.getSchedule(access, projectId, id);
+
+    return this.setStatus(id, {
+      status: ScheduleStatus.PAUSED,
+      pauseReason: reason ?? null,
+      pausedAt: new Date(),
+    });
+  }
+
+  // Resume a paused schedule from its next fire time; missed runs are not caught up
+  async resumeSchedule(access: ScanAccess, projectId: string, id: string): Promise<ScanSchedule> {
+    const existing = await this.getSchedule(access, projectId, id);
+    return this.resume(existing);
+  }
+
+  // Most recent runs of a schedule, with the status of the scan each one started
+  async listRuns(
+    access: ScanAccess,
+    projectId: string,
+    id: string,
+    limit: number = 50
+  ): Promise<ScheduleRunWithScan[]> {
+    await this.getSchedule(access, projectId, id);
+
+    const rows = await db
+      .select({ run: scanScheduleRuns, scanStatus: scans.status })
+      .from(scanScheduleRuns)
+      .leftJoin(scans, eq(scans.id, scanScheduleRuns.scanId))
+      .where(eq(scanScheduleRuns.scheduleId, id))
+      .orderBy(desc(scanScheduleRuns.scheduledFor))
+      .limit(Math.min(Math.max(limit, 1), MAX_RUN_HISTORY));
+
+    return rows.map(({ run, scanStatus }) => ({ ...run, scanStatus }));
+  }
+
+  // Active schedules whose next run has come
+  async getDueSchedules(now: Date, limit: number): Promise<ScanSchedule[]> {
+    return db
+      .select()
+      .from(scanSchedules)
+      .where(and(eq(scanSchedules.status, ScheduleStatus.ACTIVE), lte(scanSchedules.nextRunAt, now)))
+      .orderBy(asc(scanSchedules.nextRunAt))
+      .limit(limit);
+  }
+
+  /**
+   * Claim the due run of a schedule and move it to its next fire time. Returns
+   * the recorded run, or null when another scheduler already claimed it.
+   * Runs missed while no scheduler was up collapse into this one.
+   */
+  async claimRun(schedule: ScanSchedule, now: Date): Promise<ScanScheduleRun | null> {
+    if (!schedule.nextRunAt) return null;
+
+    const [moved] = await db
+      .update(scanSchedules)
+      .set({
+        nextRunAt: this.nextRunAfter(schedule, now),
+        lastRunAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(scanSchedules.id, schedule.id), eq(scanSchedules.nextRunAt, schedule.nextRunAt)))
+      .returning({ id: scanSchedules.id });
+
+    if (!moved) return null;
+
+    const [run] = await db
+      .insert(scanScheduleRuns)
+      .values({
+        id: generateId(16),
+        scheduleId: schedule.id,
+        scheduledFor: schedule.nextRunAt,
+        status: ScheduleRunStatus.QUEUED,
+        startedAt: now,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    return run ?? null;
+  }
+
+  // Record how a claimed run ended and pause the schedule when it keeps failing
+  async finishRun(
+    schedule: ScanSchedule,
+    run: ScanScheduleRun,
+    outcome: { status: ScheduleRunStatus; scanId?: string; error?: string }
+  ): Promise<void> {
+    await db
+      .update(scanScheduleRuns)
+      .set({
+        status: outcome.status,
+        scanId: outcome.scanId ?? null,
+        error: outcome.error ?? null,
+      })
+      .where(eq(scanScheduleRuns.id, run.id));
+
+    if (outcome.status === ScheduleRunStatus.QUEUED) {
+      if (schedule.consecutiveFailures > 0) {
+        await db
+          .update(scanSchedules)
+          .set({ consecutiveFailures: 0 })
+          .where(eq(scanSchedules.id, schedule.id));
+      }
+      return;
+    }
+
+    if (outcome.status === ScheduleRunStatus.SKIPPED) {
+      await this.autoPause(schedule.id, outcome.error ?? 'Input source unavailable');
+      return;
+    }
+
+    const failures = schedule.consecutiveFailures + 1;
+    await db
+      .update(scanSchedules)
+      .set({ consecutiveFailures: failures })
+      .where(eq(scanSchedules.id, schedule.id));
+
+    if (failures >= MAX_CONSECUTIVE_FAILURES) {
+      await this.autoPause(schedule.id, `Paused after ${failures} failed runs: ${outcome.error ?? 'unknown error'}`);
+    }
+  }
+
+  // Schedules the scheduler paused, checked for new input to resume on
+  async getAutoPausedSchedules(limit: number): Promise<ScanSchedule[]> {
+    return db
+      .select()
+      .from(scanSchedules)
+      .where(eq(scanSchedules.status, ScheduleStatus.AUTO_PAUSED))
+      .orderBy(asc(scanSchedules.pausedAt))
+      .limit(limit);
+  }
+
+  async resume(schedule: ScanSchedule): Promise<ScanSchedule> {
+    return this.setStatus(schedule.id, {
+      status: ScheduleStatus.ACTIVE,
+      pauseReason: null,
+      pausedAt: null,
+      consecutiveFailures: 0,
+      nextRunAt: this.nextRunAfter(schedule, new Date()),
+    });
+  }
+
+  // Active schedules with a reminder due that has not been sent yet
+  async getDueReminders(now: Date, limit: number): Promise<ScanSchedule[]> {
+    return db
+      .select()
+      .from(scanSchedules)
+      .where(and(
+        eq(scanSchedules.status, ScheduleStatus.ACTIVE),
+        isNotNull(scanSchedules.reminderMinutes),
+        gt(scanSchedules.nextRunAt, now),
+        sql`${scanSchedules.nextRunAt} - make_interval(mins => ${scanSchedules.reminderMinutes}) <= ${now}`,
+        sql`${scanSchedules.remindedFor} IS DISTINCT FROM ${scanSchedules.nextRunAt}`
+      ))
+      .limit(limit);
+  }
+
+  // Mark the reminder for the schedule's next run as sent; false if someone else sent it
+  async claimReminder(schedule: ScanSchedule): Promise<boolean> {
+    if (!schedule.nextRunAt) return false;
+
+    const [claimed] = await db
+      .update(scanSchedules)
+      .set({ remindedFor: schedule.nextRunAt })
+      .where(and(eq(scanSchedules.id, schedule.id), eq(scanSchedules.nextRunAt, schedule.nextRunAt)))
+      .returning({ id: scanSchedules.id });
+
+    return !!claimed;
+  }
+
+  /**
+   * The uploads of the project's most recent scan that referenced files, as
+   * far as they still exist. Empty when nothing was ever uploaded for the project.
+   */
+  async getLatestArtifacts(schedule: ScanSchedule): Promise<FileUpload[]> {
+    const [latest] = await db
+      .select({ files: scans.files })
+      .from(scans)
+      .where(and(
+        eq(scans.projectId, schedule.projectId),
+        sql`jsonb_array_length(coalesce(${scans.files}, '[]'::jsonb)) > 0`
+      ))
+      .orderBy(desc(scans.createdAt))
+      .limit(1);
+
+    const uploadIds = ((latest?.files ?? []) as Array<{ uploadId?: unknown }>)
+      .map(file => file.uploadId)
+      .filter((uploadId): uploadId is number => typeof uploadId === 'number');
+
+    const { uploads } = await resolveScanUploads(uploadIds, scheduleOwner(schedule));
+    return uploads;
+  }
+
+  // The integration an integration schedule pulls from, if it is still active
+  async getSourceIntegration(schedule: ScanSchedule): Promise<Integration | null> {
+    const { integrationId } = schedule.sourceConfig as ScheduleSourceConfig;
+    if (!integrationId || schedule.organizationId.startsWith('user:')) return null;
+
+    const [integration] = await db
+      .select()
+      .from(integrations)
+      .where(and(
+        eq(integrations.id, integrationId),
+        eq(integrations.organizationId, schedule.organizationId),
+        eq(integrations.isActive, true)
+      ))
+      .limit(1);
+
+    return integration ?? null;
+  }
+
+  // The host asset a system schedule scans, if it still exists
+  async getSourceAsset(schedule: ScanSchedule): Promise<Asset | null> {
+    const { assetId } = schedule.sourceConfig as ScheduleSourceConfig;
+    if (!assetId) return null;
+
+    const [asset] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.id, assetId), eq(assets.organizationId, schedule.organizationId)))
+      .limit(1);
+
+    return asset ?? null;
+  }
+
+  private async assertSourceAvailable(
+    access: ScanAccess,
+    source: ScheduleSource,
+    sourceConfig: ScheduleSourceConfig
+  ): Promise<void> {
+    if (source === ScheduleSource.SYSTEM) {
+      await this.assertAssetAvailable(access, sourceConfig);
+      return;
+    }
+    if (source !== ScheduleSource.INTEGRATION) return;
+
+    if (!sourceConfig.integrationId) {
+      throw new ScheduleServiceError(
+        'Integration schedules need sourceConfig.integrationId',
+        'INTEGRATION_REQUIRED',
+        400
+      );
+    }
+
+    const [integration] = access.organizationId
+      ? await db
+          .select({ id: integrations.id, provider: integrations.provider })
+          .from(integrations)
+          .where(and(
+            eq(integrations.id, sourceConfig.integrationId),
+            eq(integrations.organizationId, access.organizationId)
+          ))
+          .limit(1)
+      : [];
+
+    if (!integration) {
+      throw new ScheduleServiceError(
+        `Integration ${sourceConfig.integrationId} not found in your organization`,
+        'INTEGRATION_NOT_FOUND',
+        400
+      );
+    }
+
+    // Only some providers pull data a scan can check
+    if (!getProvider(integration.provider)?.supportedFeatures.includes('scan_input')) {
+      throw new ScheduleServiceError(
+        `Integration ${sourceConfig.integrationId} does not provide anything to scan`,
+        'INTEGRATION_NOT_SCANNABLE',
+        400
+      );
+    }
+  }
+
+  private async assertAssetAvailable(access: ScanAccess, sourceConfig: ScheduleSourceConfig): Promise<void> {
+    if (!sourceConfig.assetId) {
+      throw new ScheduleServiceError('System schedules need sourceConfig.assetId', 'ASSET_REQUIRED', 400);
+    }
+
+    const [asset] = await db
+      .select({ id: assets.id })
+      .from(assets)
+      .where(and(eq(assets.id, sourceConfig.assetId), eq(assets.organizationId, scanOwner(access))))
+      .limit(1);
+
+    if (!asset) {
+      throw new ScheduleServiceError(`Asset ${sourceConfig.assetId} not found`, 'ASSET_NOT_FOUND', 400);
+    }
+  }
+
+  private async autoPause(id: string, reason: string): Promise<void> {
+    await this.setStatus(id, {
+      status: ScheduleStatus.AUTO_PAUSED,
+      pauseReason: reason,
+      pausedAt: new Date(),
+    });
+  }
+
+  private async setStatus(id: string, changes: Partial<ScanSchedule>): Promise<ScanSchedule> {
+    const [schedule] = await db
+      .update(scanSchedules)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(scanSchedules.id, id))
+      .returning();
+
+    if (!schedule) {
+      throw new ScheduleServiceError(`Schedule ${id} not found`, 'SCHEDULE_NOT_FOUND', 404);
+    }
+    return schedule;
+  }
+
+  private nextRunAfter(schedule: ScanSchedule, after: Date): Date | null {
+    return nextCronRun(schedule.cron, schedule.timezone, after);
+  }
+
+  private firstRunAfter(cron: string, timezone: string, after: Date): Date {
+    const next = nextCronRun(cron, timezone, after);
+    if (!next) {
+      throw new ScheduleServiceError(`Cron expression "${cron}" never fires`, 'CRON_NEVER_FIRES', 400);
+    }
+    return next;
+  }
+}
+
+export const scheduleService = new ScheduleService();
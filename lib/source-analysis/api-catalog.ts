@@ -0,0 +1,400 @@
+/**
+ * Curated offline catalog of deprecated and removed APIs
+ *
+ * Each entry describes how the source analyzer recognizes a use of the API
+ * and how to replace it. Node.js entries carry their deprecation code from
+ * https://nodejs.org/api/deprecations.html and, once removed, the major
+ * release that removed them; they are matched through the module binding,
+ * e.g. `util.isBoolean()` after `import util from 'node:util'`.
+ */
+
+export type ApiEnvironment = 'ecmascript' | 'dom' | 'node';
+
+export type ApiMatch =
+  // obj.name(), optionally only on receivers known to be of the given type
+  | { type: 'method'; name: string; receiver?: string }
+  // obj.name
+  | { type: 'property'; name: string; receiver?: string }
+  // A global function or constructor: name() or new name()
+  | { type: 'global'; name: string }
+  // A member of a global object: object.name
+  | { type: 'member'; object: string; name: string }
+  // An export of a built-in module, or the whole module when name is omitted
+  | { type: 'module'; module: string; name?: string };
+
+export interface DeprecatedApi {
+  title: string;
+  environment: ApiEnvironment;
+  match: ApiMatch;
+  // The fix hint shown with every finding
+  replacement: string;
+  // Node.js deprecation code, e.g. DEP0106
+  deprecationCode?: string;
+  // First Node.js release without the API
+  removedIn?: string;
+  // Confidence of a match whose receiver type is unknown
+  confidence: number;
+}
+
+// Removed util functions, most of them type checks that predate typeof and instanceof
+const removedUtil = (name: string, deprecationCode: string, removedIn: string, replacement: string): DeprecatedApi => ({
+  title: `util.${name}()`,
+  environment: 'node',
+  match: { type: 'module', module: 'util', name },
+  replacement,
+  deprecationCode,
+  removedIn,
+  confidence: 0.95,
+});
+
+export const DEPRECATED_APIS: Record<string, DeprecatedApi> = {
+  // ECMAScript
+  'date-getyear': {
+    title: 'Date.prototype.getYear()',
+    environment: 'ecmascript',
+    match: { type: 'method', name: 'getYear', receiver: 'Date' },
+    replacement: 'Use getFullYear(); getYear() returns the year minus 1900.',
+    confidence: 0.8,
+  },
+  'date-setyear': {
+    title: 'Date.prototype.setYear()',
+    environment: 'ecmascript',
+    match: { type: 'method', name: 'setYear', receiver: 'Date' },
+    replacement: 'Use setFullYear().',
+    confidence: 0.8,
+  },
+  'date-togmtstring': {
+    title: 'Date.prototype.toGMTString()',
+    environment: 'ecmascript',
+    match: { type: 'method', name: 'toGMTString', receiver: 'Date' },
+    replacement: 'Use toUTCString().',
+    confidence: 0.9,
+  },
+  'string-substr': {
+    title: 'String.prototype.substr()',
+    environment: 'ecmascript',
+    match: { type: 'method', name: 'substr', receiver: 'String' },
+    replacement: 'Use slice() or substring(); substr() takes a length instead of an end index.',
+    confidence: 0.7,
+  },
+  'escape': {
+    title: 'escape()',
+    environment: 'ecmascript',
+    match: { type: 'global', name: 'escape' },
+    replacement: 'Use encodeURIComponent().',
+    confidence: 0.9,
+  },
+  'unescape': {
+    title: 'unescape()',
+    environment: 'ecmascript',
+    match: { type: 'global', name: 'unescape' },
+    replacement: 'Use decodeURIComponent().',
+    confidence: 0.9,
+  },
+  'define-getter': {
+    title: 'Object.prototype.__defineGetter__()',
+    environment: 'ecmascript',
+    match: { type: 'method', name: '__defineGetter__' },
+    replacement: 'Use Object.defineProperty() with a get accessor.',
+    confidence: 0.95,
+  },
+  'define-setter': {
+    title: 'Object.prototype.__defineSetter__()',
+    environment: 'ecmascript',
+    match: { type: 'method', name: '__defineSetter__' },
+    replacement: 'Use Object.defineProperty() with a set accessor.',
+    confidence: 0.95,
+  },
+  'lookup-getter': {
+    title: 'Object.prototype.__lookupGetter__()',
+    environment: 'ecmascript',
+    match: { type: 'method', name: '__lookupGetter__' },
+    replacement: 'Use Object.getOwnPropertyDescriptor().',
+    confidence: 0.95,
+  },
+
+  // DOM
+  'document-all': {
+    title: 'document.all',
+    environment: 'dom',
+    match: { type: 'member', object: 'document', name: 'all' },
+    replacement: 'Use document.getElementById() or document.querySelectorAll().',
+    confidence: 0.9,
+  },
+  'document-write': {
+    title: 'document.write()',
+    environment: 'dom',
+    match: { type: 'member', object: 'document', name: 'write' },
+    replacement: 'Build elements with document.createElement() and append(); document.write() blocks parsing and is ignored after load.',
+    confidence: 0.9,
+  },
+  'document-writeln': {
+    title: 'document.writeln()',
+    environment: 'dom',
+    match: { type: 'member', object: 'document', name: 'writeln' },
+    replacement: 'Build elements with document.createElement() and append().',
+    confidence: 0.9,
+  },
+  'document-execcommand': {
+    title: 'document.execCommand()',
+    environment: 'dom',
+    match: { type: 'member', object: 'document', name: 'execCommand' },
+    replacement: 'Use the Clipboard API for copy and paste, and edit the DOM directly for formatting.',
+    confidence: 0.95,
+  },
+  'document-registerelement': {
+    title: 'document.registerElement()',
+    environment: 'dom',
+    match: { type: 'member', object: 'document', name: 'registerElement' },
+    replacement: 'Use customElements.define(); registerElement() has been removed from browsers.',
+    confidence: 0.95,
+  },
+  'create-shadow-root': {
+    title: 'Element.createShadowRoot()',
+    environment: 'dom',
+    match: { type: 'method', name: 'createShadowRoot' },
+    replacement: 'Use attachShadow({ mode: "open" }); createShadowRoot() has been removed from browsers.',
+    confidence: 0.95,
+  },
+  'event-init': {
+    title: 'Event.initEvent()',
+    environment: 'dom',
+    match: { type: 'method', name: 'initEvent' },
+    replacement: 'Construct the event with new Event(type, options).',
+    confidence: 0.8,
+  },
+  'custom-event-init': {
+    title: 'CustomEvent.initCustomEvent()',
+    environment: 'dom',
+    match: { type: 'method', name: 'initCustomEvent' },
+    replacement: 'Construct the event with new CustomEvent(type, { detail }).',
+    confidence: 0.9,
+  },
+  'mouse-event-init': {
+    title: 'MouseEvent.initMouseEvent()',
+    environment: 'dom',
+    match: { type: 'method', name: 'initMouseEvent' },
+    replacement: 'Construct the event with new MouseEvent(type, options).',
+    confidence: 0.9,
+  },
+  'keyboard-event-keycode': {
+    title: 'KeyboardEvent.keyCode',
+    environment: 'dom',
+    match: { type: 'property', name: 'keyCode', receiver: 'KeyboardEvent' },
+    replacement: 'Use event.key, or event.code for physical keys.',
+    confidence: 0.6,
+  },
+  'keyboard-event-charcode': {
+    title: 'KeyboardEvent.charCode',
+    environment: 'dom',
+    match: { type: 'property', name: 'charCode', receiver: 'KeyboardEvent' },
+    replacement: 'Use event.key.',
+    confidence: 0.6,
+  },
+  'performance-timing': {
+    title: 'performance.timing',
+    environment: 'dom',
+    match: { type: 'member', object: 'performance', name: 'timing' },
+    replacement: "Use performance.getEntriesByType('navigation').",
+    confidence: 0.9,
+  },
+  'performance-navigation': {
+    title: 'performance.navigation',
+    environment: 'dom',
+    match: { type: 'member', object: 'performance', name: 'navigation' },
+    replacement: "Use the type of performance.getEntriesByType('navigation')[0].",
+    confidence: 0.9,
+  },
+
+  // Node.js
+  'buffer-constructor': {
+    title: 'Buffer() constructor',
+    environment: 'node',
+    match: { type: 'global', name: 'Buffer' },
+    replacement: 'Use Buffer.from(), Buffer.alloc() or Buffer.allocUnsafe().',
+    deprecationCode: 'DEP0005',
+    confidence: 0.95,
+  },
+  'process-binding': {
+    title: 'process.binding()',
+    environment: 'node',
+    match: { type: 'member', object: 'process', name: 'binding' },
+    replacement: 'Use the public module that wraps the binding.',
+    deprecationCode: 'DEP0111',
+    confidence: 0.95,
+  },
+  'process-assert': {
+    title: 'process.assert()',
+    environment: 'node',
+    match: { type: 'member', object: 'process', name: 'assert' },
+    replacement: "Use the assert module: import assert from 'node:assert'.",
+    deprecationCode: 'DEP0100',
+    removedIn: '23.0.0',
+    confidence: 0.95,
+  },
+  'crypto-createcipher': {
+    title: 'crypto.createCipher()',
+    environment: 'node',
+    match: { type: 'module', module: 'crypto', name: 'createCipher' },
+    replacement: 'Use crypto.createCipheriv() with a random IV; createCipher() derives a weak key with MD5.',
+    deprecationCode: 'DEP0106',
+    removedIn: '22.0.0',
+    confidence: 0.95,
+  },
+  'crypto-createdecipher': {
+    title: 'crypto.createDecipher()',
+    environment: 'node',
+    match: { type: 'module', module: 'crypto', name: 'createDecipher' },
+    replacement: 'Use crypto.createDecipheriv() with the IV the data was encrypted with.',
+    deprecationCode: 'DEP0106',
+    removedIn: '22.0.0',
+    confidence: 0.95,
+  },
+  'crypto-createcredentials': {
+    title: 'crypto.createCredentials()',
+    environment: 'node',
+    match: { type: 'module', module: 'crypto', name: 'createCredentials' },
+    replacement: 'Use tls.createSecureContext().',
+    deprecationCode: 'DEP0010',
+    removedIn: '11.0.0',
+    confidence: 0.95,
+  },
+  'crypto-fips': {
+    title: 'crypto.fips',
+    environment: 'node',
+    match: { type: 'module', module: 'crypto', name: 'fips' },
+    replacement: 'Use crypto.getFips() and crypto.setFips().',
+    deprecationCode: 'DEP0093',
+    removedIn: '23.0.0',
+    confidence: 0.95,
+  },
+  'tls-createsecurepair': {
+    title: 'tls.createSecurePair()',
+    environment: 'node',
+    match: { type: 'module', module: 'tls', name: 'createSecurePair' },
+    replacement: 'Use tls.TLSSocket.',
+    deprecationCode: 'DEP0064',
+    removedIn: '24.0.0',
+    confidence: 0.95,
+  },
+  'os-tmpdir': {
+    title: 'os.tmpDir()',
+    environment: 'node',
+    match: { type: 'module', module: 'os', name: 'tmpDir' },
+    replacement: 'Use os.tmpdir().',
+    deprecationCode: 'DEP0022',
+    removedIn: '14.0.0',
+    confidence: 0.95,
+  },
+  'fs-exists': {
+    title: 'fs.exists()',
+    environment: 'node',
+    match: { type: 'module', module: 'fs', name: 'exists' },
+    replacement: 'Use fs.access() or fs.stat(), or fs.existsSync() where blocking is fine.',
+    deprecationCode: 'DEP0034',
+    confidence: 0.95,
+  },
+  'url-parse': {
+    title: 'url.parse()',
+    environment: 'node',
+    match: { type: 'module', module: 'url', name: 'parse' },
+    replacement: 'Use the WHATWG URL API: new URL(input, base).',
+    deprecationCode: 'DEP0169',
+    confidence: 0.95,
+  },
+  'path-makelong': {
+    title: 'path._makeLong()',
+    environment: 'node',
+    match: { type: 'module', module: 'path', name: '_makeLong' },
+    replacement: 'Use path.toNamespacedPath().',
+    deprecationCode: 'DEP0080',
+    confidence: 0.95,
+  },
+  'util-extend': {
+    title: 'util._extend()',
+    environment: 'node',
+    match: { type: 'module', module: 'util', name: '_extend' },
+    replacement: 'Use Object.assign().',
+    deprecationCode: 'DEP0060',
+    confidence: 0.95,
+  },
+  'util-isarray': {
+    title: 'util.isArray()',
+    environment: 'node',
+    match: { type: 'module', module: 'util', name: 'isArray' },
+    replacement: 'Use Array.isArray().',
+    deprecationCode: 'DEP0044',
+    confidence: 0.95,
+  },
+  'util-isboolean': removedUtil('isBoolean', 'DEP0045', '23.0.0', "Use typeof value === 'boolean'."),
+  'util-isbuffer': removedUtil('isBuffer', 'DEP0046', '23.0.0', 'Use Buffer.isBuffer().'),
+  'util-isdate': removedUtil('isDate', 'DEP0047', '23.0.0', 'Use util.types.isDate() or value instanceof Date.'),
+  'util-iserror': removedUtil('isError', 'DEP0048', '23.0.0', 'Use Error.isError() or value instanceof Error.'),
+  'util-isfunction': removedUtil('isFunction', 'DEP0049', '23.0.0', "Use typeof value === 'function'."),
+  'util-isnull': removedUtil('isNull', 'DEP0050', '23.0.0', 'Use value === null.'),
+  'util-isnullorundefined': removedUtil('isNullOrUndefined', 'DEP0051', '23.0.0', 'Use value == null.'),
+  'util-isnumber': removedUtil('isNumber', 'DEP0052', '23.0.0', "Use typeof value === 'number'."),
+  'util-isobject': removedUtil('isObject', 'DEP0053', '23.0.0', "Use value !== null && typeof value === 'object'."),
+  'util-isprimitive': removedUtil('isPrimitive', 'DEP0054', '23.0.0', "Use value === null || (typeof value !== 'object' && typeof value !== 'function')."),
+  'util-isregexp': removedUtil('isRegExp', 'DEP0055', '23.0.0', 'Use util.types.isRegExp() or value instanceof RegExp.'),
+  'util-isstring': removedUtil('isString', 'DEP0056', '23.0.0', "Use typeof value === 'string'."),
+  'util-issymbol': removedUtil('isSymbol', 'DEP0057', '23.0.0', "Use typeof value === 'symbol'."),
+  'util-isundefined': removedUtil('isUndefined', 'DEP0058', '23.0.0', 'Use value === undefined.'),
+  'util-log': removedUtil('log', 'DEP0059', '23.0.0', 'Use console.log() with a timestamp of your own.'),
+  'util-print': removedUtil('print', 'DEP0026', '12.0.0', 'Use console.log().'),
+  'util-puts': removedUtil('puts', 'DEP0027', '12.0.0', 'Use console.log().'),
+  'util-error': removedUtil('error', 'DEP0029', '12.0.0', 'Use console.error().'),
+  'domain-module': {
+    title: 'domain module',
+    environment: 'node',
+    match: { type: 'module', module: 'domain' },
+    replacement: 'Handle errors with promises and async_hooks.AsyncLocalStorage for context.',
+    deprecationCode: 'DEP0032',
+    confidence: 0.95,
+  },
+  'punycode-module': {
+    title: 'punycode module',
+    environment: 'node',
+    match: { type: 'module', module: 'punycode' },
+    replacement: 'Install the punycode package from npm, or use url.domainToASCII().',
+    deprecationCode: 'DEP0040',
+    confidence: 0.95,
+  },
+  'sys-module': {
+    title: 'sys module',
+    environment: 'node',
+    match: { type: 'module', module: 'sys' },
+    replacement: 'Use the util module.',
+    deprecationCode: 'DEP0025',
+    confidence: 0.95,
+  },
+  'constants-module': {
+    title: 'constants module',
+    environment: 'node',
+    match: { type: 'module', module: 'constants' },
+    replacement: 'Use os.constants, fs.constants or crypto.constants.',
+    deprecationCode: 'DEP0008',
+    confidence: 0.95,
+  },
+};
+
+export type TypeSafetyCheck = 'unsafe-type-assertion' | 'double-type-assertion' | 'any-type-assertion' | 'any-parameter';
+
+export const TYPE_SAFETY_CHECKS: Record<TypeSafetyCheck, { title: string; replacement: string }> = {
+  'unsafe-type-assertion': {
+    title: 'Unchecked type assertion',
+    replacement: 'Narrow the value with typeof, instanceof or a type guard before using it as this type, or validate it with a schema.',
+  },
+  'double-type-assertion': {
+    title: 'Double type assertion',
+    replacement: 'Asserting through unknown or any discards every type check; convert the value or fix the source type instead.',
+  },
+  'any-type-assertion': {
+    title: 'Assertion to any',
+    replacement: 'Assert to the specific type the code needs, or to unknown and narrow it.',
+  },
+  'any-parameter': {
+    title: 'Parameter typed as any',
+    replacement: 'Type the parameter, or use unknown and narrow it before use.',
+  },
+};
@@ -0,0 +1,145 @@
+import semver from 'semver';
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine';
+import { DEPRECATED_APIS, TYPE_SAFETY_CHECKS, TypeSafetyCheck } from './api-catalog';
+import { SourceFeatureUsage } from './types';
+
+// Cap the number of locations stored per result
+const MAX_LOCATIONS = 50;
+
+const TYPE_SAFETY_SEVERITY: Record<TypeSafetyCheck, RuleSeverity> = {
+  'unsafe-type-assertion': RuleSeverity.LOW,
+  'double-type-assertion': RuleSeverity.MEDIUM,
+  'any-type-assertion': RuleSeverity.MEDIUM,
+  'any-parameter': RuleSeverity.LOW,
+};
+
+export interface SourceApiCheckOptions {
+  // engines.node of the project's package.json
+  nodeEngine?: string;
+}
+
+function locationFields(usages: SourceFeatureUsage[]) {
+  return {
+    locations: usages.slice(0, MAX_LOCATIONS).map(usage => ({
+      uri: usage.file,
+      startLine: usage.line,
+      startColumn: usage.column,
+      snippet: usage.snippet,
+    })),
+    totalLocations: usages.length,
+  };
+}
+
+function affectedFiles(usages: SourceFeatureUsage[]): string[] {
+  return usages.slice(0, MAX_LOCATIONS).map(usage => `File: ${usage.file}:${usage.line}`);
+}
+
+// Whether the Node.js versions engines.node allows include one without the API
+function removedForEngine(removedIn: string, nodeEngine: string | undefined): boolean | null {
+  const range = nodeEngine ? semver.validRange(nodeEngine) : null;
+  if (!range) return null;
+  return semver.intersects(range, `>=${removedIn}`);
+}
+
+function deprecatedApiResult(id: string, usages: SourceFeatureUsage[], options: SourceApiCheckOptions): AnalysisResult {
+  const api = DEPRECATED_APIS[id]!;
+  const first = usages[0]!;
+  const removed = api.removedIn ? removedForEngine(api.removedIn, options.nodeEngine) : null;
+  const removedMajor = api.removedIn ? semver.major(api.removedIn) : null;
+
+  let message = `Deprecated API ${api.title} used in ${first.file}`;
+  if (removed) {
+    message = `${api.title} was removed in Node.js ${removedMajor}, which engines.node "${options.nodeEngine}" allows; used in ${first.file}`;
+  } else if (removedMajor !== null) {
+    message = `Deprecated API ${api.title}, removed in Node.js ${removedMajor}, used in ${first.file}`;
+  }
+
+  return {
+    ruleId: `deprecated-api:${id}`,
+    status: removed ? ResultStatus.FAILED : ResultStatus.WARNING,
+    severity: removed ? RuleSeverity.HIGH : removedMajor !== null ? RuleSeverity.MEDIUM : RuleSeverity.LOW,
+    message,
+    details: {
+      api: id,
+      title: api.title,
+      environment: api.environment,
+      file: first.file,
+      language: first.language,
+      replacement: api.replacement,
+      ...(api.deprecationCode
+        ? {
+            deprecationCode: api.deprecationCode,
+            documentation: `https://nodejs.org/api/deprecations.html#${api.deprecationCode.toLowerCase()}`,
+          }
+        : {}),
+      ...(api.removedIn ? { removedIn: api.removedIn } : {}),
+      ...(options.nodeEngine ? { nodeEngine: options.nodeEngine } : {}),
+      ...locationFields(usages),
+    },
+    recommendations: api.replacement,
+    affectedComponents: affectedFiles(usages),
+    metadata: {
+      source: 'source_analysis',
+      check: 'deprecated_api',
+      api: id,
+      pattern: 'deprecated_api',
+    },
+    confidence: Math.max(...usages.map(usage => usage.confidence)),
+  };
+}
+
+function typeSafetyResult(check: TypeSafetyCheck, usages: SourceFeatureUsage[]): AnalysisResult {
+  const { title, replacement } = TYPE_SAFETY_CHECKS[check];
+  const first = usages[0]!;
+
+  return {
+    ruleId: `type-safety:${check}`,
+    status: ResultStatus.WARNING,
+    severity: TYPE_SAFETY_SEVERITY[check],
+    message: `${title} in ${first.file}${usages.length > 1 ? ` (${usages.length} places)` : ''}`,
+    details: {
+      check,
+      title,
+      file: first.file,
+      language: first.language,
+      ...locationFields(usages),
+    },
+    recommendations: replacement,
+    affectedComponents: affectedFiles(usages),
+    metadata: {
+      source: 'source_analysis',
+      check,
+    },
+    confidence: Math.max(...usages.map(usage => usage.confidence)),
+  };
+}
+
+/**
+ * Report the deprecated APIs and type-safety escapes found in source files,
+ * one result per file and API or check. Node.js APIs removed in a version
+ * that the project's engines.node range allows fail; other deprecated APIs
+ * are warnings.
+ */
+export function checkSourceApis(
+  usages: SourceFeatureUsage[],
+  options: SourceApiCheckOptions = {}
+): AnalysisResult[] {
+  const groups = new Map<string, SourceFeatureUsage[]>();
+  for (const usage of usages) {
+    if (usage.kind !== 'deprecated' && usage.kind !== 'type-safety') continue;
+    const key = `${usage.file}\u0000${usage.feature}`;
+    groups.set(key, [...(groups.get(key) ?? []), usage]);
+  }
+
+  const results: AnalysisResult[] = [];
+  for (const group of groups.values()) {
+    const first = group[0]!;
+    if (first.kind === 'deprecated' && DEPRECATED_APIS[first.feature]) {
+      results.push(deprecatedApiResult(first.feature, group, options));
+    } else if (first.kind === 'type-safety' && first.feature in TYPE_SAFETY_CHECKS) {
+      results.push(typeSafetyResult(first.feature as TypeSafetyCheck, group));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,281 @@
+import * as ts from 'typescript';
+import { escapeRegex } from '@/lib/security/input-validation';
+import { DEPRECATED_APIS, DeprecatedApi, TypeSafetyCheck } from './api-catalog';
+import { isReference, positionOf } from './script-ast';
+import { SourceLanguage } from './types';
+import { UsageCollector } from './usage-collector';
+
+/**
+ * Deprecated API and type-safety detection for uploaded scripts
+ *
+ * Walks the TypeScript compiler syntax tree for the APIs in DEPRECATED_APIS
+ * and, in TypeScript, for the escapes from type checking: assertions the
+ * code never checks, assertions through unknown or any, and parameters typed
+ * as any. Receiver types are inferred from local declarations only, e.g.
+ * `const date = new Date()`, which raises the confidence of method matches.
+ */
+
+type CatalogEntry = [id: string, api: DeprecatedApi];
+
+function indexCatalog(type: DeprecatedApi['match']['type'], key: (api: DeprecatedApi) => string): Map<string, CatalogEntry[]> {
+  const index = new Map<string, CatalogEntry[]>();
+  for (const [id, api] of Object.entries(DEPRECATED_APIS)) {
+    if (api.match.type !== type) continue;
+    index.set(key(api), [...(index.get(key(api)) ?? []), [id, api]]);
+  }
+  return index;
+}
+
+const matchName = (api: DeprecatedApi) => ('name' in api.match ? api.match.name ?? '' : '');
+
+const METHODS = indexCatalog('method', matchName);
+const PROPERTIES = indexCatalog('property', matchName);
+const GLOBALS = indexCatalog('global', matchName);
+const MEMBERS = indexCatalog('member', api => (api.match.type === 'member' ? `${api.match.object}.${api.match.name}` : ''));
+const MODULE_EXPORTS = indexCatalog('module', api => (api.match.type === 'module' ? `${api.match.module}.${api.match.name ?? ''}` : ''));
+
+// Explicit escapes are certain; an assertion may be checked in a way the analyzer does not recognize
+const TYPE_SAFETY_CONFIDENCE: Record<TypeSafetyCheck, number> = {
+  'unsafe-type-assertion': 0.7,
+  'double-type-assertion': 0.95,
+  'any-type-assertion': 0.95,
+  'any-parameter': 0.9,
+};
+
+function moduleName(specifier: string): string {
+  return specifier.replace(/^node:/, '');
+}
+
+// The built-in module a require('x') call loads
+function requiredModule(node: ts.Node): string | null {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === 'require' &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteralLike(node.arguments[0]!)
+  ) {
+    return moduleName(node.arguments[0].text);
+  }
+  return null;
+}
+
+interface Bindings {
+  // Local names bound to a whole module: import util from 'util', const fs = require('fs')
+  namespaces: Map<string, string>;
+  // Local names bound to one export: import { parse } from 'url' binds parse to url.parse
+  exports: Map<string, string>;
+  // Receiver types of local names, from their annotation or initializer; null when ambiguous
+  types: Map<string, string | null>;
+}
+
+function typeOfExpression(node: ts.Expression): string | undefined {
+  if (ts.isNewExpression(node) && ts.isIdentifier(node.expression)) return node.expression.text;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+    return 'String';
+  }
+  return undefined;
+}
+
+function typeOfAnnotation(node: ts.TypeNode): string | undefined {
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) return node.typeName.text;
+  if (node.kind === ts.SyntaxKind.StringKeyword) return 'String';
+  return undefined;
+}
+
+function collectBindings(sourceFile: ts.SourceFile): Bindings {
+  const bindings: Bindings = { namespaces: new Map(), exports: new Map(), types: new Map() };
+
+  const setType = (name: string, type: string | undefined) => {
+    if (!type) return;
+    const known = bindings.types.get(name);
+    bindings.types.set(name, known === undefined || known === type ? type : null);
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) && node.importClause) {
+      const module = moduleName(node.moduleSpecifier.text);
+      const { name, namedBindings } = node.importClause;
+      if (name) bindings.namespaces.set(name.text, module);
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) bindings.namespaces.set(namedBindings.name.text, module);
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        for (const element of namedBindings.elements) {
+          bindings.exports.set(element.name.text, `${module}.${(element.propertyName ?? element.name).text}`);
+        }
+      }
+    }
+
+    if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteral(node.moduleReference.expression)
+    ) {
+      bindings.namespaces.set(node.name.text, moduleName(node.moduleReference.expression.text));
+    }
+
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      const module = requiredModule(node.initializer);
+      if (module && ts.isIdentifier(node.name)) {
+        bindings.namespaces.set(node.name.text, module);
+      } else if (module && ts.isObjectBindingPattern(node.name)) {
+        for (const element of node.name.elements) {
+          const imported = element.propertyName ?? element.name;
+          if (ts.isIdentifier(element.name) && ts.isIdentifier(imported)) {
+            bindings.exports.set(element.name.text, `${module}.${imported.text}`);
+          }
+        }
+      }
+    }
+
+    if ((ts.isVariableDeclaration(node) || ts.isParameter(node)) && ts.isIdentifier(node.name)) {
+      setType(node.name.text, node.type ? typeOfAnnotation(node.type) : node.initializer && typeOfExpression(node.initializer));
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return bindings;
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  return ts.isParenthesizedExpression(node) ? skipParentheses(node.expression) : node;
+}
+
+function isAssertion(node: ts.Node): node is ts.AsExpression | ts.TypeAssertion {
+  return ts.isAsExpression(node) || ts.isTypeAssertionExpression(node);
+}
+
+function isAnyType(node: ts.TypeNode): boolean {
+  return node.kind === ts.SyntaxKind.AnyKeyword || (ts.isArrayTypeNode(node) && isAnyType(node.elementType));
+}
+
+// Whether a condition checks the runtime type of the subject: typeof, instanceof, `in` or a type guard call
+function narrows(condition: ts.Expression, subject: string): boolean {
+  const escaped = escapeRegex(subject);
+  return new RegExp(`typeof\\s+${escaped}\\b|${escaped}\\s+instanceof\\b|\\bin\\s+${escaped}\\b|\\w\\(\\s*${escaped}\\s*\\)`)
+    .test(condition.getText());
+}
+
+function exits(statement: ts.Statement): boolean {
+  if (ts.isReturnStatement(statement) || ts.isThrowStatement(statement)) return true;
+  return ts.isBlock(statement) && statement.statements.some(exits);
+}
+
+// Whether the subject's type was checked before the assertion, in an enclosing condition or an early exit
+function isNarrowed(node: ts.Node, subject: string): boolean {
+  let child: ts.Node = node;
+  for (let current = node.parent; current && !ts.isSourceFile(current); child = current, current = current.parent) {
+    if (ts.isIfStatement(current) && current.thenStatement === child && narrows(current.expression, subject)) return true;
+    if (ts.isConditionalExpression(current) && current.whenTrue === child && narrows(current.condition, subject)) return true;
+    if (
+      ts.isBinaryExpression(current) &&
+      current.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken &&
+      current.right === child &&
+      narrows(current.left, subject)
+    ) {
+      return true;
+    }
+    if (ts.isBlock(current)) {
+      const before = current.statements.slice(0, current.statements.indexOf(child as ts.Statement));
+      if (before.some(statement => ts.isIfStatement(statement) && exits(statement.thenStatement) && narrows(statement.expression, subject))) {
+        return true;
+      }
+    }
+    if (ts.isFunctionLike(current)) break;
+  }
+  return false;
+}
+
+/**
+ * Detect deprecated API usages in a parsed script, and in TypeScript the
+ * type-safety escapes. Names in `declared` shadow the globals of the same name.
+ */
+export function detectApiUsages(
+  sourceFile: ts.SourceFile,
+  collector: UsageCollector,
+  language: Exclude<SourceLanguage, 'css'>,
+  declared: Set<string>
+): void {
+  const bindings = collectBindings(sourceFile);
+
+  const deprecated = (entries: CatalogEntry[] | undefined, node: ts.Node, receiver?: ts.Expression) => {
+    for (const [id, api] of entries ?? []) {
+      let confidence = api.confidence;
+      const expected = 'receiver' in api.match ? api.match.receiver : undefined;
+      if (expected && receiver) {
+        const inferred = typeOfExpression(receiver) ?? (ts.isIdentifier(receiver) ? bindings.types.get(receiver.text) : undefined);
+        if (inferred && inferred !== expected) continue;
+        if (inferred === expected) confidence = 0.95;
+      }
+      collector.add(id, 'deprecated', positionOf(sourceFile, node), confidence);
+    }
+  };
+  const typeSafety = (check: TypeSafetyCheck, node: ts.Node) =>
+    collector.add(check, 'type-safety', positionOf(sourceFile, node), TYPE_SAFETY_CONFIDENCE[check]);
+
+  // The module a namespace expression refers to: a bound name, or an inline require()
+  const moduleOf = (node: ts.Expression): string | null =>
+    ts.isIdentifier(node) ? bindings.namespaces.get(node.text) ?? null : requiredModule(node);
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) return;
+
+    // Whole deprecated modules, at the import or require
+    const imported = ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)
+      ? moduleName(node.moduleSpecifier.text)
+      : requiredModule(node);
+    if (imported) deprecated(MODULE_EXPORTS.get(`${imported}.`), node);
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const name = node.name.text;
+      const module = moduleOf(node.expression);
+      const isCallee = ts.isCallExpression(node.parent) && node.parent.expression === node;
+
+      if (module) {
+        deprecated(MODULE_EXPORTS.get(`${module}.${name}`), node);
+      } else if (ts.isIdentifier(node.expression) && !declared.has(node.expression.text)) {
+        deprecated(MEMBERS.get(`${node.expression.text}.${name}`), node);
+      }
+      deprecated(isCallee ? METHODS.get(name) : PROPERTIES.get(name), node.name, node.expression);
+    }
+
+    // Uses of a named import or destructured require; the import itself is not a use
+    if (ts.isIdentifier(node) && isReference(node)) {
+      const binding = bindings.exports.get(node.text);
+      if (binding) deprecated(MODULE_EXPORTS.get(binding), node);
+    }
+
+    if (
+      (ts.isCallExpression(node) || ts.isNewExpression(node)) &&
+      ts.isIdentifier(node.expression) &&
+      !declared.has(node.expression.text)
+    ) {
+      deprecated(GLOBALS.get(node.expression.text), node);
+    }
+
+    if (language === 'typescript') {
+      if (isAssertion(node) && !ts.isConstTypeReference(node.type) && node.type.kind !== ts.SyntaxKind.UnknownKeyword) {
+        const inner = skipParentheses(node.expression);
+        const outer = ts.findAncestor(node.parent, ancestor => !ts.isParenthesizedExpression(ancestor));
+
+        if (isAssertion(inner) && (inner.type.kind === ts.SyntaxKind.UnknownKeyword || inner.type.kind === ts.SyntaxKind.AnyKeyword)) {
+          typeSafety('double-type-assertion', node);
+        } else if (node.type.kind === ts.SyntaxKind.AnyKeyword) {
+          // The outer assertion of `value as any as T` reports both
+          if (!outer || !isAssertion(outer)) typeSafety('any-type-assertion', node);
+        } else if (!isNarrowed(node, inner.getText(sourceFile))) {
+          typeSafety('unsafe-type-assertion', node);
+        }
+      }
+
+      if (ts.isParameter(node) && node.type && isAnyType(node.type) && 'body' in node.parent && node.parent.body) {
+        typeSafety('any-parameter', node);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+}
@@ -0,0 +1,152 @@
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine';
+import {
+  BROWSERS,
+  BROWSER_DATA_DATE,
+  BROWSER_FEATURES,
+  BrowserFeature,
+  BrowserName,
+  SUPPORT_SOURCE,
+} from './browser-data';
+import { compareBrowserVersions } from './browserslist';
+import { BrowserTarget, SourceFeatureUsage } from './types';
+
+// Cap the number of locations stored per result
+const MAX_LOCATIONS = 50;
+
+export interface BrowserCompatOptions {
+  // The browserslist queries the targets were resolved from, reported in details
+  browserslist?: string[];
+}
+
+interface UnsupportedBrowser {
+  browser: string;
+  title: string;
+  versions: string[];
+  // Global usage share of the listed versions, in percent
+  usage: number;
+}
+
+function supports(feature: BrowserFeature, target: BrowserTarget, prefixed: boolean): boolean {
+  const browser = target.browser as BrowserName;
+  const source = SUPPORT_SOURCE[browser] ?? browser;
+
+  const since = feature.support[source];
+  if (since && compareBrowserVersions(target.version, since) >= 0) return true;
+
+  const prefixedSince = feature.prefixed?.[source];
+  return prefixed && prefixedSince !== undefined && compareBrowserVersions(target.version, prefixedSince) >= 0;
+}
+
+function unsupportedBrowsers(targets: BrowserTarget[]): UnsupportedBrowser[] {
+  const byBrowser = new Map<string, UnsupportedBrowser>();
+
+  for (const target of targets) {
+    const data = BROWSERS[target.browser as BrowserName];
+    const entry = byBrowser.get(target.browser) ?? {
+      browser: target.browser,
+      title: data?.title ?? target.browser,
+      versions: [],
+      usage: 0,
+    };
+    entry.versions.push(target.version);
+    entry.usage += data?.usage[target.version] ?? 0;
+    byBrowser.set(target.browser, entry);
+  }
+
+  return Array.from(byBrowser.values()).map(entry => ({ ...entry, usage: Math.round(entry.usage * 100) / 100 }));
+}
+
+function describeBrowser(entry: UnsupportedBrowser): string {
+  const first = entry.versions[0]!;
+  const last = entry.versions[entry.versions.length - 1]!;
+  return first === last ? `${entry.title} ${first}` : `${entry.title} ${first}-${last}`;
+}
+
+function severityFor(usageShare: number): RuleSeverity {
+  if (usageShare >= 5) return RuleSeverity.HIGH;
+  if (usageShare >= 1) return RuleSeverity.MEDIUM;
+  return RuleSeverity.LOW;
+}
+
+/**
+ * Check detected feature usages against the browsers a project targets.
+ * Reports one result per file and feature that some target does not support,
+ * with every location the feature is used at. Usages inside @supports have
+ * a fallback, so they are reported as warnings.
+ */
+export function checkBrowserCompat(
+  usages: SourceFeatureUsage[],
+  targets: BrowserTarget[],
+  options: BrowserCompatOptions = {}
+): AnalysisResult[] {
+  const groups = new Map<string, SourceFeatureUsage[]>();
+  for (const usage of usages) {
+    if (!BROWSER_FEATURES[usage.feature]) continue;
+    const key = `${usage.file}\u0000${usage.feature}`;
+    groups.set(key, [...(groups.get(key) ?? []), usage]);
+  }
+
+  const results: AnalysisResult[] = [];
+
+  for (const group of groups.values()) {
+    const first = group[0]!;
+    const feature = BROWSER_FEATURES[first.feature]!;
+
+    // A prefixed usage may cover browsers an unprefixed one does not
+    const affected = group.filter(usage => targets.some(target => !supports(feature, target, Boolean(usage.prefixed))));
+    if (affected.length === 0) continue;
+
+    const unsupportedTargets = targets.filter(target =>
+      affected.some(usage => !supports(feature, target, Boolean(usage.prefixed)))
+    );
+    const unsupported = unsupportedBrowsers(unsupportedTargets);
+    const usageShare = Math.round(unsupported.reduce((sum, entry) => sum + entry.usage, 0) * 100) / 100;
+    const guarded = affected.every(usage => usage.guarded);
+
+    const recommendations = [feature.fallback];
+    if (first.kind === 'syntax' && first.language === 'typescript') {
+      recommendations.push('If the TypeScript compiler or a bundler transpiles this file for your targets, this can be ignored.');
+    }
+    if (guarded) {
+      recommendations.push('The usage is inside @supports; check the fallback styles in the browsers listed.');
+    }
+
+    results.push({
+      ruleId: `browser-compat:${first.feature}`,
+      status: guarded ? ResultStatus.WARNING : ResultStatus.FAILED,
+      severity: guarded ? RuleSeverity.LOW : severityFor(usageShare),
+      message: `${feature.title} is not supported by ${unsupported.map(describeBrowser).join(', ')} (${usageShare}% of users), used in ${first.file}`,
+      details: {
+        feature: first.feature,
+        title: feature.title,
+        file: first.file,
+        language: first.language,
+        unsupported: unsupported.map(({ browser, versions, usage }) => ({ browser, versions, usage })),
+        usageShare,
+        locations: affected.slice(0, MAX_LOCATIONS).map(usage => ({
+          uri: usage.file,
+          startLine: usage.line,
+          startColumn: usage.column,
+          snippet: usage.snippet,
+        })),
+        totalLocations: affected.length,
+        ...(feature.mdn ? { mdn: feature.mdn } : {}),
+        ...(options.browserslist ? { browserslist: options.browserslist } : {}),
+        dataDate: BROWSER_DATA_DATE,
+      },
+      recommendations: recommendations.join(' '),
+      affectedComponents: [
+        ...affected.slice(0, MAX_LOCATIONS).map(usage => `File: ${usage.file}:${usage.line}`),
+        ...unsupported.map(entry => `Browser: ${describeBrowser(entry)}`),
+      ],
+      metadata: {
+        source: 'browser_compatibility',
+        feature: first.feature,
+        kind: first.kind,
+      },
+      confidence: Math.max(...affected.map(usage => usage.confidence)),
+    });
+  }
+
+  return results;
+}
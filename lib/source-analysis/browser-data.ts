@@ -0,0 +1,484 @@
+/**
+ * Bundled offline browser support data
+ *
+ * A curated snapshot of caniuse/MDN data, taken in January 2025, for the
+ * features the source parsers detect. Usage shares are approximate global
+ * shares in percent, and only versions with a noticeable share are listed.
+ * Update the snapshot by editing this file; nothing is fetched at scan time.
+ */
+
+export type BrowserName =
+  | 'chrome'
+  | 'edge'
+  | 'firefox'
+  | 'safari'
+  | 'ios_saf'
+  | 'opera'
+  | 'samsung'
+  | 'and_chr'
+  | 'and_ff'
+  | 'ie';
+
+export interface BrowserData {
+  title: string;
+  // Released versions, oldest first
+  versions: string[];
+  // Global usage share of a version, in percent
+  usage: Record<string, number>;
+}
+
+export interface BrowserFeature {
+  title: string;
+  // First version of each browser with full, unprefixed support; a browser
+  // missing here has never supported the feature
+  support: Partial<Record<BrowserName, string>>;
+  // First version that supports the feature with a vendor prefix
+  prefixed?: Partial<Record<BrowserName, string>>;
+  // How to support older browsers
+  fallback: string;
+  mdn?: string;
+}
+
+function range(from: number, to: number): string[] {
+  return Array.from({ length: to - from + 1 }, (_, index) => String(from + index));
+}
+
+export const BROWSER_DATA_DATE = '2025-01';
+
+export const BROWSERS: Record<BrowserName, BrowserData> = {
+  chrome: {
+    title: 'Chrome',
+    versions: range(40, 132),
+    usage: {
+      '132': 4.0, '131': 11.5, '130': 1.6, '129': 0.6, '128': 0.5, '127': 0.3, '126': 0.4, '125': 0.3,
+      '124': 0.3, '123': 0.2, '122': 0.2, '121': 0.2, '120': 0.3, '119': 0.3, '116': 0.2, '109': 0.5, '103': 0.3,
+    },
+  },
+  edge: {
+    title: 'Edge',
+    versions: [...range(12, 18), ...range(79, 132)],
+    usage: { '132': 1.0, '131': 3.6, '130': 0.1 },
+  },
+  firefox: {
+    title: 'Firefox',
+    versions: range(30, 134),
+    usage: { '134': 0.6, '133': 1.6, '132': 0.1, '128': 0.4, '115': 0.2 },
+  },
+  safari: {
+    title: 'Safari',
+    versions: [
+      '9', '9.1', '10', '10.1', '11', '11.1', '12', '12.1', '13', '13.1', '14', '14.1',
+      '15', '15.1', '15.2', '15.4', '15.5', '15.6', '16.0', '16.1', '16.2', '16.3', '16.4', '16.5', '16.6',
+      '17.0', '17.1', '17.2', '17.3', '17.4', '17.5', '17.6', '18.0', '18.1', '18.2',
+    ],
+    usage: { '18.2': 0.4, '18.1': 1.0, '18.0': 0.2, '17.6': 0.8, '17.5': 0.1, '17.1': 0.1, '16.6': 0.1, '15.6': 0.1 },
+  },
+  ios_saf: {
+    title: 'iOS Safari',
+    versions: [
+      '9', '9.3', '10', '10.3', '11', '11.3', '12', '12.2', '13', '13.4', '14', '14.5',
+      '15', '15.1', '15.2', '15.4', '15.5', '15.6', '16.0', '16.1', '16.2', '16.3', '16.4', '16.5', '16.6',
+      '17.0', '17.1', '17.2', '17.3', '17.4', '17.5', '17.6', '18.0', '18.1', '18.2',
+    ],
+    usage: {
+      '18.2': 0.8, '18.1': 4.0, '18.0': 1.3, '17.6': 2.8, '17.5': 0.3, '17.4': 0.2, '17.1': 0.3,
+      '16.6': 0.8, '16.1': 0.2, '15.6': 0.6, '12.2': 0.1,
+    },
+  },
+  opera: {
+    title: 'Opera',
+    versions: range(30, 115),
+    usage: { '115': 0.2, '114': 1.3, '113': 0.1 },
+  },
+  samsung: {
+    title: 'Samsung Internet',
+    versions: [
+      '4', '5', '6.2', '7.2', '8.2', '9.2', '10.1', '11.1', '12', '13', '14', '15', '16',
+      '17', '18', '19', '20', '21', '22', '23', '24', '25', '26', '27',
+    ],
+    usage: { '27': 2.4, '26': 0.3, '25': 0.2 },
+  },
+  and_chr: {
+    title: 'Chrome for Android',
+    versions: ['132'],
+    usage: { '132': 44.0 },
+  },
+  and_ff: {
+    title: 'Firefox for Android',
+    versions: ['134'],
+    usage: { '134': 0.3 },
+  },
+  ie: {
+    title: 'Internet Explorer',
+    versions: ['9', '10', '11'],
+    usage: { '11': 0.2 },
+  },
+};
+
+// Browsers without official support or updates for 24 months
+export const DEAD_BROWSERS: BrowserName[] = ['ie'];
+
+// Firefox Extended Support Releases still maintained
+export const FIREFOX_ESR_VERSIONS = ['115', '128'];
+
+// Mobile browsers share the engine, and the support data, of their desktop counterpart
+export const SUPPORT_SOURCE: Partial<Record<BrowserName, BrowserName>> = {
+  and_chr: 'chrome',
+  and_ff: 'firefox',
+};
+
+export const BROWSER_FEATURES: Record<string, BrowserFeature> = {
+  // CSS
+  'css-backdrop-filter': {
+    title: 'CSS backdrop-filter',
+    support: { chrome: '76', edge: '79', firefox: '103', safari: '18.0', ios_saf: '18.0', opera: '63', samsung: '12' },
+    prefixed: { safari: '9', ios_saf: '9' },
+    fallback: 'Add -webkit-backdrop-filter for Safari, and a solid background for browsers without it.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/backdrop-filter',
+  },
+  'flexbox-gap': {
+    title: 'gap in flex layouts',
+    support: { chrome: '84', edge: '84', firefox: '63', safari: '14.1', ios_saf: '14.5', opera: '70', samsung: '14' },
+    fallback: 'Space flex items with margins instead.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/gap',
+  },
+  'css-grid': {
+    title: 'CSS Grid Layout',
+    support: { chrome: '57', edge: '16', firefox: '52', safari: '10.1', ios_saf: '10.3', opera: '44', samsung: '6.2' },
+    fallback: 'Provide a flexbox or float layout first and enhance it inside @supports (display: grid).',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/CSS_grid_layout',
+  },
+  'css-subgrid': {
+    title: 'CSS subgrid',
+    support: { chrome: '117', edge: '117', firefox: '71', safari: '16.0', ios_saf: '16.0', opera: '103', samsung: '24' },
+    fallback: 'Repeat the parent track sizes on the nested grid.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/CSS_grid_layout/Subgrid',
+  },
+  'css-variables': {
+    title: 'CSS custom properties',
+    support: { chrome: '49', edge: '16', firefox: '31', safari: '10', ios_saf: '10', opera: '36', samsung: '5' },
+    fallback: 'Declare a plain value before each var() use, or compile custom properties away with PostCSS.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/Using_CSS_custom_properties',
+  },
+  'css-aspect-ratio': {
+    title: 'CSS aspect-ratio',
+    support: { chrome: '88', edge: '88', firefox: '89', safari: '15', ios_saf: '15', opera: '74', samsung: '15' },
+    fallback: 'Use the padding-top percentage technique.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/aspect-ratio',
+  },
+  'css-container-queries': {
+    title: 'CSS container queries',
+    support: { chrome: '105', edge: '105', firefox: '110', safari: '16.0', ios_saf: '16.0', opera: '91', samsung: '20' },
+    fallback: 'Keep a media-query layout for browsers without container queries.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/CSS_containment/Container_queries',
+  },
+  'css-has': {
+    title: 'CSS :has() selector',
+    support: { chrome: '105', edge: '105', firefox: '121', safari: '15.4', ios_saf: '15.4', opera: '91', samsung: '20' },
+    fallback: 'Toggle a class from JavaScript instead; a selector list containing :has() is dropped entirely by older browsers.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/:has',
+  },
+  'css-matches-pseudo': {
+    title: 'CSS :is() and :where() selectors',
+    support: { chrome: '88', edge: '88', firefox: '78', safari: '14', ios_saf: '14', opera: '74', samsung: '15' },
+    fallback: 'Expand the selector list, or compile it with postcss-preset-env.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/:is',
+  },
+  'css-focus-visible': {
+    title: 'CSS :focus-visible',
+    support: { chrome: '86', edge: '86', firefox: '85', safari: '15.4', ios_saf: '15.4', opera: '72', samsung: '14' },
+    fallback: 'Keep a :focus style, or use the focus-visible polyfill.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/:focus-visible',
+  },
+  'css-math-functions': {
+    title: 'CSS min(), max() and clamp()',
+    support: { chrome: '79', edge: '79', firefox: '75', safari: '13.1', ios_saf: '13.4', opera: '66', samsung: '12' },
+    fallback: 'Declare a fixed value before the declaration that uses the function.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/clamp',
+  },
+  'css-sticky': {
+    title: 'CSS position: sticky',
+    support: { chrome: '56', edge: '16', firefox: '32', safari: '13', ios_saf: '13', opera: '42', samsung: '6.2' },
+    prefixed: { safari: '9', ios_saf: '9' },
+    fallback: 'Add position: -webkit-sticky before it for older Safari.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/position',
+  },
+  'css-cascade-layers': {
+    title: 'CSS cascade layers (@layer)',
+    support: { chrome: '99', edge: '99', firefox: '97', safari: '15.4', ios_saf: '15.4', opera: '85', samsung: '18' },
+    fallback: 'Older browsers ignore everything inside @layer; compile layers away with postcss-cascade-layers.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/@layer',
+  },
+  'css-nesting': {
+    title: 'CSS nesting',
+    support: { chrome: '120', edge: '120', firefox: '117', safari: '17.2', ios_saf: '17.2', opera: '106', samsung: '25' },
+    fallback: 'Compile nested rules with a preprocessor or postcss-nesting.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/CSS_nesting',
+  },
+  'css-overscroll-behavior': {
+    title: 'CSS overscroll-behavior',
+    support: { chrome: '63', edge: '18', firefox: '59', safari: '16.0', ios_saf: '16.0', opera: '50', samsung: '8.2' },
+    fallback: 'Scroll chaining still happens in browsers without it; it is safe as a progressive enhancement.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/overscroll-behavior',
+  },
+  'css-snappoints': {
+    title: 'CSS scroll snap',
+    support: { chrome: '69', edge: '79', firefox: '68', safari: '11', ios_saf: '11', opera: '56', samsung: '10.1' },
+    fallback: 'Scrolling still works without snapping; it is safe as a progressive enhancement.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/CSS_scroll_snap',
+  },
+  'css-oklab': {
+    title: 'CSS oklab(), oklch(), lab() and lch() colors',
+    support: { chrome: '111', edge: '111', firefox: '113', safari: '15.4', ios_saf: '15.4', opera: '97', samsung: '22' },
+    fallback: 'Declare an rgb() or hex color before the declaration that uses the new color space.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/color_value/oklch',
+  },
+  'css-accent-color': {
+    title: 'CSS accent-color',
+    support: { chrome: '93', edge: '93', firefox: '92', safari: '15.4', ios_saf: '15.4', opera: '79', samsung: '17' },
+    fallback: 'Form controls keep their default color; it is safe as a progressive enhancement.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/accent-color',
+  },
+  'css-text-wrap-balance': {
+    title: 'CSS text-wrap: balance',
+    support: { chrome: '114', edge: '114', firefox: '121', safari: '17.5', ios_saf: '17.5', opera: '100', samsung: '23' },
+    fallback: 'Text wraps normally without it; it is safe as a progressive enhancement.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/text-wrap',
+  },
+  'viewport-unit-variants': {
+    title: 'Small, large and dynamic viewport units',
+    support: { chrome: '108', edge: '108', firefox: '101', safari: '15.4', ios_saf: '15.4', opera: '94', samsung: '21' },
+    fallback: 'Declare the same length in vh before the declaration that uses dvh, svh or lvh.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/length#viewport-percentage_lengths',
+  },
+  'css-inset': {
+    title: 'CSS inset',
+    support: { chrome: '87', edge: '87', firefox: '66', safari: '14.1', ios_saf: '14.5', opera: '73', samsung: '14' },
+    fallback: 'Use top, right, bottom and left.',
+    mdn: 'https://developer.mozilla.org/docs/Web/CSS/inset',
+  },
+
+  // JavaScript syntax
+  'arrow-functions': {
+    title: 'Arrow functions',
+    support: { chrome: '45', edge: '12', firefox: '22', safari: '10', ios_saf: '10', opera: '32', samsung: '5' },
+    fallback: 'Transpile to ES5 with Babel or TypeScript.',
+  },
+  'es6-class': {
+    title: 'Classes',
+    support: { chrome: '49', edge: '13', firefox: '45', safari: '9', ios_saf: '9', opera: '36', samsung: '5' },
+    fallback: 'Transpile to ES5 with Babel or TypeScript.',
+  },
+  'let': {
+    title: 'let and const',
+    support: { chrome: '49', edge: '12', firefox: '44', safari: '10', ios_saf: '10', opera: '36', samsung: '5' },
+    fallback: 'Transpile to ES5 with Babel or TypeScript.',
+  },
+  'template-literals': {
+    title: 'Template literals',
+    support: { chrome: '41', edge: '13', firefox: '34', safari: '9.1', ios_saf: '9.3', opera: '28', samsung: '4' },
+    fallback: 'Transpile to ES5 with Babel or TypeScript.',
+  },
+  'destructuring': {
+    title: 'Destructuring assignment',
+    support: { chrome: '49', edge: '14', firefox: '41', safari: '10', ios_saf: '10', opera: '36', samsung: '5' },
+    fallback: 'Transpile to ES5 with Babel or TypeScript.',
+  },
+  'async-functions': {
+    title: 'Async functions',
+    support: { chrome: '55', edge: '15', firefox: '52', safari: '10.1', ios_saf: '10.3', opera: '42', samsung: '6.2' },
+    fallback: 'Transpile with Babel or TypeScript and include the regenerator runtime.',
+  },
+  'async-iterations': {
+    title: 'Async iteration (for await and async generators)',
+    support: { chrome: '63', edge: '79', firefox: '57', safari: '12', ios_saf: '12', opera: '50', samsung: '8.2' },
+    fallback: 'Transpile with Babel or TypeScript.',
+  },
+  'exponentiation': {
+    title: 'Exponentiation operator (**)',
+    support: { chrome: '52', edge: '14', firefox: '52', safari: '10.1', ios_saf: '10.3', opera: '39', samsung: '6.2' },
+    fallback: 'Use Math.pow().',
+  },
+  'object-rest-spread': {
+    title: 'Object rest and spread properties',
+    support: { chrome: '60', edge: '79', firefox: '55', safari: '11.1', ios_saf: '11.3', opera: '47', samsung: '8.2' },
+    fallback: 'Use Object.assign(), or transpile with Babel or TypeScript.',
+  },
+  'optional-catch-binding': {
+    title: 'Optional catch binding',
+    support: { chrome: '66', edge: '79', firefox: '58', safari: '11.1', ios_saf: '11.3', opera: '53', samsung: '9.2' },
+    fallback: 'Name the caught error: catch (error).',
+  },
+  'dynamic-import': {
+    title: 'Dynamic import()',
+    support: { chrome: '63', edge: '79', firefox: '67', safari: '11.1', ios_saf: '11.3', opera: '50', samsung: '8.2' },
+    fallback: 'Let a bundler split the code, or load the module with a script tag.',
+  },
+  'bigint': {
+    title: 'BigInt',
+    support: { chrome: '67', edge: '79', firefox: '68', safari: '14', ios_saf: '14', opera: '54', samsung: '9.2' },
+    fallback: 'BigInt cannot be transpiled; use a big number library such as JSBI.',
+  },
+  'numeric-separators': {
+    title: 'Numeric separators',
+    support: { chrome: '75', edge: '79', firefox: '70', safari: '13', ios_saf: '13', opera: '62', samsung: '11.1' },
+    fallback: 'Remove the underscores, or transpile with Babel or TypeScript.',
+  },
+  'optional-chaining': {
+    title: 'Optional chaining (?.)',
+    support: { chrome: '80', edge: '80', firefox: '74', safari: '13.1', ios_saf: '13.4', opera: '67', samsung: '13' },
+    fallback: 'Transpile with Babel or TypeScript (target ES2019 or lower).',
+  },
+  'nullish-coalescing': {
+    title: 'Nullish coalescing (??)',
+    support: { chrome: '80', edge: '80', firefox: '72', safari: '13.1', ios_saf: '13.4', opera: '67', samsung: '13' },
+    fallback: 'Transpile with Babel or TypeScript (target ES2019 or lower).',
+  },
+  'logical-assignment': {
+    title: 'Logical assignment (&&=, ||=, ??=)',
+    support: { chrome: '85', edge: '85', firefox: '79', safari: '14', ios_saf: '14', opera: '71', samsung: '14' },
+    fallback: 'Transpile with Babel or TypeScript (target ES2020 or lower).',
+  },
+  'class-fields': {
+    title: 'Public class fields',
+    support: { chrome: '72', edge: '79', firefox: '75', safari: '14.1', ios_saf: '14.5', opera: '60', samsung: '11.1' },
+    fallback: 'Assign the fields in the constructor, or transpile with Babel or TypeScript.',
+  },
+  'private-class-members': {
+    title: 'Private class fields and methods (#)',
+    support: { chrome: '84', edge: '84', firefox: '90', safari: '15', ios_saf: '15', opera: '70', samsung: '14' },
+    fallback: 'Transpile with Babel or TypeScript, or use a WeakMap.',
+  },
+  'class-static-blocks': {
+    title: 'Class static initialization blocks',
+    support: { chrome: '94', edge: '94', firefox: '93', safari: '16.4', ios_saf: '16.4', opera: '80', samsung: '17' },
+    fallback: 'Initialize the static members after the class declaration.',
+  },
+  'top-level-await': {
+    title: 'Top-level await',
+    support: { chrome: '89', edge: '89', firefox: '89', safari: '15', ios_saf: '15', opera: '75', samsung: '15' },
+    fallback: 'Wrap the module body in an async function.',
+  },
+  'regexp-lookbehind': {
+    title: 'RegExp lookbehind assertions',
+    support: { chrome: '62', edge: '79', firefox: '78', safari: '16.4', ios_saf: '16.4', opera: '49', samsung: '8.2' },
+    fallback: 'Rewrite the expression with a capturing group; lookbehind is a syntax error in older browsers and breaks the whole script.',
+  },
+  'regexp-named-groups': {
+    title: 'RegExp named capture groups',
+    support: { chrome: '64', edge: '79', firefox: '78', safari: '11.1', ios_saf: '11.3', opera: '51', samsung: '9.2' },
+    fallback: 'Use numbered capture groups.',
+  },
+
+  // JavaScript and Web APIs
+  'fetch': {
+    title: 'Fetch API',
+    support: { chrome: '42', edge: '14', firefox: '39', safari: '10.1', ios_saf: '10.3', opera: '29', samsung: '4' },
+    fallback: 'Load a fetch polyfill such as whatwg-fetch.',
+  },
+  'promises': {
+    title: 'Promises',
+    support: { chrome: '33', edge: '12', firefox: '29', safari: '7.1', ios_saf: '8', opera: '20', samsung: '4' },
+    fallback: 'Load a Promise polyfill such as core-js.',
+  },
+  'promise-allsettled': {
+    title: 'Promise.allSettled()',
+    support: { chrome: '76', edge: '79', firefox: '71', safari: '13', ios_saf: '13', opera: '63', samsung: '12' },
+    fallback: 'Polyfill it with core-js.',
+  },
+  'promise-any': {
+    title: 'Promise.any()',
+    support: { chrome: '85', edge: '85', firefox: '79', safari: '14', ios_saf: '14', opera: '71', samsung: '14' },
+    fallback: 'Polyfill it with core-js.',
+  },
+  'structuredclone': {
+    title: 'structuredClone()',
+    support: { chrome: '98', edge: '98', firefox: '94', safari: '15.4', ios_saf: '15.4', opera: '84', samsung: '18' },
+    fallback: 'Polyfill it with core-js, or copy plain data with JSON.parse(JSON.stringify(value)).',
+  },
+  'object-hasown': {
+    title: 'Object.hasOwn()',
+    support: { chrome: '93', edge: '93', firefox: '92', safari: '15.4', ios_saf: '15.4', opera: '79', samsung: '17' },
+    fallback: 'Use Object.prototype.hasOwnProperty.call(object, key).',
+  },
+  'object-fromentries': {
+    title: 'Object.fromEntries()',
+    support: { chrome: '73', edge: '79', firefox: '63', safari: '12.1', ios_saf: '12.2', opera: '60', samsung: '11.1' },
+    fallback: 'Polyfill it with core-js, or build the object with reduce().',
+  },
+  'object-groupby': {
+    title: 'Object.groupBy() and Map.groupBy()',
+    support: { chrome: '117', edge: '117', firefox: '119', safari: '17.4', ios_saf: '17.4', opera: '103', samsung: '24' },
+    fallback: 'Polyfill it with core-js, or group with reduce().',
+  },
+  'array-at': {
+    title: 'Array.prototype.at() and String.prototype.at()',
+    support: { chrome: '92', edge: '92', firefox: '90', safari: '15.4', ios_saf: '15.4', opera: '78', samsung: '16' },
+    fallback: 'Index from the end with value[value.length - n], or polyfill with core-js.',
+  },
+  'string-replaceall': {
+    title: 'String.prototype.replaceAll()',
+    support: { chrome: '85', edge: '85', firefox: '77', safari: '13.1', ios_saf: '13.4', opera: '71', samsung: '14' },
+    fallback: 'Use replace() with a global regular expression, or polyfill with core-js.',
+  },
+  'array-flat': {
+    title: 'Array.prototype.flat() and flatMap()',
+    support: { chrome: '69', edge: '79', firefox: '62', safari: '12', ios_saf: '12', opera: '56', samsung: '10.1' },
+    fallback: 'Polyfill it with core-js, or flatten with reduce() and concat().',
+  },
+  'array-find-last': {
+    title: 'Array.prototype.findLast() and findLastIndex()',
+    support: { chrome: '97', edge: '97', firefox: '104', safari: '15.4', ios_saf: '15.4', opera: '83', samsung: '18' },
+    fallback: 'Polyfill it with core-js, or search a reversed copy.',
+  },
+  'array-change-by-copy': {
+    title: 'Array.prototype.toSorted(), toReversed() and toSpliced()',
+    support: { chrome: '110', edge: '110', firefox: '115', safari: '16.0', ios_saf: '16.0', opera: '96', samsung: '21' },
+    fallback: 'Copy the array with slice() before sorting, reversing or splicing it.',
+  },
+  'globalthis': {
+    title: 'globalThis',
+    support: { chrome: '71', edge: '79', firefox: '65', safari: '12.1', ios_saf: '12.2', opera: '58', samsung: '10.1' },
+    fallback: 'Use window in browser code, or polyfill with core-js.',
+  },
+  'queuemicrotask': {
+    title: 'queueMicrotask()',
+    support: { chrome: '71', edge: '79', firefox: '69', safari: '12.1', ios_saf: '12.2', opera: '58', samsung: '10.1' },
+    fallback: 'Use Promise.resolve().then(callback).',
+  },
+  'intersectionobserver': {
+    title: 'IntersectionObserver',
+    support: { chrome: '58', edge: '16', firefox: '55', safari: '12.1', ios_saf: '12.2', opera: '45', samsung: '7.2' },
+    fallback: 'Load the intersection-observer polyfill.',
+  },
+  'resizeobserver': {
+    title: 'ResizeObserver',
+    support: { chrome: '64', edge: '79', firefox: '69', safari: '13.1', ios_saf: '13.4', opera: '51', samsung: '9.2' },
+    fallback: 'Load a ResizeObserver polyfill, or listen for window resize events.',
+  },
+  'abortcontroller': {
+    title: 'AbortController',
+    support: { chrome: '66', edge: '16', firefox: '57', safari: '12.1', ios_saf: '12.2', opera: '53', samsung: '9.2' },
+    fallback: 'Load the abortcontroller-polyfill.',
+  },
+  'broadcastchannel': {
+    title: 'BroadcastChannel',
+    support: { chrome: '54', edge: '79', firefox: '38', safari: '15.4', ios_saf: '15.4', opera: '41', samsung: '6.2' },
+    fallback: 'Fall back to storage events on localStorage.',
+  },
+  'urlsearchparams': {
+    title: 'URLSearchParams',
+    support: { chrome: '49', edge: '17', firefox: '44', safari: '10.1', ios_saf: '10.3', opera: '36', samsung: '5' },
+    fallback: 'Load a URLSearchParams polyfill such as core-js.',
+  },
+  'weakrefs': {
+    title: 'WeakRef and FinalizationRegistry',
+    support: { chrome: '84', edge: '84', firefox: '79', safari: '14.1', ios_saf: '14.5', opera: '70', samsung: '14' },
+    fallback: 'WeakRef cannot be polyfilled; hold a strong reference or use a WeakMap.',
+  },
+  'intl-segmenter': {
+    title: 'Intl.Segmenter',
+    support: { chrome: '87', edge: '87', firefox: '125', safari: '14.1', ios_saf: '14.5', opera: '73', samsung: '14' },
+    fallback: 'Segment text with a library such as graphemer.',
+  },
+};
@@ -0,0 +1,256 @@
+import {
+  BROWSERS,
+  BrowserName,
+  DEAD_BROWSERS,
+  FIREFOX_ESR_VERSIONS,
+} from './browser-data';
+import { BrowserTarget } from './types';
+
+/**
+ * Browserslist query resolution against the bundled browser data
+ *
+ * Supports the queries projects commonly write: `defaults`, usage shares
+ * (`> 0.5%`), `last 2 versions`, `last 2 Chrome versions`, `Firefox ESR`,
+ * version comparisons (`safari >= 15`), exact versions and ranges, `dead`,
+ * and combinations with `or`, `and` and `not`. Queries that need data we do
+ * not bundle, such as `cover` or `since`, are skipped with a warning.
+ */
+
+// What browserslist resolves an empty configuration to
+export const DEFAULT_BROWSERSLIST = ['defaults'];
+
+const DEFAULTS_QUERY = '> 0.5%, last 2 versions, Firefox ESR, not dead';
+
+const BROWSER_ALIASES: Record<string, BrowserName> = {
+  chrome: 'chrome',
+  edge: 'edge',
+  firefox: 'firefox',
+  ff: 'firefox',
+  safari: 'safari',
+  ios: 'ios_saf',
+  ios_saf: 'ios_saf',
+  opera: 'opera',
+  samsung: 'samsung',
+  chromeandroid: 'and_chr',
+  and_chr: 'and_chr',
+  android: 'and_chr',
+  firefoxandroid: 'and_ff',
+  and_ff: 'and_ff',
+  ie: 'ie',
+  explorer: 'ie',
+};
+
+export interface ResolvedBrowserslist {
+  targets: BrowserTarget[];
+  // Queries that were skipped
+  warnings: string[];
+}
+
+// Compares dotted versions numerically: 9 < 10.1 < 16.0 = 16
+export function compareBrowserVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+function key(browser: BrowserName, version: string): string {
+  return `${browser} ${version}`;
+}
+
+function allVersions(filter: (browser: BrowserName, version: string) => boolean): Set<string> {
+  const selected = new Set<string>();
+  for (const [browser, data] of Object.entries(BROWSERS) as [BrowserName, typeof BROWSERS[BrowserName]][]) {
+    for (const version of data.versions) {
+      if (filter(browser, version)) selected.add(key(browser, version));
+    }
+  }
+  return selected;
+}
+
+function lastVersions(browser: BrowserName, count: number, major: boolean): string[] {
+  const versions = BROWSERS[browser].versions;
+  if (!major) return versions.slice(-count);
+
+  const majors = Array.from(new Set(versions.map(version => version.split('.')[0]!))).slice(-count);
+  return versions.filter(version => majors.includes(version.split('.')[0]!));
+}
+
+function compare(operator: string, left: number, right: number): boolean {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    default: return left <= right;
+  }
+}
+
+// The browser versions one query term selects; null when the term is not supported
+function evaluate(term: string, warnings: string[]): Set<string> | null {
+  const query = term.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (query === 'defaults') {
+    return resolveSet(DEFAULTS_QUERY, warnings);
+  }
+
+  if (query === 'dead') {
+    return allVersions(browser => DEAD_BROWSERS.includes(browser));
+  }
+
+  if (query === 'unreleased versions' || /^\w+ tp$/.test(query)) {
+    return new Set();
+  }
+
+  if (query === 'firefox esr') {
+    return new Set(FIREFOX_ESR_VERSIONS.map(version => key('firefox', version)));
+  }
+
+  const usage = query.match(/^([<>]=?) ?(\d+(?:\.\d+)?)%$/);
+  if (usage) {
+    const threshold = Number(usage[2]);
+    return allVersions((browser, version) =>
+      compare(usage[1]!, BROWSERS[browser].usage[version] ?? 0, threshold)
+    );
+  }
+
+  const last = query.match(/^last (\d+) (?:(\w+) )??(major )?versions?$/);
+  if (last) {
+    const count = Number(last[1]);
+    const browser = last[2] ? BROWSER_ALIASES[last[2]] : undefined;
+    if (last[2] && !browser) return null;
+
+    const browsers = browser ? [browser] : (Object.keys(BROWSERS) as BrowserName[]);
+    return new Set(
+      browsers.flatMap(browser =>
+        lastVersions(browser, count, Boolean(last[3])).map(version => key(browser, version))
+      )
+    );
+  }
+
+  const comparison = query.match(/^(\w+) ?([<>]=?) ?(\d+(?:\.\d+)*)$/);
+  if (comparison) {
+    const browser = BROWSER_ALIASES[comparison[1]!];
+    if (!browser) return null;
+    return allVersions((name, version) =>
+      name === browser && compare(comparison[2]!, compareBrowserVersions(version, comparison[3]!), 0)
+    );
+  }
+
+  const between = query.match(/^(\w+) (\d+(?:\.\d+)*)-(\d+(?:\.\d+)*)$/);
+  if (between) {
+    const browser = BROWSER_ALIASES[between[1]!];
+    if (!browser) return null;
+    return allVersions((name, version) =>
+      name === browser &&
+      compareBrowserVersions(version, between[2]!) >= 0 &&
+      compareBrowserVersions(version, between[3]!) <= 0
+    );
+  }
+
+  const exact = query.match(/^(\w+) (\d+(?:\.\d+)*)$/);
+  if (exact) {
+    const browser = BROWSER_ALIASES[exact[1]!];
+    if (!browser) return null;
+    const version = BROWSERS[browser].versions.find(candidate => compareBrowserVersions(candidate, exact[2]!) === 0);
+    if (!version) {
+      warnings.push(`Unknown browser version in "${term.trim()}"`);
+      return new Set();
+    }
+    return new Set([key(browser, version)]);
+  }
+
+  return null;
+}
+
+// Queries are combined left to right: `or` and commas add, `and` intersects, `not` removes
+function resolveSet(queries: string, warnings: string[]): Set<string> {
+  let selected = new Set<string>();
+
+  for (const group of queries.split(/,|\s+or\s+/i).map(part => part.trim()).filter(Boolean)) {
+    const negated = /^not\s+/i.test(group);
+    let matched: Set<string> | null = null;
+
+    for (const part of group.replace(/^not\s+/i, '').split(/\s+and\s+/i)) {
+      const partNegated = /^not\s+/i.test(part);
+      const versions = evaluate(part.replace(/^not\s+/i, ''), warnings);
+      if (!versions) {
+        warnings.push(`Unsupported browserslist query skipped: "${part.trim()}"`);
+        continue;
+      }
+
+      const current: Set<string> = matched ?? (partNegated ? new Set(selected) : new Set(versions));
+      matched = new Set(
+        Array.from(current).filter(version => (partNegated ? !versions.has(version) : versions.has(version)))
+      );
+    }
+
+    if (!matched) continue;
+    if (negated) {
+      selected = new Set(Array.from(selected).filter(version => !matched!.has(version)));
+    } else {
+      for (const version of matched) selected.add(version);
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Resolve browserslist queries into the browser versions they select.
+ * Accepts the forms a browserslist config can take: a list of queries or
+ * one comma-separated string.
+ */
+export function resolveBrowserslist(queries: string | string[]): ResolvedBrowserslist {
+  const warnings: string[] = [];
+  const list = (Array.isArray(queries) ? queries : [queries]).filter(query => query.trim());
+  const selected = resolveSet((list.length > 0 ? list : DEFAULT_BROWSERSLIST).join(', '), warnings);
+
+  const order = Object.keys(BROWSERS);
+  const targets = Array.from(selected)
+    .map(entry => {
+      const [browser, version] = entry.split(' ') as [BrowserName, string];
+      return { browser, version };
+    })
+    .sort((a, b) =>
+      order.indexOf(a.browser) - order.indexOf(b.browser) || compareBrowserVersions(a.version, b.version)
+    );
+
+  return { targets, warnings };
+}
+
+/**
+ * Parse a .browserslistrc file, or the browserslist field of package.json:
+ * a query string, a list of queries, or queries per environment (the
+ * production environment is used).
+ */
+export function parseBrowserslistConfig(value: unknown): string[] | null {
+  if (typeof value === 'string') {
+    const queries: string[] = [];
+    // Environment sections such as [production staging]; only production queries apply
+    let environments: string[] | null = null;
+
+    for (const line of value.split(/\r?\n/).map(line => line.replace(/#.*$/, '').trim()).filter(Boolean)) {
+      const section = line.match(/^\[(.+)\]$/);
+      if (section) {
+        environments = section[1]!.trim().split(/\s+/);
+      } else if (!environments || environments.includes('production')) {
+        queries.push(line);
+      }
+    }
+    return queries;
+  }
+
+  if (Array.isArray(value)) {
+    return value.filter((query): query is string => typeof query === 'string');
+  }
+
+  if (value && typeof value === 'object') {
+    const environments = value as Record<string, unknown>;
+    return parseBrowserslistConfig(environments.production ?? environments.defaults);
+  }
+
+  return null;
+}
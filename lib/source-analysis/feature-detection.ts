@@ -0,0 +1,335 @@
+import * as ts from 'typescript';
+import postcss, { AtRule, ChildNode, Declaration, Node as CssNode } from 'postcss';
+import { detectApiUsages } from './api-usage';
+import { declaredNames, hasModifier, isReference, parseScript, positionOf } from './script-ast';
+import { detectSourceLanguage } from './source-files';
+import { SourceFeatureUsage, SourceLanguage } from './types';
+import { UsageCollector } from './usage-collector';
+
+/**
+ * Feature detection for uploaded JavaScript, TypeScript and CSS
+ *
+ * Scripts are parsed with the TypeScript compiler and CSS with PostCSS; the
+ * syntax trees are walked for the language features, Web APIs and CSS
+ * properties listed in BROWSER_FEATURES. Detection is syntactic: an API is
+ * recognized by its global name, and a method such as `.at()` by its name
+ * alone, which lowers the confidence of the usage.
+ */
+
+// TypeScript is compiled to the configured target, so its syntax may never reach a browser
+const SYNTAX_CONFIDENCE: Record<Exclude<SourceLanguage, 'css'>, number> = {
+  javascript: 0.95,
+  typescript: 0.5,
+};
+
+// Global constructors and functions, by the feature they belong to
+const GLOBAL_APIS: Record<string, string> = {
+  fetch: 'fetch',
+  Promise: 'promises',
+  structuredClone: 'structuredclone',
+  queueMicrotask: 'queuemicrotask',
+  globalThis: 'globalthis',
+  IntersectionObserver: 'intersectionobserver',
+  ResizeObserver: 'resizeobserver',
+  AbortController: 'abortcontroller',
+  BroadcastChannel: 'broadcastchannel',
+  URLSearchParams: 'urlsearchparams',
+  WeakRef: 'weakrefs',
+  FinalizationRegistry: 'weakrefs',
+};
+
+// Static members of built-in objects
+const STATIC_APIS: Record<string, string> = {
+  'Promise.allSettled': 'promise-allsettled',
+  'Promise.any': 'promise-any',
+  'Object.hasOwn': 'object-hasown',
+  'Object.fromEntries': 'object-fromentries',
+  'Object.groupBy': 'object-groupby',
+  'Map.groupBy': 'object-groupby',
+  'Intl.Segmenter': 'intl-segmenter',
+};
+
+// Array and string methods; the receiver type is unknown, so these are reported with lower confidence
+const METHOD_APIS: Record<string, string> = {
+  at: 'array-at',
+  replaceAll: 'string-replaceall',
+  flat: 'array-flat',
+  flatMap: 'array-flat',
+  findLast: 'array-find-last',
+  findLastIndex: 'array-find-last',
+  toSorted: 'array-change-by-copy',
+  toReversed: 'array-change-by-copy',
+  toSpliced: 'array-change-by-copy',
+};
+
+const GLOBAL_OBJECTS = ['window', 'self', 'globalThis'];
+
+const VENDOR_PREFIX = /^-(webkit|moz|ms|o)-/;
+
+function insideFunction(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current) || ts.isClassStaticBlockDeclaration(current)) return true;
+  }
+  return false;
+}
+
+function detectScriptFeatures(
+  sourceFile: ts.SourceFile,
+  collector: UsageCollector,
+  language: Exclude<SourceLanguage, 'css'>,
+  declared: Set<string>
+): void {
+  const syntaxConfidence = SYNTAX_CONFIDENCE[language];
+
+  const syntax = (feature: string, node: ts.Node) =>
+    collector.add(feature, 'syntax', positionOf(sourceFile, node), syntaxConfidence);
+  const api = (feature: string, node: ts.Node, confidence: number) =>
+    collector.add(feature, 'api', positionOf(sourceFile, node), confidence);
+
+  const visit = (node: ts.Node): void => {
+    // Types are erased, and import and export statements are resolved by bundlers
+    if (
+      ts.isTypeNode(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isImportDeclaration(node) ||
+      ts.isExportDeclaration(node)
+    ) {
+      return;
+    }
+
+    if (ts.isArrowFunction(node)) syntax('arrow-functions', node);
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) syntax('es6-class', node);
+    if (ts.isVariableDeclarationList(node) && node.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const)) {
+      syntax('let', node);
+    }
+    if (ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node)) syntax('template-literals', node);
+    if (ts.isObjectBindingPattern(node) || ts.isArrayBindingPattern(node)) syntax('destructuring', node);
+
+    if (ts.isFunctionLike(node) && hasModifier(node, ts.SyntaxKind.AsyncKeyword)) {
+      syntax('async-functions', node);
+      if ('asteriskToken' in node && node.asteriskToken) syntax('async-iterations', node);
+    }
+    if (ts.isForOfStatement(node) && node.awaitModifier) {
+      syntax('async-iterations', node);
+      if (!insideFunction(node)) syntax('top-level-await', node);
+    }
+    if (ts.isAwaitExpression(node) && !insideFunction(node)) syntax('top-level-await', node);
+
+    if (ts.isBinaryExpression(node)) {
+      switch (node.operatorToken.kind) {
+        case ts.SyntaxKind.AsteriskAsteriskToken:
+        case ts.SyntaxKind.AsteriskAsteriskEqualsToken:
+          syntax('exponentiation', node);
+          break;
+        case ts.SyntaxKind.QuestionQuestionToken:
+          syntax('nullish-coalescing', node);
+          break;
+        case ts.SyntaxKind.BarBarEqualsToken:
+        case ts.SyntaxKind.AmpersandAmpersandEqualsToken:
+        case ts.SyntaxKind.QuestionQuestionEqualsToken:
+          syntax('logical-assignment', node);
+          break;
+        case ts.SyntaxKind.EqualsToken:
+          if (ts.isObjectLiteralExpression(node.left) || ts.isArrayLiteralExpression(node.left)) {
+            syntax('destructuring', node);
+          }
+          break;
+      }
+    }
+
+    if (ts.isSpreadAssignment(node)) syntax('object-rest-spread', node);
+    if (ts.isBindingElement(node) && node.dotDotDotToken && ts.isObjectBindingPattern(node.parent)) {
+      syntax('object-rest-spread', node);
+    }
+    if (ts.isCatchClause(node) && !node.variableDeclaration) syntax('optional-catch-binding', node);
+    if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      syntax('dynamic-import', node);
+    }
+    if (ts.isBigIntLiteral(node)) syntax('bigint', node);
+    if ((ts.isNumericLiteral(node) || ts.isBigIntLiteral(node)) && node.getText(sourceFile).includes('_')) {
+      syntax('numeric-separators', node);
+    }
+    if (
+      (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)) &&
+      node.questionDotToken
+    ) {
+      syntax('optional-chaining', node);
+    }
+
+    if (ts.isPropertyDeclaration(node) && node.initializer && !hasModifier(node, ts.SyntaxKind.DeclareKeyword)) {
+      syntax('class-fields', node);
+    }
+    if (ts.isPrivateIdentifier(node)) syntax('private-class-members', node);
+    if (ts.isClassStaticBlockDeclaration(node)) syntax('class-static-blocks', node);
+
+    if (ts.isRegularExpressionLiteral(node)) {
+      if (/\(\?<[=!]/.test(node.text)) syntax('regexp-lookbehind', node);
+      if (/\(\?<[A-Za-z_$]/.test(node.text)) syntax('regexp-named-groups', node);
+    }
+
+    // APIs are never transpiled, so they count regardless of the language
+    if (ts.isIdentifier(node) && GLOBAL_APIS[node.text] && !declared.has(node.text) && isReference(node)) {
+      api(GLOBAL_APIS[node.text]!, node, 0.9);
+    }
+    if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)) {
+      const object = node.expression.text;
+      const member = node.name.text;
+      const staticApi = STATIC_APIS[`${object}.${member}`];
+
+      if (staticApi && !declared.has(object)) {
+        api(staticApi, node, 0.9);
+      } else if (GLOBAL_OBJECTS.includes(object) && GLOBAL_APIS[member] && !declared.has(object)) {
+        api(GLOBAL_APIS[member]!, node, 0.9);
+      }
+    }
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && METHOD_APIS[node.expression.name.text]) {
+      api(METHOD_APIS[node.expression.name.text]!, node.expression.name, 0.6);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+}
+
+function positionOfCss(node: CssNode): { line: number; column: number } {
+  return { line: node.source?.start?.line ?? 1, column: node.source?.start?.column ?? 1 };
+}
+
+function insideSupports(node: CssNode): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'atrule' && (current as AtRule).name.toLowerCase() === 'supports') return true;
+  }
+  return false;
+}
+
+function siblingDeclarations(declaration: Declaration): Declaration[] {
+  return (declaration.parent?.nodes ?? []).filter(
+    (node: ChildNode): node is Declaration => node.type === 'decl' && node !== declaration
+  );
+}
+
+// The features one declaration uses, with the confidence of each
+function declarationFeatures(declaration: Declaration): { feature: string; confidence: number }[] {
+  const prop = declaration.prop.toLowerCase().replace(VENDOR_PREFIX, '');
+  const value = declaration.value.toLowerCase();
+  const features: { feature: string; confidence: number }[] = [];
+  const add = (feature: string, confidence = 0.95) => features.push({ feature, confidence });
+
+  if (prop === 'backdrop-filter') add('css-backdrop-filter');
+  if (prop === 'gap' || prop === 'row-gap' || prop === 'column-gap') {
+    // gap has worked in grid layouts far longer than in flex layouts
+    const display = siblingDeclarations(declaration).find(sibling => sibling.prop.toLowerCase() === 'display');
+    const layout = display?.value.toLowerCase() ?? '';
+    if (layout.includes('flex')) add('flexbox-gap');
+    else if (!layout.includes('grid')) add('flexbox-gap', 0.5);
+  }
+  if (prop === 'display' && /^(inline-)?grid$/.test(value)) add('css-grid');
+  if (/^grid-template-(columns|rows)$/.test(prop) && value.includes('subgrid')) add('css-subgrid');
+  if (prop === 'aspect-ratio') add('css-aspect-ratio');
+  if (/^container(-type|-name)?$/.test(prop)) add('css-container-queries');
+  if (prop === 'position' && /^(-webkit-)?sticky$/.test(value)) add('css-sticky');
+  if (prop.startsWith('overscroll-behavior')) add('css-overscroll-behavior');
+  if (prop.startsWith('scroll-snap-')) add('css-snappoints');
+  if (prop === 'accent-color') add('css-accent-color');
+  if ((prop === 'text-wrap' || prop === 'text-wrap-style') && value === 'balance') add('css-text-wrap-balance');
+  if (prop === 'inset') add('css-inset');
+  if (prop.startsWith('--') || value.includes('var(')) add('css-variables');
+  if (/(^|[^\w-])(min|max|clamp)\(/.test(value)) add('css-math-functions');
+  if (/(^|[^\w-])(oklch|oklab|lab|lch)\(/.test(value)) add('css-oklab');
+  if (/\d(dv|sv|lv)(h|w|min|max)\b/.test(value)) add('viewport-unit-variants');
+
+  return features;
+}
+
+// Whether a declaration is written with a vendor prefix, or has a prefixed twin in the same rule
+function isPrefixed(declaration: Declaration): boolean {
+  const prop = declaration.prop.toLowerCase();
+  const value = declaration.value.toLowerCase();
+  if (VENDOR_PREFIX.test(prop) || VENDOR_PREFIX.test(value)) return true;
+
+  return siblingDeclarations(declaration).some(sibling => {
+    const siblingProp = sibling.prop.toLowerCase();
+    return (
+      (VENDOR_PREFIX.test(siblingProp) && siblingProp.replace(VENDOR_PREFIX, '') === prop) ||
+      (siblingProp === prop && VENDOR_PREFIX.test(sibling.value.toLowerCase()))
+    );
+  });
+}
+
+// A prefixed declaration next to its standard form is reported through the standard one
+function hasStandardTwin(declaration: Declaration): boolean {
+  const prop = declaration.prop.toLowerCase();
+  const value = declaration.value.toLowerCase();
+
+  return siblingDeclarations(declaration).some(sibling => {
+    const siblingProp = sibling.prop.toLowerCase();
+    if (VENDOR_PREFIX.test(prop)) return siblingProp === prop.replace(VENDOR_PREFIX, '');
+    return VENDOR_PREFIX.test(value) && siblingProp === prop && !VENDOR_PREFIX.test(sibling.value.toLowerCase());
+  });
+}
+
+function detectStyleFeatures(fileName: string, content: string): SourceFeatureUsage[] {
+  // Throws a CssSyntaxError with the line and column of the problem
+  const root = postcss.parse(content, { from: fileName });
+  const collector = new UsageCollector(fileName, 'css', content);
+
+  root.walkDecls(declaration => {
+    if (hasStandardTwin(declaration)) return;
+
+    const flags = { prefixed: isPrefixed(declaration), guarded: insideSupports(declaration) };
+    for (const { feature, confidence } of declarationFeatures(declaration)) {
+      collector.add(feature, 'css', positionOfCss(declaration), confidence, flags);
+    }
+  });
+
+  root.walkRules(rule => {
+    const selector = rule.selector.toLowerCase();
+    const flags = { guarded: insideSupports(rule) };
+    const add = (feature: string) => collector.add(feature, 'css', positionOfCss(rule), 0.95, flags);
+
+    if (selector.includes(':has(')) add('css-has');
+    if (/:(is|where)\(/.test(selector)) add('css-matches-pseudo');
+    if (/:focus-visible\b/.test(selector)) add('css-focus-visible');
+    if (rule.parent?.type === 'rule') add('css-nesting');
+  });
+
+  root.walkAtRules(atRule => {
+    const name = atRule.name.toLowerCase();
+    const flags = { guarded: insideSupports(atRule) };
+
+    if (name === 'container') collector.add('css-container-queries', 'css', positionOfCss(atRule), 0.95, flags);
+    if (name === 'layer') collector.add('css-cascade-layers', 'css', positionOfCss(atRule), 0.95, flags);
+  });
+
+  return collector.usages.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Detect the browser features a source file uses, and in scripts the
+ * deprecated APIs and unsafe type escapes.
+ * Throws when the file is not a supported source file, or its CSS does not parse.
+ */
+export function detectFeatures(
+  fileName: string,
+  content: string,
+  language: SourceLanguage | null = detectSourceLanguage(fileName)
+): SourceFeatureUsage[] {
+  if (!language) {
+    throw new Error(`Unsupported source file: ${fileName}`);
+  }
+
+  if (language === 'css') {
+    return detectStyleFeatures(fileName, content);
+  }
+
+  const sourceFile = parseScript(fileName, content);
+  const collector = new UsageCollector(fileName, language, content);
+  const declared = declaredNames(sourceFile);
+
+  detectScriptFeatures(sourceFile, collector, language, declared);
+  detectApiUsages(sourceFile, collector, language, declared);
+
+  return collector.usages.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,60 @@
+import * as ts from 'typescript';
+
+// Helpers shared by the analyzers that walk TypeScript compiler syntax trees
+
+function scriptKindOf(fileName: string): ts.ScriptKind {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (name.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.[mc]?ts$/.test(name)) return ts.ScriptKind.TS;
+  return ts.ScriptKind.JS;
+}
+
+// Parse a JavaScript or TypeScript file; the parser recovers from syntax errors, so this never throws
+export function parseScript(fileName: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKindOf(fileName));
+}
+
+// 1-based line and column of where a node starts
+export function positionOf(sourceFile: ts.SourceFile, node: ts.Node): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { line: line + 1, column: character + 1 };
+}
+
+export function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === kind);
+}
+
+// Whether an identifier refers to a value, rather than naming a property or a declaration
+export function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isShorthandPropertyAssignment(parent)) return true;
+  return !('name' in parent && (parent as { name?: ts.Node }).name === node);
+}
+
+// Names declared anywhere in the file; a local `fetch` or `Promise` shadows the global one
+export function declaredNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (node: ts.Node): void => {
+    if (
+      (ts.isVariableDeclaration(node) ||
+        ts.isFunctionDeclaration(node) ||
+        ts.isClassDeclaration(node) ||
+        ts.isParameter(node) ||
+        ts.isBindingElement(node) ||
+        ts.isImportClause(node) ||
+        ts.isImportSpecifier(node) ||
+        ts.isNamespaceImport(node) ||
+        ts.isImportEqualsDeclaration(node)) &&
+      node.name &&
+      ts.isIdentifier(node.name)
+    ) {
+      names.add(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return names;
+}
@@ -0,0 +1,110 @@
+import path from 'path';
+import semver from 'semver';
+import { parseBrowserslistConfig } from './browserslist';
+import { ProjectConfig, SourceLanguage } from './types';
+
+const SOURCE_EXTENSIONS: Record<string, SourceLanguage> = {
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascript',
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'typescript',
+  '.css': 'css',
+};
+
+// Project files that configure the analysis rather than being analyzed
+const PROJECT_CONFIG_FILES = ['package.json', '.browserslistrc', 'browserslist', 'pyproject.toml'];
+
+/**
+ * Detect the language of a source file from its name.
+ * Declaration files are skipped: they describe types and never run.
+ */
+export function detectSourceLanguage(fileName: string): SourceLanguage | null {
+  const name = path.basename(fileName).toLowerCase();
+  if (/\.d\.[mc]?ts$/.test(name)) return null;
+
+  return SOURCE_EXTENSIONS[path.extname(name)] ?? null;
+}
+
+export function isProjectConfigFileName(fileName: string): boolean {
+  return PROJECT_CONFIG_FILES.includes(path.basename(fileName).toLowerCase());
+}
+
+/**
+ * Convert a PEP 440 version specifier such as ">=3.9,<4" or "~=3.10" to a
+ * semver range; null when a clause has no semver equivalent
+ */
+export function pep440ToSemverRange(specifier: string): string | null {
+  const clauses: string[] = [];
+
+  for (const clause of specifier.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = clause.match(/^(~=|===|==|!=|>=|<=|>|<)\s*([\w.*+!-]+)$/);
+    if (!match) return null;
+    const operator = match[1]!;
+    const version = match[2]!;
+
+    if (operator === '!=') continue;
+    if (operator === '~=') {
+      const parts = version.split('.');
+      if (parts.length < 2) return null;
+      // ~=3.10 allows 3.x from 3.10 on; ~=3.10.2 allows 3.10.x from 3.10.2 on
+      clauses.push(parts.length === 2 ? `^${version}` : `~${version}`);
+    } else if (operator === '==' || operator === '===') {
+      clauses.push(version.replace(/\.\*$/, '.x'));
+    } else {
+      clauses.push(`${operator}${version}`);
+    }
+  }
+
+  const range = clauses.join(' ');
+  return range && semver.validRange(range) ? range : null;
+}
+
+function parsePyproject(content: string): ProjectConfig {
+  // requires-python sits in the [project] table; the file is not otherwise needed, so TOML is not parsed in full
+  const requiresPython = content.match(/^\s*requires-python\s*=\s*(['"])([^'"]+)\1/m)?.[2];
+  const python = requiresPython ? pep440ToSemverRange(requiresPython) : null;
+  return python ? { runtimes: { python } } : {};
+}
+
+/**
+ * Read the browserslist and runtime requirements of a project from its
+ * package.json or pyproject.toml, or the queries of a .browserslistrc file
+ */
+export function parseProjectConfig(fileName: string, content: string): ProjectConfig {
+  if (path.basename(fileName).toLowerCase() === 'pyproject.toml') {
+    return parsePyproject(content);
+  }
+
+  if (path.extname(fileName).toLowerCase() !== '.json') {
+    const browserslist = parseBrowserslistConfig(content);
+    return browserslist ? { browserslist } : {};
+  }
+
+  let pkg: unknown;
+  try {
+    pkg = JSON.parse(content);
+  } catch {
+    throw new Error(`${path.basename(fileName)} is not valid JSON`);
+  }
+  if (!pkg || typeof pkg !== 'object' || Array.isArray(pkg)) {
+    throw new Error(`${path.basename(fileName)} is not a package.json object`);
+  }
+
+  const { browserslist, engines } = pkg as { browserslist?: unknown; engines?: Record<string, unknown> };
+  const queries = parseBrowserslistConfig(browserslist);
+  const nodeEngine = engines && typeof engines.node === 'string' ? engines.node : undefined;
+  const runtimes = Object.fromEntries(
+    Object.entries(engines && typeof engines === 'object' ? engines : {})
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+
+  return {
+    ...(queries ? { browserslist: queries } : {}),
+    ...(nodeEngine ? { nodeEngine } : {}),
+    ...(Object.keys(runtimes).length > 0 ? { runtimes } : {}),
+  };
+}
@@ -0,0 +1,44 @@
+// Source analysis types shared by the source parsers and the checks run on their output
+
+export type SourceLanguage = 'javascript' | 'typescript' | 'css';
+
+// How a detected feature was recognized; syntax can be transpiled away, APIs cannot.
+// Deprecated APIs and type-safety escapes are reported regardless of browser targets.
+export type FeatureKind = 'syntax' | 'api' | 'css' | 'deprecated' | 'type-safety';
+
+// One use of a language or CSS feature, or of a deprecated API, in an uploaded source file
+export interface SourceFeatureUsage {
+  // Feature id from BROWSER_FEATURES, API id from DEPRECATED_APIS or a TypeSafetyCheck
+  feature: string;
+  kind: FeatureKind;
+  language: SourceLanguage;
+  // Uploaded file name
+  file: string;
+  line: number;
+  column: number;
+  // The code that uses the feature, trimmed to one line
+  snippet: string;
+  // Written with a vendor prefix, or next to a prefixed fallback in the same rule
+  prefixed?: boolean;
+  // Inside an @supports block, so browsers without the feature get a fallback
+  guarded?: boolean;
+  // How sure the detector is that this is the feature, e.g. a method name called on an unknown type
+  confidence: number;
+}
+
+// Project settings read from an uploaded package.json or .browserslistrc
+export interface ProjectConfig {
+  // Browserslist queries the front-end code must support
+  browserslist?: string[];
+  // engines.node of package.json
+  nodeEngine?: string;
+  // Version ranges of the runtimes the application requires, keyed by runtime (node, python, openssl):
+  // package.json engines and pyproject.toml requires-python, the latter converted to a semver range
+  runtimes?: Record<string, string>;
+}
+
+// A browser release the project targets, e.g. { browser: 'safari', version: '17.6' }
+export interface BrowserTarget {
+  browser: string;
+  version: string;
+}
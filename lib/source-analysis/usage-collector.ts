@@ -0,0 +1,48 @@
+import { FeatureKind, SourceFeatureUsage, SourceLanguage } from './types';
+
+const MAX_SNIPPET_LENGTH = 120;
+
+function snippetOf(lines: string[], line: number): string {
+  const text = (lines[line - 1] ?? '').trim();
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 3)}...` : text;
+}
+
+// Collects usages, keeping one per feature and line
+export class UsageCollector {
+  readonly usages: SourceFeatureUsage[] = [];
+  private readonly seen = new Set<string>();
+  private readonly lines: string[];
+
+  constructor(
+    private readonly file: string,
+    private readonly language: SourceLanguage,
+    content: string
+  ) {
+    this.lines = content.split(/\r?\n/);
+  }
+
+  add(
+    feature: string,
+    kind: FeatureKind,
+    position: { line: number; column: number },
+    confidence: number,
+    flags: { prefixed?: boolean; guarded?: boolean } = {}
+  ): void {
+    const key = `${feature}:${position.line}`;
+    if (this.seen.has(key)) return;
+    this.seen.add(key);
+
+    this.usages.push({
+      feature,
+      kind,
+      language: this.language,
+      file: this.file,
+      line: position.line,
+      column: position.column,
+      snippet: snippetOf(this.lines, position.line),
+      ...(flags.prefixed ? { prefixed: true } : {}),
+      ...(flags.guarded ? { guarded: true } : {}),
+      confidence,
+    });
+  }
+}
@@ -4,12 +4,24 @@ import path from 'path';
 import crypto from 'crypto';
 import Papa from 'papaparse';
 import { z } from 'zod';
+import { detectManifestType, parseManifest } from '@/lib/inventory/manifest-parsers';
+import { detectSbomFileName, parseSbom } from '@/lib/inventory/sbom-parsers';
+import { isSarifFileName, isSarifLog, sarifToSecurityLogEntries } from './sarif-import';
+import type { InventoryComponent } from '@/lib/inventory/types';
+import { detectSourceLanguage, isProjectConfigFileName, parseProjectConfig } from '@/lib/source-analysis/source-files';
+import { detectFeatures } from '@/lib/source-analysis/feature-detection';
+import type { ProjectConfig, SourceFeatureUsage } from '@/lib/source-analysis/types';
+import { isKubernetesManifestFileName, parseKubernetesManifest } from '@/lib/kubernetes/manifest-parser';
+import type { KubernetesResource } from '@/lib/kubernetes/types';
 
 // File upload configuration
 export const UPLOAD_CONFIG = {
   maxFileSize: 50 * 1024 * 1024, // 50MB
-  allowedTypes: ['application/json', 'text/csv', 'application/csv'],
-  allowedExtensions: ['.json', '.csv'],
+  allowedTypes: ['application/json', 'text/csv', 'application/csv', 'application/sarif+json'],
+  allowedExtensions: ['.json', '.csv', '.sarif'],
+  // Dependency manifests and SBOMs are recognized by file name instead
+  // (see detectManifestType and detectSbomFileName), and source files by extension
+  // (see detectSourceLanguage), and Kubernetes manifests by their YAML extension
   uploadDir: process.cwd() + '/uploads',
   tempDir: process.cwd() + '/temp',
 } as const;
@@ -26,6 +38,33 @@ const FileMetadataSchema = z.object({
 
 export type FileMetadata = z.infer<typeof FileMetadataSchema>;
 
+export type UploadDataType =
+  | 'security_log'
+  | 'compatibility_data'
+  | 'dependency_manifest'
+  | 'sbom'
+  | 'source_code'
+  | 'kubernetes_manifest';
+
+const UPLOAD_DATA_TYPES: UploadDataType[] = [
+  'security_log',
+  'compatibility_data',
+  'dependency_manifest',
+  'sbom',
+  'source_code',
+  'kubernetes_manifest',
+];
+
+// Map a client-supplied data type onto a supported one
+export function normalizeDataType(value: unknown): UploadDataType {
+  return UPLOAD_DATA_TYPES.find(dataType => dataType === value) ?? 'security_log';
+}
+
+// Data types whose entries are inventory components rather than log rows
+export function isInventoryDataType(dataType: UploadDataType): boolean {
+  return dataType === 'dependency_manifest' || dataType === 'sbom';
+}
+
 // File validation schema for security scanning logs
 const SecurityLogSchema = z.object({
   timestamp: z.string(),
@@ -93,6 +132,18 @@ export function validateFileType(file: File): void {
   const fileType = file.type;
   const extension = path.extname(file.name).toLowerCase();
 
+  // Browsers report anything from text/plain to an empty type for lockfiles, SBOMs, SARIF, source files and YAML
+  if (
+    detectManifestType(file.name) ||
+    detectSbomFileName(file.name) ||
+    isSarifFileName(file.name) ||
+    detectSourceLanguage(file.name) ||
+    isProjectConfigFileName(file.name) ||
+    isKubernetesManifestFileName(file.name)
+  ) {
+    return;
+  }
+
   if (!UPLOAD_CONFIG.allowedTypes.includes(fileType)) {
     throw new FileUploadError(
       `Invalid file type: ${fileType}. Allowed types: ${UPLOAD_CONFIG.allowedTypes.join(', ')}`,
@@ -141,11 +192,16 @@ export async function parseJsonFile(filePath: string): Promise<any[]> {
     const fs = await import('fs/promises');
     const content = await fs.readFile(filePath, 'utf-8');
     const data = JSON.parse(content);
+
+    // SARIF logs from code scanners become one security log row per result
+    if (isSarifLog(data)) {
+      return sarifToSecurityLogEntries(data);
+    }
     
     // Ensure data is an array
     if (!Array.isArray(data)) {
       throw new FileUploadError(
-        'JSON file must contain an array of objects',
+        'JSON file must contain an array of objects or a SARIF log',
         'INVALID_JSON_FORMAT'
       );
     }
@@ -199,9 +255,9 @@ export async function parseCsvFile(filePath: string): Promise<any[]> {
 }
 
 // Validate security log data
-export function validateSecurityLogData(data: any[]): SecurityLogEntry[] {
+export function validateSecurityLogData(data: any[], rowErrors?: string[]): SecurityLogEntry[] {
   const validatedData: SecurityLogEntry[] = [];
-  const errors: string[] = [];
+  const errors: string[] = rowErrors ?? [];
   
   data.forEach((item, index) => {
     try {
@@ -227,9 +283,9 @@ export function validateSecurityLogData(data: any[]): SecurityLogEntry[] {
 }
 
 // Validate compatibility data
-export function validateCompatibilityData(data: any[]): CompatibilityDataEntry[] {
+export function validateCompatibilityData(data: any[], rowErrors?: string[]): CompatibilityDataEntry[] {
   const validatedData: CompatibilityDataEntry[] = [];
-  const errors: string[] = [];
+  const errors: string[] = rowErrors ?? [];
   
   data.forEach((item, index) => {
     try {
@@ -254,22 +310,191 @@ export function validateCompatibilityData(data: any[]): CompatibilityDataEntry[]
   return validatedData;
 }
 
+// Parse a dependency manifest into its component inventory
+export async function parseManifestFile(filePath: string, originalName: string): Promise<{
+  components: InventoryComponent[];
+  warnings: string[];
+}> {
+  const manifestType = detectManifestType(originalName);
+  if (!manifestType) {
+    throw new FileUploadError(
+      `Unsupported dependency manifest: ${originalName}`,
+      'UNSUPPORTED_MANIFEST'
+    );
+  }
+
+  let content: string;
+  try {
+    const fs = await import('fs/promises');
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    throw new FileUploadError(
+      'Failed to read dependency manifest',
+      'MANIFEST_READ_ERROR'
+    );
+  }
+
+  try {
+    const { components, warnings } = parseManifest(originalName, content, manifestType);
+    return { components, warnings };
+  } catch (error) {
+    throw new FileUploadError(
+      error instanceof Error ? error.message : 'Failed to parse dependency manifest',
+      'MANIFEST_PARSE_ERROR'
+    );
+  }
+}
+
+// Parse a CycloneDX or SPDX SBOM into its component inventory
+export async function parseSbomFile(filePath: string): Promise<{
+  components: InventoryComponent[];
+  warnings: string[];
+}> {
+  let content: string;
+  try {
+    const fs = await import('fs/promises');
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    throw new FileUploadError(
+      'Failed to read SBOM',
+      'SBOM_READ_ERROR'
+    );
+  }
+
+  try {
+    const { components, warnings } = parseSbom(content);
+    return { components, warnings };
+  } catch (error) {
+    throw new FileUploadError(
+      error instanceof Error ? error.message : 'Failed to parse SBOM',
+      'SBOM_PARSE_ERROR'
+    );
+  }
+}
+
+// Detect the browser features a source file uses, or read the settings of a project config file
+export async function parseSourceFile(filePath: string, originalName: string): Promise<{
+  usages: SourceFeatureUsage[];
+  projectConfig?: ProjectConfig;
+}> {
+  // Under the source code data type any JSON file is taken to be the project's package.json
+  const isProjectConfig = isProjectConfigFileName(originalName) || path.extname(originalName).toLowerCase() === '.json';
+  const language = detectSourceLanguage(originalName);
+  if (!isProjectConfig && !language) {
+    throw new FileUploadError(
+      `Unsupported source file: ${originalName}. Upload JavaScript, TypeScript or CSS, or a package.json, pyproject.toml or .browserslistrc`,
+      'UNSUPPORTED_SOURCE'
+    );
+  }
+
+  let content: string;
+  try {
+    const fs = await import('fs/promises');
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    throw new FileUploadError(
+      'Failed to read source file',
+      'SOURCE_READ_ERROR'
+    );
+  }
+
+  try {
+    if (isProjectConfig) {
+      return { usages: [], projectConfig: parseProjectConfig(originalName, content) };
+    }
+    return { usages: detectFeatures(originalName, content, language) };
+  } catch (error) {
+    throw new FileUploadError(
+      error instanceof Error ? error.message : 'Failed to parse source file',
+      'SOURCE_PARSE_ERROR'
+    );
+  }
+}
+
+// Read the resources of a Kubernetes manifest, including multi-document and Helm-rendered YAML
+export async function parseKubernetesFile(filePath: string, originalName: string): Promise<{
+  resources: KubernetesResource[];
+  warnings: string[];
+}> {
+  let content: string;
+  try {
+    const fs = await import('fs/promises');
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    throw new FileUploadError(
+      'Failed to read Kubernetes manifest',
+      'KUBERNETES_READ_ERROR'
+    );
+  }
+
+  try {
+    return parseKubernetesManifest(originalName, content);
+  } catch (error) {
+    throw new FileUploadError(
+      error instanceof Error ? error.message : 'Failed to parse Kubernetes manifest',
+      'KUBERNETES_PARSE_ERROR'
+    );
+  }
+}
+
 // Process uploaded file
 export async function processUploadedFile(
   filePath: string,
   fileType: string,
-  dataType: 'security_log' | 'compatibility_data' = 'security_log'
+  dataType: UploadDataType = 'security_log',
+  originalName: string = path.basename(filePath)
 ): Promise<{
   totalRows: number;
   validRows: number;
   invalidRows: number;
-  data: SecurityLogEntry[] | CompatibilityDataEntry[];
+  data: SecurityLogEntry[] | CompatibilityDataEntry[] | InventoryComponent[] | SourceFeatureUsage[] | KubernetesResource[];
   errors?: string[];
+  // Settings read from a package.json or .browserslistrc uploaded as source code
+  projectConfig?: ProjectConfig;
 }> {
+  // Source files yield one entry per detected feature usage
+  if (dataType === 'source_code') {
+    const { usages, projectConfig } = await parseSourceFile(filePath, originalName);
+    return {
+      totalRows: usages.length,
+      validRows: usages.length,
+      invalidRows: 0,
+      data: usages,
+      ...(projectConfig ? { projectConfig } : {}),
+    };
+  }
+
+  // Kubernetes manifests yield one entry per resource
+  if (dataType === 'kubernetes_manifest') {
+    const { resources, warnings } = await parseKubernetesFile(filePath, originalName);
+    return {
+      totalRows: resources.length,
+      validRows: resources.length,
+      invalidRows: 0,
+      data: resources,
+      ...(warnings.length > 0 ? { errors: warnings } : {}),
+    };
+  }
+
+  // Manifests and SBOMs are not row-based; every parsed component counts as a valid row
+  if (isInventoryDataType(dataType)) {
+    const { components, warnings } = dataType === 'sbom'
+      ? await parseSbomFile(filePath)
+      : await parseManifestFile(filePath, originalName);
+    return {
+      totalRows: components.length,
+      validRows: components.length,
+      invalidRows: 0,
+      data: components,
+      ...(warnings.length > 0 ? { errors: warnings } : {}),
+    };
+  }
+
   let rawData: any[];
   
-  // Parse file based on type
-  if (fileType === 'application/json') {
+  // Parse file based on type, falling back to the extension for generic MIME types
+  const extension = path.extname(filePath).toLowerCase();
+  if (fileType === 'application/json' || fileType === 'application/sarif+json' || extension === '.json' || extension === '.sarif') {
     rawData = await parseJsonFile(filePath);
   } else {
     rawData = await parseCsvFile(filePath);
@@ -279,12 +504,15 @@ export async function processUploadedFile(
   let validatedData: SecurityLogEntry[] | CompatibilityDataEntry[];
   let validationErrors: string[] = [];
   
+  const rowErrors: string[] = [];
+  
   try {
     if (dataType === 'security_log') {
-      validatedData = validateSecurityLogData(rawData);
+      validatedData = validateSecurityLogData(rawData, rowErrors);
     } else {
-      validatedData = validateCompatibilityData(rawData);
+      validatedData = validateCompatibilityData(rawData, rowErrors);
     }
+    validationErrors = rowErrors;
   } catch (error) {
     if (error instanceof FileUploadError) {
       // Try to extract partial data if possible
@@ -315,7 +543,7 @@ export async function cleanupTempFile(filePath: string): Promise<void> {
 }
 
 // Scan file for malware/security issues
-export async function scanFileForSecurity(filePath: string): Promise<{
+export async function scanFileForSecurity(filePath: string, dataType?: UploadDataType): Promise<{
   safe: boolean;
   issues: string[];
 }> {
@@ -339,6 +567,11 @@ export async function scanFileForSecurity(filePath: string): Promise<{
     
     const content = buffer.toString('utf8');
     
+    // Source code legitimately contains script tags, event handlers and eval; it is parsed, never executed
+    if (dataType === 'source_code') {
+      return { safe: true, issues };
+    }
+    
     // Basic security checks
     const suspiciousPatterns = [
       /<script[\s\S]*?>[\s\S]*?<\/script>/gi,
@@ -386,9 +619,21 @@ export async function extractFileFromRequest(request: NextRequest): Promise<{
     );
   }
   
-  // Extract additional metadata
+  // Extract additional metadata; known manifest, SBOM, source file and YAML names are always scanned as such.
+  // package.json is both a manifest and project config, so it stays source code when uploaded as such
+  const asProjectConfig = isProjectConfigFileName(file.name) && formData.get('dataType') === 'source_code';
   const metadata = {
-    dataType: formData.get('dataType') || 'security_log',
+    dataType: detectManifestType(file.name) && !asProjectConfig
+      ? 'dependency_manifest' as const
+      : detectSbomFileName(file.name)
+        ? 'sbom' as const
+        : isSarifFileName(file.name)
+          ? 'security_log' as const
+          : detectSourceLanguage(file.name) || isProjectConfigFileName(file.name)
+            ? 'source_code' as const
+            : isKubernetesManifestFileName(file.name)
+              ? 'kubernetes_manifest' as const
+              : normalizeDataType(formData.get('dataType')),
     description: formData.get('description') || '',
     tags: formData.get('tags') ? JSON.parse(formData.get('tags') as string) : [],
   };
@@ -405,7 +650,9 @@ export async function handleFileUpload(
   fileId: string;
   originalName: string;
   fileName: string;
+  fileType: string;
   fileSize: number;
+  dataType: UploadDataType;
   processResult: Awaited<ReturnType<typeof processUploadedFile>>;
 }> {
   const { file, metadata } = await extractFileFromRequest(request);
@@ -422,7 +669,7 @@ export async function handleFileUpload(
   const filePath = await saveFile(file, fileName);
   
   // Security scan
-  const securityScan = await scanFileForSecurity(filePath);
+  const securityScan = await scanFileForSecurity(filePath, metadata.dataType);
   if (!securityScan.safe) {
     await cleanupTempFile(filePath);
     throw new FileUploadError(
@@ -436,14 +683,17 @@ export async function handleFileUpload(
     const processResult = await processUploadedFile(
       filePath,
       file.type,
-      metadata.dataType
+      metadata.dataType,
+      file.name
     );
     
     return {
       fileId,
       originalName: file.name,
       fileName,
+      fileType: file.type,
       fileSize: file.size,
+      dataType: metadata.dataType,
       processResult,
     };
     
@@ -0,0 +1,142 @@
+// SARIF 2.1.0 (https://docs.oasis-open.org/sarif/sarif/v2.1.0/) mapped onto security log rows
+
+export interface SarifLocation {
+  uri: string;
+  uriBaseId?: string;
+  startLine?: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+// SARIF levels, and what they mean when a rule has no security-severity score
+const LEVEL_SEVERITIES: Record<string, 'low' | 'medium' | 'high'> = {
+  error: 'high',
+  warning: 'medium',
+  note: 'low',
+  none: 'low',
+};
+
+/**
+ * Recognize a SARIF file by name: results.sarif or results.sarif.json
+ */
+export function isSarifFileName(fileName: string): boolean {
+  return /\.sarif(\.json)?$/i.test(fileName);
+}
+
+/**
+ * Recognize a parsed JSON document as a SARIF log
+ */
+export function isSarifLog(data: unknown): boolean {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+  const log = data as Record<string, unknown>;
+  return Array.isArray(log.runs) && (
+    (typeof log.version === 'string' && log.version.startsWith('2.')) ||
+    (typeof log.$schema === 'string' && log.$schema.toLowerCase().includes('sarif'))
+  );
+}
+
+// CodeQL and GitHub score security rules 0-10 under "security-severity"
+function scoreToSeverity(score: unknown): 'low' | 'medium' | 'high' | 'critical' | null {
+  const value = typeof score === 'string' ? parseFloat(score) : typeof score === 'number' ? score : NaN;
+  if (Number.isNaN(value)) return null;
+  if (value >= 9) return 'critical';
+  if (value >= 7) return 'high';
+  if (value >= 4) return 'medium';
+  return 'low';
+}
+
+// Fill "{0}"-style placeholders from message arguments
+function formatMessage(template: string, args: unknown[] = []): string {
+  return template.replace(/\{(\d+)\}/g, (placeholder, index) => {
+    const value = args[Number(index)];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+function resolveRule(run: any, result: any): any {
+  const reference = result.rule ?? {};
+  const componentIndex = reference.toolComponent?.index;
+  // CodeQL keeps query metadata on tool extensions rather than the driver
+  const rules: any[] = componentIndex !== undefined
+    ? run.tool?.extensions?.[componentIndex]?.rules ?? []
+    : run.tool?.driver?.rules ?? [];
+
+  const index = reference.index ?? result.ruleIndex;
+  if (typeof index === 'number' && rules[index]) return rules[index];
+
+  const id = result.ruleId ?? reference.id;
+  return rules.find(rule => rule.id === id);
+}
+
+function resolveLocations(result: any): SarifLocation[] {
+  return (Array.isArray(result.locations) ? result.locations : [])
+    .map((location: any) => location.physicalLocation)
+    .filter((physical: any) => physical?.artifactLocation?.uri)
+    .map((physical: any) => {
+      const region = physical.region ?? {};
+      return {
+        uri: physical.artifactLocation.uri,
+        ...(physical.artifactLocation.uriBaseId ? { uriBaseId: physical.artifactLocation.uriBaseId } : {}),
+        ...(region.startLine ? { startLine: region.startLine } : {}),
+        ...(region.startColumn ? { startColumn: region.startColumn } : {}),
+        ...(region.endLine ? { endLine: region.endLine } : {}),
+        ...(region.endColumn ? { endColumn: region.endColumn } : {}),
+      };
+    });
+}
+
+/**
+ * Convert every result of every run into a security log row. Rows still go
+ * through the security log schema, so this only maps fields.
+ */
+export function sarifToSecurityLogEntries(log: any): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+
+  for (const run of Array.isArray(log.runs) ? log.runs : []) {
+    const driver = run.tool?.driver ?? {};
+    const invocation = Array.isArray(run.invocations) ? run.invocations[0] : undefined;
+    const timestamp = invocation?.endTimeUtc ?? invocation?.startTimeUtc ?? new Date().toISOString();
+
+    for (const result of Array.isArray(run.results) ? run.results : []) {
+      const rule = resolveRule(run, result);
+      const ruleId: string = result.ruleId ?? result.rule?.id ?? rule?.id ?? 'sarif';
+      const level: string = result.level ?? rule?.defaultConfiguration?.level ?? 'warning';
+
+      const template = result.message?.text
+        ?? result.message?.markdown
+        ?? rule?.messageStrings?.[result.message?.id]?.text
+        ?? rule?.shortDescription?.text
+        ?? ruleId;
+
+      rows.push({
+        timestamp,
+        tool: driver.name ?? 'SARIF',
+        severity:
+          scoreToSeverity(result.properties?.['security-severity']) ??
+          scoreToSeverity(rule?.properties?.['security-severity']) ??
+          LEVEL_SEVERITIES[level] ??
+          'medium',
+        category: ruleId,
+        message: formatMessage(template, result.message?.arguments),
+        details: {
+          ruleId,
+          ...(rule?.name ? { ruleName: rule.name } : {}),
+          level,
+          ...(result.kind ? { kind: result.kind } : {}),
+          locations: resolveLocations(result),
+          ...(rule?.properties?.tags ? { tags: rule.properties.tags } : {}),
+          ...(rule?.helpUri ? { helpUri: rule.helpUri } : {}),
+          ...(result.partialFingerprints ?? result.fingerprints
+            ? { fingerprints: result.partialFingerprints ?? result.fingerprints }
+            : {}),
+          ...(driver.version ?? driver.semanticVersion
+            ? { toolVersion: driver.version ?? driver.semanticVersion }
+            : {}),
+        },
+      });
+    }
+  }
+
+  return rows;
+}
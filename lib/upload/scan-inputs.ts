@@ -0,0 +1,197 @@
+import path from 'path';
+import { writeFile } from 'fs/promises';
+import { db } from '@/lib/db/drizzle';
+import { fileUploads, FileUpload } from '@/lib/db/schema';
+import { and, inArray, eq, or } from 'drizzle-orm';
+import {
+  UPLOAD_CONFIG,
+  ensureUploadDirectories,
+  generateSecureFilename,
+  processUploadedFile,
+  normalizeDataType,
+  SecurityLogEntry,
+  CompatibilityDataEntry,
+  UploadDataType,
+} from './file-handler';
+import type { InventoryComponent } from '@/lib/inventory/types';
+import type { ProjectConfig, SourceFeatureUsage } from '@/lib/source-analysis/types';
+import type { KubernetesResource } from '@/lib/kubernetes/types';
+
+// Entries are handed to the analysis engine in batches to bound memory use
+export const SCAN_BATCH_SIZE = 500;
+
+// Cap the number of row errors persisted per file
+const MAX_REPORTED_ERRORS = 50;
+
+export type ScanDataType = UploadDataType;
+export type ScanEntry = SecurityLogEntry | CompatibilityDataEntry | InventoryComponent | SourceFeatureUsage | KubernetesResource;
+
+// A scan may reference uploads by id or by the objects returned from /api/upload
+export type ScanFileReference =
+  | number
+  | string
+  | { uploadId?: number | string; id?: number | string };
+
+export interface ScanFileMetrics {
+  uploadId: number;
+  originalName: string;
+  dataType: ScanDataType;
+  status: 'parsed' | 'failed';
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  parseErrors: string[];
+}
+
+export interface ScanInputBatch {
+  file: ScanFileMetrics;
+  entries: ScanEntry[];
+  // Set on the batch of a package.json or .browserslistrc uploaded as source code
+  projectConfig?: ProjectConfig;
+}
+
+// Extract upload ids from the `files` array posted to /api/scan
+export function normalizeFileReferences(files: unknown): number[] {
+  if (!Array.isArray(files)) return [];
+
+  const ids = files
+    .map((ref: ScanFileReference) => {
+      const raw = typeof ref === 'object' && ref !== null ? ref.uploadId ?? ref.id : ref;
+      const id = typeof raw === 'number' ? raw : parseInt(String(raw), 10);
+      return Number.isInteger(id) && id > 0 ? id : null;
+    })
+    .filter((id): id is number => id !== null);
+
+  return Array.from(new Set(ids));
+}
+
+// Load the referenced uploads the caller is allowed to scan
+export async function resolveScanUploads(
+  uploadIds: number[],
+  owner: { userId: number; organizationId?: number | undefined }
+): Promise<{ uploads: FileUpload[]; missing: number[] }> {
+  if (uploadIds.length === 0) {
+    return { uploads: [], missing: [] };
+  }
+
+  const uploads = await db
+    .select()
+    .from(fileUploads)
+    .where(
+      and(
+        inArray(fileUploads.id, uploadIds),
+        owner.organizationId
+          ? or(
+              eq(fileUploads.userId, owner.userId),
+              eq(fileUploads.organizationId, owner.organizationId)
+            )
+          : eq(fileUploads.userId, owner.userId)
+      )
+    );
+
+  const found = new Set(uploads.map(upload => upload.id));
+  // Preserve the order the caller listed the files in
+  const ordered = uploadIds
+    .map(id => uploads.find(upload => upload.id === id))
+    .filter((upload): upload is FileUpload => upload !== undefined);
+
+  return {
+    uploads: ordered,
+    missing: uploadIds.filter(id => !found.has(id)),
+  };
+}
+
+/**
+ * Store entries pulled from somewhere other than an upload, such as an
+ * integration sync, as a JSON upload of the owner so a scan can read them.
+ */
+export async function storeScanInput(
+  owner: { userId: number; organizationId?: number | undefined },
+  originalName: string,
+  dataType: ScanDataType,
+  entries: unknown[]
+): Promise<FileUpload> {
+  await ensureUploadDirectories();
+
+  const fileName = generateSecureFilename(originalName);
+  const content = JSON.stringify(entries);
+  await writeFile(path.join(UPLOAD_CONFIG.uploadDir, fileName), content);
+
+  const [upload] = await db
+    .insert(fileUploads)
+    .values({
+      userId: owner.userId,
+      organizationId: owner.organizationId ?? null,
+      fileName,
+      originalName,
+      fileType: 'application/json',
+      fileSize: Buffer.byteLength(content),
+      filePath: `uploads/${fileName}`,
+      dataType,
+      uploadStatus: 'completed',
+      processedAt: new Date(),
+    })
+    .returning();
+
+  if (!upload) {
+    throw new Error('Failed to save upload record');
+  }
+  return upload;
+}
+
+// Resolve the on-disk location of an upload without trusting the stored path
+export function resolveUploadPath(upload: Pick<FileUpload, 'fileName'>): string {
+  return path.join(UPLOAD_CONFIG.uploadDir, path.basename(upload.fileName));
+}
+
+// Parse and validate each upload, yielding its valid entries in batches.
+// Files that fail to parse yield a single empty batch carrying the error.
+export async function* readScanInputs(
+  uploads: FileUpload[]
+): AsyncGenerator<ScanInputBatch> {
+  for (const upload of uploads) {
+    const dataType: ScanDataType = normalizeDataType(upload.dataType);
+
+    const file: ScanFileMetrics = {
+      uploadId: upload.id,
+      originalName: upload.originalName,
+      dataType,
+      status: 'parsed',
+      totalRows: 0,
+      validRows: 0,
+      invalidRows: 0,
+      parseErrors: [],
+    };
+
+    let entries: ScanEntry[];
+    let projectConfig: ProjectConfig | undefined;
+    try {
+      const result = await processUploadedFile(
+        resolveUploadPath(upload),
+        upload.fileType,
+        dataType,
+        upload.originalName
+      );
+      entries = result.data;
+      projectConfig = result.projectConfig;
+      file.totalRows = result.totalRows;
+      file.validRows = result.validRows;
+      file.invalidRows = result.invalidRows;
+      file.parseErrors = (result.errors ?? []).slice(0, MAX_REPORTED_ERRORS);
+    } catch (error) {
+      file.status = 'failed';
+      file.parseErrors = [error instanceof Error ? error.message : 'Failed to read file'];
+      yield { file, entries: [] };
+      continue;
+    }
+
+    if (entries.length === 0) {
+      yield { file, entries: [], ...(projectConfig ? { projectConfig } : {}) };
+      continue;
+    }
+
+    for (let offset = 0; offset < entries.length; offset += SCAN_BATCH_SIZE) {
+      yield { file, entries: entries.slice(offset, offset + SCAN_BATCH_SIZE) };
+    }
+  }
+}
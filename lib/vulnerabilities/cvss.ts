@@ -0,0 +1,63 @@
+import type { AdvisorySeverity } from './types';
+
+// CVSS v3.x base metric weights (https://www.first.org/cvss/v3.1/specification-document#7-4-Metric-Values)
+const ATTACK_VECTOR: Record<string, number> = { N: 0.85, A: 0.62, L: 0.55, P: 0.2 };
+const ATTACK_COMPLEXITY: Record<string, number> = { L: 0.77, H: 0.44 };
+const USER_INTERACTION: Record<string, number> = { N: 0.85, R: 0.62 };
+const IMPACT: Record<string, number> = { H: 0.56, L: 0.22, N: 0 };
+
+// Privileges required weigh more when the scope changes
+const PRIVILEGES_REQUIRED: Record<'U' | 'C', Record<string, number>> = {
+  U: { N: 0.85, L: 0.62, H: 0.27 },
+  C: { N: 0.85, L: 0.68, H: 0.5 },
+};
+
+// CVSS 3.1 rounds up to one decimal, working around floating point error
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+/**
+ * Compute the base score of a CVSS v3.0 or v3.1 vector such as
+ * "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H". OSV records carry only the
+ * vector, so the score has to be derived locally. Returns null for other
+ * CVSS versions and malformed vectors.
+ */
+export function cvss3BaseScore(vector: string): number | null {
+  const [prefix, ...parts] = vector.trim().split('/');
+  if (!prefix || !/^CVSS:3\.[01]$/.test(prefix)) return null;
+
+  const metrics = new Map(parts.map(part => part.split(':') as [string, string]));
+  const scope = metrics.get('S');
+  if (scope !== 'U' && scope !== 'C') return null;
+
+  const av = ATTACK_VECTOR[metrics.get('AV') ?? ''];
+  const ac = ATTACK_COMPLEXITY[metrics.get('AC') ?? ''];
+  const pr = PRIVILEGES_REQUIRED[scope][metrics.get('PR') ?? ''];
+  const ui = USER_INTERACTION[metrics.get('UI') ?? ''];
+  const c = IMPACT[metrics.get('C') ?? ''];
+  const i = IMPACT[metrics.get('I') ?? ''];
+  const a = IMPACT[metrics.get('A') ?? ''];
+  if ([av, ac, pr, ui, c, i, a].some(weight => weight === undefined)) return null;
+
+  const iss = 1 - (1 - c!) * (1 - i!) * (1 - a!);
+  const impact = scope === 'U'
+    ? 6.42 * iss
+    : 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15);
+  if (impact <= 0) return 0;
+
+  const exploitability = 8.22 * av! * ac! * pr! * ui!;
+  const total = scope === 'U' ? impact + exploitability : 1.08 * (impact + exploitability);
+  return roundUp(Math.min(total, 10));
+}
+
+/**
+ * Qualitative severity for a CVSS score. Scores of 0 ("none") are reported as low.
+ */
+export function severityFromScore(score: number): AdvisorySeverity {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,407 @@
+import Papa from 'papaparse';
+import { XMLParser } from 'fast-xml-parser';
+import type { Ecosystem } from '@/lib/inventory/types';
+import { cvss3BaseScore, severityFromScore } from './cvss';
+import {
+  AdvisorySeverity,
+  AffectedPackage,
+  AffectedRange,
+  CpeBounds,
+  CweWeakness,
+  RangeEvent,
+  VulnerabilityAdvisory,
+} from './types';
+
+// Feed parsing error types
+export class FeedParseError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'FEED_PARSE_ERROR'
+  ) {
+    super(message);
+    this.name = 'FeedParseError';
+  }
+}
+
+export interface VulnerabilityFeed {
+  format: 'osv' | 'nvd' | 'cwe';
+  advisories: VulnerabilityAdvisory[];
+  weaknesses: CweWeakness[];
+  // Records that were skipped, with the reason
+  warnings: string[];
+}
+
+// OSV ecosystem names of the ecosystems the inventory parsers produce
+const OSV_ECOSYSTEMS: Record<string, Ecosystem> = {
+  'npm': 'npm',
+  'PyPI': 'pypi',
+  'Maven': 'maven',
+  'Go': 'go',
+  'RubyGems': 'rubygems',
+};
+
+// CPE target_sw values that identify a package ecosystem
+const CPE_TARGET_ECOSYSTEMS: Record<string, Ecosystem> = {
+  'node.js': 'npm',
+  'nodejs': 'npm',
+  'python': 'pypi',
+  'ruby': 'rubygems',
+  'rails': 'rubygems',
+  'go': 'go',
+  'golang': 'go',
+};
+
+// GitHub advisories in OSV rate severity without a CVSS vector
+const GHSA_SEVERITIES: Record<string, AdvisorySeverity> = {
+  CRITICAL: 'critical',
+  HIGH: 'high',
+  MODERATE: 'medium',
+  MEDIUM: 'medium',
+  LOW: 'low',
+};
+
+/**
+ * Normalize a package name for lookups. PyPI names compare per PEP 503,
+ * Go module paths are case-sensitive and everything else ignores case.
+ */
+export function normalizePackageName(ecosystem: string, name: string): string {
+  const trimmed = name.trim();
+  if (ecosystem === 'pypi') return trimmed.toLowerCase().replace(/[-_.]+/g, '-');
+  if (ecosystem === 'go') return trimmed;
+  return trimmed.toLowerCase();
+}
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
+
+function cveIdsOf(ids: string[]): string[] {
+  return unique(ids.filter(id => /^CVE-\d{4}-\d+$/i.test(id)).map(id => id.toUpperCase()));
+}
+
+// Several entries for the same package are folded into one
+function mergeAffected(entries: AffectedPackage[]): AffectedPackage[] {
+  const byKey = new Map<string, AffectedPackage>();
+  for (const entry of entries) {
+    const key = `${entry.ecosystem}:${entry.name}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.ranges.push(...entry.ranges);
+      existing.versions = unique([...existing.versions, ...entry.versions]);
+    } else {
+      byKey.set(key, { ...entry, ranges: [...entry.ranges], versions: unique(entry.versions) });
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+function parseOsvRecord(record: any): VulnerabilityAdvisory {
+  if (!record || typeof record.id !== 'string') {
+    throw new FeedParseError('OSV record has no id');
+  }
+
+  const aliases = unique(Array.isArray(record.aliases) ? record.aliases.map(String) : []);
+
+  // Prefer a CVSS v3 vector; OSV does not carry the computed score
+  const cvss = (Array.isArray(record.severity) ? record.severity : [])
+    .filter((entry: any) => typeof entry?.score === 'string')
+    .map((entry: any) => ({ vector: entry.score as string, score: cvss3BaseScore(entry.score) }))
+    .find((entry: { score: number | null }) => entry.score !== null);
+
+  const ghsaSeverity = GHSA_SEVERITIES[String(record.database_specific?.severity ?? '').toUpperCase()];
+
+  const affected = (Array.isArray(record.affected) ? record.affected : [])
+    .filter((entry: any) => entry?.package?.name && entry.package.ecosystem)
+    .map((entry: any): AffectedPackage => {
+      const osvEcosystem = String(entry.package.ecosystem);
+      const ecosystem = OSV_ECOSYSTEMS[osvEcosystem] ?? osvEcosystem.toLowerCase();
+      return {
+        ecosystem,
+        name: normalizePackageName(ecosystem, String(entry.package.name)),
+        ranges: (Array.isArray(entry.ranges) ? entry.ranges : [])
+          .filter((range: any) => ['SEMVER', 'ECOSYSTEM', 'GIT'].includes(range?.type))
+          .map((range: any): AffectedRange => ({
+            type: range.type,
+            events: (Array.isArray(range.events) ? range.events : [])
+              .map((event: any): RangeEvent => {
+                const [kind, version] = Object.entries(event ?? {})[0] ?? [];
+                return kind ? { [kind]: String(version) } : {};
+              })
+              .filter((event: RangeEvent) => Object.keys(event).length > 0),
+          })),
+        versions: Array.isArray(entry.versions) ? entry.versions.map(String) : [],
+      };
+    });
+
+  return {
+    id: record.id,
+    source: 'osv',
+    aliases,
+    summary: String(record.summary ?? ''),
+    details: String(record.details ?? ''),
+    severity: cvss ? severityFromScore(cvss.score!) : ghsaSeverity ?? null,
+    cvssScore: cvss?.score ?? null,
+    cvssVector: cvss?.vector ?? null,
+    cweIds: unique(Array.isArray(record.database_specific?.cwe_ids) ? record.database_specific.cwe_ids.map(String) : []),
+    cveIds: cveIdsOf([record.id, ...aliases]),
+    references: unique((Array.isArray(record.references) ? record.references : []).map((reference: any) => String(reference?.url ?? ''))),
+    publishedAt: toDate(record.published),
+    modifiedAt: toDate(record.modified),
+    withdrawnAt: toDate(record.withdrawn),
+    affected: mergeAffected(affected),
+  };
+}
+
+// cpe:2.3:part:vendor:product:version:update:edition:language:sw_edition:target_sw:target_hw:other
+// Colons inside a component are escaped with a backslash
+function splitCpe(cpe: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < cpe.length; i++) {
+    const char = cpe[i]!;
+    if (char === '\\' && i + 1 < cpe.length) {
+      current += cpe[++i];
+    } else if (char === ':') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current];
+}
+
+function cpeToAffected(match: any): AffectedPackage | null {
+  const criteria = String(match?.criteria ?? match?.cpe23Uri ?? '');
+  const parts = splitCpe(criteria);
+  // Only application CPEs name packages
+  if (parts[0] !== 'cpe' || parts[2] !== 'a' || !parts[4]) return null;
+
+  const ecosystem = CPE_TARGET_ECOSYSTEMS[(parts[10] ?? '').toLowerCase()] ?? 'generic';
+  const version = parts[5] ?? '*';
+  const bounds: CpeBounds = {
+    ...(match.versionStartIncluding ? { startIncluding: String(match.versionStartIncluding) } : {}),
+    ...(match.versionStartExcluding ? { startExcluding: String(match.versionStartExcluding) } : {}),
+    ...(match.versionEndIncluding ? { endIncluding: String(match.versionEndIncluding) } : {}),
+    ...(match.versionEndExcluding ? { endExcluding: String(match.versionEndExcluding) } : {}),
+  };
+
+  // "-" marks a product without versions; "*" with bounds is a range
+  const exact = version !== '*' && version !== '-';
+  return {
+    ecosystem,
+    name: normalizePackageName(ecosystem, parts[4]),
+    ranges: exact ? [] : [{ type: 'CPE', ...bounds }],
+    versions: exact ? [version] : [],
+  };
+}
+
+// NVD 1.1 nests configuration nodes under `children`; 2.0 lists them flat
+function collectCpeMatches(nodes: any[]): any[] {
+  return (Array.isArray(nodes) ? nodes : []).flatMap((node: any) => {
+    if (node?.negate) return [];
+    const matches = Array.isArray(node?.cpeMatch) ? node.cpeMatch : Array.isArray(node?.cpe_match) ? node.cpe_match : [];
+    return [
+      ...matches.filter((match: any) => match?.vulnerable !== false),
+      ...collectCpeMatches(node?.children),
+    ];
+  });
+}
+
+function englishText(descriptions: any): string {
+  const list = Array.isArray(descriptions) ? descriptions : [];
+  return String((list.find((entry: any) => entry?.lang === 'en') ?? list[0])?.value ?? '');
+}
+
+function nvdScore(cvss: any): { score: number; vector: string | null } | null {
+  const score = typeof cvss?.baseScore === 'number' ? cvss.baseScore : null;
+  return score === null ? null : { score, vector: typeof cvss.vectorString === 'string' ? cvss.vectorString : null };
+}
+
+function nvdAdvisory(
+  id: string,
+  fields: {
+    description: string;
+    cvss: { score: number; vector: string | null } | null;
+    cweIds: string[];
+    references: string[];
+    nodes: any[];
+    published: unknown;
+    modified: unknown;
+    rejected: boolean;
+  }
+): VulnerabilityAdvisory {
+  const affected = collectCpeMatches(fields.nodes)
+    .map(cpeToAffected)
+    .filter((entry): entry is AffectedPackage => entry !== null);
+
+  return {
+    id,
+    source: 'nvd',
+    aliases: [],
+    // NVD records have no title; the first sentence of the description stands in
+    summary: fields.description.split(/\.\s/)[0]?.replace(/\.?$/, '.').slice(0, 500) ?? '',
+    details: fields.description,
+    severity: fields.cvss ? severityFromScore(fields.cvss.score) : null,
+    cvssScore: fields.cvss?.score ?? null,
+    cvssVector: fields.cvss?.vector ?? null,
+    // NVD-CWE-Other and NVD-CWE-noinfo are placeholders
+    cweIds: unique(fields.cweIds.filter(cwe => /^CWE-\d+$/.test(cwe))),
+    cveIds: [id],
+    references: unique(fields.references),
+    publishedAt: toDate(fields.published),
+    modifiedAt: toDate(fields.modified),
+    withdrawnAt: fields.rejected ? toDate(fields.modified) ?? new Date() : null,
+    affected: mergeAffected(affected),
+  };
+}
+
+// NVD JSON 2.0 feeds and API responses
+function parseNvd2(document: any, warnings: string[]): VulnerabilityAdvisory[] {
+  return document.vulnerabilities.flatMap((item: any, index: number) => {
+    const cve = item?.cve;
+    if (typeof cve?.id !== 'string') {
+      warnings.push(`Entry ${index + 1}: missing CVE id`);
+      return [];
+    }
+
+    const metrics = cve.metrics ?? {};
+    // Primary (NVD) scores come first; v3.1 is preferred over v3.0 and v2
+    const metric = [metrics.cvssMetricV31, metrics.cvssMetricV30, metrics.cvssMetricV2]
+      .filter(Array.isArray)
+      .map((list: any[]) => list.find(entry => entry?.type === 'Primary') ?? list[0])
+      .find(Boolean);
+
+    return [nvdAdvisory(cve.id, {
+      description: englishText(cve.descriptions),
+      cvss: nvdScore(metric?.cvssData),
+      cweIds: (Array.isArray(cve.weaknesses) ? cve.weaknesses : [])
+        .flatMap((weakness: any) => (Array.isArray(weakness?.description) ? weakness.description : []).map((entry: any) => String(entry?.value ?? ''))),
+      references: (Array.isArray(cve.references) ? cve.references : []).map((reference: any) => String(reference?.url ?? '')),
+      nodes: (Array.isArray(cve.configurations) ? cve.configurations : []).flatMap((configuration: any) => configuration?.nodes ?? []),
+      published: cve.published,
+      modified: cve.lastModified,
+      rejected: cve.vulnStatus === 'Rejected',
+    })];
+  });
+}
+
+// Legacy NVD JSON 1.1 data feeds (nvdcve-1.1-*.json)
+function parseNvd11(document: any, warnings: string[]): VulnerabilityAdvisory[] {
+  return document.CVE_Items.flatMap((item: any, index: number) => {
+    const id = item?.cve?.CVE_data_meta?.ID;
+    if (typeof id !== 'string') {
+      warnings.push(`Entry ${index + 1}: missing CVE id`);
+      return [];
+    }
+
+    const description = englishText(item.cve.description?.description_data);
+    return [nvdAdvisory(id, {
+      description,
+      cvss: nvdScore(item.impact?.baseMetricV3?.cvssV3) ?? nvdScore(item.impact?.baseMetricV2?.cvssV2),
+      cweIds: (item.cve.problemtype?.problemtype_data ?? [])
+        .flatMap((problem: any) => (Array.isArray(problem?.description) ? problem.description : []).map((entry: any) => String(entry?.value ?? ''))),
+      references: (item.cve.references?.reference_data ?? []).map((reference: any) => String(reference?.url ?? '')),
+      nodes: item.configurations?.nodes ?? [],
+      published: item.publishedDate,
+      modified: item.lastModifiedDate,
+      rejected: description.startsWith('** REJECT **'),
+    })];
+  });
+}
+
+function parseOsv(records: any[], warnings: string[]): VulnerabilityAdvisory[] {
+  return records.flatMap((record, index) => {
+    try {
+      return [parseOsvRecord(record)];
+    } catch (error) {
+      warnings.push(`Record ${index + 1}: ${error instanceof Error ? error.message : 'invalid record'}`);
+      return [];
+    }
+  });
+}
+
+function cweId(value: unknown): string {
+  const id = String(value ?? '').trim().replace(/^CWE-/i, '');
+  return /^\d+$/.test(id) ? `CWE-${id}` : '';
+}
+
+// MITRE publishes the catalog as XML (cwec_v4.x.xml) and per-view CSV files
+function parseCweCatalog(content: string, fileName: string): CweWeakness[] {
+  if (content.startsWith('<')) {
+    let document: any;
+    try {
+      document = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', parseTagValue: false }).parse(content);
+    } catch {
+      throw new FeedParseError('Invalid XML in CWE catalog');
+    }
+
+    const weaknesses = document?.Weakness_Catalog?.Weaknesses?.Weakness;
+    if (!weaknesses) {
+      throw new FeedParseError('XML document is not a CWE catalog', 'UNSUPPORTED_FEED');
+    }
+
+    return ([] as any[]).concat(weaknesses).flatMap(weakness => {
+      const id = cweId(weakness?.['@_ID']);
+      const description = weakness?.Description;
+      return id && weakness['@_Name']
+        ? [{ id, name: String(weakness['@_Name']), description: typeof description === 'string' ? description.trim() : '' }]
+        : [];
+    });
+  }
+
+  const parsed = Papa.parse<Record<string, string>>(content, { header: true, skipEmptyLines: true });
+  if (!parsed.meta.fields?.includes('CWE-ID')) {
+    throw new FeedParseError(`${fileName || 'CSV file'} is not a CWE catalog`, 'UNSUPPORTED_FEED');
+  }
+
+  return parsed.data.flatMap(row => {
+    const id = cweId(row['CWE-ID']);
+    return id && row.Name ? [{ id, name: row.Name.trim(), description: (row.Description ?? '').trim() }] : [];
+  });
+}
+
+/**
+ * Parse a vulnerability feed file. Accepts OSV records (one record, an array
+ * of records, or a directory export), NVD JSON 2.0 and 1.1 feeds, and the
+ * MITRE CWE catalog as XML or CSV. The format is detected from the content.
+ */
+export function parseVulnerabilityFeed(content: string, fileName = ''): VulnerabilityFeed {
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  const warnings: string[] = [];
+
+  if (trimmed.startsWith('<') || fileName.toLowerCase().endsWith('.csv') || /^"?CWE-ID"?,/.test(trimmed)) {
+    return { format: 'cwe', advisories: [], weaknesses: parseCweCatalog(trimmed, fileName), warnings };
+  }
+
+  let document: any;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    throw new FeedParseError(`Invalid JSON in ${fileName || 'feed'}`);
+  }
+
+  if (Array.isArray(document?.CVE_Items)) {
+    return { format: 'nvd', advisories: parseNvd11(document, warnings), weaknesses: [], warnings };
+  }
+
+  if (Array.isArray(document?.vulnerabilities) && document.vulnerabilities.some((item: any) => item?.cve)) {
+    return { format: 'nvd', advisories: parseNvd2(document, warnings), weaknesses: [], warnings };
+  }
+
+  const records = Array.isArray(document) ? document : [document];
+  if (records.length > 0 && records.every(record => typeof record?.id === 'string' && ('affected' in record || 'modified' in record))) {
+    return { format: 'osv', advisories: parseOsv(records, warnings), weaknesses: [], warnings };
+  }
+
+  throw new FeedParseError(
+    `${fileName || 'Document'} is not an OSV, NVD or CWE feed`,
+    'UNSUPPORTED_FEED'
+  );
+}
@@ -0,0 +1,207 @@
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine';
+import type { VulnerabilityImport } from '@/lib/integrations/types';
+import type { InventoryComponent } from '@/lib/inventory/types';
+import { normalizePackageName } from './feed-parsers';
+import { affectedVersion } from './version-ranges';
+import { AffectedPackage, VulnerabilityAdvisory } from './types';
+
+export interface VulnerabilityMatch {
+  component: InventoryComponent;
+  advisory: VulnerabilityAdvisory;
+  // Versions that fix the advisory, later than the installed one
+  fixedVersions: string[];
+  // Matched through an NVD CPE product name rather than the package ecosystem
+  approximate: boolean;
+  vulnerability: VulnerabilityImport;
+}
+
+export interface VulnerabilityMatchOptions {
+  // CWE names by id, from the MITRE catalog
+  weaknesses?: Map<string, string>;
+  // When the match was made; reported as the first detection time
+  now?: Date;
+}
+
+export interface VulnerabilityResultOptions {
+  // Manifest file name, reported in affected components
+  source?: string;
+}
+
+/**
+ * The (ecosystem, package name) pairs advisories for a component are stored
+ * under: its own ecosystem, and the CPE product names NVD records use
+ */
+export function componentLookups(component: InventoryComponent): { ecosystem: string; name: string }[] {
+  const lookups = [
+    { ecosystem: component.ecosystem, name: normalizePackageName(component.ecosystem, component.name) },
+    { ecosystem: 'generic', name: normalizePackageName('generic', component.name) },
+  ];
+  // CPE products name the Maven artifact without its group
+  if (component.ecosystem === 'maven' && component.name.includes(':')) {
+    lookups.push({ ecosystem: 'generic', name: normalizePackageName('generic', component.name.split(':').pop()!) });
+  }
+  return lookups;
+}
+
+function packageKey(ecosystem: string, name: string): string {
+  return `${ecosystem}\u0000${name}`;
+}
+
+// NVD scores and weaknesses fill in what an OSV advisory for the same CVE leaves out
+function enrich(advisory: VulnerabilityAdvisory, nvdByCve: Map<string, VulnerabilityAdvisory>): VulnerabilityAdvisory {
+  if (advisory.source !== 'osv') return advisory;
+
+  const nvd = advisory.cveIds.map(cve => nvdByCve.get(cve)).find(Boolean);
+  if (!nvd) return advisory;
+
+  return {
+    ...advisory,
+    severity: advisory.severity ?? nvd.severity,
+    cvssScore: advisory.cvssScore ?? nvd.cvssScore,
+    cvssVector: advisory.cvssVector ?? nvd.cvssVector,
+    cweIds: advisory.cweIds.length > 0 ? advisory.cweIds : nvd.cweIds,
+  };
+}
+
+function toVulnerabilityImport(
+  component: InventoryComponent,
+  advisory: VulnerabilityAdvisory,
+  options: VulnerabilityMatchOptions
+): VulnerabilityImport {
+  const now = options.now ?? new Date();
+  const cweId = advisory.cweIds[0];
+  const cveId = advisory.cveIds[0];
+
+  return {
+    externalId: advisory.id,
+    title: advisory.summary || `${advisory.id} in ${component.name}`,
+    description: advisory.details || advisory.summary,
+    severity: advisory.severity ?? 'medium',
+    category: (cweId && options.weaknesses?.get(cweId)) || cweId || 'Vulnerable Dependency',
+    ...(cweId ? { cweId } : {}),
+    ...(cveId ? { cveId } : {}),
+    ...(advisory.cvssScore !== null ? { cvssScore: advisory.cvssScore } : {}),
+    file: component.purl,
+    status: 'open',
+    firstDetected: now,
+    lastUpdated: advisory.modifiedAt ?? now,
+  };
+}
+
+/**
+ * Match inventory components against advisories. Withdrawn advisories are
+ * ignored, and an NVD record is dropped when an OSV advisory for the same CVE
+ * already matched the component; its CVSS score and CWEs enrich that advisory.
+ */
+export function matchVulnerabilities(
+  components: InventoryComponent[],
+  advisories: VulnerabilityAdvisory[],
+  options: VulnerabilityMatchOptions = {}
+): VulnerabilityMatch[] {
+  const byPackage = new Map<string, { advisory: VulnerabilityAdvisory; affected: AffectedPackage }[]>();
+  const nvdByCve = new Map<string, VulnerabilityAdvisory>();
+
+  for (const advisory of advisories) {
+    if (advisory.withdrawnAt) continue;
+    if (advisory.source === 'nvd') nvdByCve.set(advisory.id, advisory);
+
+    for (const affected of advisory.affected) {
+      const key = packageKey(affected.ecosystem, affected.name);
+      byPackage.set(key, [...(byPackage.get(key) ?? []), { advisory, affected }]);
+    }
+  }
+
+  const matches: VulnerabilityMatch[] = [];
+  // Nested installs of the same version share a purl and are reported once
+  const seen = new Set<string>();
+
+  for (const component of components) {
+    if (!component.version || seen.has(component.purl)) continue;
+    seen.add(component.purl);
+
+    const matched = new Map<string, { advisory: VulnerabilityAdvisory; fixedVersions: string[]; approximate: boolean }>();
+    const keys = new Set(componentLookups(component).map(lookup => packageKey(lookup.ecosystem, lookup.name)));
+    for (const key of keys) {
+      for (const { advisory, affected } of byPackage.get(key) ?? []) {
+        const result = affectedVersion(affected, component.version);
+        if (!result.affected) continue;
+
+        const existing = matched.get(advisory.id);
+        matched.set(advisory.id, {
+          advisory,
+          fixedVersions: Array.from(new Set([...(existing?.fixedVersions ?? []), ...result.fixedVersions])),
+          approximate: (existing?.approximate ?? true) && affected.ecosystem === 'generic',
+        });
+      }
+    }
+
+    const coveredCves = new Set(
+      Array.from(matched.values())
+        .filter(({ advisory }) => advisory.source === 'osv')
+        .flatMap(({ advisory }) => advisory.cveIds)
+    );
+
+    for (const { advisory, fixedVersions, approximate } of matched.values()) {
+      if (advisory.source === 'nvd' && coveredCves.has(advisory.id)) continue;
+
+      const enriched = enrich(advisory, nvdByCve);
+      matches.push({
+        component,
+        advisory: enriched,
+        fixedVersions,
+        approximate,
+        vulnerability: toVulnerabilityImport(component, enriched, options),
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Report each match as a failed analysis result, so known vulnerabilities
+ * show up alongside the other findings of a scan.
+ */
+export function vulnerabilityResults(
+  matches: VulnerabilityMatch[],
+  options: VulnerabilityResultOptions = {}
+): AnalysisResult[] {
+  return matches.map(({ component, advisory, fixedVersions, approximate, vulnerability }) => {
+    const installed = `${component.name}@${component.version}`;
+    const cve = vulnerability.cveId && vulnerability.cveId !== advisory.id ? ` (${vulnerability.cveId})` : '';
+
+    return {
+      ruleId: `vulnerability:${advisory.id}`,
+      status: ResultStatus.FAILED,
+      severity: vulnerability.severity as RuleSeverity,
+      message: `Vulnerable dependency: ${installed} is affected by ${advisory.id}${cve}${advisory.summary ? ` - ${advisory.summary}` : ''}`,
+      details: {
+        package: component.name,
+        ecosystem: component.ecosystem,
+        version: component.version,
+        purl: component.purl,
+        direct: component.direct,
+        advisoryId: advisory.id,
+        advisorySource: advisory.source,
+        aliases: advisory.aliases,
+        cvssVector: advisory.cvssVector,
+        fixedVersions,
+        references: advisory.references.slice(0, 5),
+        vulnerability,
+      },
+      recommendations: fixedVersions.length > 0
+        ? `Upgrade ${component.name} to ${fixedVersions[0]} or later.`
+        : `No fixed version of ${component.name} is recorded for ${advisory.id}; remove the dependency or mitigate the issue.`,
+      affectedComponents: [
+        `Package: ${installed}`,
+        ...(options.source ? [`Manifest: ${options.source}`] : []),
+      ],
+      metadata: {
+        source: 'vulnerability_database',
+        advisorySource: advisory.source,
+      },
+      // CPE product names only approximate package names
+      confidence: approximate ? 0.7 : 1,
+    };
+  });
+}
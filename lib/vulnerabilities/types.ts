@@ -0,0 +1,63 @@
+// Offline vulnerability database types shared by the feed parsers, matcher and store
+
+export type AdvisorySource = 'osv' | 'nvd';
+
+export type AdvisorySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// OSV range event; exactly one of the version fields is set
+export interface RangeEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+// NVD CPE match bounds; a CPE range without bounds covers every version
+export interface CpeBounds {
+  startIncluding?: string;
+  startExcluding?: string;
+  endIncluding?: string;
+  endExcluding?: string;
+}
+
+export type AffectedRange =
+  // SEMVER and ECOSYSTEM ranges are evaluated; GIT ranges need commit history and are skipped
+  | { type: 'SEMVER' | 'ECOSYSTEM' | 'GIT'; events: RangeEvent[] }
+  | ({ type: 'CPE' } & CpeBounds);
+
+export interface AffectedPackage {
+  // Inventory ecosystem (npm, pypi, ...), the lowercased OSV ecosystem for others,
+  // or "generic" for NVD CPEs that do not name a package ecosystem
+  ecosystem: string;
+  // Normalized with normalizePackageName
+  name: string;
+  ranges: AffectedRange[];
+  // Versions listed individually, e.g. OSV `versions` or an exact CPE version
+  versions: string[];
+}
+
+export interface VulnerabilityAdvisory {
+  // GHSA-..., PYSEC-..., CVE-...
+  id: string;
+  source: AdvisorySource;
+  aliases: string[];
+  summary: string;
+  details: string;
+  severity: AdvisorySeverity | null;
+  cvssScore: number | null;
+  cvssVector: string | null;
+  cweIds: string[];
+  cveIds: string[];
+  references: string[];
+  publishedAt: Date | null;
+  modifiedAt: Date | null;
+  withdrawnAt: Date | null;
+  affected: AffectedPackage[];
+}
+
+export interface CweWeakness {
+  // CWE-79
+  id: string;
+  name: string;
+  description: string;
+}
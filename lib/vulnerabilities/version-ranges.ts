@@ -0,0 +1,157 @@
+import semver from 'semver';
+import { AffectedPackage, AffectedRange, RangeEvent } from './types';
+
+// Ecosystems whose versions are semver (Go prefixes them with "v")
+const SEMVER_ECOSYSTEMS = ['npm', 'go'];
+
+// Qualifiers that sort before the release they qualify (1.0-rc1 < 1.0)
+const PRE_RELEASE = /^(dev|snapshot|alpha|a|beta|b|milestone|m|preview|pre|rc|c|cr)$/;
+// Qualifiers that mean the release itself (Maven 1.0.Final == 1.0)
+const RELEASE = /^(final|ga|release)$/;
+
+// "1.0.0rc1" and "1.0.0-RC.1" both read as [1, 0, 0, rc, 1]
+function tokenize(version: string): string[] {
+  return (version.trim().toLowerCase().replace(/^v(?=\d)/, '').match(/\d+|[a-z]+/g) ?? [])
+    .filter(token => !RELEASE.test(token));
+}
+
+function preReleaseRank(token: string): number {
+  const order = ['dev', 'snapshot', 'alpha', 'a', 'beta', 'b', 'milestone', 'm', 'preview', 'pre', 'rc', 'c', 'cr'];
+  return order.indexOf(token);
+}
+
+/**
+ * Order two versions of a non-semver ecosystem (PyPI, Maven, RubyGems, distro
+ * packages). Numeric segments compare as numbers, pre-release qualifiers sort
+ * before the release and any other trailing segment (post, sp1, patch) after it.
+ */
+export function compareGenericVersions(a: string, b: string): number {
+  const left = tokenize(a);
+  const right = tokenize(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i];
+    const y = right[i];
+
+    if (x === undefined || y === undefined) {
+      const extra = (x ?? y)!;
+      const longerIsGreater = !PRE_RELEASE.test(extra);
+      const sign = x === undefined ? -1 : 1;
+      return longerIsGreater ? sign : -sign;
+    }
+
+    const xNumeric = /^\d+$/.test(x);
+    const yNumeric = /^\d+$/.test(y);
+    if (xNumeric && yNumeric) {
+      const diff = Number(x) - Number(y);
+      if (diff !== 0) return Math.sign(diff);
+      continue;
+    }
+
+    // A release segment sorts after a pre-release qualifier in the same place
+    if (xNumeric !== yNumeric) return xNumeric ? 1 : -1;
+    if (x === y) continue;
+
+    const xRank = preReleaseRank(x);
+    const yRank = preReleaseRank(y);
+    if (xRank !== -1 || yRank !== -1) {
+      if (xRank === -1) return 1;
+      if (yRank === -1) return -1;
+      return Math.sign(xRank - yRank);
+    }
+    return x < y ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Order two versions the way the ecosystem does
+ */
+export function compareVersions(ecosystem: string, a: string, b: string): number {
+  if (SEMVER_ECOSYSTEMS.includes(ecosystem)) {
+    const left = semver.valid(a, { loose: true });
+    const right = semver.valid(b, { loose: true });
+    if (left && right) return semver.compare(left, right, { loose: true });
+  }
+  return compareGenericVersions(a, b);
+}
+
+function eventVersion(event: RangeEvent): string {
+  return event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+}
+
+// OSV range evaluation (https://ossf.github.io/osv-schema/#evaluation)
+function inEventRange(
+  compare: (a: string, b: string) => number,
+  version: string,
+  events: RangeEvent[]
+): { affected: boolean; fixed?: string } {
+  const sorted = [...events].sort((x, y) => {
+    if (x.introduced === '0') return -1;
+    if (y.introduced === '0') return 1;
+    return compare(eventVersion(x), eventVersion(y));
+  });
+
+  let affected = false;
+  for (const event of sorted) {
+    if (event.introduced !== undefined) {
+      if (event.introduced === '0' || compare(version, event.introduced) >= 0) affected = true;
+    } else if (event.fixed !== undefined) {
+      if (compare(version, event.fixed) >= 0) affected = false;
+    } else if (event.last_affected !== undefined) {
+      if (compare(version, event.last_affected) > 0) affected = false;
+    } else if (event.limit !== undefined) {
+      if (compare(version, event.limit) >= 0) affected = false;
+    }
+  }
+
+  const fixed = affected
+    ? sorted.find(event => event.fixed !== undefined && compare(event.fixed, version) > 0)?.fixed
+    : undefined;
+  return { affected, ...(fixed ? { fixed } : {}) };
+}
+
+function inRange(
+  ecosystem: string,
+  version: string,
+  range: AffectedRange
+): { affected: boolean; fixed?: string } {
+  if (range.type === 'GIT') return { affected: false };
+
+  if (range.type === 'CPE') {
+    const compare = (a: string, b: string) => compareVersions(ecosystem, a, b);
+    const affected =
+      (range.startIncluding === undefined || compare(version, range.startIncluding) >= 0) &&
+      (range.startExcluding === undefined || compare(version, range.startExcluding) > 0) &&
+      (range.endIncluding === undefined || compare(version, range.endIncluding) <= 0) &&
+      (range.endExcluding === undefined || compare(version, range.endExcluding) < 0);
+    return { affected, ...(affected && range.endExcluding ? { fixed: range.endExcluding } : {}) };
+  }
+
+  // SEMVER ranges are semver regardless of the package ecosystem
+  return inEventRange(
+    (a, b) => compareVersions(range.type === 'SEMVER' ? 'npm' : ecosystem, a, b),
+    version,
+    range.events
+  );
+}
+
+/**
+ * Check whether an installed version falls within an affected package entry.
+ * Returns the versions that fix it, when the entry records them.
+ */
+export function affectedVersion(
+  affected: AffectedPackage,
+  version: string
+): { affected: boolean; fixedVersions: string[] } {
+  const listed = affected.versions.some(listedVersion =>
+    listedVersion === version || compareVersions(affected.ecosystem, listedVersion, version) === 0
+  );
+
+  const matches = affected.ranges.map(range => inRange(affected.ecosystem, version, range)).filter(match => match.affected);
+  const fixedVersions = Array.from(new Set(matches.flatMap(match => (match.fixed ? [match.fixed] : []))))
+    .sort((a, b) => compareVersions(affected.ecosystem, a, b));
+
+  return { affected: listed || matches.length > 0, fixedVersions };
+}
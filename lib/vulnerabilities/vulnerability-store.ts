@@ -0,0 +1,431 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db } from '@/lib/db/drizzle';
+import {
+  vulnerabilityAdvisories,
+  vulnerabilityAffectedPackages,
+  cweWeaknesses,
+  VulnerabilityAdvisoryRecord,
+  VulnerabilityAffectedPackage,
+} from '@/lib/db/schema';
+import { eq, and, inArray, isNull, count, max, sql } from 'drizzle-orm';
+import { generateId } from '@/lib/utils/id-generator';
+import type { InventoryComponent } from '@/lib/inventory/types';
+import { FeedParseError, parseVulnerabilityFeed } from './feed-parsers';
+import { componentLookups, matchVulnerabilities, VulnerabilityMatch } from './matcher';
+import { AdvisorySeverity, AffectedRange, CweWeakness, VulnerabilityAdvisory } from './types';
+
+// Feed files are JSON (OSV, NVD) or the CWE catalog as XML or CSV
+const FEED_EXTENSIONS = ['.json', '.xml', '.csv'];
+
+// Keeps IN (...) lists well below the Postgres parameter limit
+const QUERY_CHUNK = 1000;
+
+export interface FeedImportSummary {
+  files: number;
+  advisoriesCreated: number;
+  advisoriesUpdated: number;
+  // Advisories already stored with the same or a newer modification time
+  advisoriesSkipped: number;
+  weaknesses: number;
+  // Files that could not be imported and records that were skipped
+  errors: string[];
+  warnings: string[];
+}
+
+export interface VulnerabilityStoreStats {
+  advisories: Record<string, number>;
+  affectedPackages: number;
+  weaknesses: number;
+  lastImportedAt: Date | null;
+}
+
+// Vulnerability store error types
+export class VulnerabilityStoreError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'VulnerabilityStoreError';
+  }
+}
+
+function emptySummary(): FeedImportSummary {
+  return {
+    files: 0,
+    advisoriesCreated: 0,
+    advisoriesUpdated: 0,
+    advisoriesSkipped: 0,
+    weaknesses: 0,
+    errors: [],
+    warnings: [],
+  };
+}
+
+function chunk<T>(items: T[], size = QUERY_CHUNK): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function listFeedFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) return [target];
+
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries
+      .filter(entry => !entry.name.startsWith('.'))
+      .map(entry => {
+        const fullPath = path.join(target, entry.name);
+        if (entry.isDirectory()) return listFeedFiles(fullPath);
+        return Promise.resolve(FEED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) ? [fullPath] : []);
+      })
+  );
+  return nested.flat().sort();
+}
+
+function toAdvisory(row: VulnerabilityAdvisoryRecord, affected: VulnerabilityAffectedPackage[]): VulnerabilityAdvisory {
+  return {
+    id: row.advisoryId,
+    source: row.source as VulnerabilityAdvisory['source'],
+    aliases: row.aliases as string[],
+    summary: row.summary ?? '',
+    details: row.details ?? '',
+    severity: row.severity as AdvisorySeverity | null,
+    cvssScore: row.cvssScore,
+    cvssVector: row.cvssVector,
+    cweIds: row.cweIds as string[],
+    cveIds: row.cveIds as string[],
+    references: row.references as string[],
+    publishedAt: row.publishedAt,
+    modifiedAt: row.modifiedAt,
+    withdrawnAt: row.withdrawnAt,
+    affected: affected.map(entry => ({
+      ecosystem: entry.ecosystem,
+      name: entry.packageName,
+      ranges: entry.ranges as AffectedRange[],
+      versions: entry.versions as string[],
+    })),
+  };
+}
+
+function toValues(advisory: VulnerabilityAdvisory) {
+  return {
+    aliases: advisory.aliases,
+    summary: advisory.summary || null,
+    details: advisory.details || null,
+    severity: advisory.severity,
+    cvssScore: advisory.cvssScore,
+    cvssVector: advisory.cvssVector,
+    cweIds: advisory.cweIds,
+    cveIds: advisory.cveIds,
+    references: advisory.references,
+    publishedAt: advisory.publishedAt,
+    modifiedAt: advisory.modifiedAt,
+    withdrawnAt: advisory.withdrawnAt,
+    importedAt: new Date(),
+  };
+}
+
+/**
+ * Local vulnerability database. Feeds are imported from files on disk, so
+ * matching never leaves the host; scan hosts can run fully air-gapped.
+ */
+export class VulnerabilityStore {
+
+  /**
+   * Import a feed file, or every feed file under a directory. A file that
+   * fails to parse is reported in `errors` without stopping the import.
+   */
+  async importPath(feedPath: string): Promise<FeedImportSummary> {
+    let files: string[];
+    try {
+      files = await listFeedFiles(path.resolve(feedPath));
+    } catch {
+      throw new VulnerabilityStoreError(`Feed path ${feedPath} is not readable`, 'FEED_PATH_NOT_FOUND', 404);
+    }
+
+    return this.importFeedFiles(files.map(file => ({
+      name: path.basename(file),
+      read: () => fs.readFile(file, 'utf-8'),
+    })));
+  }
+
+  /**
+   * Import feed files one at a time; large NVD feeds are read only when their turn comes
+   */
+  async importFeedFiles(files: { name: string; read: () => Promise<string> }[]): Promise<FeedImportSummary> {
+    const summary = emptySummary();
+    for (const file of files) {
+      try {
+        this.addSummary(summary, await this.importFeed(await file.read(), file.name));
+      } catch (error) {
+        if (!(error instanceof FeedParseError)) throw error;
+        summary.files++;
+        summary.errors.push(`${file.name}: ${error.message}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Parse and import the content of one feed file
+   */
+  async importFeed(content: string, fileName: string): Promise<FeedImportSummary> {
+    const feed = parseVulnerabilityFeed(content, fileName);
+    const summary = emptySummary();
+    summary.files = 1;
+    summary.warnings = feed.warnings.map(warning => `${fileName}: ${warning}`);
+
+    if (feed.advisories.length > 0) {
+      const result = await this.importAdvisories(feed.advisories);
+      summary.advisoriesCreated = result.created;
+      summary.advisoriesUpdated = result.updated;
+      summary.advisoriesSkipped = result.skipped;
+    }
+
+    if (feed.weaknesses.length > 0) {
+      summary.weaknesses = await this.importWeaknesses(feed.weaknesses);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Store advisories, replacing older copies of the same advisory together
+   * with their affected packages
+   */
+  async importAdvisories(
+    advisories: VulnerabilityAdvisory[]
+  ): Promise<{ created: number; updated: number; skipped: number }> {
+    const result = { created: 0, updated: 0, skipped: 0 };
+
+    for (const batch of chunk(advisories)) {
+      await db.transaction(async (tx) => {
+        const existing = new Map<string, { id: string; modifiedAt: Date | null }>();
+        for (const source of Array.from(new Set(batch.map(advisory => advisory.source)))) {
+          const rows = await tx
+            .select()
+            .from(vulnerabilityAdvisories)
+            .where(and(
+              eq(vulnerabilityAdvisories.source, source),
+              inArray(vulnerabilityAdvisories.advisoryId, batch.filter(advisory => advisory.source === source).map(advisory => advisory.id))
+            ));
+          rows.forEach(row => existing.set(`${row.source}:${row.advisoryId}`, { id: row.id, modifiedAt: row.modifiedAt }));
+        }
+
+        for (const advisory of batch) {
+          const key = `${advisory.source}:${advisory.id}`;
+          const stored = existing.get(key);
+
+          if (stored?.modifiedAt && advisory.modifiedAt && stored.modifiedAt >= advisory.modifiedAt) {
+            result.skipped++;
+            continue;
+          }
+
+          let rowId: string;
+          if (stored) {
+            await tx
+              .update(vulnerabilityAdvisories)
+              .set(toValues(advisory))
+              .where(eq(vulnerabilityAdvisories.id, stored.id));
+            await tx
+              .delete(vulnerabilityAffectedPackages)
+              .where(eq(vulnerabilityAffectedPackages.advisoryId, stored.id));
+            rowId = stored.id;
+            result.updated++;
+          } else {
+            rowId = generateId(16);
+            await tx.insert(vulnerabilityAdvisories).values({
+              id: rowId,
+              advisoryId: advisory.id,
+              source: advisory.source,
+              ...toValues(advisory),
+            });
+            result.created++;
+          }
+
+          // A feed may repeat an advisory; later copies update the row just written
+          existing.set(key, { id: rowId, modifiedAt: advisory.modifiedAt });
+
+          if (advisory.affected.length > 0) {
+            await tx.insert(vulnerabilityAffectedPackages).values(
+              advisory.affected.map(affected => ({
+                id: generateId(16),
+                advisoryId: rowId,
+                ecosystem: affected.ecosystem,
+                packageName: affected.name.slice(0, 255),
+                ranges: affected.ranges,
+                versions: affected.versions,
+              }))
+            );
+          }
+        }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Insert or update CWE catalog entries
+   */
+  async importWeaknesses(weaknesses: CweWeakness[]): Promise<number> {
+    for (const batch of chunk(weaknesses, 500)) {
+      await db
+        .insert(cweWeaknesses)
+        .values(batch.map(weakness => ({
+          id: weakness.id,
+          name: weakness.name.slice(0, 500),
+          description: weakness.description || null,
+        })))
+        .onConflictDoUpdate({
+          target: cweWeaknesses.id,
+          set: {
+            name: sql`excluded.name`,
+            description: sql`excluded.description`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+    return weaknesses.length;
+  }
+
+  /**
+   * Load the advisories that may affect the given components, plus the NVD
+   * records of their CVEs so OSV advisories can be enriched with CVSS and CWE data
+   */
+  async findAdvisories(components: InventoryComponent[]): Promise<VulnerabilityAdvisory[]> {
+    const lookups = components.filter(component => component.version).flatMap(componentLookups);
+    if (lookups.length === 0) return [];
+
+    const wanted = new Set(lookups.map(lookup => `${lookup.ecosystem}\u0000${lookup.name}`));
+    const names = Array.from(new Set(lookups.map(lookup => lookup.name)));
+
+    const candidateIds = new Set<string>();
+    for (const batch of chunk(names)) {
+      const rows = await db
+        .select({
+          advisoryId: vulnerabilityAffectedPackages.advisoryId,
+          ecosystem: vulnerabilityAffectedPackages.ecosystem,
+          packageName: vulnerabilityAffectedPackages.packageName,
+        })
+        .from(vulnerabilityAffectedPackages)
+        .where(inArray(vulnerabilityAffectedPackages.packageName, batch));
+
+      rows
+        .filter(row => wanted.has(`${row.ecosystem}\u0000${row.packageName}`))
+        .forEach(row => candidateIds.add(row.advisoryId));
+    }
+    if (candidateIds.size === 0) return [];
+
+    const advisoryRows = await this.loadAdvisoryRows(
+      Array.from(candidateIds),
+      id => inArray(vulnerabilityAdvisories.id, id)
+    );
+
+    const cves = Array.from(new Set(
+      advisoryRows.filter(row => row.source === 'osv').flatMap(row => row.cveIds as string[])
+    ));
+    const loaded = new Set(advisoryRows.map(row => row.id));
+    const nvdRows = (await this.loadAdvisoryRows(
+      cves,
+      advisoryIds => and(eq(vulnerabilityAdvisories.source, 'nvd'), inArray(vulnerabilityAdvisories.advisoryId, advisoryIds))
+    )).filter(row => !loaded.has(row.id));
+
+    const rows = [...advisoryRows, ...nvdRows];
+    const affectedByAdvisory = new Map<string, VulnerabilityAffectedPackage[]>();
+    for (const batch of chunk(rows.map(row => row.id))) {
+      const affected = await db
+        .select()
+        .from(vulnerabilityAffectedPackages)
+        .where(inArray(vulnerabilityAffectedPackages.advisoryId, batch));
+      for (const entry of affected) {
+        affectedByAdvisory.set(entry.advisoryId, [...(affectedByAdvisory.get(entry.advisoryId) ?? []), entry]);
+      }
+    }
+
+    return rows.map(row => toAdvisory(row, affectedByAdvisory.get(row.id) ?? []));
+  }
+
+  /**
+   * Names of CWE entries by id, for the ids present in the catalog
+   */
+  async getWeaknessNames(ids: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const batch of chunk(Array.from(new Set(ids)))) {
+      const rows = await db
+        .select({ id: cweWeaknesses.id, name: cweWeaknesses.name })
+        .from(cweWeaknesses)
+        .where(inArray(cweWeaknesses.id, batch));
+      rows.forEach(row => names.set(row.id, row.name));
+    }
+    return names;
+  }
+
+  /**
+   * Match components against the stored advisories
+   */
+  async matchComponents(components: InventoryComponent[]): Promise<VulnerabilityMatch[]> {
+    const advisories = await this.findAdvisories(components);
+    if (advisories.length === 0) return [];
+
+    const weaknesses = await this.getWeaknessNames(advisories.flatMap(advisory => advisory.cweIds));
+    return matchVulnerabilities(components, advisories, { weaknesses });
+  }
+
+  async getStats(): Promise<VulnerabilityStoreStats> {
+    const bySource = await db
+      .select({ source: vulnerabilityAdvisories.source, count: count(), lastImportedAt: max(vulnerabilityAdvisories.importedAt) })
+      .from(vulnerabilityAdvisories)
+      .where(isNull(vulnerabilityAdvisories.withdrawnAt))
+      .groupBy(vulnerabilityAdvisories.source);
+
+    const [packages] = await db.select({ count: count() }).from(vulnerabilityAffectedPackages);
+    const [weaknesses] = await db.select({ count: count() }).from(cweWeaknesses);
+
+    const lastImportedAt = bySource
+      .map(row => row.lastImportedAt)
+      .filter((date): date is Date => date instanceof Date)
+      .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+    return {
+      advisories: Object.fromEntries(bySource.map(row => [row.source, row.count])),
+      affectedPackages: packages?.count ?? 0,
+      weaknesses: weaknesses?.count ?? 0,
+      lastImportedAt,
+    };
+  }
+
+  private async loadAdvisoryRows(
+    ids: string[],
+    clause: (ids: string[]) => ReturnType<typeof and>
+  ): Promise<VulnerabilityAdvisoryRecord[]> {
+    const rows: VulnerabilityAdvisoryRecord[] = [];
+    for (const batch of chunk(ids)) {
+      rows.push(...await db
+        .select()
+        .from(vulnerabilityAdvisories)
+        .where(and(clause(batch), isNull(vulnerabilityAdvisories.withdrawnAt))));
+    }
+    return rows;
+  }
+
+  private addSummary(total: FeedImportSummary, part: FeedImportSummary): void {
+    total.files += part.files;
+    total.advisoriesCreated += part.advisoriesCreated;
+    total.advisoriesUpdated += part.advisoriesUpdated;
+    total.advisoriesSkipped += part.advisoriesSkipped;
+    total.weaknesses += part.weaknesses;
+    total.errors.push(...part.errors);
+    total.warnings.push(...part.warnings);
+  }
+}
+
+export const vulnerabilityStore = new VulnerabilityStore();
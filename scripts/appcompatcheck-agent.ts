@@ -0,0 +1,36 @@
+import { CliUsageError, EXIT_ERROR } from '../lib/cli/command';
+import { agentUsage, parseAgentOptions, runAgentCommand } from '../lib/cli/agent-command';
+
+// The host agent on its own, built by `npm run build:agent` into a single
+// file that runs on any host with Node.js 18 or later
+const USAGE = agentUsage('appcompatcheck-agent');
+
+async function main(): Promise<number> {
+  const output = {
+    log: (message: string) => console.log(message),
+    error: (message: string) => console.error(message),
+  };
+
+  try {
+    const options = parseAgentOptions(process.argv.slice(2));
+    if (!options) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    return await runAgentCommand(options, output);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_ERROR;
+    }
+    throw error;
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('appcompatcheck-agent crashed:', error);
+    process.exit(EXIT_ERROR);
+  });
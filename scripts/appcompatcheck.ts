@@ -0,0 +1,70 @@
+import { EXIT_ERROR, SCAN_USAGE, CliUsageError, parseScanOptions, runScanCommand } from '../lib/cli/scan-command';
+import { AGENT_USAGE, parseAgentOptions, runAgentCommand } from '../lib/cli/agent-command';
+
+const USAGE = `Usage: appcompatcheck <command> [options]
+
+Commands:
+  scan    Upload files, run a scan and fail on threshold breaches
+  agent   Report the inventory of this Linux host to the server
+
+Run "appcompatcheck scan --help" for the options of a command.`;
+
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return command ? 0 : EXIT_ERROR;
+  }
+
+  const output = {
+    log: (message: string) => console.log(message),
+    error: (message: string) => console.error(message),
+  };
+
+  if (command === 'agent') {
+    try {
+      const options = parseAgentOptions(args);
+      if (!options) {
+        console.log(AGENT_USAGE);
+        return 0;
+      }
+
+      return await runAgentCommand(options, output);
+    } catch (error) {
+      if (error instanceof CliUsageError) {
+        console.error(`${error.message}\n\n${AGENT_USAGE}`);
+        return EXIT_ERROR;
+      }
+      throw error;
+    }
+  }
+
+  if (command !== 'scan') {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  try {
+    const options = parseScanOptions(args);
+    if (!options) {
+      console.log(SCAN_USAGE);
+      return 0;
+    }
+
+    return await runScanCommand(options, output);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${SCAN_USAGE}`);
+      return EXIT_ERROR;
+    }
+    throw error;
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('appcompatcheck crashed:', error);
+    process.exit(EXIT_ERROR);
+  });
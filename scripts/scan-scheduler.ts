@@ -0,0 +1,31 @@
+import { config } from 'dotenv';
+
+// Load environment variables
+config({ path: '.env.local' });
+config({ path: '.env' });
+
+async function main() {
+  // Imported after the environment is loaded: the database client reads it at import time
+  const { ScanScheduler } = await import('../lib/scans/scan-scheduler');
+
+  const scheduler = new ScanScheduler();
+  scheduler.start();
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+
+    console.log(`Received ${signal}, releasing scheduler leadership...`);
+    await scheduler.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch(error => {
+  console.error('Scan scheduler crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import { config } from 'dotenv';
+
+// Load environment variables
+config({ path: '.env.local' });
+config({ path: '.env' });
+
+async function main() {
+  // Imported after the environment is loaded: the database client reads it at import time
+  const { ScanWorker } = await import('../lib/scans/scan-worker');
+
+  const worker = new ScanWorker();
+  worker.start();
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+
+    console.log(`Received ${signal}, waiting for running scans to finish...`);
+    await worker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch(error => {
+  console.error('Scan worker crashed:', error);
+  process.exit(1);
+});
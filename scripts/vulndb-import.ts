@@ -0,0 +1,43 @@
+import { config } from 'dotenv';
+
+// Load environment variables
+config({ path: '.env.local' });
+config({ path: '.env' });
+
+// Usage: npm run vulndb:import -- [feed file or directory ...]
+async function main() {
+  // Imported after the environment is loaded: the database client reads it at import time
+  const { vulnerabilityStore } = await import('../lib/vulnerabilities/vulnerability-store');
+
+  const paths = process.argv.slice(2);
+  if (paths.length === 0) {
+    paths.push(process.env.VULNERABILITY_FEED_PATH || './data/vulnerability-feeds');
+  }
+
+  let failed = false;
+  for (const feedPath of paths) {
+    console.log(`Importing vulnerability feeds from ${feedPath}...`);
+    const summary = await vulnerabilityStore.importPath(feedPath);
+
+    console.log(
+      `${summary.files} file(s): ${summary.advisoriesCreated} advisories created, ` +
+      `${summary.advisoriesUpdated} updated, ${summary.advisoriesSkipped} unchanged, ` +
+      `${summary.weaknesses} CWE entries`
+    );
+    summary.warnings.slice(0, 20).forEach(warning => console.warn(`  warning: ${warning}`));
+    if (summary.warnings.length > 20) {
+      console.warn(`  ... and ${summary.warnings.length - 20} more warnings`);
+    }
+    summary.errors.forEach(error => console.error(`  error: ${error}`));
+    failed = failed || summary.errors.length > 0;
+  }
+
+  const stats = await vulnerabilityStore.getStats();
+  console.log('Vulnerability database:', stats);
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Vulnerability feed import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server'
+import { POST as createKey } from '@/app/api/user/api-keys/route'
+import { POST as rotateKey } from '@/app/api/user/api-keys/[id]/rotate/route'
+import { getSession, SessionData } from '@/lib/auth/session'
+import { apiKeyService } from '@/lib/auth/api-key-service'
+import { UserRole } from '@/lib/db/schema'
+
+jest.mock('@/lib/auth/session', () => ({
+  getSession: jest.fn(),
+}))
+
+jest.mock('@/lib/db/queries', () => ({
+  logActivity: jest.fn(),
+}))
+
+jest.mock('@/lib/auth/api-key-service', () => ({
+  apiKeyService: { createKey: jest.fn(), rotateKey: jest.fn() },
+  ApiKeyInputSchema: { parse: (input: unknown) => input },
+  ApiKeyServiceError: class ApiKeyServiceError extends Error {},
+}))
+
+const mockGetSession = getSession as jest.MockedFunction<typeof getSession>
+
+const session = (fields: Partial<SessionData> = {}): SessionData => ({
+  user: { id: 7, email: 'dev@example.com', role: UserRole.USER, organizationId: 3 },
+  sessionId: 'session-1',
+  expires: new Date(Date.now() + 60_000).toISOString(),
+  lastActivity: new Date().toISOString(),
+  ...fields,
+})
+
+const request = (url: string, body?: unknown) =>
+  new NextRequest(url, { method: 'POST', ...(body ? { body: JSON.stringify(body) } : {}) })
+
+describe('/api/user/api-keys', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('refuses to create keys until required two-factor authentication is set up', async () => {
+    mockGetSession.mockResolvedValue(session({ mfaEnrollmentRequired: true }))
+
+    const response = await createKey(request('http://localhost/api/user/api-keys', { name: 'CI', permissions: ['scan:read'] }))
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'MFA_ENROLLMENT_REQUIRED' })
+    expect(apiKeyService.createKey).not.toHaveBeenCalled()
+  })
+
+  it('refuses to rotate keys until required two-factor authentication is set up', async () => {
+    mockGetSession.mockResolvedValue(session({ mfaEnrollmentRequired: true }))
+
+    const response = await rotateKey(request('http://localhost/api/user/api-keys/key-1/rotate'), { params: { id: 'key-1' } })
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'MFA_ENROLLMENT_REQUIRED' })
+    expect(apiKeyService.rotateKey).not.toHaveBeenCalled()
+  })
+
+  it('creates keys for users who are not held back', async () => {
+    mockGetSession.mockResolvedValue(session())
+    ;(apiKeyService.createKey as jest.Mock).mockResolvedValue({
+      apiKey: { id: 'key-1', name: 'CI', keyPreview: 'acc_abcd…ef01', permissions: ['scan:read'] },
+      key: 'acc_secret',
+    })
+
+    const response = await createKey(request('http://localhost/api/user/api-keys', { name: 'CI', permissions: ['scan:read'] }))
+
+    expect(response.status).toBe(201)
+    expect(await response.json()).toMatchObject({ key: 'acc_secret' })
+  })
+})
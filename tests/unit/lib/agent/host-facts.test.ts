@@ -0,0 +1,76 @@
+import { parseOsRelease, parseProcNet, parseRuntimeVersion } from '@/lib/agent/host-facts'
+
+describe('parseOsRelease', () => {
+  it('reads quoted and unquoted fields', () => {
+    const fields = parseOsRelease([
+      'PRETTY_NAME="Ubuntu 22.04.4 LTS"',
+      'NAME="Ubuntu"',
+      'VERSION_ID="22.04"',
+      'ID=ubuntu',
+      "VERSION_CODENAME='jammy'",
+      '# comment',
+      'HOME_URL="https://www.ubuntu.com/\\"home\\""',
+    ].join('\n'))
+
+    expect(fields).toEqual({
+      PRETTY_NAME: 'Ubuntu 22.04.4 LTS',
+      NAME: 'Ubuntu',
+      VERSION_ID: '22.04',
+      ID: 'ubuntu',
+      VERSION_CODENAME: 'jammy',
+      HOME_URL: 'https://www.ubuntu.com/"home"',
+    })
+  })
+})
+
+describe('parseProcNet', () => {
+  const header = '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode'
+
+  it('keeps listening TCP sockets', () => {
+    const sockets = parseProcNet([
+      header,
+      '   0: 00000000:0016 00000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 21234 1 0000000000000000 100 0 0 10 0',
+      '   1: 0100007F:1538 00000000:0000 0A 00000000:00000000 00:00000000 00000000   999        0 31337 1 0000000000000000 100 0 0 10 0',
+      '   2: 0F02000A:0016 0102000A:D2F4 01 00000000:00000000 02:0004F1C8 00000000     0        0 41234 4 0000000000000000 20 4 1 10 -1',
+    ].join('\n'), 'tcp')
+
+    expect(sockets).toEqual([
+      { protocol: 'tcp', address: '0.0.0.0', port: 22, inode: '21234' },
+      { protocol: 'tcp', address: '127.0.0.1', port: 5432, inode: '31337' },
+    ])
+  })
+
+  it('decodes IPv6 addresses', () => {
+    const sockets = parseProcNet([
+      header,
+      '   0: 00000000000000000000000000000000:0050 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 100 1 0000000000000000 100 0 0 10 0',
+      '   1: 00000000000000000000000001000000:1F90 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 101 1 0000000000000000 100 0 0 10 0',
+      '   2: 0000000000000000FFFF00000100007F:0BB8 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 102 1 0000000000000000 100 0 0 10 0',
+    ].join('\n'), 'tcp')
+
+    expect(sockets.map(socket => `${socket.address} ${socket.port}`)).toEqual([
+      ':: 80',
+      '::1 8080',
+      '::ffff:127.0.0.1 3000',
+    ])
+  })
+
+  it('keeps unconnected UDP sockets', () => {
+    const sockets = parseProcNet([
+      header,
+      ' 1234: 3500007F:0035 00000000:0000 07 00000000:00000000 00:00000000 00000000   101        0 2001 2 0000000000000000 0',
+      ' 1235: 0F02000A:A1B2 08080808:0035 01 00000000:00000000 00:00000000 00000000  1000        0 2002 2 0000000000000000 0',
+    ].join('\n'), 'udp')
+
+    expect(sockets).toEqual([{ protocol: 'udp', address: '127.0.0.53', port: 53, inode: '2001' }])
+  })
+})
+
+describe('parseRuntimeVersion', () => {
+  it('reads the version each runtime prints', () => {
+    expect(parseRuntimeVersion('node', 'v20.11.1\n')).toBe('20.11.1')
+    expect(parseRuntimeVersion('python', 'Python 3.11.2\n')).toBe('3.11.2')
+    expect(parseRuntimeVersion('openssl', 'OpenSSL 1.1.1w  11 Sep 2023\n')).toBe('1.1.1w')
+    expect(parseRuntimeVersion('openssl', 'LibreSSL 3.3.6\n')).toBeNull()
+  })
+})
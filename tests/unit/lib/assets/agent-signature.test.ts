@@ -0,0 +1,52 @@
+import {
+  MAX_REPORT_AGE_MS,
+  agentPublicKey,
+  generateAgentKeyPair,
+  publicKeyFingerprint,
+  signReport,
+  verifyReportSignature,
+} from '@/lib/assets/agent-signature'
+
+describe('agent report signatures', () => {
+  const { publicKey, privateKey } = generateAgentKeyPair()
+  const body = JSON.stringify({ hostname: 'web-1' })
+  const now = 1_790_000_000_000
+
+  it('verifies reports signed with the host key', () => {
+    const signature = signReport(body, privateKey, String(now))
+
+    expect(verifyReportSignature(body, signature, publicKey, now)).toBe('valid')
+    expect(agentPublicKey(privateKey)).toBe(publicKey)
+  })
+
+  it('refuses altered bodies and other keys', () => {
+    const signature = signReport(body, privateKey, String(now))
+
+    expect(verifyReportSignature(`${body} `, signature, publicKey, now)).toBe('invalid')
+    expect(verifyReportSignature(body, signature, generateAgentKeyPair().publicKey, now)).toBe('invalid')
+    expect(verifyReportSignature(body, { ...signature, timestamp: String(now + 1) }, publicKey, now)).toBe('invalid')
+    expect(verifyReportSignature(body, signature, 'not a key', now)).toBe('invalid')
+  })
+
+  it('expires reports timestamped too far from the server clock', () => {
+    const signature = signReport(body, privateKey, String(now - MAX_REPORT_AGE_MS - 1))
+
+    expect(verifyReportSignature(body, signature, publicKey, now)).toBe('expired')
+    expect(verifyReportSignature(body, { ...signature, timestamp: 'yesterday' }, publicKey, now)).toBe('expired')
+  })
+
+  it('refuses replays of reports at or before the last accepted one', () => {
+    const signature = signReport(body, privateKey, String(now))
+
+    expect(verifyReportSignature(body, signature, publicKey, now, now - 1)).toBe('valid')
+    expect(verifyReportSignature(body, signature, publicKey, now + 60_000, now)).toBe('replayed')
+    expect(verifyReportSignature(body, signature, publicKey, now, now + 1)).toBe('replayed')
+    expect(verifyReportSignature(`${body} `, signature, publicKey, now, now)).toBe('invalid')
+  })
+
+  it('fingerprints public keys', () => {
+    expect(publicKeyFingerprint(publicKey)).toMatch(/^SHA256:[A-Za-z0-9+/]{43}$/)
+    expect(publicKeyFingerprint(agentPublicKey(privateKey))).toBe(publicKeyFingerprint(publicKey))
+    expect(publicKeyFingerprint('not a key')).toBeNull()
+  })
+})
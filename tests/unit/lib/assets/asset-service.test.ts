@@ -0,0 +1,100 @@
+import { assetService } from '@/lib/assets/asset-service'
+import { generateAgentKeyPair, publicKeyFingerprint, signReport } from '@/lib/assets/agent-signature'
+import { inventoryDigest, HostInventorySchema } from '@/lib/assets/host-inventory'
+import { db } from '@/lib/db/drizzle'
+
+// Rows the next queries resolve to, in order
+const mockRows: unknown[][] = []
+
+jest.mock('@/lib/db/drizzle', () => {
+  const query = () => {
+    const chain: Record<string, unknown> = {}
+    for (const method of ['from', 'where', 'set', 'values']) {
+      chain[method] = () => chain
+    }
+    chain.limit = async () => mockRows.shift() ?? []
+    chain.returning = async () => mockRows.shift() ?? []
+    chain.then = (resolve: (rows: unknown[]) => unknown) => Promise.resolve([]).then(resolve)
+    return chain
+  }
+  return { db: { select: jest.fn(query), insert: jest.fn(query), update: jest.fn(query) } }
+})
+
+jest.mock('@/lib/redis/client', () => ({ redis: {} }))
+
+jest.mock('@/lib/db/queries', () => ({ logActivity: jest.fn() }))
+
+describe('AssetService.reportInventory', () => {
+  const { publicKey, privateKey } = generateAgentKeyPair()
+  const token = { id: 'token-1', organizationId: '3', createdBy: '7', expiresAt: null, revokedAt: null }
+
+  const inventory = HostInventorySchema.parse({
+    agent: { version: '1.0.0', publicKey },
+    machineId: '4c4c4544004a3510804bb4c04f4e3132',
+    hostname: 'web-1',
+    os: { id: 'ubuntu', versionId: '20.04', name: 'Ubuntu 20.04.6 LTS' },
+    kernel: { release: '5.4.0-182-generic' },
+    architecture: 'x86_64',
+    packageManager: 'dpkg',
+    packages: [{ name: 'openssl', version: '1.1.1f-1ubuntu2.22', arch: 'amd64' }],
+    runtimes: [],
+    services: [],
+    collectedAt: '2026-10-19T11:59:00Z',
+  })
+  const body = JSON.stringify(inventory)
+
+  const asset = (lastReportAt: number) => ({
+    id: 'asset-1',
+    organizationId: '3',
+    hostname: 'web-1',
+    publicKey,
+    keyFingerprint: publicKeyFingerprint(publicKey),
+    inventory,
+    inventoryDigest: inventoryDigest(inventory),
+    lastReportAt: new Date(lastReportAt),
+    lastScannedAt: new Date(),
+  })
+
+  const report = (timestamp: number) => ({
+    token: 'ace_token',
+    body,
+    signature: signReport(body, privateKey, String(timestamp)),
+    ipAddress: null,
+  })
+
+  beforeEach(() => {
+    mockRows.length = 0
+    jest.clearAllMocks()
+  })
+
+  it('accepts a report newer than the last one', async () => {
+    const sent = Date.now()
+    mockRows.push([token], [asset(sent - 60_000)], [asset(sent)])
+
+    const outcome = await assetService.reportInventory(report(sent))
+
+    expect(outcome).toMatchObject({ enrolled: false, scanId: null })
+    expect(outcome.asset.lastReportAt).toEqual(new Date(sent))
+  })
+
+  it('refuses a captured report sent again', async () => {
+    const sent = Date.now() - 1000
+    mockRows.push([token], [asset(sent)])
+
+    await expect(assetService.reportInventory(report(sent))).rejects.toMatchObject({
+      code: 'AGENT_REPORT_REPLAYED',
+      statusCode: 409,
+    })
+    expect(db.update).not.toHaveBeenCalled()
+  })
+
+  it('refuses the loser of two reports racing with the same timestamp', async () => {
+    const sent = Date.now()
+    // The other report updated the row first, so the conditional update matches nothing
+    mockRows.push([token], [asset(sent - 60_000)], [])
+
+    await expect(assetService.reportInventory(report(sent))).rejects.toMatchObject({
+      code: 'AGENT_REPORT_REPLAYED',
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { checkHost } from '@/lib/assets/host-checks'
+import { HostInventorySchema, hostComponents, inventoryDigest } from '@/lib/assets/host-inventory'
+import { ResultStatus } from '@/lib/compatibility/analysis-engine'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const inventory = (fields: Record<string, unknown> = {}) => HostInventorySchema.parse({
+  agent: { version: '1.0.0', publicKey: 'key' },
+  machineId: '4c4c4544004a3510804bb4c04f4e3132',
+  hostname: 'web-1',
+  os: { id: 'ubuntu', versionId: '20.04', name: 'Ubuntu 20.04.6 LTS' },
+  kernel: { release: '5.4.0-182-generic' },
+  architecture: 'x86_64',
+  packageManager: 'dpkg',
+  packages: [
+    { name: 'openssl', version: '1.1.1f-1ubuntu2.22', arch: 'amd64' },
+    { name: 'bash', version: '5.0-6ubuntu1.2', arch: 'amd64' },
+  ],
+  runtimes: [{ runtime: 'node', version: '16.20.2', path: '/usr/bin/node' }],
+  services: [{ protocol: 'tcp', address: '0.0.0.0', port: 22, process: 'sshd' }],
+  collectedAt: '2026-10-19T11:59:00Z',
+  ...fields,
+})
+
+describe('hostComponents', () => {
+  it('names packages in the namespace of the host distribution', () => {
+    const components = hostComponents(inventory())
+
+    expect(components.map(component => component.purl)).toEqual([
+      'pkg:deb/ubuntu/openssl@1.1.1f-1ubuntu2.22?arch=amd64',
+      'pkg:deb/ubuntu/bash@5.0-6ubuntu1.2?arch=amd64',
+    ])
+    expect(components[0]).toMatchObject({ ecosystem: 'deb', manifest: 'dpkg-status', direct: false })
+  })
+
+  it('has none without a package manager', () => {
+    expect(hostComponents(inventory({ packageManager: null, packages: [] }))).toEqual([])
+  })
+})
+
+describe('inventoryDigest', () => {
+  it('ignores when the inventory was collected and the order of packages', () => {
+    const first = inventory()
+    const second = inventory({
+      collectedAt: '2026-10-19T12:59:00Z',
+      packages: [...first.packages].reverse(),
+    })
+
+    expect(inventoryDigest(second)).toBe(inventoryDigest(first))
+  })
+
+  it('changes when a package is upgraded', () => {
+    const upgraded = inventory({ packages: [{ name: 'openssl', version: '1.1.1f-1ubuntu2.23', arch: 'amd64' }] })
+
+    expect(inventoryDigest(upgraded)).not.toBe(inventoryDigest(inventory()))
+  })
+})
+
+describe('checkHost', () => {
+  it('checks the OS release and runtimes of the host', () => {
+    const results = checkHost(inventory(), { now })
+
+    expect(results.map(result => result.ruleId).sort()).toEqual(['inventory:eol_os_release', 'inventory:eol_runtime'])
+    expect(results.find(result => result.ruleId === 'inventory:eol_os_release')).toMatchObject({
+      status: ResultStatus.FAILED,
+      affectedComponents: ['OS: Ubuntu 20.04 (focal)', 'Host: web-1'],
+    })
+    expect(results.find(result => result.ruleId === 'inventory:eol_runtime')).toMatchObject({
+      status: ResultStatus.FAILED,
+      affectedComponents: ['Runtime: /usr/bin/node', 'Host: web-1'],
+    })
+  })
+
+  it('finds nothing wrong with supported hosts', () => {
+    const results = checkHost(inventory({
+      os: { id: 'debian', versionId: '12', name: 'Debian GNU/Linux 12 (bookworm)' },
+      packages: [],
+      runtimes: [{ runtime: 'openssl', version: '3.0.11', path: '/usr/bin/openssl' }],
+    }), { now })
+
+    expect(results).toEqual([])
+  })
+})
@@ -0,0 +1,83 @@
+import { apiKeyService, ApiKeyServiceError } from '@/lib/auth/api-key-service'
+import { hashApiKey } from '@/lib/auth/api-keys'
+import { mfaService } from '@/lib/auth/mfa-service'
+import { UserRole } from '@/lib/db/schema'
+
+// Rows the next select queries resolve to, in order
+const mockRows: unknown[][] = []
+
+jest.mock('@/lib/db/drizzle', () => {
+  const query = () => {
+    const chain: Record<string, unknown> = {}
+    for (const method of ['from', 'where', 'set', 'values', 'orderBy', 'returning']) {
+      chain[method] = () => chain
+    }
+    chain.limit = async () => mockRows.shift() ?? []
+    chain.then = (resolve: (rows: unknown[]) => unknown) => Promise.resolve([]).then(resolve)
+    return chain
+  }
+  return { db: { select: jest.fn(query), update: jest.fn(query), insert: jest.fn(query) } }
+})
+
+jest.mock('@/lib/auth/config', () => ({
+  apiKeyConfig: { keyPrefix: 'acc_', keyLength: 32, maxKeysPerUser: 10, expirationDays: 0, trustedProxies: 0 },
+}))
+
+jest.mock('@/lib/auth/mfa-service', () => ({
+  mfaService: { isRequired: jest.fn(), isEnabled: jest.fn() },
+}))
+
+const isRequired = mfaService.isRequired as jest.MockedFunction<typeof mfaService.isRequired>
+const isEnabled = mfaService.isEnabled as jest.MockedFunction<typeof mfaService.isEnabled>
+
+const key = `acc_${'ab'.repeat(32)}`
+
+const keyRow = {
+  id: 'key-1',
+  userId: '7',
+  name: 'CI',
+  key: hashApiKey(key),
+  permissions: ['scan:read'],
+  allowedIps: [],
+  expiresAt: null,
+  isActive: true,
+  revokedAt: null,
+}
+
+const user = { id: 7, email: 'dev@example.com', name: 'Dev', role: UserRole.USER, organizationId: 3 }
+
+describe('ApiKeyService.authenticate', () => {
+  beforeEach(() => {
+    mockRows.length = 0
+    mockRows.push([keyRow], [user])
+    jest.clearAllMocks()
+  })
+
+  it('resolves a key to a session limited to its scopes', async () => {
+    isRequired.mockResolvedValue(false)
+
+    const session = await apiKeyService.authenticate(key, null)
+
+    expect(session.user).toMatchObject({ id: 7, role: UserRole.USER, organizationId: 3 })
+    expect(session.apiKey).toEqual({ id: 'key-1', name: 'CI', permissions: ['scan:read'] })
+  })
+
+  it('refuses keys of users who have yet to set up required two-factor authentication', async () => {
+    isRequired.mockResolvedValue(true)
+    isEnabled.mockResolvedValue(false)
+
+    const attempt = apiKeyService.authenticate(key, null)
+
+    await expect(attempt).rejects.toBeInstanceOf(ApiKeyServiceError)
+    await expect(attempt).rejects.toMatchObject({ code: 'MFA_ENROLLMENT_REQUIRED', statusCode: 403 })
+    expect(isRequired).toHaveBeenCalledWith(user)
+  })
+
+  it('accepts keys once two-factor authentication is set up', async () => {
+    isRequired.mockResolvedValue(true)
+    isEnabled.mockResolvedValue(true)
+
+    await expect(apiKeyService.authenticate(key, null)).resolves.toMatchObject({ sessionId: 'api-key:key-1' })
+    expect(isEnabled).toHaveBeenCalledWith(7)
+  })
+})
@@ -0,0 +1,57 @@
+import {
+  canAccessOrganization,
+  hasPermission,
+  hasRole,
+  isAdmin,
+  isOrgAdmin,
+  Permission,
+  SessionData,
+} from '@/lib/auth/session'
+import { UserRole } from '@/lib/db/schema'
+
+jest.mock('next/headers', () => ({ cookies: jest.fn(), headers: jest.fn() }))
+
+jest.mock('@/lib/db/redis', () => ({ sessionManager: {} }))
+
+jest.mock('@/lib/db/queries', () => ({ logActivity: jest.fn() }))
+
+jest.mock('@/lib/auth/config', () => ({
+  apiKeyConfig: { keyPrefix: 'acc_', keyLength: 32, maxKeysPerUser: 10, expirationDays: 0, trustedProxies: 0 },
+}))
+
+jest.mock('@/lib/auth/api-key-service', () => ({
+  apiKeyService: {},
+  ApiKeyServiceError: class ApiKeyServiceError extends Error {},
+}))
+
+const session = (role: UserRole, fields: Partial<SessionData> = {}): SessionData => ({
+  user: { id: 7, email: 'admin@example.com', role, organizationId: 3 },
+  sessionId: 'session-1',
+  expires: new Date(Date.now() + 60_000).toISOString(),
+  lastActivity: new Date().toISOString(),
+  ...fields,
+})
+
+describe('session access checks', () => {
+  it('grants roles to sessions that are not held back', () => {
+    const admin = session(UserRole.ADMIN)
+
+    expect(isAdmin(admin)).toBe(true)
+    expect(isOrgAdmin(admin)).toBe(true)
+    expect(hasRole(admin, UserRole.ADMIN)).toBe(true)
+    expect(canAccessOrganization(admin, 9)).toBe(true)
+    expect(hasPermission(admin, Permission.SCAN_READ)).toBe(true)
+  })
+
+  it('grants no role until required two-factor authentication is set up', () => {
+    const admin = session(UserRole.ADMIN, { mfaEnrollmentRequired: true })
+    const orgAdmin = session(UserRole.ORG_ADMIN, { mfaEnrollmentRequired: true })
+
+    expect(isAdmin(admin)).toBe(false)
+    expect(isOrgAdmin(admin)).toBe(false)
+    expect(isOrgAdmin(orgAdmin)).toBe(false)
+    expect(hasRole(admin, UserRole.ADMIN, UserRole.USER)).toBe(false)
+    expect(canAccessOrganization(orgAdmin, 3)).toBe(false)
+    expect(hasPermission(admin, Permission.SCAN_READ)).toBe(false)
+  })
+})
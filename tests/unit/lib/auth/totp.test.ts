@@ -0,0 +1,65 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateBackupCodes,
+  generateTotpSecret,
+  normalizeBackupCode,
+  totpCode,
+  verifyTotp,
+} from '@/lib/auth/totp'
+
+// RFC 6238 appendix B test secret for SHA-1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+const options = { digits: 6, period: 30, algorithm: 'SHA1' as const }
+
+describe('TOTP', () => {
+  it('round-trips base32 secrets', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890')
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString()).toBe('12345678901234567890')
+
+    const secret = generateTotpSecret()
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(base32Encode(base32Decode(secret))).toBe(secret)
+  })
+
+  it('matches the RFC 6238 test vectors', () => {
+    const eightDigits = { ...options, digits: 8 }
+
+    expect(totpCode(RFC_SECRET, Math.floor(59 / 30), eightDigits)).toBe('94287082')
+    expect(totpCode(RFC_SECRET, Math.floor(1111111109 / 30), eightDigits)).toBe('07081804')
+    expect(totpCode(RFC_SECRET, Math.floor(1234567890 / 30), eightDigits)).toBe('89005924')
+  })
+
+  it('accepts codes within the drift window and rejects replays', () => {
+    const now = 1234567890 * 1000
+    const step = Math.floor(1234567890 / 30)
+    const current = totpCode(RFC_SECRET, step, options)
+    const previous = totpCode(RFC_SECRET, step - 1, options)
+    const stale = totpCode(RFC_SECRET, step - 2, options)
+
+    expect(verifyTotp(RFC_SECRET, current, { ...options, now })).toBe(step)
+    expect(verifyTotp(RFC_SECRET, previous, { ...options, now })).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, stale, { ...options, now })).toBeNull()
+    expect(verifyTotp(RFC_SECRET, current, { ...options, now, afterStep: step })).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '12345', { ...options, now })).toBeNull()
+  })
+
+  it('builds otpauth URIs for authenticator apps', () => {
+    const uri = buildOtpauthUri({ ...options, issuer: 'AppCompatCheck', account: 'ada@example.com', secret: RFC_SECRET })
+
+    expect(uri).toBe(
+      'otpauth://totp/AppCompatCheck%3Aada%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=AppCompatCheck&algorithm=SHA1&digits=6&period=30'
+    )
+  })
+
+  it('generates readable single-use backup codes', () => {
+    const codes = generateBackupCodes(10, 8)
+
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    codes.forEach(code => expect(code).toMatch(/^[a-hjkmnp-z2-9]{4}-[a-hjkmnp-z2-9]{4}$/))
+    expect(normalizeBackupCode(' K7PQ-x3mz ')).toBe('k7pqx3mz')
+  })
+})
@@ -0,0 +1,115 @@
+import {
+  EXIT_ERROR,
+  EXIT_PASSED,
+  EXIT_THRESHOLD_FAILED,
+  runScanCommand,
+  ScanCommandOptions,
+} from '@/lib/cli/scan-command'
+import { ApiClientError } from '@/lib/cli/api-client'
+import type { ScanReport } from '@/lib/cli/scan-report'
+import type { AnalysisResult } from '@/lib/compatibility/analysis-engine'
+
+const mockClient = {
+  uploadFile: jest.fn(),
+  startScan: jest.fn(),
+  getScan: jest.fn(),
+  cancelScan: jest.fn(),
+}
+
+jest.mock('@/lib/cli/api-client', () => ({
+  ...jest.requireActual('@/lib/cli/api-client'),
+  AppCompatCheckClient: jest.fn(() => mockClient),
+}))
+
+const options = (fields: Partial<ScanCommandOptions> = {}): ScanCommandOptions => ({
+  url: 'http://localhost:3000',
+  apiKey: 'acc_key',
+  files: ['package.json'],
+  project: 'billing',
+  name: 'CI scan',
+  failOn: 'high',
+  failOnRegression: false,
+  timeoutSeconds: 60,
+  pollIntervalSeconds: 0,
+  ...fields,
+})
+
+const finding = (severity: string): AnalysisResult => ({
+  ruleId: 'rule-1',
+  status: 'failed' as AnalysisResult['status'],
+  severity: severity as AnalysisResult['severity'],
+  message: 'Unsupported version',
+  details: {},
+  recommendations: 'Upgrade',
+  affectedComponents: ['Package: left-pad@1.0.0'],
+  metadata: {},
+  confidence: 0.9,
+})
+
+const report = (status: string, items: AnalysisResult[] = []): ScanReport => ({
+  scan: {
+    id: 'scan-1',
+    projectId: null,
+    name: 'CI scan',
+    status,
+    progress: status === 'running' ? 50 : 100,
+    error: status === 'failed' ? 'Worker crashed' : null,
+    createdAt: '2026-10-19T12:00:00Z',
+    completedAt: status === 'running' ? null : '2026-10-19T12:01:00Z',
+  },
+  results: { items },
+  metrics: { riskScore: 0.2 },
+})
+
+describe('runScanCommand', () => {
+  const output = { log: jest.fn(), error: jest.fn() }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockClient.uploadFile.mockResolvedValue({
+      uploadId: 41,
+      originalName: 'package.json',
+      fileSize: 120,
+      processResult: { totalRows: 3, validRows: 3, invalidRows: 0, hasErrors: false },
+    })
+    mockClient.startScan.mockResolvedValue({ scanId: 'scan-1', status: 'queued', name: 'CI scan' })
+  })
+
+  it('exits 0 when the finished scan passes the thresholds', async () => {
+    mockClient.getScan
+      .mockResolvedValueOnce(report('running'))
+      .mockResolvedValueOnce(report('completed', [finding('medium')]))
+
+    expect(await runScanCommand(options(), output)).toBe(EXIT_PASSED)
+    expect(mockClient.startScan).toHaveBeenCalledWith(expect.objectContaining({ uploadIds: [41], project: 'billing' }))
+    expect(mockClient.getScan).toHaveBeenCalledTimes(2)
+  })
+
+  it('exits 1 when a threshold fails', async () => {
+    mockClient.getScan.mockResolvedValue(report('completed', [finding('critical')]))
+
+    expect(await runScanCommand(options(), output)).toBe(EXIT_THRESHOLD_FAILED)
+  })
+
+  it('exits 2 when the scan itself fails', async () => {
+    mockClient.getScan.mockResolvedValue(report('failed'))
+
+    expect(await runScanCommand(options(), output)).toBe(EXIT_ERROR)
+    expect(output.error).toHaveBeenCalledWith('Scan failed: Worker crashed')
+  })
+
+  it('exits 2 and names the missing scopes when the key may not scan', async () => {
+    mockClient.uploadFile.mockRejectedValue(new ApiClientError('Insufficient permissions', 'HTTP_ERROR', 403))
+
+    expect(await runScanCommand(options(), output)).toBe(EXIT_ERROR)
+    expect(output.error).toHaveBeenCalledWith('Insufficient permissions: the API key needs the scan:create and scan:read scopes')
+    expect(mockClient.startScan).not.toHaveBeenCalled()
+  })
+
+  it('exits 2 when the key is refused', async () => {
+    mockClient.uploadFile.mockRejectedValue(new ApiClientError('Invalid API key', 'UNAUTHORIZED', 401))
+
+    expect(await runScanCommand(options(), output)).toBe(EXIT_ERROR)
+    expect(output.error).toHaveBeenCalledWith('Authentication failed: check the API key')
+  })
+})
@@ -0,0 +1,111 @@
+import {
+  buildJUnitReport,
+  evaluateThresholds,
+  ScanReport,
+} from '@/lib/cli/scan-report'
+import { CliUsageError, parseScanOptions } from '@/lib/cli/scan-command'
+import type { AnalysisResult } from '@/lib/compatibility/analysis-engine'
+
+function result(overrides: Partial<AnalysisResult>): AnalysisResult {
+  return {
+    ruleId: 'rule-1',
+    status: 'failed' as AnalysisResult['status'],
+    severity: 'high' as AnalysisResult['severity'],
+    message: 'Unsupported version',
+    details: {},
+    recommendations: 'Upgrade',
+    affectedComponents: ['Application: billing'],
+    metadata: {},
+    confidence: 0.9,
+    ...overrides,
+  }
+}
+
+function report(items: AnalysisResult[], extra: Partial<ScanReport> = {}): ScanReport {
+  return {
+    scan: {
+      id: 'scan-1',
+      projectId: null,
+      name: 'CI <main>',
+      status: 'completed',
+      progress: 100,
+      error: null,
+      createdAt: '2026-03-10T10:00:00.000Z',
+      completedAt: '2026-03-10T10:01:00.000Z',
+    },
+    results: { items },
+    metrics: { riskScore: 0.42 },
+    ...extra,
+  }
+}
+
+describe('CLI scan report', () => {
+  it('fails on failed results at or above the severity threshold', () => {
+    const scan = report([
+      result({ severity: 'medium' as AnalysisResult['severity'] }),
+      result({ severity: 'critical' as AnalysisResult['severity'], suppression: { reason: 'triage', justification: 'Accepted' } }),
+    ])
+
+    expect(evaluateThresholds(scan, { failOn: 'high', failOnRegression: false }).passed).toBe(true)
+    expect(evaluateThresholds(scan, { failOn: 'medium', failOnRegression: false })).toEqual({
+      passed: false,
+      violations: ['1 failed result(s) at severity medium or above'],
+    })
+  })
+
+  it('checks the risk score as a percentage and the baseline gate', () => {
+    const scan = report([], {
+      results: {
+        items: [],
+        baseline: {
+          passed: false,
+          regressions: 2,
+          project: 'billing',
+          baselineScanId: 'scan-0',
+          summary: { new: 2, fixed: 0, unchanged: 1 },
+          riskScoreDelta: 0.1,
+        },
+      },
+    })
+
+    expect(evaluateThresholds(scan, { failOn: 'none', maxRiskScore: 50, failOnRegression: false }).passed).toBe(true)
+    expect(evaluateThresholds(scan, { failOn: 'none', maxRiskScore: 40, failOnRegression: true }).violations).toEqual([
+      'Risk score 42% is above the maximum of 40%',
+      '2 new failed finding(s) compared to the project baseline',
+    ])
+  })
+
+  it('writes failures and skipped results to JUnit XML', () => {
+    const xml = buildJUnitReport(report([
+      result({}),
+      result({ status: 'passed' as AnalysisResult['status'], affectedComponents: ['Application: web'] }),
+      result({ suppression: { reason: 'suppression_rule', justification: 'Known & accepted' } }),
+    ]))
+
+    expect(xml).toContain('<testsuite name="CI &lt;main&gt;" id="scan-1" tests="3" failures="1" errors="0" skipped="1"')
+    expect(xml).toContain('<failure message="Unsupported version" type="high">Upgrade</failure>')
+    expect(xml).toContain('<testcase classname="rule-1" name="Application: web"/>')
+    expect(xml).toContain('<skipped message="Known &amp; accepted"/>')
+  })
+
+  it('parses scan options from flags and the environment', () => {
+    const options = parseScanOptions(
+      ['--project', 'billing', '--file', 'package-lock.json', '-f', 'sbom.json', '--fail-on', 'high', '--max-risk', '30'],
+      { APPCOMPATCHECK_API_KEY: 'acc_test', APPCOMPATCHECK_URL: 'https://scan.example.com' }
+    )
+
+    expect(options).toMatchObject({
+      url: 'https://scan.example.com',
+      apiKey: 'acc_test',
+      project: 'billing',
+      files: ['package-lock.json', 'sbom.json'],
+      failOn: 'high',
+      maxRiskScore: 30,
+      failOnRegression: false,
+    })
+    expect(parseScanOptions(['--help'], {})).toBeNull()
+    expect(() => parseScanOptions(['--file', 'a.json'], {})).toThrow(CliUsageError)
+    expect(() => parseScanOptions(['--file', 'a.json', '--fail-on', 'severe'], { APPCOMPATCHECK_API_KEY: 'k' }))
+      .toThrow('--fail-on must be one of')
+  })
+})
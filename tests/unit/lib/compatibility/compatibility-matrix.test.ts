@@ -0,0 +1,126 @@
+import {
+  evaluateCompatibilityMatrix,
+  parseLooseVersion,
+  parseMatrixImport,
+  serializeMatrix,
+  MatrixRange,
+} from '@/lib/compatibility/compatibility-matrix'
+import { ResultStatus } from '@/lib/compatibility/analysis-engine'
+
+describe('compatibility matrix', () => {
+  const matrix: MatrixRange[] = [
+    {
+      id: 'good-1',
+      application: 'Payments API',
+      applicationRange: '>=2.0.0 <3.0.0',
+      securityTool: 'Snyk',
+      toolRange: '>=1.1000.0',
+      status: 'known_good',
+      severity: 'low',
+    },
+    {
+      id: 'bad-1',
+      application: 'Payments API',
+      applicationRange: '>=2.4.0 <2.5.0',
+      securityTool: 'Snyk',
+      toolRange: '<1.1200.0',
+      status: 'known_bad',
+      severity: 'high',
+      notes: 'Agent crashes on startup',
+      recommendations: 'Upgrade Snyk to 1.1200 or later',
+    },
+  ]
+
+  const row = (version: string, toolVersion: string) => ({
+    application: 'payments api',
+    version,
+    security_tool: 'SNYK',
+    tool_version: toolVersion,
+    compatibility_status: 'unknown' as const,
+  })
+
+  describe('parseLooseVersion', () => {
+    it('normalizes common version spellings', () => {
+      expect(parseLooseVersion('v2.1.0')).toEqual({ raw: 'v2.1.0', version: '2.1.0', exact: true })
+      expect(parseLooseVersion('2020.3')).toEqual({ raw: '2020.3', version: '2020.3.0', exact: false })
+      expect(parseLooseVersion('11.0 SP2')?.version).toBe('11.0.0')
+      expect(parseLooseVersion('latest')).toBeNull()
+      expect(parseLooseVersion(undefined)).toBeNull()
+    })
+  })
+
+  describe('evaluateCompatibilityMatrix', () => {
+    it('fails when a known-bad range matches, even if a known-good range also matches', () => {
+      const result = evaluateCompatibilityMatrix([row('2.4.3', '1.1100.0')], matrix)[0]!
+
+      expect(result.status).toBe(ResultStatus.FAILED)
+      expect(result.severity).toBe('high')
+      expect(result.ruleId).toBe('matrix:bad-1')
+      expect(result.message).toContain('known to be incompatible')
+      expect(result.message).toContain('">=2.4.0 <2.5.0"')
+      expect(result.details.otherMatches).toEqual([
+        expect.objectContaining({ id: 'good-1', status: 'known_good' }),
+      ])
+      expect(result.recommendations).toBe('Upgrade Snyk to 1.1200 or later')
+    })
+
+    it('passes when only known-good ranges match', () => {
+      const result = evaluateCompatibilityMatrix([row('2.6', '1.1250.0')], matrix)[0]!
+
+      expect(result.status).toBe(ResultStatus.PASSED)
+      expect(result.ruleId).toBe('matrix:good-1')
+      // "2.6" had to be coerced, so the match is less certain
+      expect(result.confidence).toBe(0.8)
+    })
+
+    it('warns when the pair is known but no range covers the versions', () => {
+      const result = evaluateCompatibilityMatrix([row('3.0.0', '1.1250.0')], matrix)[0]!
+
+      expect(result.status).toBe(ResultStatus.WARNING)
+      expect(result.ruleId).toBe('matrix:uncovered')
+      expect(result.details.knownRanges).toHaveLength(2)
+    })
+
+    it('ignores pairs that are not in the matrix', () => {
+      expect(evaluateCompatibilityMatrix([{ ...row('2.4.3', '1.0.0'), security_tool: 'Trivy' }], matrix)).toEqual([])
+    })
+  })
+
+  describe('import and export', () => {
+    it('round-trips through CSV and JSON', () => {
+      for (const format of ['csv', 'json'] as const) {
+        const { entries, errors } = parseMatrixImport(serializeMatrix(matrix, format), format)
+
+        expect(errors).toEqual([])
+        expect(entries).toHaveLength(2)
+        expect(entries[1]).toEqual({
+          application: 'Payments API',
+          applicationRange: '>=2.4.0 <2.5.0',
+          securityTool: 'Snyk',
+          toolRange: '<1.1200.0',
+          status: 'known_bad',
+          severity: 'high',
+          notes: 'Agent crashes on startup',
+          recommendations: 'Upgrade Snyk to 1.1200 or later',
+        })
+      }
+    })
+
+    it('reports invalid rows and keeps the valid ones', () => {
+      const csv = [
+        'Application,Application Range,Security Tool,Tool Range,Status',
+        'Web,^1.0.0,Trivy,*,known_good',
+        'Web,not-a-range,Trivy,*,known_good',
+        'Web,*,Trivy,*,maybe',
+      ].join('\n')
+
+      const { entries, errors } = parseMatrixImport(csv, 'csv')
+
+      expect(entries).toHaveLength(1)
+      expect(entries[0]).toMatchObject({ application: 'Web', severity: 'medium' })
+      expect(errors).toHaveLength(2)
+      expect(errors[0]).toMatch(/^Row 2: applicationRange: Invalid version range/)
+      expect(errors[1]).toMatch(/^Row 3: status/)
+    })
+  })
+})
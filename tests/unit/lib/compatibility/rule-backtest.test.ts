@@ -0,0 +1,65 @@
+import { backtestRule } from '@/lib/compatibility/rule-backtest'
+import {
+  CompatibilityAnalysisEngine,
+  CompatibilityRule,
+} from '@/lib/compatibility/analysis-engine'
+import type { CompatibilityDataEntry } from '@/lib/upload/file-handler'
+
+describe('rule backtest', () => {
+  const context = { sessionId: 'rule_test', userId: 1 }
+
+  const entry = (fields: Partial<CompatibilityDataEntry>): CompatibilityDataEntry => ({
+    application: 'billing',
+    security_tool: 'SonarQube',
+    compatibility_status: 'partial',
+    ...fields,
+  })
+
+  const entries = [
+    entry({ tool_version: '2.4.1', severity: 'high' }),
+    entry({ application: 'payments', security_tool: 'Checkmarx', tool_version: '9.5.0', severity: 'high' }),
+    entry({ security_tool: 'Snyk', tool_version: '1.0.0', severity: 'low' }),
+  ]
+
+  const rule = (fields: Partial<CompatibilityRule> = {}): CompatibilityRule => ({
+    id: 'rule-1',
+    name: 'Old SonarQube',
+    category: 'security_tool',
+    severity: 'high',
+    conditions: { $and: [{ security_tool: 'SonarQube' }, { tool_version: { $semver: '<3' } }] },
+    isActive: true,
+    ...fields,
+  })
+
+  const run = (draft: CompatibilityRule, active: CompatibilityRule[]) =>
+    backtestRule(new CompatibilityAnalysisEngine(), draft, active, [
+      { dataType: 'compatibility_data', entries },
+    ], context)
+
+  it('reports what a new rule would flag as new findings', async () => {
+    const backtest = await run(rule({ id: 'new' }), [])
+
+    expect(backtest.counts.entriesTested).toBe(3)
+    expect(backtest.counts.matched).toBe(1)
+    expect(backtest.results).toHaveLength(1)
+    expect(backtest.diff.summary).toEqual({ new: 1, fixed: 0, unchanged: 0 })
+  })
+
+  it('diffs a draft against the stored version of the same rule', async () => {
+    const draft = rule({ conditions: { severity: 'high' } })
+    const backtest = await run(draft, [rule()])
+
+    expect(backtest.counts.matched).toBe(2)
+    expect(backtest.diff.summary.unchanged).toBe(1)
+    expect(backtest.diff.summary.new).toBe(1)
+    expect(backtest.diff.new[0]!.affectedComponents.join(' ')).toContain('payments')
+  })
+
+  it('counts findings the draft no longer reports as fixed', async () => {
+    const draft = rule({ conditions: { security_tool: 'Trivy' } })
+    const backtest = await run(draft, [rule()])
+
+    expect(backtest.counts.matched).toBe(0)
+    expect(backtest.diff.summary).toEqual({ new: 0, fixed: 1, unchanged: 0 })
+  })
+})
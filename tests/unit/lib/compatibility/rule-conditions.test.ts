@@ -0,0 +1,114 @@
+import { evaluateRuleConditions, validateRuleConditions } from '@/lib/compatibility/rule-conditions'
+
+describe('rule conditions', () => {
+  const entry = {
+    tool: 'SonarQube',
+    version: '2.4.1',
+    severity: 'high',
+    cveScore: 7.5,
+    tags: ['legacy', 'java'],
+    dependencies: [
+      { name: 'log4j', version: '2.14.0' },
+      { name: 'jackson', version: '2.15.2' },
+    ],
+  }
+
+  describe('evaluateRuleConditions', () => {
+    it('keeps OR semantics for top-level keys', () => {
+      const result = evaluateRuleConditions(entry, { tool: 'snyk', severity: 'high' })
+
+      expect(result.matches).toBe(true)
+      expect(result.matchedConditions).toEqual(['severity'])
+    })
+
+    it('requires every branch of $and to match', () => {
+      const conditions = {
+        $and: [
+          { tool: { $eq: 'SonarQube' } },
+          { version: { $semver: '>=2.0 <3' } },
+        ],
+      }
+
+      expect(evaluateRuleConditions(entry, conditions)).toEqual({
+        matches: true,
+        matchedConditions: ['$and[0].tool', '$and[1].version'],
+      })
+      expect(evaluateRuleConditions({ ...entry, version: '3.1.0' }, conditions).matches).toBe(false)
+    })
+
+    it('supports nested $or and $not groups', () => {
+      const conditions = {
+        $and: [
+          { $or: [{ tool: 'snyk' }, { tool: 'sonar' }] },
+          { $not: { severity: { $in: ['low', 'medium'] } } },
+        ],
+      }
+
+      expect(evaluateRuleConditions(entry, conditions).matches).toBe(true)
+      expect(evaluateRuleConditions({ ...entry, severity: 'low' }, conditions).matches).toBe(false)
+    })
+
+    it('combines operators in one field condition with AND', () => {
+      expect(evaluateRuleConditions(entry, { cveScore: { $gte: 7, $lte: 7.5 } }).matches).toBe(true)
+      expect(evaluateRuleConditions(entry, { cveScore: { $gte: 7, $lt: 7.5 } }).matches).toBe(false)
+    })
+
+    it('evaluates $exists, $nin and $contains', () => {
+      expect(evaluateRuleConditions(entry, { missing: { $exists: false } }).matches).toBe(true)
+      expect(evaluateRuleConditions(entry, { tool: { $exists: true, $nin: ['Snyk', 'Trivy'] } }).matches).toBe(true)
+      expect(evaluateRuleConditions(entry, { tags: { $contains: 'LEGACY' } }).matches).toBe(true)
+      expect(evaluateRuleConditions(entry, { tool: { $contains: 'qube' } }).matches).toBe(true)
+    })
+
+    it('matches array elements with $elemMatch', () => {
+      const vulnerableLog4j = {
+        dependencies: {
+          $elemMatch: { name: { $eq: 'log4j' }, version: { $semver: '<2.17.0' } },
+        },
+      }
+
+      expect(evaluateRuleConditions(entry, vulnerableLog4j).matches).toBe(true)
+      expect(evaluateRuleConditions(entry, { tags: { $elemMatch: { $regex: '^ja' } } }).matches).toBe(true)
+      expect(evaluateRuleConditions(entry, { tool: { $elemMatch: { $eq: 'x' } } }).matches).toBe(false)
+    })
+
+    it('does not match missing values against string conditions', () => {
+      expect(evaluateRuleConditions({}, { tool: 'def' }).matches).toBe(false)
+    })
+  })
+
+  describe('validateRuleConditions', () => {
+    it('accepts well-formed condition trees', () => {
+      expect(validateRuleConditions({
+        $or: [
+          { tool: '/sonar/', version: { $semver: '^2.0.0' } },
+          { tags: { $elemMatch: { $in: ['legacy'] } }, cveScore: { $gte: '7' } },
+        ],
+      })).toEqual([])
+    })
+
+    it('reports unknown operators and bad operands with their path', () => {
+      const errors = validateRuleConditions({
+        $xor: [],
+        version: { $semver: 'not a range' },
+        $and: [{ tool: { $regex: '(' } }, { cveScore: { $gt: 'high', $foo: 1 } }],
+        $not: {},
+      })
+
+      expect(errors).toEqual([
+        '$xor: unknown logical operator',
+        'version.$semver: invalid semver range',
+        '$and[0].tool: invalid regular expression',
+        '$and[1].cveScore.$gt: expected a number (use $semver to compare versions)',
+        '$and[1].cveScore.$foo: unknown operator',
+        '$not: expected a non-empty condition object',
+      ])
+    })
+
+    it('rejects empty and non-object conditions', () => {
+      expect(validateRuleConditions({})).toEqual(['conditions: expected a non-empty condition object'])
+      expect(validateRuleConditions([])).toHaveLength(1)
+      expect(validateRuleConditions({ nested: { field: 1 } })).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,57 @@
+import { parseRuleExamples, runRuleExamples } from '@/lib/compatibility/rule-examples'
+import {
+  CompatibilityAnalysisEngine,
+  CompatibilityRule,
+  ResultStatus,
+} from '@/lib/compatibility/analysis-engine'
+
+describe('rule examples', () => {
+  const engine = new CompatibilityAnalysisEngine()
+
+  const rule: CompatibilityRule = {
+    id: 'rule-1',
+    name: 'Old SonarQube',
+    category: 'security_tool',
+    severity: 'high',
+    conditions: { $and: [{ security_tool: 'SonarQube' }, { tool_version: { $semver: '<3' } }] },
+    isActive: true,
+  }
+
+  const oldSonar = { application: 'billing', security_tool: 'SonarQube', tool_version: '2.4.1', compatibility_status: 'partial' }
+  const snyk = { application: 'billing', security_tool: 'Snyk', tool_version: '1.0.0', compatibility_status: 'compatible' }
+
+  it('passes when every example produces its expected status', async () => {
+    const matched = await engine.analyzeEntry(oldSonar as any, rule, [])
+
+    const report = await runRuleExamples(engine, rule, [
+      { entry: oldSonar, expectedStatus: matched!.status },
+      { description: 'other tools', entry: snyk, expectedStatus: null },
+    ])
+
+    expect(report).toEqual({ passed: true, total: 2, failures: [] })
+  })
+
+  it('reports examples whose status differs', async () => {
+    const report = await runRuleExamples(engine, rule, [
+      { description: 'other tools', entry: snyk, expectedStatus: ResultStatus.FAILED },
+    ])
+
+    expect(report.passed).toBe(false)
+    expect(report.failures).toEqual([{
+      index: 0,
+      description: 'other tools',
+      expectedStatus: ResultStatus.FAILED,
+      actualStatus: null,
+      message: 'Example 1 (other tools): expected failed, got no match',
+    }])
+  })
+
+  it('drops malformed stored examples', () => {
+    expect(parseRuleExamples([
+      { entry: snyk, expectedStatus: null },
+      { entry: snyk, expectedStatus: 'broken' },
+      'not an example',
+    ])).toHaveLength(1)
+    expect(parseRuleExamples(null)).toEqual([])
+  })
+})
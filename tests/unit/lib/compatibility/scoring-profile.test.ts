@@ -0,0 +1,82 @@
+import { ZodError } from 'zod'
+import {
+  DEFAULT_SCORING_PROFILE,
+  explainResults,
+  mergeScoringProfile,
+  parseScoringProfile,
+} from '@/lib/compatibility/scoring-profile'
+import {
+  AnalysisResult,
+  MLAnalyzer,
+  ResultStatus,
+  RuleSeverity,
+  calculateOverallRiskScore,
+} from '@/lib/compatibility/analysis-engine'
+
+describe('scoring profiles', () => {
+  const result = (fields: Partial<AnalysisResult> = {}): AnalysisResult => ({
+    ruleId: 'rule-1',
+    status: ResultStatus.FAILED,
+    severity: RuleSeverity.HIGH,
+    message: 'Issue',
+    details: {},
+    recommendations: '',
+    affectedComponents: [],
+    metadata: { source: 'dependency_inventory' },
+    confidence: 1,
+    ...fields,
+  })
+
+  it('merges changed settings key by key and validates the result', () => {
+    const profile = mergeScoringProfile(DEFAULT_SCORING_PROFILE, {
+      patternWeights: { xss: 0.4 },
+      failThresholds: { critical: 0.8 },
+    })
+
+    expect(profile.patternWeights.xss).toBe(0.4)
+    expect(profile.patternWeights.sql_injection).toBe(0.9)
+    expect(profile.failThresholds).toEqual({ low: 0.3, medium: 0.5, high: 0.7, critical: 0.8 })
+    expect(DEFAULT_SCORING_PROFILE.patternWeights.xss).toBe(0.8)
+
+    expect(() => mergeScoringProfile(DEFAULT_SCORING_PROFILE, { warningRatio: 2 })).toThrow(ZodError)
+    expect(() => mergeScoringProfile(DEFAULT_SCORING_PROFILE, { unknownSetting: 1 })).toThrow(ZodError)
+  })
+
+  it('fills settings missing from a stored profile with defaults', () => {
+    const profile = parseScoringProfile({ defaultWeight: 0.4 })
+
+    expect(profile.defaultWeight).toBe(0.4)
+    expect(profile.statusWeights).toEqual(DEFAULT_SCORING_PROFILE.statusWeights)
+  })
+
+  it('explains a risk score by feature contributions', () => {
+    const analyzer = new MLAnalyzer()
+    const features = new Map([
+      ['pattern_xss', 0.8],
+      ['severity_score', 0.7],
+    ])
+
+    const breakdown = analyzer.explainRiskScore(features, [result(), result({ status: ResultStatus.PASSED })])
+    const total = breakdown.features.reduce((sum, feature) => sum + feature.contribution, 0)
+
+    expect(breakdown.features.map(feature => feature.weight)).toEqual([0.8, 0.8])
+    expect(total).toBeCloseTo(breakdown.base)
+    expect(breakdown.historicalAdjustment).toBeCloseTo(0.1)
+    expect(breakdown.value).toBeCloseTo(breakdown.base + 0.1)
+    expect(analyzer.calculateRiskScore(features)).toBeCloseTo(breakdown.base)
+  })
+
+  it('scores and explains the overall risk score with the given profile', () => {
+    const results = [result(), result({ status: ResultStatus.PASSED, severity: RuleSeverity.LOW })]
+    const strict = mergeScoringProfile(DEFAULT_SCORING_PROFILE, { statusWeights: { passed: 0.5 } })
+
+    expect(calculateOverallRiskScore(results)).toBeCloseTo((1.5 + 0.05) / 4)
+    expect(calculateOverallRiskScore(results, strict)).toBeCloseTo((1.5 + 0.25) / 4)
+
+    const [explained] = explainResults(results, DEFAULT_SCORING_PROFILE)
+    expect(explained!.explanation).toEqual({
+      confidence: { value: 1, components: [{ name: 'dependency_inventory', value: 1 }] },
+      overall: { statusWeight: 1, severityMultiplier: 1.5, score: 1.5, maxScore: 2, counted: true },
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { findSuppression, globMatches, suppressionMatches } from '@/lib/findings/suppressions'
+import { SuppressionKind, SuppressionRule } from '@/lib/findings/types'
+import { fingerprintResult } from '@/lib/scans/scan-diff'
+import { AnalysisResult, ResultStatus, RuleSeverity, calculateOverallRiskScore } from '@/lib/compatibility/analysis-engine'
+
+describe('finding suppressions', () => {
+  const now = new Date('2026-06-01T00:00:00Z')
+
+  const rule = (fields: Partial<SuppressionRule>): SuppressionRule => ({
+    id: 'suppression-1',
+    kind: SuppressionKind.RULE,
+    pattern: '*',
+    project: null,
+    justification: 'Tracked upstream',
+    expiresAt: new Date('2026-12-31T00:00:00Z'),
+    revokedAt: null,
+    ...fields,
+  })
+
+  const result = (fields: Partial<AnalysisResult> = {}): AnalysisResult => ({
+    ruleId: 'vulnerability:GHSA-xxxx',
+    status: ResultStatus.FAILED,
+    severity: RuleSeverity.HIGH,
+    message: 'Vulnerable dependency',
+    details: {},
+    recommendations: '',
+    affectedComponents: ['Package: lodash@4.17.15', 'Manifest: package-lock.json'],
+    metadata: {},
+    confidence: 1,
+    ...fields,
+  })
+
+  it('matches globs anchored and case-insensitively', () => {
+    expect(globMatches('vulnerability:*', 'Vulnerability:GHSA-1')).toBe(true)
+    expect(globMatches('lodash@4.?.*', 'lodash@4.1.0')).toBe(true)
+    expect(globMatches('*lodash*', 'Package: lodash@4.17.15')).toBe(true)
+    expect(globMatches('lodash', 'lodash-es')).toBe(false)
+    expect(globMatches('lodash*x', 'lodash-es')).toBe(false)
+    expect(globMatches('a.b', 'axb')).toBe(false)
+    expect(globMatches('**', '')).toBe(true)
+  })
+
+  it('matches pathological globs in linear time', () => {
+    const finding = result({ affectedComponents: [`Package: ${'a'.repeat(40)}`] })
+    const glob = '*a'.repeat(12) + 'b'
+    const started = Date.now()
+
+    expect(globMatches(glob, 'a'.repeat(10_000))).toBe(false)
+    expect(suppressionMatches(rule({ kind: SuppressionKind.COMPONENT, pattern: glob }), finding, '')).toBe(false)
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+
+  it('matches by fingerprint, rule glob and component glob', () => {
+    const finding = result()
+    const fingerprint = fingerprintResult(finding)
+
+    expect(suppressionMatches(rule({ kind: SuppressionKind.FINGERPRINT, pattern: fingerprint.toUpperCase() }), finding, fingerprint)).toBe(true)
+    expect(suppressionMatches(rule({ kind: SuppressionKind.RULE, pattern: 'vulnerability:*' }), finding, fingerprint)).toBe(true)
+    expect(suppressionMatches(rule({ kind: SuppressionKind.RULE, pattern: 'inventory:*' }), finding, fingerprint)).toBe(false)
+    expect(suppressionMatches(rule({ kind: SuppressionKind.COMPONENT, pattern: 'lodash@4.*' }), finding, fingerprint)).toBe(true)
+    expect(suppressionMatches(rule({ kind: SuppressionKind.COMPONENT, pattern: 'Manifest: *.json' }), finding, fingerprint)).toBe(true)
+    expect(suppressionMatches(rule({ kind: SuppressionKind.COMPONENT, pattern: 'express@*' }), finding, fingerprint)).toBe(false)
+  })
+
+  it('ignores expired, revoked and other-project rules', () => {
+    const finding = result()
+    const fingerprint = fingerprintResult(finding)
+
+    expect(findSuppression(finding, fingerprint, [rule({ expiresAt: new Date('2026-05-01T00:00:00Z') })], 'web', now)).toBeNull()
+    expect(findSuppression(finding, fingerprint, [rule({ revokedAt: new Date('2026-05-01T00:00:00Z') })], 'web', now)).toBeNull()
+    expect(findSuppression(finding, fingerprint, [rule({ project: 'api' })], 'web', now)).toBeNull()
+    expect(findSuppression(finding, fingerprint, [rule({ project: 'web' })], 'web', now)).toEqual({
+      reason: 'suppression_rule',
+      justification: 'Tracked upstream',
+      suppressionId: 'suppression-1',
+      expiresAt: '2026-12-31T00:00:00.000Z',
+    })
+  })
+
+  it('leaves suppressed results out of the risk score', () => {
+    const passed = result({ status: ResultStatus.PASSED, severity: RuleSeverity.LOW })
+    const failed = result()
+    const suppressed = { ...failed, suppression: { reason: 'suppression_rule' as const, justification: 'Accepted' } }
+
+    expect(calculateOverallRiskScore([passed, suppressed])).toBe(calculateOverallRiskScore([passed]))
+    expect(calculateOverallRiskScore([passed, failed])).toBeGreaterThan(calculateOverallRiskScore([passed]))
+    expect(calculateOverallRiskScore([suppressed])).toBe(0)
+  })
+})
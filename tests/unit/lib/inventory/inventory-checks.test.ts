@@ -0,0 +1,85 @@
+import { checkInventory } from '@/lib/inventory/inventory-checks'
+import { buildPurl } from '@/lib/inventory/manifest-parsers'
+import { InventoryComponent } from '@/lib/inventory/types'
+import { ResultStatus } from '@/lib/compatibility/analysis-engine'
+
+const npm = (name: string, version: string, fields: Partial<InventoryComponent> = {}): InventoryComponent => ({
+  name,
+  version,
+  ecosystem: 'npm',
+  manifest: 'package-lock',
+  purl: buildPurl('npm', name, version),
+  direct: false,
+  dev: false,
+  ...fields,
+})
+
+describe('checkInventory', () => {
+  it('reports deprecated packages under the deprecated_api pattern', () => {
+    const [result, ...rest] = checkInventory([npm('request', '2.88.2', { direct: true })], { source: 'package-lock.json' })
+
+    expect(rest).toEqual([])
+    expect(result).toMatchObject({
+      ruleId: 'inventory:deprecated_package',
+      status: ResultStatus.WARNING,
+      severity: 'medium',
+      affectedComponents: ['Package: request@2.88.2', 'Manifest: package-lock.json'],
+      metadata: { source: 'dependency_inventory', pattern: 'deprecated_api' },
+    })
+    expect(result!.recommendations).toContain('fetch')
+  })
+
+  it('only flags deprecated version ranges when the entry has one', () => {
+    expect(checkInventory([npm('core-js', '3.33.0')])).toEqual([])
+    expect(checkInventory([npm('core-js', '2.6.12')])[0]!.ruleId).toBe('inventory:deprecated_package')
+  })
+
+  it('reports duplicate major versions', () => {
+    const [result] = checkInventory([
+      npm('debug', '2.6.9', { path: 'node_modules/express/node_modules/debug' }),
+      npm('debug', '4.3.4'),
+      npm('debug', '4.3.1', { path: 'node_modules/x/node_modules/debug' }),
+    ])
+
+    expect(result).toMatchObject({
+      ruleId: 'inventory:duplicate_major',
+      status: ResultStatus.WARNING,
+      details: { majors: [2, 4] },
+      metadata: { pattern: 'version_conflict' },
+    })
+    expect(result!.details.components).toHaveLength(3)
+  })
+
+  it('reports resolved versions outside the declared range', () => {
+    const [result] = checkInventory([npm('react', '17.0.2', { direct: true, requested: '^18.2.0' })])
+
+    expect(result).toMatchObject({ ruleId: 'inventory:version_conflict', status: ResultStatus.FAILED, severity: 'high' })
+  })
+
+  it('reports conflicting pins in ecosystems that resolve a single version', () => {
+    const pin = (version: string): InventoryComponent => ({
+      name: 'django',
+      version,
+      ecosystem: 'pypi',
+      manifest: 'requirements',
+      purl: buildPurl('pypi', 'django', version),
+      direct: true,
+      dev: false,
+    })
+
+    const [result] = checkInventory([pin('4.2.7'), pin('5.0.0')])
+
+    expect(result!.ruleId).toBe('inventory:version_conflict')
+    expect(result!.message).toContain('4.2.7, 5.0.0')
+  })
+
+  it('reports declared dependencies missing from a lockfile', () => {
+    const [result] = checkInventory([npm('lodash', '', { direct: true, requested: '^4.17.0' })])
+
+    expect(result).toMatchObject({
+      ruleId: 'inventory:unresolved_dependency',
+      status: ResultStatus.FAILED,
+      metadata: { pattern: 'missing_dependency' },
+    })
+  })
+})
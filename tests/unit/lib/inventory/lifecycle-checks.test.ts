@@ -0,0 +1,116 @@
+import { checkLifecycle, checkRuntimeConstraints } from '@/lib/inventory/lifecycle-checks'
+import { buildPurl } from '@/lib/inventory/manifest-parsers'
+import { InventoryComponent } from '@/lib/inventory/types'
+import { ResultStatus } from '@/lib/compatibility/analysis-engine'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const image = (name: string, tag: string, fields: Partial<InventoryComponent> = {}): InventoryComponent => ({
+  name,
+  version: tag,
+  ecosystem: 'docker',
+  manifest: 'dockerfile',
+  purl: buildPurl('docker', name, tag),
+  direct: true,
+  dev: false,
+  ...fields,
+})
+
+const deb = (name: string, version: string): InventoryComponent => ({
+  name,
+  version,
+  ecosystem: 'deb',
+  manifest: 'dpkg-status',
+  purl: buildPurl('deb', name, version, { distro: 'debian' }),
+  direct: false,
+  dev: false,
+})
+
+describe('checkLifecycle', () => {
+  it('fails base images whose OS release or runtime has reached end of life', () => {
+    const [result, ...rest] = checkLifecycle([image('python', '3.8-slim-buster')], { source: 'Dockerfile', now })
+
+    expect(rest).toEqual([])
+    expect(result).toMatchObject({
+      ruleId: 'inventory:eol_base_image',
+      status: ResultStatus.FAILED,
+      severity: 'high',
+      affectedComponents: ['Image: python:3.8-slim-buster', 'Manifest: Dockerfile'],
+      metadata: { source: 'dependency_inventory', check: 'eol_base_image', pattern: 'deprecated_api' },
+    })
+    expect(result!.message).toBe(
+      'Base image python:3.8-slim-buster is end-of-life: Debian 10 (buster) reached end of life on 2024-06-30; ' +
+        'Python 3.8 reached end of life on 2024-10-07'
+    )
+    expect(result!.recommendations).toContain('Move to a supported Debian release (12, 13).')
+  })
+
+  it('lowers the severity for build stages and warns about releases ending soon', () => {
+    const results = checkLifecycle(
+      [image('node', '16-alpine', { dev: true }), image('python', '3.10-slim-bookworm')],
+      { now }
+    )
+
+    expect(results.map(({ status, severity }) => ({ status, severity }))).toEqual([
+      { status: ResultStatus.FAILED, severity: 'medium' },
+      { status: ResultStatus.WARNING, severity: 'low' },
+    ])
+    expect(results[1]!.message).toBe(
+      'Base image python:3.10-slim-bookworm is nearing end of life: Python 3.10 reaches end of life on 2026-10-31'
+    )
+  })
+
+  it('ignores supported and unrecognised images', () => {
+    expect(checkLifecycle([image('node', '22-bookworm-slim'), image('nginx', '1.25'), image('debian', 'latest')], { now })).toEqual([])
+  })
+
+  it('fails OS package inventories of releases that have reached end of life', () => {
+    const [result] = checkLifecycle([deb('base-files', '11.1+deb11u9'), deb('bash', '5.1-2+deb11u1')], { source: 'status', now })
+
+    expect(result).toMatchObject({
+      ruleId: 'inventory:eol_os_release',
+      status: ResultStatus.FAILED,
+      severity: 'high',
+      affectedComponents: ['OS: Debian 11 (bullseye)', 'Manifest: status'],
+    })
+    expect(result!.details).toMatchObject({ os: { distro: 'debian', version: '11' }, packages: 2 })
+  })
+})
+
+describe('checkRuntimeConstraints', () => {
+  it('fails runtime versions outside the required range', () => {
+    const [result, ...rest] = checkRuntimeConstraints(
+      [image('node', '16-alpine'), deb('python3', '3.11.2-1+b1')],
+      { node: '>=18', python: '>=3.9' },
+      { source: 'Dockerfile' }
+    )
+
+    expect(rest).toEqual([])
+    expect(result).toMatchObject({
+      ruleId: 'inventory:runtime_constraint',
+      status: ResultStatus.FAILED,
+      severity: 'high',
+      message: 'Version conflict: Node.js 16 from image node:16-alpine does not satisfy the required range ">=18"',
+      affectedComponents: ['Image: node:16-alpine', 'Manifest: Dockerfile'],
+      metadata: { pattern: 'version_conflict' },
+    })
+  })
+
+  it('warns when only some releases of a partially known version satisfy the range', () => {
+    const [result] = checkRuntimeConstraints([image('node', '18-alpine')], { node: '>=18.17' })
+
+    expect(result).toMatchObject({ status: ResultStatus.WARNING, severity: 'low' })
+    expect(result!.message).toContain('only some Node.js 18.x releases')
+  })
+
+  it('checks OpenSSL packages and skips runtimes without a requirement', () => {
+    const results = checkRuntimeConstraints(
+      [deb('libssl1.1', '1.1.1w-0+deb11u1'), image('python', '3.12')],
+      { openssl: '>=3' }
+    )
+
+    expect(results.map(result => result.message)).toEqual([
+      'Version conflict: OpenSSL 1.1.1 from package libssl1.1 1.1.1w-0+deb11u1 does not satisfy the required range ">=3"',
+    ])
+  })
+})
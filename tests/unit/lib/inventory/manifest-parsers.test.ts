@@ -0,0 +1,306 @@
+import { detectManifestType, parseManifest, ManifestParseError } from '@/lib/inventory/manifest-parsers'
+
+const pick = (components: { name: string; version: string; direct: boolean; dev: boolean }[]) =>
+  components.map(({ name, version, direct, dev }) => ({ name, version, direct, dev }))
+
+describe('manifest parsers', () => {
+  describe('detectManifestType', () => {
+    it('recognizes manifests by file name', () => {
+      expect(detectManifestType('app/package-lock.json')).toBe('package-lock')
+      expect(detectManifestType('yarn.lock')).toBe('yarn-lock')
+      expect(detectManifestType('requirements-dev.txt')).toBe('requirements')
+      expect(detectManifestType('Pipfile.lock')).toBe('pipfile-lock')
+      expect(detectManifestType('Gemfile.lock')).toBe('gemfile-lock')
+      expect(detectManifestType('docker/Dockerfile.prod')).toBe('dockerfile')
+      expect(detectManifestType('var/lib/dpkg/status')).toBe('dpkg-status')
+      expect(detectManifestType('apk-installed.txt')).toBe('apk-installed')
+      expect(detectManifestType('rpm-qa.txt')).toBe('rpm-qa')
+      expect(detectManifestType('web/package.json')).toBe('package-json')
+      expect(detectManifestType('notes.txt')).toBeNull()
+    })
+  })
+
+  it('parses package-lock.json v3 with nested and missing dependencies', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { dependencies: { express: '^4.18.0', lodash: '^4.17.0' }, devDependencies: { jest: '^29.0.0' } },
+        'node_modules/express': { version: '4.18.2' },
+        'node_modules/jest': { version: '29.7.0', dev: true },
+        'node_modules/express/node_modules/debug': { version: '2.6.9' },
+        'node_modules/debug': { version: '4.3.4', dev: true },
+      },
+    })
+
+    const inventory = parseManifest('package-lock.json', lock)
+
+    expect(inventory.ecosystem).toBe('npm')
+    expect(pick(inventory.components)).toEqual([
+      { name: 'express', version: '4.18.2', direct: true, dev: false },
+      { name: 'jest', version: '29.7.0', direct: true, dev: true },
+      { name: 'debug', version: '2.6.9', direct: false, dev: false },
+      { name: 'debug', version: '4.3.4', direct: false, dev: true },
+      { name: 'lodash', version: '', direct: true, dev: false },
+    ])
+    expect(inventory.components[0]).toMatchObject({ requested: '^4.18.0', purl: 'pkg:npm/express@4.18.2' })
+  })
+
+  it('parses package.json dependency groups as direct components', () => {
+    const manifest = JSON.stringify({
+      name: 'billing',
+      dependencies: { express: '^4.18.0', lodash: '4.17.21', 'string-width': 'npm:string-width@^4.2.3', local: 'file:../local' },
+      optionalDependencies: { fsevents: '~2.3.2', lodash: '^4.0.0' },
+      devDependencies: { jest: '29.7.0', shared: 'workspace:*' },
+    })
+
+    const inventory = parseManifest('package.json', manifest)
+
+    expect(inventory.ecosystem).toBe('npm')
+    expect(pick(inventory.components)).toEqual([
+      { name: 'express', version: '', direct: true, dev: false },
+      { name: 'lodash', version: '4.17.21', direct: true, dev: false },
+      { name: 'string-width', version: '', direct: true, dev: false },
+      { name: 'local', version: '', direct: true, dev: false },
+      { name: 'fsevents', version: '', direct: true, dev: false },
+      { name: 'jest', version: '29.7.0', direct: true, dev: true },
+    ])
+    expect(inventory.components.map(({ requested }) => requested)).toEqual([
+      '^4.18.0',
+      undefined,
+      '^4.2.3',
+      'file:../local',
+      '~2.3.2',
+      undefined,
+    ])
+    expect(inventory.warnings).toContain('dependencies.local: file:../local is not a registry version and was not resolved')
+  })
+
+  it('parses classic and Berry yarn.lock files', () => {
+    const classic = [
+      '# yarn lockfile v1',
+      '',
+      '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4":',
+      '  version "7.12.13"',
+      '  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.12.13.tgz"',
+      '  dependencies:',
+      '    "@babel/highlight" "^7.12.13"',
+    ].join('\n')
+    const berry = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"lodash@npm:^4.17.21":',
+      '  version: 4.17.21',
+      '  resolution: "lodash@npm:4.17.21"',
+    ].join('\n')
+
+    expect(parseManifest('yarn.lock', classic).components[0]).toMatchObject({
+      name: '@babel/code-frame',
+      version: '7.12.13',
+      requested: '^7.0.0 || ^7.10.4',
+      purl: 'pkg:npm/%40babel/code-frame@7.12.13',
+    })
+    expect(parseManifest('yarn.lock', berry).components[0]).toMatchObject({ name: 'lodash', version: '4.17.21' })
+  })
+
+  it('parses pnpm-lock.yaml v9 with peer suffixes', () => {
+    const lock = [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      react-dom:',
+      '        specifier: ^18.2.0',
+      '        version: 18.2.0(react@18.2.0)',
+      'packages:',
+      '  react-dom@18.2.0:',
+      '    resolution: {integrity: sha512-x}',
+      '  react@18.2.0:',
+      '    resolution: {integrity: sha512-y}',
+      'snapshots:',
+      '  react-dom@18.2.0(react@18.2.0): {}',
+      '  react@18.2.0: {}',
+    ].join('\n')
+
+    expect(pick(parseManifest('pnpm-lock.yaml', lock).components)).toEqual([
+      { name: 'react-dom', version: '18.2.0', direct: true, dev: false },
+      { name: 'react', version: '18.2.0', direct: false, dev: false },
+    ])
+  })
+
+  it('parses requirements.txt pins, ranges and options', () => {
+    const content = [
+      '-r base.txt',
+      'Django==4.2.7  # web framework',
+      'requests[security]>=2.28 ; python_version >= "3.8"',
+      'numpy==1.26.0 \\',
+      '    --hash=sha256:abc',
+      '-e git+https://github.com/org/repo.git#egg=repo',
+    ].join('\n')
+
+    const inventory = parseManifest('requirements.txt', content)
+
+    expect(inventory.components.map(({ name, version, requested }) => ({ name, version, requested }))).toEqual([
+      { name: 'django', version: '4.2.7', requested: undefined },
+      { name: 'requests', version: '', requested: '>=2.28' },
+      { name: 'numpy', version: '1.26.0', requested: undefined },
+    ])
+    expect(inventory.warnings).toHaveLength(1)
+  })
+
+  it('parses Pipfile.lock groups', () => {
+    const lock = JSON.stringify({
+      default: { 'Flask': { version: '==3.0.0' } },
+      develop: { pytest: { version: '==7.4.3' } },
+    })
+
+    expect(pick(parseManifest('Pipfile.lock', lock).components)).toEqual([
+      { name: 'flask', version: '3.0.0', direct: false, dev: false },
+      { name: 'pytest', version: '7.4.3', direct: false, dev: true },
+    ])
+  })
+
+  it('parses pom.xml with properties and dependency management', () => {
+    const pom = `<?xml version="1.0"?>
+      <project>
+        <version>1.0.0</version>
+        <properties><spring.version>6.1.1</spring.version></properties>
+        <dependencyManagement><dependencies>
+          <dependency><groupId>com.fasterxml.jackson.core</groupId><artifactId>jackson-databind</artifactId><version>2.16.0</version></dependency>
+        </dependencies></dependencyManagement>
+        <dependencies>
+          <dependency><groupId>org.springframework</groupId><artifactId>spring-core</artifactId><version>\${spring.version}</version></dependency>
+          <dependency><groupId>com.fasterxml.jackson.core</groupId><artifactId>jackson-databind</artifactId></dependency>
+          <dependency><groupId>junit</groupId><artifactId>junit</artifactId><version>\${junit.version}</version><scope>test</scope></dependency>
+        </dependencies>
+      </project>`
+
+    const inventory = parseManifest('pom.xml', pom)
+
+    expect(pick(inventory.components)).toEqual([
+      { name: 'org.springframework:spring-core', version: '6.1.1', direct: true, dev: false },
+      { name: 'com.fasterxml.jackson.core:jackson-databind', version: '2.16.0', direct: true, dev: false },
+      { name: 'junit:junit', version: '', direct: true, dev: true },
+    ])
+    expect(inventory.components[0]!.purl).toBe('pkg:maven/org.springframework/spring-core@6.1.1')
+    expect(inventory.warnings).toEqual(['Unresolved version for junit:junit: ${junit.version}'])
+  })
+
+  it('parses go.mod require blocks and replacements', () => {
+    const mod = [
+      'module example.com/app',
+      '',
+      'go 1.21',
+      '',
+      'require github.com/pkg/errors v0.9.1',
+      '',
+      'require (',
+      '\tgithub.com/gin-gonic/gin v1.9.1',
+      '\tgolang.org/x/net v0.17.0 // indirect',
+      ')',
+      '',
+      'replace golang.org/x/net => golang.org/x/net v0.19.0',
+    ].join('\n')
+
+    expect(pick(parseManifest('go.mod', mod).components)).toEqual([
+      { name: 'github.com/pkg/errors', version: 'v0.9.1', direct: true, dev: false },
+      { name: 'github.com/gin-gonic/gin', version: 'v1.9.1', direct: true, dev: false },
+      { name: 'golang.org/x/net', version: 'v0.19.0', direct: false, dev: false },
+    ])
+  })
+
+  it('parses Gemfile.lock specs and direct dependencies', () => {
+    const lock = [
+      'GEM',
+      '  remote: https://rubygems.org/',
+      '  specs:',
+      '    rack (2.2.8)',
+      '    sinatra (3.1.0)',
+      '      rack (~> 2.2, >= 2.2.4)',
+      '',
+      'PLATFORMS',
+      '  ruby',
+      '',
+      'DEPENDENCIES',
+      '  sinatra (~> 3.0)',
+    ].join('\n')
+
+    expect(parseManifest('Gemfile.lock', lock).components.map(({ name, version, direct, requested }) => ({ name, version, direct, requested }))).toEqual([
+      { name: 'rack', version: '2.2.8', direct: false, requested: undefined },
+      { name: 'sinatra', version: '3.1.0', direct: true, requested: '~> 3.0' },
+    ])
+  })
+
+  it('parses the base images of a multi-stage Dockerfile', () => {
+    const dockerfile = [
+      '# syntax=docker/dockerfile:1',
+      'ARG NODE_VERSION=18',
+      'FROM --platform=$BUILDPLATFORM node:${NODE_VERSION}-alpine AS build',
+      'RUN npm ci \\',
+      '  && npm run build',
+      'FROM build AS test',
+      'FROM ghcr.io/acme/base@sha256:abc123',
+      'FROM docker.io/library/debian:bookworm-slim',
+      'COPY --from=build /app/dist /app',
+    ].join('\n')
+
+    const { components } = parseManifest('Dockerfile', dockerfile)
+
+    expect(components.map(({ name, version, dev, purl }) => ({ name, version, dev, purl }))).toEqual([
+      { name: 'node', version: '18-alpine', dev: true, purl: 'pkg:docker/node@18-alpine' },
+      { name: 'ghcr.io/acme/base', version: '', dev: true, purl: 'pkg:docker/acme/base?repository_url=ghcr.io' },
+      { name: 'debian', version: 'bookworm-slim', dev: false, purl: 'pkg:docker/debian@bookworm-slim' },
+    ])
+    expect(components[1]!.requested).toBe('sha256:abc123')
+  })
+
+  it('parses installed packages from a dpkg status file', () => {
+    const status = [
+      'Package: base-files',
+      'Status: install ok installed',
+      'Architecture: amd64',
+      'Version: 11.1+deb11u9',
+      '',
+      'Package: libssl1.1',
+      'Status: install ok installed',
+      'Architecture: amd64',
+      'Version: 1.1.1w-0+deb11u1',
+      'Description: Secure Sockets Layer toolkit',
+      ' This package is part of the OpenSSL project.',
+      '',
+      'Package: telnet',
+      'Status: deinstall ok config-files',
+      'Version: 0.17-42',
+    ].join('\n')
+
+    const { ecosystem, components } = parseManifest('status', status)
+
+    expect(ecosystem).toBe('deb')
+    expect(components.map(({ name, version, purl }) => ({ name, version, purl }))).toEqual([
+      { name: 'base-files', version: '11.1+deb11u9', purl: 'pkg:deb/debian/base-files@11.1%2Bdeb11u9?arch=amd64' },
+      { name: 'libssl1.1', version: '1.1.1w-0+deb11u1', purl: 'pkg:deb/debian/libssl1.1@1.1.1w-0%2Bdeb11u1?arch=amd64' },
+    ])
+  })
+
+  it('parses rpm -qa output and apk installed databases', () => {
+    const rpm = 'rocky-release-9.3-1.2.el9.noarch\nopenssl-libs-3.0.7-25.el9_3.x86_64\ngpg-pubkey-350d275d-6279464b\n'
+    expect(parseManifest('rpm-qa.txt', rpm).components.map(({ name, version, purl }) => ({ name, version, purl }))).toEqual([
+      { name: 'rocky-release', version: '9.3-1.2.el9', purl: 'pkg:rpm/rocky/rocky-release@9.3-1.2.el9?arch=noarch' },
+      { name: 'openssl-libs', version: '3.0.7-25.el9_3', purl: 'pkg:rpm/rocky/openssl-libs@3.0.7-25.el9_3?arch=x86_64' },
+    ])
+
+    const apk = 'C:Q1abc=\nP:musl\nV:1.2.4-r2\nA:x86_64\n\nP:nodejs\nV:20.11.1-r0\nA:x86_64\n'
+    expect(parseManifest('installed', apk).components.map(({ name, version }) => ({ name, version }))).toEqual([
+      { name: 'musl', version: '1.2.4-r2' },
+      { name: 'nodejs', version: '20.11.1-r0' },
+    ])
+  })
+
+  it('rejects unsupported or malformed manifests', () => {
+    expect(() => parseManifest('package.json', '{}')).toThrow(ManifestParseError)
+    expect(() => parseManifest('package.json', '[]')).toThrow('package.json is not an object')
+    expect(() => parseManifest('package-lock.json', '{')).toThrow('Invalid JSON in package-lock manifest')
+    expect(() => parseManifest('pom.xml', '<settings/>')).toThrow('pom.xml has no <project> element')
+    expect(() => parseManifest('Dockerfile', 'RUN echo hi')).toThrow('Dockerfile contains no FROM instruction')
+  })
+})
@@ -0,0 +1,104 @@
+import { buildPurl } from '@/lib/inventory/manifest-parsers'
+import {
+  describeImage,
+  detectOsRelease,
+  detectRuntimes,
+  osReleaseFromIdentity,
+  parseImageReference,
+  upstreamVersion,
+} from '@/lib/inventory/platforms'
+import { Ecosystem, InventoryComponent } from '@/lib/inventory/types'
+
+const pkg = (ecosystem: Ecosystem, name: string, version: string): InventoryComponent => ({
+  name,
+  version,
+  ecosystem,
+  manifest: ecosystem === 'deb' ? 'dpkg-status' : ecosystem === 'rpm' ? 'rpm-qa' : 'apk-installed',
+  purl: buildPurl(ecosystem, name, version),
+  direct: false,
+  dev: false,
+})
+
+describe('parseImageReference', () => {
+  it('splits registry, tag and digest and drops the Docker Hub prefixes', () => {
+    expect(parseImageReference('docker.io/library/node:18-alpine')).toEqual({ name: 'node', tag: '18-alpine' })
+    expect(parseImageReference('localhost:5000/team/api@sha256:abc')).toEqual({ name: 'localhost:5000/team/api', digest: 'sha256:abc' })
+    expect(parseImageReference('bitnami/redis')).toEqual({ name: 'bitnami/redis' })
+  })
+})
+
+describe('describeImage', () => {
+  it('reads the runtime and OS release of official runtime images', () => {
+    expect(describeImage({ name: 'python', tag: '3.8-slim-buster' })).toEqual({
+      os: { distro: 'debian', version: '10' },
+      runtime: { runtime: 'python', version: '3.8' },
+    })
+    expect(describeImage({ name: 'node', tag: '20.11.1-alpine3.19' })).toEqual({
+      os: { distro: 'alpine', version: '3.19' },
+      runtime: { runtime: 'node', version: '20.11.1' },
+    })
+    expect(describeImage({ name: 'node', tag: 'hydrogen-bookworm' })).toEqual({
+      os: { distro: 'debian', version: '12' },
+      runtime: { runtime: 'node', version: '18' },
+    })
+  })
+
+  it('reads the release of OS images from codenames, versions and repository names', () => {
+    expect(describeImage({ name: 'ubuntu', tag: 'jammy-20240227' })).toEqual({ os: { distro: 'ubuntu', version: '22.04' } })
+    expect(describeImage({ name: 'alpine', tag: '3.18.6' })).toEqual({ os: { distro: 'alpine', version: '3.18' } })
+    expect(describeImage({ name: 'centos', tag: 'centos7' })).toEqual({ os: { distro: 'centos', version: '7' } })
+    expect(describeImage({ name: 'quay.io/centos/centos', tag: 'stream9' })).toEqual({ os: { distro: 'centos-stream', version: '9' } })
+    expect(describeImage({ name: 'registry.access.redhat.com/ubi8/nodejs-18' })).toEqual({ os: { distro: 'rhel', version: '8' } })
+  })
+
+  it('resolves floating and unknown tags to nothing', () => {
+    expect(describeImage({ name: 'debian', tag: 'latest' })).toEqual({})
+    expect(describeImage({ name: 'node', tag: 'lts' })).toEqual({})
+    expect(describeImage({ name: 'nginx', tag: '1.25' })).toEqual({})
+  })
+})
+
+describe('detectOsRelease', () => {
+  it('reads the release from the package that records it', () => {
+    expect(detectOsRelease([pkg('deb', 'bash', '5.2.15-2+b2'), pkg('deb', 'base-files', '12.4+deb12u5')]))
+      .toEqual({ distro: 'debian', version: '12' })
+    expect(detectOsRelease([pkg('deb', 'base-files', '12ubuntu4.6')])).toEqual({ distro: 'ubuntu', version: '22.04' })
+    expect(detectOsRelease([pkg('apk', 'alpine-baselayout', '3.4.3-r1'), pkg('apk', 'alpine-release', '3.19.1-r0')]))
+      .toEqual({ distro: 'alpine', version: '3.19' })
+    expect(detectOsRelease([pkg('rpm', 'system-release', '2-16.amzn2')])).toEqual({ distro: 'amazonlinux', version: '2' })
+    expect(detectOsRelease([pkg('rpm', 'bash', '5.1.8-6.el9')])).toBeUndefined()
+  })
+})
+
+describe('osReleaseFromIdentity', () => {
+  it('maps /etc/os-release identities onto lifecycle releases', () => {
+    expect(osReleaseFromIdentity('ubuntu', '22.04')).toEqual({ distro: 'ubuntu', version: '22.04' })
+    expect(osReleaseFromIdentity('debian', '12')).toEqual({ distro: 'debian', version: '12' })
+    expect(osReleaseFromIdentity('alpine', '3.19.1')).toEqual({ distro: 'alpine', version: '3.19' })
+    expect(osReleaseFromIdentity('rhel', '9.3')).toEqual({ distro: 'rhel', version: '9' })
+    expect(osReleaseFromIdentity('amzn', '2023')).toEqual({ distro: 'amazonlinux', version: '2023' })
+    expect(osReleaseFromIdentity('centos', '9', 'CentOS Stream 9')).toEqual({ distro: 'centos-stream', version: '9' })
+  })
+
+  it('gives up on releases without a version', () => {
+    expect(osReleaseFromIdentity('arch', '')).toBeUndefined()
+  })
+})
+
+describe('detectRuntimes', () => {
+  it('reads runtime versions from images and OS packages', () => {
+    const runtimes = detectRuntimes([
+      pkg('deb', 'libssl3', '3.0.11-1~deb12u2'),
+      pkg('deb', 'python3', '3.11.2-1+b1'),
+      pkg('deb', 'python3-pip', '23.0.1+dfsg-1'),
+      pkg('apk', 'nodejs', '20.11.1-r0'),
+    ])
+
+    expect(runtimes.map(({ runtime, version }) => ({ runtime, version }))).toEqual([
+      { runtime: 'openssl', version: '3.0.11' },
+      { runtime: 'python', version: '3.11.2' },
+      { runtime: 'node', version: '20.11.1' },
+    ])
+    expect(upstreamVersion('1:1.1.1k-12.el8_9')).toBe('1.1.1')
+  })
+})
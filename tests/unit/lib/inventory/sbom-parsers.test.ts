@@ -0,0 +1,146 @@
+import { detectSbomFileName, parsePurl, parseSbom } from '@/lib/inventory/sbom-parsers'
+import { ManifestParseError } from '@/lib/inventory/manifest-parsers'
+
+const pick = (components: { name: string; version: string; ecosystem: string; direct: boolean; dev: boolean }[]) =>
+  components.map(({ name, version, ecosystem, direct, dev }) => ({ name, version, ecosystem, direct, dev }))
+
+describe('SBOM parsers', () => {
+  it('recognizes SBOM file names', () => {
+    expect(detectSbomFileName('bom.json')).toBe(true)
+    expect(detectSbomFileName('vendor-app.cdx.xml')).toBe(true)
+    expect(detectSbomFileName('release.spdx.json')).toBe(true)
+    expect(detectSbomFileName('release.spdx')).toBe(true)
+    expect(detectSbomFileName('bomb.json')).toBe(false)
+  })
+
+  it('splits package URLs', () => {
+    expect(parsePurl('pkg:npm/%40angular/core@17.0.0?arch=x64')).toEqual({
+      type: 'npm',
+      namespace: '@angular',
+      name: 'core',
+      version: '17.0.0',
+    })
+    expect(parsePurl('not-a-purl')).toBeNull()
+  })
+
+  it('parses CycloneDX JSON with nested components and the dependency graph', () => {
+    const bom = JSON.stringify({
+      bomFormat: 'CycloneDX',
+      specVersion: '1.5',
+      metadata: { component: { 'bom-ref': 'app', type: 'application', name: 'payments', version: '2.1.0' } },
+      components: [
+        {
+          'bom-ref': 'pkg:npm/express@4.18.2',
+          type: 'library',
+          name: 'express',
+          version: '4.18.2',
+          purl: 'pkg:npm/express@4.18.2',
+          licenses: [{ license: { id: 'MIT' } }],
+          components: [{ type: 'library', name: 'debug', version: '2.6.9', purl: 'pkg:npm/debug@2.6.9' }],
+        },
+        { type: 'library', group: 'org.apache.logging.log4j', name: 'log4j-core', version: '2.17.1', purl: 'pkg:maven/org.apache.logging.log4j/log4j-core@2.17.1', scope: 'excluded' },
+        { type: 'library', name: 'libfoo', version: '1.0' },
+      ],
+      dependencies: [{ ref: 'app', dependsOn: ['pkg:npm/express@4.18.2'] }],
+    })
+
+    const document = parseSbom(bom)
+
+    expect(document).toMatchObject({ format: 'cyclonedx', specVersion: '1.5', subject: { name: 'payments', version: '2.1.0' } })
+    expect(pick(document.components)).toEqual([
+      { name: 'express', version: '4.18.2', ecosystem: 'npm', direct: true, dev: false },
+      { name: 'debug', version: '2.6.9', ecosystem: 'npm', direct: false, dev: false },
+      { name: 'org.apache.logging.log4j:log4j-core', version: '2.17.1', ecosystem: 'maven', direct: false, dev: true },
+      { name: 'libfoo', version: '1.0', ecosystem: 'generic', direct: false, dev: false },
+    ])
+    expect(document.components[0]!.licenses).toEqual(['MIT'])
+    expect(document.components[3]!.purl).toBe('pkg:generic/libfoo@1.0')
+  })
+
+  it('parses CycloneDX XML', () => {
+    const xml = `<?xml version="1.0"?>
+      <bom xmlns="http://cyclonedx.org/schema/bom/1.4" version="1">
+        <metadata><component type="application" bom-ref="app"><name>portal</name></component></metadata>
+        <components>
+          <component type="library" bom-ref="pkg:pypi/requests@2.31.0">
+            <name>requests</name><version>2.31.0</version><purl>pkg:pypi/requests@2.31.0</purl>
+            <licenses><license><id>Apache-2.0</id></license></licenses>
+          </component>
+        </components>
+        <dependencies><dependency ref="app"><dependency ref="pkg:pypi/requests@2.31.0"/></dependency></dependencies>
+      </bom>`
+
+    const document = parseSbom(xml)
+
+    expect(document.specVersion).toBe('1.4')
+    expect(pick(document.components)).toEqual([
+      { name: 'requests', version: '2.31.0', ecosystem: 'pypi', direct: true, dev: false },
+    ])
+    expect(document.components[0]!.licenses).toEqual(['Apache-2.0'])
+  })
+
+  it('parses SPDX JSON and tag-value into the same components', () => {
+    const json = JSON.stringify({
+      spdxVersion: 'SPDX-2.3',
+      documentDescribes: ['SPDXRef-app'],
+      packages: [
+        { SPDXID: 'SPDXRef-app', name: 'portal', versionInfo: '1.0.0' },
+        {
+          SPDXID: 'SPDXRef-gin',
+          name: 'gin',
+          versionInfo: 'v1.9.1',
+          licenseConcluded: 'MIT',
+          externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: 'pkg:golang/github.com/gin-gonic/gin@v1.9.1' }],
+        },
+        { SPDXID: 'SPDXRef-testify', name: 'testify', versionInfo: '1.8.4', licenseConcluded: 'NOASSERTION' },
+      ],
+      relationships: [
+        { spdxElementId: 'SPDXRef-app', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-gin' },
+        { spdxElementId: 'SPDXRef-testify', relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: 'SPDXRef-app' },
+      ],
+    })
+    const tagValue = [
+      'SPDXVersion: SPDX-2.3',
+      'DocumentComment: <text>generated',
+      'by a build tool</text>',
+      'Relationship: SPDXRef-DOCUMENT DESCRIBES SPDXRef-app',
+      '',
+      'PackageName: portal',
+      'SPDXID: SPDXRef-app',
+      'PackageVersion: 1.0.0',
+      '',
+      'PackageName: gin',
+      'SPDXID: SPDXRef-gin',
+      'PackageVersion: v1.9.1',
+      'PackageLicenseConcluded: MIT',
+      'ExternalRef: PACKAGE-MANAGER purl pkg:golang/github.com/gin-gonic/gin@v1.9.1',
+      '',
+      'PackageName: testify',
+      'SPDXID: SPDXRef-testify',
+      'PackageVersion: 1.8.4',
+      'PackageLicenseConcluded: NOASSERTION',
+      '',
+      'Relationship: SPDXRef-app DEPENDS_ON SPDXRef-gin',
+      'Relationship: SPDXRef-testify DEV_DEPENDENCY_OF SPDXRef-app',
+    ].join('\n')
+
+    const expected = [
+      { name: 'github.com/gin-gonic/gin', version: 'v1.9.1', ecosystem: 'go', direct: true, dev: false },
+      { name: 'testify', version: '1.8.4', ecosystem: 'generic', direct: true, dev: true },
+    ]
+
+    for (const content of [json, tagValue]) {
+      const document = parseSbom(content)
+      expect(document).toMatchObject({ format: 'spdx', specVersion: 'SPDX-2.3', subject: { name: 'portal' } })
+      expect(pick(document.components)).toEqual(expected)
+      expect(document.components[0]!.licenses).toEqual(['MIT'])
+      expect(document.components[1]!.licenses).toBeUndefined()
+    }
+  })
+
+  it('rejects documents that are not SBOMs', () => {
+    expect(() => parseSbom('[{"tool":"x"}]')).toThrow(ManifestParseError)
+    expect(() => parseSbom('{"name":"x"}')).toThrow('JSON document is neither CycloneDX nor SPDX')
+    expect(() => parseSbom('<project/>')).toThrow('XML document is not a CycloneDX BOM')
+  })
+})
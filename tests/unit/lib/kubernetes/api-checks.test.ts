@@ -0,0 +1,91 @@
+import { checkKubernetesResources, normalizeKubernetesVersion } from '@/lib/kubernetes/api-checks'
+import { ResultStatus } from '@/lib/compatibility/analysis-engine'
+import { KubernetesResource } from '@/lib/kubernetes/types'
+
+const resource = (apiVersion: string, kind: string, fields: Partial<KubernetesResource> = {}): KubernetesResource => ({
+  apiVersion,
+  kind,
+  name: 'web',
+  file: 'deploy/app.yaml',
+  line: 7,
+  ...fields,
+})
+
+describe('checkKubernetesResources', () => {
+  it('fails APIs the target version no longer serves, with the replacement and changed fields', () => {
+    const [result] = checkKubernetesResources(
+      [resource('extensions/v1beta1', 'Ingress', { namespace: 'prod', source: 'web/templates/ingress.yaml' })],
+      { targetVersion: 'v1.29.3' }
+    )
+
+    expect(result).toMatchObject({
+      ruleId: 'k8s-api:extensions/v1beta1/Ingress',
+      status: ResultStatus.FAILED,
+      severity: 'high',
+      affectedComponents: ['Resource: Ingress/prod/web', 'File: deploy/app.yaml:7', 'Template: web/templates/ingress.yaml'],
+      metadata: { source: 'kubernetes_manifest', check: 'removed_api', pattern: 'deprecated_api' },
+    })
+    expect(result!.message).toBe(
+      'extensions/v1beta1 Ingress "prod/web" is no longer served by Kubernetes 1.29 (removed in 1.22); use networking.k8s.io/v1'
+    )
+    expect(result!.details).toMatchObject({
+      replacement: 'networking.k8s.io/v1',
+      removedIn: '1.22',
+      targetVersion: '1.29',
+      locations: [{ uri: 'deploy/app.yaml', startLine: 7, startColumn: 1 }],
+    })
+    expect(result!.details.changes).toContain('spec.backend is renamed to spec.defaultBackend')
+    expect(result!.recommendations).toMatch(/^Change apiVersion to networking\.k8s\.io\/v1\. Changes to review: /)
+  })
+
+  it('warns about APIs deprecated by the target but still served', () => {
+    const [result] = checkKubernetesResources([resource('batch/v1beta1', 'CronJob')], { targetVersion: '1.23' })
+
+    expect(result).toMatchObject({
+      status: ResultStatus.WARNING,
+      severity: 'medium',
+      message: 'batch/v1beta1 CronJob "web" is deprecated since Kubernetes 1.21 and removed in 1.25; use batch/v1',
+    })
+  })
+
+  it('reports APIs removed without a replacement', () => {
+    const [result] = checkKubernetesResources([resource('policy/v1beta1', 'PodSecurityPolicy')], { targetVersion: '1.25' })
+
+    expect(result!.status).toBe(ResultStatus.FAILED)
+    expect(result!.details.replacement).toBeNull()
+    expect(result!.message).toContain('without a replacement')
+    expect(result!.recommendations).toContain('Pod Security Admission')
+  })
+
+  it('ignores current APIs and APIs not yet deprecated by the target', () => {
+    const results = checkKubernetesResources(
+      [
+        resource('apps/v1', 'Deployment'),
+        resource('networking.k8s.io/v1beta1', 'Ingress'),
+        resource('example.com/v1alpha1', 'Widget'),
+      ],
+      { targetVersion: '1.18' }
+    )
+
+    expect(results).toEqual([])
+  })
+
+  it('matches the kind as well as the API version', () => {
+    const results = checkKubernetesResources(
+      [resource('policy/v1beta1', 'PodDisruptionBudget'), resource('policy/v1beta1', 'Eviction')],
+      { targetVersion: '1.30' }
+    )
+
+    expect(results.map(result => result.ruleId)).toEqual(['k8s-api:policy/v1beta1/PodDisruptionBudget'])
+  })
+})
+
+describe('normalizeKubernetesVersion', () => {
+  it('reduces cluster versions to their minor version', () => {
+    expect(normalizeKubernetesVersion('v1.29.3')).toBe('1.29')
+    expect(normalizeKubernetesVersion('1.30')).toBe('1.30')
+    expect(normalizeKubernetesVersion('v1.28.5-eks-5e0fdde')).toBe('1.28')
+    expect(normalizeKubernetesVersion('latest')).toBeNull()
+    expect(normalizeKubernetesVersion(129)).toBeNull()
+  })
+})
@@ -0,0 +1,119 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import {
+  KubernetesManifestError,
+  isKubernetesManifestFileName,
+  parseKubernetesManifest,
+} from '@/lib/kubernetes/manifest-parser'
+
+describe('parseKubernetesManifest', () => {
+  it('reads every document of a multi-document manifest with its line', () => {
+    const content = readFileSync(path.join(process.cwd(), 'k8s/rbac.yaml'), 'utf-8')
+    const { resources, warnings } = parseKubernetesManifest('k8s/rbac.yaml', content)
+
+    expect(warnings).toEqual([])
+    expect(resources.map(resource => resource.kind)).toEqual([
+      'ServiceAccount',
+      'Role',
+      'RoleBinding',
+      'NetworkPolicy',
+      'PodSecurityPolicy',
+    ])
+    expect(resources[4]).toEqual({
+      apiVersion: 'policy/v1beta1',
+      kind: 'PodSecurityPolicy',
+      name: 'appcompatcheck-psp',
+      file: 'k8s/rbac.yaml',
+      line: 184,
+    })
+  })
+
+  it('records the template of Helm-rendered resources', () => {
+    const content = [
+      '---',
+      '# Source: web/templates/deployment.yaml',
+      'apiVersion: apps/v1beta2',
+      'kind: Deployment',
+      'metadata:',
+      '  name: release-web',
+      '  namespace: prod',
+      '---',
+      '# Source: web/templates/cronjob.yaml',
+      'apiVersion: "batch/v1beta1"',
+      'kind: CronJob',
+      'metadata:',
+      '  name: release-cleanup',
+    ].join('\n')
+
+    const { resources } = parseKubernetesManifest('rendered.yaml', content)
+
+    expect(resources).toEqual([
+      {
+        apiVersion: 'apps/v1beta2',
+        kind: 'Deployment',
+        name: 'release-web',
+        namespace: 'prod',
+        file: 'rendered.yaml',
+        line: 3,
+        source: 'web/templates/deployment.yaml',
+      },
+      {
+        apiVersion: 'batch/v1beta1',
+        kind: 'CronJob',
+        name: 'release-cleanup',
+        file: 'rendered.yaml',
+        line: 10,
+        source: 'web/templates/cronjob.yaml',
+      },
+    ])
+  })
+
+  it('expands kubectl List output into its items', () => {
+    const content = [
+      'apiVersion: v1',
+      'kind: List',
+      'items:',
+      '- apiVersion: v1',
+      '  kind: ConfigMap',
+      '  metadata:',
+      '    name: settings',
+      '- apiVersion: extensions/v1beta1',
+      '  kind: Ingress',
+      '  metadata:',
+      '    name: web',
+    ].join('\n')
+
+    const { resources } = parseKubernetesManifest('list.yaml', content)
+
+    expect(resources.map(({ kind, line }) => ({ kind, line }))).toEqual([
+      { kind: 'ConfigMap', line: 4 },
+      { kind: 'Ingress', line: 8 },
+    ])
+  })
+
+  it('warns about documents that are not Kubernetes resources', () => {
+    const content = 'apiVersion: v1\nkind: Namespace\nmetadata:\n  name: apps\n---\nreplicas: 3\n---\nkey: [unclosed\n'
+
+    const { resources, warnings } = parseKubernetesManifest('mixed.yaml', content)
+
+    expect(resources).toHaveLength(1)
+    expect(warnings).toHaveLength(2)
+    expect(warnings[0]).toBe('Line 6: document has no apiVersion or kind')
+    expect(warnings[1]).toMatch(/^Line \d+: /)
+  })
+
+  it('rejects files without any resources', () => {
+    expect(() => parseKubernetesManifest('values.yaml', 'replicaCount: 2\n')).toThrow(KubernetesManifestError)
+    expect(() => parseKubernetesManifest('empty.yaml', '---\n# nothing\n---\n')).toThrow(
+      'No Kubernetes resources found in empty.yaml'
+    )
+  })
+})
+
+describe('isKubernetesManifestFileName', () => {
+  it('matches YAML files', () => {
+    expect(isKubernetesManifestFileName('deploy/app.yaml')).toBe(true)
+    expect(isKubernetesManifestFileName('Chart.YML')).toBe(true)
+    expect(isKubernetesManifestFileName('package.json')).toBe(false)
+  })
+})
@@ -0,0 +1,77 @@
+import { checkRegexSafety, safeRegexTest, MAX_INPUT_LENGTH } from '@/lib/patterns/safe-regex'
+import { probeRegex } from '@/lib/patterns/regex-probe'
+import { timedMatchAll, timedRegexTest } from '@/lib/patterns/regex-runner'
+import { BUILT_IN_PATTERNS } from '@/lib/patterns/types'
+import { PatternMatcher } from '@/lib/compatibility/analysis-engine'
+import { evaluateRuleConditions, validateRuleConditions } from '@/lib/compatibility/rule-conditions'
+
+describe('safe regular expressions', () => {
+  it('rejects nested quantifiers and backreferences', () => {
+    expect(checkRegexSafety('(a+)+$')).toMatch(/Nested quantifiers/)
+    expect(checkRegexSafety('(?:x(?:a*))*')).toMatch(/Nested quantifiers/)
+    expect(checkRegexSafety('(\\w+)\\s\\1')).toMatch(/Backreferences/)
+    expect(checkRegexSafety('(', '')).toBe('invalid regular expression')
+    expect(checkRegexSafety('a', 'y')).toMatch(/Flags/)
+
+    expect(checkRegexSafety('(?:a|b)+c')).toBeNull()
+    expect(checkRegexSafety('[(+]+(?:ab){1}?')).toBeNull()
+  })
+
+  it('rejects adjacent quantifiers that can match the same text', () => {
+    expect(checkRegexSafety('Ж*Ж*Ж*x')).toMatch(/Adjacent quantifiers/)
+    expect(checkRegexSafety('\\u0416+Ж*')).toMatch(/Adjacent quantifiers/)
+    expect(checkRegexSafety('\\w+\\s?\\w+')).toMatch(/Adjacent quantifiers/)
+    expect(checkRegexSafety('a*A*', 'i')).toMatch(/Adjacent quantifiers/)
+    expect(checkRegexSafety('(?:ab)*(?:ab)+')).toMatch(/Adjacent quantifiers/)
+
+    expect(checkRegexSafety('\\w+\\s+\\w+')).toBeNull()
+    expect(checkRegexSafety('[a-z]*\\d*')).toBeNull()
+    expect(checkRegexSafety('a{3}a*')).toBeNull()
+    expect(checkRegexSafety('a*|a*')).toBeNull()
+  })
+
+  it('probes patterns for catastrophic backtracking before they are saved', () => {
+    expect(probeRegex('(a|a)*$')).toMatch(/took longer/)
+    expect(probeRegex('Ж*Ж*Ж*x')).toMatch(/Adjacent quantifiers/)
+    // Only slow on runs of the pattern's own non-ASCII literal
+    expect(probeRegex('(?:Ж|Я)*(?:Ж|Ю)*(?:Ж|Ф)*x')).toMatch(/took longer/)
+    for (const pattern of BUILT_IN_PATTERNS) {
+      expect(probeRegex(pattern.pattern, pattern.flags)).toBeNull()
+    }
+  })
+
+  it('never runs unsafe patterns and caps the input length', () => {
+    expect(safeRegexTest('(a+)+$', 'i', 'aaaa')).toBe(false)
+    expect(safeRegexTest('needle', 'i', `${'x'.repeat(MAX_INPUT_LENGTH)}needle`)).toBe(false)
+    expect(safeRegexTest('needle', 'gi', 'a NEEDLE')).toBe(true)
+
+    expect(evaluateRuleConditions({ tool: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!' }, { tool: '/(a+)+$/' }).matches).toBe(false)
+    expect(validateRuleConditions({ tool: { $regex: '(a*)*' } })).toEqual([
+      'tool: Nested quantifiers such as (a+)+ can take exponential time',
+    ])
+  })
+
+  it('matches library patterns and counts hits per pattern', () => {
+    const matcher = new PatternMatcher([
+      { id: 'p1', name: 'internal_host', category: BUILT_IN_PATTERNS[0]!.category, pattern: '\\.internal\\b', flags: 'i' },
+      { id: 'p2', name: 'unsafe', category: BUILT_IN_PATTERNS[0]!.category, pattern: '(a+)+', flags: 'g' },
+    ])
+
+    expect(matcher.match('db.internal and cache.INTERNAL').map(result => [result.pattern, result.matches.length]))
+      .toEqual([['internal_host', 2]])
+    matcher.match('api.internal')
+    expect(matcher.getHits()).toEqual(new Map([['p1', 3]]))
+  })
+
+  it('gives up on matches that run out of time and disables the pattern', () => {
+    const slow = '(?:Ж|a)*(?:Ж|b)*(?:Ж|c)*x'
+    const started = Date.now()
+
+    expect(timedRegexTest(slow, 'i', 'Ж'.repeat(1000))).toBe(false)
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(timedRegexTest(slow, 'i', 'ax')).toBe(false)
+
+    expect(timedRegexTest('needle', 'gi', 'a NEEDLE')).toBe(true)
+    expect(timedMatchAll(/\.internal\b/gi, 'db.internal and cache.INTERNAL')?.map(match => match.index)).toEqual([2, 21])
+  })
+})
@@ -0,0 +1,96 @@
+import { buildSarifLog, sarifToCheckRunAnnotations } from '@/lib/reports/sarif-export'
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine'
+
+describe('SARIF export', () => {
+  const result = (fields: Partial<AnalysisResult>): AnalysisResult => ({
+    ruleId: 'rule-1',
+    status: ResultStatus.FAILED,
+    severity: RuleSeverity.HIGH,
+    message: 'SQL injection pattern detected',
+    details: {},
+    recommendations: 'Use parameterized queries.',
+    affectedComponents: [],
+    metadata: {},
+    confidence: 0.9,
+    ...fields,
+  })
+
+  const results = [
+    result({
+      details: { originalEntry: { details: { locations: [{ uri: 'src/db.js', startLine: 12, startColumn: 5, endColumn: 40 }] } } },
+    }),
+    result({
+      ruleId: 'inventory:deprecated_package',
+      status: ResultStatus.WARNING,
+      severity: RuleSeverity.MEDIUM,
+      message: 'Deprecated package request is a direct dependency',
+      affectedComponents: ['Package: request@2.88.2', 'Manifest: package-lock.json'],
+    }),
+    result({ status: ResultStatus.PASSED, severity: RuleSeverity.LOW, message: 'No issue' }),
+  ]
+
+  it('builds a SARIF 2.1.0 log with one rule per rule id', () => {
+    const log = buildSarifLog(results, {
+      rules: { 'rule-1': { name: 'SQL injection', description: 'Detects SQL injection', category: 'security' } },
+      automationId: 'appcompatcheck/scan-1/',
+    })
+    const run = log.runs[0]!
+
+    expect(log.version).toBe('2.1.0')
+    expect(run.automationDetails).toEqual({ id: 'appcompatcheck/scan-1/' })
+    expect(run.tool.driver.rules).toEqual([
+      {
+        id: 'rule-1',
+        name: 'SQL injection',
+        shortDescription: { text: 'SQL injection' },
+        fullDescription: { text: 'Detects SQL injection' },
+        defaultConfiguration: { level: 'error' },
+        properties: { 'security-severity': '8.0', tags: ['security'] },
+      },
+      {
+        id: 'inventory:deprecated_package',
+        defaultConfiguration: { level: 'warning' },
+        properties: { 'security-severity': '5.5' },
+      },
+    ])
+    expect(run.results.map(({ ruleIndex, kind, level }) => ({ ruleIndex, kind, level }))).toEqual([
+      { ruleIndex: 0, kind: 'fail', level: 'error' },
+      { ruleIndex: 1, kind: 'fail', level: 'warning' },
+      { ruleIndex: 0, kind: 'pass', level: 'none' },
+    ])
+    expect(run.results[0]!.locations[0]!.physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/db.js' },
+      region: { startLine: 12, startColumn: 5, endColumn: 40 },
+    })
+    expect(run.results[1]!.locations[0]!.physicalLocation).toEqual({ artifactLocation: { uri: 'package-lock.json' } })
+    expect(run.results[2]!.locations).toEqual([])
+    expect(run.results[0]!.partialFingerprints['appcompatcheck/v1']).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('turns located findings into check run annotations', () => {
+    const annotations = sarifToCheckRunAnnotations(
+      buildSarifLog(results, { rules: { 'rule-1': { name: 'SQL injection' } } })
+    )
+
+    expect(annotations).toEqual([
+      {
+        path: 'src/db.js',
+        start_line: 12,
+        end_line: 12,
+        start_column: 5,
+        end_column: 40,
+        annotation_level: 'failure',
+        message: 'SQL injection pattern detected',
+        title: 'SQL injection',
+      },
+      {
+        path: 'package-lock.json',
+        start_line: 1,
+        end_line: 1,
+        annotation_level: 'warning',
+        message: 'Deprecated package request is a direct dependency',
+        title: 'inventory:deprecated_package',
+      },
+    ])
+  })
+})
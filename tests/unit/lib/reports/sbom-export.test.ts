@@ -0,0 +1,111 @@
+import { buildCycloneDxBom } from '@/lib/reports/sbom-export'
+import type { ReportData } from '@/lib/reports/report-generator'
+
+describe('buildCycloneDxBom', () => {
+  const component = (name: string, version: string, fields = {}) => ({
+    name,
+    version,
+    ecosystem: 'npm' as const,
+    manifest: 'package-lock' as const,
+    purl: `pkg:npm/${name}@${version}`,
+    direct: false,
+    dev: false,
+    ...fields,
+  })
+
+  const finding = (id: number, status: ReportData['results'][number]['status'], affectedItems: string[]) => ({
+    id,
+    ruleId: 'inventory:deprecated_package',
+    ruleName: 'Deprecated package',
+    ruleDescription: '',
+    category: 'dependencies',
+    severity: 'medium' as const,
+    status,
+    message: 'Deprecated package request is a direct dependency',
+    confidence: 1,
+    affectedItems,
+    recommendations: ['Replace request with fetch.'],
+    createdAt: '2024-05-01T00:00:00.000Z',
+  })
+
+  const data = {
+    scanSession: {
+      id: 42,
+      sessionId: 'scan-42',
+      fileName: 'Payments API',
+      status: 'completed',
+      createdAt: '2024-05-01T00:00:00.000Z',
+      totalChecks: 2,
+      completedChecks: 2,
+    },
+    results: [
+      finding(1, 'warning', ['Package: request@2.88.2', 'Manifest: package-lock.json']),
+      finding(2, 'fail', ['Application: Payments API']),
+    ],
+    summary: {
+      totalResults: 2,
+      resultsByStatus: {},
+      resultsBySeverity: {},
+      resultsByCategory: {},
+      riskDistribution: { critical: 0, high: 0, medium: 2, low: 0 },
+    },
+    user: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' },
+    components: [
+      component('request', '2.88.2', { direct: true, licenses: ['Apache-2.0'] }),
+      component('jest', '29.7.0', { direct: true, dev: true }),
+      // A nested install of the same version shares the purl
+      component('request', '2.88.2', { path: 'node_modules/a/node_modules/request' }),
+    ],
+  } as ReportData
+
+  it('lists each component once with scope, licenses and direct dependencies', () => {
+    const bom = buildCycloneDxBom(data) as any
+
+    expect(bom).toMatchObject({ bomFormat: 'CycloneDX', specVersion: '1.5', version: 1 })
+    expect(bom.serialNumber).toMatch(/^urn:uuid:[0-9a-f-]{36}$/)
+    expect(bom.metadata.component).toEqual({ type: 'application', 'bom-ref': 'scan:42', name: 'Payments API' })
+    expect(bom.components).toEqual([
+      {
+        type: 'library',
+        'bom-ref': 'pkg:npm/request@2.88.2',
+        name: 'request',
+        version: '2.88.2',
+        purl: 'pkg:npm/request@2.88.2',
+        scope: 'required',
+        licenses: [{ expression: 'Apache-2.0' }],
+      },
+      expect.objectContaining({ name: 'jest', scope: 'excluded' }),
+    ])
+    expect(bom.dependencies).toEqual([
+      { ref: 'scan:42', dependsOn: ['pkg:npm/request@2.88.2', 'pkg:npm/jest@29.7.0'] },
+    ])
+  })
+
+  it('attaches findings that affect components as VEX annotations', () => {
+    const bom = buildCycloneDxBom(data) as any
+
+    expect(bom.vulnerabilities).toEqual([
+      {
+        'bom-ref': 'finding:1',
+        id: 'inventory:deprecated_package',
+        source: { name: 'AppCompatCheck' },
+        ratings: [{ severity: 'medium', method: 'other' }],
+        description: 'Deprecated package request is a direct dependency',
+        recommendation: 'Replace request with fetch.',
+        created: '2024-05-01T00:00:00.000Z',
+        analysis: { state: 'in_triage', detail: 'Deprecated package: warning' },
+        affects: [{ ref: 'pkg:npm/request@2.88.2' }],
+      },
+    ])
+  })
+
+  it('maps finding statuses onto VEX analysis states', () => {
+    const results = (['fail', 'pass'] as const).map((status, index) => finding(index + 1, status, ['Package: request']))
+    const bom = buildCycloneDxBom(data, results) as any
+
+    expect(bom.vulnerabilities.map((vulnerability: any) => vulnerability.analysis.state)).toEqual([
+      'exploitable',
+      'not_affected',
+    ])
+  })
+})
@@ -0,0 +1,88 @@
+import { scanBaselineService } from '@/lib/scans/baseline-service'
+import {
+  AnalysisResult,
+  ResultStatus,
+  RuleSeverity,
+  calculateOverallRiskScore,
+} from '@/lib/compatibility/analysis-engine'
+import { DEFAULT_SCORING_PROFILE, mergeScoringProfile } from '@/lib/compatibility/scoring-profile'
+
+// Rows the next select queries resolve to, in order
+const mockRows: unknown[][] = []
+
+jest.mock('@/lib/db/drizzle', () => {
+  const query = () => {
+    const chain: Record<string, unknown> = {}
+    for (const method of ['from', 'where', 'innerJoin']) {
+      chain[method] = () => chain
+    }
+    chain.limit = async () => mockRows.shift() ?? []
+    return chain
+  }
+  return { db: { select: jest.fn(query) } }
+})
+
+jest.mock('@/lib/redis/client', () => ({ redis: {} }))
+
+describe('ScanBaselineService', () => {
+  const access = { userId: '7', organizationId: '3' }
+
+  // An organization profile that weighs warnings far less than the default
+  const profile = mergeScoringProfile(DEFAULT_SCORING_PROFILE, { statusWeights: { warning: 0.1 } })
+
+  const result = (fields: Partial<AnalysisResult>): AnalysisResult => ({
+    ruleId: 'inventory:deprecated',
+    status: ResultStatus.WARNING,
+    severity: RuleSeverity.HIGH,
+    message: 'Finding',
+    details: {},
+    recommendations: '',
+    affectedComponents: [],
+    metadata: {},
+    confidence: 1,
+    ...fields,
+  })
+
+  const baseResults = [result({ affectedComponents: ['Package: a@1.0.0'] })]
+  const headResults = [
+    result({ affectedComponents: ['Package: a@1.0.0'] }),
+    result({ affectedComponents: ['Package: b@1.0.0'], status: ResultStatus.FAILED }),
+  ]
+
+  const scan = (id: string, results: AnalysisResult[]) => ({
+    id,
+    name: 'billing',
+    status: 'completed',
+    config: {},
+    completedAt: new Date('2026-01-01T00:00:00Z'),
+    results: { items: results },
+    metrics: { riskScore: calculateOverallRiskScore(results, profile), scoringProfileVersion: 2 },
+  })
+
+  beforeEach(() => {
+    mockRows.length = 0
+  })
+
+  it('reports the risk scores the scans were stored with', async () => {
+    mockRows.push([scan('head', headResults)], [], [scan('base', baseResults)])
+
+    const comparison = await scanBaselineService.compareScans(access, 'head', 'base')
+
+    expect(comparison.diff.riskScore.base).toBe(comparison.base.riskScore)
+    expect(comparison.diff.riskScore.head).toBe(comparison.head.riskScore)
+    expect(comparison.diff.riskScore.base).not.toBeCloseTo(calculateOverallRiskScore(baseResults))
+    expect(comparison.diff.riskScore.delta).toBeCloseTo(
+      calculateOverallRiskScore(headResults, profile) - calculateOverallRiskScore(baseResults, profile)
+    )
+  })
+
+  it('gates fresh results against the stored score of the baseline', async () => {
+    const pinned = scan('base', baseResults)
+    mockRows.push([{ baseline: { id: 'baseline-1' }, scan: pinned }], [pinned])
+
+    const gate = await scanBaselineService.gateAgainstBaseline(access, 'head', 'billing', headResults, 0.5)
+
+    expect(gate).toMatchObject({ baselineScanId: 'base', passed: false, regressions: 1 })
+    expect(gate!.riskScoreDelta).toBeCloseTo(0.5 - calculateOverallRiskScore(baseResults, profile))
+  })
+})
@@ -0,0 +1,60 @@
+import {
+  CronParseError,
+  isValidTimezone,
+  nextCronRun,
+  parseCron,
+  upcomingCronRuns,
+} from '@/lib/scans/cron-expression'
+
+describe('cron expressions', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const cron = parseCron('*/15 9-17 * JAN,jul MON-FRI')
+
+    expect(cron.minutes.flatMap((on, minute) => (on ? [minute] : []))).toEqual([0, 15, 30, 45])
+    expect(cron.hours.filter(Boolean)).toHaveLength(9)
+    expect(cron.months[1]).toBe(true)
+    expect(cron.months[7]).toBe(true)
+    expect(cron.daysOfWeek).toEqual([false, true, true, true, true, true, false])
+    expect(cron.dayOrMatch).toBe(false)
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(CronParseError)
+    expect(() => parseCron('60 * * * *')).toThrow('minute value 60 is outside 0-59')
+    expect(() => parseCron('*/0 * * * *')).toThrow(CronParseError)
+    expect(() => parseCron('5-1 * * * *')).toThrow(CronParseError)
+  })
+
+  it('finds the next run in UTC', () => {
+    const after = new Date('2026-03-10T10:07:30Z')
+
+    expect(nextCronRun('*/15 * * * *', 'UTC', after)).toEqual(new Date('2026-03-10T10:15:00Z'))
+    expect(nextCronRun('@daily', 'UTC', after)).toEqual(new Date('2026-03-11T00:00:00Z'))
+    expect(nextCronRun('0 0 29 2 *', 'UTC', after)).toEqual(new Date('2028-02-29T00:00:00Z'))
+    expect(nextCronRun('0 0 30 2 *', 'UTC', after)).toBeNull()
+  })
+
+  it('fires on either day field when both are restricted', () => {
+    // 2026-03-10 is a Tuesday; the 15th comes before the next Monday (16th)
+    expect(nextCronRun('0 0 15 * 1', 'UTC', new Date('2026-03-10T00:00:00Z')))
+      .toEqual(new Date('2026-03-15T00:00:00Z'))
+  })
+
+  it('evaluates the wall clock of the timezone across DST changes', () => {
+    // New York moves from UTC-5 to UTC-4 on 2026-03-08
+    expect(upcomingCronRuns('0 9 * * *', 'America/New_York', new Date('2026-03-06T00:00:00Z'), 3)).toEqual([
+      new Date('2026-03-06T14:00:00Z'),
+      new Date('2026-03-07T14:00:00Z'),
+      new Date('2026-03-08T13:00:00Z'),
+    ])
+
+    // 02:30 does not exist that night and runs once the clocks have moved
+    expect(nextCronRun('30 2 * * *', 'America/New_York', new Date('2026-03-08T05:00:00Z')))
+      .toEqual(new Date('2026-03-08T07:30:00Z'))
+  })
+
+  it('validates timezones', () => {
+    expect(isValidTimezone('Europe/Berlin')).toBe(true)
+    expect(isValidTimezone('Mars/Olympus')).toBe(false)
+  })
+})
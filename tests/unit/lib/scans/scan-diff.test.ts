@@ -0,0 +1,70 @@
+import { diffScans, evaluateGate, fingerprintResult } from '@/lib/scans/scan-diff'
+import { AnalysisResult, ResultStatus, RuleSeverity } from '@/lib/compatibility/analysis-engine'
+
+describe('scan diffing', () => {
+  const result = (fields: Partial<AnalysisResult>): AnalysisResult => ({
+    ruleId: 'inventory:deprecated',
+    status: ResultStatus.FAILED,
+    severity: RuleSeverity.HIGH,
+    message: 'Finding',
+    details: {},
+    recommendations: '',
+    affectedComponents: [],
+    metadata: {},
+    confidence: 1,
+    ...fields,
+  })
+
+  it('fingerprints results by rule and normalized components', () => {
+    const fingerprint = fingerprintResult(result({
+      affectedComponents: ['Package: lodash@4.17.15', 'Manifest: package-lock.json'],
+    }))
+
+    expect(fingerprintResult(result({
+      message: 'Different wording',
+      affectedComponents: ['manifest:   package-lock.json', 'Package: Lodash@4.17.21'],
+    }))).toBe(fingerprint)
+    expect(fingerprintResult(result({
+      ruleId: 'inventory:duplicate',
+      affectedComponents: ['Package: lodash@4.17.15', 'Manifest: package-lock.json'],
+    }))).not.toBe(fingerprint)
+    expect(fingerprintResult(result({ affectedComponents: ['Application: Chrome', 'Version: 119'] })))
+      .toBe(fingerprintResult(result({ affectedComponents: ['Application: Chrome', 'Version: 120'] })))
+  })
+
+  it('keeps the scope of scoped package names', () => {
+    expect(fingerprintResult(result({ affectedComponents: ['Package: @babel/core@7.0.0'] })))
+      .toBe(fingerprintResult(result({ affectedComponents: ['Package: @babel/core'] })))
+    expect(fingerprintResult(result({ affectedComponents: ['Package: @babel/core@7.0.0'] })))
+      .not.toBe(fingerprintResult(result({ affectedComponents: ['Package: core@7.0.0'] })))
+  })
+
+  it('splits findings into new, fixed and unchanged', () => {
+    const shared = result({ affectedComponents: ['Package: a@1.0.0'], status: ResultStatus.WARNING })
+    const fixed = result({ affectedComponents: ['Package: b@1.0.0'] })
+    const added = result({ affectedComponents: ['Package: c@1.0.0'] })
+    const passed = result({ affectedComponents: ['Package: d@1.0.0'], status: ResultStatus.PASSED })
+
+    const diff = diffScans(
+      [shared, fixed, passed],
+      [{ ...shared, status: ResultStatus.FAILED, affectedComponents: ['Package: a@1.1.0'] }, added, added, passed]
+    )
+
+    expect(diff.summary).toEqual({ new: 1, fixed: 1, unchanged: 1 })
+    expect(diff.new[0]!.affectedComponents).toEqual(['Package: c@1.0.0'])
+    expect(diff.new[0]!.occurrences).toBe(2)
+    expect(diff.fixed[0]!.affectedComponents).toEqual(['Package: b@1.0.0'])
+    expect(diff.unchanged[0]!.previousStatus).toBe(ResultStatus.WARNING)
+    expect(diff.unchanged[0]!.status).toBe(ResultStatus.FAILED)
+    expect(diff.riskScore.delta).toBeCloseTo(diff.riskScore.head - diff.riskScore.base)
+  })
+
+  it('fails the gate only on new failed findings', () => {
+    const existing = result({ affectedComponents: ['Package: a@1.0.0'] })
+    const warning = result({ affectedComponents: ['Package: b@1.0.0'], status: ResultStatus.WARNING })
+    const failure = result({ affectedComponents: ['Package: c@1.0.0'] })
+
+    expect(evaluateGate(diffScans([existing], [existing, warning]))).toEqual({ passed: true, regressions: 0 })
+    expect(evaluateGate(diffScans([existing], [existing, failure]))).toEqual({ passed: false, regressions: 1 })
+  })
+})
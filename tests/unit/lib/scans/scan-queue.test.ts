@@ -0,0 +1,198 @@
+import { ScanQueue, ScanJob, getRetryDelay, SCAN_QUEUE_CONFIG } from '@/lib/scans/scan-queue'
+
+// In-memory stand-in for the handful of redis commands the queue uses
+const mockStore = {
+  lists: new Map<string, string[]>(),
+  zsets: new Map<string, Map<string, number>>(),
+  sets: new Map<string, Set<string>>(),
+  strings: new Map<string, string>(),
+}
+
+jest.mock('@/lib/redis/client', () => {
+  const list = (key: string) => mockStore.lists.get(key) ?? mockStore.lists.set(key, []).get(key)!
+  const zset = (key: string) => mockStore.zsets.get(key) ?? mockStore.zsets.set(key, new Map()).get(key)!
+  const set = (key: string) => mockStore.sets.get(key) ?? mockStore.sets.set(key, new Set()).get(key)!
+
+  const lrem = (key: string, count: number, value: string) => {
+    const items = list(key)
+    let removed = 0
+    for (let index = items.indexOf(value); index !== -1 && (count === 0 || removed < count); index = items.indexOf(value)) {
+      items.splice(index, 1)
+      removed++
+    }
+    return removed
+  }
+
+  const redis = {
+    lpush: async (key: string, value: string) => list(key).unshift(value),
+    lrange: async (key: string) => [...list(key)],
+    lrem: async (key: string, count: number, value: string) => lrem(key, count, value),
+    llen: async (key: string) => list(key).length,
+    ltrim: async () => 'OK',
+    zadd: async (key: string, score: number, value: string) => zset(key).set(value, score).size,
+    zrange: async (key: string) => [...zset(key).keys()],
+    zrangebyscore: async (key: string, min: number, max: number) =>
+      [...zset(key)].filter(([, score]) => score >= min && score <= max).map(([value]) => value),
+    zrem: async (key: string, value: string) => (zset(key).delete(value) ? 1 : 0),
+    zcard: async (key: string) => zset(key).size,
+    sadd: async (key: string, value: string) => (set(key).has(value) ? 0 : (set(key).add(value), 1)),
+    srem: async (key: string, value: string) => (set(key).delete(value) ? 1 : 0),
+    sismember: async (key: string, value: string) => (set(key).has(value) ? 1 : 0),
+    expire: async () => 1,
+    set: async (key: string, value: string) => (mockStore.strings.set(key, value), 'OK'),
+    del: async (key: string) => (mockStore.strings.delete(key) ? 1 : 0),
+    exists: async (key: string) => (mockStore.strings.has(key) ? 1 : 0),
+    // The queue's two scripts, run as redis would: without interleaving
+    eval: async (script: string, _keyCount: number, ...args: (string | number)[]) => {
+      if (script.includes('rpoplpush')) {
+        const [pending, processing, heartbeatPrefix] = args as string[]
+        const raw = list(pending!).pop()
+        if (!raw) return null
+        list(processing!).unshift(raw)
+        const job = JSON.parse(raw)
+        mockStore.strings.set(`${heartbeatPrefix}${job.scanId}`, job.id)
+        return raw
+      }
+      const [key, member, limit] = args as [string, string, number]
+      if (set(key).has(member)) return 1
+      if (set(key).size >= Number(limit)) return 0
+      set(key).add(member)
+      return 1
+    },
+  }
+
+  return { redis }
+})
+
+const PROCESSING = 'scan_jobs:processing'
+const heartbeatKey = (scanId: string) => `scan_jobs:heartbeat:${scanId}`
+
+const newJob = (scanId: string, organizationId = 3) => ({
+  scanId,
+  sessionId: `session-${scanId}`,
+  userId: 7,
+  organizationId,
+  dataType: 'security_log' as const,
+  uploadIds: [1],
+})
+
+describe('ScanQueue', () => {
+  const queue = ScanQueue.getInstance()
+
+  beforeEach(() => {
+    mockStore.lists.clear()
+    mockStore.zsets.clear()
+    mockStore.sets.clear()
+    mockStore.strings.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('backs off exponentially between attempts', () => {
+    expect(getRetryDelay(0, 1000)).toBe(1000)
+    expect(getRetryDelay(1, 1000)).toBe(1000)
+    expect(getRetryDelay(2, 1000)).toBe(2000)
+    expect(getRetryDelay(4, 1000)).toBe(8000)
+  })
+
+  it('writes the heartbeat in the same step that reserves the job', async () => {
+    await queue.enqueue(newJob('scan-1'))
+
+    const job = await queue.reserve(0)
+
+    expect(job?.scanId).toBe('scan-1')
+    expect(mockStore.lists.get(PROCESSING)).toHaveLength(1)
+    expect(mockStore.strings.get(heartbeatKey('scan-1'))).toBe(job!.id)
+
+    // Recovery running right after the reservation leaves the live job alone
+    const recovered = await queue.recoverStalledJobs()
+    expect(recovered).toEqual({ requeued: [], exhausted: [] })
+    expect(mockStore.lists.get(PROCESSING)).toHaveLength(1)
+  })
+
+  it('returns null once the wait runs out on an empty queue', async () => {
+    expect(await queue.reserve(0)).toBeNull()
+  })
+
+  it('delays a failed job for retry until it runs out of attempts', async () => {
+    await queue.enqueue(newJob('scan-1'), { maxAttempts: 2 })
+    const job = (await queue.reserve(0)) as ScanJob
+
+    expect(await queue.fail(job, new Error('boom'))).toBe(true)
+    expect(job).toMatchObject({ attempts: 1, lastError: 'boom' })
+    expect(mockStore.lists.get(PROCESSING)).toHaveLength(0)
+    expect(mockStore.strings.has(heartbeatKey('scan-1'))).toBe(false)
+    expect(mockStore.zsets.get('scan_jobs:delayed')?.size).toBe(1)
+
+    // Bring the retry forward and take it again
+    const delayed = mockStore.zsets.get('scan_jobs:delayed')!
+    for (const raw of delayed.keys()) delayed.set(raw, 0)
+    const retry = (await queue.reserve(0)) as ScanJob
+    expect(retry).toMatchObject({ scanId: 'scan-1', attempts: 1 })
+
+    expect(await queue.fail(retry, new Error('boom again'))).toBe(false)
+    expect(mockStore.lists.get(PROCESSING)).toHaveLength(0)
+    expect(mockStore.zsets.get('scan_jobs:delayed')?.size).toBe(0)
+    expect(JSON.parse(mockStore.lists.get('scan_job_results:failed')![0]!)).toMatchObject({
+      scanId: 'scan-1',
+      attempts: 2,
+      error: 'boom again',
+    })
+  })
+
+  it('requeues jobs whose heartbeat lapsed and fails those out of attempts', async () => {
+    await queue.enqueue(newJob('scan-1'))
+    await queue.enqueue(newJob('scan-2'), { maxAttempts: 1 })
+    await queue.reserve(0)
+    await queue.reserve(0)
+    mockStore.strings.clear()
+
+    const { requeued, exhausted } = await queue.recoverStalledJobs()
+
+    expect(requeued.map(job => job.scanId)).toEqual(['scan-1'])
+    expect(exhausted.map(job => job.scanId)).toEqual(['scan-2'])
+    expect(requeued[0]).toMatchObject({ attempts: 1, lastError: 'Worker stopped responding' })
+    expect(mockStore.lists.get(PROCESSING)).toHaveLength(0)
+    expect(mockStore.lists.get('scan_jobs:pending')).toHaveLength(1)
+  })
+
+  it('removes cancelled jobs that are still waiting', async () => {
+    await queue.enqueue(newJob('scan-1'))
+    await queue.enqueue(newJob('scan-2'))
+
+    expect(await queue.cancel('scan-1')).toBe(true)
+    expect(await queue.isCancelled('scan-1')).toBe(true)
+    expect(await queue.isCancelled('scan-2')).toBe(false)
+    expect((await queue.reserve(0))?.scanId).toBe('scan-2')
+    expect(await queue.reserve(0)).toBeNull()
+  })
+
+  it('flags running jobs as cancelled without removing them', async () => {
+    await queue.enqueue(newJob('scan-1'))
+    const job = (await queue.reserve(0)) as ScanJob
+
+    expect(await queue.cancel('scan-1')).toBe(false)
+    expect(await queue.isCancelled('scan-1')).toBe(true)
+
+    await queue.acknowledgeCancelled(job)
+    expect(mockStore.lists.get(PROCESSING)).toHaveLength(0)
+    expect(mockStore.lists.get('scan_job_results:cancelled')).toHaveLength(1)
+  })
+
+  it('limits how many scans an organization runs at once', async () => {
+    const limit = SCAN_QUEUE_CONFIG.maxConcurrentPerOrg
+    const jobs = Array.from({ length: limit + 1 }, (_, index) => ({ ...newJob(`scan-${index}`), id: `scan_job:scan-${index}` }) as ScanJob)
+
+    const acquired = await Promise.all(jobs.map(job => queue.acquireOrgSlot(job)))
+
+    expect(acquired.filter(Boolean)).toHaveLength(limit)
+    expect(await queue.acquireOrgSlot({ ...newJob('scan-x', 4), id: 'scan_job:scan-x' } as ScanJob)).toBe(true)
+
+    await queue.releaseOrgSlot(jobs[0]!)
+    expect(await queue.acquireOrgSlot(jobs[limit]!)).toBe(true)
+  })
+})
@@ -0,0 +1,182 @@
+import { ScanScheduler } from '@/lib/scans/scan-scheduler'
+import {
+  scheduleService,
+  ScheduleInputSchema,
+  ScheduleRunStatus,
+  ScheduleSource,
+} from '@/lib/scans/schedule-service'
+import { storeScanInput } from '@/lib/upload/scan-inputs'
+import type { FileUpload, ScanSchedule, ScanScheduleRun } from '@/lib/db/schema'
+
+const mockEnqueue = jest.fn()
+const mockSync = jest.fn()
+
+jest.mock('@/lib/db/drizzle', () => {
+  const query = (rows: () => unknown[]) => () => {
+    const chain: Record<string, unknown> = {}
+    for (const method of ['from', 'where', 'set', 'values']) {
+      chain[method] = () => chain
+    }
+    chain.limit = async () => rows()
+    chain.returning = async () => rows()
+    chain.then = (resolve: (rows: unknown[]) => unknown) => Promise.resolve([]).then(resolve)
+    return chain
+  }
+  return {
+    db: {
+      select: jest.fn(query(() => [{ id: 'project-1', name: 'billing', defaultScanConfig: {} }])),
+      insert: jest.fn(query(() => [{ id: 'scan-1', name: 'Nightly' }])),
+      update: jest.fn(query(() => [])),
+    },
+  }
+})
+
+jest.mock('@/lib/redis/client', () => ({ redis: {} }))
+
+jest.mock('@/lib/db/redis', () => ({
+  locks: { acquire: jest.fn(async () => true), renew: jest.fn(async () => true), release: jest.fn() },
+}))
+
+jest.mock('@/lib/db/queries', () => ({ logActivity: jest.fn() }))
+
+jest.mock('@/lib/notifications/events', () => ({ NotificationEvents: {} }))
+
+jest.mock('@/lib/projects/project-service', () => ({ projectService: {} }))
+
+jest.mock('@/lib/integrations/integration-manager', () => ({
+  IntegrationManager: { getInstance: () => ({ initializeIntegration: () => ({ sync: mockSync }) }) },
+}))
+
+jest.mock('@/lib/upload/scan-inputs', () => ({
+  storeScanInput: jest.fn(),
+  resolveScanUploads: jest.fn(),
+}))
+
+jest.mock('@/lib/scans/scan-queue', () => ({
+  ...jest.requireActual('@/lib/scans/scan-queue'),
+  ScanQueue: { getInstance: () => ({ enqueue: mockEnqueue }) },
+}))
+
+jest.mock('@/lib/scans/schedule-service', () => ({
+  ...jest.requireActual('@/lib/scans/schedule-service'),
+  scheduleService: {
+    getDueSchedules: jest.fn(),
+    claimRun: jest.fn(),
+    finishRun: jest.fn(),
+    getDueReminders: jest.fn(async () => []),
+    getAutoPausedSchedules: jest.fn(async () => []),
+    getLatestArtifacts: jest.fn(),
+    getSourceIntegration: jest.fn(),
+    getSourceAsset: jest.fn(),
+  },
+}))
+
+const service = scheduleService as jest.Mocked<typeof scheduleService>
+
+const schedule = (fields: Partial<ScanSchedule>): ScanSchedule => ({
+  id: 'schedule-1',
+  organizationId: '3',
+  projectId: 'project-1',
+  name: 'Nightly',
+  cron: '0 2 * * *',
+  timezone: 'UTC',
+  source: ScheduleSource.LAST_UPLOAD,
+  sourceConfig: {},
+  scanConfig: {},
+  status: 'active',
+  pauseReason: null,
+  pausedAt: null,
+  consecutiveFailures: 0,
+  reminderMinutes: null,
+  remindedFor: null,
+  nextRunAt: new Date('2026-01-01T02:00:00Z'),
+  lastRunAt: null,
+  createdBy: '7',
+  createdAt: new Date('2025-12-01T00:00:00Z'),
+  updatedAt: new Date('2025-12-01T00:00:00Z'),
+  ...fields,
+})
+
+const run = { id: 'run-1', scheduledFor: new Date('2026-01-01T02:00:00Z') } as ScanScheduleRun
+
+// Let the scheduler fire one due schedule and return the outcome it recorded
+async function fireOnce(due: ScanSchedule) {
+  service.getDueSchedules.mockResolvedValueOnce([due]).mockResolvedValue([])
+  service.claimRun.mockResolvedValue(run)
+  const finished = new Promise(resolve => {
+    service.finishRun.mockImplementation(async (_schedule: ScanSchedule, _run: ScanScheduleRun, outcome: unknown) => {
+      resolve(outcome)
+    })
+  })
+
+  const scheduler = new ScanScheduler({ tickIntervalMs: 10 })
+  scheduler.start()
+  const outcome = await finished
+  await scheduler.stop()
+  return outcome
+}
+
+describe('ScanScheduler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('scans what an integration pull produced', async () => {
+    service.getSourceIntegration.mockResolvedValue({ id: 'int-1', provider: 'snyk', name: 'Snyk', config: {} } as any)
+    const entries = [{ timestamp: '2026-01-01T00:00:00Z', tool: 'Snyk', severity: 'high', category: 'vuln', message: 'Prototype pollution' }]
+    mockSync.mockResolvedValue({
+      success: true,
+      errors: [],
+      lastSyncAt: new Date(),
+      scanInputs: [{ name: 'snyk-vulnerabilities.json', dataType: 'security_log', entries }],
+    })
+    ;(storeScanInput as jest.Mock).mockResolvedValue({ id: 41, dataType: 'security_log', originalName: 'snyk-vulnerabilities.json' } as FileUpload)
+
+    const outcome = await fireOnce(schedule({ source: ScheduleSource.INTEGRATION, sourceConfig: { integrationId: 'int-1' } }))
+
+    expect(outcome).toEqual({ status: ScheduleRunStatus.QUEUED, scanId: 'scan-1' })
+    expect(storeScanInput).toHaveBeenCalledWith({ userId: 7, organizationId: 3 }, 'snyk-vulnerabilities.json', 'security_log', entries)
+    expect(service.getLatestArtifacts).not.toHaveBeenCalled()
+    expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({ uploadIds: [41], dataType: 'security_log' }))
+  })
+
+  it('skips an integration run whose pull produced nothing to scan', async () => {
+    service.getSourceIntegration.mockResolvedValue({ id: 'int-1', provider: 'snyk', name: 'Snyk', config: {} } as any)
+    mockSync.mockResolvedValue({ success: true, errors: [], lastSyncAt: new Date(), scanInputs: [] })
+
+    const outcome = await fireOnce(schedule({ source: ScheduleSource.INTEGRATION, sourceConfig: { integrationId: 'int-1' } }))
+
+    expect(outcome).toMatchObject({ status: ScheduleRunStatus.SKIPPED })
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it('scans the reported inventory of a system schedule\'s asset', async () => {
+    service.getSourceAsset.mockResolvedValue({ id: 'asset-1', lastSeenAt: new Date() } as any)
+
+    const outcome = await fireOnce(schedule({ source: ScheduleSource.SYSTEM, sourceConfig: { assetId: 'asset-1' } }))
+
+    expect(outcome).toEqual({ status: ScheduleRunStatus.QUEUED, scanId: 'scan-1' })
+    expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({
+      assetId: 'asset-1',
+      dataType: 'dependency_manifest',
+      uploadIds: [],
+    }))
+  })
+
+  it('skips a system run whose asset is gone', async () => {
+    service.getSourceAsset.mockResolvedValue(null)
+
+    const outcome = await fireOnce(schedule({ source: ScheduleSource.SYSTEM, sourceConfig: { assetId: 'asset-1' } }))
+
+    expect(outcome).toMatchObject({ status: ScheduleRunStatus.SKIPPED, error: 'The asset no longer exists' })
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it('requires an asset for system schedules', () => {
+    const input = { name: 'Host', cron: '0 2 * * *', timezone: 'UTC', source: ScheduleSource.SYSTEM }
+
+    expect(ScheduleInputSchema.safeParse(input).success).toBe(false)
+    expect(ScheduleInputSchema.safeParse({ ...input, sourceConfig: { assetId: 'asset-1' } }).success).toBe(true)
+  })
+})
@@ -0,0 +1,68 @@
+import { checkSourceApis } from '@/lib/source-analysis/api-checks'
+import { ResultStatus } from '@/lib/compatibility/analysis-engine'
+import { SourceFeatureUsage } from '@/lib/source-analysis/types'
+
+const usage = (feature: string, line: number, fields: Partial<SourceFeatureUsage> = {}): SourceFeatureUsage => ({
+  feature,
+  kind: 'deprecated',
+  language: 'javascript',
+  file: 'src/server.js',
+  line,
+  column: 5,
+  snippet: 'call();',
+  confidence: 0.95,
+  ...fields,
+})
+
+describe('checkSourceApis', () => {
+  it('fails Node.js APIs removed in a version engines.node allows', () => {
+    const [result] = checkSourceApis([usage('crypto-createcipher', 12), usage('crypto-createcipher', 40)], { nodeEngine: '>=18' })
+
+    expect(result).toMatchObject({
+      ruleId: 'deprecated-api:crypto-createcipher',
+      status: ResultStatus.FAILED,
+      severity: 'high',
+      affectedComponents: ['File: src/server.js:12', 'File: src/server.js:40'],
+      metadata: { source: 'source_analysis', pattern: 'deprecated_api' },
+    })
+    expect(result!.message).toBe('crypto.createCipher() was removed in Node.js 22, which engines.node ">=18" allows; used in src/server.js')
+    expect(result!.details).toMatchObject({
+      deprecationCode: 'DEP0106',
+      removedIn: '22.0.0',
+      locations: [
+        { uri: 'src/server.js', startLine: 12, startColumn: 5 },
+        { uri: 'src/server.js', startLine: 40, startColumn: 5 },
+      ],
+    })
+    expect(result!.recommendations).toContain('createCipheriv')
+  })
+
+  it('warns about removed APIs the targeted Node.js versions still have', () => {
+    const [pinned] = checkSourceApis([usage('crypto-createcipher', 12)], { nodeEngine: '18.x || 20.x' })
+    const [unknown] = checkSourceApis([usage('crypto-createcipher', 12)])
+
+    expect(pinned).toMatchObject({ status: ResultStatus.WARNING, severity: 'medium' })
+    expect(unknown!.message).toBe('Deprecated API crypto.createCipher(), removed in Node.js 22, used in src/server.js')
+  })
+
+  it('warns about deprecated APIs and type-safety escapes', () => {
+    const results = checkSourceApis([
+      usage('date-getyear', 3, { language: 'typescript', confidence: 0.8 }),
+      usage('unsafe-type-assertion', 7, { kind: 'type-safety', language: 'typescript', confidence: 0.7 }),
+      usage('unsafe-type-assertion', 9, { kind: 'type-safety', language: 'typescript', confidence: 0.7 }),
+    ])
+
+    expect(results).toMatchObject([
+      { ruleId: 'deprecated-api:date-getyear', status: ResultStatus.WARNING, severity: 'low', confidence: 0.8 },
+      {
+        ruleId: 'type-safety:unsafe-type-assertion',
+        status: ResultStatus.WARNING,
+        message: 'Unchecked type assertion in src/server.js (2 places)',
+      },
+    ])
+  })
+
+  it('ignores browser features', () => {
+    expect(checkSourceApis([usage('optional-chaining', 1, { kind: 'syntax' })])).toEqual([])
+  })
+})
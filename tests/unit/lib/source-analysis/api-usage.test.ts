@@ -0,0 +1,85 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { detectFeatures } from '@/lib/source-analysis/feature-detection'
+
+const findings = (fileName: string, content: string) =>
+  detectFeatures(fileName, content)
+    .filter(usage => usage.kind === 'deprecated' || usage.kind === 'type-safety')
+    .map(usage => `${usage.feature}:${usage.line}`)
+
+describe('detectApiUsages', () => {
+  it('flags the deprecated and unsafe code in the TypeScript fixture', () => {
+    const fixture = readFileSync(path.join(__dirname, '../../../fixtures/test-code.ts'), 'utf-8')
+    const usages = detectFeatures('test-code.ts', fixture).filter(usage => usage.kind === 'deprecated' || usage.kind === 'type-safety')
+
+    expect(usages.map(usage => `${usage.feature}:${usage.line}`)).toEqual([
+      'any-parameter:9',
+      'date-getyear:21',
+      'unsafe-type-assertion:26',
+    ])
+    // The receiver was created with new Date()
+    expect(usages[1]).toMatchObject({ column: 15, confidence: 0.95, snippet: 'return date.getYear(); // Deprecated method' })
+  })
+
+  it('flags deprecated DOM APIs in the JavaScript fixture', () => {
+    const fixture = readFileSync(path.join(__dirname, '../../../fixtures/test-code.js'), 'utf-8')
+
+    expect(findings('test-code.js', fixture)).toEqual(['document-all:4'])
+  })
+
+  it('matches Node.js APIs through their module bindings', () => {
+    const source = [
+      "import util from 'node:util';",
+      "import { createCipher as cipher } from 'crypto';",
+      "const { parse } = require('url');",
+      'util.isString(name);',
+      "cipher('aes192', key);",
+      'parse(input);',
+      "require('fs').exists(file, done);",
+      "const domain = require('domain');",
+    ].join('\n')
+
+    expect(findings('server.js', source)).toEqual([
+      'util-isstring:4',
+      'crypto-createcipher:5',
+      'url-parse:6',
+      'fs-exists:7',
+      'domain-module:8',
+    ])
+  })
+
+  it('ignores locals that shadow globals and receivers of another type', () => {
+    expect(findings('a.js', 'new Buffer(10);\nescape(value);')).toEqual(['buffer-constructor:1', 'escape:2'])
+    expect(findings('a.js', 'function escape(value) { return value }\nescape(value);')).toEqual([])
+    expect(findings('a.js', 'const clock = new Clock();\nclock.getYear();')).toEqual([])
+    expect(detectFeatures('a.js', 'value.getYear();')[0]).toMatchObject({ feature: 'date-getyear', confidence: 0.8 })
+  })
+
+  it('does not report assertions checked before use', () => {
+    const source = [
+      'function read(value: unknown, input: unknown) {',
+      "  if (typeof value === 'string') { return (value as string).trim(); }",
+      '  if (!(input instanceof Date)) return;',
+      '  return (input as Date).getTime();',
+      '}',
+    ].join('\n')
+
+    expect(findings('a.ts', source)).toEqual([])
+  })
+
+  it('distinguishes double assertions, assertions to any and const assertions', () => {
+    const source = [
+      'const config = raw as unknown as Config;',
+      'const loose = raw as any;',
+      "const modes = ['a', 'b'] as const;",
+      'const hidden = <any>raw as Config;',
+    ].join('\n')
+
+    expect(findings('a.ts', source)).toEqual(['double-type-assertion:1', 'any-type-assertion:2', 'double-type-assertion:4'])
+  })
+
+  it('only checks types in TypeScript', () => {
+    expect(findings('a.js', 'function run(value) { return value }')).toEqual([])
+    expect(findings('a.ts', 'declare function run(value: any): void;\nfunction log(...args: any[]) {}')).toEqual(['any-parameter:2'])
+  })
+})
@@ -0,0 +1,80 @@
+import { checkBrowserCompat } from '@/lib/source-analysis/browser-compat'
+import { ResultStatus } from '@/lib/compatibility/analysis-engine'
+import { SourceFeatureUsage } from '@/lib/source-analysis/types'
+
+const usage = (feature: string, line: number, fields: Partial<SourceFeatureUsage> = {}): SourceFeatureUsage => ({
+  feature,
+  kind: 'css',
+  language: 'css',
+  file: 'styles/site.css',
+  line,
+  column: 3,
+  snippet: `${feature}: value;`,
+  confidence: 0.95,
+  ...fields,
+})
+
+const targets = [
+  { browser: 'chrome', version: '131' },
+  { browser: 'safari', version: '17.6' },
+  { browser: 'safari', version: '18.1' },
+  { browser: 'ios_saf', version: '17.6' },
+]
+
+describe('checkBrowserCompat', () => {
+  it('reports unsupported browsers with every location of the feature', () => {
+    const [result, ...rest] = checkBrowserCompat(
+      [usage('css-backdrop-filter', 2), usage('css-backdrop-filter', 14)],
+      targets,
+      { browserslist: ['defaults'] }
+    )
+
+    expect(rest).toEqual([])
+    expect(result).toMatchObject({
+      ruleId: 'browser-compat:css-backdrop-filter',
+      status: ResultStatus.FAILED,
+      affectedComponents: [
+        'File: styles/site.css:2',
+        'File: styles/site.css:14',
+        'Browser: Safari 17.6',
+        'Browser: iOS Safari 17.6',
+      ],
+      metadata: { source: 'browser_compatibility', feature: 'css-backdrop-filter' },
+      confidence: 0.95,
+    })
+    expect(result!.details).toMatchObject({
+      file: 'styles/site.css',
+      unsupported: [
+        { browser: 'safari', versions: ['17.6'] },
+        { browser: 'ios_saf', versions: ['17.6'] },
+      ],
+      locations: [
+        { uri: 'styles/site.css', startLine: 2, startColumn: 3 },
+        { uri: 'styles/site.css', startLine: 14, startColumn: 3 },
+      ],
+      browserslist: ['defaults'],
+    })
+    expect(result!.message).toContain('CSS backdrop-filter is not supported by Safari 17.6, iOS Safari 17.6')
+    expect(result!.recommendations).toContain('-webkit-backdrop-filter')
+  })
+
+  it('counts prefixed usages as supported where the prefixed form is', () => {
+    expect(checkBrowserCompat([usage('css-backdrop-filter', 2, { prefixed: true })], targets)).toEqual([])
+  })
+
+  it('passes features every target supports', () => {
+    expect(checkBrowserCompat([usage('css-grid', 1), usage('fetch', 3, { kind: 'api' })], targets)).toEqual([])
+  })
+
+  it('downgrades usages guarded by @supports to warnings', () => {
+    const [result] = checkBrowserCompat([usage('css-backdrop-filter', 4, { guarded: true })], targets)
+
+    expect(result).toMatchObject({ status: ResultStatus.WARNING, severity: 'low' })
+  })
+
+  it('treats browsers missing from the support data as unsupported', () => {
+    const [result] = checkBrowserCompat([usage('fetch', 1, { kind: 'api' })], [{ browser: 'ie', version: '11' }])
+
+    expect(result!.details.unsupported).toEqual([{ browser: 'ie', versions: ['11'], usage: expect.any(Number) }])
+  })
+})
@@ -0,0 +1,86 @@
+import { compareBrowserVersions, parseBrowserslistConfig, resolveBrowserslist } from '@/lib/source-analysis/browserslist'
+import { parseProjectConfig, pep440ToSemverRange } from '@/lib/source-analysis/source-files'
+
+const has = (targets: { browser: string; version: string }[], browser: string, version: string) =>
+  targets.some(target => target.browser === browser && target.version === version)
+
+describe('compareBrowserVersions', () => {
+  it('compares dotted versions numerically', () => {
+    expect(compareBrowserVersions('9', '10.1')).toBeLessThan(0)
+    expect(compareBrowserVersions('16.0', '16')).toBe(0)
+    expect(compareBrowserVersions('17.10', '17.6')).toBeGreaterThan(0)
+  })
+})
+
+describe('resolveBrowserslist', () => {
+  it('resolves usage, last versions and dead queries', () => {
+    const { targets, warnings } = resolveBrowserslist('> 1%, last 2 versions, not dead')
+
+    expect(warnings).toEqual([])
+    expect(has(targets, 'and_chr', '132')).toBe(true)
+    expect(has(targets, 'safari', '18.2')).toBe(true)
+    expect(has(targets, 'safari', '18.1')).toBe(true)
+    expect(targets.some(target => target.browser === 'ie')).toBe(false)
+  })
+
+  it('resolves version comparisons and Firefox ESR', () => {
+    const { targets } = resolveBrowserslist(['safari >= 17.4', 'Firefox ESR'])
+
+    expect(targets.filter(target => target.browser === 'safari').map(target => target.version))
+      .toEqual(['17.4', '17.5', '17.6', '18.0', '18.1', '18.2'])
+    expect(targets.filter(target => target.browser === 'firefox').map(target => target.version)).toEqual(['115', '128'])
+  })
+
+  it('intersects and negates queries', () => {
+    const { targets } = resolveBrowserslist('last 3 versions and safari > 1, not safari 18.2')
+
+    expect(targets.map(target => `${target.browser} ${target.version}`)).toEqual(['safari 18.0', 'safari 18.1'])
+  })
+
+  it('falls back to the defaults query and skips unsupported queries with a warning', () => {
+    const defaults = resolveBrowserslist([])
+    expect(defaults.targets.length).toBeGreaterThan(0)
+
+    const { targets, warnings } = resolveBrowserslist('cover 99.5%, chrome 131')
+    expect(targets).toEqual([{ browser: 'chrome', version: '131' }])
+    expect(warnings).toEqual(['Unsupported browserslist query skipped: "cover 99.5%"'])
+  })
+})
+
+describe('parseBrowserslistConfig', () => {
+  it('reads the production section of a .browserslistrc', () => {
+    const rc = '# Browsers we support\n> 1%\n\n[production]\nlast 2 safari versions\n\n[development]\nlast 1 chrome version\n'
+
+    expect(parseBrowserslistConfig(rc)).toEqual(['> 1%', 'last 2 safari versions'])
+  })
+
+  it('reads package.json browserslist fields', () => {
+    expect(parseBrowserslistConfig(['defaults', 'not ie 11'])).toEqual(['defaults', 'not ie 11'])
+    expect(parseBrowserslistConfig({ production: ['> 1%'], development: ['last 1 chrome version'] })).toEqual(['> 1%'])
+    expect(parseBrowserslistConfig(undefined)).toBeNull()
+  })
+
+  it('reads browser and Node.js targets from package.json', () => {
+    const pkg = JSON.stringify({ name: 'app', browserslist: '> 1%, not dead', engines: { node: '>=18' } })
+
+    expect(parseProjectConfig('package.json', pkg)).toEqual({
+      browserslist: ['> 1%, not dead'],
+      nodeEngine: '>=18',
+      runtimes: { node: '>=18' },
+    })
+    expect(parseProjectConfig('package.json', '{}')).toEqual({})
+    expect(() => parseProjectConfig('package.json', '{')).toThrow('not valid JSON')
+  })
+
+  it('reads the Python requirement from pyproject.toml', () => {
+    const pyproject = '[project]\nname = "app"\nrequires-python = ">=3.10,!=3.11.0"\n\n[tool.ruff]\nline-length = 100\n'
+
+    expect(parseProjectConfig('pyproject.toml', pyproject)).toEqual({ runtimes: { python: '>=3.10' } })
+    expect(parseProjectConfig('pyproject.toml', '[tool.black]\n')).toEqual({})
+    expect(pep440ToSemverRange('~=3.10')).toBe('^3.10')
+    expect(pep440ToSemverRange('~=3.10.2')).toBe('~3.10.2')
+    expect(pep440ToSemverRange('==3.11.*')).toBe('3.11.x')
+    expect(pep440ToSemverRange('>=3.9, <4')).toBe('>=3.9 <4')
+    expect(pep440ToSemverRange('~=3')).toBeNull()
+  })
+})
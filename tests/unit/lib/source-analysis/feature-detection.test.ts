@@ -0,0 +1,118 @@
+import { detectFeatures } from '@/lib/source-analysis/feature-detection'
+import { detectSourceLanguage } from '@/lib/source-analysis/source-files'
+
+const features = (fileName: string, content: string) =>
+  detectFeatures(fileName, content).map(usage => `${usage.feature}:${usage.line}`)
+
+describe('detectSourceLanguage', () => {
+  it('detects languages by extension and skips declaration files', () => {
+    expect(detectSourceLanguage('src/app.mjs')).toBe('javascript')
+    expect(detectSourceLanguage('src/App.tsx')).toBe('typescript')
+    expect(detectSourceLanguage('styles/site.css')).toBe('css')
+    expect(detectSourceLanguage('types/global.d.ts')).toBeNull()
+    expect(detectSourceLanguage('styles/site.scss')).toBeNull()
+  })
+})
+
+describe('detectFeatures in scripts', () => {
+  it('detects syntax features with their location', () => {
+    const source = [
+      'var user = load();',
+      'var name = user?.profile.name ?? "anonymous";',
+      'var total = 2 ** 10;',
+      'try { run(); } catch { }',
+    ].join('\n')
+
+    const usages = detectFeatures('app.js', source)
+
+    expect(usages.map(usage => `${usage.feature}:${usage.line}`)).toEqual([
+      'nullish-coalescing:2',
+      'optional-chaining:2',
+      'exponentiation:3',
+      'optional-catch-binding:4',
+    ])
+    expect(usages[0]).toMatchObject({
+      kind: 'syntax',
+      language: 'javascript',
+      file: 'app.js',
+      column: 12,
+      snippet: 'var name = user?.profile.name ?? "anonymous";',
+      confidence: 0.95,
+    })
+  })
+
+  it('detects global and static APIs unless a local declaration shadows them', () => {
+    expect(features('api.js', 'fetch(url);\nvar copy = structuredClone(data);\nObject.hasOwn(copy, "id");')).toEqual([
+      'fetch:1',
+      'structuredclone:2',
+      'object-hasown:3',
+    ])
+    expect(features('api.js', 'function fetch() {}\nfetch();')).toEqual([])
+    expect(features('api.js', 'var options = { fetch: true };\noptions.fetch;')).toEqual([])
+  })
+
+  it('reports method names with lower confidence', () => {
+    const [usage] = detectFeatures('list.js', 'var last = items.at(-1);')
+
+    expect(usage).toMatchObject({ feature: 'array-at', kind: 'api', confidence: 0.6 })
+  })
+
+  it('ignores types and lowers the confidence of transpiled syntax in TypeScript', () => {
+    const usages = detectFeatures('app.ts', 'type Name = string | undefined;\nconst name: Name = user?.name;')
+
+    expect(usages.map(usage => usage.feature)).toEqual(['let', 'optional-chaining'])
+    expect(usages.every(usage => usage.confidence === 0.5)).toBe(true)
+  })
+
+  it('detects top-level await only outside functions', () => {
+    expect(features('main.mjs', 'await init();')).toEqual(['top-level-await:1'])
+    expect(features('main.mjs', 'async function main() { await init(); }')).toEqual(['async-functions:1'])
+  })
+})
+
+describe('detectFeatures in CSS', () => {
+  it('detects properties, selectors and at-rules', () => {
+    const css = [
+      '.card {',
+      '  backdrop-filter: blur(4px);',
+      '  inset: 0;',
+      '}',
+      '.menu:has(> .open) { color: red; }',
+      '@layer base { p { margin: 0; } }',
+    ].join('\n')
+
+    expect(features('site.css', css)).toEqual([
+      'css-backdrop-filter:2',
+      'css-inset:3',
+      'css-has:5',
+      'css-cascade-layers:6',
+    ])
+  })
+
+  it('only treats gap as flexbox gap outside grid layouts', () => {
+    expect(detectFeatures('a.css', '.row { display: flex; gap: 8px; }')).toMatchObject([
+      { feature: 'flexbox-gap', confidence: 0.95 },
+    ])
+    expect(features('a.css', '.grid { display: grid; gap: 8px; }')).toEqual(['css-grid:1'])
+    expect(detectFeatures('a.css', '.row { gap: 8px; }')).toMatchObject([{ feature: 'flexbox-gap', confidence: 0.5 }])
+  })
+
+  it('marks prefixed and @supports-guarded usages', () => {
+    const css = [
+      '.glass {',
+      '  -webkit-backdrop-filter: blur(4px);',
+      '  backdrop-filter: blur(4px);',
+      '}',
+      '@supports (aspect-ratio: 1) { .box { aspect-ratio: 16 / 9; } }',
+    ].join('\n')
+
+    expect(detectFeatures('a.css', css)).toMatchObject([
+      { feature: 'css-backdrop-filter', line: 3, prefixed: true },
+      { feature: 'css-aspect-ratio', line: 5, guarded: true },
+    ])
+  })
+
+  it('throws on invalid CSS', () => {
+    expect(() => detectFeatures('broken.css', '.card { color: red;')).toThrow('Unclosed block')
+  })
+})
@@ -0,0 +1,97 @@
+import { isSarifFileName, isSarifLog, sarifToSecurityLogEntries } from '@/lib/upload/sarif-import'
+
+describe('SARIF import', () => {
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'CodeQL',
+            semanticVersion: '2.15.0',
+            rules: [],
+          },
+          extensions: [
+            {
+              name: 'codeql/javascript-queries',
+              rules: [
+                {
+                  id: 'js/sql-injection',
+                  name: 'Database query built from user-controlled sources',
+                  defaultConfiguration: { level: 'error' },
+                  properties: { 'security-severity': '8.8', tags: ['security', 'external/cwe/cwe-089'] },
+                  helpUri: 'https://codeql.github.com/codeql-query-help/javascript/js-sql-injection/',
+                },
+              ],
+            },
+          ],
+        },
+        invocations: [{ endTimeUtc: '2024-05-01T10:00:00Z' }],
+        results: [
+          {
+            ruleId: 'js/sql-injection',
+            rule: { id: 'js/sql-injection', index: 0, toolComponent: { index: 0 } },
+            message: { text: 'This query depends on a {0}.', arguments: ['user-provided value'] },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: 'src/db.js', uriBaseId: '%SRCROOT%' },
+                  region: { startLine: 12, startColumn: 5, endColumn: 40 },
+                },
+              },
+            ],
+            partialFingerprints: { primaryLocationLineHash: 'abc:1' },
+          },
+        ],
+      },
+      {
+        tool: {
+          driver: {
+            name: 'Semgrep',
+            rules: [{ id: 'python.lang.security.eval', shortDescription: { text: 'Avoid eval' } }],
+          },
+        },
+        results: [{ ruleId: 'python.lang.security.eval', ruleIndex: 0, level: 'note', message: {} }],
+      },
+    ],
+  }
+
+  it('recognizes SARIF by name and content', () => {
+    expect(isSarifFileName('results.sarif')).toBe(true)
+    expect(isSarifFileName('codeql.sarif.json')).toBe(true)
+    expect(isSarifFileName('results.json')).toBe(false)
+    expect(isSarifLog(log)).toBe(true)
+    expect(isSarifLog([{ tool: 'x' }])).toBe(false)
+    expect(isSarifLog({ runs: 'x', version: '2.1.0' })).toBe(false)
+  })
+
+  it('maps results onto security log rows with rule ids, locations and levels', () => {
+    const [codeql, semgrep] = sarifToSecurityLogEntries(log)
+
+    expect(codeql).toEqual({
+      timestamp: '2024-05-01T10:00:00Z',
+      tool: 'CodeQL',
+      severity: 'high',
+      category: 'js/sql-injection',
+      message: 'This query depends on a user-provided value.',
+      details: {
+        ruleId: 'js/sql-injection',
+        ruleName: 'Database query built from user-controlled sources',
+        level: 'error',
+        locations: [{ uri: 'src/db.js', uriBaseId: '%SRCROOT%', startLine: 12, startColumn: 5, endColumn: 40 }],
+        tags: ['security', 'external/cwe/cwe-089'],
+        helpUri: 'https://codeql.github.com/codeql-query-help/javascript/js-sql-injection/',
+        fingerprints: { primaryLocationLineHash: 'abc:1' },
+        toolVersion: '2.15.0',
+      },
+    })
+    expect(semgrep).toMatchObject({
+      tool: 'Semgrep',
+      severity: 'low',
+      category: 'python.lang.security.eval',
+      message: 'Avoid eval',
+      details: { level: 'note', locations: [] },
+    })
+  })
+})
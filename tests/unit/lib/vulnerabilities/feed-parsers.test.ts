@@ -0,0 +1,176 @@
+import { FeedParseError, parseVulnerabilityFeed } from '@/lib/vulnerabilities/feed-parsers'
+
+describe('parseVulnerabilityFeed', () => {
+  it('parses OSV records with CVSS vectors, ranges and aliases', () => {
+    const record = {
+      id: 'GHSA-jf85-cpcp-j695',
+      aliases: ['CVE-2019-10744'],
+      summary: 'Prototype Pollution in lodash',
+      details: 'Versions of lodash before 4.17.12 are vulnerable to Prototype Pollution.',
+      modified: '2024-01-10T05:02:18Z',
+      published: '2019-07-10T19:45:23Z',
+      severity: [{ type: 'CVSS_V3', score: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' }],
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'lodash' },
+          ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.12' }] }],
+        },
+        {
+          package: { ecosystem: 'PyPI', name: 'Some_Package' },
+          versions: ['1.0'],
+        },
+      ],
+      references: [{ type: 'ADVISORY', url: 'https://nvd.nist.gov/vuln/detail/CVE-2019-10744' }],
+      database_specific: { cwe_ids: ['CWE-1321'], severity: 'CRITICAL' },
+    }
+
+    const feed = parseVulnerabilityFeed(JSON.stringify([record]), 'osv.json')
+
+    expect(feed.format).toBe('osv')
+    expect(feed.advisories).toEqual([
+      {
+        id: 'GHSA-jf85-cpcp-j695',
+        source: 'osv',
+        aliases: ['CVE-2019-10744'],
+        summary: 'Prototype Pollution in lodash',
+        details: 'Versions of lodash before 4.17.12 are vulnerable to Prototype Pollution.',
+        severity: 'critical',
+        cvssScore: 9.8,
+        cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+        cweIds: ['CWE-1321'],
+        cveIds: ['CVE-2019-10744'],
+        references: ['https://nvd.nist.gov/vuln/detail/CVE-2019-10744'],
+        publishedAt: new Date('2019-07-10T19:45:23Z'),
+        modifiedAt: new Date('2024-01-10T05:02:18Z'),
+        withdrawnAt: null,
+        affected: [
+          {
+            ecosystem: 'npm',
+            name: 'lodash',
+            ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.12' }] }],
+            versions: [],
+          },
+          { ecosystem: 'pypi', name: 'some-package', ranges: [], versions: ['1.0'] },
+        ],
+      },
+    ])
+  })
+
+  it('maps NVD 2.0 CPE matches onto packages and skips placeholder CWEs', () => {
+    const feed = parseVulnerabilityFeed(JSON.stringify({
+      format: 'NVD_CVE',
+      version: '2.0',
+      vulnerabilities: [
+        {
+          cve: {
+            id: 'CVE-2022-24999',
+            published: '2022-11-26T22:15:10.153',
+            lastModified: '2023-11-07T03:44:57.763',
+            vulnStatus: 'Modified',
+            descriptions: [{ lang: 'en', value: 'qs before 6.10.3 allows attackers to cause a Node process hang. Details follow.' }],
+            metrics: {
+              cvssMetricV31: [
+                { source: 'nvd@nist.gov', type: 'Primary', cvssData: { baseScore: 7.5, vectorString: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:H' } },
+              ],
+            },
+            weaknesses: [{ description: [{ lang: 'en', value: 'CWE-1321' }, { lang: 'en', value: 'NVD-CWE-Other' }] }],
+            configurations: [
+              {
+                nodes: [
+                  {
+                    operator: 'OR',
+                    cpeMatch: [
+                      { vulnerable: true, criteria: 'cpe:2.3:a:qs_project:qs:*:*:*:*:*:node.js:*:*', versionEndExcluding: '6.10.3' },
+                      { vulnerable: false, criteria: 'cpe:2.3:o:linux:linux_kernel:-:*:*:*:*:*:*:*' },
+                    ],
+                  },
+                ],
+              },
+            ],
+            references: [{ url: 'https://github.com/ljharb/qs/pull/428' }],
+          },
+        },
+        { cve: { id: 'CVE-2020-0001', vulnStatus: 'Rejected', descriptions: [], lastModified: '2021-01-01T00:00:00' } },
+      ],
+    }))
+
+    expect(feed.format).toBe('nvd')
+    expect(feed.advisories[0]).toMatchObject({
+      id: 'CVE-2022-24999',
+      source: 'nvd',
+      summary: 'qs before 6.10.3 allows attackers to cause a Node process hang.',
+      severity: 'high',
+      cvssScore: 7.5,
+      cweIds: ['CWE-1321'],
+      cveIds: ['CVE-2022-24999'],
+      withdrawnAt: null,
+      affected: [{ ecosystem: 'npm', name: 'qs', ranges: [{ type: 'CPE', endExcluding: '6.10.3' }], versions: [] }],
+    })
+    expect(feed.advisories[1]!.withdrawnAt).toBeInstanceOf(Date)
+  })
+
+  it('reads nested configurations and CVSS v2 scores from NVD 1.1 feeds', () => {
+    const feed = parseVulnerabilityFeed(JSON.stringify({
+      CVE_data_type: 'CVE',
+      CVE_Items: [
+        {
+          cve: {
+            CVE_data_meta: { ID: 'CVE-2014-0160' },
+            problemtype: { problemtype_data: [{ description: [{ value: 'CWE-125' }] }] },
+            description: { description_data: [{ lang: 'en', value: 'The TLS heartbeat extension in OpenSSL leaks memory.' }] },
+            references: { reference_data: [] },
+          },
+          configurations: {
+            nodes: [
+              {
+                operator: 'AND',
+                children: [
+                  { operator: 'OR', cpe_match: [{ vulnerable: true, cpe23Uri: 'cpe:2.3:a:openssl:openssl:1.0.1f:*:*:*:*:*:*:*' }] },
+                ],
+              },
+            ],
+          },
+          impact: { baseMetricV2: { cvssV2: { baseScore: 5, vectorString: 'AV:N/AC:L/Au:N/C:P/I:N/A:N' } } },
+          publishedDate: '2014-04-07T22:55Z',
+          lastModifiedDate: '2020-10-15T13:29Z',
+        },
+      ],
+    }))
+
+    expect(feed.advisories[0]).toMatchObject({
+      id: 'CVE-2014-0160',
+      severity: 'medium',
+      cvssScore: 5,
+      cweIds: ['CWE-125'],
+      affected: [{ ecosystem: 'generic', name: 'openssl', ranges: [], versions: ['1.0.1f'] }],
+    })
+  })
+
+  it('reads the CWE catalog as XML or CSV', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Weakness_Catalog Name="CWE" Version="4.14">
+  <Weaknesses>
+    <Weakness ID="79" Name="Improper Neutralization of Input During Web Page Generation ('Cross-site Scripting')" Abstraction="Base">
+      <Description>The product does not neutralize user-controllable input.</Description>
+    </Weakness>
+    <Weakness ID="89" Name="Improper Neutralization of Special Elements used in an SQL Command ('SQL Injection')">
+      <Description>The product constructs an SQL command.</Description>
+    </Weakness>
+  </Weaknesses>
+</Weakness_Catalog>`
+    const csv = 'CWE-ID,Name,Weakness Abstraction,Description\n1321,Prototype Pollution,Variant,Object prototype attributes are modified.\n'
+
+    expect(parseVulnerabilityFeed(xml, 'cwec_v4.14.xml').weaknesses.map(weakness => weakness.id)).toEqual(['CWE-79', 'CWE-89'])
+    expect(parseVulnerabilityFeed(csv, '1000.csv')).toEqual({
+      format: 'cwe',
+      advisories: [],
+      weaknesses: [{ id: 'CWE-1321', name: 'Prototype Pollution', description: 'Object prototype attributes are modified.' }],
+      warnings: [],
+    })
+  })
+
+  it('rejects documents that are not vulnerability feeds', () => {
+    expect(() => parseVulnerabilityFeed('{"name":"app","version":"1.0.0"}', 'package.json')).toThrow(FeedParseError)
+    expect(() => parseVulnerabilityFeed('not json', 'feed.json')).toThrow('Invalid JSON in feed.json')
+  })
+})
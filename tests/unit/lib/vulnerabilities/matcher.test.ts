@@ -0,0 +1,155 @@
+import { matchVulnerabilities, vulnerabilityResults } from '@/lib/vulnerabilities/matcher'
+import { affectedVersion, compareGenericVersions } from '@/lib/vulnerabilities/version-ranges'
+import { cvss3BaseScore } from '@/lib/vulnerabilities/cvss'
+import type { VulnerabilityAdvisory } from '@/lib/vulnerabilities/types'
+import type { InventoryComponent } from '@/lib/inventory/types'
+
+describe('vulnerability matching', () => {
+  const advisory = (fields: Partial<VulnerabilityAdvisory>): VulnerabilityAdvisory => ({
+    id: 'GHSA-0000',
+    source: 'osv',
+    aliases: [],
+    summary: '',
+    details: '',
+    severity: null,
+    cvssScore: null,
+    cvssVector: null,
+    cweIds: [],
+    cveIds: [],
+    references: [],
+    publishedAt: null,
+    modifiedAt: null,
+    withdrawnAt: null,
+    affected: [],
+    ...fields,
+  })
+
+  const component = (name: string, version: string, ecosystem: InventoryComponent['ecosystem'] = 'npm'): InventoryComponent => ({
+    name,
+    version,
+    ecosystem,
+    manifest: 'package-lock',
+    purl: `pkg:${ecosystem}/${name}@${version}`,
+    direct: true,
+    dev: false,
+  })
+
+  it('computes CVSS v3 base scores', () => {
+    expect(cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toBe(9.8)
+    expect(cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N')).toBe(6.1)
+    expect(cvss3BaseScore('CVSS:3.0/AV:L/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N')).toBe(5.5)
+    expect(cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N')).toBe(0)
+    expect(cvss3BaseScore('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toBeNull()
+  })
+
+  it('orders non-semver versions with pre-release and post-release qualifiers', () => {
+    expect(compareGenericVersions('2.10', '2.9')).toBe(1)
+    expect(compareGenericVersions('1.0rc1', '1.0')).toBe(-1)
+    expect(compareGenericVersions('1.0.post1', '1.0')).toBe(1)
+    expect(compareGenericVersions('1.0-SNAPSHOT', '1.0')).toBe(-1)
+    expect(compareGenericVersions('1.0.Final', '1.0')).toBe(0)
+    expect(compareGenericVersions('1.0a1', '1.0b2')).toBe(-1)
+  })
+
+  it('evaluates OSV ranges and reports the next fixed version', () => {
+    const affected = {
+      ecosystem: 'pypi',
+      name: 'django',
+      ranges: [
+        { type: 'ECOSYSTEM' as const, events: [{ introduced: '3.2' }, { fixed: '3.2.19' }, { introduced: '4.0' }, { fixed: '4.1.9' }] },
+        { type: 'ECOSYSTEM' as const, events: [{ introduced: '4.2a1' }, { last_affected: '4.2' }] },
+      ],
+      versions: [],
+    }
+
+    expect(affectedVersion(affected, '3.2.18')).toEqual({ affected: true, fixedVersions: ['3.2.19'] })
+    expect(affectedVersion(affected, '3.2.19')).toEqual({ affected: false, fixedVersions: [] })
+    expect(affectedVersion(affected, '4.1')).toEqual({ affected: true, fixedVersions: ['4.1.9'] })
+    expect(affectedVersion(affected, '4.2rc1')).toEqual({ affected: true, fixedVersions: [] })
+    expect(affectedVersion(affected, '4.2.1')).toEqual({ affected: false, fixedVersions: [] })
+    expect(affectedVersion(affected, '3.1')).toEqual({ affected: false, fixedVersions: [] })
+  })
+
+  it('prefers OSV advisories over NVD records for the same CVE and enriches them', () => {
+    const osv = advisory({
+      id: 'GHSA-p6mc-m468-83gw',
+      aliases: ['CVE-2020-8203'],
+      cveIds: ['CVE-2020-8203'],
+      summary: 'Prototype Pollution in lodash',
+      severity: 'high',
+      affected: [{
+        ecosystem: 'npm',
+        name: 'lodash',
+        ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.19' }] }],
+        versions: [],
+      }],
+    })
+    const nvd = advisory({
+      id: 'CVE-2020-8203',
+      source: 'nvd',
+      cveIds: ['CVE-2020-8203'],
+      severity: 'high',
+      cvssScore: 7.4,
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:N/I:H/A:H',
+      cweIds: ['CWE-770'],
+      affected: [{ ecosystem: 'npm', name: 'lodash', ranges: [{ type: 'CPE', endExcluding: '4.17.19' }], versions: [] }],
+    })
+    const withdrawn = advisory({
+      id: 'GHSA-withdrawn',
+      withdrawnAt: new Date('2024-01-01'),
+      affected: [{ ecosystem: 'npm', name: 'lodash', ranges: [], versions: ['4.17.15'] }],
+    })
+
+    const matches = matchVulnerabilities(
+      [component('lodash', '4.17.15'), component('lodash', '4.17.21')],
+      [osv, nvd, withdrawn],
+      { weaknesses: new Map([['CWE-770', 'Allocation of Resources Without Limits or Throttling']]), now: new Date('2024-06-01') }
+    )
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ fixedVersions: ['4.17.19'], approximate: false })
+    expect(matches[0]!.vulnerability).toEqual({
+      externalId: 'GHSA-p6mc-m468-83gw',
+      title: 'Prototype Pollution in lodash',
+      description: 'Prototype Pollution in lodash',
+      severity: 'high',
+      category: 'Allocation of Resources Without Limits or Throttling',
+      cweId: 'CWE-770',
+      cveId: 'CVE-2020-8203',
+      cvssScore: 7.4,
+      file: 'pkg:npm/lodash@4.17.15',
+      status: 'open',
+      firstDetected: new Date('2024-06-01'),
+      lastUpdated: new Date('2024-06-01'),
+    })
+  })
+
+  it('matches NVD CPE products by name and reports matches as failed results', () => {
+    const nvd = advisory({
+      id: 'CVE-2021-44228',
+      source: 'nvd',
+      cveIds: ['CVE-2021-44228'],
+      summary: 'Apache Log4j2 JNDI features do not protect against attacker controlled LDAP endpoints.',
+      severity: 'critical',
+      cvssScore: 10,
+      affected: [{ ecosystem: 'generic', name: 'log4j', ranges: [{ type: 'CPE', startIncluding: '2.0.1', endExcluding: '2.15.0' }], versions: [] }],
+    })
+
+    const matches = matchVulnerabilities(
+      [component('org.apache.logging.log4j:log4j', '2.14.1', 'maven'), component('Django', '4.2', 'pypi')],
+      [nvd]
+    )
+    const [result] = vulnerabilityResults(matches, { source: 'pom.xml' })
+
+    expect(matches.map(match => match.approximate)).toEqual([true])
+    expect(result).toMatchObject({
+      ruleId: 'vulnerability:CVE-2021-44228',
+      status: 'failed',
+      severity: 'critical',
+      message: 'Vulnerable dependency: org.apache.logging.log4j:log4j@2.14.1 is affected by CVE-2021-44228 - Apache Log4j2 JNDI features do not protect against attacker controlled LDAP endpoints.',
+      recommendations: 'Upgrade org.apache.logging.log4j:log4j to 2.15.0 or later.',
+      affectedComponents: ['Package: org.apache.logging.log4j:log4j@2.14.1', 'Manifest: pom.xml'],
+      confidence: 0.7,
+    })
+  })
+})